@@ -77,6 +77,7 @@ import { UpdateBanner } from "@/components/UpdateBanner";
 import { PendingSyncBanner } from "@/components/PendingSyncBanner";
 import { FloatingChatProvider } from "@/contexts/FloatingChatContext";
 import { SearchProvider } from "@/contexts/SearchContext";
+import { CookingTimersProvider } from "@/contexts/CookingTimersContext";
 import {
   OnboardingProvider,
   useOnboardingStatus,
@@ -310,7 +311,9 @@ function RootWrapper() {
               <SubscriptionProvider>
                 <OnboardingProvider>
                   <SearchProvider>
-                    <MobileAppContent />
+                    <CookingTimersProvider>
+                      <MobileAppContent />
+                    </CookingTimersProvider>
                   </SearchProvider>
                 </OnboardingProvider>
               </SubscriptionProvider>
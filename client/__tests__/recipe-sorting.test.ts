@@ -0,0 +1,77 @@
+import { sortRecipesByCookStats } from "../lib/recipe-sorting";
+import type { RecipeCookStats } from "../lib/types";
+
+const now = new Date("2026-10-18T12:00:00.000Z");
+
+function daysAgo(days: number): string {
+  return new Date(now.getTime() - days * 86_400_000).toISOString();
+}
+
+const recipes = [
+  { id: "never" },
+  { id: "weekly" },
+  { id: "once-long-ago" },
+  { id: "loved" },
+];
+
+const stats = new Map<string, RecipeCookStats>(
+  [
+    {
+      recipeId: "weekly",
+      timesCooked: 6,
+      lastCookedAt: daysAgo(3),
+      averageRating: 3.5,
+      ratingCount: 4,
+    },
+    {
+      recipeId: "once-long-ago",
+      timesCooked: 1,
+      lastCookedAt: daysAgo(90),
+      averageRating: null,
+      ratingCount: 0,
+    },
+    {
+      recipeId: "loved",
+      timesCooked: 2,
+      lastCookedAt: daysAgo(40),
+      averageRating: 5,
+      ratingCount: 2,
+    },
+  ].map((s) => [s.recipeId, s]),
+);
+
+const ids = (list: { id: string }[]) => list.map((r) => r.id);
+
+describe("sortRecipesByCookStats", () => {
+  it("keeps the saved order for recent", () => {
+    expect(ids(sortRecipesByCookStats(recipes, stats, "recent", now))).toEqual([
+      "never",
+      "weekly",
+      "once-long-ago",
+      "loved",
+    ]);
+  });
+
+  it("puts the most cooked first and never-cooked last", () => {
+    expect(
+      ids(sortRecipesByCookStats(recipes, stats, "mostCooked", now)),
+    ).toEqual(["weekly", "loved", "once-long-ago", "never"]);
+  });
+
+  it("orders by average rating, unrated last", () => {
+    expect(
+      ids(sortRecipesByCookStats(recipes, stats, "topRated", now)),
+    ).toEqual(["loved", "weekly", "once-long-ago", "never"]);
+  });
+
+  it("shows only recipes not cooked in 30 days, longest ago first", () => {
+    expect(
+      ids(sortRecipesByCookStats(recipes, stats, "notCookedLately", now)),
+    ).toEqual(["once-long-ago", "loved", "never"]);
+  });
+
+  it("does not reorder the input array", () => {
+    sortRecipesByCookStats(recipes, stats, "mostCooked", now);
+    expect(ids(recipes)).toEqual(["never", "weekly", "once-long-ago", "loved"]);
+  });
+});
@@ -442,6 +442,41 @@ describe("Smart Recipe Generation", () => {
 
         expect(prompt).not.toContain("Diet:");
       });
+
+      it("includes household tastes from cook log ratings", () => {
+        const prompt = buildSmartPrompt({
+          expiringItems: [],
+          otherItems: [{ id: 1, name: "Rice" }],
+          prioritizeExpiring: false,
+          servings: 4,
+          maxTime: 60,
+          quickRecipe: false,
+          tasteProfile: {
+            loved: ["Tomato Soup"],
+            disliked: ["Green Curry"],
+            favoriteCuisines: ["Italian"],
+          },
+        });
+
+        expect(prompt).toContain("HOUSEHOLD TASTES");
+        expect(prompt).toContain("Loved: Tomato Soup");
+        expect(prompt).toContain("Didn't enjoy: Green Curry");
+        expect(prompt).toContain("Favorite cuisines: Italian");
+      });
+
+      it("omits household tastes when nothing has been rated", () => {
+        const prompt = buildSmartPrompt({
+          expiringItems: [],
+          otherItems: [{ id: 1, name: "Rice" }],
+          prioritizeExpiring: false,
+          servings: 4,
+          maxTime: 60,
+          quickRecipe: false,
+          tasteProfile: { loved: [], disliked: [], favoriteCuisines: [] },
+        });
+
+        expect(prompt).not.toContain("HOUSEHOLD TASTES");
+      });
     });
 
     describe("Recipe instructions based on prioritization", () => {
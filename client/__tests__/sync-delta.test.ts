@@ -0,0 +1,207 @@
+import {
+  applyPulledChanges,
+  buildDeltaChanges,
+  deltaKey,
+  keepLocalFields,
+  type DeltaSections,
+} from "@/lib/sync-delta";
+import type { SyncQueueItem } from "@/lib/sync-types";
+
+function queueItem(overrides: Partial<SyncQueueItem>): SyncQueueItem {
+  return {
+    id: "q1",
+    dataType: "inventory",
+    operation: "update",
+    data: { id: "item1", name: "Apples" },
+    timestamp: "2026-01-01T00:00:00.000Z",
+    retryCount: 0,
+    ...overrides,
+  };
+}
+
+function emptySections(): DeltaSections {
+  return { inventory: [], recipes: [], mealPlans: [], shoppingList: [] };
+}
+
+describe("buildDeltaChanges", () => {
+  it("attaches the stored base revision and record to each change", () => {
+    const bases = {
+      [deltaKey("inventory", "item1")]: {
+        revision: 7,
+        record: { id: "item1", name: "Apple" },
+      },
+    };
+
+    const { changes, queueIds } = buildDeltaChanges([queueItem({})], bases);
+
+    expect(queueIds).toEqual(["q1"]);
+    expect(changes).toEqual([
+      {
+        dataType: "inventory",
+        id: "item1",
+        op: "upsert",
+        baseRevision: 7,
+        base: { id: "item1", name: "Apple" },
+        record: { id: "item1", name: "Apples" },
+      },
+    ]);
+  });
+
+  it("sends deletes without a record and skips fatal items", () => {
+    const { changes, queueIds } = buildDeltaChanges(
+      [
+        queueItem({ id: "q1", operation: "delete", data: { id: "item1" } }),
+        queueItem({ id: "q2", isFatal: true, data: { id: "item2" } }),
+      ],
+      {},
+    );
+
+    expect(queueIds).toEqual(["q1"]);
+    expect(changes).toHaveLength(1);
+    expect(changes[0].op).toBe("delete");
+    expect(changes[0].baseRevision).toBeNull();
+    expect(changes[0]).not.toHaveProperty("record");
+  });
+});
+
+describe("applyPulledChanges", () => {
+  it("upserts and removes records and tracks their bases", () => {
+    const sections = emptySections();
+    sections.inventory = [
+      { id: "item1", name: "Apples", quantity: 1 },
+      { id: "item2", name: "Milk" },
+    ];
+
+    const { sections: next, bases } = applyPulledChanges(
+      sections,
+      {},
+      {
+        reset: false,
+        changes: [
+          {
+            dataType: "inventory",
+            id: "item1",
+            revision: 10,
+            deleted: false,
+            record: { id: "item1", name: "Apples", quantity: 3 },
+          },
+          {
+            dataType: "inventory",
+            id: "item2",
+            revision: 11,
+            deleted: true,
+            record: null,
+          },
+          {
+            dataType: "shoppingList",
+            id: "s1",
+            revision: 12,
+            deleted: false,
+            record: { id: "s1", name: "Bread" },
+          },
+        ],
+      },
+    );
+
+    expect(next.inventory).toEqual([
+      { id: "item1", name: "Apples", quantity: 3 },
+    ]);
+    expect(next.shoppingList).toEqual([{ id: "s1", name: "Bread" }]);
+    expect(bases[deltaKey("inventory", "item1")].revision).toBe(10);
+    expect(bases[deltaKey("inventory", "item2")]).toBeUndefined();
+  });
+
+  it("keeps the local copy of records with pending changes but advances the base", () => {
+    const sections = emptySections();
+    sections.inventory = [{ id: "item1", name: "Local edit" }];
+
+    const { sections: next, bases } = applyPulledChanges(
+      sections,
+      {},
+      {
+        reset: false,
+        changes: [
+          {
+            dataType: "inventory",
+            id: "item1",
+            revision: 4,
+            deleted: false,
+            record: { id: "item1", name: "Server" },
+          },
+        ],
+      },
+      new Set([deltaKey("inventory", "item1")]),
+    );
+
+    expect(next.inventory).toEqual([{ id: "item1", name: "Local edit" }]);
+    expect(bases[deltaKey("inventory", "item1")].record.name).toBe("Server");
+  });
+
+  it("rebuilds sections on reset while keeping records still waiting to be pushed", () => {
+    const sections = emptySections();
+    sections.inventory = [
+      { id: "stale", name: "Old household item" },
+      { id: "pending", name: "Just added" },
+    ];
+    const bases = {
+      [deltaKey("inventory", "stale")]: {
+        revision: 3,
+        record: { id: "stale" },
+      },
+    };
+
+    const { sections: next, bases: nextBases } = applyPulledChanges(
+      sections,
+      bases,
+      {
+        reset: true,
+        changes: [
+          {
+            dataType: "inventory",
+            id: "fresh",
+            revision: 20,
+            deleted: false,
+            record: { id: "fresh", name: "Eggs" },
+          },
+        ],
+      },
+      new Set([deltaKey("inventory", "pending")]),
+    );
+
+    expect(next.inventory.map((r) => r.id)).toEqual(["fresh", "pending"]);
+    expect(nextBases[deltaKey("inventory", "stale")]).toBeUndefined();
+  });
+
+  it("ignores sections the client does not store", () => {
+    const { sections: next } = applyPulledChanges(
+      emptySections(),
+      {},
+      {
+        reset: false,
+        changes: [
+          {
+            dataType: "cookware",
+            id: "1",
+            revision: 2,
+            deleted: false,
+            record: { id: "1" },
+          },
+        ],
+      },
+    );
+
+    expect(next).toEqual(emptySections());
+  });
+});
+
+describe("keepLocalFields", () => {
+  it("re-applies only the conflicting local fields on top of the server copy", () => {
+    const result = keepLocalFields(
+      { id: "item1", name: "Server name", quantity: 5, revision: 9 },
+      { id: "item1", name: "Local name", quantity: 2 },
+      ["name"],
+    );
+
+    expect(result).toEqual({ id: "item1", name: "Local name", quantity: 5 });
+  });
+});
@@ -293,6 +293,45 @@ describe("Voice Command Parsing", () => {
     });
   });
 
+  describe("Timer commands", () => {
+    const recipeContext: ScreenContext = "recipe_detail";
+
+    it("parses 'set a timer for 10 minutes'", () => {
+      const result = parseVoiceCommand(
+        "Set a timer for 10 minutes",
+        recipeContext,
+      );
+      expect(result.intent).toBe("START_TIMER");
+      expect(result.entities.duration).toBe("10 minutes");
+    });
+
+    it("parses 'start the timer' without a duration", () => {
+      const result = parseVoiceCommand("start the timer", recipeContext);
+      expect(result.intent).toBe("START_TIMER");
+      expect(result.entities.duration).toBe("");
+    });
+
+    it("parses 'how much time is left'", () => {
+      const result = parseVoiceCommand("how much time is left", recipeContext);
+      expect(result.intent).toBe("CHECK_TIMER");
+    });
+
+    it("parses 'check the timer'", () => {
+      const result = parseVoiceCommand("check the timer", recipeContext);
+      expect(result.intent).toBe("CHECK_TIMER");
+    });
+
+    it("parses 'cancel the timer'", () => {
+      const result = parseVoiceCommand("cancel the timer", recipeContext);
+      expect(result.intent).toBe("CANCEL_TIMER");
+    });
+
+    it("parses 'stop all timers' before the plain stop command", () => {
+      const result = parseVoiceCommand("stop all timers", recipeContext);
+      expect(result.intent).toBe("CANCEL_TIMER");
+    });
+  });
+
   describe("WHAT_EXPIRES commands", () => {
     it("parses 'what is expiring soon'", () => {
       const result = parseVoiceCommand("what is expiring soon");
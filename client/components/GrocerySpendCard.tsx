@@ -0,0 +1,359 @@
+import React, { useState, useCallback } from "react";
+import { View, StyleSheet, TextInput, Pressable } from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { GlassCard } from "@/components/GlassCard";
+import { GlassButton } from "@/components/GlassButton";
+import { useTheme } from "@/hooks/useTheme";
+import { useGroceryBudget } from "@/hooks/useGroceryBudget";
+import { Spacing, BorderRadius, AppColors } from "@/constants/theme";
+import type { BudgetStatus } from "@/lib/types";
+import { logger } from "@/lib/logger";
+
+const STATUS_COLORS: Record<BudgetStatus, string> = {
+  none: AppColors.primary,
+  under: AppColors.success,
+  near: AppColors.warning,
+  over: AppColors.error,
+};
+
+const MONTH_LABELS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+function monthLabel(month: string): string {
+  return MONTH_LABELS[Number(month.slice(5, 7)) - 1] ?? month;
+}
+
+function formatMoney(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+export function GrocerySpendCard() {
+  const { theme } = useTheme();
+  const { summary, history, setBudget, refetch } = useGroceryBudget();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      refetch();
+    }, [refetch]),
+  );
+
+  if (!summary) {
+    return null;
+  }
+
+  const statusColor = STATUS_COLORS[summary.status];
+  const spentPercent =
+    summary.budget && summary.budget > 0
+      ? Math.min(100, (summary.spent / summary.budget) * 100)
+      : 0;
+  const chartMax = Math.max(
+    1,
+    ...history.map((m) => Math.max(m.spent, m.budget ?? 0)),
+  );
+
+  const startEditing = () => {
+    setDraft(summary.budget ? String(summary.budget) : "");
+    setEditing(true);
+  };
+
+  const saveBudget = async () => {
+    const amount = parseFloat(draft);
+    if (!Number.isFinite(amount) || amount <= 0) return;
+    setSaving(true);
+    try {
+      await setBudget({ amount });
+      setEditing(false);
+    } catch (e) {
+      logger.error("Failed to save grocery budget", e);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <GlassCard
+      style={styles.card}
+      testID="section-grocery-budget"
+      accessibilityRole="summary"
+      accessibilityLabel="Grocery spending against budget"
+    >
+      <View style={styles.header}>
+        <ThemedText type="h4">Grocery Spending</ThemedText>
+        <Pressable
+          onPress={startEditing}
+          accessibilityRole="button"
+          accessibilityLabel={
+            summary.budget ? "Edit grocery budget" : "Set grocery budget"
+          }
+          testID="button-edit-budget"
+        >
+          <Feather name="edit-2" size={16} color={theme.textSecondary} />
+        </Pressable>
+      </View>
+
+      <View style={styles.totals}>
+        <ThemedText
+          type="h2"
+          style={{ color: statusColor }}
+          testID="text-month-spend"
+        >
+          {formatMoney(summary.spent)}
+        </ThemedText>
+        <ThemedText type="caption">
+          {summary.budget
+            ? `of ${formatMoney(summary.budget)} budget · ${summary.receiptCount} receipts`
+            : `${summary.receiptCount} receipts this month`}
+        </ThemedText>
+      </View>
+
+      {summary.budget ? (
+        <View
+          style={[styles.track, { backgroundColor: theme.backgroundSecondary }]}
+          accessibilityRole="progressbar"
+          accessibilityValue={{
+            min: 0,
+            max: 100,
+            now: Math.round(spentPercent),
+          }}
+        >
+          <View
+            style={[
+              styles.fill,
+              { width: `${spentPercent}%`, backgroundColor: statusColor },
+            ]}
+          />
+        </View>
+      ) : null}
+
+      {summary.remaining !== null ? (
+        <ThemedText
+          type="small"
+          style={{ color: statusColor }}
+          testID="text-budget-remaining"
+        >
+          {summary.remaining >= 0
+            ? `${formatMoney(summary.remaining)} left this month`
+            : `${formatMoney(-summary.remaining)} over budget`}
+        </ThemedText>
+      ) : null}
+
+      {editing ? (
+        <View style={styles.editRow}>
+          <TextInput
+            style={[
+              styles.input,
+              { backgroundColor: theme.backgroundSecondary, color: theme.text },
+            ]}
+            value={draft}
+            onChangeText={setDraft}
+            placeholder="Monthly budget"
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="decimal-pad"
+            testID="input-budget-amount"
+            accessibilityLabel="Monthly grocery budget"
+          />
+          <GlassButton
+            onPress={saveBudget}
+            loading={saving}
+            disabled={saving}
+            testID="button-save-budget"
+          >
+            Save
+          </GlassButton>
+        </View>
+      ) : null}
+
+      {summary.categories.length > 0 ? (
+        <View style={styles.categories}>
+          {summary.categories.slice(0, 6).map((c) => {
+            const max = c.budget ?? summary.spent;
+            const percent = max > 0 ? Math.min(100, (c.spent / max) * 100) : 0;
+            const over = c.budget !== null && c.spent > c.budget;
+            return (
+              <View key={c.category} style={styles.categoryRow}>
+                <View style={styles.categoryLabel}>
+                  <ThemedText type="small" style={styles.categoryName}>
+                    {c.category}
+                  </ThemedText>
+                  <ThemedText type="small">
+                    {formatMoney(c.spent)}
+                    {c.budget !== null ? ` / ${formatMoney(c.budget)}` : ""}
+                  </ThemedText>
+                </View>
+                <View
+                  style={[
+                    styles.track,
+                    { backgroundColor: theme.backgroundSecondary },
+                  ]}
+                >
+                  <View
+                    style={[
+                      styles.fill,
+                      {
+                        width: `${percent}%`,
+                        backgroundColor: over
+                          ? AppColors.error
+                          : AppColors.primary,
+                      },
+                    ]}
+                  />
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      ) : null}
+
+      {history.length > 1 ? (
+        <View style={styles.chart} testID="chart-grocery-spend">
+          {history.map((m) => {
+            const barHeight = Math.max(4, (m.spent / chartMax) * 80);
+            const budgetOffset =
+              m.budget !== null
+                ? Math.min(78, (m.budget / chartMax) * 80)
+                : null;
+            const color =
+              STATUS_COLORS[
+                m.budget === null
+                  ? "none"
+                  : m.spent > m.budget
+                    ? "over"
+                    : "under"
+              ];
+            return (
+              <View
+                key={m.month}
+                style={styles.barContainer}
+                accessibilityRole="text"
+                accessibilityLabel={`${monthLabel(m.month)}: spent ${formatMoney(m.spent)}${m.budget !== null ? ` of ${formatMoney(m.budget)}` : ""}`}
+              >
+                <View
+                  style={[
+                    styles.barTrack,
+                    { backgroundColor: theme.backgroundSecondary },
+                  ]}
+                >
+                  <View
+                    style={[
+                      styles.barFill,
+                      { height: barHeight, backgroundColor: color },
+                    ]}
+                  />
+                  {budgetOffset !== null ? (
+                    <View
+                      style={[
+                        styles.budgetMarker,
+                        { bottom: budgetOffset, backgroundColor: theme.text },
+                      ]}
+                    />
+                  ) : null}
+                </View>
+                <ThemedText type="caption" style={styles.barLabel}>
+                  {monthLabel(m.month)}
+                </ThemedText>
+              </View>
+            );
+          })}
+        </View>
+      ) : null}
+    </GlassCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    gap: Spacing.md,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  totals: {
+    gap: Spacing.xs,
+  },
+  track: {
+    height: 8,
+    borderRadius: BorderRadius.xs,
+    overflow: "hidden",
+  },
+  fill: {
+    height: "100%",
+    borderRadius: BorderRadius.xs,
+  },
+  editRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  input: {
+    flex: 1,
+    height: 40,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.md,
+  },
+  categories: {
+    gap: Spacing.sm,
+  },
+  categoryRow: {
+    gap: Spacing.xs,
+  },
+  categoryLabel: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  categoryName: {
+    textTransform: "capitalize",
+  },
+  chart: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+    alignItems: "flex-end",
+    height: 100,
+    paddingTop: Spacing.md,
+  },
+  barContainer: {
+    alignItems: "center",
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  barTrack: {
+    width: 16,
+    height: 80,
+    borderRadius: BorderRadius.sm,
+    justifyContent: "flex-end",
+    overflow: "hidden",
+  },
+  barFill: {
+    width: "100%",
+    borderRadius: BorderRadius.sm,
+  },
+  budgetMarker: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    height: 2,
+    opacity: 0.6,
+  },
+  barLabel: {
+    fontSize: 9,
+  },
+});
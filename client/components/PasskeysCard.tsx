@@ -0,0 +1,255 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from "react-native";
+import { Feather, MaterialCommunityIcons } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { GlassCard } from "@/components/GlassCard";
+import { Spacing, AppColors, BorderRadius } from "@/constants/theme";
+import { apiClient } from "@/lib/api-client";
+import { logger } from "@/lib/logger";
+import { useTheme } from "@/hooks/useTheme";
+import { usePasskeys } from "@/hooks/usePasskeys";
+import type { PasskeyCreationOptions, PasskeySummary } from "@/lib/types";
+
+const DEFAULT_PASSKEY_NAME = Platform.select({
+  ios: "iPhone passkey",
+  android: "Android passkey",
+  default: "Browser passkey",
+});
+
+function formatLastUsed(lastUsedAt: string | null): string {
+  if (!lastUsedAt) return "Never used";
+  return `Last used ${new Date(lastUsedAt).toLocaleDateString()}`;
+}
+
+export function PasskeysCard() {
+  const { theme, style: themeStyle } = useTheme();
+  const { isSupported, createPasskey, runWithStepUp } = usePasskeys();
+  const [passkeys, setPasskeys] = useState<PasskeySummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const fetchPasskeys = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setPasskeys(await apiClient.get<PasskeySummary[]>("/api/auth/passkeys"));
+    } catch (err: unknown) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(errMsg || "Failed to load passkeys");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPasskeys();
+  }, [fetchPasskeys]);
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    try {
+      const created = await runWithStepUp(async () => {
+        const options = await apiClient.post<PasskeyCreationOptions>("/api/auth/passkeys/register/options");
+        const response = await createPasskey(options);
+        if (!response) return null;
+        return apiClient.post<PasskeySummary>("/api/auth/passkeys/register", {
+          response,
+          name: DEFAULT_PASSKEY_NAME,
+        });
+      });
+      if (created) {
+        setPasskeys((prev) => [...prev, created]);
+      }
+    } catch (err: unknown) {
+      logger.error("Add passkey error:", err);
+      const errMsg = err instanceof Error ? err.message : String(err);
+      Alert.alert("Error", errMsg || "Failed to add passkey");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = (passkey: PasskeySummary) => {
+    Alert.alert(
+      "Remove Passkey",
+      `"${passkey.name}" will no longer be able to sign in to your account.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            setRemovingId(passkey.id);
+            try {
+              const remaining = await runWithStepUp(() =>
+                apiClient.delete<PasskeySummary[]>(`/api/auth/passkeys/${passkey.id}`),
+              );
+              if (remaining) setPasskeys(remaining);
+            } catch (err: unknown) {
+              const errMsg = err instanceof Error ? err.message : String(err);
+              Alert.alert("Error", errMsg || "Failed to remove passkey");
+            } finally {
+              setRemovingId(null);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <GlassCard style={styles.section}>
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Passkeys
+      </ThemedText>
+      <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+        Sign in with Face ID, Touch ID or your device PIN. Passkeys also confirm
+        sensitive actions like deleting your account.
+      </ThemedText>
+
+      {isLoading ? (
+        <View style={styles.centerContainer} testID="loading-passkeys">
+          <ActivityIndicator size="small" color={AppColors.primary} />
+        </View>
+      ) : error ? (
+        <View style={styles.centerContainer} testID="error-passkeys">
+          <Feather name="alert-circle" size={20} color={AppColors.error} />
+          <ThemedText type="caption" style={{ marginTop: Spacing.sm, color: AppColors.error }}>
+            {error}
+          </ThemedText>
+          <Pressable
+            style={[styles.retryButton, { borderColor: themeStyle.glass?.border }]}
+            onPress={fetchPasskeys}
+            testID="button-retry-passkeys"
+            accessibilityRole="button"
+            accessibilityLabel="Retry loading passkeys"
+          >
+            <ThemedText type="caption" style={{ color: AppColors.primary }}>
+              Tap to retry
+            </ThemedText>
+          </Pressable>
+        </View>
+      ) : (
+        <>
+          {passkeys.map((passkey) => (
+            <View
+              key={passkey.id}
+              style={[styles.passkeyRow, { borderColor: themeStyle.glass?.border || AppColors.border }]}
+              testID={`passkey-${passkey.id}`}
+            >
+              <MaterialCommunityIcons name="key-variant" size={18} color={theme.text} />
+              <View style={styles.passkeyInfo}>
+                <ThemedText type="body" style={styles.passkeyName}>
+                  {passkey.name}
+                </ThemedText>
+                <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                  {passkey.backedUp ? "Synced" : "This device only"} · {formatLastUsed(passkey.lastUsedAt)}
+                </ThemedText>
+              </View>
+              {removingId === passkey.id ? (
+                <ActivityIndicator size="small" color={AppColors.primary} />
+              ) : (
+                <Pressable
+                  style={styles.actionButton}
+                  onPress={() => handleRemove(passkey)}
+                  disabled={removingId !== null || isAdding}
+                  testID={`button-remove-passkey-${passkey.id}`}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Remove ${passkey.name}`}
+                >
+                  <ThemedText type="caption" style={{ color: AppColors.error, fontWeight: "600" }}>
+                    Remove
+                  </ThemedText>
+                </Pressable>
+              )}
+            </View>
+          ))}
+
+          {isSupported ? (
+            <Pressable
+              style={[styles.addButton, { borderColor: themeStyle.glass?.border || AppColors.border }]}
+              onPress={handleAdd}
+              disabled={isAdding || removingId !== null}
+              testID="button-add-passkey"
+              accessibilityRole="button"
+              accessibilityLabel="Add a passkey"
+              accessibilityState={{ disabled: isAdding }}
+            >
+              {isAdding ? (
+                <ActivityIndicator size="small" color={AppColors.primary} />
+              ) : (
+                <>
+                  <Feather name="plus" size={16} color={AppColors.primary} />
+                  <ThemedText type="body" style={{ color: AppColors.primary, fontWeight: "600" }}>
+                    Add a passkey
+                  </ThemedText>
+                </>
+              )}
+            </Pressable>
+          ) : passkeys.length === 0 ? (
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              Passkeys are not supported on this device.
+            </ThemedText>
+          ) : null}
+        </>
+      )}
+    </GlassCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    gap: Spacing.md,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.xs,
+  },
+  centerContainer: {
+    alignItems: "center",
+    paddingVertical: Spacing.lg,
+  },
+  retryButton: {
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    borderWidth: 1,
+    borderRadius: BorderRadius.sm,
+  },
+  passkeyRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    gap: Spacing.md,
+  },
+  passkeyInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  passkeyName: {
+    fontWeight: "600",
+  },
+  actionButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+});
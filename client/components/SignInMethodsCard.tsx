@@ -0,0 +1,251 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { Feather, MaterialCommunityIcons } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { GlassCard } from "@/components/GlassCard";
+import { Spacing, AppColors, BorderRadius } from "@/constants/theme";
+import { apiClient } from "@/lib/api-client";
+import { logger } from "@/lib/logger";
+import { useTheme } from "@/hooks/useTheme";
+import { useSocialSignIn } from "@/hooks/useSocialSignIn";
+import type { LoginMethods, SocialProvider } from "@/lib/types";
+
+const PROVIDER_LABELS: Record<SocialProvider, string> = {
+  google: "Google",
+  apple: "Apple",
+};
+
+export function SignInMethodsCard() {
+  const { theme, style: themeStyle } = useTheme();
+  const { googleAvailable, appleAvailable, getCredential } = useSocialSignIn();
+  const [methods, setMethods] = useState<LoginMethods | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyProvider, setBusyProvider] = useState<SocialProvider | null>(null);
+
+  const fetchMethods = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setMethods(await apiClient.get<LoginMethods>("/api/auth/providers"));
+    } catch (err: unknown) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(errMsg || "Failed to load sign-in methods");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMethods();
+  }, [fetchMethods]);
+
+  const handleLink = async (provider: SocialProvider) => {
+    setBusyProvider(provider);
+    try {
+      const credential = await getCredential(provider);
+      if (!credential) return;
+      setMethods(
+        await apiClient.post<LoginMethods>(`/api/auth/providers/${provider}`, {
+          idToken: credential.idToken,
+          nonce: credential.nonce,
+        }),
+      );
+    } catch (err: unknown) {
+      logger.error("Link provider error:", err);
+      const errMsg = err instanceof Error ? err.message : String(err);
+      Alert.alert("Error", errMsg || `Failed to link ${PROVIDER_LABELS[provider]}`);
+    } finally {
+      setBusyProvider(null);
+    }
+  };
+
+  const handleUnlink = (provider: SocialProvider) => {
+    Alert.alert(
+      `Unlink ${PROVIDER_LABELS[provider]}`,
+      `You will no longer be able to sign in with ${PROVIDER_LABELS[provider]}.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Unlink",
+          style: "destructive",
+          onPress: async () => {
+            setBusyProvider(provider);
+            try {
+              setMethods(
+                await apiClient.delete<LoginMethods>(`/api/auth/providers/${provider}`),
+              );
+            } catch (err: unknown) {
+              const errMsg = err instanceof Error ? err.message : String(err);
+              Alert.alert("Error", errMsg || `Failed to unlink ${PROVIDER_LABELS[provider]}`);
+            } finally {
+              setBusyProvider(null);
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const methodCount = methods
+    ? (methods.hasPassword ? 1 : 0) + methods.providers.length + methods.passkeyCount
+    : 0;
+
+  const visibleProviders = (["google", "apple"] as SocialProvider[]).filter(
+    (provider) =>
+      methods?.providers.some((p) => p.provider === provider) ||
+      (provider === "google" ? googleAvailable : appleAvailable),
+  );
+
+  return (
+    <GlassCard style={styles.section}>
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Sign-in Methods
+      </ThemedText>
+
+      {isLoading ? (
+        <View style={styles.centerContainer} testID="loading-sign-in-methods">
+          <ActivityIndicator size="small" color={AppColors.primary} />
+        </View>
+      ) : error || !methods ? (
+        <View style={styles.centerContainer} testID="error-sign-in-methods">
+          <Feather name="alert-circle" size={20} color={AppColors.error} />
+          <ThemedText type="caption" style={{ marginTop: Spacing.sm, color: AppColors.error }}>
+            {error}
+          </ThemedText>
+          <Pressable
+            style={[styles.retryButton, { borderColor: themeStyle.glass?.border }]}
+            onPress={fetchMethods}
+            testID="button-retry-sign-in-methods"
+            accessibilityRole="button"
+            accessibilityLabel="Retry loading sign-in methods"
+          >
+            <ThemedText type="caption" style={{ color: AppColors.primary }}>
+              Tap to retry
+            </ThemedText>
+          </Pressable>
+        </View>
+      ) : (
+        <>
+          <View
+            style={[styles.methodRow, { borderColor: themeStyle.glass?.border || AppColors.border }]}
+          >
+            <Feather name="mail" size={18} color={theme.text} />
+            <View style={styles.methodInfo}>
+              <ThemedText type="body" style={styles.methodName}>
+                Email & Password
+              </ThemedText>
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                {methods.hasPassword ? "Password set" : "No password set"}
+              </ThemedText>
+            </View>
+          </View>
+
+          {visibleProviders.map((provider) => {
+            const linked = methods.providers.find((p) => p.provider === provider);
+            const isOnlyMethod = !!linked && methodCount <= 1;
+            const isBusy = busyProvider === provider;
+
+            return (
+              <View
+                key={provider}
+                style={[styles.methodRow, { borderColor: themeStyle.glass?.border || AppColors.border }]}
+                testID={`sign-in-method-${provider}`}
+              >
+                <MaterialCommunityIcons name={provider} size={18} color={theme.text} />
+                <View style={styles.methodInfo}>
+                  <ThemedText type="body" style={styles.methodName}>
+                    {PROVIDER_LABELS[provider]}
+                  </ThemedText>
+                  <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                    {linked
+                      ? isOnlyMethod
+                        ? "Your only sign-in method"
+                        : linked.email || "Linked"
+                      : "Not linked"}
+                  </ThemedText>
+                </View>
+                {isBusy ? (
+                  <ActivityIndicator size="small" color={AppColors.primary} />
+                ) : linked ? (
+                  isOnlyMethod ? null : (
+                    <Pressable
+                      style={styles.actionButton}
+                      onPress={() => handleUnlink(provider)}
+                      disabled={busyProvider !== null}
+                      testID={`button-unlink-${provider}`}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Unlink ${PROVIDER_LABELS[provider]}`}
+                    >
+                      <ThemedText type="caption" style={{ color: AppColors.error, fontWeight: "600" }}>
+                        Unlink
+                      </ThemedText>
+                    </Pressable>
+                  )
+                ) : (
+                  <Pressable
+                    style={styles.actionButton}
+                    onPress={() => handleLink(provider)}
+                    disabled={busyProvider !== null}
+                    testID={`button-link-${provider}`}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Link ${PROVIDER_LABELS[provider]}`}
+                  >
+                    <ThemedText type="caption" style={{ color: AppColors.primary, fontWeight: "600" }}>
+                      Link
+                    </ThemedText>
+                  </Pressable>
+                )}
+              </View>
+            );
+          })}
+        </>
+      )}
+    </GlassCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    gap: Spacing.md,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.xs,
+  },
+  centerContainer: {
+    alignItems: "center",
+    paddingVertical: Spacing.lg,
+  },
+  retryButton: {
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    borderWidth: 1,
+    borderRadius: BorderRadius.sm,
+  },
+  methodRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    gap: Spacing.md,
+  },
+  methodInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  methodName: {
+    fontWeight: "600",
+  },
+  actionButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+});
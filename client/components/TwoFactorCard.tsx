@@ -0,0 +1,474 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import * as Clipboard from "expo-clipboard";
+import QRCode from "react-native-qrcode-svg";
+import { ThemedText } from "@/components/ThemedText";
+import { GlassCard } from "@/components/GlassCard";
+import { Spacing, AppColors, BorderRadius, Typography } from "@/constants/theme";
+import { apiClient } from "@/lib/api-client";
+import { logger } from "@/lib/logger";
+import { useTheme } from "@/hooks/useTheme";
+import { runWithStepUp } from "@/hooks/usePasskeys";
+import type { TwoFactorSetup, TwoFactorStatus } from "@/lib/types";
+
+/** Which action the inline code input is confirming. */
+type CodePrompt = "enable" | "disable" | "regenerate" | null;
+
+const PROMPT_LABELS: Record<Exclude<CodePrompt, null>, { hint: string; action: string }> = {
+  enable: {
+    hint: "Enter the 6-digit code your authenticator app shows to finish setup.",
+    action: "Turn On",
+  },
+  disable: {
+    hint: "Enter a code from your authenticator app, or a recovery code, to turn off two-factor authentication.",
+    action: "Turn Off",
+  },
+  regenerate: {
+    hint: "Enter a code from your authenticator app. Your old recovery codes will stop working.",
+    action: "Get New Codes",
+  },
+};
+
+export function TwoFactorCard() {
+  const { theme, style: themeStyle } = useTheme();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [prompt, setPrompt] = useState<CodePrompt>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchStatus = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setStatus(await apiClient.get<TwoFactorStatus>("/api/auth/2fa"));
+    } catch (err: unknown) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(errMsg || "Failed to load two-factor settings");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const closePrompt = () => {
+    setPrompt(null);
+    setSetup(null);
+    setCode("");
+  };
+
+  const handleStartSetup = async () => {
+    setIsSubmitting(true);
+    try {
+      const result = await runWithStepUp(() => apiClient.post<TwoFactorSetup>("/api/auth/2fa/setup"));
+      if (result) {
+        setSetup(result);
+        setRecoveryCodes(null);
+        setPrompt("enable");
+      }
+    } catch (err: unknown) {
+      logger.error("Two-factor setup error:", err);
+      const errMsg = err instanceof Error ? err.message : String(err);
+      Alert.alert("Error", errMsg || "Failed to start two-factor setup");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmitCode = async () => {
+    if (!prompt || code.trim().length < 6) return;
+    setIsSubmitting(true);
+    try {
+      if (prompt === "enable") {
+        const result = await apiClient.post<{ recoveryCodes: string[] }>("/api/auth/2fa/enable", { code: code.trim() });
+        setRecoveryCodes(result.recoveryCodes);
+      } else if (prompt === "regenerate") {
+        const result = await apiClient.post<{ recoveryCodes: string[] }>("/api/auth/2fa/recovery-codes", { code: code.trim() });
+        setRecoveryCodes(result.recoveryCodes);
+      } else {
+        const disabled = await runWithStepUp(async () => {
+          await apiClient.post("/api/auth/2fa/disable", { code: code.trim() });
+          return true;
+        });
+        if (!disabled) return;
+      }
+      closePrompt();
+      await fetchStatus();
+    } catch (err: unknown) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      Alert.alert("Error", errMsg || "That code didn't work");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleForgetDevices = () => {
+    Alert.alert(
+      "Forget Trusted Devices",
+      "Every device will ask for a verification code at its next sign-in.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Forget",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await apiClient.delete("/api/auth/2fa/trusted-devices");
+              await fetchStatus();
+            } catch (err: unknown) {
+              const errMsg = err instanceof Error ? err.message : String(err);
+              Alert.alert("Error", errMsg || "Failed to forget trusted devices");
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    await Clipboard.setStringAsync(recoveryCodes.join("\n"));
+    Alert.alert("Copied", "Recovery codes copied to the clipboard.");
+  };
+
+  const renderCodePrompt = () => {
+    if (!prompt) return null;
+    const labels = PROMPT_LABELS[prompt];
+    return (
+      <View style={styles.promptContainer}>
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          {labels.hint}
+        </ThemedText>
+        <TextInput
+          style={[
+            styles.codeInput,
+            { color: theme.text, borderColor: themeStyle.glass?.border || AppColors.border },
+          ]}
+          value={code}
+          onChangeText={setCode}
+          placeholder={prompt === "disable" ? "123456 or recovery code" : "123456"}
+          placeholderTextColor={theme.textSecondary}
+          keyboardType={prompt === "disable" ? "default" : "number-pad"}
+          textContentType="oneTimeCode"
+          autoCapitalize="none"
+          autoCorrect={false}
+          maxLength={prompt === "disable" ? 11 : 6}
+          onSubmitEditing={handleSubmitCode}
+          testID="input-two-factor-settings-code"
+          accessibilityLabel="Verification code"
+        />
+        <View style={styles.promptActions}>
+          <Pressable
+            style={styles.actionButton}
+            onPress={closePrompt}
+            disabled={isSubmitting}
+            testID="button-two-factor-cancel-prompt"
+            accessibilityRole="button"
+          >
+            <ThemedText type="caption" style={{ color: theme.textSecondary, fontWeight: "600" }}>
+              Cancel
+            </ThemedText>
+          </Pressable>
+          <Pressable
+            style={[styles.primaryButton, { backgroundColor: prompt === "disable" ? AppColors.error : AppColors.primary }]}
+            onPress={handleSubmitCode}
+            disabled={isSubmitting || code.trim().length < 6}
+            testID={`button-two-factor-${prompt}`}
+            accessibilityRole="button"
+            accessibilityLabel={labels.action}
+            accessibilityState={{ disabled: isSubmitting || code.trim().length < 6 }}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <ThemedText type="caption" style={styles.primaryButtonText}>
+                {labels.action}
+              </ThemedText>
+            )}
+          </Pressable>
+        </View>
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (!status) return null;
+
+    if (recoveryCodes) {
+      return (
+        <View style={styles.promptContainer} testID="two-factor-recovery-codes">
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+            authenticator app. They won&apos;t be shown again.
+          </ThemedText>
+          <View style={[styles.codesGrid, { borderColor: themeStyle.glass?.border || AppColors.border }]}>
+            {recoveryCodes.map((recoveryCode) => (
+              <ThemedText key={recoveryCode} type="body" style={styles.recoveryCode}>
+                {recoveryCode}
+              </ThemedText>
+            ))}
+          </View>
+          <View style={styles.promptActions}>
+            <Pressable style={styles.actionButton} onPress={handleCopyCodes} testID="button-copy-recovery-codes" accessibilityRole="button">
+              <ThemedText type="caption" style={{ color: AppColors.primary, fontWeight: "600" }}>
+                Copy
+              </ThemedText>
+            </Pressable>
+            <Pressable
+              style={[styles.primaryButton, { backgroundColor: AppColors.primary }]}
+              onPress={() => setRecoveryCodes(null)}
+              testID="button-recovery-codes-done"
+              accessibilityRole="button"
+            >
+              <ThemedText type="caption" style={styles.primaryButtonText}>
+                I&apos;ve Saved Them
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      );
+    }
+
+    if (setup) {
+      return (
+        <View style={styles.promptContainer}>
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            Scan this code with an authenticator app such as 1Password, Google Authenticator or Authy.
+          </ThemedText>
+          <View style={styles.qrContainer} testID="two-factor-qr-code">
+            <QRCode value={setup.otpauthUri} size={180} backgroundColor="#FFFFFF" />
+          </View>
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            Can&apos;t scan? Enter this key instead:
+          </ThemedText>
+          <ThemedText type="body" selectable style={styles.secret} testID="text-two-factor-secret">
+            {setup.secret.match(/.{1,4}/g)?.join(" ")}
+          </ThemedText>
+          {renderCodePrompt()}
+        </View>
+      );
+    }
+
+    if (!status.enabled) {
+      return (
+        <Pressable
+          style={[styles.addButton, { borderColor: themeStyle.glass?.border || AppColors.border }]}
+          onPress={handleStartSetup}
+          disabled={isSubmitting}
+          testID="button-setup-two-factor"
+          accessibilityRole="button"
+          accessibilityLabel="Set up two-factor authentication"
+          accessibilityState={{ disabled: isSubmitting }}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator size="small" color={AppColors.primary} />
+          ) : (
+            <>
+              <Feather name="shield" size={16} color={AppColors.primary} />
+              <ThemedText type="body" style={{ color: AppColors.primary, fontWeight: "600" }}>
+                Set up two-factor authentication
+              </ThemedText>
+            </>
+          )}
+        </Pressable>
+      );
+    }
+
+    return (
+      <>
+        <View style={[styles.statusRow, { borderColor: themeStyle.glass?.border || AppColors.border }]}>
+          <Feather name="check-circle" size={18} color={AppColors.success} />
+          <View style={styles.statusInfo}>
+            <ThemedText type="body" style={styles.statusTitle}>
+              On
+            </ThemedText>
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              {status.recoveryCodesRemaining} recovery codes left · {status.trustedDeviceCount} trusted{" "}
+              {status.trustedDeviceCount === 1 ? "device" : "devices"}
+            </ThemedText>
+          </View>
+        </View>
+
+        {prompt ? (
+          renderCodePrompt()
+        ) : (
+          <View style={styles.manageActions}>
+            <Pressable style={styles.actionButton} onPress={() => setPrompt("regenerate")} testID="button-regenerate-recovery-codes" accessibilityRole="button">
+              <ThemedText type="caption" style={{ color: AppColors.primary, fontWeight: "600" }}>
+                New recovery codes
+              </ThemedText>
+            </Pressable>
+            {status.trustedDeviceCount > 0 ? (
+              <Pressable style={styles.actionButton} onPress={handleForgetDevices} testID="button-forget-trusted-devices" accessibilityRole="button">
+                <ThemedText type="caption" style={{ color: AppColors.primary, fontWeight: "600" }}>
+                  Forget trusted devices
+                </ThemedText>
+              </Pressable>
+            ) : null}
+            <Pressable style={styles.actionButton} onPress={() => setPrompt("disable")} testID="button-disable-two-factor" accessibilityRole="button">
+              <ThemedText type="caption" style={{ color: AppColors.error, fontWeight: "600" }}>
+                Turn off
+              </ThemedText>
+            </Pressable>
+          </View>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <GlassCard style={styles.section}>
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        Two-Factor Authentication
+      </ThemedText>
+      <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+        Ask for a code from your authenticator app when you sign in with a password, Google or Apple.
+      </ThemedText>
+
+      {isLoading ? (
+        <View style={styles.centerContainer} testID="loading-two-factor">
+          <ActivityIndicator size="small" color={AppColors.primary} />
+        </View>
+      ) : error ? (
+        <View style={styles.centerContainer} testID="error-two-factor">
+          <Feather name="alert-circle" size={20} color={AppColors.error} />
+          <ThemedText type="caption" style={{ marginTop: Spacing.sm, color: AppColors.error }}>
+            {error}
+          </ThemedText>
+          <Pressable
+            style={[styles.retryButton, { borderColor: themeStyle.glass?.border }]}
+            onPress={fetchStatus}
+            testID="button-retry-two-factor"
+            accessibilityRole="button"
+            accessibilityLabel="Retry loading two-factor settings"
+          >
+            <ThemedText type="caption" style={{ color: AppColors.primary }}>
+              Tap to retry
+            </ThemedText>
+          </Pressable>
+        </View>
+      ) : (
+        renderContent()
+      )}
+    </GlassCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    gap: Spacing.md,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.xs,
+  },
+  centerContainer: {
+    alignItems: "center",
+    paddingVertical: Spacing.lg,
+  },
+  retryButton: {
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    borderWidth: 1,
+    borderRadius: BorderRadius.sm,
+  },
+  statusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    gap: Spacing.md,
+  },
+  statusInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  statusTitle: {
+    fontWeight: "600",
+  },
+  manageActions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "space-between",
+  },
+  actionButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+  promptContainer: {
+    gap: Spacing.sm,
+  },
+  codeInput: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    minHeight: 44,
+    fontSize: Typography.body.fontSize,
+    letterSpacing: 2,
+  },
+  promptActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  primaryButton: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    minWidth: 96,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  qrContainer: {
+    alignSelf: "center",
+    padding: Spacing.md,
+    backgroundColor: "#FFFFFF",
+    borderRadius: BorderRadius.md,
+  },
+  secret: {
+    fontFamily: "monospace",
+    textAlign: "center",
+    letterSpacing: 1,
+  },
+  codesGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    rowGap: Spacing.xs,
+  },
+  recoveryCode: {
+    width: "50%",
+    fontFamily: "monospace",
+    textAlign: "center",
+  },
+});
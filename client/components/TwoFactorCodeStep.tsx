@@ -0,0 +1,219 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  TextInput,
+  Switch,
+} from "react-native";
+import Animated, { FadeIn } from "react-native-reanimated";
+import { Feather } from "@expo/vector-icons";
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius, Typography, AppColors } from "@/constants/theme";
+import { webAccessibilityProps } from "@/lib/web-accessibility";
+
+interface TwoFactorCodeStepProps {
+  isLoading: boolean;
+  error: string | null;
+  onSubmit: (code: string, trustDevice: boolean) => void;
+  onCancel: () => void;
+}
+
+/** Second sign-in step for accounts with two-factor authentication. */
+export function TwoFactorCodeStep({ isLoading, error, onSubmit, onCancel }: TwoFactorCodeStepProps) {
+  const { theme, style: themeStyle } = useTheme();
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [trustDevice, setTrustDevice] = useState(false);
+
+  const canSubmit = code.trim().length >= 6 && !isLoading;
+  const handleSubmit = () => {
+    if (canSubmit) onSubmit(code.trim(), trustDevice);
+  };
+
+  return (
+    <Animated.View entering={FadeIn.duration(300)} style={styles.container}>
+      <ThemedText style={styles.title}>Two-Factor Authentication</ThemedText>
+      <ThemedText style={[styles.subtitle, { color: theme.textSecondary }]}>
+        {useRecoveryCode
+          ? "Enter one of the recovery codes you saved when you turned on two-factor authentication."
+          : "Enter the 6-digit code from your authenticator app."}
+      </ThemedText>
+
+      {error && (
+        <View
+          style={[styles.errorContainer, { backgroundColor: `${AppColors.error}15` }]}
+          accessibilityRole="alert"
+          accessibilityLiveRegion="assertive"
+        >
+          <Feather name="alert-circle" size={16} color={AppColors.error} />
+          <ThemedText style={[styles.errorText, { color: AppColors.error }]}>
+            {error}
+          </ThemedText>
+        </View>
+      )}
+
+      <View
+        style={[
+          styles.inputWrapper,
+          {
+            backgroundColor: themeStyle.glass.background,
+            borderColor: themeStyle.glass.border,
+          },
+        ]}
+      >
+        <Feather name="shield" size={20} color={theme.textSecondary} style={styles.inputIcon} />
+        <TextInput
+          style={[styles.input, { color: theme.text }]}
+          placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+          placeholderTextColor={theme.textSecondary}
+          value={code}
+          onChangeText={setCode}
+          keyboardType={useRecoveryCode ? "default" : "number-pad"}
+          textContentType="oneTimeCode"
+          autoComplete={useRecoveryCode ? "off" : "one-time-code"}
+          autoCapitalize="none"
+          autoCorrect={false}
+          maxLength={useRecoveryCode ? 11 : 6}
+          returnKeyType="done"
+          onSubmitEditing={handleSubmit}
+          testID="input-two-factor-code"
+          accessibilityLabel={useRecoveryCode ? "Recovery code" : "Verification code"}
+        />
+      </View>
+
+      <View style={styles.trustRow}>
+        <ThemedText style={[styles.trustText, { color: theme.text }]}>
+          Trust this device for 30 days
+        </ThemedText>
+        <Switch
+          value={trustDevice}
+          onValueChange={setTrustDevice}
+          trackColor={{ false: theme.backgroundSecondary, true: AppColors.primary }}
+          thumbColor="#FFFFFF"
+          testID="switch-trust-device"
+          accessibilityLabel="Trust this device for 30 days"
+        />
+      </View>
+
+      <Pressable
+        style={[styles.button, { backgroundColor: AppColors.primary }, !canSubmit && styles.buttonDisabled]}
+        onPress={handleSubmit}
+        disabled={!canSubmit}
+        testID="button-two-factor-submit"
+        {...webAccessibilityProps(handleSubmit)}
+        accessibilityRole="button"
+        accessibilityLabel="Verify"
+        accessibilityState={{ disabled: !canSubmit }}
+      >
+        {isLoading ? (
+          <ActivityIndicator size="small" color={theme.buttonText} />
+        ) : (
+          <ThemedText style={styles.buttonText}>Verify</ThemedText>
+        )}
+      </Pressable>
+
+      <Pressable
+        onPress={() => {
+          setUseRecoveryCode(!useRecoveryCode);
+          setCode("");
+        }}
+        style={styles.linkButton}
+        testID="button-toggle-recovery-code"
+        accessibilityRole="button"
+      >
+        <ThemedText style={[styles.linkText, { color: AppColors.primary }]}>
+          {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+        </ThemedText>
+      </Pressable>
+
+      <Pressable
+        onPress={onCancel}
+        style={styles.linkButton}
+        testID="button-two-factor-cancel"
+        {...webAccessibilityProps(onCancel)}
+        accessibilityRole="button"
+      >
+        <ThemedText style={[styles.linkText, { color: theme.textSecondary }]}>
+          Back to sign in
+        </ThemedText>
+      </Pressable>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+  },
+  title: {
+    ...Typography.h3,
+    fontWeight: "700",
+    textAlign: "center",
+  },
+  subtitle: {
+    ...Typography.small,
+    textAlign: "center",
+    marginBottom: Spacing.sm,
+  },
+  errorContainer: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.md,
+  },
+  errorText: {
+    fontSize: Typography.caption.fontSize,
+    flex: 1,
+  },
+  inputWrapper: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    minHeight: 50,
+  },
+  inputIcon: {
+    marginRight: Spacing.sm,
+  },
+  input: {
+    flex: 1,
+    fontSize: Typography.body.fontSize,
+    letterSpacing: 2,
+    height: "100%",
+  },
+  trustRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: Spacing.xs,
+  },
+  trustText: {
+    fontSize: Typography.small.fontSize,
+  },
+  button: {
+    minHeight: 50,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    ...Typography.button,
+  },
+  linkButton: {
+    alignItems: "center",
+    paddingVertical: Spacing.xs,
+  },
+  linkText: {
+    ...Typography.small,
+    fontWeight: "500",
+  },
+});
@@ -0,0 +1,60 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { GlassCard } from "@/components/GlassCard";
+import { Spacing, AppColors } from "@/constants/theme";
+
+interface InventoryValueSummaryProps {
+  total: number;
+  pricedCount: number;
+  itemCount: number;
+}
+
+export function InventoryValueSummary({
+  total,
+  pricedCount,
+  itemCount,
+}: InventoryValueSummaryProps) {
+  return (
+    <View style={styles.container} accessibilityLiveRegion="polite">
+      <GlassCard
+        style={styles.card}
+        accessibilityLabel={`Estimated inventory value: $${total.toFixed(2)}, based on ${pricedCount} of ${itemCount} items with receipt prices`}
+      >
+        <View style={styles.content}>
+          <Feather name="dollar-sign" size={16} color={AppColors.primary} />
+          <ThemedText type="caption" style={styles.text}>
+            About ${total.toFixed(2)} of food on hand
+          </ThemedText>
+        </View>
+        <ThemedText type="caption" style={styles.meta}>
+          Based on receipt prices for {pricedCount} of {itemCount} items
+        </ThemedText>
+      </GlassCard>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: Spacing.sm,
+  },
+  card: {
+    gap: Spacing.sm,
+  },
+  content: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  text: {
+    flex: 1,
+    flexShrink: 1,
+  },
+  meta: {
+    marginTop: Spacing.xs,
+    marginLeft: Spacing.xl,
+  },
+});
@@ -69,6 +69,13 @@ export function SwipeableItemCard({
     }
   }, [showHint]);
 
+  // Swipe actions draw from the earliest-expiring lot, which is also the one
+  // the item-level expirationDate reflects.
+  const lotCount = item.lots?.length ?? 0;
+  const removalHint = lotCount > 1
+    ? "the earliest-expiring batch and keep the rest in inventory"
+    : "it from inventory";
+
   const status = getExpirationStatus(item.expirationDate);
   const daysLeft = getDaysUntilExpiration(item.expirationDate);
 
@@ -209,7 +216,7 @@ export function SwipeableItemCard({
         testID={`button-consumed-${item.id}`}
         accessibilityRole="button"
         accessibilityLabel={`Mark ${item.name} as consumed`}
-        accessibilityHint="Double-tap to mark this item as consumed and remove it from inventory"
+        accessibilityHint={`Double-tap to mark this item as consumed and remove ${removalHint}`}
       >
         <LinearGradient
           colors={["rgba(46, 204, 113, 0.25)", "transparent"]}
@@ -234,7 +241,7 @@ export function SwipeableItemCard({
         testID={`button-wasted-${item.id}`}
         accessibilityRole="button"
         accessibilityLabel={`Mark ${item.name} as wasted`}
-        accessibilityHint="Double-tap to mark this item as wasted and remove it from inventory"
+        accessibilityHint={`Double-tap to mark this item as wasted and remove ${removalHint}`}
       >
         <LinearGradient
           colors={["transparent", "rgba(231, 76, 60, 0.25)"]}
@@ -294,6 +301,7 @@ export function SwipeableItemCard({
                     </ThemedText>
                     <ThemedText type="small" style={styles.itemCategory}>
                       {item.category} · {item.quantity} {item.unit}
+                      {lotCount > 1 ? ` · ${lotCount} batches` : ""}
                     </ThemedText>
                   </View>
                   <View style={styles.headerRight}>
@@ -327,7 +335,7 @@ export function SwipeableItemCard({
                 </View>
                 <View style={styles.itemFooter}>
                   <ThemedText type="caption" style={styles.expirationText}>
-                    Expires {formatDate(item.expirationDate)}
+                    {lotCount > 1 ? "Next batch expires" : "Expires"} {formatDate(item.expirationDate)}
                   </ThemedText>
                   {item.nutrition ? (
                     <NutritionBadge
@@ -5,12 +5,11 @@ import { Feather } from "@expo/vector-icons";
 import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius, AppColors } from "@/constants/theme";
-import { Recipe } from "@/lib/storage";
 import { useFocusTrap } from "@/hooks/useFocusTrap";
 
 interface MealPlanActionSheetProps {
   visible: boolean;
-  recipe: Recipe | null;
+  title: string | null;
   onChangeRecipe: () => void;
   onRemoveMeal: () => void;
   onClose: () => void;
@@ -18,7 +17,7 @@ interface MealPlanActionSheetProps {
 
 export function MealPlanActionSheet({
   visible,
-  recipe,
+  title,
   onChangeRecipe,
   onRemoveMeal,
   onClose,
@@ -52,18 +51,18 @@ export function MealPlanActionSheet({
           onAccessibilityEscape={onAccessibilityEscape}
         >
           <ThemedText type="h4" style={styles.actionSheetTitle}>
-            {recipe?.title || "Meal Options"}
+            {title || "Meal Options"}
           </ThemedText>
 
           <Pressable
             style={[styles.actionButton, { borderColor: theme.border }]}
             onPress={onChangeRecipe}
             accessibilityRole="button"
-            accessibilityLabel="Change recipe for this meal"
+            accessibilityLabel="Change this meal"
           >
             <Feather name="refresh-cw" size={20} color={AppColors.primary} />
             <ThemedText type="body" style={{ color: AppColors.primary }}>
-              Change Recipe
+              Change Meal
             </ThemedText>
           </Pressable>
 
@@ -0,0 +1,105 @@
+import React from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import { Feather } from "@expo/vector-icons";
+import { format, parseISO } from "date-fns";
+
+import { ThemedText } from "@/components/ThemedText";
+import { GlassCard } from "@/components/GlassCard";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius, AppColors } from "@/constants/theme";
+import type { LeftoverSuggestion } from "@shared/leftovers";
+import type { MealSlot } from "@shared/meal-plan";
+
+interface MealPlanLeftoversCardProps {
+  suggestions: LeftoverSuggestion[];
+  slots: MealSlot[];
+  onPlan: (suggestion: LeftoverSuggestion) => void;
+}
+
+export function MealPlanLeftoversCard({
+  suggestions,
+  slots,
+  onPlan,
+}: MealPlanLeftoversCardProps) {
+  const { theme, style: themeStyle } = useTheme();
+
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <GlassCard style={styles.card}>
+      <View style={styles.header}>
+        <Feather name="rotate-ccw" size={18} color={AppColors.primary} />
+        <ThemedText type="h4">Leftovers to Use</ThemedText>
+      </View>
+
+      {suggestions.map((suggestion) => {
+        const { item, servingsLeft, date, slotId } = suggestion;
+        const slotName = slots.find((s) => s.id === slotId)?.name ?? slotId;
+        const when = `${format(parseISO(date), "EEE")} ${slotName.toLowerCase()}`;
+        return (
+          <View
+            key={item.id}
+            style={[styles.row, { borderColor: themeStyle.glass.border }]}
+          >
+            <View style={styles.rowText}>
+              <ThemedText type="body" numberOfLines={1}>
+                {item.name}
+              </ThemedText>
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                {servingsLeft} serving{servingsLeft === 1 ? "" : "s"}
+                {item.expirationDate
+                  ? ` · use by ${format(parseISO(item.expirationDate), "EEE, MMM d")}`
+                  : ""}
+              </ThemedText>
+            </View>
+            <Pressable
+              style={[styles.planButton, { borderColor: AppColors.primary }]}
+              onPress={() => onPlan(suggestion)}
+              accessibilityRole="button"
+              accessibilityLabel={`Plan ${item.name} for ${when}`}
+              testID={`button-plan-leftovers-${item.id}`}
+            >
+              <Feather name="plus" size={14} color={AppColors.primary} />
+              <ThemedText type="small" style={{ color: AppColors.primary }}>
+                {when}
+              </ThemedText>
+            </Pressable>
+          </View>
+        );
+      })}
+    </GlassCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    gap: Spacing.sm,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingTop: Spacing.sm,
+    borderTopWidth: 1,
+  },
+  rowText: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  planButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.pill,
+    borderWidth: 1,
+  },
+});
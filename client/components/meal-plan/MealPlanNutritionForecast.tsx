@@ -0,0 +1,243 @@
+import React, { useMemo } from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import { format, isSameDay } from "date-fns";
+
+import { ThemedText } from "@/components/ThemedText";
+import { GlassCard } from "@/components/GlassCard";
+import { NutritionLabel } from "@/components/nutrition/NutritionLabel";
+import { NutritionScoreBadge } from "@/components/nutrition/NutritionScoreBadge";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius, AppColors } from "@/constants/theme";
+import type { MealPlan, Recipe, UserPreferences } from "@/lib/storage";
+import {
+  averageTotals,
+  compareToTargets,
+  forecastDays,
+  resolveDailyTargets,
+  type NutrientTotals,
+  type TargetStatus,
+} from "@shared/nutrition-intake";
+import { entryRecipeId } from "@shared/meal-plan";
+import type { NutritionFacts } from "@shared/schema";
+
+const STATUS_COLORS: Record<TargetStatus, string> = {
+  none: AppColors.primary,
+  under: AppColors.warning,
+  on_track: AppColors.success,
+  over: AppColors.error,
+};
+
+interface MealPlanNutritionForecastProps {
+  weekDays: Date[];
+  selectedDay: Date;
+  mealPlans: MealPlan[];
+  recipes: Recipe[];
+  preferences: UserPreferences | null;
+  onSelectDay: (day: Date) => void;
+}
+
+function toNutritionFacts(totals: NutrientTotals): NutritionFacts {
+  return {
+    servingSize: "1 day",
+    calories: totals.calories,
+    totalFat: totals.fat,
+    sodium: totals.sodium,
+    totalCarbohydrates: totals.carbs,
+    dietaryFiber: totals.fiber,
+    totalSugars: totals.sugar,
+    protein: totals.protein,
+  };
+}
+
+/**
+ * Projected calories and macros for each day of the visible week, one serving
+ * per planned meal, compared against the user's nutrition goals.
+ */
+export function MealPlanNutritionForecast({
+  weekDays,
+  selectedDay,
+  mealPlans,
+  recipes,
+  preferences,
+  onSelectDay,
+}: MealPlanNutritionForecastProps) {
+  const { theme } = useTheme();
+
+  const targets = useMemo(
+    () =>
+      resolveDailyTargets(
+        preferences?.macroTargets,
+        preferences?.nutritionGoals,
+      ),
+    [preferences?.macroTargets, preferences?.nutritionGoals],
+  );
+
+  const forecast = useMemo(() => {
+    const recipesById = new Map(recipes.map((r) => [r.id, r]));
+    const dates = weekDays.map((day) => format(day, "yyyy-MM-dd"));
+    const meals = mealPlans
+      .filter((plan) => dates.includes(plan.date))
+      .flatMap((plan) =>
+        Object.values(plan.meals)
+          .map(entryRecipeId)
+          .filter((id): id is string => !!id)
+          .map((id) => ({
+            date: plan.date,
+            nutrition: recipesById.get(id)?.nutrition ?? null,
+          })),
+      );
+    return forecastDays(dates, meals);
+  }, [weekDays, mealPlans, recipes]);
+
+  const plannedDays = forecast.filter((d) => d.mealCount > 0);
+  if (plannedDays.length === 0) {
+    return null;
+  }
+
+  const selected =
+    forecast.find((d) => d.date === format(selectedDay, "yyyy-MM-dd")) ??
+    forecast[0];
+  const selectedProgress = compareToTargets(selected.totals, targets);
+  const weekAverage = averageTotals(plannedDays.map((d) => d.totals));
+
+  return (
+    <GlassCard
+      style={styles.card}
+      testID="section-nutrition-forecast"
+      accessibilityRole="summary"
+      accessibilityLabel="Planned nutrition for this week"
+    >
+      <ThemedText type="h4">Nutrition Forecast</ThemedText>
+
+      <View style={styles.days}>
+        {forecast.map((d, index) => {
+          const day = weekDays[index];
+          const status =
+            d.mealCount > 0
+              ? (compareToTargets(d.totals, targets).find(
+                  (p) => p.nutrient === "calories",
+                )?.status ?? "none")
+              : "none";
+          const active = isSameDay(day, selectedDay);
+          return (
+            <Pressable
+              key={d.date}
+              onPress={() => onSelectDay(day)}
+              style={[
+                styles.dayChip,
+                { backgroundColor: theme.backgroundSecondary },
+                active && { borderColor: AppColors.primary, borderWidth: 2 },
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel={`${format(day, "EEEE")}: ${d.mealCount > 0 ? `${Math.round(d.totals.calories)} planned calories` : "nothing planned"}`}
+              accessibilityState={{ selected: active }}
+              testID={`button-forecast-day-${d.date}`}
+            >
+              <ThemedText type="caption">{format(day, "EEE")}</ThemedText>
+              <ThemedText
+                type="small"
+                style={{
+                  color:
+                    d.mealCount > 0
+                      ? STATUS_COLORS[status]
+                      : theme.textSecondary,
+                  fontWeight: "600",
+                }}
+              >
+                {d.mealCount > 0 ? Math.round(d.totals.calories) : "–"}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {selected.mealCount > 0 ? (
+        <View style={styles.detail}>
+          <View style={styles.detailHeader}>
+            <ThemedText type="small" style={styles.detailTitle}>
+              {format(selectedDay, "EEEE")} ·{" "}
+              {Math.round(selected.totals.calories)} of{" "}
+              {Math.round(targets.calories ?? 0)} kcal
+            </ThemedText>
+            <NutritionScoreBadge
+              nutrition={{
+                calories: selected.totals.calories,
+                protein: selected.totals.protein,
+                carbs: selected.totals.carbs,
+                fat: selected.totals.fat,
+                fiber: selected.totals.fiber,
+                sugar: selected.totals.sugar,
+                sodium: selected.totals.sodium,
+              }}
+              size="medium"
+            />
+          </View>
+          <NutritionLabel
+            nutrition={toNutritionFacts(selected.totals)}
+            compact
+          />
+          <View style={styles.macros}>
+            {selectedProgress
+              .filter((p) => ["protein", "carbs", "fat"].includes(p.nutrient))
+              .map((p) => (
+                <ThemedText
+                  key={p.nutrient}
+                  type="caption"
+                  style={[styles.macroText, { color: STATUS_COLORS[p.status] }]}
+                >
+                  {p.nutrient} {p.percent ?? 0}%
+                </ThemedText>
+              ))}
+          </View>
+          {selected.unknownCount > 0 ? (
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              {selected.unknownCount} planned{" "}
+              {selected.unknownCount === 1 ? "meal has" : "meals have"} no
+              nutrition info
+            </ThemedText>
+          ) : null}
+        </View>
+      ) : null}
+
+      <ThemedText type="caption" testID="text-forecast-average">
+        Planned days average {Math.round(weekAverage.calories)} kcal ·{" "}
+        {Math.round(weekAverage.protein)}g protein
+      </ThemedText>
+    </GlassCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    gap: Spacing.md,
+  },
+  days: {
+    flexDirection: "row",
+    gap: Spacing.xs,
+  },
+  dayChip: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    gap: 2,
+  },
+  detail: {
+    gap: Spacing.sm,
+  },
+  detailHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  detailTitle: {
+    flex: 1,
+  },
+  macros: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  macroText: {
+    textTransform: "capitalize",
+  },
+});
@@ -10,25 +10,28 @@ import {
   BorderRadius,
 } from "@/constants/theme";
 import { Recipe } from "@/lib/storage";
-
-interface MealSlot {
-  id: string;
-  name: string;
-  icon: "sunrise" | "sun" | "moon" | "coffee" | "sunset";
-}
+import { mealEntryLabel, type MealEntry, type MealSlot } from "@shared/meal-plan";
 
 interface MealPlanSlotCardProps {
-  slot: MealSlot;
+  slot: Pick<MealSlot, "id" | "name" | "icon" | "targetCalories">;
+  entry: MealEntry | undefined;
   recipe: Recipe | undefined;
   selectedDay: Date;
-  onMealPress: (date: Date, slotId: string, recipe: Recipe) => void;
+  onMealPress: (date: Date, slotId: string, title: string) => void;
   onAddMeal: (date: string, slotId: string) => void;
   onRemoveMeal?: (date: string, slotId: string) => void;
   onSwapRecipe?: (date: string, slotId: string) => void;
 }
 
+const ENTRY_ICONS: Record<Exclude<MealEntry["type"], "recipe">, keyof typeof Feather.glyphMap> = {
+  text: "edit-3",
+  leftovers: "rotate-ccw",
+  eat_out: "map-pin",
+};
+
 export function MealPlanSlotCard({
   slot,
+  entry,
   recipe,
   selectedDay,
   onMealPress,
@@ -38,8 +41,12 @@ export function MealPlanSlotCard({
 }: MealPlanSlotCardProps) {
   const { theme, style: themeStyle } = useTheme();
 
+  const title = entry ? mealEntryLabel(entry, () => recipe?.title) : null;
+  const totalTime = recipe ? recipe.prepTime + recipe.cookTime : null;
+  const showsTime = entry?.type === "recipe" && totalTime !== null;
+
   return (
-    <View style={styles.mealSlot} {...(Platform.OS === "web" ? { accessibilityRole: "listitem" as unknown as AccessibilityRole } : {})} accessibilityLabel={`${slot.name}${recipe ? `, ${recipe.title}` : ', empty'}`}>
+    <View style={styles.mealSlot} {...(Platform.OS === "web" ? { accessibilityRole: "listitem" as unknown as AccessibilityRole } : {})} accessibilityLabel={`${slot.name}${title ? `, ${title}` : ', empty'}`}>
       <View style={styles.mealHeader}>
         <Feather
           name={slot.icon}
@@ -49,8 +56,13 @@ export function MealPlanSlotCard({
         <ThemedText type="small" style={styles.mealLabel}>
           {slot.name}
         </ThemedText>
+        {slot.targetCalories ? (
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            {slot.targetCalories} kcal
+          </ThemedText>
+        ) : null}
       </View>
-      {recipe ? (
+      {entry && title ? (
         <Pressable
           style={[
             styles.mealContent,
@@ -61,10 +73,10 @@ export function MealPlanSlotCard({
             },
           ]}
           onPress={() =>
-            onMealPress(selectedDay, slot.id, recipe)
+            onMealPress(selectedDay, slot.id, title)
           }
           accessibilityRole="button"
-          accessibilityLabel={`${recipe.title} for ${slot.name}, ${recipe.prepTime + recipe.cookTime} minutes`}
+          accessibilityLabel={`${title} for ${slot.name}${showsTime ? `, ${totalTime} minutes` : ""}`}
           accessibilityHint="Opens meal options"
           accessibilityActions={[
             { name: "activate", label: "View meal options" },
@@ -75,7 +87,7 @@ export function MealPlanSlotCard({
             const dateStr = format(selectedDay, "yyyy-MM-dd");
             switch (event.nativeEvent.actionName) {
               case "activate":
-                onMealPress(selectedDay, slot.id, recipe);
+                onMealPress(selectedDay, slot.id, title);
                 break;
               case "delete":
                 onRemoveMeal?.(dateStr, slot.id);
@@ -88,17 +100,30 @@ export function MealPlanSlotCard({
         >
           <View style={styles.mealContentInner}>
             <View style={styles.mealTextContainer}>
-              <ThemedText type="body">{recipe.title}</ThemedText>
-              <View style={styles.mealMeta}>
-                <Feather
-                  name="clock"
-                  size={14}
-                  color={theme.textSecondary}
-                />
-                <ThemedText type="caption">
-                  {recipe.prepTime + recipe.cookTime} min
-                </ThemedText>
-              </View>
+              <ThemedText type="body">{title}</ThemedText>
+              {showsTime ? (
+                <View style={styles.mealMeta}>
+                  <Feather
+                    name="clock"
+                    size={14}
+                    color={theme.textSecondary}
+                  />
+                  <ThemedText type="caption">
+                    {totalTime} min
+                  </ThemedText>
+                </View>
+              ) : entry.type !== "recipe" ? (
+                <View style={styles.mealMeta}>
+                  <Feather
+                    name={ENTRY_ICONS[entry.type]}
+                    size={14}
+                    color={theme.textSecondary}
+                  />
+                  <ThemedText type="caption">
+                    {entry.type === "eat_out" ? "Eating out" : entry.type === "leftovers" ? "Leftovers" : "Custom meal"}
+                  </ThemedText>
+                </View>
+              ) : null}
             </View>
             <Feather
               name="more-horizontal"
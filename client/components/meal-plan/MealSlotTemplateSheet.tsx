@@ -0,0 +1,586 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  BackHandler,
+} from "react-native";
+import { BlurView } from "expo-blur";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useFocusTrap } from "@/hooks/useFocusTrap";
+import { Spacing, BorderRadius, AppColors } from "@/constants/theme";
+import { MEAL_PLAN_PRESETS } from "@/constants/meal-plan";
+import {
+  MAX_SLOT_TEMPLATES,
+  MAX_TEMPLATE_SLOTS,
+  MEAL_SLOT_ICONS,
+  mealSlotTemplateSchema,
+  sortSlots,
+  type MealSlot,
+  type MealSlotTemplate,
+} from "@shared/meal-plan";
+
+interface MealSlotTemplateSheetProps {
+  visible: boolean;
+  templates: MealSlotTemplate[];
+  selectedId: string;
+  onSelect: (templateId: string) => void;
+  onSaveTemplates: (templates: MealSlotTemplate[]) => Promise<void>;
+  onClose: () => void;
+}
+
+interface DraftSlot {
+  id: string;
+  name: string;
+  icon: MealSlot["icon"];
+  targetCalories: string;
+}
+
+interface Draft {
+  id: string;
+  name: string;
+  slots: DraftSlot[];
+  isNew: boolean;
+}
+
+const newId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+function toDraft(template: MealSlotTemplate, isNew: boolean): Draft {
+  return {
+    id: template.id,
+    name: template.name,
+    isNew,
+    slots: sortSlots(template.slots).map((slot) => ({
+      id: slot.id,
+      name: slot.name,
+      icon: slot.icon,
+      targetCalories: slot.targetCalories ? String(slot.targetCalories) : "",
+    })),
+  };
+}
+
+function fromDraft(draft: Draft): MealSlotTemplate {
+  return {
+    id: draft.id,
+    name: draft.name.trim(),
+    slots: draft.slots.map((slot, order) => {
+      const calories = parseInt(slot.targetCalories, 10);
+      return {
+        id: slot.id,
+        name: slot.name.trim(),
+        icon: slot.icon,
+        order,
+        ...(calories > 0 ? { targetCalories: calories } : {}),
+      };
+    }),
+  };
+}
+
+export function MealSlotTemplateSheet({
+  visible,
+  templates,
+  selectedId,
+  onSelect,
+  onSaveTemplates,
+  onClose,
+}: MealSlotTemplateSheetProps) {
+  const { theme, style: themeStyle } = useTheme();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { containerRef, onAccessibilityEscape } = useFocusTrap({
+    visible,
+    onDismiss: onClose,
+  });
+
+  useEffect(() => {
+    if (!visible) {
+      setDraft(null);
+      setError(null);
+      return;
+    }
+
+    const backHandler = BackHandler.addEventListener(
+      "hardwareBackPress",
+      () => {
+        onClose();
+        return true;
+      },
+    );
+
+    return () => backHandler.remove();
+  }, [visible, onClose]);
+
+  const startNewTemplate = () => {
+    const base =
+      MEAL_PLAN_PRESETS.find((p) => p.id === selectedId) ??
+      templates.find((t) => t.id === selectedId) ??
+      MEAL_PLAN_PRESETS[1];
+    setError(null);
+    setDraft(
+      toDraft({ ...base, id: newId("custom"), name: `My ${base.name}` }, true),
+    );
+  };
+
+  const updateSlot = (index: number, changes: Partial<DraftSlot>) => {
+    if (!draft) return;
+    const slots = draft.slots.map((slot, i) =>
+      i === index ? { ...slot, ...changes } : slot,
+    );
+    setDraft({ ...draft, slots });
+  };
+
+  const moveSlot = (index: number, offset: -1 | 1) => {
+    if (!draft) return;
+    const target = index + offset;
+    if (target < 0 || target >= draft.slots.length) return;
+    const slots = [...draft.slots];
+    [slots[index], slots[target]] = [slots[target], slots[index]];
+    setDraft({ ...draft, slots });
+  };
+
+  const removeSlot = (index: number) => {
+    if (!draft || draft.slots.length <= 1) return;
+    setDraft({ ...draft, slots: draft.slots.filter((_, i) => i !== index) });
+  };
+
+  const addSlot = () => {
+    if (!draft || draft.slots.length >= MAX_TEMPLATE_SLOTS) return;
+    setDraft({
+      ...draft,
+      slots: [
+        ...draft.slots,
+        {
+          id: newId("slot"),
+          name: "Snack",
+          icon: "coffee",
+          targetCalories: "",
+        },
+      ],
+    });
+  };
+
+  const cycleIcon = (index: number) => {
+    if (!draft) return;
+    const current = MEAL_SLOT_ICONS.indexOf(draft.slots[index].icon);
+    updateSlot(index, {
+      icon: MEAL_SLOT_ICONS[(current + 1) % MEAL_SLOT_ICONS.length],
+    });
+  };
+
+  const saveDraft = async () => {
+    if (!draft) return;
+    const parsed = mealSlotTemplateSchema.safeParse(fromDraft(draft));
+    if (!parsed.success) {
+      setError("Give the template and every slot a name.");
+      return;
+    }
+    const next = draft.isNew
+      ? [...templates, parsed.data]
+      : templates.map((t) => (t.id === parsed.data.id ? parsed.data : t));
+    setSaving(true);
+    try {
+      await onSaveTemplates(next);
+      onSelect(parsed.data.id);
+      setDraft(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteDraft = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      await onSaveTemplates(templates.filter((t) => t.id !== draft.id));
+      if (selectedId === draft.id) {
+        onSelect(MEAL_PLAN_PRESETS[1].id);
+      }
+      setDraft(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderTemplateRow = (template: MealSlotTemplate, editable: boolean) => {
+    const selected = template.id === selectedId;
+    return (
+      <View
+        key={template.id}
+        style={[
+          styles.templateRow,
+          {
+            borderColor: selected ? AppColors.primary : themeStyle.glass.border,
+          },
+        ]}
+      >
+        <Pressable
+          style={styles.templateInfo}
+          onPress={() => onSelect(template.id)}
+          accessibilityRole="radio"
+          accessibilityState={{ checked: selected }}
+          accessibilityLabel={`${template.name}, ${template.slots.length} meals`}
+          testID={`button-template-${template.id}`}
+        >
+          <ThemedText type="body">{template.name}</ThemedText>
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            {sortSlots(template.slots)
+              .map((slot) => slot.name)
+              .join(" · ")}
+          </ThemedText>
+        </Pressable>
+        {selected ? (
+          <Feather name="check" size={20} color={AppColors.primary} />
+        ) : null}
+        {editable ? (
+          <Pressable
+            onPress={() => {
+              setError(null);
+              setDraft(toDraft(template, false));
+            }}
+            style={styles.iconButton}
+            accessibilityRole="button"
+            accessibilityLabel={`Edit ${template.name}`}
+          >
+            <Feather name="edit-2" size={18} color={theme.textSecondary} />
+          </Pressable>
+        ) : null}
+      </View>
+    );
+  };
+
+  const renderEditor = (current: Draft) => (
+    <View style={styles.body}>
+      <TextInput
+        style={[
+          styles.input,
+          { backgroundColor: theme.backgroundSecondary, color: theme.text },
+        ]}
+        value={current.name}
+        onChangeText={(name) => setDraft({ ...current, name })}
+        placeholder="Template name"
+        placeholderTextColor={theme.textSecondary}
+        maxLength={60}
+        testID="input-template-name"
+        accessibilityLabel="Template name"
+      />
+
+      {current.slots.map((slot, index) => (
+        <View key={slot.id} style={styles.slotRow}>
+          <Pressable
+            onPress={() => cycleIcon(index)}
+            style={[
+              styles.iconButton,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+            accessibilityRole="button"
+            accessibilityLabel={`Change icon for ${slot.name || "slot"}`}
+          >
+            <Feather name={slot.icon} size={18} color={theme.text} />
+          </Pressable>
+          <TextInput
+            style={[
+              styles.input,
+              styles.slotName,
+              { backgroundColor: theme.backgroundSecondary, color: theme.text },
+            ]}
+            value={slot.name}
+            onChangeText={(name) => updateSlot(index, { name })}
+            placeholder="Meal name"
+            placeholderTextColor={theme.textSecondary}
+            maxLength={40}
+            accessibilityLabel={`Meal ${index + 1} name`}
+          />
+          <TextInput
+            style={[
+              styles.input,
+              styles.slotCalories,
+              { backgroundColor: theme.backgroundSecondary, color: theme.text },
+            ]}
+            value={slot.targetCalories}
+            onChangeText={(value) =>
+              updateSlot(index, { targetCalories: value.replace(/\D/g, "") })
+            }
+            placeholder="kcal"
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="number-pad"
+            maxLength={4}
+            accessibilityLabel={`Target calories for ${slot.name || "slot"}`}
+          />
+          <Pressable
+            onPress={() => moveSlot(index, -1)}
+            disabled={index === 0}
+            style={[styles.iconButton, { opacity: index === 0 ? 0.3 : 1 }]}
+            accessibilityRole="button"
+            accessibilityLabel={`Move ${slot.name || "slot"} up`}
+          >
+            <Feather name="chevron-up" size={18} color={theme.text} />
+          </Pressable>
+          <Pressable
+            onPress={() => removeSlot(index)}
+            disabled={current.slots.length <= 1}
+            style={[
+              styles.iconButton,
+              { opacity: current.slots.length <= 1 ? 0.3 : 1 },
+            ]}
+            accessibilityRole="button"
+            accessibilityLabel={`Remove ${slot.name || "slot"}`}
+          >
+            <Feather name="x" size={18} color={AppColors.error} />
+          </Pressable>
+        </View>
+      ))}
+
+      {current.slots.length < MAX_TEMPLATE_SLOTS ? (
+        <Pressable
+          style={[styles.addButton, { borderColor: themeStyle.glass.border }]}
+          onPress={addSlot}
+          accessibilityRole="button"
+          accessibilityLabel="Add a meal slot"
+        >
+          <Feather name="plus" size={18} color={theme.textSecondary} />
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            Add meal
+          </ThemedText>
+        </Pressable>
+      ) : null}
+
+      {error ? (
+        <ThemedText
+          type="caption"
+          style={{ color: AppColors.error }}
+          accessibilityLiveRegion="polite"
+        >
+          {error}
+        </ThemedText>
+      ) : null}
+
+      <View style={styles.editorActions}>
+        {!current.isNew ? (
+          <Pressable
+            style={[styles.secondaryButton, { borderColor: AppColors.error }]}
+            onPress={deleteDraft}
+            disabled={saving}
+            accessibilityRole="button"
+            accessibilityLabel="Delete template"
+          >
+            <ThemedText type="button" style={{ color: AppColors.error }}>
+              Delete
+            </ThemedText>
+          </Pressable>
+        ) : null}
+        <Pressable
+          style={[styles.secondaryButton, { borderColor: theme.border }]}
+          onPress={() => setDraft(null)}
+          disabled={saving}
+          accessibilityRole="button"
+          accessibilityLabel="Cancel editing"
+        >
+          <ThemedText type="button">Cancel</ThemedText>
+        </Pressable>
+        <Pressable
+          style={[styles.primaryButton, { opacity: saving ? 0.5 : 1 }]}
+          onPress={saveDraft}
+          disabled={saving}
+          testID="button-save-template"
+          accessibilityRole="button"
+          accessibilityLabel="Save template"
+        >
+          <ThemedText type="button" style={{ color: theme.buttonText }}>
+            Save
+          </ThemedText>
+        </Pressable>
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+      accessibilityViewIsModal={true}
+    >
+      <BlurView
+        intensity={20}
+        tint={themeStyle.blur.tintDefault}
+        style={styles.overlay}
+      >
+        <View
+          ref={containerRef}
+          onAccessibilityEscape={onAccessibilityEscape}
+          style={[
+            styles.modalContainer,
+            { backgroundColor: theme.backgroundRoot },
+          ]}
+        >
+          <View
+            style={[
+              styles.header,
+              { borderBottomColor: themeStyle.glass.borderSubtle },
+            ]}
+          >
+            <View style={styles.headerText}>
+              <ThemedText type="h3">
+                {draft ? "Edit Meal Slots" : "Meal Slots"}
+              </ThemedText>
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                Choose which meals your plan has each day
+              </ThemedText>
+            </View>
+            <Pressable
+              onPress={onClose}
+              style={styles.iconButton}
+              accessibilityRole="button"
+              accessibilityLabel="Close meal slots"
+            >
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {draft ? (
+              renderEditor(draft)
+            ) : (
+              <View style={styles.body}>
+                {MEAL_PLAN_PRESETS.map((preset) =>
+                  renderTemplateRow(preset, false),
+                )}
+                {templates.length > 0 ? (
+                  <ThemedText type="small" style={styles.sectionLabel}>
+                    My Templates
+                  </ThemedText>
+                ) : null}
+                {templates.map((template) => renderTemplateRow(template, true))}
+                {templates.length < MAX_SLOT_TEMPLATES ? (
+                  <Pressable
+                    style={[
+                      styles.addButton,
+                      { borderColor: themeStyle.glass.border },
+                    ]}
+                    onPress={startNewTemplate}
+                    testID="button-new-template"
+                    accessibilityRole="button"
+                    accessibilityLabel="Create a custom template"
+                  >
+                    <Feather
+                      name="plus"
+                      size={18}
+                      color={theme.textSecondary}
+                    />
+                    <ThemedText
+                      type="small"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      New template
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
+              </View>
+            )}
+          </ScrollView>
+        </View>
+      </BlurView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+  },
+  modalContainer: {
+    maxHeight: "85%",
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    paddingBottom: Spacing.xl,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  headerText: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  body: {
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  sectionLabel: {
+    fontWeight: "600",
+    marginTop: Spacing.sm,
+  },
+  templateRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  templateInfo: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  iconButton: {
+    padding: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+  },
+  input: {
+    height: 44,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+  },
+  slotRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  slotName: {
+    flex: 1,
+  },
+  slotCalories: {
+    width: 72,
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderStyle: "dashed",
+  },
+  editorActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  secondaryButton: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+  },
+  primaryButton: {
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    backgroundColor: AppColors.primary,
+  },
+});
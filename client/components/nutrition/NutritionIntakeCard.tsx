@@ -0,0 +1,279 @@
+import React, { useCallback } from "react";
+import { View, StyleSheet } from "react-native";
+import { useFocusEffect } from "@react-navigation/native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { GlassCard } from "@/components/GlassCard";
+import { useTheme } from "@/hooks/useTheme";
+import { useNutritionIntake } from "@/hooks/useNutritionIntake";
+import { Spacing, BorderRadius, AppColors } from "@/constants/theme";
+import type { IntakeNutrient, TargetStatus } from "@shared/nutrition-intake";
+
+const STATUS_COLORS: Record<TargetStatus, string> = {
+  none: AppColors.primary,
+  under: AppColors.warning,
+  on_track: AppColors.success,
+  over: AppColors.error,
+};
+
+const NUTRIENT_LABELS: Partial<
+  Record<IntakeNutrient, { label: string; unit: string }>
+> = {
+  protein: { label: "Protein", unit: "g" },
+  carbs: { label: "Carbs", unit: "g" },
+  fat: { label: "Fat", unit: "g" },
+  fiber: { label: "Fiber", unit: "g" },
+  sodium: { label: "Sodium", unit: "mg" },
+};
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function dayLabel(date: string): string {
+  return DAY_LABELS[new Date(`${date}T00:00:00Z`).getUTCDay()] ?? date;
+}
+
+export function NutritionIntakeCard() {
+  const { theme } = useTheme();
+  const { today, trend, refetch } = useNutritionIntake();
+
+  useFocusEffect(
+    useCallback(() => {
+      refetch();
+    }, [refetch]),
+  );
+
+  if (!today) {
+    return null;
+  }
+
+  const calories = today.progress.find((p) => p.nutrient === "calories");
+  const calorieGoal = today.targets.calories ?? 0;
+  const caloriePercent =
+    calorieGoal > 0
+      ? Math.min(100, (today.totals.calories / calorieGoal) * 100)
+      : 0;
+  const chartMax = Math.max(
+    1,
+    calorieGoal,
+    ...(trend?.days.map((d) => d.totals.calories) ?? []),
+  );
+  const loggedDays = trend?.days.filter((d) => d.entryCount > 0).length ?? 0;
+
+  return (
+    <GlassCard
+      style={styles.card}
+      testID="section-nutrition-intake"
+      accessibilityRole="summary"
+      accessibilityLabel="Today's nutrition against your goals"
+    >
+      <ThemedText type="h4">Nutrition Today</ThemedText>
+
+      <View style={styles.totals}>
+        <ThemedText
+          type="h2"
+          style={{ color: STATUS_COLORS[calories?.status ?? "none"] }}
+          testID="text-calories-today"
+        >
+          {Math.round(today.totals.calories)} kcal
+        </ThemedText>
+        <ThemedText type="caption">
+          of {Math.round(calorieGoal)} kcal goal · {today.entries.length} items
+          logged
+        </ThemedText>
+      </View>
+
+      <View
+        style={[styles.track, { backgroundColor: theme.backgroundSecondary }]}
+        accessibilityRole="progressbar"
+        accessibilityValue={{
+          min: 0,
+          max: 100,
+          now: Math.round(caloriePercent),
+        }}
+      >
+        <View
+          style={[
+            styles.fill,
+            {
+              width: `${caloriePercent}%`,
+              backgroundColor: STATUS_COLORS[calories?.status ?? "none"],
+            },
+          ]}
+        />
+      </View>
+
+      <View style={styles.nutrients}>
+        {today.progress
+          .filter((p) => NUTRIENT_LABELS[p.nutrient] && p.target !== null)
+          .map((p) => {
+            const { label, unit } = NUTRIENT_LABELS[p.nutrient]!;
+            const percent = Math.min(100, p.percent ?? 0);
+            return (
+              <View
+                key={p.nutrient}
+                style={styles.nutrientRow}
+                accessibilityRole="text"
+                accessibilityLabel={`${label}: ${Math.round(p.consumed)} of ${Math.round(p.target!)} ${unit}${p.isLimit ? " limit" : ""}`}
+                testID={`row-intake-${p.nutrient}`}
+              >
+                <View style={styles.nutrientLabel}>
+                  <ThemedText type="small">{label}</ThemedText>
+                  <ThemedText type="small">
+                    {Math.round(p.consumed)} / {Math.round(p.target!)}
+                    {unit}
+                    {p.isLimit ? " max" : ""}
+                  </ThemedText>
+                </View>
+                <View
+                  style={[
+                    styles.track,
+                    { backgroundColor: theme.backgroundSecondary },
+                  ]}
+                >
+                  <View
+                    style={[
+                      styles.fill,
+                      {
+                        width: `${percent}%`,
+                        backgroundColor: STATUS_COLORS[p.status],
+                      },
+                    ]}
+                  />
+                </View>
+              </View>
+            );
+          })}
+      </View>
+
+      {today.untrackedCount > 0 ? (
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          {today.untrackedCount} logged{" "}
+          {today.untrackedCount === 1 ? "item has" : "items have"} no nutrition
+          data
+        </ThemedText>
+      ) : null}
+
+      {trend && loggedDays > 0 ? (
+        <>
+          <View style={styles.chart} testID="chart-intake-trend">
+            {trend.days.map((d) => {
+              const barHeight = Math.max(
+                4,
+                (d.totals.calories / chartMax) * 80,
+              );
+              const over =
+                calorieGoal > 0 && d.totals.calories > calorieGoal * 1.1;
+              return (
+                <View
+                  key={d.date}
+                  style={styles.barContainer}
+                  accessibilityRole="text"
+                  accessibilityLabel={`${dayLabel(d.date)}: ${Math.round(d.totals.calories)} calories`}
+                >
+                  <View
+                    style={[
+                      styles.barTrack,
+                      { backgroundColor: theme.backgroundSecondary },
+                    ]}
+                  >
+                    <View
+                      style={[
+                        styles.barFill,
+                        {
+                          height: barHeight,
+                          backgroundColor: over
+                            ? AppColors.error
+                            : AppColors.primary,
+                        },
+                      ]}
+                    />
+                    {calorieGoal > 0 ? (
+                      <View
+                        style={[
+                          styles.goalMarker,
+                          {
+                            bottom: Math.min(78, (calorieGoal / chartMax) * 80),
+                            backgroundColor: theme.text,
+                          },
+                        ]}
+                      />
+                    ) : null}
+                  </View>
+                  <ThemedText type="caption" style={styles.barLabel}>
+                    {dayLabel(d.date)}
+                  </ThemedText>
+                </View>
+              );
+            })}
+          </View>
+          <ThemedText type="caption" testID="text-intake-average">
+            7-day average: {Math.round(trend.average.calories)} kcal ·{" "}
+            {Math.round(trend.average.protein)}g protein ·{" "}
+            {Math.round(trend.average.fiber)}g fiber
+          </ThemedText>
+        </>
+      ) : null}
+    </GlassCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    gap: Spacing.md,
+  },
+  totals: {
+    gap: Spacing.xs,
+  },
+  track: {
+    height: 8,
+    borderRadius: BorderRadius.xs,
+    overflow: "hidden",
+  },
+  fill: {
+    height: "100%",
+    borderRadius: BorderRadius.xs,
+  },
+  nutrients: {
+    gap: Spacing.sm,
+  },
+  nutrientRow: {
+    gap: Spacing.xs,
+  },
+  nutrientLabel: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  chart: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+    alignItems: "flex-end",
+    height: 100,
+    paddingTop: Spacing.md,
+  },
+  barContainer: {
+    alignItems: "center",
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  barTrack: {
+    width: 16,
+    height: 80,
+    borderRadius: BorderRadius.sm,
+    justifyContent: "flex-end",
+    overflow: "hidden",
+  },
+  barFill: {
+    width: "100%",
+    borderRadius: BorderRadius.sm,
+  },
+  goalMarker: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    height: 2,
+    opacity: 0.6,
+  },
+  barLabel: {
+    fontSize: 9,
+  },
+});
@@ -0,0 +1,463 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Modal,
+  Pressable,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  BackHandler,
+} from "react-native";
+import { BlurView } from "expo-blur";
+import { Image } from "expo-image";
+import * as ImagePicker from "expo-image-picker";
+import { Feather } from "@expo/vector-icons";
+import { format, parseISO } from "date-fns";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useFocusTrap } from "@/hooks/useFocusTrap";
+import { Spacing, BorderRadius, AppColors } from "@/constants/theme";
+import type { CookLogEntry } from "@/lib/types";
+
+export interface CookLogDraft {
+  rating: number | null;
+  eaters: string[];
+  notes: string | null;
+  photoUri: string | null;
+}
+
+interface CookLogModalProps {
+  visible: boolean;
+  /** The entry being edited; null logs a new cook. */
+  entry: CookLogEntry | null;
+  /** Names from earlier entries, offered as one-tap choices. */
+  knownEaters: string[];
+  saving: boolean;
+  onSave: (draft: CookLogDraft) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+function parseEaters(text: string): string[] {
+  return text
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+export function CookLogModal({
+  visible,
+  entry,
+  knownEaters,
+  saving,
+  onSave,
+  onDelete,
+  onClose,
+}: CookLogModalProps) {
+  const { theme, style: themeStyle } = useTheme();
+  const [rating, setRating] = useState<number | null>(null);
+  const [eatersText, setEatersText] = useState("");
+  const [notes, setNotes] = useState("");
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const { containerRef, onAccessibilityEscape } = useFocusTrap({
+    visible,
+    onDismiss: onClose,
+  });
+
+  useEffect(() => {
+    if (!visible) return;
+    setRating(entry?.rating ?? null);
+    setEatersText(entry?.eaters.join(", ") ?? "");
+    setNotes(entry?.notes ?? "");
+    setPhotoUri(entry?.photoUri ?? null);
+  }, [visible, entry]);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const backHandler = BackHandler.addEventListener(
+      "hardwareBackPress",
+      () => {
+        onClose();
+        return true;
+      },
+    );
+
+    return () => backHandler.remove();
+  }, [visible, entry, onClose]);
+
+  const eaters = parseEaters(eatersText);
+
+  const toggleEater = (name: string) => {
+    const exists = eaters.some((e) => e.toLowerCase() === name.toLowerCase());
+    setEatersText(
+      (exists
+        ? eaters.filter((e) => e.toLowerCase() !== name.toLowerCase())
+        : [...eaters, name]
+      ).join(", "),
+    );
+  };
+
+  const handlePickPhoto = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      aspect: [4, 3],
+      quality: 0.7,
+    });
+
+    if (!result.canceled && result.assets[0]) {
+      setPhotoUri(result.assets[0].uri);
+    }
+  };
+
+  const subtitle = entry
+    ? `Cooked ${format(parseISO(entry.cookedAt), "MMM d, yyyy")}`
+    : "Cooked today";
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+      accessibilityViewIsModal={true}
+    >
+      <BlurView
+        intensity={20}
+        tint={themeStyle.blur.tintDefault}
+        style={styles.overlay}
+      >
+        <View
+          ref={containerRef}
+          onAccessibilityEscape={onAccessibilityEscape}
+          style={[
+            styles.modalContainer,
+            { backgroundColor: theme.backgroundRoot },
+          ]}
+        >
+          <View
+            style={[
+              styles.header,
+              { borderBottomColor: themeStyle.glass.borderSubtle },
+            ]}
+          >
+            <View style={styles.headerText}>
+              <ThemedText type="h3">
+                {entry ? "How Did It Go?" : "Log a Cook"}
+              </ThemedText>
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                {subtitle}
+              </ThemedText>
+            </View>
+            <Pressable
+              onPress={onClose}
+              style={styles.closeButton}
+              accessibilityRole="button"
+              accessibilityLabel="Close cook log"
+            >
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <ScrollView
+            style={styles.scrollView}
+            contentContainerStyle={styles.scrollContent}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            <ThemedText type="small" style={styles.label}>
+              Rating
+            </ThemedText>
+            <View style={styles.stars} accessibilityRole="radiogroup">
+              {[1, 2, 3, 4, 5].map((value) => {
+                const filled = rating !== null && value <= rating;
+                return (
+                  <Pressable
+                    key={value}
+                    onPress={() => setRating(rating === value ? null : value)}
+                    style={styles.star}
+                    accessibilityRole="radio"
+                    accessibilityState={{ checked: rating === value }}
+                    accessibilityLabel={`${value} star${value === 1 ? "" : "s"}`}
+                    testID={`button-rating-${value}`}
+                  >
+                    <Feather
+                      name="star"
+                      size={28}
+                      color={filled ? AppColors.warning : theme.textSecondary}
+                    />
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <ThemedText type="small" style={styles.label}>
+              Who Ate
+            </ThemedText>
+            {knownEaters.length > 0 ? (
+              <View style={styles.chips}>
+                {knownEaters.map((name) => {
+                  const selected = eaters.some(
+                    (e) => e.toLowerCase() === name.toLowerCase(),
+                  );
+                  return (
+                    <Pressable
+                      key={name}
+                      onPress={() => toggleEater(name)}
+                      style={[
+                        styles.chip,
+                        {
+                          borderColor: selected
+                            ? AppColors.primary
+                            : theme.border,
+                        },
+                      ]}
+                      accessibilityRole="checkbox"
+                      accessibilityState={{ checked: selected }}
+                      accessibilityLabel={name}
+                    >
+                      <ThemedText
+                        type="small"
+                        style={{
+                          color: selected ? AppColors.primary : theme.text,
+                        }}
+                      >
+                        {name}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            ) : null}
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  color: theme.text,
+                },
+              ]}
+              value={eatersText}
+              onChangeText={setEatersText}
+              placeholder="Names, separated by commas"
+              placeholderTextColor={theme.textSecondary}
+              testID="input-cook-log-eaters"
+            />
+
+            <ThemedText type="small" style={styles.label}>
+              Notes
+            </ThemedText>
+            <TextInput
+              style={[
+                styles.input,
+                styles.multiline,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  color: theme.text,
+                },
+              ]}
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+              placeholder="Too salty? Kids asked for seconds?"
+              placeholderTextColor={theme.textSecondary}
+              testID="input-cook-log-notes"
+            />
+
+            <ThemedText type="small" style={styles.label}>
+              Photo
+            </ThemedText>
+            {photoUri ? (
+              <View>
+                <Image
+                  source={{ uri: photoUri }}
+                  style={styles.photo}
+                  contentFit="cover"
+                  accessibilityLabel="Photo of the dish"
+                />
+                <Pressable
+                  onPress={() => setPhotoUri(null)}
+                  style={styles.removePhoto}
+                  accessibilityRole="button"
+                  accessibilityLabel="Remove photo"
+                >
+                  <Feather name="x" size={16} color="#FFFFFF" />
+                </Pressable>
+              </View>
+            ) : (
+              <Pressable
+                onPress={handlePickPhoto}
+                style={[styles.addPhoto, { borderColor: theme.border }]}
+                accessibilityRole="button"
+                accessibilityLabel="Add a photo of the dish"
+              >
+                <Feather name="camera" size={20} color={theme.textSecondary} />
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  Add Photo
+                </ThemedText>
+              </Pressable>
+            )}
+
+            {entry && onDelete ? (
+              <Pressable
+                onPress={onDelete}
+                style={styles.deleteButton}
+                accessibilityRole="button"
+                accessibilityLabel="Delete this cook log entry"
+              >
+                <Feather name="trash-2" size={16} color={AppColors.error} />
+                <ThemedText type="small" style={{ color: AppColors.error }}>
+                  Delete Entry
+                </ThemedText>
+              </Pressable>
+            ) : null}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <Pressable
+              style={[styles.confirmButton, { opacity: saving ? 0.5 : 1 }]}
+              onPress={() =>
+                onSave({
+                  rating,
+                  eaters,
+                  notes: notes.trim() || null,
+                  photoUri,
+                })
+              }
+              disabled={saving}
+              testID="button-save-cook-log"
+              accessibilityRole="button"
+              accessibilityLabel={saving ? "Saving" : "Save cook log"}
+              accessibilityState={{ disabled: saving }}
+            >
+              <Feather name="check" size={20} color={theme.buttonText} />
+              <ThemedText
+                type="button"
+                style={[styles.confirmButtonText, { color: theme.buttonText }]}
+              >
+                {saving ? "Saving..." : "Save"}
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      </BlurView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+  },
+  modalContainer: {
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    maxHeight: "85%",
+    minHeight: "50%",
+    paddingBottom: Spacing.xl,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  headerText: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  label: {
+    fontWeight: "600",
+    marginTop: Spacing.sm,
+  },
+  stars: {
+    flexDirection: "row",
+    gap: Spacing.xs,
+  },
+  star: {
+    padding: Spacing.xs,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.pill,
+    borderWidth: 1,
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 16,
+    minHeight: 44,
+  },
+  multiline: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  photo: {
+    width: "100%",
+    aspectRatio: 4 / 3,
+    borderRadius: BorderRadius.md,
+  },
+  removePhoto: {
+    position: "absolute",
+    top: Spacing.sm,
+    right: Spacing.sm,
+    padding: Spacing.xs,
+    borderRadius: BorderRadius.pill,
+    backgroundColor: "rgba(0,0,0,0.5)",
+  },
+  addPhoto: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderStyle: "dashed",
+  },
+  deleteButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    alignSelf: "flex-start",
+    marginTop: Spacing.md,
+    padding: Spacing.xs,
+  },
+  footer: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.md,
+  },
+  confirmButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    backgroundColor: AppColors.primary,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.lg,
+  },
+  confirmButtonText: {
+    fontWeight: "600",
+  },
+});
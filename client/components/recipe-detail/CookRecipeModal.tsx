@@ -0,0 +1,448 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Modal,
+  Pressable,
+  StyleSheet,
+  ScrollView,
+  BackHandler,
+  ActivityIndicator,
+} from "react-native";
+import { BlurView } from "expo-blur";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useFocusTrap } from "@/hooks/useFocusTrap";
+import { Spacing, BorderRadius, AppColors } from "@/constants/theme";
+import type {
+  LeftoversStorage,
+  RecipeCookDeduction,
+  RecipeCookPreview,
+} from "@/lib/types";
+
+export interface LeftoversChoice {
+  servings: number;
+  storageLocation: LeftoversStorage;
+}
+
+interface CookRecipeModalProps {
+  visible: boolean;
+  preview: RecipeCookPreview | null;
+  committing: boolean;
+  onConfirm: (leftovers: LeftoversChoice | null) => void;
+  onClose: () => void;
+}
+
+function formatAmount(quantity: number | null, unit: string | null): string {
+  if (quantity === null) return "";
+  const rounded = Math.round(quantity * 100) / 100;
+  return unit ? `${rounded} ${unit}` : String(rounded);
+}
+
+function getDeductionDisplay(deduction: RecipeCookDeduction): {
+  icon: "minus-circle" | "alert-circle" | "x-circle" | "help-circle";
+  color: string;
+  detail: string;
+} {
+  switch (deduction.status) {
+    case "deduct":
+      return {
+        icon: "minus-circle",
+        color: AppColors.success,
+        detail: `${formatAmount(deduction.quantityBefore, deduction.unit)} → ${formatAmount(deduction.quantityAfter, deduction.unit)}`,
+      };
+    case "insufficient":
+      return {
+        icon: "alert-circle",
+        color: AppColors.warning,
+        detail: `${formatAmount(deduction.quantityBefore, deduction.unit)} → 0 (not enough)`,
+      };
+    case "unconvertible":
+      return {
+        icon: "help-circle",
+        color: AppColors.warning,
+        detail: `Can't convert ${deduction.requiredUnit} to ${deduction.unit}; unchanged`,
+      };
+    case "unmeasured":
+      return {
+        icon: "help-circle",
+        color: AppColors.warning,
+        detail: "No amount given; unchanged",
+      };
+    default:
+      return {
+        icon: "x-circle",
+        color: AppColors.error,
+        detail: "Not in inventory",
+      };
+  }
+}
+
+export function CookRecipeModal({
+  visible,
+  preview,
+  committing,
+  onConfirm,
+  onClose,
+}: CookRecipeModalProps) {
+  const { theme, style: themeStyle } = useTheme();
+  const [leftoverServings, setLeftoverServings] = useState(0);
+  const [leftoversStorage, setLeftoversStorage] =
+    useState<LeftoversStorage>("fridge");
+  const { containerRef, onAccessibilityEscape } = useFocusTrap({
+    visible,
+    onDismiss: onClose,
+  });
+
+  useEffect(() => {
+    if (!visible) {
+      setLeftoverServings(0);
+      setLeftoversStorage("fridge");
+      return;
+    }
+
+    const backHandler = BackHandler.addEventListener(
+      "hardwareBackPress",
+      () => {
+        onClose();
+        return true;
+      },
+    );
+
+    return () => backHandler.remove();
+  }, [visible, onClose]);
+
+  const deductCount =
+    preview?.deductions.filter((d) => d.deductQuantity > 0).length ?? 0;
+  const maxLeftovers = Math.floor(preview?.servings ?? 0);
+  const canConfirm =
+    !!preview && (deductCount > 0 || leftoverServings > 0) && !committing;
+  const confirmLabel =
+    deductCount > 0
+      ? `Deduct ${deductCount} Ingredient${deductCount === 1 ? "" : "s"}`
+      : "Save Leftovers";
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+      accessibilityViewIsModal={true}
+    >
+      <BlurView
+        intensity={20}
+        tint={themeStyle.blur.tintDefault}
+        style={styles.overlay}
+      >
+        <View
+          ref={containerRef}
+          onAccessibilityEscape={onAccessibilityEscape}
+          style={[
+            styles.modalContainer,
+            { backgroundColor: theme.backgroundRoot },
+          ]}
+        >
+          <View
+            style={[
+              styles.header,
+              { borderBottomColor: themeStyle.glass.borderSubtle },
+            ]}
+          >
+            <View style={styles.headerText}>
+              <ThemedText type="h3">Cooked It</ThemedText>
+              {preview ? (
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  {preview.servings} serving{preview.servings === 1 ? "" : "s"}{" "}
+                  of {preview.recipeTitle}
+                </ThemedText>
+              ) : null}
+            </View>
+            <Pressable
+              onPress={onClose}
+              style={styles.closeButton}
+              accessibilityRole="button"
+              accessibilityLabel="Close cooked it preview"
+            >
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          {!preview ? (
+            <View style={styles.loading}>
+              <ActivityIndicator color={AppColors.primary} />
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                Checking your inventory...
+              </ThemedText>
+            </View>
+          ) : (
+            <ScrollView
+              style={styles.scrollView}
+              contentContainerStyle={styles.scrollContent}
+              showsVerticalScrollIndicator={false}
+              accessibilityLabel="Inventory changes"
+            >
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                These inventory changes will be made:
+              </ThemedText>
+              {preview.deductions.map((deduction, index) => {
+                const display = getDeductionDisplay(deduction);
+                return (
+                  <View
+                    key={`${deduction.ingredientName}-${index}`}
+                    style={[
+                      styles.row,
+                      { backgroundColor: theme.backgroundSecondary },
+                    ]}
+                    accessibilityLabel={`${deduction.itemName ?? deduction.ingredientName}: ${display.detail}`}
+                  >
+                    <Feather
+                      name={display.icon}
+                      size={18}
+                      color={display.color}
+                    />
+                    <View style={styles.rowText}>
+                      <ThemedText type="body" style={{ fontWeight: "600" }}>
+                        {deduction.itemName ?? deduction.ingredientName}
+                      </ThemedText>
+                      <ThemedText
+                        type="caption"
+                        style={{ color: theme.textSecondary }}
+                      >
+                        {display.detail}
+                      </ThemedText>
+                    </View>
+                  </View>
+                );
+              })}
+
+              <View
+                style={[
+                  styles.leftovers,
+                  { backgroundColor: theme.backgroundSecondary },
+                ]}
+              >
+                <View style={styles.leftoversRow}>
+                  <View style={styles.rowText}>
+                    <ThemedText type="body" style={{ fontWeight: "600" }}>
+                      Leftovers
+                    </ThemedText>
+                    <ThemedText
+                      type="caption"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      {leftoverServings > 0
+                        ? `${leftoverServings} serving${leftoverServings === 1 ? "" : "s"} added to inventory`
+                        : "Servings you won't eat today"}
+                    </ThemedText>
+                  </View>
+                  <Pressable
+                    onPress={() =>
+                      setLeftoverServings((n) => Math.max(0, n - 1))
+                    }
+                    disabled={leftoverServings === 0}
+                    style={[
+                      styles.stepperButton,
+                      { opacity: leftoverServings === 0 ? 0.4 : 1 },
+                    ]}
+                    accessibilityRole="button"
+                    accessibilityLabel="Fewer leftover servings"
+                  >
+                    <Feather name="minus" size={18} color={theme.text} />
+                  </Pressable>
+                  <ThemedText
+                    type="body"
+                    style={styles.stepperValue}
+                    accessibilityLiveRegion="polite"
+                  >
+                    {leftoverServings}
+                  </ThemedText>
+                  <Pressable
+                    onPress={() =>
+                      setLeftoverServings((n) => Math.min(maxLeftovers, n + 1))
+                    }
+                    disabled={leftoverServings >= maxLeftovers}
+                    style={[
+                      styles.stepperButton,
+                      {
+                        opacity: leftoverServings >= maxLeftovers ? 0.4 : 1,
+                      },
+                    ]}
+                    accessibilityRole="button"
+                    accessibilityLabel="More leftover servings"
+                    testID="button-more-leftovers"
+                  >
+                    <Feather name="plus" size={18} color={theme.text} />
+                  </Pressable>
+                </View>
+                {leftoverServings > 0 ? (
+                  <View style={styles.storageOptions}>
+                    {(["fridge", "freezer"] as const).map((location) => {
+                      const selected = leftoversStorage === location;
+                      return (
+                        <Pressable
+                          key={location}
+                          onPress={() => setLeftoversStorage(location)}
+                          style={[
+                            styles.storageOption,
+                            {
+                              borderColor: selected
+                                ? AppColors.primary
+                                : theme.border,
+                            },
+                          ]}
+                          accessibilityRole="radio"
+                          accessibilityState={{ checked: selected }}
+                          accessibilityLabel={`Store leftovers in the ${location}`}
+                        >
+                          <ThemedText
+                            type="small"
+                            style={{
+                              color: selected ? AppColors.primary : theme.text,
+                              textTransform: "capitalize",
+                            }}
+                          >
+                            {location}
+                          </ThemedText>
+                        </Pressable>
+                      );
+                    })}
+                  </View>
+                ) : null}
+              </View>
+            </ScrollView>
+          )}
+
+          <View style={styles.footer}>
+            <Pressable
+              style={[styles.confirmButton, { opacity: canConfirm ? 1 : 0.5 }]}
+              onPress={() =>
+                onConfirm(
+                  leftoverServings > 0
+                    ? {
+                        servings: leftoverServings,
+                        storageLocation: leftoversStorage,
+                      }
+                    : null,
+                )
+              }
+              disabled={!canConfirm}
+              testID="button-confirm-cooked"
+              accessibilityRole="button"
+              accessibilityLabel={
+                committing ? "Updating inventory" : confirmLabel
+              }
+              accessibilityState={{ disabled: !canConfirm }}
+            >
+              <Feather name="check" size={20} color={theme.buttonText} />
+              <ThemedText
+                type="button"
+                style={[styles.confirmButtonText, { color: theme.buttonText }]}
+              >
+                {committing ? "Updating..." : confirmLabel}
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      </BlurView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+  },
+  modalContainer: {
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    maxHeight: "85%",
+    minHeight: "50%",
+    paddingBottom: Spacing.xl,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  headerText: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  loading: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  rowText: {
+    flex: 1,
+  },
+  leftovers: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.sm,
+  },
+  leftoversRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  stepperButton: {
+    padding: Spacing.xs,
+  },
+  stepperValue: {
+    minWidth: 24,
+    textAlign: "center",
+  },
+  storageOptions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  storageOption: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.pill,
+    borderWidth: 1,
+  },
+  footer: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.md,
+  },
+  confirmButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    backgroundColor: AppColors.primary,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.lg,
+  },
+  confirmButtonText: {
+    fontWeight: "600",
+  },
+});
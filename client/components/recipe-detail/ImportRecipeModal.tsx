@@ -0,0 +1,243 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  Modal,
+  Pressable,
+  StyleSheet,
+  TextInput,
+  BackHandler,
+  ActivityIndicator,
+} from "react-native";
+import { BlurView } from "expo-blur";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useTheme } from "@/hooks/useTheme";
+import { useFocusTrap } from "@/hooks/useFocusTrap";
+import { Spacing, BorderRadius, AppColors } from "@/constants/theme";
+import { apiClient } from "@/lib/api-client";
+import { syncManager } from "@/lib/sync-manager";
+import { logger } from "@/lib/logger";
+import type { ImportedRecipeResult } from "@/lib/types";
+
+interface ImportRecipeModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onImported: (recipe: ImportedRecipeResult) => void;
+}
+
+export function ImportRecipeModal({
+  visible,
+  onClose,
+  onImported,
+}: ImportRecipeModalProps) {
+  const { theme, style: themeStyle } = useTheme();
+  const [url, setUrl] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { containerRef, onAccessibilityEscape } = useFocusTrap({
+    visible,
+    onDismiss: onClose,
+  });
+
+  useEffect(() => {
+    if (!visible) {
+      setUrl("");
+      setError(null);
+      return;
+    }
+
+    const backHandler = BackHandler.addEventListener(
+      "hardwareBackPress",
+      () => {
+        onClose();
+        return true;
+      },
+    );
+
+    return () => backHandler.remove();
+  }, [visible, onClose]);
+
+  const trimmedUrl = url.trim();
+  const canImport = /^https?:\/\/\S+\.\S+/i.test(trimmedUrl) && !importing;
+
+  const handleImport = async () => {
+    if (!canImport) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const recipe = await apiClient.post<ImportedRecipeResult>(
+        "/api/recipes/import",
+        { url: trimmedUrl },
+      );
+      try {
+        await syncManager.fullSync();
+      } catch (syncError) {
+        logger.warn("Sync after recipe import failed:", syncError);
+      }
+      onImported(recipe);
+    } catch (e) {
+      logger.error("Recipe import failed:", e);
+      setError(e instanceof Error ? e.message : "Couldn't import that recipe.");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent
+      onRequestClose={onClose}
+      accessibilityViewIsModal={true}
+    >
+      <BlurView
+        intensity={20}
+        tint={themeStyle.blur.tintDefault}
+        style={styles.overlay}
+      >
+        <View
+          ref={containerRef}
+          onAccessibilityEscape={onAccessibilityEscape}
+          style={[
+            styles.modalContainer,
+            { backgroundColor: theme.backgroundRoot },
+          ]}
+        >
+          <View
+            style={[
+              styles.header,
+              { borderBottomColor: themeStyle.glass.borderSubtle },
+            ]}
+          >
+            <View style={styles.headerText}>
+              <ThemedText type="h3">Import from Web</ThemedText>
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                Paste a link to a recipe page
+              </ThemedText>
+            </View>
+            <Pressable
+              onPress={onClose}
+              style={styles.closeButton}
+              accessibilityRole="button"
+              accessibilityLabel="Close recipe import"
+            >
+              <Feather name="x" size={24} color={theme.text} />
+            </Pressable>
+          </View>
+
+          <View style={styles.body}>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: theme.backgroundSecondary,
+                  color: theme.text,
+                },
+              ]}
+              value={url}
+              onChangeText={setUrl}
+              placeholder="https://"
+              placeholderTextColor={theme.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              returnKeyType="go"
+              onSubmitEditing={handleImport}
+              editable={!importing}
+              testID="input-import-url"
+              accessibilityLabel="Recipe page URL"
+            />
+            {error ? (
+              <ThemedText
+                type="caption"
+                style={{ color: AppColors.error }}
+                testID="text-import-error"
+                accessibilityLiveRegion="polite"
+              >
+                {error}
+              </ThemedText>
+            ) : null}
+          </View>
+
+          <View style={styles.footer}>
+            <Pressable
+              style={[styles.importButton, { opacity: canImport ? 1 : 0.5 }]}
+              onPress={handleImport}
+              disabled={!canImport}
+              testID="button-import-recipe"
+              accessibilityRole="button"
+              accessibilityLabel={
+                importing ? "Importing recipe" : "Import recipe"
+              }
+              accessibilityState={{ disabled: !canImport }}
+            >
+              {importing ? (
+                <ActivityIndicator color={theme.buttonText} />
+              ) : (
+                <Feather name="download" size={20} color={theme.buttonText} />
+              )}
+              <ThemedText
+                type="button"
+                style={[styles.importButtonText, { color: theme.buttonText }]}
+              >
+                {importing ? "Importing..." : "Import Recipe"}
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+      </BlurView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: "flex-end",
+  },
+  modalContainer: {
+    borderTopLeftRadius: BorderRadius.xl,
+    borderTopRightRadius: BorderRadius.xl,
+    paddingBottom: Spacing.xl,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: Spacing.lg,
+    borderBottomWidth: 1,
+  },
+  headerText: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  closeButton: {
+    padding: Spacing.xs,
+  },
+  body: {
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  input: {
+    height: 48,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+  },
+  footer: {
+    paddingHorizontal: Spacing.lg,
+  },
+  importButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    backgroundColor: AppColors.primary,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.lg,
+  },
+  importButtonText: {
+    fontWeight: "600",
+  },
+});
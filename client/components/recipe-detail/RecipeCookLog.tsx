@@ -0,0 +1,219 @@
+import React from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import { Image } from "expo-image";
+import { Feather } from "@expo/vector-icons";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+
+import { ThemedText } from "@/components/ThemedText";
+import { GlassCard } from "@/components/GlassCard";
+import { Spacing, BorderRadius, AppColors } from "@/constants/theme";
+import type {
+  CookLogEntry,
+  RecipeCookLog as CookLog,
+  ThemeColors,
+} from "@/lib/types";
+
+const RECENT_ENTRIES = 5;
+
+interface RecipeCookLogProps {
+  log: CookLog | null;
+  onLogCook: () => void;
+  onEditEntry: (entry: CookLogEntry) => void;
+  theme: ThemeColors;
+}
+
+function Stars({
+  rating,
+  size,
+  emptyColor,
+}: {
+  rating: number;
+  size: number;
+  emptyColor: string;
+}) {
+  return (
+    <View style={styles.stars}>
+      {[1, 2, 3, 4, 5].map((value) => (
+        <Feather
+          key={value}
+          name="star"
+          size={size}
+          color={value <= Math.round(rating) ? AppColors.warning : emptyColor}
+        />
+      ))}
+    </View>
+  );
+}
+
+export function RecipeCookLog({
+  log,
+  onLogCook,
+  onEditEntry,
+  theme,
+}: RecipeCookLogProps) {
+  const stats = log?.stats ?? null;
+  const entries = log?.entries.slice(0, RECENT_ENTRIES) ?? [];
+
+  const summary = stats
+    ? [
+        `Cooked ${stats.timesCooked} time${stats.timesCooked === 1 ? "" : "s"}`,
+        stats.lastCookedAt
+          ? `last ${formatDistanceToNow(parseISO(stats.lastCookedAt), { addSuffix: true })}`
+          : null,
+      ]
+        .filter(Boolean)
+        .join(", ")
+    : "Not cooked yet";
+
+  return (
+    <GlassCard style={styles.card}>
+      <View style={styles.titleRow}>
+        <Feather name="book-open" size={18} color={theme.text} />
+        <ThemedText type="h4" style={styles.title}>
+          Cook Log
+        </ThemedText>
+        <Pressable
+          onPress={onLogCook}
+          hitSlop={8}
+          style={styles.addButton}
+          accessibilityRole="button"
+          accessibilityLabel="Log a cook of this recipe"
+          testID="button-log-cook"
+        >
+          <Feather name="plus" size={16} color={AppColors.primary} />
+          <ThemedText type="small" style={{ color: AppColors.primary }}>
+            Log
+          </ThemedText>
+        </Pressable>
+      </View>
+
+      <View style={styles.summaryRow}>
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {summary}
+        </ThemedText>
+        {stats?.averageRating ? (
+          <View
+            style={styles.summaryRating}
+            accessibilityLabel={`Average rating ${stats.averageRating} out of 5`}
+          >
+            <Stars
+              rating={stats.averageRating}
+              size={12}
+              emptyColor={theme.textSecondary}
+            />
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              {stats.averageRating.toFixed(1)}
+            </ThemedText>
+          </View>
+        ) : null}
+      </View>
+
+      {entries.map((entry) => (
+        <Pressable
+          key={entry.id}
+          onPress={() => onEditEntry(entry)}
+          style={[styles.entry, { backgroundColor: theme.backgroundSecondary }]}
+          accessibilityRole="button"
+          accessibilityLabel={`Cooked ${format(parseISO(entry.cookedAt), "MMMM d")}${entry.rating ? `, rated ${entry.rating} out of 5` : ", not rated"}. Edit entry`}
+        >
+          {entry.photoUri ? (
+            <Image
+              source={{ uri: entry.photoUri }}
+              style={styles.thumbnail}
+              contentFit="cover"
+            />
+          ) : null}
+          <View style={styles.entryText}>
+            <View style={styles.entryHeader}>
+              <ThemedText type="small" style={styles.entryDate}>
+                {format(parseISO(entry.cookedAt), "MMM d, yyyy")}
+              </ThemedText>
+              {entry.rating ? (
+                <Stars
+                  rating={entry.rating}
+                  size={12}
+                  emptyColor={theme.textSecondary}
+                />
+              ) : (
+                <ThemedText type="caption" style={{ color: AppColors.primary }}>
+                  Rate it
+                </ThemedText>
+              )}
+            </View>
+            {entry.eaters.length > 0 ? (
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                {entry.eaters.join(", ")}
+              </ThemedText>
+            ) : null}
+            {entry.notes ? (
+              <ThemedText
+                type="caption"
+                numberOfLines={2}
+                style={{ color: theme.textSecondary }}
+              >
+                {entry.notes}
+              </ThemedText>
+            ) : null}
+          </View>
+        </Pressable>
+      ))}
+    </GlassCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    gap: Spacing.sm,
+  },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  title: {
+    flex: 1,
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: Spacing.sm,
+  },
+  summaryRating: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  stars: {
+    flexDirection: "row",
+    gap: 2,
+  },
+  entry: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  thumbnail: {
+    width: 48,
+    height: 48,
+    borderRadius: BorderRadius.sm,
+  },
+  entryText: {
+    flex: 1,
+    gap: 2,
+  },
+  entryHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  entryDate: {
+    fontWeight: "600",
+  },
+});
@@ -12,7 +12,7 @@ import {
   IngredientAvailability,
 } from "@/lib/storage";
 import { hasSwapsAvailable } from "@/lib/ingredient-swaps";
-import type { ThemeColors } from "@/lib/types";
+import type { RecipeScaleResult, ThemeColors } from "@/lib/types";
 
 function getAvailabilityIndicator(status?: IngredientAvailability): {
   color: string;
@@ -35,6 +35,9 @@ interface RecipeIngredientsListProps {
   selectedServings: number;
   onServingsChange: (n: number) => void;
   scaleQuantity: (quantity: number | string, baseServings: number, targetServings: number) => string;
+  /** Unit-aware amounts from the server; the linear `scaleQuantity` is the offline fallback. */
+  scaling: RecipeScaleResult | null;
+  onToggleUnits: () => void;
   onSwapPress: (ingredient: RecipeIngredient) => void;
   onAddMissingToShoppingList: () => void;
   availableCount: number;
@@ -50,6 +53,8 @@ export function RecipeIngredientsList({
   selectedServings,
   onServingsChange,
   scaleQuantity,
+  scaling,
+  onToggleUnits,
   onSwapPress,
   onAddMissingToShoppingList,
   availableCount,
@@ -69,7 +74,22 @@ export function RecipeIngredientsList({
       </View>
 
       <View style={styles.servingsStepper}>
-        <ThemedText type="body">Servings</ThemedText>
+        <View style={styles.servingsLabel}>
+          <ThemedText type="body">Servings</ThemedText>
+          {scaling ? (
+            <Pressable
+              onPress={onToggleUnits}
+              style={[styles.unitsChip, { borderColor: theme.border }]}
+              accessibilityRole="button"
+              accessibilityLabel={`Showing ${scaling.units} units. Switch to ${scaling.units === "metric" ? "US" : "metric"} units`}
+              testID="button-toggle-units"
+            >
+              <ThemedText type="caption">
+                {scaling.units === "metric" ? "Metric" : "US"}
+              </ThemedText>
+            </Pressable>
+          ) : null}
+        </View>
         <View style={styles.stepperControls}>
           <Pressable
             onPress={() =>
@@ -132,16 +152,20 @@ export function RecipeIngredientsList({
           ingredient.availabilityStatus,
         );
         const canSwap = hasSwapsAvailable(ingredient.name);
-        const scaledQty = scaleQuantity(
-          ingredient.quantity,
-          recipe.servings || 1,
-          selectedServings,
-        );
+        const scaled = scaling?.ingredients[index];
+        const scaledQty = scaled
+          ? scaled.display
+          : scaleQuantity(
+              ingredient.quantity,
+              recipe.servings || 1,
+              selectedServings,
+            );
+        const unit = scaled ? scaled.unit : ingredient.unit;
         const isLowOrMissing =
           ingredient.availabilityStatus === "partial" ||
           ingredient.availabilityStatus === "unavailable";
         return (
-          <View key={index} style={styles.ingredientRow} accessibilityRole="text" accessibilityLabel={`${ingredient.name}, ${scaledQty} ${ingredient.unit}, ${ingredient.availabilityStatus === 'available' ? 'in stock' : ingredient.availabilityStatus === 'partial' ? 'partially available' : 'not in stock'}`}>
+          <View key={index} style={styles.ingredientRow} accessibilityRole="text" accessibilityLabel={`${ingredient.name}, ${scaledQty} ${unit}, ${ingredient.availabilityStatus === 'available' ? 'in stock' : ingredient.availabilityStatus === 'partial' ? 'partially available' : 'not in stock'}`}>
             <Feather
               name={availability.icon}
               size={20}
@@ -162,7 +186,9 @@ export function RecipeIngredientsList({
                   isLowOrMissing && styles.missingIngredient,
                 ]}
               >
-                {scaledQty} {ingredient.unit} {ingredient.name}
+                {scaledQty} {unit} {ingredient.name}
+                {ingredient.preparation ? `, ${ingredient.preparation}` : ""}
+                {ingredient.notes ? ` (${ingredient.notes})` : ""}
                 {ingredient.isOptional ? " (optional)" : ""}
               </ThemedText>
               {ingredient.availabilityStatus === "partial" &&
@@ -174,6 +200,14 @@ export function RecipeIngredientsList({
                   ({ingredient.percentAvailable}%)
                 </ThemedText>
               ) : null}
+              {scaled?.nonLinear ? (
+                <ThemedText
+                  type="caption"
+                  style={{ color: AppColors.warning }}
+                >
+                  {scaled.nonLinear === "leavener" ? "scale with care" : "to taste"}
+                </ThemedText>
+              ) : null}
             </View>
             {canSwap ? (
               <Pressable
@@ -190,6 +224,18 @@ export function RecipeIngredientsList({
         );
       })}
 
+      {scaling?.warnings.map((warning) => (
+        <View key={warning} style={styles.scaleWarning}>
+          <Feather name="info" size={14} color={theme.textSecondary} />
+          <ThemedText
+            type="caption"
+            style={[styles.scaleWarningText, { color: theme.textSecondary }]}
+          >
+            {warning}
+          </ThemedText>
+        </View>
+      ))}
+
       {availableCount < totalCount ? (
         <View style={styles.missingActionsContainer}>
           <GlassButton
@@ -269,6 +315,25 @@ const styles = StyleSheet.create({
     paddingVertical: Spacing.sm,
     marginBottom: Spacing.sm,
   },
+  servingsLabel: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  unitsChip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.pill,
+    borderWidth: 1,
+  },
+  scaleWarning: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.xs,
+  },
+  scaleWarningText: {
+    flex: 1,
+  },
   stepperControls: {
     flexDirection: "row",
     alignItems: "center",
@@ -8,6 +8,7 @@ import { TermHighlighter, CookingTerm } from "./TermHighlighter";
 import { Spacing, BorderRadius, AppColors } from "@/constants/theme";
 import type { Recipe } from "@/lib/storage";
 import type { ThemeColors } from "@/lib/types";
+import type { DurationMatch } from "@shared/instruction-timing";
 
 interface RecipeInstructionsProps {
   recipe: Recipe;
@@ -19,6 +20,7 @@ interface RecipeInstructionsProps {
   };
   termHighlightingEnabled: boolean;
   onTermPress: (term: CookingTerm) => void;
+  onStartTimer: (stepIndex: number, duration: DurationMatch) => void;
   stepPositions: React.MutableRefObject<Record<number, number>>;
   onInstructionSectionLayout: (y: number) => void;
   theme: ThemeColors;
@@ -30,6 +32,7 @@ export function RecipeInstructions({
   voiceNav,
   termHighlightingEnabled,
   onTermPress,
+  onStartTimer,
   stepPositions,
   onInstructionSectionLayout,
   theme,
@@ -107,22 +110,18 @@ export function RecipeInstructions({
                     )}
                   </View>
                   <View style={styles.instructionText}>
-                    {termHighlightingEnabled ? (
-                      <TermHighlighter
-                        text={instruction}
-                        onTermPress={onTermPress}
-                      />
-                    ) : (
-                      <ThemedText
-                        type="body"
-                        style={[
-                          isCurrentStep && styles.currentStepText,
-                          isPastStep && styles.pastStepText,
-                        ]}
-                      >
-                        {instruction}
-                      </ThemedText>
-                    )}
+                    <TermHighlighter
+                      text={instruction}
+                      onTermPress={onTermPress}
+                      onDurationPress={(duration) =>
+                        onStartTimer(index, duration)
+                      }
+                      highlightTerms={termHighlightingEnabled}
+                      style={[
+                        isCurrentStep && styles.currentStepText,
+                        isPastStep && styles.pastStepText,
+                      ]}
+                    />
                   </View>
                   {isCurrentStep && voiceNav.isSpeaking ? (
                     <Feather
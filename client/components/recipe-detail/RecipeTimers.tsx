@@ -0,0 +1,84 @@
+import React from "react";
+import { View, StyleSheet, Pressable } from "react-native";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { GlassCard } from "@/components/GlassCard";
+import { Spacing, AppColors } from "@/constants/theme";
+import { useCookingTimers } from "@/contexts/CookingTimersContext";
+import { formatTimer, remainingSeconds } from "@/lib/cooking-timers";
+import type { ThemeColors } from "@/lib/types";
+
+interface RecipeTimersProps {
+  theme: ThemeColors;
+}
+
+export function RecipeTimers({ theme }: RecipeTimersProps) {
+  const { timers, now, cancelTimer } = useCookingTimers();
+
+  if (timers.length === 0) return null;
+
+  return (
+    <GlassCard style={styles.card}>
+      <View style={styles.titleRow}>
+        <Feather name="clock" size={18} color={theme.text} />
+        <ThemedText type="h4">Timers</ThemedText>
+      </View>
+      {timers.map((timer) => {
+        const left = remainingSeconds(timer, now);
+        const done = left === 0;
+        return (
+          <View key={timer.id} style={styles.timerRow}>
+            <View style={styles.timerInfo}>
+              <ThemedText type="small" numberOfLines={1}>
+                {timer.label}
+              </ThemedText>
+              <ThemedText
+                type="h4"
+                style={{ color: done ? AppColors.success : AppColors.primary }}
+              >
+                {done ? "Done" : formatTimer(left)}
+              </ThemedText>
+            </View>
+            <Pressable
+              onPress={() => cancelTimer(timer.id)}
+              hitSlop={8}
+              accessibilityRole="button"
+              accessibilityLabel={
+                done
+                  ? `Dismiss ${timer.label} timer`
+                  : `Cancel ${timer.label} timer`
+              }
+              testID={`button-cancel-timer-${timer.id}`}
+            >
+              <Feather
+                name={done ? "check" : "x"}
+                size={20}
+                color={theme.textSecondary}
+              />
+            </Pressable>
+          </View>
+        );
+      })}
+    </GlassCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    gap: Spacing.md,
+  },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  timerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  timerInfo: {
+    flex: 1,
+  },
+});
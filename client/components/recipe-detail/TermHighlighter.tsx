@@ -1,8 +1,13 @@
 import React, { useMemo } from "react";
-import { Text, StyleSheet } from "react-native";
+import { Text, StyleSheet, type StyleProp, type TextStyle } from "react-native";
 import { useQuery } from "@tanstack/react-query";
 import { useTheme } from "@/hooks/useTheme";
 import { Typography } from "@/constants/theme";
+import {
+  findStepMarkers,
+  type DurationMatch,
+  type TemperatureMatch,
+} from "@shared/instruction-timing";
 
 export interface CookingTerm {
   id: number;
@@ -18,18 +23,32 @@ export interface CookingTerm {
 interface TermHighlighterProps {
   text: string;
   onTermPress: (term: CookingTerm) => void;
+  /** When set, durations render as tappable timers. */
+  onDurationPress?: (duration: DurationMatch) => void;
+  /** Turns cooking-term links off while keeping timers and temperatures. */
+  highlightTerms?: boolean;
+  style?: StyleProp<TextStyle>;
 }
 
 type TextSegment =
   | { type: "text"; content: string }
-  | { type: "term"; content: string; term: CookingTerm };
-
-export function TermHighlighter({ text, onTermPress }: TermHighlighterProps) {
+  | { type: "term"; content: string; term: CookingTerm }
+  | { type: "duration"; content: string; duration: DurationMatch }
+  | { type: "temperature"; content: string; temperature: TemperatureMatch };
+
+export function TermHighlighter({
+  text,
+  onTermPress,
+  onDurationPress,
+  highlightTerms = true,
+  style,
+}: TermHighlighterProps) {
   const { theme } = useTheme();
 
   const { data: terms } = useQuery<CookingTerm[]>({
     queryKey: ["/api/cooking-terms"],
     staleTime: Infinity,
+    enabled: highlightTerms,
   });
 
   const termMap = useMemo(() => {
@@ -52,77 +71,112 @@ export function TermHighlighter({ text, onTermPress }: TermHighlighterProps) {
   }, [terms]);
 
   const segments = useMemo((): TextSegment[] => {
-    if (!termPattern || !terms || terms.length === 0) {
-      return [{ type: "text", content: text }];
-    }
+    const splitTerms = (part: string): TextSegment[] => {
+      if (!highlightTerms || !termPattern) {
+        return [{ type: "text", content: part }];
+      }
 
-    const result: TextSegment[] = [];
-    let lastIndex = 0;
-    let match: RegExpExecArray | null;
+      const result: TextSegment[] = [];
+      let lastIndex = 0;
+      let match: RegExpExecArray | null;
 
-    termPattern.lastIndex = 0;
+      termPattern.lastIndex = 0;
 
-    while ((match = termPattern.exec(text)) !== null) {
-      if (match.index > lastIndex) {
-        result.push({
-          type: "text",
-          content: text.slice(lastIndex, match.index),
-        });
-      }
+      while ((match = termPattern.exec(part)) !== null) {
+        if (match.index > lastIndex) {
+          result.push({
+            type: "text",
+            content: part.slice(lastIndex, match.index),
+          });
+        }
 
-      const matchedText = match[0];
-      const termData = termMap.get(matchedText.toLowerCase());
+        const matchedText = match[0];
+        const termData = termMap.get(matchedText.toLowerCase());
+
+        if (termData) {
+          result.push({
+            type: "term",
+            content: matchedText,
+            term: termData,
+          });
+        } else {
+          result.push({
+            type: "text",
+            content: matchedText,
+          });
+        }
 
-      if (termData) {
-        result.push({
-          type: "term",
-          content: matchedText,
-          term: termData,
-        });
-      } else {
+        lastIndex = termPattern.lastIndex;
+      }
+
+      if (lastIndex < part.length) {
         result.push({
           type: "text",
-          content: matchedText,
+          content: part.slice(lastIndex),
         });
       }
 
-      lastIndex = termPattern.lastIndex;
-    }
+      return result;
+    };
 
+    const result: TextSegment[] = [];
+    let lastIndex = 0;
+    for (const marker of findStepMarkers(text)) {
+      if (marker.kind === "duration" && !onDurationPress) continue;
+      if (marker.start > lastIndex) {
+        result.push(...splitTerms(text.slice(lastIndex, marker.start)));
+      }
+      const content = text.slice(marker.start, marker.end);
+      result.push(
+        marker.kind === "duration"
+          ? { type: "duration", content, duration: marker }
+          : { type: "temperature", content, temperature: marker },
+      );
+      lastIndex = marker.end;
+    }
     if (lastIndex < text.length) {
-      result.push({
-        type: "text",
-        content: text.slice(lastIndex),
-      });
+      result.push(...splitTerms(text.slice(lastIndex)));
     }
 
     return result;
-  }, [text, termPattern, termMap, terms]);
-
-  if (!terms || terms.length === 0) {
-    return <Text style={[styles.text, { color: theme.text }]}>{text}</Text>;
-  }
+  }, [text, termPattern, termMap, highlightTerms, onDurationPress]);
 
   return (
-    <Text style={styles.text}>
+    <Text style={[styles.text, { color: theme.text }, style]}>
       {segments.map((segment, index) => {
-        if (segment.type === "text") {
-          return (
-            <Text key={index} style={{ color: theme.text }}>
-              {segment.content}
-            </Text>
-          );
+        switch (segment.type) {
+          case "term":
+            return (
+              <Text
+                key={index}
+                style={[styles.term, { color: theme.primary }]}
+                onPress={() => onTermPress(segment.term)}
+              >
+                {segment.content}
+              </Text>
+            );
+          case "duration":
+            return (
+              <Text
+                key={index}
+                style={[styles.duration, { color: theme.primary }]}
+                onPress={() => onDurationPress?.(segment.duration)}
+                accessibilityRole="button"
+                accessibilityLabel={`Start a ${segment.content} timer`}
+              >
+                {"\u23F1 "}
+                {segment.content}
+              </Text>
+            );
+          case "temperature":
+            return (
+              <Text key={index} style={styles.temperature}>
+                {segment.content}
+              </Text>
+            );
+          default:
+            return <Text key={index}>{segment.content}</Text>;
         }
-
-        return (
-          <Text
-            key={index}
-            style={[styles.term, { color: theme.primary }]}
-            onPress={() => onTermPress(segment.term)}
-          >
-            {segment.content}
-          </Text>
-        );
       })}
     </Text>
   );
@@ -137,4 +191,10 @@ const styles = StyleSheet.create({
     textDecorationLine: "underline",
     textDecorationStyle: "dashed",
   },
+  duration: {
+    fontWeight: "600",
+  },
+  temperature: {
+    fontWeight: "600",
+  },
 });
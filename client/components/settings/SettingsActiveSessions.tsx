@@ -21,6 +21,8 @@ interface Session {
   createdAt: string;
   expiresAt: string;
   isCurrent: boolean;
+  /** Signed in from a device trusted for two-factor; revoking the session forgets it. */
+  isTrusted?: boolean;
 }
 
 interface SettingsActiveSessionsProps {
@@ -234,6 +236,7 @@ export function SettingsActiveSessions({ theme }: SettingsActiveSessionsProps) {
                 </ThemedText>
                 <ThemedText type="caption" style={{ color: theme.textSecondary }}>
                   Started {getRelativeTime(session.createdAt)}
+                  {session.isTrusted ? " · Trusted device" : ""}
                 </ThemedText>
               </View>
               {!session.isCurrent ? (
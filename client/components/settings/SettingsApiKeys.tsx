@@ -0,0 +1,576 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+} from "react-native";
+import { Feather } from "@expo/vector-icons";
+import * as Clipboard from "expo-clipboard";
+import { ThemedText } from "@/components/ThemedText";
+import { GlassCard } from "@/components/GlassCard";
+import { Spacing, AppColors, BorderRadius, Typography } from "@/constants/theme";
+import { apiClient } from "@/lib/api-client";
+import { useTheme } from "@/hooks/useTheme";
+import { runWithStepUp } from "@/hooks/usePasskeys";
+import {
+  API_KEY_EXPIRY_DAYS,
+  API_KEY_SCOPES,
+  API_KEY_SCOPE_LABELS,
+  DEFAULT_API_KEY_RATE_LIMIT,
+  MAX_API_KEYS_PER_USER,
+  type ApiKeyScope,
+} from "@shared/api-keys";
+import type {
+  ApiKeyRequestEntry,
+  ApiKeySummary,
+  CreatedApiKey,
+  ThemeColors,
+} from "@/lib/types";
+
+interface SettingsApiKeysProps {
+  theme: ThemeColors;
+}
+
+/** The create/edit form; editing can't change a key's expiry. */
+interface KeyForm {
+  keyId: string | null;
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  expiresInDays: number | null;
+}
+
+const RATE_LIMIT_OPTIONS = [10, 30, 60, 120];
+
+function expiryLabel(days: number | null): string {
+  if (days === null) return "Never";
+  return days === 365 ? "1 year" : `${days} days`;
+}
+
+function describeKey(key: ApiKeySummary): string {
+  const used = key.lastUsedAt
+    ? `Last used ${new Date(key.lastUsedAt).toLocaleDateString()}`
+    : "Never used";
+  if (key.isExpired) return `${used} · Expired`;
+  if (key.expiresAt) return `${used} · Expires ${new Date(key.expiresAt).toLocaleDateString()}`;
+  return used;
+}
+
+export function SettingsApiKeys({ theme }: SettingsApiKeysProps) {
+  const { style: themeStyle } = useTheme();
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<KeyForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [logsKeyId, setLogsKeyId] = useState<string | null>(null);
+  const [logs, setLogs] = useState<ApiKeyRequestEntry[]>([]);
+  const [isLoadingLogs, setIsLoadingLogs] = useState(false);
+
+  const borderColor = themeStyle.glass?.border || AppColors.border;
+
+  const fetchKeys = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await apiClient.get<{ keys: ApiKeySummary[] }>("/api/external/keys");
+      setKeys(data.keys || []);
+    } catch (err: unknown) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      setError(errMsg || "Failed to load API keys");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  const startCreate = () => {
+    setNewKey(null);
+    setForm({
+      keyId: null,
+      name: "",
+      scopes: ["inventory:read"],
+      rateLimitPerMinute: DEFAULT_API_KEY_RATE_LIMIT,
+      expiresInDays: 90,
+    });
+  };
+
+  const startEdit = (key: ApiKeySummary) => {
+    setForm({
+      keyId: key.id,
+      name: key.name,
+      scopes: key.scopes,
+      rateLimitPerMinute: key.rateLimitPerMinute,
+      expiresInDays: null,
+    });
+  };
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    if (!form) return;
+    const scopes = form.scopes.includes(scope)
+      ? form.scopes.filter((s) => s !== scope)
+      : [...form.scopes, scope];
+    setForm({ ...form, scopes });
+  };
+
+  const canSave = !!form && form.name.trim().length > 0 && form.scopes.length > 0 && !isSaving;
+
+  const handleSave = async () => {
+    if (!form || !canSave) return;
+    setIsSaving(true);
+    try {
+      const body = {
+        name: form.name.trim(),
+        scopes: form.scopes,
+        rateLimitPerMinute: form.rateLimitPerMinute,
+      };
+      if (form.keyId) {
+        const keyId = form.keyId;
+        const updated = await runWithStepUp(() => apiClient.patch(`/api/external/keys/${keyId}`, body));
+        if (!updated) return;
+      } else {
+        const created = await runWithStepUp(() =>
+          apiClient.post<CreatedApiKey>("/api/external/keys", { ...body, expiresInDays: form.expiresInDays }),
+        );
+        if (!created) return;
+        setNewKey(created.apiKey);
+      }
+      setForm(null);
+      await fetchKeys();
+    } catch (err: unknown) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      Alert.alert("Error", errMsg || "Failed to save API key");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = (key: ApiKeySummary) => {
+    Alert.alert(
+      "Revoke API Key",
+      `Shortcuts and automations using "${key.name}" will stop working.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Revoke",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await apiClient.delete(`/api/external/keys/${key.id}`);
+              if (logsKeyId === key.id) setLogsKeyId(null);
+              await fetchKeys();
+            } catch (err: unknown) {
+              const errMsg = err instanceof Error ? err.message : String(err);
+              Alert.alert("Error", errMsg || "Failed to revoke API key");
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const toggleLogs = async (keyId: string) => {
+    if (logsKeyId === keyId) {
+      setLogsKeyId(null);
+      return;
+    }
+    setLogsKeyId(keyId);
+    setLogs([]);
+    setIsLoadingLogs(true);
+    try {
+      const data = await apiClient.get<{ requests: ApiKeyRequestEntry[] }>(`/api/external/keys/${keyId}/logs`);
+      setLogs(data.requests || []);
+    } catch (err: unknown) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      Alert.alert("Error", errMsg || "Failed to load activity");
+      setLogsKeyId(null);
+    } finally {
+      setIsLoadingLogs(false);
+    }
+  };
+
+  const handleCopyKey = async () => {
+    if (!newKey) return;
+    await Clipboard.setStringAsync(newKey);
+    Alert.alert("Copied", "API key copied to the clipboard.");
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, testID: string) => (
+    <Pressable
+      key={testID}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? AppColors.primary : theme.backgroundSecondary,
+          borderColor: selected ? AppColors.primary : theme.border,
+        },
+      ]}
+      testID={testID}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityState={{ selected }}
+    >
+      <ThemedText type="small" style={{ color: selected ? "#FFFFFF" : theme.text }}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  const renderForm = () => {
+    if (!form) return null;
+    return (
+      <View style={[styles.formContainer, { borderColor }]} testID="api-key-form">
+        <TextInput
+          style={[styles.nameInput, { color: theme.text, borderColor }]}
+          value={form.name}
+          onChangeText={(name) => setForm({ ...form, name })}
+          placeholder="Name, e.g. Kitchen Shortcut"
+          placeholderTextColor={theme.textSecondary}
+          maxLength={100}
+          testID="input-api-key-name"
+          accessibilityLabel="API key name"
+        />
+
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          Permissions
+        </ThemedText>
+        <View style={styles.chipRow}>
+          {API_KEY_SCOPES.map((scope) =>
+            renderChip(API_KEY_SCOPE_LABELS[scope], form.scopes.includes(scope), () => toggleScope(scope), `chip-api-key-scope-${scope}`),
+          )}
+        </View>
+
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          Requests per minute
+        </ThemedText>
+        <View style={styles.chipRow}>
+          {RATE_LIMIT_OPTIONS.map((limit) =>
+            renderChip(String(limit), form.rateLimitPerMinute === limit, () => setForm({ ...form, rateLimitPerMinute: limit }), `chip-api-key-rate-${limit}`),
+          )}
+        </View>
+
+        {form.keyId ? null : (
+          <>
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              Expires after
+            </ThemedText>
+            <View style={styles.chipRow}>
+              {API_KEY_EXPIRY_DAYS.map((days) =>
+                renderChip(expiryLabel(days), form.expiresInDays === days, () => setForm({ ...form, expiresInDays: days }), `chip-api-key-expiry-${days ?? "never"}`),
+              )}
+            </View>
+          </>
+        )}
+
+        <View style={styles.formActions}>
+          <Pressable
+            style={styles.actionButton}
+            onPress={() => setForm(null)}
+            disabled={isSaving}
+            testID="button-api-key-cancel"
+            accessibilityRole="button"
+          >
+            <ThemedText type="caption" style={{ color: theme.textSecondary, fontWeight: "600" }}>
+              Cancel
+            </ThemedText>
+          </Pressable>
+          <Pressable
+            style={[styles.primaryButton, { backgroundColor: AppColors.primary }, !canSave && styles.buttonDisabled]}
+            onPress={handleSave}
+            disabled={!canSave}
+            testID="button-api-key-save"
+            accessibilityRole="button"
+            accessibilityLabel={form.keyId ? "Save API key" : "Create API key"}
+            accessibilityState={{ disabled: !canSave }}
+          >
+            {isSaving ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <ThemedText type="caption" style={styles.primaryButtonText}>
+                {form.keyId ? "Save" : "Create Key"}
+              </ThemedText>
+            )}
+          </Pressable>
+        </View>
+      </View>
+    );
+  };
+
+  const renderLogs = () => {
+    if (isLoadingLogs) {
+      return <ActivityIndicator size="small" color={AppColors.primary} />;
+    }
+    if (logs.length === 0) {
+      return (
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          No requests in the last 30 days.
+        </ThemedText>
+      );
+    }
+    return logs.map((entry) => (
+      <View key={entry.id} style={styles.logRow}>
+        <ThemedText type="caption" style={{ color: theme.textSecondary, flex: 1 }}>
+          {new Date(entry.createdAt).toLocaleString()}
+        </ThemedText>
+        <ThemedText type="caption">{entry.action ?? "invalid request"}</ThemedText>
+        <ThemedText
+          type="caption"
+          style={{ color: entry.statusCode < 400 ? AppColors.success : AppColors.error, fontWeight: "600" }}
+        >
+          {entry.statusCode}
+        </ThemedText>
+      </View>
+    ));
+  };
+
+  const renderKey = (key: ApiKeySummary) => (
+    <View key={key.id} style={[styles.keyCard, { borderColor }]} testID={`api-key-card-${key.id}`}>
+      <View style={styles.keyHeader}>
+        <Feather name="key" size={16} color={key.isExpired ? theme.textSecondary : theme.text} />
+        <ThemedText type="body" style={styles.keyName}>
+          {key.name}
+        </ThemedText>
+        <ThemedText type="caption" style={[styles.keyPrefix, { color: theme.textSecondary }]}>
+          {key.keyPrefix}…
+        </ThemedText>
+      </View>
+      <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+        {key.scopes.map((scope) => API_KEY_SCOPE_LABELS[scope] ?? scope).join(", ")} · {key.rateLimitPerMinute}/min
+      </ThemedText>
+      <ThemedText type="caption" style={{ color: key.isExpired ? AppColors.error : theme.textSecondary }}>
+        {describeKey(key)}
+      </ThemedText>
+
+      <View style={styles.keyActions}>
+        <Pressable style={styles.actionButton} onPress={() => toggleLogs(key.id)} testID={`button-api-key-logs-${key.id}`} accessibilityRole="button">
+          <ThemedText type="caption" style={{ color: AppColors.primary, fontWeight: "600" }}>
+            {logsKeyId === key.id ? "Hide activity" : "Activity"}
+          </ThemedText>
+        </Pressable>
+        <Pressable style={styles.actionButton} onPress={() => startEdit(key)} testID={`button-api-key-edit-${key.id}`} accessibilityRole="button">
+          <ThemedText type="caption" style={{ color: AppColors.primary, fontWeight: "600" }}>
+            Edit
+          </ThemedText>
+        </Pressable>
+        <Pressable
+          style={styles.actionButton}
+          onPress={() => handleRevoke(key)}
+          testID={`button-api-key-revoke-${key.id}`}
+          accessibilityRole="button"
+          accessibilityLabel={`Revoke API key ${key.name}`}
+        >
+          <ThemedText type="caption" style={{ color: AppColors.error, fontWeight: "600" }}>
+            Revoke
+          </ThemedText>
+        </Pressable>
+      </View>
+
+      {logsKeyId === key.id ? <View style={styles.logsContainer}>{renderLogs()}</View> : null}
+      {form?.keyId === key.id ? renderForm() : null}
+    </View>
+  );
+
+  return (
+    <GlassCard style={styles.section}>
+      <ThemedText type="h4" style={styles.sectionTitle}>
+        API Keys
+      </ThemedText>
+      <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+        Keys let Siri Shortcuts and other automations reach your kitchen. Give each one only the
+        permissions it needs.
+      </ThemedText>
+
+      {isLoading ? (
+        <View style={styles.centerContainer} testID="loading-api-keys">
+          <ActivityIndicator size="small" color={AppColors.primary} />
+        </View>
+      ) : error ? (
+        <View style={styles.centerContainer} testID="error-api-keys">
+          <Feather name="alert-circle" size={20} color={AppColors.error} />
+          <ThemedText type="caption" style={{ marginTop: Spacing.sm, color: AppColors.error }}>
+            {error}
+          </ThemedText>
+          <Pressable
+            style={[styles.retryButton, { borderColor: themeStyle.glass?.border }]}
+            onPress={fetchKeys}
+            testID="button-retry-api-keys"
+            accessibilityRole="button"
+            accessibilityLabel="Retry loading API keys"
+          >
+            <ThemedText type="caption" style={{ color: AppColors.primary }}>
+              Tap to retry
+            </ThemedText>
+          </Pressable>
+        </View>
+      ) : (
+        <>
+          {newKey ? (
+            <View style={[styles.formContainer, { borderColor }]} testID="api-key-created">
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                Copy your new key now. It won&apos;t be shown again.
+              </ThemedText>
+              <ThemedText type="body" selectable style={styles.newKey} testID="text-new-api-key">
+                {newKey}
+              </ThemedText>
+              <View style={styles.formActions}>
+                <Pressable style={styles.actionButton} onPress={handleCopyKey} testID="button-copy-api-key" accessibilityRole="button">
+                  <ThemedText type="caption" style={{ color: AppColors.primary, fontWeight: "600" }}>
+                    Copy
+                  </ThemedText>
+                </Pressable>
+                <Pressable
+                  style={[styles.primaryButton, { backgroundColor: AppColors.primary }]}
+                  onPress={() => setNewKey(null)}
+                  testID="button-api-key-done"
+                  accessibilityRole="button"
+                >
+                  <ThemedText type="caption" style={styles.primaryButtonText}>
+                    Done
+                  </ThemedText>
+                </Pressable>
+              </View>
+            </View>
+          ) : null}
+
+          {keys.map(renderKey)}
+
+          {form && !form.keyId ? (
+            renderForm()
+          ) : keys.length < MAX_API_KEYS_PER_USER ? (
+            <Pressable
+              style={[styles.addButton, { borderColor }]}
+              onPress={startCreate}
+              testID="button-create-api-key"
+              accessibilityRole="button"
+              accessibilityLabel="Create API key"
+            >
+              <Feather name="plus" size={16} color={AppColors.primary} />
+              <ThemedText type="body" style={{ color: AppColors.primary, fontWeight: "600" }}>
+                Create API key
+              </ThemedText>
+            </Pressable>
+          ) : null}
+        </>
+      )}
+    </GlassCard>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    gap: Spacing.md,
+  },
+  sectionTitle: {
+    marginBottom: Spacing.xs,
+  },
+  centerContainer: {
+    alignItems: "center",
+    paddingVertical: Spacing.lg,
+  },
+  retryButton: {
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    borderWidth: 1,
+    borderRadius: BorderRadius.sm,
+  },
+  keyCard: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    gap: Spacing.xs,
+  },
+  keyHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    flexWrap: "wrap",
+  },
+  keyName: {
+    fontWeight: "600",
+  },
+  keyPrefix: {
+    fontFamily: "monospace",
+  },
+  keyActions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginHorizontal: -Spacing.md,
+  },
+  logsContainer: {
+    gap: Spacing.xs,
+  },
+  logRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  formContainer: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+  nameInput: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    minHeight: 44,
+    fontSize: Typography.body.fontSize,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.pill,
+    borderWidth: 1,
+  },
+  formActions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  actionButton: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  primaryButton: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    minWidth: 96,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  newKey: {
+    fontFamily: "monospace",
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+});
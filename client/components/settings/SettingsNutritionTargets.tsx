@@ -9,12 +9,14 @@ import {
   DEFAULT_MACRO_TARGETS,
   MacroTargets,
 } from "@/lib/storage";
+import { DEFAULT_NUTRITION_GOALS } from "@shared/nutrition-intake";
 import { Spacing, AppColors, BorderRadius } from "@/constants/theme";
 import type { ThemeColors } from "@/lib/types";
 
 interface SettingsNutritionTargetsProps {
   preferences: UserPreferences;
   onMacroChange: (macro: keyof MacroTargets, delta: number) => void;
+  onCalorieGoalChange: (delta: number) => void;
   onResetMacros: () => void;
   theme: ThemeColors;
 }
@@ -22,19 +24,71 @@ interface SettingsNutritionTargetsProps {
 export function SettingsNutritionTargets({
   preferences,
   onMacroChange,
+  onCalorieGoalChange,
   onResetMacros,
   theme,
 }: SettingsNutritionTargetsProps) {
+  const calorieGoal =
+    preferences.nutritionGoals?.calories ?? DEFAULT_NUTRITION_GOALS.calories;
+
   return (
     <GlassCard style={styles.section}>
       <ThemedText type="h4" style={styles.sectionTitle}>
         Nutrition Targets
       </ThemedText>
       <ThemedText type="caption" style={styles.dataInfo}>
-        Set your preferred macro ratios for recipe generation. Values must
-        total 100%.
+        Set your daily calorie goal and preferred macro ratios for intake
+        tracking and recipe generation. Macro values must total 100%.
       </ThemedText>
 
+      <View style={styles.macroRow}>
+        <View style={styles.macroLabel}>
+          <ThemedText type="body">Daily Calories</ThemedText>
+        </View>
+        <View style={styles.macroControls}>
+          <Pressable
+            onPress={() => onCalorieGoalChange(-100)}
+            style={[
+              styles.macroButton,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+            hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+            accessibilityRole="button"
+            accessibilityLabel="Decrease daily calorie goal"
+            testID="button-decrease-calorie-goal"
+          >
+            <Feather name="minus" size={16} color={theme.text} />
+          </Pressable>
+          <View
+            style={[
+              styles.macroValue,
+              { backgroundColor: AppColors.secondary },
+            ]}
+          >
+            <ThemedText
+              type="body"
+              style={{ color: "#FFFFFF", fontWeight: "600" }}
+              testID="text-calorie-goal"
+            >
+              {calorieGoal}
+            </ThemedText>
+          </View>
+          <Pressable
+            onPress={() => onCalorieGoalChange(100)}
+            style={[
+              styles.macroButton,
+              { backgroundColor: theme.backgroundSecondary },
+            ]}
+            hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+            accessibilityRole="button"
+            accessibilityLabel="Increase daily calorie goal"
+            testID="button-increase-calorie-goal"
+          >
+            <Feather name="plus" size={16} color={theme.text} />
+          </Pressable>
+        </View>
+      </View>
+
       {(["protein", "carbs", "fat"] as const).map((macro) => {
         const macros = preferences.macroTargets || DEFAULT_MACRO_TARGETS;
         const labels = { protein: "Protein", carbs: "Carbs", fat: "Fat" };
@@ -1,16 +1,6 @@
-interface MealSlot {
-  id: string;
-  name: string;
-  icon: "sunrise" | "sun" | "moon" | "coffee" | "sunset";
-  order: number;
-}
+import { sortSlots, type MealSlotTemplate } from "@shared/meal-plan";
 
-interface MealPlanPreset {
-  id: string;
-  name: string;
-  description: string;
-  slots: MealSlot[];
-}
+export type MealPlanPreset = MealSlotTemplate;
 
 export const MEAL_PLAN_PRESETS: MealPlanPreset[] = [
   {
@@ -77,8 +67,15 @@ export const MEAL_PLAN_PRESETS: MealPlanPreset[] = [
 
 export const DEFAULT_PRESET_ID = "classic";
 
-export function getPresetById(id: string): MealPlanPreset {
-  return MEAL_PLAN_PRESETS.find((p) => p.id === id) || MEAL_PLAN_PRESETS[1];
+export function getPresetById(
+  id: string,
+  customTemplates: MealSlotTemplate[] = [],
+): MealPlanPreset {
+  const template =
+    customTemplates.find((t) => t.id === id) ||
+    MEAL_PLAN_PRESETS.find((p) => p.id === id) ||
+    MEAL_PLAN_PRESETS[1];
+  return { ...template, slots: sortSlots(template.slots) };
 }
 
 const DAILY_MEALS_TO_PRESET: Record<number, string> = {
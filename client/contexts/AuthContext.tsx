@@ -22,7 +22,7 @@ import {
   authenticateBiometric,
   clearBiometricPreference,
 } from "@/hooks/useBiometricAuth";
-import type { RestoreSessionData } from "@/lib/types";
+import type { PasskeyAssertionResponse, RestoreSessionData, SocialProvider } from "@/lib/types";
 import {
   isWeb,
   AUTH_STORAGE_KEY,
@@ -30,10 +30,15 @@ import {
   type StoredAuthData,
   saveAuthData,
   clearAuthData,
+  saveTrustedDeviceToken,
 } from "@/lib/auth-storage";
 import {
   loginApi,
   registerApi,
+  socialSignInApi,
+  passkeyLoginApi,
+  completeTwoFactorApi,
+  type SocialCredential,
 } from "@/lib/auth-api";
 
 export interface AuthState {
@@ -46,13 +51,37 @@ interface AuthContextType extends AuthState {
   signIn: (
     email: string,
     password: string,
-  ) => Promise<{ success: boolean; error?: string; isNewUser?: boolean }>;
+  ) => Promise<{
+    success: boolean;
+    error?: string;
+    errorCode?: string;
+    twoFactorToken?: string;
+    isNewUser?: boolean;
+  }>;
   signUp: (
     email: string,
     password: string,
     displayName?: string,
     selectedTier?: "pro",
   ) => Promise<{ success: boolean; error?: string; isNewUser?: boolean }>;
+  signInWithProvider: (
+    provider: SocialProvider,
+    credential: SocialCredential,
+  ) => Promise<{
+    success: boolean;
+    error?: string;
+    errorCode?: string;
+    twoFactorToken?: string;
+    isNewUser?: boolean;
+  }>;
+  signInWithPasskey: (
+    assertion: PasskeyAssertionResponse,
+  ) => Promise<{ success: boolean; error?: string; errorCode?: string }>;
+  completeTwoFactorSignIn: (
+    twoFactorToken: string,
+    code: string,
+    trustDevice: boolean,
+  ) => Promise<{ success: boolean; error?: string; errorCode?: string }>;
   signOut: () => Promise<void>;
   completeOnboarding: () => Promise<{ success: boolean; error?: string }>;
   setSignOutCallback: (callback: () => void | Promise<void>) => void;
@@ -66,6 +95,9 @@ const AuthContext = createContext<AuthContextType>({
   isAuthenticated: false,
   signIn: async () => ({ success: false }),
   signUp: async () => ({ success: false }),
+  signInWithProvider: async () => ({ success: false }),
+  signInWithPasskey: async () => ({ success: false }),
+  completeTwoFactorSignIn: async () => ({ success: false }),
   signOut: async () => {},
   completeOnboarding: async () => ({ success: false }),
   setSignOutCallback: () => {},
@@ -321,6 +353,158 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     [],
   );
 
+  const signInWithProvider = useCallback(
+    async (provider: SocialProvider, credential: SocialCredential) => {
+      try {
+        const result = await socialSignInApi(provider, credential);
+        if (!result.success) return result;
+        const { data } = result;
+        const isNewUser = data.user.isNewUser ?? false;
+
+        const authData: StoredAuthData = {
+          user: data.user,
+          token: data.token,
+        };
+
+        await saveAuthData(authData);
+        await storage.setAuthToken(data.token);
+
+        storeKitService.setAuthToken(data.token);
+        storeKitService
+          .setUserId(String(data.user.id))
+          .catch((err) => logger.warn("Failed to set StoreKit user ID:", err));
+        storeKitService
+          .syncPendingPurchases()
+          .catch((err) =>
+            logger.warn("Failed to sync pending purchases:", err),
+          );
+
+        if (isNewUser) {
+          await storage.resetOnboarding();
+          await storage.syncToCloud();
+        }
+
+        setState({
+          user: data.user,
+          token: data.token,
+          isLoading: false,
+        });
+
+        if (!isNewUser) {
+          await storage.syncFromCloud();
+        }
+
+        import("@/lib/notifications").then(({ registerForPushNotifications }) => {
+          registerForPushNotifications().catch((err) =>
+            logger.warn("[Auth] Failed to register push notifications after social sign in:", err),
+          );
+        });
+
+        return { success: true, isNewUser };
+      } catch (error) {
+        logger.error("Social sign in error:", error);
+        return { success: false, error: "Network error. Please try again." };
+      }
+    },
+    [],
+  );
+
+  const signInWithPasskey = useCallback(
+    async (assertion: PasskeyAssertionResponse) => {
+      try {
+        const result = await passkeyLoginApi(assertion);
+        if (!result.success) return result;
+        const { data } = result;
+
+        const authData: StoredAuthData = {
+          user: data.user,
+          token: data.token,
+        };
+
+        await saveAuthData(authData);
+        await storage.setAuthToken(data.token);
+
+        storeKitService.setAuthToken(data.token);
+        storeKitService
+          .setUserId(String(data.user.id))
+          .catch((err) => logger.warn("Failed to set StoreKit user ID:", err));
+        storeKitService
+          .syncPendingPurchases()
+          .catch((err) => logger.warn("Failed to sync pending purchases:", err));
+
+        setState({
+          user: data.user,
+          token: data.token,
+          isLoading: false,
+        });
+
+        await storage.syncFromCloud();
+
+        import("@/lib/notifications").then(({ registerForPushNotifications }) => {
+          registerForPushNotifications().catch((err) =>
+            logger.warn("[Auth] Failed to register push notifications after passkey sign in:", err),
+          );
+        });
+
+        return { success: true };
+      } catch (error) {
+        logger.error("Passkey sign in error:", error);
+        return { success: false, error: "Network error. Please try again." };
+      }
+    },
+    [],
+  );
+
+  const completeTwoFactorSignIn = useCallback(
+    async (twoFactorToken: string, code: string, trustDevice: boolean) => {
+      try {
+        const result = await completeTwoFactorApi(twoFactorToken, code, trustDevice);
+        if (!result.success) return result;
+        const { data } = result;
+
+        if (data.deviceToken) {
+          await saveTrustedDeviceToken(data.deviceToken);
+        }
+
+        const authData: StoredAuthData = {
+          user: data.user,
+          token: data.token,
+        };
+
+        await saveAuthData(authData);
+        await storage.setAuthToken(data.token);
+
+        storeKitService.setAuthToken(data.token);
+        storeKitService
+          .setUserId(String(data.user.id))
+          .catch((err) => logger.warn("Failed to set StoreKit user ID:", err));
+        storeKitService
+          .syncPendingPurchases()
+          .catch((err) => logger.warn("Failed to sync pending purchases:", err));
+
+        setState({
+          user: data.user,
+          token: data.token,
+          isLoading: false,
+        });
+
+        await storage.syncFromCloud();
+
+        import("@/lib/notifications").then(({ registerForPushNotifications }) => {
+          registerForPushNotifications().catch((err) =>
+            logger.warn("[Auth] Failed to register push notifications after two-factor sign in:", err),
+          );
+        });
+
+        return { success: true };
+      } catch (error) {
+        logger.error("Two-factor sign in error:", error);
+        return { success: false, error: "Network error. Please try again." };
+      }
+    },
+    [],
+  );
+
   const signOut = useCallback(async () => {
     try {
       const token = state.token;
@@ -379,6 +563,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       isAuthenticated: !!state.user,
       signIn,
       signUp,
+      signInWithProvider,
+      signInWithPasskey,
+      completeTwoFactorSignIn,
       signOut,
       completeOnboarding,
       setSignOutCallback,
@@ -387,6 +574,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       state,
       signIn,
       signUp,
+      signInWithProvider,
+      signInWithPasskey,
+      completeTwoFactorSignIn,
       signOut,
       completeOnboarding,
       setSignOutCallback,
@@ -0,0 +1,166 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Haptics from "expo-haptics";
+import { Platform } from "react-native";
+import {
+  scheduleTimerNotification,
+  cancelTimerNotification,
+} from "@/lib/notifications";
+import { type CookingTimer } from "@/lib/cooking-timers";
+import { logger } from "@/lib/logger";
+
+const TIMERS_STORAGE_KEY = "@chefspaice/cooking_timers";
+/** Finished timers are dropped after this long. */
+const FINISHED_TIMER_TTL_MS = 60 * 60 * 1000;
+
+interface StartTimerOptions {
+  label: string;
+  seconds: number;
+}
+
+interface CookingTimersContextType {
+  timers: CookingTimer[];
+  /** Epoch milliseconds, ticking every second while any timer runs. */
+  now: number;
+  startTimer: (options: StartTimerOptions) => Promise<CookingTimer>;
+  cancelTimer: (id: string) => Promise<void>;
+  cancelAllTimers: () => Promise<void>;
+}
+
+const CookingTimersContext = createContext<
+  CookingTimersContextType | undefined
+>(undefined);
+
+/**
+ * Kitchen timers that keep running across screens and app restarts. Each
+ * timer is saved with its end time and backed by a scheduled notification,
+ * so it still goes off while the app is in the background.
+ */
+export function CookingTimersProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [timers, setTimers] = useState<CookingTimer[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const timersRef = useRef(timers);
+  timersRef.current = timers;
+
+  useEffect(() => {
+    AsyncStorage.getItem(TIMERS_STORAGE_KEY)
+      .then((stored) => {
+        if (!stored) return;
+        const cutoff = Date.now() - FINISHED_TIMER_TTL_MS;
+        const saved = (JSON.parse(stored) as CookingTimer[]).filter(
+          (t) => t.endsAt > cutoff,
+        );
+        setTimers(saved);
+      })
+      .catch((error) => {
+        logger.warn("Failed to restore cooking timers:", error);
+      });
+  }, []);
+
+  const persist = useCallback((next: CookingTimer[]) => {
+    setTimers(next);
+    AsyncStorage.setItem(TIMERS_STORAGE_KEY, JSON.stringify(next)).catch(
+      (error) => {
+        logger.warn("Failed to save cooking timers:", error);
+      },
+    );
+  }, []);
+
+  const hasRunning = timers.some((t) => t.endsAt > now);
+  useEffect(() => {
+    if (timers.length === 0) return;
+    setNow(Date.now());
+    if (!hasRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timers.length, hasRunning]);
+
+  const finishedIds = useRef(new Set<string>());
+  useEffect(() => {
+    for (const timer of timers) {
+      if (timer.endsAt <= now && !finishedIds.current.has(timer.id)) {
+        finishedIds.current.add(timer.id);
+        if (Platform.OS !== "web" && now - timer.endsAt < 2000) {
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+        }
+      }
+    }
+  }, [timers, now]);
+
+  const startTimer = useCallback(
+    async ({ label, seconds }: StartTimerOptions) => {
+      const endsAt = Date.now() + seconds * 1000;
+      const notificationId = await scheduleTimerNotification(
+        "Timer done",
+        label,
+        new Date(endsAt),
+      ).catch((error) => {
+        logger.warn("Failed to schedule timer notification:", error);
+        return null;
+      });
+      const timer: CookingTimer = {
+        id: `timer_${endsAt}_${Math.random().toString(36).slice(2, 8)}`,
+        label,
+        durationSeconds: seconds,
+        endsAt,
+        notificationId,
+      };
+      persist([...timersRef.current, timer]);
+      return timer;
+    },
+    [persist],
+  );
+
+  const cancelTimer = useCallback(
+    async (id: string) => {
+      const timer = timersRef.current.find((t) => t.id === id);
+      if (timer?.notificationId) {
+        await cancelTimerNotification(timer.notificationId).catch(() => {});
+      }
+      persist(timersRef.current.filter((t) => t.id !== id));
+    },
+    [persist],
+  );
+
+  const cancelAllTimers = useCallback(async () => {
+    await Promise.all(
+      timersRef.current
+        .filter((t) => t.notificationId)
+        .map((t) => cancelTimerNotification(t.notificationId!).catch(() => {})),
+    );
+    persist([]);
+  }, [persist]);
+
+  const value = useMemo(
+    () => ({ timers, now, startTimer, cancelTimer, cancelAllTimers }),
+    [timers, now, startTimer, cancelTimer, cancelAllTimers],
+  );
+
+  return (
+    <CookingTimersContext.Provider value={value}>
+      {children}
+    </CookingTimersContext.Provider>
+  );
+}
+
+export function useCookingTimers(): CookingTimersContextType {
+  const context = useContext(CookingTimersContext);
+  if (!context) {
+    throw new Error(
+      "useCookingTimers must be used within a CookingTimersProvider",
+    );
+  }
+  return context;
+}
@@ -0,0 +1,69 @@
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiClient } from "@/lib/api-client";
+import type { BudgetSummary, MonthlySpend } from "@/lib/types";
+
+const BUDGET_QUERY_KEY = ["/api/budget"];
+const HISTORY_QUERY_KEY = ["/api/budget/history"];
+const HISTORY_MONTHS = 6;
+
+export interface SetBudgetInput {
+  amount: number;
+  categoryBudgets?: Record<string, number> | null;
+}
+
+/** The household's grocery budget and spend for the current month. */
+export function useBudgetSummary() {
+  return useQuery<BudgetSummary>({
+    queryKey: BUDGET_QUERY_KEY,
+    queryFn: () => apiClient.get<BudgetSummary>("/api/budget"),
+    retry: false,
+  });
+}
+
+/**
+ * The current month's budget summary, its recent spend history, and a
+ * setter that refreshes both.
+ */
+export function useGroceryBudget() {
+  const queryClient = useQueryClient();
+  const summaryQuery = useBudgetSummary();
+
+  const historyQuery = useQuery<{ months: MonthlySpend[] }>({
+    queryKey: HISTORY_QUERY_KEY,
+    queryFn: () =>
+      apiClient.get<{ months: MonthlySpend[] }>(
+        `/api/budget/history?months=${HISTORY_MONTHS}`,
+      ),
+    retry: false,
+  });
+
+  const setBudget = useCallback(
+    async (input: SetBudgetInput, month?: string) => {
+      const target = month ?? summaryQuery.data?.month;
+      if (!target) return;
+      const summary = await apiClient.put<BudgetSummary>(
+        `/api/budget/${target}`,
+        input,
+      );
+      queryClient.setQueryData(BUDGET_QUERY_KEY, summary);
+      queryClient.invalidateQueries({ queryKey: HISTORY_QUERY_KEY });
+    },
+    [queryClient, summaryQuery.data?.month],
+  );
+
+  const { refetch: refetchSummary } = summaryQuery;
+  const { refetch: refetchHistory } = historyQuery;
+  const refetch = useCallback(() => {
+    refetchSummary();
+    refetchHistory();
+  }, [refetchSummary, refetchHistory]);
+
+  return {
+    summary: summaryQuery.data ?? null,
+    history: historyQuery.data?.months ?? [],
+    isLoading: summaryQuery.isLoading,
+    setBudget,
+    refetch,
+  };
+}
@@ -0,0 +1,44 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiClient } from "@/lib/api-client";
+import type { DailyIntake, IntakeTrend } from "@/lib/types";
+
+const TREND_DAYS = 7;
+
+/**
+ * Today's nutrient totals against the user's goals, plus the last week of
+ * daily totals. Days are local to the device's time zone.
+ */
+export function useNutritionIntake() {
+  const tzOffset = new Date().getTimezoneOffset();
+
+  const todayQuery = useQuery<DailyIntake>({
+    queryKey: ["/api/nutrition/intake", tzOffset],
+    queryFn: () =>
+      apiClient.get<DailyIntake>(`/api/nutrition/intake?tzOffset=${tzOffset}`),
+    retry: false,
+  });
+
+  const trendQuery = useQuery<IntakeTrend>({
+    queryKey: ["/api/nutrition/intake/trend", TREND_DAYS, tzOffset],
+    queryFn: () =>
+      apiClient.get<IntakeTrend>(
+        `/api/nutrition/intake/trend?days=${TREND_DAYS}&tzOffset=${tzOffset}`,
+      ),
+    retry: false,
+  });
+
+  const { refetch: refetchToday } = todayQuery;
+  const { refetch: refetchTrend } = trendQuery;
+  const refetch = useCallback(() => {
+    refetchToday();
+    refetchTrend();
+  }, [refetchToday, refetchTrend]);
+
+  return {
+    today: todayQuery.data ?? null,
+    trend: trendQuery.data ?? null,
+    isLoading: todayQuery.isLoading,
+    refetch,
+  };
+}
@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { Platform } from "react-native";
+import { apiClient, ApiClientError } from "@/lib/api-client";
+import { logger } from "@/lib/logger";
+import type {
+  PasskeyAssertionResponse,
+  PasskeyCreationOptions,
+  PasskeyRegistrationResponse,
+  PasskeyRequestOptions,
+} from "@/lib/types";
+
+let NativePasskey: typeof import("react-native-passkey").Passkey | null = null;
+
+async function getNativePasskeyModule() {
+  if (Platform.OS === "web") {
+    return null;
+  }
+  if (!NativePasskey) {
+    try {
+      NativePasskey = (await import("react-native-passkey")).Passkey;
+    } catch {
+      logger.log("[Passkeys] react-native-passkey not available");
+    }
+  }
+  return NativePasskey;
+}
+
+const STEP_UP_REQUIRED = "STEP_UP_REQUIRED";
+
+function toBase64Url(value: string): string {
+  return value.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function bufferToBase64Url(buffer: ArrayBuffer): string {
+  let binary = "";
+  for (const byte of new Uint8Array(buffer)) binary += String.fromCharCode(byte);
+  return toBase64Url(btoa(binary));
+}
+
+function base64UrlToBuffer(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+function isCancellation(err: unknown): boolean {
+  const { error, name } = (err ?? {}) as { error?: string; name?: string };
+  return error === "UserCancelled" || name === "NotAllowedError" || name === "AbortError";
+}
+
+function toWebDescriptors(descriptors: PasskeyRequestOptions["allowCredentials"]): PublicKeyCredentialDescriptor[] {
+  return descriptors.map((descriptor) => ({
+    type: "public-key",
+    id: base64UrlToBuffer(descriptor.id),
+    transports: descriptor.transports as AuthenticatorTransport[] | undefined,
+  }));
+}
+
+/** Transports are only hints, and the native module accepts fewer of them. */
+function toNativeDescriptors(descriptors: PasskeyRequestOptions["allowCredentials"]) {
+  return descriptors.map(({ id, type }) => ({ id, type }));
+}
+
+export async function isPasskeySupported(): Promise<boolean> {
+  if (Platform.OS === "web") {
+    return typeof window !== "undefined" && typeof window.PublicKeyCredential !== "undefined";
+  }
+  try {
+    const passkey = await getNativePasskeyModule();
+    return passkey?.isSupported() ?? false;
+  } catch {
+    return false;
+  }
+}
+
+/** Creates a passkey from server options. Resolves null when the user cancels. */
+export async function createPasskey(
+  options: PasskeyCreationOptions,
+): Promise<PasskeyRegistrationResponse | null> {
+  try {
+    if (Platform.OS !== "web") {
+      const passkey = await getNativePasskeyModule();
+      if (!passkey) throw new Error("Passkeys are not available on this device");
+      const result = await passkey.create({
+        ...options,
+        excludeCredentials: toNativeDescriptors(options.excludeCredentials),
+      });
+      return {
+        id: toBase64Url(result.id),
+        rawId: toBase64Url(result.rawId),
+        type: "public-key",
+        response: {
+          clientDataJSON: toBase64Url(result.response.clientDataJSON),
+          attestationObject: toBase64Url(result.response.attestationObject),
+          transports: result.response.transports,
+        },
+      };
+    }
+
+    const credential = (await navigator.credentials.create({
+      publicKey: {
+        ...options,
+        challenge: base64UrlToBuffer(options.challenge),
+        user: { ...options.user, id: base64UrlToBuffer(options.user.id) },
+        excludeCredentials: toWebDescriptors(options.excludeCredentials),
+      },
+    })) as PublicKeyCredential | null;
+    if (!credential) return null;
+
+    const response = credential.response as AuthenticatorAttestationResponse;
+    return {
+      id: credential.id,
+      rawId: bufferToBase64Url(credential.rawId),
+      type: "public-key",
+      response: {
+        clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+        attestationObject: bufferToBase64Url(response.attestationObject),
+        transports: response.getTransports?.(),
+      },
+    };
+  } catch (err) {
+    if (isCancellation(err)) return null;
+    throw err;
+  }
+}
+
+/** Signs a server challenge with a passkey. Resolves null when the user cancels. */
+export async function getPasskeyAssertion(
+  options: PasskeyRequestOptions,
+): Promise<PasskeyAssertionResponse | null> {
+  try {
+    if (Platform.OS !== "web") {
+      const passkey = await getNativePasskeyModule();
+      if (!passkey) throw new Error("Passkeys are not available on this device");
+      const result = await passkey.get({
+        ...options,
+        allowCredentials: toNativeDescriptors(options.allowCredentials),
+      });
+      return {
+        id: toBase64Url(result.id),
+        rawId: toBase64Url(result.rawId ?? result.id),
+        type: "public-key",
+        response: {
+          clientDataJSON: toBase64Url(result.response.clientDataJSON),
+          authenticatorData: toBase64Url(result.response.authenticatorData),
+          signature: toBase64Url(result.response.signature),
+          userHandle: result.response.userHandle ? toBase64Url(result.response.userHandle) : null,
+        },
+      };
+    }
+
+    const credential = (await navigator.credentials.get({
+      publicKey: {
+        ...options,
+        challenge: base64UrlToBuffer(options.challenge),
+        allowCredentials: toWebDescriptors(options.allowCredentials),
+      },
+    })) as PublicKeyCredential | null;
+    if (!credential) return null;
+
+    const response = credential.response as AuthenticatorAssertionResponse;
+    return {
+      id: credential.id,
+      rawId: bufferToBase64Url(credential.rawId),
+      type: "public-key",
+      response: {
+        clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+        authenticatorData: bufferToBase64Url(response.authenticatorData),
+        signature: bufferToBase64Url(response.signature),
+        userHandle: response.userHandle ? bufferToBase64Url(response.userHandle) : null,
+      },
+    };
+  } catch (err) {
+    if (isCancellation(err)) return null;
+    throw err;
+  }
+}
+
+/** Confirms the signed-in user with one of their passkeys. Resolves false when cancelled. */
+export async function confirmWithPasskey(): Promise<boolean> {
+  const options = await apiClient.post<PasskeyRequestOptions>("/api/auth/passkeys/step-up/options");
+  const assertion = await getPasskeyAssertion(options);
+  if (!assertion) return false;
+  await apiClient.post("/api/auth/passkeys/step-up", { response: assertion });
+  return true;
+}
+
+/**
+ * Runs a request to a step-up protected route. When the server asks for
+ * confirmation, prompts for a passkey and retries once. Resolves null when
+ * the user cancels the prompt.
+ */
+export async function runWithStepUp<T>(action: () => Promise<T>): Promise<T | null> {
+  try {
+    return await action();
+  } catch (err) {
+    if (!(err instanceof ApiClientError) || err.errorCode !== STEP_UP_REQUIRED) throw err;
+    if (!(await confirmWithPasskey())) return null;
+    return action();
+  }
+}
+
+export function usePasskeys() {
+  const [isSupported, setIsSupported] = useState(false);
+
+  useEffect(() => {
+    isPasskeySupported().then(setIsSupported);
+  }, []);
+
+  return {
+    isSupported,
+    createPasskey,
+    getPasskeyAssertion,
+    runWithStepUp,
+  };
+}
@@ -0,0 +1,55 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiClient } from "@/lib/api-client";
+import type { ValueEstimateResult } from "@/lib/types";
+
+export interface PriceEstimateInput {
+  name: string;
+  quantity: number;
+  unit?: string | null;
+}
+
+export interface UsePriceEstimateResult {
+  total: number;
+  pricedCount: number;
+  isLoading: boolean;
+}
+
+const STALE_TIME_MS = 5 * 60 * 1000;
+
+/**
+ * Values a list of items at the prices recorded from the user's receipts.
+ * Items without a recorded price are left out of the total.
+ */
+export function usePriceEstimate(
+  items: PriceEstimateInput[],
+): UsePriceEstimateResult {
+  const payload = useMemo(
+    () =>
+      items
+        .filter((item) => item.name.trim() && item.quantity > 0)
+        .map((item) => ({
+          name: item.name,
+          quantity: item.quantity,
+          unit: item.unit ?? null,
+        })),
+    [items],
+  );
+
+  const { data, isLoading } = useQuery<ValueEstimateResult>({
+    queryKey: ["/api/prices/estimate", payload],
+    queryFn: () =>
+      apiClient.post<ValueEstimateResult>("/api/prices/estimate", {
+        items: payload,
+      }),
+    enabled: payload.length > 0,
+    staleTime: STALE_TIME_MS,
+    retry: false,
+  });
+
+  return {
+    total: data?.total ?? 0,
+    pricedCount: data?.pricedCount ?? 0,
+    isLoading: payload.length > 0 && isLoading,
+  };
+}
@@ -5,6 +5,9 @@ import { useTextToSpeech } from "./useTextToSpeech";
 import { useVoiceInput } from "./useVoiceInput";
 import { parseVoiceCommand, ParsedCommand } from "@/lib/voice-commands";
 import { Recipe } from "@/lib/storage";
+import { useCookingTimers } from "@/contexts/CookingTimersContext";
+import { describeDuration, describeTimers } from "@/lib/cooking-timers";
+import { findDurations } from "@shared/instruction-timing";
 
 type ReadingSection =
   | "idle"
@@ -25,8 +28,14 @@ interface RecipeVoiceState {
   lastCommand: string;
 }
 
+/** What the hook reads aloud; a saved recipe or a combined cooking timeline. */
+export type VoiceRecipe = Pick<
+  Recipe,
+  "title" | "description" | "ingredients" | "instructions"
+>;
+
 interface RecipeVoiceNavigationOptions {
-  recipe: Recipe | null;
+  recipe: VoiceRecipe | null;
   onStepChange?: (step: number) => void;
   onCommandExecuted?: (command: string) => void;
 }
@@ -334,6 +343,39 @@ export function useRecipeVoiceNavigation(
     onCommandExecuted,
   ]);
 
+  const { timers, now, startTimer, cancelAllTimers } = useCookingTimers();
+
+  const startVoiceTimer = useCallback(
+    (spokenDuration: string) => {
+      if (!recipe) return;
+      // "set a timer for 10 minutes", or the current step's own time
+      const duration =
+        findDurations(spokenDuration)[0] ??
+        findDurations(recipe.instructions[state.currentStep] ?? "")[0];
+      if (!duration) {
+        speakNow("How long? Try saying 'set a timer for 10 minutes'.");
+        triggerHaptic("error");
+        return;
+      }
+      const seconds = Math.round(duration.maxMinutes * 60);
+      startTimer({
+        label: `${recipe.title} · Step ${state.currentStep + 1}`,
+        seconds,
+      });
+      speakNow(`Timer set for ${describeDuration(seconds)}.`);
+      triggerHaptic("success");
+      onCommandExecuted?.("start_timer");
+    },
+    [
+      recipe,
+      state.currentStep,
+      startTimer,
+      speakNow,
+      triggerHaptic,
+      onCommandExecuted,
+    ],
+  );
+
   const executeCommand = useCallback(
     (command: ParsedCommand) => {
       if (!recipe) return;
@@ -384,9 +426,24 @@ export function useRecipeVoiceNavigation(
           decreaseSpeechRate();
           break;
 
+        case "START_TIMER":
+          startVoiceTimer(command.entities.duration ?? "");
+          break;
+
+        case "CHECK_TIMER":
+          speakNow(describeTimers(timers, now));
+          break;
+
+        case "CANCEL_TIMER":
+          cancelAllTimers();
+          speakNow(
+            timers.length > 0 ? "Timers cancelled." : "No timers are running.",
+          );
+          break;
+
         case "HELP":
           speakNow(
-            "Available commands: say 'next' for next step, 'back' for previous step, 'repeat' to hear again, 'go to step' followed by a number, 'read recipe' to hear the full recipe, or 'stop' to stop reading.",
+            "Available commands: say 'next' for next step, 'back' for previous step, 'repeat' to hear again, 'go to step' followed by a number, 'read recipe' to hear the full recipe, 'set a timer' to time the current step, 'how much time is left' to check your timers, or 'stop' to stop reading.",
           );
           break;
 
@@ -412,6 +469,10 @@ export function useRecipeVoiceNavigation(
       increaseSpeechRate,
       decreaseSpeechRate,
       canPause,
+      startVoiceTimer,
+      timers,
+      now,
+      cancelAllTimers,
       speakNow,
       triggerHaptic,
     ],
@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback } from "react";
+import { Platform } from "react-native";
+import * as Google from "expo-auth-session/providers/google";
+import * as WebBrowser from "expo-web-browser";
+import * as Crypto from "expo-crypto";
+import { logger } from "@/lib/logger";
+import type { SocialCredential } from "@/lib/auth-api";
+import type { SocialProvider } from "@/lib/types";
+
+WebBrowser.maybeCompleteAuthSession();
+
+let AppleAuthentication: typeof import("expo-apple-authentication") | null =
+  null;
+
+async function getAppleAuthenticationModule() {
+  if (Platform.OS !== "ios") {
+    return null;
+  }
+  if (!AppleAuthentication) {
+    try {
+      AppleAuthentication = await import("expo-apple-authentication");
+    } catch {
+      logger.log("[SocialSignIn] expo-apple-authentication not available");
+    }
+  }
+  return AppleAuthentication;
+}
+
+const GOOGLE_IOS_CLIENT_ID = process.env.EXPO_PUBLIC_GOOGLE_IOS_CLIENT_ID;
+const GOOGLE_ANDROID_CLIENT_ID = process.env.EXPO_PUBLIC_GOOGLE_ANDROID_CLIENT_ID;
+const GOOGLE_WEB_CLIENT_ID = process.env.EXPO_PUBLIC_GOOGLE_WEB_CLIENT_ID;
+
+const googleClientId = Platform.select({
+  ios: GOOGLE_IOS_CLIENT_ID,
+  android: GOOGLE_ANDROID_CLIENT_ID,
+  default: GOOGLE_WEB_CLIENT_ID,
+});
+
+// The Google request hook throws when the platform has no client ID, so
+// unconfigured builds get a placeholder and the button stays hidden.
+const UNCONFIGURED_CLIENT_ID = "unconfigured";
+
+/**
+ * Google and Apple sign-in on the device. `getCredential` resolves with the
+ * provider's ID token for the server, or null when the user cancels.
+ */
+export function useSocialSignIn() {
+  const [, , promptGoogle] = Google.useIdTokenAuthRequest({
+    iosClientId: GOOGLE_IOS_CLIENT_ID || UNCONFIGURED_CLIENT_ID,
+    androidClientId: GOOGLE_ANDROID_CLIENT_ID || UNCONFIGURED_CLIENT_ID,
+    webClientId: GOOGLE_WEB_CLIENT_ID || UNCONFIGURED_CLIENT_ID,
+  });
+  const [appleAvailable, setAppleAvailable] = useState(false);
+
+  useEffect(() => {
+    getAppleAuthenticationModule()
+      .then((apple) => apple?.isAvailableAsync() ?? false)
+      .then(setAppleAvailable)
+      .catch(() => setAppleAvailable(false));
+  }, []);
+
+  const getCredential = useCallback(
+    async (provider: SocialProvider): Promise<SocialCredential | null> => {
+      if (provider === "google") {
+        const result = await promptGoogle();
+        if (result.type !== "success") return null;
+        const idToken = result.params.id_token;
+        if (!idToken) throw new Error("Google did not return an ID token");
+        return { idToken };
+      }
+
+      const apple = await getAppleAuthenticationModule();
+      if (!apple) {
+        throw new Error("Sign in with Apple is not available on this device");
+      }
+
+      // Apple signs the SHA-256 of the nonce; the server gets the raw value.
+      const nonce = Crypto.randomUUID();
+      const hashedNonce = await Crypto.digestStringAsync(
+        Crypto.CryptoDigestAlgorithm.SHA256,
+        nonce,
+      );
+
+      try {
+        const credential = await apple.signInAsync({
+          requestedScopes: [
+            apple.AppleAuthenticationScope.FULL_NAME,
+            apple.AppleAuthenticationScope.EMAIL,
+          ],
+          nonce: hashedNonce,
+        });
+        if (!credential.identityToken) {
+          throw new Error("Apple did not return an identity token");
+        }
+        const displayName = credential.fullName
+          ? apple.formatFullName(credential.fullName).trim()
+          : "";
+        return {
+          idToken: credential.identityToken,
+          nonce,
+          displayName: displayName || undefined,
+        };
+      } catch (err) {
+        if ((err as { code?: string }).code === "ERR_REQUEST_CANCELED") {
+          return null;
+        }
+        throw err;
+      }
+    },
+    [promptGoogle],
+  );
+
+  return {
+    googleAvailable: !!googleClientId,
+    appleAvailable,
+    getCredential,
+  };
+}
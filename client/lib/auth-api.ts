@@ -1,10 +1,41 @@
 import { apiClient } from "@/lib/api-client";
 import { logger } from "@/lib/logger";
-import type { AuthResponseData, ApiResponseBody } from "@/lib/types";
+import { loadTrustedDeviceToken } from "@/lib/auth-storage";
+import type {
+  AuthResponseData,
+  ApiResponseBody,
+  PasskeyAssertionResponse,
+  SocialProvider,
+  TwoFactorPendingData,
+} from "@/lib/types";
+
+export const TWO_FACTOR_REQUIRED = "TWO_FACTOR_REQUIRED";
 
 export type AuthResult =
   | { success: true; data: AuthResponseData }
-  | { success: false; error: string };
+  | { success: false; error: string; errorCode?: string; twoFactorToken?: string };
+
+function isTwoFactorPending(data: unknown): data is TwoFactorPendingData {
+  return (data as TwoFactorPendingData | undefined)?.twoFactorRequired === true;
+}
+
+/** The password or provider was accepted; the caller asks for a code and calls completeTwoFactorApi. */
+function twoFactorRequired(data: TwoFactorPendingData): AuthResult {
+  return {
+    success: false,
+    error: "Enter the code from your authenticator app",
+    errorCode: TWO_FACTOR_REQUIRED,
+    twoFactorToken: data.twoFactorToken,
+  };
+}
+
+export interface SocialCredential {
+  idToken: string;
+  nonce?: string;
+  displayName?: string;
+  /** Password of an existing account with the same email, to link into it. */
+  password?: string;
+}
 
 export async function loginApi(
   email: string,
@@ -14,15 +45,23 @@ export async function loginApi(
     skipAuth: true,
     headers: { "Content-Type": "application/json" },
     credentials: "include",
-    body: JSON.stringify({ email, password }),
+    body: JSON.stringify({
+      email,
+      password,
+      deviceToken: (await loadTrustedDeviceToken()) ?? undefined,
+    }),
   });
 
-  const body: ApiResponseBody<AuthResponseData> = await response.json();
+  const body: ApiResponseBody<AuthResponseData | TwoFactorPendingData> = await response.json();
 
   if (!response.ok) {
     return { success: false, error: body.error || "Sign in failed" };
   }
 
+  if (isTwoFactorPending(body.data)) {
+    return twoFactorRequired(body.data);
+  }
+
   const data = body.data as AuthResponseData;
 
   if (!data.user || !data.user.id || !data.token) {
@@ -81,3 +120,112 @@ export async function registerApi(
 
   return { success: true, data };
 }
+
+export async function socialSignInApi(
+  provider: SocialProvider,
+  credential: SocialCredential,
+): Promise<AuthResult> {
+  const response = await apiClient.raw("POST", `/api/auth/social/${provider}`, {
+    skipAuth: true,
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({
+      ...credential,
+      deviceToken: (await loadTrustedDeviceToken()) ?? undefined,
+    }),
+  });
+
+  const body: ApiResponseBody<AuthResponseData | TwoFactorPendingData> = await response.json();
+
+  if (!response.ok) {
+    return {
+      success: false,
+      error: body.error || "Sign in failed",
+      errorCode: body.errorCode,
+    };
+  }
+
+  if (isTwoFactorPending(body.data)) {
+    return twoFactorRequired(body.data);
+  }
+
+  const data = body.data as AuthResponseData;
+
+  if (!data.user || !data.user.id || !data.token) {
+    logger.error("Social sign in: Invalid server response - missing user or token");
+    return {
+      success: false,
+      error: "Invalid server response. Please try again.",
+    };
+  }
+
+  return { success: true, data };
+}
+
+export async function passkeyLoginApi(
+  assertion: PasskeyAssertionResponse,
+): Promise<AuthResult> {
+  const response = await apiClient.raw("POST", "/api/auth/passkeys/login", {
+    skipAuth: true,
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ response: assertion }),
+  });
+
+  const body: ApiResponseBody<AuthResponseData> = await response.json();
+
+  if (!response.ok) {
+    return {
+      success: false,
+      error: body.error || "Passkey sign in failed",
+      errorCode: body.errorCode,
+    };
+  }
+
+  const data = body.data as AuthResponseData;
+
+  if (!data.user || !data.user.id || !data.token) {
+    logger.error("Passkey sign in: Invalid server response - missing user or token");
+    return {
+      success: false,
+      error: "Invalid server response. Please try again.",
+    };
+  }
+
+  return { success: true, data };
+}
+
+export async function completeTwoFactorApi(
+  twoFactorToken: string,
+  code: string,
+  trustDevice: boolean,
+): Promise<AuthResult> {
+  const response = await apiClient.raw("POST", "/api/auth/login/2fa", {
+    skipAuth: true,
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ twoFactorToken, code, trustDevice }),
+  });
+
+  const body: ApiResponseBody<AuthResponseData> = await response.json();
+
+  if (!response.ok) {
+    return {
+      success: false,
+      error: body.error || "Verification failed",
+      errorCode: body.errorCode,
+    };
+  }
+
+  const data = body.data as AuthResponseData;
+
+  if (!data.user || !data.user.id || !data.token) {
+    logger.error("Two-factor sign in: Invalid server response - missing user or token");
+    return {
+      success: false,
+      error: "Invalid server response. Please try again.",
+    };
+  }
+
+  return { success: true, data };
+}
@@ -6,6 +6,8 @@ export const isIOS = Platform.OS === "ios";
 export const isAndroid = Platform.OS === "android";
 
 export const AUTH_STORAGE_KEY = "@chefspaice/auth";
+/** Kept across sign-outs so a trusted device can skip the two-factor step. */
+const TRUSTED_DEVICE_KEY = "@chefspaice/trusted-device";
 
 export interface AuthUser {
   id: string;
@@ -35,3 +37,11 @@ export async function loadAuthData(): Promise<StoredAuthData | null> {
 export async function clearAuthData(): Promise<void> {
   await AsyncStorage.removeItem(AUTH_STORAGE_KEY);
 }
+
+export async function saveTrustedDeviceToken(token: string): Promise<void> {
+  await AsyncStorage.setItem(TRUSTED_DEVICE_KEY, token);
+}
+
+export async function loadTrustedDeviceToken(): Promise<string | null> {
+  return AsyncStorage.getItem(TRUSTED_DEVICE_KEY);
+}
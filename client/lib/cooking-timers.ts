@@ -0,0 +1,54 @@
+/**
+ * Kitchen timer helpers shared by the timer context, the timer bar and voice
+ * navigation.
+ */
+
+export interface CookingTimer {
+  id: string;
+  label: string;
+  durationSeconds: number;
+  /** Epoch milliseconds when the timer runs out. */
+  endsAt: number;
+  notificationId: string | null;
+}
+
+export function remainingSeconds(timer: CookingTimer, now: number): number {
+  return Math.max(0, Math.ceil((timer.endsAt - now) / 1000));
+}
+
+/** "4:05" or "1:02:30". */
+export function formatTimer(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const mm = hours > 0 ? minutes.toString().padStart(2, "0") : `${minutes}`;
+  const ss = secs.toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${mm}:${ss}` : `${mm}:${ss}`;
+}
+
+/** "4 minutes 5 seconds", for reading aloud. */
+export function describeDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const parts: string[] = [];
+  if (hours > 0) parts.push(`${hours} hour${hours === 1 ? "" : "s"}`);
+  if (minutes > 0) parts.push(`${minutes} minute${minutes === 1 ? "" : "s"}`);
+  if (secs > 0 && hours === 0) {
+    parts.push(`${secs} second${secs === 1 ? "" : "s"}`);
+  }
+  return parts.length > 0 ? parts.join(" ") : "0 seconds";
+}
+
+/** One sentence per timer, for a voice "how much time is left". */
+export function describeTimers(timers: CookingTimer[], now: number): string {
+  if (timers.length === 0) return "No timers are running.";
+  return timers
+    .map((timer) => {
+      const left = remainingSeconds(timer, now);
+      return left === 0
+        ? `${timer.label} is done.`
+        : `${timer.label}: ${describeDuration(left)} left.`;
+    })
+    .join(" ");
+}
@@ -32,6 +32,7 @@ async function getNotificationsModule() {
 }
 
 const NOTIFICATION_CHANNEL_ID = "expiration-alerts";
+const COOKING_CHANNEL_ID = "cooking-alerts";
 
 async function setupNotificationChannel(): Promise<void> {
   if (Platform.OS === "android") {
@@ -43,6 +44,12 @@ async function setupNotificationChannel(): Promise<void> {
       vibrationPattern: [0, 250, 250, 250],
       lightColor: "#22C55E",
     });
+    await notif.setNotificationChannelAsync(COOKING_CHANNEL_ID, {
+      name: "Cooking Timers",
+      importance: notif.AndroidImportance.HIGH,
+      vibrationPattern: [0, 500, 250, 500],
+      lightColor: "#22C55E",
+    });
   }
 }
 
@@ -82,6 +89,108 @@ export async function cancelAllExpirationNotifications(): Promise<void> {
   }
 }
 
+export interface CookingAlert {
+  id: string;
+  title: string;
+  body: string;
+  at: Date;
+}
+
+export async function cancelCookingNotifications(): Promise<void> {
+  const notif = await getNotificationsModule();
+  if (!notif) return;
+
+  const scheduledNotifications =
+    await notif.getAllScheduledNotificationsAsync();
+
+  for (const notification of scheduledNotifications) {
+    const data = notification.content.data as { type?: string } | undefined;
+    if (data?.type === "cooking-alert") {
+      await notif.cancelScheduledNotificationAsync(notification.identifier);
+    }
+  }
+}
+
+/**
+ * Schedules local alerts for a cooking session, replacing any from an
+ * earlier one. Alerts already in the past are skipped. Returns how many
+ * were scheduled.
+ */
+export async function scheduleCookingNotifications(
+  alerts: CookingAlert[],
+): Promise<number> {
+  const notif = await getNotificationsModule();
+  if (!notif) return 0;
+
+  const hasPermission = await requestNotificationPermissions();
+  if (!hasPermission) return 0;
+
+  await cancelCookingNotifications();
+
+  const now = new Date();
+  let scheduledCount = 0;
+  for (const alert of alerts) {
+    if (alert.at <= now) continue;
+    await notif.scheduleNotificationAsync({
+      content: {
+        title: alert.title,
+        body: alert.body,
+        data: { type: "cooking-alert", alertId: alert.id },
+        sound: true,
+        priority: notif.AndroidNotificationPriority.HIGH,
+      },
+      trigger: {
+        type: notif.SchedulableTriggerInputTypes.DATE,
+        date: alert.at,
+        channelId: COOKING_CHANNEL_ID,
+      },
+    });
+    scheduledCount++;
+  }
+
+  return scheduledCount;
+}
+
+/**
+ * Schedules the alert for one kitchen timer so it fires even when the app is
+ * in the background. Returns the notification id, or null when
+ * notifications are unavailable.
+ */
+export async function scheduleTimerNotification(
+  title: string,
+  body: string,
+  at: Date,
+): Promise<string | null> {
+  const notif = await getNotificationsModule();
+  if (!notif) return null;
+
+  const hasPermission = await requestNotificationPermissions();
+  if (!hasPermission) return null;
+
+  return notif.scheduleNotificationAsync({
+    content: {
+      title,
+      body,
+      data: { type: "cooking-timer" },
+      sound: true,
+      priority: notif.AndroidNotificationPriority.MAX,
+    },
+    trigger: {
+      type: notif.SchedulableTriggerInputTypes.DATE,
+      date: at,
+      channelId: COOKING_CHANNEL_ID,
+    },
+  });
+}
+
+export async function cancelTimerNotification(
+  notificationId: string,
+): Promise<void> {
+  const notif = await getNotificationsModule();
+  if (!notif) return;
+  await notif.cancelScheduledNotificationAsync(notificationId);
+}
+
 function getExpirationMessage(
   itemName: string,
   daysRemaining: number,
@@ -0,0 +1,82 @@
+/**
+ * Server-side search over saved recipes: full-text on title, description,
+ * ingredients and instructions, with facet filters and a "can make now"
+ * check against the current inventory.
+ */
+
+import { apiClient } from "@/lib/api-client";
+import type { RecipeSearchFacets, RecipeSearchResponse } from "@/lib/types";
+
+export interface RecipeSearchFilters {
+  query: string;
+  cuisines: string[];
+  dietaryTags: string[];
+  maxTotalTime: number | null;
+  canMakeNow: boolean;
+}
+
+export interface RecipeSearchMatches {
+  /** Matching recipe ids, newest edit first. */
+  ids: string[];
+  facets: RecipeSearchFacets | null;
+}
+
+/** Total time chips, in minutes. */
+export const RECIPE_TIME_FILTERS = [15, 30, 60] as const;
+
+const PAGE_SIZE = 100;
+/** The list filters a local collection; stop following cursors after this. */
+const MAX_PAGES = 10;
+
+export function hasServerSearchFilters(filters: RecipeSearchFilters): boolean {
+  return (
+    filters.query.trim().length > 0 ||
+    filters.canMakeNow ||
+    filters.maxTotalTime !== null
+  );
+}
+
+export function buildRecipeSearchPath(
+  filters: RecipeSearchFilters,
+  cursor?: string,
+): string {
+  const params = new URLSearchParams();
+  const query = filters.query.trim();
+  if (query) params.set("q", query);
+  if (filters.cuisines.length > 0) {
+    params.set("cuisine", filters.cuisines.join(","));
+  }
+  if (filters.dietaryTags.length > 0) {
+    params.set("dietaryTags", filters.dietaryTags.join(","));
+  }
+  if (filters.maxTotalTime !== null) {
+    params.set("maxTotalTime", String(filters.maxTotalTime));
+  }
+  if (filters.canMakeNow) params.set("canMakeNow", "true");
+  params.set("limit", String(PAGE_SIZE));
+  if (cursor) params.set("cursor", cursor);
+  return `/api/recipes/search?${params.toString()}`;
+}
+
+/** Every recipe id matching the filters, following the cursor page by page. */
+export async function searchRecipeIds(
+  filters: RecipeSearchFilters,
+  signal?: AbortSignal,
+): Promise<RecipeSearchMatches> {
+  const ids: string[] = [];
+  let facets: RecipeSearchFacets | null = null;
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const result = await apiClient.get<RecipeSearchResponse>(
+      buildRecipeSearchPath(filters, cursor),
+      { signal },
+    );
+    ids.push(...result.items.map((item) => item.id));
+    facets = facets ?? result.facets ?? null;
+    cursor = result.nextCursor;
+    if (!cursor) break;
+  }
+
+  return { ids, facets };
+}
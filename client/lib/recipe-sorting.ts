@@ -0,0 +1,80 @@
+/**
+ * Orders the recipe list by the household's cook log.
+ */
+
+import type { RecipeCookStats } from "@/lib/types";
+
+export type RecipeSortMode =
+  | "recent"
+  | "mostCooked"
+  | "topRated"
+  | "notCookedLately";
+
+export const NOT_COOKED_LATELY_DAYS = 30;
+
+export const RECIPE_SORT_OPTIONS: {
+  mode: RecipeSortMode;
+  label: string;
+  icon: "clock" | "repeat" | "star" | "rotate-ccw";
+}[] = [
+  { mode: "recent", label: "Recent", icon: "clock" },
+  { mode: "mostCooked", label: "Most Cooked", icon: "repeat" },
+  { mode: "topRated", label: "Top Rated", icon: "star" },
+  {
+    mode: "notCookedLately",
+    label: `Not Cooked in ${NOT_COOKED_LATELY_DAYS} Days`,
+    icon: "rotate-ccw",
+  },
+];
+
+function lastCooked(stats: RecipeCookStats | undefined): number {
+  return stats?.lastCookedAt ? new Date(stats.lastCookedAt).getTime() : 0;
+}
+
+/**
+ * Sorts (and for "notCookedLately", filters) recipes by their cook stats.
+ * "recent" keeps the saved order. Recipes with no stats keep their relative
+ * order after the ones that have them.
+ */
+export function sortRecipesByCookStats<T extends { id: string }>(
+  recipes: T[],
+  stats: Map<string, RecipeCookStats>,
+  mode: RecipeSortMode,
+  now: Date = new Date(),
+): T[] {
+  switch (mode) {
+    case "mostCooked":
+      return [...recipes].sort((a, b) => {
+        const sa = stats.get(a.id);
+        const sb = stats.get(b.id);
+        return (
+          (sb?.timesCooked ?? 0) - (sa?.timesCooked ?? 0) ||
+          lastCooked(sb) - lastCooked(sa)
+        );
+      });
+    case "topRated":
+      return [...recipes].sort((a, b) => {
+        const sa = stats.get(a.id);
+        const sb = stats.get(b.id);
+        return (
+          (sb?.averageRating ?? 0) - (sa?.averageRating ?? 0) ||
+          (sb?.timesCooked ?? 0) - (sa?.timesCooked ?? 0)
+        );
+      });
+    case "notCookedLately": {
+      const cutoff = now.getTime() - NOT_COOKED_LATELY_DAYS * 86_400_000;
+      // Recipes cooked before come first, longest ago first; never-cooked after.
+      return recipes
+        .filter((recipe) => lastCooked(stats.get(recipe.id)) < cutoff)
+        .sort((a, b) => {
+          const la = lastCooked(stats.get(a.id));
+          const lb = lastCooked(stats.get(b.id));
+          if (la === 0 || lb === 0)
+            return (lb === 0 ? 0 : 1) - (la === 0 ? 0 : 1);
+          return la - lb;
+        });
+    }
+    default:
+      return recipes;
+  }
+}
@@ -41,6 +41,14 @@ import { apiClient } from "@/lib/api-client";
 import { syncManager } from "@/lib/sync-manager";
 import { logger } from "@/lib/logger";
 import { trackInventoryAction } from "@/lib/crash-reporter";
+import { MEAL_SLOT_TEMPLATES_STORAGE_KEY } from "@/lib/sync-types";
+import { addLot, consumeFifo, type InventoryLot } from "@shared/inventory-lots";
+import {
+  normalizeMeals,
+  type MealSlotTemplate,
+  type MealSlotTemplates,
+  type PlanMeals,
+} from "@shared/meal-plan";
 
 /** Lazy-loaded notification scheduler to avoid circular dependencies */
 let scheduleNotifications: (() => Promise<number>) | null = null;
@@ -70,6 +78,19 @@ function triggerNotificationReschedule() {
   }, 5000); // 5 second debounce
 }
 
+/**
+ * Attaches the device's IANA time zone so the server can send its daily
+ * notifications at the user's local notification time.
+ */
+function withDeviceTimeZone(preferences: UserPreferences): UserPreferences {
+  try {
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return timezone ? { ...preferences, timezone } : preferences;
+  } catch {
+    return preferences;
+  }
+}
+
 const STORAGE_KEYS = {
   AUTH_TOKEN: "@chefspaice/auth_token",
   INVENTORY: "@chefspaice/inventory",
@@ -88,6 +109,7 @@ const STORAGE_KEYS = {
   CUSTOM_STORAGE_LOCATIONS: "@chefspaice/custom_storage_locations",
   ONBOARDING_STEP: "@chefspaice/onboarding_step",
   PENDING_PURCHASE: "@chefspaice/pending_purchase",
+  MEAL_SLOT_TEMPLATES: MEAL_SLOT_TEMPLATES_STORAGE_KEY,
 } as const;
 
 export const DEFAULT_STORAGE_LOCATIONS = [
@@ -133,6 +155,10 @@ export interface FoodItem {
   notes?: string;
   imageUri?: string;
   fdcId?: number;
+  /** Separate purchases of this item; see @shared/inventory-lots. */
+  lots?: InventoryLot[] | null;
+  /** Leftovers only: the recipe they were cooked from; see @shared/leftovers. */
+  recipeId?: string | null;
   updatedAt?: string;
   deletedAt?: string | null;
 }
@@ -167,6 +193,10 @@ export interface Recipe {
   dietaryTags?: string[];
   requiredCookware?: string[];
   optionalCookware?: string[];
+  /** The user's own notes, kept in the recipe's version history. */
+  notes?: string;
+  /** Id of the recipe this one was copied from. */
+  forkedFrom?: string;
   updatedAt?: string;
 }
 
@@ -176,6 +206,10 @@ export interface RecipeIngredient {
   name: string;
   quantity: number;
   unit: string;
+  /** How the ingredient is prepared ("finely chopped"). */
+  preparation?: string;
+  /** Anything else from the ingredient line ("divided", "to taste"). */
+  notes?: string;
   isOptional?: boolean;
   availabilityStatus?: IngredientAvailability;
   percentAvailable?: number;
@@ -184,7 +218,8 @@ export interface RecipeIngredient {
 export interface MealPlan {
   id: string;
   date: string;
-  meals: Record<string, string | undefined>;
+  /** Slot id → entry; see shared/meal-plan for the entry types. */
+  meals: PlanMeals;
   updatedAt?: string;
 }
 
@@ -211,6 +246,12 @@ export interface MacroTargets {
   fat: number; // percentage
 }
 
+export interface NutritionGoals {
+  calories: number;
+  fiber?: number;
+  sodium?: number; // mg, upper limit
+}
+
 export interface UserPreferences {
   dietaryRestrictions: string[];
   cuisinePreferences: string[];
@@ -219,6 +260,7 @@ export interface UserPreferences {
   termHighlightingEnabled?: boolean;
   mealPlanPresetId?: string;
   macroTargets?: MacroTargets;
+  nutritionGoals?: NutritionGoals;
   servingSize?: number;
   dailyMeals?: number;
   storageAreas?: string[];
@@ -234,6 +276,8 @@ export interface UserPreferences {
   preferredRetailerLogo?: string;
   instacartPostalCode?: string;
   instacartCountryCode?: string;
+  /** IANA time zone of the device that last saved these preferences. */
+  timezone?: string;
 }
 
 export const DEFAULT_MACRO_TARGETS: MacroTargets = {
@@ -483,6 +527,42 @@ export const storage = {
     }
   },
 
+  /** Records another purchase of an existing item as a new lot. */
+  async addInventoryLot(
+    id: string,
+    lot: Omit<InventoryLot, "id">,
+  ): Promise<FoodItem | null> {
+    const allItems = (await getItem<FoodItem[]>(STORAGE_KEYS.INVENTORY)) || [];
+    const item = allItems.find((i) => i.id === id && !i.deletedAt);
+    if (!item) return null;
+
+    const updated = addLot(item, lot);
+    await this.updateInventoryItem(updated);
+    return updated;
+  },
+
+  /**
+   * Uses up `quantity` of an item, earliest-expiring lot first. The item is
+   * deleted once nothing is left; otherwise the drawn-down item is returned.
+   */
+  async consumeInventoryFifo(
+    id: string,
+    quantity: number,
+  ): Promise<FoodItem | null> {
+    const allItems = (await getItem<FoodItem[]>(STORAGE_KEYS.INVENTORY)) || [];
+    const item = allItems.find((i) => i.id === id);
+    if (!item) return null;
+
+    const result = consumeFifo(item, quantity);
+    if (result.depleted) {
+      await this.deleteInventoryItem(id);
+      return null;
+    }
+
+    await this.updateInventoryItem(result.item);
+    return result.item;
+  },
+
   async cleanupDeletedInventory(): Promise<number> {
     const allItems = (await getItem<FoodItem[]>(STORAGE_KEYS.INVENTORY)) || [];
     const thirtyDaysAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
@@ -826,7 +906,26 @@ export const storage = {
   },
 
   async getMealPlans(): Promise<MealPlan[]> {
-    return (await getItem<MealPlan[]>(STORAGE_KEYS.MEAL_PLANS)) || [];
+    const plans = (await getItem<MealPlan[]>(STORAGE_KEYS.MEAL_PLANS)) || [];
+    const hasLegacyMeals = plans.some(
+      (plan) =>
+        Array.isArray(plan.meals) ||
+        Object.values((plan.meals ?? {}) as Record<string, unknown>).some(
+          (meal) => typeof meal !== "object",
+        ),
+    );
+    if (!hasLegacyMeals) {
+      return plans;
+    }
+
+    // Plans saved before typed entries hold recipe ids or meal names as strings.
+    const recipeIds = new Set((await this.getRawRecipes()).map((r) => r.id));
+    const migrated = plans.map((plan) => ({
+      ...plan,
+      meals: normalizeMeals(plan.meals, recipeIds),
+    }));
+    await setItem(STORAGE_KEYS.MEAL_PLANS, migrated);
+    return migrated;
   },
 
   async setMealPlans(plans: MealPlan[]): Promise<void> {
@@ -865,6 +964,22 @@ export const storage = {
     }
   },
 
+  async getMealSlotTemplates(): Promise<MealSlotTemplate[]> {
+    return (
+      (await getItem<MealSlotTemplates>(STORAGE_KEYS.MEAL_SLOT_TEMPLATES))
+        ?.templates ?? []
+    );
+  },
+
+  async setMealSlotTemplates(templates: MealSlotTemplate[]): Promise<void> {
+    const saved: MealSlotTemplates = {
+      templates,
+      updatedAt: new Date().toISOString(),
+    };
+    await setItem(STORAGE_KEYS.MEAL_SLOT_TEMPLATES, saved);
+    syncManager.syncMealSlotTemplates(saved);
+  },
+
   async getShoppingList(): Promise<ShoppingListItem[]> {
     return (
       (await getItem<ShoppingListItem[]>(STORAGE_KEYS.SHOPPING_LIST)) || []
@@ -907,7 +1022,7 @@ export const storage = {
 
   async setPreferences(preferences: UserPreferences): Promise<void> {
     await setItem(STORAGE_KEYS.USER_PREFERENCES, preferences);
-    syncManager.syncPreferences(preferences);
+    syncManager.syncPreferences(withDeviceTimeZone(preferences));
   },
 
   async getWasteLog(): Promise<WasteLogEntry[]> {
@@ -1301,7 +1416,7 @@ export const storage = {
           recipes,
           mealPlans,
           shoppingList,
-          preferences,
+          preferences: withDeviceTimeZone(preferences),
           wasteLog,
           consumedLog,
           cookware,
@@ -1,87 +1,70 @@
 import { Alert } from "react-native";
 import { logger } from "@/lib/logger";
 import { MAX_SYNC_QUEUE_SIZE } from "@/lib/sync-types";
-import type { SyncQueueItem } from "@/lib/sync-types";
+import type { SyncDataType, SyncOperation } from "@/lib/sync-types";
+import { keepLocalFields, type DeltaChangeResult } from "@/lib/sync-delta";
 
 export interface SyncConflictOps {
-  getQueue: () => Promise<SyncQueueItem[]>;
-  setQueue: (queue: SyncQueueItem[]) => Promise<void>;
+  queueChange: (dataType: SyncDataType, operation: SyncOperation, data: unknown) => Promise<void>;
   notifyListeners: () => void;
-  processSyncQueue: () => Promise<void>;
-  fullSync: () => Promise<{ success: boolean; error?: string }>;
 }
 
 export function showConflictAlert(
-  item: SyncQueueItem,
-  serverVersion: unknown,
-  onResolve: (item: SyncQueueItem, choice: "local" | "remote") => void,
+  result: DeltaChangeResult,
+  local: Record<string, unknown>,
+  onResolve: (choice: "local" | "remote") => void,
 ) {
-  const localData = item.data as { name?: string; title?: string; id?: string };
-  const serverData = serverVersion as { name?: string; title?: string; id?: string } | null;
-  const itemName = localData.name || localData.title || localData.id || "Unknown item";
-  const serverName = serverData?.name || serverData?.title || serverData?.id || "Unknown item";
-
-  const localLabel = `This Device: "${itemName}"`;
-  const serverLabel = `Other Device: "${serverName}"`;
+  const serverData = result.serverRecord as { name?: string; title?: string } | undefined;
+  const itemName =
+    (local.name as string | undefined) || (local.title as string | undefined)
+    || serverData?.name || serverData?.title || result.id;
+  const fields = (result.conflicts ?? []).join(", ");
 
   Alert.alert(
     "Sync Conflict",
-    `This item was modified on another device. Which version would you like to keep?\n\n${localLabel}\n${serverLabel}`,
+    `"${itemName}" was changed on another device too. Your other changes were merged, `
+      + `but these fields differ: ${fields}.\n\nWhich version would you like to keep?`,
     [
       {
         text: "This Device",
         onPress: () => {
-          onResolve(item, "local");
+          onResolve("local");
         },
       },
       {
         text: "Other Device",
         onPress: () => {
-          onResolve(item, "remote");
+          onResolve("remote");
         },
       },
     ],
   );
 }
 
+/**
+ * The server has already stored its own values for the conflicting fields, so
+ * keeping the other device's version needs no request. Keeping this device's
+ * version queues a follow-up update based on the server's merged copy.
+ */
 export async function resolveConflict(
-  item: SyncQueueItem,
+  result: DeltaChangeResult,
+  local: Record<string, unknown>,
   choice: "local" | "remote",
   ops: SyncConflictOps,
 ): Promise<void> {
-  const queue = await ops.getQueue();
-  const itemId = (item.data as { id?: string })?.id;
-
-  if (choice === "local") {
-    logger.log("[Sync] User chose local version — re-sending with fresh timestamp", { dataType: item.dataType, itemId });
-    const freshTimestamp = new Date().toISOString();
-    const updatedData = {
-      ...(item.data as Record<string, unknown>),
-      updatedAt: freshTimestamp,
-    };
-    const newQueue = queue.map((q) => {
-      if (q.id === item.id) {
-        return {
-          ...q,
-          data: updatedData,
-          timestamp: freshTimestamp,
-          isFatal: false,
-          retryCount: 0,
-          errorMessage: undefined,
-        };
-      }
-      return q;
-    });
-    await ops.setQueue(newQueue);
-    ops.notifyListeners();
-    ops.processSyncQueue();
-  } else {
-    logger.log("[Sync] User chose remote version — discarding local change", { dataType: item.dataType, itemId });
-    const newQueue = queue.filter((q) => q.id !== item.id);
-    await ops.setQueue(newQueue);
+  if (choice === "remote" || !result.serverRecord) {
+    logger.log("[Sync] User chose remote version — keeping server values", { dataType: result.dataType, itemId: result.id });
     ops.notifyListeners();
-    await ops.fullSync();
+    return;
   }
+
+  logger.log("[Sync] User chose local version — re-sending conflicting fields", {
+    dataType: result.dataType,
+    itemId: result.id,
+    fields: result.conflicts,
+  });
+  const record = keepLocalFields(result.serverRecord, local, result.conflicts ?? []);
+  await ops.queueChange(result.dataType, "update", { ...record, updatedAt: new Date().toISOString() });
 }
 
 export function showQueueCapacityWarning(hasShownWarning: boolean): boolean {
@@ -0,0 +1,189 @@
+import type { SyncQueueItem, SyncDataType } from "@/lib/sync-types";
+
+/**
+ * Pure helpers for the delta sync protocol (`POST /api/sync/delta`).
+ *
+ * The client keeps a "base" copy of every record as last acknowledged by the
+ * server, keyed by `${dataType}:${id}`. Pushed changes carry that base so the
+ * server can do a field-level three-way merge against its current copy.
+ */
+
+export type DeltaRecord = Record<string, unknown> & { id: string };
+
+export interface DeltaBase {
+  revision: number;
+  record: DeltaRecord;
+}
+
+export type DeltaBases = Record<string, DeltaBase>;
+
+export interface DeltaChange {
+  dataType: SyncDataType;
+  id: string;
+  op: "upsert" | "delete";
+  baseRevision: number | null;
+  base: DeltaRecord | null;
+  record?: Record<string, unknown>;
+}
+
+export interface DeltaChangeResult {
+  dataType: SyncDataType;
+  id: string;
+  status: "applied" | "merged" | "conflict" | "rejected";
+  revision?: number;
+  conflicts?: string[];
+  serverRecord?: DeltaRecord;
+  errorCode?: string;
+  error?: string;
+}
+
+export interface DeltaPulledChange {
+  dataType: string;
+  id: string;
+  revision: number;
+  deleted: boolean;
+  record: DeltaRecord | null;
+}
+
+export interface DeltaSyncResponse {
+  results: DeltaChangeResult[];
+  changes: DeltaPulledChange[];
+  revision: number;
+  hasMore: boolean;
+  reset: boolean;
+  scope: string | null;
+}
+
+export type DeltaSections = Record<SyncDataType, DeltaRecord[]>;
+
+export const DELTA_SECTION_TYPES: SyncDataType[] = [
+  "inventory",
+  "recipes",
+  "mealPlans",
+  "shoppingList",
+];
+
+export function deltaKey(dataType: string, id: string): string {
+  return `${dataType}:${id}`;
+}
+
+function itemId(item: SyncQueueItem): string | null {
+  const id = (item.data as { id?: string | number } | null)?.id;
+  return id === undefined || id === null ? null : String(id);
+}
+
+export function buildDeltaChanges(
+  queue: SyncQueueItem[],
+  bases: DeltaBases,
+): { changes: DeltaChange[]; queueIds: string[] } {
+  const changes: DeltaChange[] = [];
+  const queueIds: string[] = [];
+
+  for (const item of queue) {
+    if (item.isFatal) continue;
+    const id = itemId(item);
+    if (!id) continue;
+
+    const base = bases[deltaKey(item.dataType, id)] ?? null;
+    changes.push({
+      dataType: item.dataType,
+      id,
+      op: item.operation === "delete" ? "delete" : "upsert",
+      baseRevision: base?.revision ?? null,
+      base: base?.record ?? null,
+      ...(item.operation !== "delete" && {
+        record: item.data as Record<string, unknown>,
+      }),
+    });
+    queueIds.push(item.id);
+  }
+
+  return { changes, queueIds };
+}
+
+/**
+ * Applies pulled changes to the local sections and base store. On a reset the
+ * sections are rebuilt from the pulled records alone. Records with a local
+ * change still waiting in the queue (`pendingKeys`) keep their local copy; only
+ * their base advances.
+ */
+export function applyPulledChanges(
+  sections: DeltaSections,
+  bases: DeltaBases,
+  response: Pick<DeltaSyncResponse, "changes" | "reset">,
+  pendingKeys: Set<string> = new Set(),
+): { sections: DeltaSections; bases: DeltaBases } {
+  const nextSections = {} as DeltaSections;
+  for (const type of DELTA_SECTION_TYPES) {
+    nextSections[type] = response.reset ? [] : [...(sections[type] ?? [])];
+  }
+  const nextBases: DeltaBases = response.reset ? {} : { ...bases };
+
+  for (const change of response.changes) {
+    const type = change.dataType as SyncDataType;
+    if (!DELTA_SECTION_TYPES.includes(type)) continue;
+
+    const list = nextSections[type];
+    const index = list.findIndex((r) => String(r.id) === change.id);
+    const key = deltaKey(type, change.id);
+
+    if (pendingKeys.has(key)) {
+      if (change.record) {
+        nextBases[key] = {
+          revision: change.revision,
+          record: { ...change.record, id: change.id },
+        };
+      } else {
+        delete nextBases[key];
+      }
+      continue;
+    }
+
+    if (change.deleted || !change.record) {
+      if (index !== -1) list.splice(index, 1);
+      delete nextBases[key];
+      continue;
+    }
+
+    const record = { ...change.record, id: change.id };
+    if (index === -1) {
+      list.push(record);
+    } else {
+      list[index] = { ...list[index], ...record };
+    }
+    nextBases[key] = { revision: change.revision, record };
+  }
+
+  if (response.reset) {
+    for (const type of DELTA_SECTION_TYPES) {
+      for (const local of sections[type] ?? []) {
+        const id = String(local.id);
+        if (
+          pendingKeys.has(deltaKey(type, id)) &&
+          !nextSections[type].some((r) => String(r.id) === id)
+        ) {
+          nextSections[type].push(local);
+        }
+      }
+    }
+  }
+
+  return { sections: nextSections, bases: nextBases };
+}
+
+/**
+ * Builds the follow-up record that re-applies the local values of conflicting
+ * fields on top of the server's merged copy ("keep this device").
+ */
+export function keepLocalFields(
+  serverRecord: DeltaRecord,
+  local: Record<string, unknown>,
+  fields: string[],
+): DeltaRecord {
+  const next: DeltaRecord = { ...serverRecord };
+  delete next.revision;
+  for (const field of fields) {
+    next[field] = local[field];
+  }
+  return next;
+}
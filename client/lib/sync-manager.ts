@@ -5,6 +5,8 @@ import { logger } from "@/lib/logger";
 import {
   MAX_SYNC_QUEUE_SIZE,
   SYNC_KEYS,
+  DELTA_SECTION_STORAGE_KEYS,
+  MEAL_SLOT_TEMPLATES_STORAGE_KEY,
   type SyncOperation,
   type SyncDataType,
   type SyncStatus,
@@ -12,7 +14,21 @@ import {
   type SyncState,
   type SyncListener,
 } from "@/lib/sync-types";
+import {
+  DELTA_SECTION_TYPES,
+  applyPulledChanges,
+  buildDeltaChanges,
+  deltaKey,
+  type DeltaBases,
+  type DeltaChange,
+  type DeltaChangeResult,
+  type DeltaPulledChange,
+  type DeltaRecord,
+  type DeltaSections,
+  type DeltaSyncResponse,
+} from "@/lib/sync-delta";
 import { showConflictAlert, resolveConflict, showQueueCapacityWarning, notifySyncFailure } from "@/lib/sync-conflicts";
+import type { MealSlotTemplates } from "@shared/meal-plan";
 
 export type { SyncStatus, SyncState } from "@/lib/sync-types";
 
@@ -33,6 +49,8 @@ class SyncManager {
   private pendingPreferences: unknown = null;
   private userProfileSyncTimer: ReturnType<typeof setTimeout> | null = null;
   private pendingUserProfile: unknown = null;
+  private mealSlotTemplatesSyncTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingMealSlotTemplates: MealSlotTemplates | null = null;
   private consecutiveItemFailures = new Map<string, number>();
   private hasShownQueueWarning = false;
 
@@ -68,6 +86,7 @@ class SyncManager {
     if (this.syncTimer) { clearTimeout(this.syncTimer); this.syncTimer = null; }
     if (this.preferencesSyncTimer) { clearTimeout(this.preferencesSyncTimer); this.preferencesSyncTimer = null; }
     if (this.userProfileSyncTimer) { clearTimeout(this.userProfileSyncTimer); this.userProfileSyncTimer = null; }
+    if (this.mealSlotTemplatesSyncTimer) { clearTimeout(this.mealSlotTemplatesSyncTimer); this.mealSlotTemplatesSyncTimer = null; }
     if (this.networkCheckInterval) { clearInterval(this.networkCheckInterval); this.networkCheckInterval = null; }
   }
 
@@ -83,6 +102,7 @@ class SyncManager {
     this.processSyncQueue();
     if (this.pendingPreferences) { this.flushPreferencesSync(); }
     if (this.pendingUserProfile) { this.flushUserProfileSync(); }
+    if (this.pendingMealSlotTemplates) { this.flushMealSlotTemplatesSync(); }
   }
 
   private async initNetworkListener() {
@@ -287,121 +307,58 @@ class SyncManager {
     }
 
     const queue = await this.getQueue();
-    if (queue.length === 0) {
+    if (!queue.some((item) => !item.isFatal)) {
       return;
     }
 
     this.isSyncing = true;
     this.notifyListeners();
 
-    const processedIds: Set<string> = new Set();
-    const failedItems: SyncQueueItem[] = [];
     const maxRetries = 5;
     let hasRetryableErrors = false;
 
-    for (const item of queue) {
-      if (item.isFatal) {
-        failedItems.push(item);
-        continue;
-      }
+    try {
+      await this.runDeltaSync();
+    } catch (error) {
+      const syncError = error as { statusCode?: number; message?: string };
+      const statusCode = syncError.statusCode || 0;
+      const is4xxError = statusCode >= 400 && statusCode < 500;
+      const errorMessage = syncError.message || "Unknown sync error";
 
-      try {
-        await this.syncItem(item);
-        processedIds.add(item.id);
-        const successKey = `${item.dataType}:${(item.data as { id?: string })?.id || "unknown"}`;
-        this.consecutiveItemFailures.delete(successKey);
-      } catch (error) {
-        const syncError = error as {
-          statusCode?: number;
-          message?: string;
-          isConflict?: boolean;
-          serverVersion?: unknown;
-        };
-        const statusCode = syncError.statusCode || 0;
-        const is4xxError = statusCode >= 400 && statusCode < 500;
-        const isConflict = syncError.isConflict === true;
-        const errorMessage = syncError.message || "Unknown sync error";
+      logger.error("[Sync] Delta sync failed", { error: errorMessage, statusCode, batchSize: queue.length });
 
-        logger.error(`[Sync] Failed for ${item.dataType}`, { error: errorMessage, itemId: (item.data as { id?: string })?.id, statusCode });
+      const attemptedIds = new Set(queue.filter((item) => !item.isFatal).map((item) => item.id));
+      const currentQueue = await this.getQueue();
+      const newQueue = currentQueue.map((item) => {
+        if (!attemptedIds.has(item.id)) return item;
 
         const itemKey = `${item.dataType}:${(item.data as { id?: string })?.id || "unknown"}`;
         const prevFailures = this.consecutiveItemFailures.get(itemKey) || 0;
         this.consecutiveItemFailures.set(itemKey, prevFailures + 1);
-
-        if (prevFailures + 1 >= 3 && !item.isFatal) {
+        if (prevFailures + 1 >= 3) {
           notifySyncFailure(item.dataType, (item.data as { name?: string })?.name || (item.data as { title?: string })?.title || itemKey);
         }
 
-        if (isConflict) {
-          logger.warn("[Sync] Conflict detected — pausing queue to ask user", { dataType: item.dataType, itemId: (item.data as { id?: string })?.id });
-          const serverVersion = syncError.serverVersion;
-
-          const conflictItem: SyncQueueItem = {
-            ...item,
-            isFatal: true,
-            errorMessage: "Sync conflict — waiting for your choice",
-            retryCount: item.retryCount + 1,
-          };
-          const remainingUnprocessed = queue.filter(
-            (q) => !processedIds.has(q.id) && q.id !== item.id && !failedItems.some((f) => f.id === q.id),
-          );
-          const currentQueue = await this.getQueue();
-          const newlyAddedItems = currentQueue.filter(
-            (q) => !queue.some((oldItem) => oldItem.id === q.id),
-          );
-          const pausedQueue = [conflictItem, ...failedItems, ...remainingUnprocessed, ...newlyAddedItems];
-          await this.setQueue(pausedQueue);
-
-          if (processedIds.size > 0) {
-            await AsyncStorage.setItem(SYNC_KEYS.LAST_SYNC, new Date().toISOString());
-          }
-
-          this.isSyncing = false;
-          this.notifyListeners();
-          showConflictAlert(conflictItem, serverVersion, (conflictedItem, choice) => {
-            resolveConflict(conflictedItem, choice, {
-              getQueue: () => this.getQueue(),
-              setQueue: (q) => this.setQueue(q),
-              notifyListeners: () => { this.notifyListeners(); },
-              processSyncQueue: () => this.processSyncQueue(),
-              fullSync: () => this.fullSync(),
-            }).catch((err) => {
-              logger.error(`[Sync] Failed to resolve conflict with ${choice} version`, { error: (err as Error).message });
-            });
-          });
-          return;
-        } else if (is4xxError || item.retryCount >= maxRetries) {
+        if (is4xxError || item.retryCount >= maxRetries) {
           logger.warn("[Sync] Marking item as fatal", { dataType: item.dataType, itemId: (item.data as { id?: string })?.id, retryCount: item.retryCount, statusCode });
-          failedItems.push({
+          return {
             ...item,
             isFatal: true,
             errorMessage: `Failed to sync: ${errorMessage}`,
             retryCount: item.retryCount + 1,
-          });
-        } else {
-          failedItems.push({ ...item, retryCount: item.retryCount + 1 });
-          hasRetryableErrors = true;
+          };
         }
-      }
-    }
-
-    const currentQueue = await this.getQueue();
-    const newlyAddedItems = currentQueue.filter(
-      (item) => !queue.some((oldItem) => oldItem.id === item.id),
-    );
-
-    const newQueue = [...failedItems, ...newlyAddedItems];
-    await this.setQueue(newQueue);
-
-    if (processedIds.size > 0) {
-      await AsyncStorage.setItem(SYNC_KEYS.LAST_SYNC, new Date().toISOString());
+        hasRetryableErrors = true;
+        return { ...item, retryCount: item.retryCount + 1 };
+      });
+      await this.setQueue(newQueue);
     }
 
     this.isSyncing = false;
     this.notifyListeners();
 
     if (hasRetryableErrors && this.isOnline) {
-      const firstRetryableItem = failedItems.find((item) => !item.isFatal);
+      const firstRetryableItem = (await this.getQueue()).find((item) => !item.isFatal);
       const retryCount = firstRetryableItem?.retryCount || 1;
       const retryDelay = Math.min(1000 * Math.pow(2, retryCount), 60000);
       setTimeout(() => {
@@ -410,25 +367,116 @@ class SyncManager {
     }
   }
 
-  private async syncItem(item: SyncQueueItem): Promise<void> {
-    const endpoint = `/api/sync/${item.dataType}`;
+  /**
+   * One delta sync round: pushes every pending queue item in a single request,
+   * then applies the server's changes since our last revision to local
+   * storage, following `hasMore` until the pull is complete.
+   */
+  private async runDeltaSync(): Promise<void> {
+    const queue = await this.getQueue();
+    const bases = await this.readJson<DeltaBases>(SYNC_KEYS.DELTA_BASES, {});
+    const since = Number(await AsyncStorage.getItem(SYNC_KEYS.DELTA_REVISION)) || 0;
+    const storedScope = await AsyncStorage.getItem(SYNC_KEYS.DELTA_SCOPE);
+    const scope = storedScope === null ? undefined : (JSON.parse(storedScope) as string | null);
+
+    const { changes, queueIds } = buildDeltaChanges(queue, bases);
+    let response = await this.postDelta({ since, scope, changes });
 
-    const method =
-      item.operation === "delete"
-        ? "DELETE"
-        : item.operation === "create"
-          ? "POST"
-          : "PUT";
+    const pushedIds = new Set(queueIds);
+    const resultsByKey = new Map(response.results.map((r) => [deltaKey(r.dataType, r.id), r]));
+    const conflicts: { result: DeltaChangeResult; local: Record<string, unknown> }[] = [];
 
+    const currentQueue = await this.getQueue();
+    const newQueue: SyncQueueItem[] = [];
+    for (const item of currentQueue) {
+      const itemId = (item.data as { id?: string | number })?.id;
+      const result = pushedIds.has(item.id) && itemId !== undefined
+        ? resultsByKey.get(deltaKey(item.dataType, String(itemId)))
+        : undefined;
+
+      if (!result) {
+        newQueue.push(item);
+        continue;
+      }
+
+      this.consecutiveItemFailures.delete(deltaKey(item.dataType, String(itemId)));
+
+      if (result.status === "rejected") {
+        logger.warn("[Sync] Server rejected change", { dataType: item.dataType, itemId, errorCode: result.errorCode });
+        newQueue.push({
+          ...item,
+          isFatal: true,
+          errorMessage: `Failed to sync: ${result.error || result.errorCode || "rejected"}`,
+          retryCount: item.retryCount + 1,
+        });
+      } else if (result.status === "conflict") {
+        conflicts.push({ result, local: item.data as Record<string, unknown> });
+      }
+    }
+    await this.setQueue(newQueue);
+
+    const pendingKeys = new Set(
+      newQueue.map((item) => deltaKey(item.dataType, String((item.data as { id?: string | number })?.id))),
+    );
+
+    let sections = await this.readSections();
+    let nextBases = bases;
+    const conflictChanges: DeltaPulledChange[] = conflicts.map(({ result }) => ({
+      dataType: result.dataType,
+      id: result.id,
+      revision: result.revision ?? 0,
+      deleted: false,
+      record: result.serverRecord ?? null,
+    }));
+
+    let applied = applyPulledChanges(sections, nextBases, {
+      reset: response.reset,
+      changes: [...response.changes, ...conflictChanges],
+    }, pendingKeys);
+    sections = applied.sections;
+    nextBases = applied.bases;
+
+    while (response.hasMore) {
+      response = await this.postDelta({ since: response.revision, scope: response.scope, changes: [] });
+      applied = applyPulledChanges(sections, nextBases, { reset: false, changes: response.changes }, pendingKeys);
+      sections = applied.sections;
+      nextBases = applied.bases;
+    }
+
+    for (const type of DELTA_SECTION_TYPES) {
+      await AsyncStorage.setItem(
+        DELTA_SECTION_STORAGE_KEYS[type],
+        JSON.stringify(sections[type]),
+      );
+    }
+    await AsyncStorage.setItem(SYNC_KEYS.DELTA_BASES, JSON.stringify(nextBases));
+    await AsyncStorage.setItem(SYNC_KEYS.DELTA_REVISION, String(response.revision));
+    await AsyncStorage.setItem(SYNC_KEYS.DELTA_SCOPE, JSON.stringify(response.scope));
+    await AsyncStorage.setItem(SYNC_KEYS.LAST_SYNC, new Date().toISOString());
+
+    for (const { result, local } of conflicts) {
+      logger.warn("[Sync] Conflict detected — asking user", { dataType: result.dataType, itemId: result.id, fields: result.conflicts });
+      showConflictAlert(result, local, (choice) => {
+        resolveConflict(result, local, choice, {
+          queueChange: (dataType, operation, data) => this.queueChange(dataType, operation, data),
+          notifyListeners: () => { this.notifyListeners(); },
+        }).catch((err) => {
+          logger.error(`[Sync] Failed to resolve conflict with ${choice} version`, { error: (err as Error).message });
+        });
+      });
+    }
+  }
+
+  private async postDelta(body: {
+    since: number;
+    scope: string | null | undefined;
+    changes: DeltaChange[];
+  }): Promise<DeltaSyncResponse> {
     let response: Response;
     try {
-      response = await apiClient.raw(method, endpoint, {
+      response = await apiClient.raw("POST", "/api/sync/delta", {
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          operation: item.operation,
-          data: item.data,
-          clientTimestamp: item.timestamp,
-        }),
+        body: JSON.stringify(body),
       });
     } catch (error) {
       this.markRequestFailure();
@@ -445,30 +493,24 @@ class SyncManager {
       throw error;
     }
 
-    if (response.status === 204) {
-      return;
-    }
+    return (await response.json()).data as DeltaSyncResponse;
+  }
 
-    const contentType = response.headers.get("content-type");
-    if (!contentType || !contentType.includes("application/json")) {
-      return;
+  private async readJson<T>(key: string, fallback: T): Promise<T> {
+    try {
+      const data = await AsyncStorage.getItem(key);
+      return data ? (JSON.parse(data) as T) : fallback;
+    } catch {
+      return fallback;
     }
+  }
 
-    const result = (await response.json()).data;
-
-    if (result.operation === "skipped" && result.reason === "stale_update") {
-      const error = new Error(
-        "Update was stale - server has newer version",
-      ) as Error & {
-        statusCode: number;
-        isConflict: boolean;
-        serverVersion: unknown;
-      };
-      error.statusCode = 409;
-      error.isConflict = true;
-      error.serverVersion = result.serverVersion || null;
-      throw error;
+  private async readSections(): Promise<DeltaSections> {
+    const sections = {} as DeltaSections;
+    for (const type of DELTA_SECTION_TYPES) {
+      sections[type] = await this.readJson<DeltaRecord[]>(DELTA_SECTION_STORAGE_KEYS[type], []);
     }
+    return sections;
   }
 
   private async getAuthToken(): Promise<string | null> {
@@ -486,78 +528,16 @@ class SyncManager {
       return { success: false, error: "Not authenticated" };
     }
 
+    if (this.isSyncing) {
+      return { success: false, error: "Sync already in progress" };
+    }
+
     this.isSyncing = true;
     this.notifyListeners();
 
     try {
-      await this.processSyncQueue();
-
-      const lastServerTimestamp = await AsyncStorage.getItem(SYNC_KEYS.SERVER_TIMESTAMP);
-      let syncPath = "/api/auth/sync";
-      if (lastServerTimestamp) {
-        syncPath += `?lastSyncedAt=${encodeURIComponent(lastServerTimestamp)}`;
-      }
-
-      let response: Response;
-      try {
-        response = await apiClient.raw("GET", syncPath, {
-          headers: { "Content-Type": "application/json" },
-        });
-      } catch (error) {
-        this.markRequestFailure();
-        throw error;
-      }
-
-      this.markRequestSuccess();
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch from server");
-      }
-
-      const responseData = await response.json();
-      const result = responseData.data;
-
-      if (result.serverTimestamp) {
-        await AsyncStorage.setItem(SYNC_KEYS.SERVER_TIMESTAMP, result.serverTimestamp);
-      }
-
-      if (result.unchanged) {
-        logger.log("[Sync] No changes since last sync");
-        this.isSyncing = false;
-        this.notifyListeners();
-        return { success: true };
-      }
-
-      const { data } = result;
-
-      if (data) {
-        if (data.inventory) {
-          await AsyncStorage.setItem(
-            "@chefspaice/inventory",
-            JSON.stringify(data.inventory),
-          );
-        }
-        if (data.recipes) {
-          await AsyncStorage.setItem(
-            "@chefspaice/recipes",
-            JSON.stringify(data.recipes),
-          );
-        }
-        if (data.mealPlans) {
-          await AsyncStorage.setItem(
-            "@chefspaice/meal_plans",
-            JSON.stringify(data.mealPlans),
-          );
-        }
-        if (data.shoppingList) {
-          await AsyncStorage.setItem(
-            "@chefspaice/shopping_list",
-            JSON.stringify(data.shoppingList),
-          );
-        }
-      }
-
-      await AsyncStorage.setItem(SYNC_KEYS.LAST_SYNC, new Date().toISOString());
+      await this.runDeltaSync();
+      await this.pullMealSlotTemplates();
 
       this.isSyncing = false;
       this.notifyListeners();
@@ -693,6 +673,101 @@ class SyncManager {
     }
   }
 
+  async syncMealSlotTemplates(templates: MealSlotTemplates): Promise<void> {
+    this.pendingMealSlotTemplates = templates;
+
+    if (this.isPaused) {
+      return;
+    }
+
+    if (this.mealSlotTemplatesSyncTimer) {
+      clearTimeout(this.mealSlotTemplatesSyncTimer);
+    }
+
+    this.mealSlotTemplatesSyncTimer = setTimeout(() => {
+      this.flushMealSlotTemplatesSync();
+    }, 2000);
+  }
+
+  private async flushMealSlotTemplatesSync(): Promise<void> {
+    if (!this.pendingMealSlotTemplates || this.isPaused) {
+      return;
+    }
+
+    const templates = this.pendingMealSlotTemplates;
+    this.pendingMealSlotTemplates = null;
+
+    const token = await this.getAuthToken();
+    if (!token) {
+      logger.log("[Sync] Cannot sync meal slot templates - not authenticated");
+      return;
+    }
+
+    try {
+      const response = await apiClient.raw("PUT", "/api/sync/mealPlans/templates", {
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(templates),
+      });
+
+      if (response.ok) {
+        this.markRequestSuccess();
+        const saved = (await response.json()).data as MealSlotTemplates & { operation?: string };
+        if (saved.operation === "skipped") {
+          // Another device saved newer templates; keep those.
+          await this.storeMealSlotTemplates(saved);
+        }
+        logger.log("[Sync] Meal slot templates synced successfully");
+      } else {
+        this.markRequestFailure();
+        logger.error("[Sync] Failed to sync meal slot templates", { status: response.status });
+        if (response.status >= 500) {
+          this.pendingMealSlotTemplates = templates;
+          this.mealSlotTemplatesSyncTimer = setTimeout(() => {
+            this.flushMealSlotTemplatesSync();
+          }, 5000);
+        }
+      }
+    } catch (error) {
+      this.markRequestFailure();
+      logger.error("[Sync] Network error syncing meal slot templates", { error: (error as Error).message });
+      this.pendingMealSlotTemplates = templates;
+      this.mealSlotTemplatesSyncTimer = setTimeout(() => {
+        this.flushMealSlotTemplatesSync();
+      }, 5000);
+    }
+  }
+
+  /** Takes the server's templates when they are newer than the local copy. */
+  private async pullMealSlotTemplates(): Promise<void> {
+    if (this.pendingMealSlotTemplates) {
+      return;
+    }
+
+    try {
+      const response = await apiClient.raw("GET", "/api/sync/mealPlans/templates");
+      if (!response.ok) {
+        logger.error("[Sync] Failed to pull meal slot templates", { status: response.status });
+        return;
+      }
+      const remote = (await response.json()).data as MealSlotTemplates;
+      const local = await this.readJson<MealSlotTemplates | null>(MEAL_SLOT_TEMPLATES_STORAGE_KEY, null);
+      const remoteTime = remote.updatedAt ? new Date(remote.updatedAt).getTime() : 0;
+      const localTime = local?.updatedAt ? new Date(local.updatedAt).getTime() : 0;
+      if (remote.updatedAt && remoteTime > localTime) {
+        await this.storeMealSlotTemplates(remote);
+      }
+    } catch (error) {
+      logger.error("[Sync] Network error pulling meal slot templates", { error: (error as Error).message });
+    }
+  }
+
+  private async storeMealSlotTemplates(templates: MealSlotTemplates): Promise<void> {
+    await AsyncStorage.setItem(
+      MEAL_SLOT_TEMPLATES_STORAGE_KEY,
+      JSON.stringify({ templates: templates.templates, updatedAt: templates.updatedAt }),
+    );
+  }
+
   destroy() {
     if (this.networkCheckInterval) {
       clearInterval(this.networkCheckInterval);
@@ -706,6 +781,9 @@ class SyncManager {
     if (this.userProfileSyncTimer) {
       clearTimeout(this.userProfileSyncTimer);
     }
+    if (this.mealSlotTemplatesSyncTimer) {
+      clearTimeout(this.mealSlotTemplatesSyncTimer);
+    }
     if (this.appStateSubscription) {
       this.appStateSubscription.remove();
     }
@@ -5,8 +5,22 @@ export const SYNC_KEYS = {
   LAST_SYNC: "@chefspaice/last_sync",
   SYNC_STATUS: "@chefspaice/sync_status",
   SERVER_TIMESTAMP: "@chefspaice/server_timestamp",
+  DELTA_REVISION: "@chefspaice/delta_revision",
+  DELTA_SCOPE: "@chefspaice/delta_scope",
+  DELTA_BASES: "@chefspaice/delta_bases",
 } as const;
 
+export const DELTA_SECTION_STORAGE_KEYS = {
+  inventory: "@chefspaice/inventory",
+  recipes: "@chefspaice/recipes",
+  mealPlans: "@chefspaice/meal_plans",
+  shoppingList: "@chefspaice/shopping_list",
+} as const;
+
+/** Custom meal slot templates; synced on their own, outside delta sync. */
+export const MEAL_SLOT_TEMPLATES_STORAGE_KEY =
+  "@chefspaice/meal_slot_templates";
+
 export type SyncOperation = "create" | "update" | "delete";
 export type SyncDataType = "inventory" | "recipes" | "mealPlans" | "shoppingList";
 
@@ -5,6 +5,13 @@ import type { BottomTabNavigationProp } from "@react-navigation/bottom-tabs";
 import type { DrawerNavigationProp } from "@react-navigation/drawer";
 import type { IdentifiedFood } from "@/components/ImageAnalysisResult";
 import type { Recipe, RecipeIngredient, NutritionInfo } from "@/lib/storage";
+import type {
+  DailyTargets,
+  NutrientProgress,
+  NutrientTotals,
+  NutritionValues,
+} from "@shared/nutrition-intake";
+import type { ApiKeyScope } from "@shared/api-keys";
 import { Colors } from "@/constants/theme";
 
 export type ThemeColors = typeof Colors.light;
@@ -25,6 +32,9 @@ export type InventoryStackParamList = {
 export type RecipesStackParamList = {
   Recipes: undefined;
   RecipeDetail: { recipeId: string; initialRecipe?: Recipe };
+  CookingTimeline: { recipeIds: string[] };
+  EditRecipe: { recipeId: string };
+  RecipeHistory: { recipeId: string };
   GenerateRecipe:
     | {
         preselectedIngredientNames?: string[];
@@ -41,6 +51,9 @@ export type MealPlanStackParamList = {
     date: string;
     mealType: string;
   };
+  MealPrep: {
+    weekStart: string;
+  };
 };
 
 export type CookwareStackParamList = {
@@ -183,6 +196,15 @@ export interface AuthResponseData {
     hasCompletedOnboarding?: boolean;
   };
   token: string;
+  /** Returned after two-factor sign-in when the user chose to trust the device. */
+  deviceToken?: string | null;
+}
+
+/** Login response when the account needs a two-factor code before a session is created. */
+export interface TwoFactorPendingData {
+  twoFactorRequired: true;
+  twoFactorToken: string;
+  expiresAt: string;
 }
 
 export interface RestoreSessionData {
@@ -200,6 +222,122 @@ export interface RestoreSessionData {
 export interface ApiResponseBody<T = unknown> {
   data?: T;
   error?: string;
+  errorCode?: string;
+}
+
+export type SocialProvider = "google" | "apple";
+
+export interface LinkedProvider {
+  provider: SocialProvider;
+  email: string | null;
+  isPrimary: boolean;
+  linkedAt: string | null;
+}
+
+export interface LoginMethods {
+  hasPassword: boolean;
+  providers: LinkedProvider[];
+  passkeyCount: number;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  trustedDeviceCount: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface PasskeySummary {
+  id: string;
+  name: string;
+  backedUp: boolean;
+  createdAt: string | null;
+  lastUsedAt: string | null;
+}
+
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  /** First characters of the key, e.g. "csa_1a2b3c4d". */
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string | null;
+  isExpired: boolean;
+}
+
+export interface CreatedApiKey {
+  /** The full key; shown once and never retrievable again. */
+  apiKey: string;
+  key: ApiKeySummary;
+}
+
+export interface ApiKeyRequestEntry {
+  id: string;
+  action: string | null;
+  statusCode: number;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+export interface PasskeyCredentialDescriptor {
+  id: string;
+  type: "public-key";
+  transports?: string[];
+}
+
+/** WebAuthn creation options from the server, binary fields base64url-encoded. */
+export interface PasskeyCreationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: "public-key"; alg: number }[];
+  timeout: number;
+  attestation: "none";
+  authenticatorSelection: {
+    residentKey: "required";
+    requireResidentKey: boolean;
+    userVerification: "required";
+  };
+  excludeCredentials: PasskeyCredentialDescriptor[];
+}
+
+export interface PasskeyRequestOptions {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: "required";
+  allowCredentials: PasskeyCredentialDescriptor[];
+}
+
+export interface PasskeyRegistrationResponse {
+  id: string;
+  rawId: string;
+  type: "public-key";
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface PasskeyAssertionResponse {
+  id: string;
+  rawId: string;
+  type: "public-key";
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
 }
 
 export interface ApplianceItem {
@@ -234,6 +372,365 @@ export interface ImageGenerationResponse {
   url?: string;
 }
 
+export type RecipeCookDeductionStatus =
+  | "deduct"
+  | "insufficient"
+  | "missing"
+  | "unconvertible"
+  | "unmeasured";
+
+export interface RecipeCookDeduction {
+  ingredientName: string;
+  requiredQuantity: number | null;
+  requiredUnit: string;
+  status: RecipeCookDeductionStatus;
+  itemId: string | null;
+  itemName: string | null;
+  deductQuantity: number;
+  unit: string | null;
+  quantityBefore: number | null;
+  quantityAfter: number | null;
+}
+
+export interface RecipeCookPreview {
+  recipeId: string;
+  recipeTitle: string;
+  servings: number;
+  deductions: RecipeCookDeduction[];
+}
+
+export type LeftoversStorage = "fridge" | "freezer";
+
+export interface RecipeCookLeftovers {
+  itemId: string;
+  name: string;
+  servings: number;
+  storageLocation: LeftoversStorage;
+  expirationDate: string;
+}
+
+export interface RecipeCookResult extends RecipeCookPreview {
+  cookId: string;
+  cookLogId: string;
+  consumedEntryIds: string[];
+  leftovers: RecipeCookLeftovers | null;
+}
+
+export interface CookLogEntry {
+  id: string;
+  recipeId: string;
+  cookEventId: string | null;
+  cookedAt: string;
+  rating: number | null;
+  eaters: string[];
+  notes: string | null;
+  photoUri: string | null;
+}
+
+export interface RecipeCookStats {
+  recipeId: string;
+  timesCooked: number;
+  lastCookedAt: string | null;
+  averageRating: number | null;
+  ratingCount: number;
+}
+
+export interface RecipeSearchFacetCount {
+  value: string;
+  count: number;
+}
+
+export interface RecipeSearchFacets {
+  cuisines: RecipeSearchFacetCount[];
+  dietaryTags: RecipeSearchFacetCount[];
+  /** Cumulative: "30" counts recipes ready in 30 minutes or less. */
+  totalTime: RecipeSearchFacetCount[];
+  cookware: RecipeSearchFacetCount[];
+  canMakeNow: number;
+}
+
+export interface RecipeSearchHit {
+  id: string;
+  title: string;
+  description: string | null;
+  prepTime: number | null;
+  cookTime: number | null;
+  totalTime: number | null;
+  servings: number | null;
+  cuisine: string | null;
+  dietaryTags: string[];
+  requiredCookware: string[];
+  isFavorite: boolean;
+  canMakeNow: boolean;
+  missingIngredients: string[];
+  updatedAt: string | null;
+}
+
+export interface RecipeSearchResponse {
+  items: RecipeSearchHit[];
+  nextCursor?: string;
+  facets?: RecipeSearchFacets;
+}
+
+export interface RecipeCookLog {
+  entries: CookLogEntry[];
+  stats: RecipeCookStats | null;
+}
+
+export interface RecipeCookUndoResult {
+  cookId: string;
+  recipeId: string;
+  recipeTitle: string;
+  restoredItems: number;
+}
+
+export interface GeneratedShoppingListItem {
+  id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  category: string | null;
+  recipeId: string | null;
+  recipeIds: string[];
+}
+
+export interface ItemValueEstimate {
+  value: number;
+  unitPrice: number;
+  baseUnit: string;
+  storeName: string | null;
+  purchaseDate: string;
+}
+
+export interface ValueEstimateResult {
+  items: {
+    name: string;
+    quantity: number;
+    unit: string | null;
+    estimate: ItemValueEstimate | null;
+  }[];
+  total: number;
+  pricedCount: number;
+}
+
+export interface RecipeImportSource {
+  url: string | null;
+  siteName: string | null;
+  author: string | null;
+  method: "json-ld" | "microdata" | "heuristic";
+  importedAt: string;
+}
+
+export interface ImportedRecipeResult extends Recipe {
+  source: "imported";
+  importedFrom: RecipeImportSource;
+}
+
+export type BudgetStatus = "none" | "under" | "near" | "over";
+
+export interface CategorySpend {
+  category: string;
+  spent: number;
+  budget: number | null;
+}
+
+export interface BudgetSummary {
+  month: string;
+  budget: number | null;
+  budgetMonth: string | null;
+  spent: number;
+  remaining: number | null;
+  status: BudgetStatus;
+  receiptCount: number;
+  categories: CategorySpend[];
+}
+
+export interface MonthlySpend {
+  month: string;
+  spent: number;
+  budget: number | null;
+}
+
+export interface IntakeEntry {
+  id: string;
+  itemName: string;
+  quantity: number | null;
+  unit: string | null;
+  date: string;
+  nutrition: NutritionValues | null;
+  recipeTitle: string | null;
+}
+
+export interface DailyIntake {
+  date: string;
+  totals: NutrientTotals;
+  targets: DailyTargets;
+  progress: NutrientProgress[];
+  entries: IntakeEntry[];
+  untrackedCount: number;
+}
+
+export interface IntakeTrendDay {
+  date: string;
+  totals: NutrientTotals;
+  entryCount: number;
+}
+
+export interface IntakeTrend {
+  startDate: string;
+  endDate: string;
+  days: IntakeTrendDay[];
+  average: NutrientTotals;
+  targets: DailyTargets;
+}
+
+export interface GenerateShoppingListResult {
+  startDate: string;
+  endDate: string;
+  householdSize: number;
+  plannedDays: number;
+  plannedRecipes: number;
+  replacedItems: number;
+  items: GeneratedShoppingListItem[];
+}
+
+export type PrepEquipment =
+  | "oven"
+  | "stovetop"
+  | "slow_cooker"
+  | "pressure_cooker"
+  | "air_fryer"
+  | "none";
+
+export interface SharedPrepTask {
+  id: string;
+  action: string;
+  ingredient: string;
+  quantity: number | null;
+  unit: string;
+  recipeIds: string[];
+  minutes: number;
+}
+
+export interface PrepTimelineTask {
+  id: string;
+  kind: "prep" | "assemble" | "cook" | "pack";
+  label: string;
+  startMinute: number;
+  endMinute: number;
+  equipment: PrepEquipment | null;
+  recipeIds: string[];
+}
+
+export interface PrepContainer {
+  recipeId: string;
+  title: string;
+  date: string;
+  slotId: string;
+  storage: "fridge" | "freezer";
+  label: string;
+  eatBy: string;
+  instructions: string;
+}
+
+export interface MealPrepWeekRecipe {
+  recipeId: string;
+  title: string;
+  plannedMeals: number;
+  selected: boolean;
+}
+
+export interface MealPrepPlan {
+  weekStart: string;
+  weekEnd: string;
+  prepDate: string;
+  totalMinutes: number;
+  recipes: MealPrepWeekRecipe[];
+  sharedPrep: SharedPrepTask[];
+  timeline: PrepTimelineTask[];
+  containers: PrepContainer[];
+  warnings: string[];
+}
+
+export interface CookingTimelineStep {
+  id: string;
+  recipeId: string;
+  recipeTitle: string;
+  stepIndex: number;
+  text: string;
+  startMinute: number;
+  endMinute: number;
+  passive: boolean;
+  timerMinutes: number | null;
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface CookingTimeline {
+  startAt: string;
+  serveAt: string;
+  serveAtMoved: boolean;
+  totalMinutes: number;
+  recipes: { recipeId: string; title: string }[];
+  steps: CookingTimelineStep[];
+}
+
+export type UnitSystem = "imperial" | "metric";
+
+export interface ScaledIngredient {
+  name: string;
+  quantity: number;
+  unit: string;
+  display: string;
+  nonLinear: "seasoning" | "leavener" | null;
+}
+
+export interface RecipeScaleResult {
+  factor: number;
+  units: UnitSystem;
+  ingredients: ScaledIngredient[];
+  warnings: string[];
+}
+
+export interface RecipeRevision {
+  version: number;
+  title: string;
+  description: string | null;
+  ingredients: RecipeIngredient[];
+  instructions: string[];
+  notes: string | null;
+  prepTime: number | null;
+  cookTime: number | null;
+  servings: number | null;
+  restoredFrom: number | null;
+  createdAt: string | null;
+}
+
+export interface RecipeDiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+export interface RecipeRevisionDiff {
+  from: number;
+  to: number;
+  diff: {
+    fields: {
+      field:
+        | "title"
+        | "description"
+        | "notes"
+        | "prepTime"
+        | "cookTime"
+        | "servings";
+      before: string | number | null;
+      after: string | number | null;
+    }[];
+    ingredients: RecipeDiffLine[];
+    instructions: RecipeDiffLine[];
+  };
+}
+
 export const webClickable: ViewStyle = {
   cursor: "pointer" as unknown as undefined,
 } as ViewStyle;
@@ -19,6 +19,9 @@ export type CommandIntent =
   | "PAUSE"
   | "FASTER"
   | "SLOWER"
+  | "START_TIMER"
+  | "CHECK_TIMER"
+  | "CANCEL_TIMER"
   | "WHAT_EXPIRES"
   | "HELP"
   | "UNKNOWN";
@@ -119,6 +122,25 @@ const COMMAND_PATTERNS: CommandPattern[] = [
     intent: "READ_RECIPE",
     extract: () => ({ recipeName: "" }),
   },
+  {
+    pattern: /(?:set|start) (?:a |the )?timer(?: for (.+))?/i,
+    intent: "START_TIMER",
+    extract: (match) => ({ duration: match[1]?.trim() || "" }),
+    contexts: ["recipe_detail"],
+  },
+  {
+    pattern:
+      /how (?:much|long)(?: time)? (?:is )?left|(?:check|how(?:'s| is)) (?:the |my )?timers?|time left/i,
+    intent: "CHECK_TIMER",
+    extract: () => ({}),
+    contexts: ["recipe_detail"],
+  },
+  {
+    pattern: /(?:cancel|stop|clear) (?:the |all |all the |my )?timers?/i,
+    intent: "CANCEL_TIMER",
+    extract: () => ({}),
+    contexts: ["recipe_detail"],
+  },
   {
     pattern: /next(?: step)?/i,
     intent: "NEXT_STEP",
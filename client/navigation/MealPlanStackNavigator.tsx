@@ -7,6 +7,7 @@ import { useScreenOptions } from "@/hooks/useScreenOptions";
 const LazyMealPlanScreen = withSuspense(React.lazy(() => import("@/screens/MealPlanScreen")));
 const LazyShoppingListScreen = withSuspense(React.lazy(() => import("@/screens/ShoppingListScreen")));
 const LazySelectRecipeScreen = withSuspense(React.lazy(() => import("@/screens/SelectRecipeScreen")));
+const LazyMealPrepScreen = withSuspense(React.lazy(() => import("@/screens/MealPrepScreen")));
 
 export type MealPlanStackParamList = {
   MealPlan: undefined;
@@ -15,6 +16,9 @@ export type MealPlanStackParamList = {
     date: string;
     mealType: string;
   };
+  MealPrep: {
+    weekStart: string;
+  };
 };
 
 const Stack = createNativeStackNavigator<MealPlanStackParamList>();
@@ -48,6 +52,13 @@ export default function MealPlanStackNavigator() {
           headerTitle: "Select Recipe",
         }}
       />
+      <Stack.Screen
+        name="MealPrep"
+        component={LazyMealPrepScreen}
+        options={{
+          headerTitle: "Meal Prep",
+        }}
+      />
     </Stack.Navigator>
   );
 }
@@ -6,6 +6,9 @@ import type { Recipe } from "@/lib/storage";
 
 const LazyRecipesScreen = withSuspense(React.lazy(() => import("@/screens/RecipesScreen")));
 const LazyRecipeDetailScreen = withSuspense(React.lazy(() => import("@/screens/RecipeDetailScreen")));
+const LazyCookingTimelineScreen = withSuspense(React.lazy(() => import("@/screens/CookingTimelineScreen")));
+const LazyEditRecipeScreen = withSuspense(React.lazy(() => import("@/screens/EditRecipeScreen")));
+const LazyRecipeHistoryScreen = withSuspense(React.lazy(() => import("@/screens/RecipeHistoryScreen")));
 const LazyGenerateRecipeScreen = withSuspense(React.lazy(() => import("@/screens/GenerateRecipeScreen")));
 
 export type RecipeSettings = {
@@ -19,6 +22,9 @@ export type RecipeSettings = {
 export type RecipesStackParamList = {
   Recipes: undefined;
   RecipeDetail: { recipeId: string; initialRecipe?: Recipe };
+  CookingTimeline: { recipeIds: string[] };
+  EditRecipe: { recipeId: string };
+  RecipeHistory: { recipeId: string };
   GenerateRecipe:
     | {
         preselectedIngredientNames?: string[];
@@ -49,6 +55,27 @@ export default function RecipesStackNavigator() {
           headerShown: false,
         }}
       />
+      <Stack.Screen
+        name="CookingTimeline"
+        component={LazyCookingTimelineScreen}
+        options={{
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="EditRecipe"
+        component={LazyEditRecipeScreen}
+        options={{
+          headerShown: false,
+        }}
+      />
+      <Stack.Screen
+        name="RecipeHistory"
+        component={LazyRecipeHistoryScreen}
+        options={{
+          headerShown: false,
+        }}
+      />
       <Stack.Screen
         name="GenerateRecipe"
         component={LazyGenerateRecipeScreen}
@@ -408,7 +408,48 @@ export default function AddItemScreen() {
     await saveItem();
   };
 
+  // A second purchase of something already in the pantry can be stored as a
+  // new lot of that item so each purchase keeps its own expiry.
   const saveItem = async () => {
+    const trimmedName = name.trim().toLowerCase();
+    const existing = (await storage.getInventory()).find(
+      (i) => i.name.trim().toLowerCase() === trimmedName && i.unit === (unit || "pcs"),
+    );
+
+    if (existing) {
+      Alert.alert(
+        "Already in Your Inventory",
+        `You already have ${existing.quantity} ${existing.unit} of "${existing.name}". Add this purchase to it as a new batch?`,
+        [
+          { text: "Separate Item", onPress: () => saveNewItem() },
+          { text: "Add Batch", onPress: () => saveAsLot(existing) },
+        ],
+      );
+      return;
+    }
+
+    await saveNewItem();
+  };
+
+  const saveAsLot = async (existing: FoodItem) => {
+    setSaving(true);
+
+    try {
+      await storage.addInventoryLot(existing.id, {
+        quantity: parseInt(quantity) || 1,
+        purchaseDate,
+        expirationDate: expirationDate || defaultExpiration,
+        storageLocation,
+      });
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert("Error", "Failed to save item");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveNewItem = async () => {
     const pantryLimit = checkLimit("pantryItems");
     if (!pantryLimit.allowed) {
       setShowUpgradePrompt(true);
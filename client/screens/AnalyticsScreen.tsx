@@ -11,6 +11,8 @@ import { MenuItemConfig } from "@/components/HeaderMenu";
 import { ThemedText } from "@/components/ThemedText";
 import { GlassCard } from "@/components/GlassCard";
 import { WasteReductionStats } from "@/components/WasteReductionStats";
+import { GrocerySpendCard } from "@/components/GrocerySpendCard";
+import { NutritionIntakeCard } from "@/components/nutrition/NutritionIntakeCard";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius, AppColors, Typography } from "@/constants/theme";
 import {
@@ -350,6 +352,10 @@ export default function AnalyticsScreen() {
 
         <WasteReductionStats />
 
+        <GrocerySpendCard />
+
+        <NutritionIntakeCard />
+
         <GlassCard style={styles.section}>
           <ThemedText type="h4" style={styles.sectionTitle}>
             Inventory Health
@@ -10,11 +10,11 @@ import {
   Image,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-import { Feather } from "@expo/vector-icons";
+import { Feather, MaterialCommunityIcons } from "@expo/vector-icons";
 import Animated, { FadeIn } from "react-native-reanimated";
 import * as Haptics from "expo-haptics";
 import { useNavigation, CommonActions } from "@react-navigation/native";
-import type { RootNavigation } from "@/lib/types";
+import type { PasskeyRequestOptions, RootNavigation, SocialProvider } from "@/lib/types";
 
 import { ThemedText } from "@/components/ThemedText";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
@@ -28,6 +28,10 @@ import { useAuth } from "@/contexts/AuthContext";
 import { syncManager } from "@/lib/sync-manager";
 import { webAccessibilityProps } from "@/lib/web-accessibility";
 import { logger } from "@/lib/logger";
+import { useSocialSignIn } from "@/hooks/useSocialSignIn";
+import { usePasskeys } from "@/hooks/usePasskeys";
+import { TwoFactorCodeStep } from "@/components/TwoFactorCodeStep";
+import { TWO_FACTOR_REQUIRED, type SocialCredential } from "@/lib/auth-api";
 
 type NavigationProp = RootNavigation;
 
@@ -48,7 +52,12 @@ export default function AuthScreen() {
   const {
     signIn,
     signUp,
+    signInWithProvider,
+    signInWithPasskey,
+    completeTwoFactorSignIn,
   } = useAuth();
+  const { googleAvailable, appleAvailable, getCredential } = useSocialSignIn();
+  const { isSupported: passkeySupported, getPasskeyAssertion } = usePasskeys();
 
   const [isSignUp, setIsSignUp] = useState(true);
   const [email, setEmail] = useState("");
@@ -57,6 +66,10 @@ export default function AuthScreen() {
   const [showPassword, setShowPassword] = useState(false);
   const [authLoading, setAuthLoading] = useState(false);
   const [authError, setAuthError] = useState<string | null>(null);
+  const [pendingLinkProvider, setPendingLinkProvider] =
+    useState<SocialProvider | null>(null);
+  const [twoFactorToken, setTwoFactorToken] = useState<string | null>(null);
+  const showPasskeyButton = passkeySupported && !isSignUp;
 
   const passwordRef = useRef<TextInput>(null);
   const confirmPasswordRef = useRef<TextInput>(null);
@@ -146,6 +159,10 @@ export default function AuthScreen() {
         result = await signUp(email.trim(), password, undefined, undefined);
       } else {
         result = await signIn(email.trim(), password);
+        if (!result.success && result.twoFactorToken) {
+          setTwoFactorToken(result.twoFactorToken);
+          return;
+        }
       }
 
       if (!result.success) {
@@ -169,6 +186,132 @@ export default function AuthScreen() {
     }
   };
 
+  const completeSocialSignIn = async (
+    provider: SocialProvider,
+    credential: SocialCredential,
+  ) => {
+    const result = await signInWithProvider(provider, credential);
+
+    if (!result.success) {
+      if (result.errorCode === TWO_FACTOR_REQUIRED && result.twoFactorToken) {
+        setPendingLinkProvider(null);
+        setTwoFactorToken(result.twoFactorToken);
+        return;
+      }
+      if (result.errorCode === "ACCOUNT_LINK_REQUIRED" && !credential.password) {
+        if (Alert.prompt) {
+          Alert.prompt(
+            "Link Your Account",
+            "An account with this email already exists. Enter its password to link them.",
+            async (inputPassword: string) => {
+              if (!inputPassword) return;
+              setAuthLoading(true);
+              try {
+                await completeSocialSignIn(provider, { ...credential, password: inputPassword });
+              } finally {
+                setAuthLoading(false);
+              }
+            },
+            "secure-text",
+          );
+        } else {
+          setIsSignUp(false);
+          setPendingLinkProvider(provider);
+          setAuthError(`${result.error} Enter the password above, then tap the button again.`);
+        }
+        return;
+      }
+      setAuthError(result.error || "Sign in failed");
+      return;
+    }
+
+    setPendingLinkProvider(null);
+    if (result.isNewUser) {
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      navigateToOnboarding();
+    } else {
+      await handleReturningUserNavigation();
+    }
+  };
+
+  const handleSocialSignIn = async (provider: SocialProvider) => {
+    setAuthLoading(true);
+    setAuthError(null);
+
+    try {
+      const credential = await getCredential(provider);
+      if (!credential) return;
+      const linkPassword =
+        pendingLinkProvider === provider && password ? password : undefined;
+      await completeSocialSignIn(provider, { ...credential, password: linkPassword });
+    } catch (err) {
+      logger.error("Social sign in error:", err);
+      setAuthError(
+        `${provider === "google" ? "Google" : "Apple"} sign in failed. Please try again.`,
+      );
+    } finally {
+      setAuthLoading(false);
+    }
+  };
+
+  const handlePasskeySignIn = async () => {
+    setAuthLoading(true);
+    setAuthError(null);
+
+    try {
+      const options = await apiClient.post<PasskeyRequestOptions>(
+        "/api/auth/passkeys/login/options",
+        undefined,
+        { skipAuth: true },
+      );
+      const assertion = await getPasskeyAssertion(options);
+      if (!assertion) return;
+
+      const result = await signInWithPasskey(assertion);
+      if (!result.success) {
+        setAuthError(result.error || "Passkey sign in failed");
+        return;
+      }
+      await handleReturningUserNavigation();
+    } catch (err) {
+      logger.error("Passkey sign in error:", err);
+      setAuthError("Passkey sign in failed. Please try again.");
+    } finally {
+      setAuthLoading(false);
+    }
+  };
+
+  const handleTwoFactorSubmit = async (code: string, trustDevice: boolean) => {
+    if (!twoFactorToken) return;
+    setAuthLoading(true);
+    setAuthError(null);
+
+    try {
+      const result = await completeTwoFactorSignIn(twoFactorToken, code, trustDevice);
+      if (!result.success) {
+        if (result.errorCode === "TWO_FACTOR_CHALLENGE_EXPIRED") {
+          setTwoFactorToken(null);
+        }
+        setAuthError(result.error || "Verification failed");
+        return;
+      }
+      setTwoFactorToken(null);
+      await handleReturningUserNavigation();
+    } catch (err) {
+      logger.error("Two-factor sign in error:", err);
+      setAuthError("Verification failed. Please try again.");
+    } finally {
+      setAuthLoading(false);
+    }
+  };
+
+  const handleTwoFactorCancel = () => {
+    setTwoFactorToken(null);
+    setAuthError(null);
+  };
+
   const navigateToOnboarding = () => {
     navigation.dispatch(
       CommonActions.reset({
@@ -245,186 +388,134 @@ export default function AuthScreen() {
           <ThemedText style={styles.appName}>ChefSpAIce</ThemedText>
         </Animated.View>
 
-        <Animated.View
-          entering={FadeIn.delay(700).duration(400)}
-          style={styles.authSection}
-        >
-          {isSignUp && (
-            <View style={styles.planSelectionContainer}>
-              <View
-                style={[
-                  styles.trialBanner,
-                  { backgroundColor: `${AppColors.primary}15` },
-                ]}
-              >
+        {twoFactorToken ? (
+          <TwoFactorCodeStep
+            isLoading={authLoading}
+            error={authError}
+            onSubmit={handleTwoFactorSubmit}
+            onCancel={handleTwoFactorCancel}
+          />
+        ) : (
+          <Animated.View
+            entering={FadeIn.delay(700).duration(400)}
+            style={styles.authSection}
+          >
+            {isSignUp && (
+              <View style={styles.planSelectionContainer}>
                 <View
                   style={[
-                    styles.trialIconContainer,
-                    { backgroundColor: AppColors.primary },
+                    styles.trialBanner,
+                    { backgroundColor: `${AppColors.primary}15` },
                   ]}
                 >
-                  <Feather name="zap" size={20} color={theme.buttonText} />
-                </View>
-                <View style={styles.trialTextContainer}>
-                  <ThemedText style={styles.trialTitle}>
-                    Your Smart Kitchen Awaits
-                  </ThemedText>
-                  <ThemedText
+                  <View
                     style={[
-                      styles.trialSubtitle,
-                      { color: theme.textSecondary },
+                      styles.trialIconContainer,
+                      { backgroundColor: AppColors.primary },
                     ]}
                   >
-                    Create an account to get started with ChefSpAIce
-                  </ThemedText>
+                    <Feather name="zap" size={20} color={theme.buttonText} />
+                  </View>
+                  <View style={styles.trialTextContainer}>
+                    <ThemedText style={styles.trialTitle}>
+                      Your Smart Kitchen Awaits
+                    </ThemedText>
+                    <ThemedText
+                      style={[
+                        styles.trialSubtitle,
+                        { color: theme.textSecondary },
+                      ]}
+                    >
+                      Create an account to get started with ChefSpAIce
+                    </ThemedText>
+                  </View>
                 </View>
-              </View>
 
-              <View style={styles.featuresListContainer}>
-                <ThemedText style={styles.featuresListTitle}>
-                  What you'll get:
-                </ThemedText>
-                <View style={styles.featuresGrid}>
-                  {[
-                    "Unlimited inventory",
-                    "AI recipes",
-                    "Meal planning",
-                    "Expiration alerts",
-                    "Nutrition tracking",
-                    "Cloud sync",
-                    "Shopping lists",
-                    "Waste reduction",
-                  ].map((feature, index) => (
-                    <View key={index} style={styles.featureGridItem}>
-                      <Feather
-                        name="check-circle"
-                        size={12}
-                        color={AppColors.primary}
-                      />
-                      <ThemedText style={styles.featureGridItemText}>
-                        {feature}
-                      </ThemedText>
-                    </View>
-                  ))}
+                <View style={styles.featuresListContainer}>
+                  <ThemedText style={styles.featuresListTitle}>
+                    What you'll get:
+                  </ThemedText>
+                  <View style={styles.featuresGrid}>
+                    {[
+                      "Unlimited inventory",
+                      "AI recipes",
+                      "Meal planning",
+                      "Expiration alerts",
+                      "Nutrition tracking",
+                      "Cloud sync",
+                      "Shopping lists",
+                      "Waste reduction",
+                    ].map((feature, index) => (
+                      <View key={index} style={styles.featureGridItem}>
+                        <Feather
+                          name="check-circle"
+                          size={12}
+                          color={AppColors.primary}
+                        />
+                        <ThemedText style={styles.featureGridItemText}>
+                          {feature}
+                        </ThemedText>
+                      </View>
+                    ))}
+                  </View>
                 </View>
               </View>
-            </View>
-          )}
+            )}
 
-          <ThemedText style={styles.authTitle}>
-            {isSignUp ? "Create Account" : "Welcome Back"}
-          </ThemedText>
+            <ThemedText style={styles.authTitle}>
+              {isSignUp ? "Create Account" : "Welcome Back"}
+            </ThemedText>
 
-          {authError && (
-            <View
-              style={[
-                styles.authErrorContainer,
-                { backgroundColor: `${AppColors.error}15` },
-              ]}
-              accessibilityRole="alert"
-              accessibilityLiveRegion="assertive"
-            >
-              <Feather name="alert-circle" size={16} color={AppColors.error} />
-              <ThemedText
-                style={[styles.authErrorText, { color: AppColors.error }]}
+            {authError && (
+              <View
+                style={[
+                  styles.authErrorContainer,
+                  { backgroundColor: `${AppColors.error}15` },
+                ]}
+                accessibilityRole="alert"
+                accessibilityLiveRegion="assertive"
               >
-                {authError}
-              </ThemedText>
-            </View>
-          )}
-
-          <View style={styles.authInputContainer}>
-            <View
-              style={[
-                styles.authInputWrapper,
-                {
-                  backgroundColor: themeStyle.glass.background,
-                  borderColor: themeStyle.glass.border,
-                },
-              ]}
-            >
-              <Feather
-                name="mail"
-                size={20}
-                color={theme.textSecondary}
-                style={styles.authInputIcon}
-              />
-              <TextInput
-                style={[styles.authInput, { color: theme.text }]}
-                placeholder="Email"
-                placeholderTextColor={theme.textSecondary}
-                value={email}
-                onChangeText={setEmail}
-                autoCapitalize="none"
-                autoCorrect={false}
-                keyboardType="email-address"
-                textContentType="emailAddress"
-                returnKeyType="next"
-                onSubmitEditing={() => passwordRef.current?.focus()}
-                testID="input-email"
-              />
-            </View>
+                <Feather name="alert-circle" size={16} color={AppColors.error} />
+                <ThemedText
+                  style={[styles.authErrorText, { color: AppColors.error }]}
+                >
+                  {authError}
+                </ThemedText>
+              </View>
+            )}
 
-            <View
-              style={[
-                styles.authInputWrapper,
-                {
-                  backgroundColor: themeStyle.glass.background,
-                  borderColor: themeStyle.glass.border,
-                },
-              ]}
-            >
-              <Feather
-                name="lock"
-                size={20}
-                color={theme.textSecondary}
-                style={styles.authInputIcon}
-              />
-              <TextInput
-                ref={passwordRef}
-                style={[styles.authInput, { color: theme.text }]}
-                placeholder="Password"
-                placeholderTextColor={theme.textSecondary}
-                value={password}
-                onChangeText={setPassword}
-                secureTextEntry={!showPassword}
-                autoCapitalize="none"
-                textContentType="oneTimeCode"
-                autoComplete="off"
-                returnKeyType={isSignUp ? "next" : "done"}
-                onSubmitEditing={() => {
-                  if (isSignUp) {
-                    confirmPasswordRef.current?.focus();
-                  } else {
-                    handleAuth();
-                  }
-                }}
-                testID="input-password"
-              />
-              <Pressable
-                accessibilityLabel="Toggle password visibility"
-                accessibilityRole="button"
-                onPress={() => setShowPassword(!showPassword)}
-                style={styles.authEyeButton}
-                {...webAccessibilityProps(() => setShowPassword(!showPassword))}
+            <View style={styles.authInputContainer}>
+              <View
+                style={[
+                  styles.authInputWrapper,
+                  {
+                    backgroundColor: themeStyle.glass.background,
+                    borderColor: themeStyle.glass.border,
+                  },
+                ]}
               >
                 <Feather
-                  name={showPassword ? "eye-off" : "eye"}
+                  name="mail"
                   size={20}
                   color={theme.textSecondary}
+                  style={styles.authInputIcon}
+                />
+                <TextInput
+                  style={[styles.authInput, { color: theme.text }]}
+                  placeholder="Email"
+                  placeholderTextColor={theme.textSecondary}
+                  value={email}
+                  onChangeText={setEmail}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="email-address"
+                  textContentType="emailAddress"
+                  returnKeyType="next"
+                  onSubmitEditing={() => passwordRef.current?.focus()}
+                  testID="input-email"
                 />
-              </Pressable>
-            </View>
-
-            {isSignUp && (
-              <View style={{ paddingHorizontal: 4, marginTop: -4, marginBottom: 4 }}>
-                <ThemedText testID="text-password-requirements" style={{ fontSize: Typography.micro.fontSize, color: theme.textSecondary, lineHeight: Typography.caption.lineHeight }}>
-                  Password must be at least 8 characters and contain an uppercase letter, lowercase letter, and number.
-                </ThemedText>
               </View>
-            )}
 
-            {isSignUp && (
               <View
                 style={[
                   styles.authInputWrapper,
@@ -441,133 +532,265 @@ export default function AuthScreen() {
                   style={styles.authInputIcon}
                 />
                 <TextInput
-                  ref={confirmPasswordRef}
+                  ref={passwordRef}
                   style={[styles.authInput, { color: theme.text }]}
-                  placeholder="Confirm Password"
+                  placeholder="Password"
                   placeholderTextColor={theme.textSecondary}
-                  value={confirmPassword}
-                  onChangeText={setConfirmPassword}
+                  value={password}
+                  onChangeText={setPassword}
                   secureTextEntry={!showPassword}
                   autoCapitalize="none"
                   textContentType="oneTimeCode"
                   autoComplete="off"
-                  returnKeyType="done"
-                  onSubmitEditing={handleAuth}
-                  testID="input-confirm-password"
+                  returnKeyType={isSignUp ? "next" : "done"}
+                  onSubmitEditing={() => {
+                    if (isSignUp) {
+                      confirmPasswordRef.current?.focus();
+                    } else {
+                      handleAuth();
+                    }
+                  }}
+                  testID="input-password"
                 />
+                <Pressable
+                  accessibilityLabel="Toggle password visibility"
+                  accessibilityRole="button"
+                  onPress={() => setShowPassword(!showPassword)}
+                  style={styles.authEyeButton}
+                  {...webAccessibilityProps(() => setShowPassword(!showPassword))}
+                >
+                  <Feather
+                    name={showPassword ? "eye-off" : "eye"}
+                    size={20}
+                    color={theme.textSecondary}
+                  />
+                </Pressable>
               </View>
-            )}
-          </View>
-
-          <Pressable
-            style={[
-              styles.authButton,
-              { backgroundColor: AppColors.primary },
-              authLoading && styles.authButtonDisabled,
-            ]}
-            onPress={handleAuth}
-            disabled={authLoading}
-            testID="button-auth-submit"
-            {...webAccessibilityProps(handleAuth)}
-            accessibilityRole="button"
-            accessibilityLabel={isSignUp ? "Create account" : "Sign in"}
-            accessibilityState={{ disabled: authLoading }}
-          >
-            {authLoading ? (
-              <ActivityIndicator size="small" color={theme.buttonText} />
-            ) : (
-              <ThemedText style={styles.authButtonText}>
-                {isSignUp ? "Create Account" : "Sign In"}
-              </ThemedText>
-            )}
-          </Pressable>
-
-          <Pressable
-            onPress={() => {
-              setIsSignUp(!isSignUp);
-              setAuthError(null);
-            }}
-            style={styles.authSwitchButton}
-            testID="button-switch-auth-mode"
-            {...webAccessibilityProps(() => { setIsSignUp(!isSignUp); setAuthError(null); })}
-            accessibilityRole="button"
-            accessibilityLabel={isSignUp ? "Switch to sign in" : "Switch to sign up"}
-          >
-            <ThemedText
-              style={[styles.authSwitchText, { color: theme.textSecondary }]}
+
+              {isSignUp && (
+                <View style={{ paddingHorizontal: 4, marginTop: -4, marginBottom: 4 }}>
+                  <ThemedText testID="text-password-requirements" style={{ fontSize: Typography.micro.fontSize, color: theme.textSecondary, lineHeight: Typography.caption.lineHeight }}>
+                    Password must be at least 8 characters and contain an uppercase letter, lowercase letter, and number.
+                  </ThemedText>
+                </View>
+              )}
+
+              {isSignUp && (
+                <View
+                  style={[
+                    styles.authInputWrapper,
+                    {
+                      backgroundColor: themeStyle.glass.background,
+                      borderColor: themeStyle.glass.border,
+                    },
+                  ]}
+                >
+                  <Feather
+                    name="lock"
+                    size={20}
+                    color={theme.textSecondary}
+                    style={styles.authInputIcon}
+                  />
+                  <TextInput
+                    ref={confirmPasswordRef}
+                    style={[styles.authInput, { color: theme.text }]}
+                    placeholder="Confirm Password"
+                    placeholderTextColor={theme.textSecondary}
+                    value={confirmPassword}
+                    onChangeText={setConfirmPassword}
+                    secureTextEntry={!showPassword}
+                    autoCapitalize="none"
+                    textContentType="oneTimeCode"
+                    autoComplete="off"
+                    returnKeyType="done"
+                    onSubmitEditing={handleAuth}
+                    testID="input-confirm-password"
+                  />
+                </View>
+              )}
+            </View>
+
+            <Pressable
+              style={[
+                styles.authButton,
+                { backgroundColor: AppColors.primary },
+                authLoading && styles.authButtonDisabled,
+              ]}
+              onPress={handleAuth}
+              disabled={authLoading}
+              testID="button-auth-submit"
+              {...webAccessibilityProps(handleAuth)}
+              accessibilityRole="button"
+              accessibilityLabel={isSignUp ? "Create account" : "Sign in"}
+              accessibilityState={{ disabled: authLoading }}
             >
-              {isSignUp
-                ? "Already have an account? "
-                : "Don't have an account? "}
-              <ThemedText
-                style={{ color: AppColors.primary, fontWeight: "600" }}
-              >
-                {isSignUp ? "Sign In" : "Sign Up"}
-              </ThemedText>
-            </ThemedText>
-          </Pressable>
+              {authLoading ? (
+                <ActivityIndicator size="small" color={theme.buttonText} />
+              ) : (
+                <ThemedText style={styles.authButtonText}>
+                  {isSignUp ? "Create Account" : "Sign In"}
+                </ThemedText>
+              )}
+            </Pressable>
+
+            {googleAvailable || appleAvailable || showPasskeyButton ? (
+              <>
+                <View style={styles.authDividerContainer}>
+                  <View
+                    style={[styles.authDivider, { backgroundColor: theme.border }]}
+                  />
+                  <ThemedText
+                    style={[styles.authDividerText, { color: theme.textSecondary }]}
+                  >
+                    or
+                  </ThemedText>
+                  <View
+                    style={[styles.authDivider, { backgroundColor: theme.border }]}
+                  />
+                </View>
+
+                <View style={styles.authSocialButtons}>
+                  {showPasskeyButton ? (
+                    <Pressable
+                      style={[styles.authSocialButton, { borderColor: theme.border }]}
+                      onPress={handlePasskeySignIn}
+                      disabled={authLoading}
+                      testID="button-auth-passkey"
+                      {...webAccessibilityProps(handlePasskeySignIn)}
+                      accessibilityRole="button"
+                      accessibilityLabel="Sign in with a passkey"
+                      accessibilityState={{ disabled: authLoading }}
+                    >
+                      <MaterialCommunityIcons name="key-variant" size={20} color={theme.text} />
+                      <ThemedText style={styles.authSocialButtonText}>
+                        Sign in with a passkey
+                      </ThemedText>
+                    </Pressable>
+                  ) : null}
+                  {appleAvailable ? (
+                    <Pressable
+                      style={[styles.authSocialButton, { borderColor: theme.border }]}
+                      onPress={() => handleSocialSignIn("apple")}
+                      disabled={authLoading}
+                      testID="button-auth-apple"
+                      accessibilityRole="button"
+                      accessibilityLabel="Continue with Apple"
+                      accessibilityState={{ disabled: authLoading }}
+                    >
+                      <MaterialCommunityIcons name="apple" size={20} color={theme.text} />
+                      <ThemedText style={styles.authSocialButtonText}>
+                        Continue with Apple
+                      </ThemedText>
+                    </Pressable>
+                  ) : null}
+                  {googleAvailable ? (
+                    <Pressable
+                      style={[styles.authSocialButton, { borderColor: theme.border }]}
+                      onPress={() => handleSocialSignIn("google")}
+                      disabled={authLoading}
+                      testID="button-auth-google"
+                      {...webAccessibilityProps(() => handleSocialSignIn("google"))}
+                      accessibilityRole="button"
+                      accessibilityLabel="Continue with Google"
+                      accessibilityState={{ disabled: authLoading }}
+                    >
+                      <MaterialCommunityIcons name="google" size={20} color={theme.text} />
+                      <ThemedText style={styles.authSocialButtonText}>
+                        Continue with Google
+                      </ThemedText>
+                    </Pressable>
+                  ) : null}
+                </View>
+              </>
+            ) : null}
 
-          {!isSignUp && (
             <Pressable
-              onPress={handleForgotPassword}
-              style={styles.forgotPasswordButton}
-              testID="button-forgot-password"
-              {...webAccessibilityProps(handleForgotPassword)}
+              onPress={() => {
+                setIsSignUp(!isSignUp);
+                setAuthError(null);
+              }}
+              style={styles.authSwitchButton}
+              testID="button-switch-auth-mode"
+              {...webAccessibilityProps(() => { setIsSignUp(!isSignUp); setAuthError(null); })}
               accessibilityRole="button"
-              accessibilityLabel="Forgot password"
+              accessibilityLabel={isSignUp ? "Switch to sign in" : "Switch to sign up"}
             >
               <ThemedText
-                style={[styles.forgotPasswordText, { color: AppColors.primary }]}
+                style={[styles.authSwitchText, { color: theme.textSecondary }]}
               >
-                Forgot Password?
+                {isSignUp
+                  ? "Already have an account? "
+                  : "Don't have an account? "}
+                <ThemedText
+                  style={{ color: AppColors.primary, fontWeight: "600" }}
+                >
+                  {isSignUp ? "Sign In" : "Sign Up"}
+                </ThemedText>
               </ThemedText>
             </Pressable>
-          )}
 
-          <View style={styles.legalLinksContainer}>
-            {isSignUp && (
-              <ThemedText
-                style={[styles.legalText, { color: theme.textSecondary }]}
-              >
-                By creating an account, you agree to our
-              </ThemedText>
-            )}
-            <View style={styles.legalLinksRow}>
+            {!isSignUp && (
               <Pressable
-                onPress={handleOpenPrivacyPolicy}
-                testID="link-auth-privacy-policy"
-                {...webAccessibilityProps(handleOpenPrivacyPolicy)}
-                accessibilityRole="link"
-                accessibilityLabel="Open privacy policy"
+                onPress={handleForgotPassword}
+                style={styles.forgotPasswordButton}
+                testID="button-forgot-password"
+                {...webAccessibilityProps(handleForgotPassword)}
+                accessibilityRole="button"
+                accessibilityLabel="Forgot password"
               >
                 <ThemedText
-                  style={[styles.legalLink, { color: AppColors.primary }]}
+                  style={[styles.forgotPasswordText, { color: AppColors.primary }]}
                 >
-                  Privacy Policy
+                  Forgot Password?
                 </ThemedText>
               </Pressable>
-              <ThemedText
-                style={[styles.legalSeparator, { color: theme.textSecondary }]}
-              >
-                {" and "}
-              </ThemedText>
-              <Pressable
-                onPress={handleOpenTermsOfUse}
-                testID="link-auth-terms-of-use"
-                {...webAccessibilityProps(handleOpenTermsOfUse)}
-                accessibilityRole="link"
-                accessibilityLabel="Open terms of service"
-              >
+            )}
+
+            <View style={styles.legalLinksContainer}>
+              {isSignUp && (
                 <ThemedText
-                  style={[styles.legalLink, { color: AppColors.primary }]}
+                  style={[styles.legalText, { color: theme.textSecondary }]}
                 >
-                  Terms of Service
+                  By creating an account, you agree to our
                 </ThemedText>
-              </Pressable>
+              )}
+              <View style={styles.legalLinksRow}>
+                <Pressable
+                  onPress={handleOpenPrivacyPolicy}
+                  testID="link-auth-privacy-policy"
+                  {...webAccessibilityProps(handleOpenPrivacyPolicy)}
+                  accessibilityRole="link"
+                  accessibilityLabel="Open privacy policy"
+                >
+                  <ThemedText
+                    style={[styles.legalLink, { color: AppColors.primary }]}
+                  >
+                    Privacy Policy
+                  </ThemedText>
+                </Pressable>
+                <ThemedText
+                  style={[styles.legalSeparator, { color: theme.textSecondary }]}
+                >
+                  {" and "}
+                </ThemedText>
+                <Pressable
+                  onPress={handleOpenTermsOfUse}
+                  testID="link-auth-terms-of-use"
+                  {...webAccessibilityProps(handleOpenTermsOfUse)}
+                  accessibilityRole="link"
+                  accessibilityLabel="Open terms of service"
+                >
+                  <ThemedText
+                    style={[styles.legalLink, { color: AppColors.primary }]}
+                  >
+                    Terms of Service
+                  </ThemedText>
+                </Pressable>
+              </View>
             </View>
-          </View>
 
-        </Animated.View>
+          </Animated.View>
+        )}
       </KeyboardAwareScrollViewCompat>
     </View>
   );
@@ -0,0 +1,517 @@
+import React, { useState, useEffect, useMemo } from "react";
+import { View, StyleSheet, ScrollView, Pressable, Alert } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRoute, RouteProp } from "@react-navigation/native";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { Feather } from "@expo/vector-icons";
+import { addMinutes, format, parseISO } from "date-fns";
+
+import { ThemedText } from "@/components/ThemedText";
+import { GlassCard } from "@/components/GlassCard";
+import { GlassButton } from "@/components/GlassButton";
+import { GlassHeader, MenuItemConfig } from "@/components/GlassHeader";
+import { RecipeVoiceControls } from "@/components/recipe-detail/RecipeVoiceControls";
+import { useTheme } from "@/hooks/useTheme";
+import {
+  useRecipeVoiceNavigation,
+  type VoiceRecipe,
+} from "@/hooks/useRecipeVoiceNavigation";
+import { Spacing, BorderRadius, AppColors } from "@/constants/theme";
+import { storage, Recipe } from "@/lib/storage";
+import { apiClient } from "@/lib/api-client";
+import { syncManager } from "@/lib/sync-manager";
+import {
+  scheduleCookingNotifications,
+  cancelCookingNotifications,
+  type CookingAlert,
+} from "@/lib/notifications";
+import { logger } from "@/lib/logger";
+import { RecipesStackParamList } from "@/navigation/RecipesStackNavigator";
+import type { CookingTimeline } from "@/lib/types";
+
+type CookingTimelineRouteProp = RouteProp<
+  RecipesStackParamList,
+  "CookingTimeline"
+>;
+
+const MAX_RECIPES = 4;
+const SERVE_STEP_MINUTES = 15;
+
+/** The next quarter hour at least an hour from now. */
+function defaultServeTime(): Date {
+  const date = addMinutes(new Date(), 60);
+  const minutes = Math.ceil(date.getMinutes() / 15) * 15;
+  date.setMinutes(minutes, 0, 0);
+  return date;
+}
+
+function timeLabel(iso: string): string {
+  return format(parseISO(iso), "h:mm a");
+}
+
+function cookingAlerts(timeline: CookingTimeline): CookingAlert[] {
+  return timeline.steps.flatMap((step) => {
+    const alerts: CookingAlert[] = [
+      {
+        id: `${step.id}:start`,
+        title: step.recipeTitle,
+        body: step.text,
+        at: parseISO(step.startsAt),
+      },
+    ];
+    if (step.passive && step.timerMinutes) {
+      alerts.push({
+        id: `${step.id}:done`,
+        title: `${step.recipeTitle} timer done`,
+        body: `${step.timerMinutes} min are up: ${step.text}`,
+        at: parseISO(step.endsAt),
+      });
+    }
+    return alerts;
+  });
+}
+
+export default function CookingTimelineScreen() {
+  const insets = useSafeAreaInsets();
+  const tabBarHeight = useBottomTabBarHeight();
+  const { theme, style: themeStyle } = useTheme();
+  const route = useRoute<CookingTimelineRouteProp>();
+
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>(
+    route.params.recipeIds,
+  );
+  const [serveAt, setServeAt] = useState(defaultServeTime);
+  const [timeline, setTimeline] = useState<CookingTimeline | null>(null);
+  const [building, setBuilding] = useState(false);
+  const [timersOn, setTimersOn] = useState(false);
+  const [showVoiceControls, setShowVoiceControls] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    storage.getRecipes().then(setRecipes);
+  }, []);
+
+  useEffect(() => {
+    if (!timeline) return;
+    const interval = setInterval(() => setNow(new Date()), 30_000);
+    return () => clearInterval(interval);
+  }, [timeline]);
+
+  const selectedRecipes = useMemo(
+    () =>
+      selectedIds
+        .map((id) => recipes.find((r) => r.id === id))
+        .filter((r): r is Recipe => !!r),
+    [selectedIds, recipes],
+  );
+
+  const voiceRecipe = useMemo<VoiceRecipe | null>(() => {
+    if (!timeline) return null;
+    return {
+      title: selectedRecipes.map((r) => r.title).join(", "),
+      description: `Everything is ready at ${timeLabel(timeline.serveAt)}.`,
+      ingredients: selectedRecipes.flatMap((r) => r.ingredients),
+      instructions: timeline.steps.map(
+        (step) =>
+          `At ${timeLabel(step.startsAt)}, ${step.recipeTitle}: ${step.text}`,
+      ),
+    };
+  }, [timeline, selectedRecipes]);
+
+  const voiceNav = useRecipeVoiceNavigation({
+    recipe: voiceRecipe,
+    onCommandExecuted: (cmd) => {
+      logger.log("Voice command executed:", cmd);
+    },
+  });
+
+  const toggleRecipe = (recipeId: string) => {
+    setTimeline(null);
+    setSelectedIds((prev) =>
+      prev.includes(recipeId)
+        ? prev.filter((id) => id !== recipeId)
+        : prev.length < MAX_RECIPES
+          ? [...prev, recipeId]
+          : prev,
+    );
+  };
+
+  const shiftServeTime = (minutes: number) => {
+    setTimeline(null);
+    setServeAt((prev) => addMinutes(prev, minutes));
+  };
+
+  const handleBuild = async () => {
+    if (building || selectedIds.length === 0) return;
+    setBuilding(true);
+    try {
+      // Push local recipe edits so the server schedules the latest steps.
+      await syncManager.fullSync();
+      const result = await apiClient.post<CookingTimeline>(
+        "/api/recipes/timeline",
+        { recipeIds: selectedIds, serveAt: serveAt.toISOString() },
+      );
+      setTimeline(result);
+      setNow(new Date());
+      if (result.serveAtMoved) {
+        Alert.alert(
+          "Start Now",
+          `There isn't time to be ready by ${format(serveAt, "h:mm a")}. Start now and everything will be ready at ${timeLabel(result.serveAt)}.`,
+        );
+      }
+    } catch (error) {
+      logger.error("Error building cooking timeline:", error);
+      Alert.alert(
+        "Couldn't Build Timeline",
+        error instanceof Error ? error.message : "Please try again.",
+      );
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  const handleToggleTimers = async () => {
+    if (!timeline) return;
+    if (timersOn) {
+      await cancelCookingNotifications();
+      setTimersOn(false);
+      return;
+    }
+    const count = await scheduleCookingNotifications(cookingAlerts(timeline));
+    if (count === 0) {
+      Alert.alert(
+        "Timers Unavailable",
+        "Allow notifications to get an alert when each step is due.",
+      );
+      return;
+    }
+    setTimersOn(true);
+  };
+
+  const menuItems: MenuItemConfig[] = [
+    {
+      label: showVoiceControls ? "Voice Mode On" : "Voice Mode",
+      icon: "mic",
+      onPress: () => setShowVoiceControls((prev) => !prev),
+      active: showVoiceControls,
+      disabled: !timeline,
+    },
+  ];
+
+  const otherRecipes = recipes
+    .filter((r) => !selectedIds.includes(r.id))
+    .sort((a, b) => Number(b.isFavorite) - Number(a.isFavorite));
+  const currentStepId = timeline?.steps.find(
+    (step) => parseISO(step.endsAt) > now,
+  )?.id;
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <GlassHeader
+        title="Cooking Timeline"
+        screenKey="cookingTimeline"
+        showSearch={false}
+        showBackButton={true}
+        menuItems={menuItems}
+      />
+      <ScrollView
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: 56 + insets.top + Spacing.lg,
+            paddingBottom: tabBarHeight + Spacing.xl,
+          },
+        ]}
+        testID="screen-cooking-timeline"
+      >
+        <GlassCard style={styles.section}>
+          <ThemedText type="h4">Dishes</ThemedText>
+          <View style={styles.chips}>
+            {selectedRecipes.map((recipe) => (
+              <Pressable
+                key={recipe.id}
+                style={[styles.chip, { borderColor: AppColors.primary }]}
+                onPress={() => toggleRecipe(recipe.id)}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove ${recipe.title}`}
+              >
+                <ThemedText type="small" numberOfLines={1}>
+                  {recipe.title}
+                </ThemedText>
+                <Feather name="x" size={14} color={theme.textSecondary} />
+              </Pressable>
+            ))}
+          </View>
+          {selectedIds.length < MAX_RECIPES && otherRecipes.length > 0 ? (
+            <>
+              <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+                Add a side
+              </ThemedText>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.chips}
+              >
+                {otherRecipes.map((recipe) => (
+                  <Pressable
+                    key={recipe.id}
+                    style={[
+                      styles.chip,
+                      { borderColor: themeStyle.glass.border },
+                    ]}
+                    onPress={() => toggleRecipe(recipe.id)}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Add ${recipe.title}`}
+                  >
+                    <Feather name="plus" size={14} color={AppColors.primary} />
+                    <ThemedText type="small" numberOfLines={1}>
+                      {recipe.title}
+                    </ThemedText>
+                  </Pressable>
+                ))}
+              </ScrollView>
+            </>
+          ) : null}
+
+          <View style={styles.serveRow}>
+            <ThemedText type="body">Serve at</ThemedText>
+            <View style={styles.stepper}>
+              <Pressable
+                onPress={() => shiftServeTime(-SERVE_STEP_MINUTES)}
+                accessibilityRole="button"
+                accessibilityLabel="Serve 15 minutes earlier"
+                hitSlop={8}
+              >
+                <Feather name="minus-circle" size={22} color={theme.text} />
+              </Pressable>
+              <ThemedText type="h4">{format(serveAt, "h:mm a")}</ThemedText>
+              <Pressable
+                onPress={() => shiftServeTime(SERVE_STEP_MINUTES)}
+                accessibilityRole="button"
+                accessibilityLabel="Serve 15 minutes later"
+                hitSlop={8}
+              >
+                <Feather name="plus-circle" size={22} color={theme.text} />
+              </Pressable>
+            </View>
+          </View>
+
+          <GlassButton
+            variant="primary"
+            onPress={handleBuild}
+            loading={building}
+            disabled={building || selectedIds.length === 0}
+            testID="button-build-timeline"
+          >
+            Build Timeline
+          </GlassButton>
+        </GlassCard>
+
+        {timeline ? (
+          <GlassCard style={styles.section}>
+            <View style={styles.summaryRow}>
+              <View style={styles.summaryText}>
+                <ThemedText type="h4">
+                  Start at {timeLabel(timeline.startAt)}
+                </ThemedText>
+                <ThemedText
+                  type="caption"
+                  style={{ color: theme.textSecondary }}
+                >
+                  Ready at {timeLabel(timeline.serveAt)} ·{" "}
+                  {timeline.totalMinutes} min
+                </ThemedText>
+              </View>
+              <Pressable
+                style={[
+                  styles.chip,
+                  {
+                    borderColor: timersOn
+                      ? AppColors.primary
+                      : themeStyle.glass.border,
+                  },
+                ]}
+                onPress={handleToggleTimers}
+                accessibilityRole="button"
+                accessibilityLabel={
+                  timersOn ? "Cancel step alerts" : "Alert me at each step"
+                }
+                testID="button-toggle-timers"
+              >
+                <Feather
+                  name={timersOn ? "bell" : "bell-off"}
+                  size={14}
+                  color={timersOn ? AppColors.primary : theme.textSecondary}
+                />
+                <ThemedText type="small">
+                  {timersOn ? "Alerts On" : "Alerts Off"}
+                </ThemedText>
+              </Pressable>
+            </View>
+
+            {timeline.steps.map((step, index) => {
+              const isCurrent =
+                step.id === currentStepId ||
+                (showVoiceControls && index === voiceNav.currentStep);
+              return (
+                <View
+                  key={step.id}
+                  style={[
+                    styles.stepRow,
+                    { borderColor: themeStyle.glass.border },
+                    isCurrent && {
+                      backgroundColor: themeStyle.glass.background,
+                    },
+                  ]}
+                  accessibilityLabel={`${timeLabel(step.startsAt)}, ${step.recipeTitle}: ${step.text}`}
+                >
+                  <ThemedText type="small" style={styles.stepTime}>
+                    {timeLabel(step.startsAt)}
+                  </ThemedText>
+                  <View style={styles.stepText}>
+                    <ThemedText
+                      type="caption"
+                      style={{ color: AppColors.primary }}
+                    >
+                      {step.recipeTitle}
+                    </ThemedText>
+                    <ThemedText type="body">{step.text}</ThemedText>
+                    {step.passive ? (
+                      <ThemedText
+                        type="caption"
+                        style={{ color: theme.textSecondary }}
+                      >
+                        Hands-off until {timeLabel(step.endsAt)}
+                      </ThemedText>
+                    ) : null}
+                  </View>
+                  {step.timerMinutes ? (
+                    <View style={styles.timerBadge}>
+                      <Feather
+                        name="clock"
+                        size={12}
+                        color={theme.textSecondary}
+                      />
+                      <ThemedText
+                        type="caption"
+                        style={{ color: theme.textSecondary }}
+                      >
+                        {step.timerMinutes}m
+                      </ThemedText>
+                    </View>
+                  ) : null}
+                </View>
+              );
+            })}
+          </GlassCard>
+        ) : null}
+      </ScrollView>
+
+      {showVoiceControls && timeline ? (
+        <View
+          style={[
+            styles.voiceControlsContainer,
+            { bottom: tabBarHeight + Spacing.lg },
+          ]}
+        >
+          <RecipeVoiceControls
+            currentStep={voiceNav.currentStep}
+            totalSteps={voiceNav.totalSteps}
+            isSpeaking={voiceNav.isSpeaking}
+            isPaused={voiceNav.isPaused}
+            isListening={voiceNav.isListening}
+            isProcessing={voiceNav.isProcessing}
+            speechRate={voiceNav.speechRate}
+            handsFreeModeEnabled={voiceNav.handsFreeModeEnabled}
+            canPause={voiceNav.canPause}
+            onNextStep={voiceNav.nextStep}
+            onPreviousStep={voiceNav.previousStep}
+            onRepeatStep={voiceNav.repeatStep}
+            onTogglePause={voiceNav.togglePause}
+            onStop={voiceNav.stopReading}
+            onIncreaseSpeechRate={voiceNav.increaseSpeechRate}
+            onDecreaseSpeechRate={voiceNav.decreaseSpeechRate}
+            onToggleHandsFree={voiceNav.toggleHandsFreeMode}
+            onStartListening={voiceNav.startListening}
+            onStopListening={voiceNav.stopListening}
+            onReadRecipe={voiceNav.readRecipe}
+          />
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.md,
+  },
+  section: {
+    gap: Spacing.sm,
+  },
+  chips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.pill,
+    borderWidth: 1,
+    maxWidth: "100%",
+  },
+  serveRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: Spacing.sm,
+  },
+  stepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  summaryText: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  stepRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.md,
+    padding: Spacing.sm,
+    borderTopWidth: 1,
+    borderRadius: BorderRadius.sm,
+  },
+  stepTime: {
+    width: 64,
+  },
+  stepText: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  timerBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+  },
+  voiceControlsContainer: {
+    position: "absolute",
+    left: Spacing.lg,
+    right: Spacing.lg,
+  },
+});
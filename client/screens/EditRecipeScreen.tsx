@@ -0,0 +1,313 @@
+import React, { useState, useEffect } from "react";
+import { View, StyleSheet, TextInput, Alert } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+
+import { ThemedText } from "@/components/ThemedText";
+import { GlassCard } from "@/components/GlassCard";
+import { GlassButton } from "@/components/GlassButton";
+import { GlassHeader } from "@/components/GlassHeader";
+import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
+import { RecipeDetailSkeleton } from "@/components/LoadingState";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { storage, Recipe } from "@/lib/storage";
+import { logger } from "@/lib/logger";
+import { RecipesStackParamList } from "@/navigation/RecipesStackNavigator";
+import type { RecipesNavigation } from "@/lib/types";
+import {
+  formatIngredientLine,
+  parseIngredientLine,
+  toStructuredIngredient,
+  type ParsedIngredient,
+} from "@shared/ingredient-parser";
+
+type EditRecipeRouteProp = RouteProp<RecipesStackParamList, "EditRecipe">;
+
+function toNumber(text: string, fallback: number): number {
+  const value = parseInt(text, 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Edits a saved recipe in place. Saving goes through `storage.updateRecipe`,
+ * so the change syncs like any other and the server adds it to the recipe's
+ * version history.
+ */
+export default function EditRecipeScreen() {
+  const insets = useSafeAreaInsets();
+  const tabBarHeight = useBottomTabBarHeight();
+  const { theme } = useTheme();
+  const navigation = useNavigation<RecipesNavigation>();
+  const route = useRoute<EditRecipeRouteProp>();
+
+  const [recipe, setRecipe] = useState<Recipe | null>(null);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [servings, setServings] = useState("");
+  const [prepTime, setPrepTime] = useState("");
+  const [cookTime, setCookTime] = useState("");
+  const [ingredients, setIngredients] = useState("");
+  const [instructions, setInstructions] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    storage.getRecipes().then((recipes) => {
+      const found = recipes.find((r) => r.id === route.params.recipeId);
+      if (!found) return;
+      setRecipe(found);
+      setTitle(found.title);
+      setDescription(found.description ?? "");
+      setServings(String(found.servings || ""));
+      setPrepTime(String(found.prepTime || ""));
+      setCookTime(String(found.cookTime || ""));
+      setIngredients(
+        found.ingredients
+          .map((ing) => formatIngredientLine({ ...ing, unit: ing.unit ?? "" }))
+          .join("\n"),
+      );
+      setInstructions(found.instructions.join("\n"));
+      setNotes(found.notes ?? "");
+    });
+  }, [route.params.recipeId]);
+
+  const handleSave = async () => {
+    if (!recipe || saving) return;
+
+    const parsedIngredients = ingredients
+      .split("\n")
+      .map(parseIngredientLine)
+      .filter((parsed): parsed is ParsedIngredient => parsed !== null)
+      .map(toStructuredIngredient);
+    const steps = instructions
+      .split("\n")
+      .map((step) => step.trim())
+      .filter(Boolean);
+
+    if (!title.trim()) {
+      Alert.alert("Title Required", "Give the recipe a name.");
+      return;
+    }
+    if (parsedIngredients.length === 0 || steps.length === 0) {
+      Alert.alert(
+        "Recipe Incomplete",
+        "Add at least one ingredient and one step.",
+      );
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await storage.updateRecipe({
+        ...recipe,
+        title: title.trim(),
+        description: description.trim(),
+        servings: toNumber(servings, recipe.servings) || 1,
+        prepTime: toNumber(prepTime, recipe.prepTime),
+        cookTime: toNumber(cookTime, recipe.cookTime),
+        ingredients: parsedIngredients,
+        instructions: steps,
+        notes: notes.trim() || undefined,
+      });
+      navigation.goBack();
+    } catch (error) {
+      logger.error("Error saving recipe edits:", error);
+      Alert.alert("Couldn't Save", "Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputStyle = [
+    styles.input,
+    { backgroundColor: theme.backgroundSecondary, color: theme.text },
+  ];
+
+  const renderLabel = (label: string, hint?: string) => (
+    <View style={styles.labelRow}>
+      <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+        {label}
+      </ThemedText>
+      {hint ? (
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          {hint}
+        </ThemedText>
+      ) : null}
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <GlassHeader
+        title="Edit Recipe"
+        screenKey="editRecipe"
+        showSearch={false}
+        showBackButton={true}
+        menuItems={[]}
+      />
+      {!recipe ? (
+        <View style={{ paddingTop: 56 + insets.top + Spacing.lg }}>
+          <RecipeDetailSkeleton />
+        </View>
+      ) : (
+        <KeyboardAwareScrollViewCompat
+          contentContainerStyle={[
+            styles.content,
+            {
+              paddingTop: 56 + insets.top + Spacing.lg,
+              paddingBottom: tabBarHeight + Spacing.xl,
+            },
+          ]}
+          testID="screen-edit-recipe"
+        >
+          <GlassCard style={styles.section}>
+            <View style={styles.field}>
+              {renderLabel("Title")}
+              <TextInput
+                style={inputStyle}
+                value={title}
+                onChangeText={setTitle}
+                placeholder="Recipe name"
+                placeholderTextColor={theme.textSecondary}
+                testID="input-recipe-title"
+              />
+            </View>
+            <View style={styles.field}>
+              {renderLabel("Description")}
+              <TextInput
+                style={[inputStyle, styles.multiline]}
+                value={description}
+                onChangeText={setDescription}
+                multiline
+                placeholderTextColor={theme.textSecondary}
+              />
+            </View>
+            <View style={styles.row}>
+              <View style={[styles.field, styles.rowField]}>
+                {renderLabel("Servings")}
+                <TextInput
+                  style={inputStyle}
+                  value={servings}
+                  onChangeText={setServings}
+                  keyboardType="number-pad"
+                  placeholderTextColor={theme.textSecondary}
+                />
+              </View>
+              <View style={[styles.field, styles.rowField]}>
+                {renderLabel("Prep (min)")}
+                <TextInput
+                  style={inputStyle}
+                  value={prepTime}
+                  onChangeText={setPrepTime}
+                  keyboardType="number-pad"
+                  placeholderTextColor={theme.textSecondary}
+                />
+              </View>
+              <View style={[styles.field, styles.rowField]}>
+                {renderLabel("Cook (min)")}
+                <TextInput
+                  style={inputStyle}
+                  value={cookTime}
+                  onChangeText={setCookTime}
+                  keyboardType="number-pad"
+                  placeholderTextColor={theme.textSecondary}
+                />
+              </View>
+            </View>
+          </GlassCard>
+
+          <GlassCard style={styles.section}>
+            {renderLabel("Ingredients", "one per line")}
+            <TextInput
+              style={[inputStyle, styles.multiline, styles.tall]}
+              value={ingredients}
+              onChangeText={setIngredients}
+              multiline
+              placeholder="2 cups flour, sifted"
+              placeholderTextColor={theme.textSecondary}
+              testID="input-recipe-ingredients"
+            />
+          </GlassCard>
+
+          <GlassCard style={styles.section}>
+            {renderLabel("Steps", "one per line")}
+            <TextInput
+              style={[inputStyle, styles.multiline, styles.tall]}
+              value={instructions}
+              onChangeText={setInstructions}
+              multiline
+              placeholderTextColor={theme.textSecondary}
+              testID="input-recipe-steps"
+            />
+          </GlassCard>
+
+          <GlassCard style={styles.section}>
+            {renderLabel("My Notes")}
+            <TextInput
+              style={[inputStyle, styles.multiline]}
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+              placeholder="Swaps, timings, what to try next time"
+              placeholderTextColor={theme.textSecondary}
+              testID="input-recipe-notes"
+            />
+          </GlassCard>
+
+          <GlassButton
+            variant="primary"
+            onPress={handleSave}
+            loading={saving}
+            disabled={saving}
+            testID="button-save-recipe"
+          >
+            Save Changes
+          </GlassButton>
+        </KeyboardAwareScrollViewCompat>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.lg,
+  },
+  section: {
+    gap: Spacing.md,
+  },
+  field: {
+    gap: Spacing.xs,
+  },
+  labelRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  row: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  rowField: {
+    flex: 1,
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 16,
+    minHeight: 44,
+  },
+  multiline: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  tall: {
+    minHeight: 180,
+  },
+});
@@ -33,16 +33,21 @@ import {
   DEFAULT_STORAGE_LOCATIONS,
   hasSeenSwipeHint,
   markSwipeHintSeen,
+  formatDate,
 } from "@/lib/storage";
-import type { InventoryNavigation } from "@/lib/types";
+import { getNextLot, type InventoryLot } from "@shared/inventory-lots";
+import type { InventoryNavigation, ValueEstimateResult } from "@/lib/types";
+import { apiClient } from "@/lib/api-client";
 import { useSearch } from "@/contexts/SearchContext";
 import { useInventoryExport } from "@/hooks/useInventoryExport";
+import { usePriceEstimate } from "@/hooks/usePriceEstimate";
 import { logger } from "@/lib/logger";
 
 import { FoodGroup, getItemFoodGroup, calculateNutritionTotals } from "@/components/inventory/inventory-utils";
 import { InventoryFilters } from "@/components/inventory/InventoryFilters";
 import { InventoryFunFact } from "@/components/inventory/InventoryFunFact";
 import { InventoryNutritionSummary } from "@/components/inventory/InventoryNutritionSummary";
+import { InventoryValueSummary } from "@/components/inventory/InventoryValueSummary";
 import { InventoryGroupSection } from "@/components/inventory/InventoryGroupSection";
 import { useFunFact } from "@/components/inventory/useFunFact";
 import { TrialExpiringModal } from "@/components/subscription/TrialExpiringModal";
@@ -53,6 +58,22 @@ import AsyncStorage from "@react-native-async-storage/async-storage";
 
 export type { FoodGroup };
 
+function describeLot(lot: InventoryLot): string {
+  return lot.expirationDate ? `expiring ${formatDate(lot.expirationDate)}` : "bought first";
+}
+
+/** Values wasted food at its last receipt price; undefined when unknown or offline. */
+async function estimateWasteValue(name: string, quantity: number, unit: string): Promise<number | undefined> {
+  try {
+    const result = await apiClient.post<ValueEstimateResult>("/api/prices/estimate", {
+      items: [{ name, quantity, unit }],
+    });
+    return result.items[0]?.estimate?.value;
+  } catch {
+    return undefined;
+  }
+}
+
 interface StorageLocationOption {
   key: string;
   label: string;
@@ -196,6 +217,7 @@ export default function InventoryScreen() {
   }, [items, searchQuery, selectedFoodGroups]);
 
   const nutritionTotals = useMemo(() => calculateNutritionTotals(filteredItems), [filteredItems]);
+  const inventoryValue = usePriceEstimate(filteredItems);
   const { funFact, funFactLoading, funFactTimeRemaining, showFunFact, handleRefreshFunFact } = useFunFact(items, nutritionTotals);
 
   const groupedSections = useMemo(() => {
@@ -234,9 +256,14 @@ export default function InventoryScreen() {
 
   const handleMarkAsConsumed = useCallback(async (item: FoodItem) => {
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+    // Items with several lots give up their earliest-expiring lot per swipe.
+    const lot = getNextLot(item);
+    const hasLots = !!item.lots?.length;
     Alert.alert(
       "Mark as Consumed",
-      `Mark "${item.name}" as consumed? This will remove it from your inventory.`,
+      hasLots
+        ? `Mark the ${lot.quantity} ${item.unit} of "${item.name}" ${describeLot(lot)} as consumed? Your other batches stay in your inventory.`
+        : `Mark "${item.name}" as consumed? This will remove it from your inventory.`,
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -245,14 +272,14 @@ export default function InventoryScreen() {
             const entry: ConsumedLogEntry = {
               id: generateId(),
               itemName: item.name,
-              quantity: item.quantity,
+              quantity: lot.quantity,
               unit: item.unit,
               category: item.category,
               nutrition: item.nutrition,
               date: new Date().toISOString(),
             };
             await storage.addConsumedEntry(entry);
-            await storage.deleteInventoryItem(item.id);
+            await storage.consumeInventoryFifo(item.id, lot.quantity);
             await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
             loadItems();
           },
@@ -262,24 +289,28 @@ export default function InventoryScreen() {
   }, [loadItems]);
 
   const logWaste = useCallback(async (item: FoodItem, reason: string) => {
+    const lot = getNextLot(item);
     const entry: WasteLogEntry = {
       id: generateId(),
       itemName: item.name,
-      quantity: item.quantity,
+      quantity: lot.quantity,
       unit: item.unit,
       category: item.category,
       reason: reason as "expired" | "spoiled" | "not_wanted" | "other",
+      estimatedValue: await estimateWasteValue(item.name, lot.quantity, item.unit),
       date: new Date().toISOString(),
     };
     await storage.addWasteEntry(entry);
-    await storage.deleteInventoryItem(item.id);
+    await storage.consumeInventoryFifo(item.id, lot.quantity);
     await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     loadItems();
   }, [loadItems]);
 
   const handleMarkAsWasted = useCallback(async (item: FoodItem) => {
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
-    Alert.alert("Mark as Wasted", "What happened to this item?", [
+    Alert.alert("Mark as Wasted", item.lots?.length
+      ? `What happened to the batch ${describeLot(getNextLot(item))}?`
+      : "What happened to this item?", [
       { text: "Cancel", style: "cancel" },
       {
         text: "Expired",
@@ -354,6 +385,13 @@ export default function InventoryScreen() {
             <InventoryNutritionSummary nutritionTotals={nutritionTotals} />
           </View>
         )}
+        {inventoryValue.pricedCount > 0 && (
+          <InventoryValueSummary
+            total={inventoryValue.total}
+            pricedCount={inventoryValue.pricedCount}
+            itemCount={filteredItems.length}
+          />
+        )}
         {recentlyDeletedCount > 0 && (
           <Pressable
             onPress={() => {
@@ -393,7 +431,7 @@ export default function InventoryScreen() {
         )}
       </>
     );
-  }, [items.length, nutritionTotals, recentlyDeletedCount, navigation]);
+  }, [items.length, nutritionTotals, inventoryValue, filteredItems.length, recentlyDeletedCount, navigation]);
 
   const renderGroupedSection = useCallback(({
     item,
@@ -26,6 +26,7 @@ import { GlassButton } from "@/components/GlassButton";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius, AppColors } from "@/constants/theme";
 import { storage, FoodItem, formatDate } from "@/lib/storage";
+import { withLots } from "@shared/inventory-lots";
 import { apiClient } from "@/lib/api-client";
 import { InventoryStackParamList } from "@/navigation/InventoryStackNavigator";
 
@@ -88,6 +89,22 @@ export default function ItemDetailScreen() {
     }
   };
 
+  // Lot items keep their summary fields derived from the lots, so location
+  // changes move every lot and removing a lot recomputes the summary.
+  const handleSelectLocation = (location: StorageLocation) => {
+    if (!item) return;
+    setItem(
+      item.lots?.length
+        ? withLots(item, item.lots.map((lot) => ({ ...lot, storageLocation: location })))
+        : { ...item, storageLocation: location },
+    );
+  };
+
+  const handleRemoveLot = (lotId: string) => {
+    if (!item?.lots) return;
+    setItem(withLots(item, item.lots.filter((lot) => lot.id !== lotId)));
+  };
+
   const handleDelete = async () => {
     if (!item) return;
 
@@ -358,6 +375,7 @@ export default function ItemDetailScreen() {
                 onChangeText={(text) =>
                   setItem({ ...item, quantity: parseInt(text) || 0 })
                 }
+                editable={!item.lots?.length}
                 keyboardType="numeric"
                 placeholder="1"
                 placeholderTextColor={theme.textSecondary}
@@ -463,7 +481,7 @@ export default function ItemDetailScreen() {
                         : theme.backgroundSecondary,
                   },
                 ]}
-                onPress={() => setItem({ ...item, storageLocation: loc.key })}
+                onPress={() => handleSelectLocation(loc.key)}
                 accessibilityRole="button"
                 accessibilityLabel={`Select storage location ${loc.label}`}
               >
@@ -506,6 +524,7 @@ export default function ItemDetailScreen() {
                 },
               ]}
               onPress={() => openDatePicker("purchase")}
+              disabled={!!item.lots?.length}
               accessibilityRole="button"
               accessibilityLabel="Select purchase date"
             >
@@ -537,6 +556,7 @@ export default function ItemDetailScreen() {
                 },
               ]}
               onPress={() => openDatePicker("expiration")}
+              disabled={!!item.lots?.length}
             >
               <ThemedText type="small" style={styles.label}>
                 Expiration
@@ -555,6 +575,36 @@ export default function ItemDetailScreen() {
           </View>
         </GlassCard>
 
+        {item.lots?.length ? (
+          <GlassCard style={styles.section}>
+            <ThemedText type="h4" style={styles.sectionTitle}>
+              Batches
+            </ThemedText>
+            {item.lots.map((lot) => (
+              <View key={lot.id} style={styles.lotRow} testID={`row-lot-${lot.id}`}>
+                <View style={{ flex: 1 }}>
+                  <ThemedText type="body">
+                    {lot.quantity} {item.unit}
+                    {lot.storageLocation ? ` · ${lot.storageLocation}` : ""}
+                  </ThemedText>
+                  <ThemedText type="caption" style={styles.label}>
+                    {lot.purchaseDate ? `Bought ${formatDate(lot.purchaseDate)} · ` : ""}
+                    {lot.expirationDate ? `Expires ${formatDate(lot.expirationDate)}` : "No expiration date"}
+                  </ThemedText>
+                </View>
+                <Pressable
+                  onPress={() => handleRemoveLot(lot.id)}
+                  testID={`button-remove-lot-${lot.id}`}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Remove batch of ${lot.quantity} ${item.unit}`}
+                >
+                  <Feather name="x-circle" size={18} color={theme.textSecondary} />
+                </Pressable>
+              </View>
+            ))}
+          </GlassCard>
+        ) : null}
+
         <GlassCard style={styles.section}>
           <ThemedText type="h4" style={styles.sectionTitle}>
             Notes
@@ -697,6 +747,12 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     gap: Spacing.md,
   },
+  lotRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
   chipContainer: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -30,19 +30,39 @@ import { MealPlanWeekNav } from "@/components/meal-plan/MealPlanWeekNav";
 import { MealPlanDaySelector } from "@/components/meal-plan/MealPlanDaySelector";
 import { MealPlanSlotCard } from "@/components/meal-plan/MealPlanSlotCard";
 import { MealPlanActionSheet } from "@/components/meal-plan/MealPlanActionSheet";
+import { MealPlanNutritionForecast } from "@/components/meal-plan/MealPlanNutritionForecast";
+import { MealSlotTemplateSheet } from "@/components/meal-plan/MealSlotTemplateSheet";
+import { MealPlanLeftoversCard } from "@/components/meal-plan/MealPlanLeftoversCard";
 import { MealPlanSkeleton } from "@/components/LoadingState";
 import { useTheme } from "@/hooks/useTheme";
 import { useSubscription } from "@/hooks/useSubscription";
 import { useDeviceType } from "@/hooks/useDeviceType";
 import { Spacing, AppColors } from "@/constants/theme";
-import { storage, MealPlan, Recipe, UserPreferences } from "@/lib/storage";
+import {
+  storage,
+  FoodItem,
+  MealPlan,
+  Recipe,
+  UserPreferences,
+} from "@/lib/storage";
 import type { MealPlanNavigation, RootNavigation } from "@/lib/types";
 import { getPresetById, DEFAULT_PRESET_ID } from "@/constants/meal-plan";
+import {
+  entryRecipeId,
+  type MealEntry,
+  type MealSlot,
+  type MealSlotTemplate,
+  type PlanMeals,
+} from "@shared/meal-plan";
+import {
+  isLeftoverItem,
+  suggestLeftoverMeals,
+  type LeftoverSuggestion,
+} from "@shared/leftovers";
 
 interface DraggableSlotItem {
-  slotId: string;
-  slotName: string;
-  slotIcon: "sunrise" | "sun" | "moon" | "coffee" | "sunset";
+  slot: MealSlot;
+  entry: MealEntry | undefined;
   recipe: Recipe | undefined;
 }
 
@@ -54,7 +74,7 @@ export default function MealPlanScreen() {
   const { checkFeature } = useSubscription();
   const { isTablet, screenWidth, isLandscape } = useDeviceType();
 
-  const menuItems: MenuItemConfig[] = [];
+  const [showSlotTemplates, setShowSlotTemplates] = useState(false);
 
   const [currentWeekStart, setCurrentWeekStart] = useState(
     startOfWeek(new Date()),
@@ -63,33 +83,41 @@ export default function MealPlanScreen() {
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [selectedDay, setSelectedDay] = useState(new Date());
   const [preferences, setPreferences] = useState<UserPreferences | null>(null);
+  const [slotTemplates, setSlotTemplates] = useState<MealSlotTemplate[]>([]);
+  const [leftovers, setLeftovers] = useState<FoodItem[]>([]);
   const [actionSheet, setActionSheet] = useState<{
     visible: boolean;
-    recipe: Recipe | null;
+    title: string | null;
     slotId: string;
     date: Date;
-  }>({ visible: false, recipe: null, slotId: "", date: new Date() });
+  }>({ visible: false, title: null, slotId: "", date: new Date() });
   const [showUpgradePrompt, setShowUpgradePrompt] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [loading, setLoading] = useState(true);
 
   const canUseWeeklyPrepping = checkFeature("canUseWeeklyMealPrepping");
 
-  const currentPreset = getPresetById(
-    preferences?.mealPlanPresetId || DEFAULT_PRESET_ID,
+  const currentPresetId = preferences?.mealPlanPresetId || DEFAULT_PRESET_ID;
+  const mealSlots = useMemo(
+    () => getPresetById(currentPresetId, slotTemplates).slots,
+    [currentPresetId, slotTemplates],
   );
-  const mealSlots = currentPreset.slots;
 
   const loadData = useCallback(async () => {
     try {
-      const [plans, loadedRecipes, prefs] = await Promise.all([
-        storage.getMealPlans(),
-        storage.getRecipes(),
-        storage.getPreferences(),
-      ]);
+      const [plans, loadedRecipes, prefs, templates, inventory] =
+        await Promise.all([
+          storage.getMealPlans(),
+          storage.getRecipes(),
+          storage.getPreferences(),
+          storage.getMealSlotTemplates(),
+          storage.getInventory(),
+        ]);
       setMealPlans(plans);
       setRecipes(loadedRecipes);
       setPreferences(prefs);
+      setSlotTemplates(templates);
+      setLeftovers(inventory.filter(isLeftoverItem));
     } finally {
       setLoading(false);
     }
@@ -124,19 +152,94 @@ export default function MealPlanScreen() {
     setCurrentWeekStart(addDays(currentWeekStart, 7));
   };
 
+  const openMealPrep = () => {
+    if (!canUseWeeklyPrepping) {
+      setShowUpgradePrompt(true);
+      return;
+    }
+    navigation.navigate("MealPrep", {
+      weekStart: format(currentWeekStart, "yyyy-MM-dd"),
+    });
+  };
+
+  const menuItems: MenuItemConfig[] = [
+    {
+      label: "Meal Slots",
+      icon: "sliders",
+      onPress: () => setShowSlotTemplates(true),
+    },
+    {
+      label: "Meal Prep Timeline",
+      icon: "clock",
+      onPress: openMealPrep,
+    },
+  ];
+
   const getWeekDays = () => {
     return Array.from({ length: 7 }, (_, i) => addDays(currentWeekStart, i));
   };
 
-  const getMealForDay = (date: Date, slotId: string): Recipe | undefined => {
+  const getMealForDay = (
+    date: Date,
+    slotId: string,
+  ): { entry: MealEntry | undefined; recipe: Recipe | undefined } => {
     const dateStr = format(date, "yyyy-MM-dd");
-    const plan = mealPlans.find((p) => p.date === dateStr);
-    if (!plan) return undefined;
+    const entry = mealPlans.find((p) => p.date === dateStr)?.meals[slotId];
+    const recipeId = entryRecipeId(entry);
+    return {
+      entry,
+      recipe: recipeId ? recipes.find((r) => r.id === recipeId) : undefined,
+    };
+  };
 
-    const recipeId = plan.meals[slotId];
-    if (!recipeId) return undefined;
+  const leftoverSuggestions = useMemo(
+    () =>
+      suggestLeftoverMeals(
+        leftovers,
+        mealPlans,
+        mealSlots,
+        format(new Date(), "yyyy-MM-dd"),
+      ),
+    [leftovers, mealPlans, mealSlots],
+  );
 
-    return recipes.find((r) => r.id === recipeId);
+  const handlePlanLeftovers = async ({
+    item,
+    date,
+    slotId,
+  }: LeftoverSuggestion) => {
+    Haptics.selectionAsync();
+    const entry: MealEntry = {
+      type: "leftovers",
+      inventoryItemId: item.id,
+      ...(item.recipeId ? { recipeId: item.recipeId } : {}),
+      ...(item.purchaseDate ? { fromDate: item.purchaseDate.slice(0, 10) } : {}),
+    };
+    const existing = mealPlans.find((p) => p.date === date);
+    if (existing) {
+      const updatedPlan = {
+        ...existing,
+        meals: { ...existing.meals, [slotId]: entry },
+      };
+      setMealPlans(mealPlans.map((p) => (p.id === existing.id ? updatedPlan : p)));
+      await storage.updateMealPlan(updatedPlan);
+    } else {
+      const newPlan = { id: `plan-${date}`, date, meals: { [slotId]: entry } };
+      setMealPlans([...mealPlans, newPlan]);
+      await storage.addMealPlan(newPlan);
+    }
+  };
+
+  const handleSelectTemplate = async (templateId: string) => {
+    const prefs = preferences ?? (await storage.getPreferences());
+    const newPrefs = { ...prefs, mealPlanPresetId: templateId };
+    setPreferences(newPrefs);
+    await storage.setPreferences(newPrefs);
+  };
+
+  const handleSaveTemplates = async (templates: MealSlotTemplate[]) => {
+    setSlotTemplates(templates);
+    await storage.setMealSlotTemplates(templates);
   };
 
   const removeMealFromPlans = useCallback(async (dateStr: string, slotId: string) => {
@@ -148,12 +251,12 @@ export default function MealPlanScreen() {
       updatedPlan.meals = { ...updatedPlan.meals };
       delete updatedPlan.meals[slotId];
       updatedPlans[planIndex] = updatedPlan;
-      storage.setMealPlans(updatedPlans);
+      storage.updateMealPlan(updatedPlan);
       return updatedPlans;
     });
     setActionSheet({
       visible: false,
-      recipe: null,
+      title: null,
       slotId: "",
       date: new Date(),
     });
@@ -164,14 +267,14 @@ export default function MealPlanScreen() {
     await removeMealFromPlans(dateStr, slotId);
   }, [removeMealFromPlans]);
 
-  const handleMealPress = (date: Date, slotId: string, recipe: Recipe) => {
-    setActionSheet({ visible: true, recipe, slotId, date });
+  const handleMealPress = (date: Date, slotId: string, title: string) => {
+    setActionSheet({ visible: true, title, slotId, date });
   };
 
   const handleChangeRecipe = () => {
     setActionSheet({
       visible: false,
-      recipe: null,
+      title: null,
       slotId: "",
       date: new Date(),
     });
@@ -195,7 +298,7 @@ export default function MealPlanScreen() {
   const closeActionSheet = () => {
     setActionSheet({
       visible: false,
-      recipe: null,
+      title: null,
       slotId: "",
       date: new Date(),
     });
@@ -205,7 +308,7 @@ export default function MealPlanScreen() {
     Haptics.selectionAsync();
     navigation.navigate("SelectRecipe", {
       date,
-      mealType: slotId as "breakfast" | "lunch" | "dinner",
+      mealType: slotId,
     });
   };
 
@@ -223,48 +326,49 @@ export default function MealPlanScreen() {
 
     const draggedSlotIds = new Set(mealSlots.map((s) => s.id));
 
-    const newMeals: Record<string, string | undefined> = {};
-    Object.entries(existingMeals).forEach(([slotId, recipeId]) => {
-      if (!draggedSlotIds.has(slotId) && recipeId) {
-        newMeals[slotId] = recipeId;
+    const newMeals: PlanMeals = {};
+    Object.entries(existingMeals).forEach(([slotId, entry]) => {
+      if (!draggedSlotIds.has(slotId)) {
+        newMeals[slotId] = entry;
       }
     });
 
     reorderedItems.forEach((item, index) => {
       if (index < mealSlots.length) {
         const targetSlot = mealSlots[index];
-        if (item.recipe) {
-          newMeals[targetSlot.id] = item.recipe.id;
+        if (item.entry) {
+          newMeals[targetSlot.id] = item.entry;
         }
       }
     });
 
     if (planIndex === -1) {
       if (Object.keys(newMeals).length > 0) {
-        updatedPlans.push({
+        const newPlan = {
           id: `plan-${dateStr}`,
           date: dateStr,
           meals: newMeals,
-        });
+        };
+        updatedPlans.push(newPlan);
+        setMealPlans(updatedPlans);
+        await storage.addMealPlan(newPlan);
       }
     } else {
-      updatedPlans[planIndex] = {
+      const updatedPlan = {
         ...updatedPlans[planIndex],
         meals: newMeals,
       };
+      updatedPlans[planIndex] = updatedPlan;
+      setMealPlans(updatedPlans);
+      await storage.updateMealPlan(updatedPlan);
     }
-
-    await storage.setMealPlans(updatedPlans);
-    setMealPlans(updatedPlans);
   };
 
   const draggableSlotItems: DraggableSlotItem[] = useMemo(
     () =>
       mealSlots.map((slot) => ({
-        slotId: slot.id,
-        slotName: slot.name,
-        slotIcon: slot.icon,
-        recipe: getMealForDay(selectedDay, slot.id),
+        slot,
+        ...getMealForDay(selectedDay, slot.id),
       })),
     [mealSlots, selectedDay, mealPlans, recipes],
   );
@@ -297,9 +401,9 @@ export default function MealPlanScreen() {
                   },
                 ]}
                 accessibilityRole="button"
-                accessibilityLabel={`Drag to reorder ${item.slotName}`}
+                accessibilityLabel={`Drag to reorder ${item.slot.name}`}
                 accessibilityHint="Long press and drag to move this meal to a different slot"
-                testID={`drag-handle-${item.slotId}`}
+                testID={`drag-handle-${item.slot.id}`}
               >
                 <Feather
                   name="menu"
@@ -309,11 +413,8 @@ export default function MealPlanScreen() {
               </Pressable>
               <View style={styles.slotCardContent}>
                 <MealPlanSlotCard
-                  slot={{
-                    id: item.slotId,
-                    name: item.slotName,
-                    icon: item.slotIcon,
-                  }}
+                  slot={item.slot}
+                  entry={item.entry}
                   recipe={item.recipe}
                   selectedDay={selectedDay}
                   onMealPress={handleMealPress}
@@ -416,7 +517,7 @@ export default function MealPlanScreen() {
                           <MealPlanSlotCard
                             key={slot.id}
                             slot={slot}
-                            recipe={getMealForDay(day, slot.id)}
+                            {...getMealForDay(day, slot.id)}
                             selectedDay={day}
                             onMealPress={handleMealPress}
                             onAddMeal={handleAddMeal}
@@ -470,7 +571,7 @@ export default function MealPlanScreen() {
                   <ThemedText type="h3" style={styles.selectedDayTitle}>
                     {format(selectedDay, "EEEE, MMMM d")}
                   </ThemedText>
-                  {draggableSlotItems.some((s) => s.recipe) && (
+                  {draggableSlotItems.some((s) => s.entry) && (
                     <View style={styles.dragHintRow}>
                       <Feather name="move" size={12} color={theme.textSecondary} />
                       <ThemedText
@@ -486,7 +587,7 @@ export default function MealPlanScreen() {
                 <GestureHandlerRootView>
                   <DraggableFlatList
                     data={draggableSlotItems}
-                    keyExtractor={(item) => item.slotId}
+                    keyExtractor={(item) => item.slot.id}
                     renderItem={renderDraggableSlot}
                     onDragBegin={() => {
                       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -503,6 +604,21 @@ export default function MealPlanScreen() {
           </>
         )}
 
+        <MealPlanLeftoversCard
+          suggestions={leftoverSuggestions}
+          slots={mealSlots}
+          onPlan={handlePlanLeftovers}
+        />
+
+        <MealPlanNutritionForecast
+          weekDays={getWeekDays()}
+          selectedDay={selectedDay}
+          mealPlans={mealPlans}
+          recipes={recipes}
+          preferences={preferences}
+          onSelectDay={setSelectedDay}
+        />
+
         <GlassCard style={styles.statsCard}>
           <View style={styles.statsHeader}>
             <ThemedText type="h4">This Week</ThemedText>
@@ -530,14 +646,14 @@ export default function MealPlanScreen() {
               accessibilityRole="text"
               accessibilityLabel={`${mealPlans.reduce(
                 (total, plan) =>
-                  total + Object.values(plan.meals).filter(Boolean).length,
+                  total + Object.keys(plan.meals).length,
                 0,
               )} meals planned`}
             >
               <ThemedText type="h2" style={{ color: AppColors.primary }}>
                 {mealPlans.reduce(
                   (total, plan) =>
-                    total + Object.values(plan.meals).filter(Boolean).length,
+                    total + Object.keys(plan.meals).length,
                   0,
                 )}
               </ThemedText>
@@ -571,12 +687,21 @@ export default function MealPlanScreen() {
 
       <MealPlanActionSheet
         visible={actionSheet.visible}
-        recipe={actionSheet.recipe}
+        title={actionSheet.title}
         onChangeRecipe={handleChangeRecipe}
         onRemoveMeal={() => handleRemoveMeal(actionSheet.date, actionSheet.slotId)}
         onClose={closeActionSheet}
       />
 
+      <MealSlotTemplateSheet
+        visible={showSlotTemplates}
+        templates={slotTemplates}
+        selectedId={currentPresetId}
+        onSelect={handleSelectTemplate}
+        onSaveTemplates={handleSaveTemplates}
+        onClose={() => setShowSlotTemplates(false)}
+      />
+
       {showUpgradePrompt && (
         <UpgradePrompt
           type="feature"
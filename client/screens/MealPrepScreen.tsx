@@ -0,0 +1,354 @@
+import React, { useState, useCallback, useEffect } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRoute, RouteProp } from "@react-navigation/native";
+import { Feather } from "@expo/vector-icons";
+import { format, parseISO } from "date-fns";
+
+import { ThemedText } from "@/components/ThemedText";
+import { GlassCard } from "@/components/GlassCard";
+import { GlassHeader } from "@/components/GlassHeader";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius, AppColors } from "@/constants/theme";
+import { apiClient } from "@/lib/api-client";
+import { syncManager } from "@/lib/sync-manager";
+import { logger } from "@/lib/logger";
+import { MealPlanStackParamList } from "@/navigation/MealPlanStackNavigator";
+import type {
+  MealPrepPlan,
+  PrepEquipment,
+  PrepTimelineTask,
+} from "@/lib/types";
+
+type MealPrepRouteProp = RouteProp<MealPlanStackParamList, "MealPrep">;
+
+const TASK_ICONS: Record<
+  PrepTimelineTask["kind"],
+  keyof typeof Feather.glyphMap
+> = {
+  prep: "scissors",
+  assemble: "layers",
+  cook: "thermometer",
+  pack: "package",
+};
+
+const EQUIPMENT_LABELS: Record<PrepEquipment, string> = {
+  oven: "Oven",
+  stovetop: "Stovetop",
+  slow_cooker: "Slow cooker",
+  pressure_cooker: "Pressure cooker",
+  air_fryer: "Air fryer",
+  none: "No cook",
+};
+
+function formatOffset(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours}:${mins.toString().padStart(2, "0")}`;
+}
+
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins} min`;
+  return mins === 0 ? `${hours} hr` : `${hours} hr ${mins} min`;
+}
+
+export default function MealPrepScreen() {
+  const insets = useSafeAreaInsets();
+  const { theme, style: themeStyle } = useTheme();
+  const route = useRoute<MealPrepRouteProp>();
+  const { weekStart } = route.params;
+
+  const [plan, setPlan] = useState<MealPrepPlan | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPlan = useCallback(
+    async (recipeIds: string[] | null, syncFirst: boolean) => {
+      setLoading(true);
+      setError(null);
+      try {
+        // Push local meal plan edits so the server plans from them.
+        if (syncFirst) await syncManager.fullSync();
+        const result = await apiClient.post<MealPrepPlan>(
+          "/api/meal-prep/plan",
+          {
+            weekStart,
+            ...(recipeIds ? { recipeIds } : {}),
+          },
+        );
+        setPlan(result);
+      } catch (err) {
+        logger.error("Error planning meal prep:", err);
+        setError(err instanceof Error ? err.message : "Please try again.");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [weekStart],
+  );
+
+  useEffect(() => {
+    loadPlan(null, true);
+  }, [loadPlan]);
+
+  const toggleRecipe = (recipeId: string) => {
+    if (!plan) return;
+    const current =
+      selectedIds ??
+      plan.recipes.filter((r) => r.selected).map((r) => r.recipeId);
+    const next = current.includes(recipeId)
+      ? current.filter((id) => id !== recipeId)
+      : [...current, recipeId];
+    setSelectedIds(next);
+    loadPlan(next, false);
+  };
+
+  const renderTask = (task: PrepTimelineTask) => (
+    <View
+      key={task.id}
+      style={[styles.taskRow, { borderColor: themeStyle.glass.border }]}
+      accessibilityLabel={`${formatOffset(task.startMinute)} to ${formatOffset(task.endMinute)}: ${task.label}`}
+    >
+      <View style={styles.taskTime}>
+        <ThemedText type="small">{formatOffset(task.startMinute)}</ThemedText>
+        <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+          {formatOffset(task.endMinute)}
+        </ThemedText>
+      </View>
+      <Feather
+        name={TASK_ICONS[task.kind]}
+        size={18}
+        color={task.kind === "cook" ? AppColors.primary : theme.textSecondary}
+      />
+      <View style={styles.taskText}>
+        <ThemedText type="body">{task.label}</ThemedText>
+        {task.kind === "cook" ? (
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            Hands-off · {formatDuration(task.endMinute - task.startMinute)}
+          </ThemedText>
+        ) : null}
+      </View>
+      {task.equipment ? (
+        <View style={[styles.badge, { borderColor: AppColors.primary }]}>
+          <ThemedText type="caption" style={{ color: AppColors.primary }}>
+            {EQUIPMENT_LABELS[task.equipment]}
+          </ThemedText>
+        </View>
+      ) : null}
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <GlassHeader
+        title="Meal Prep"
+        screenKey="mealPrep"
+        showSearch={false}
+        showBackButton={true}
+      />
+      <ScrollView
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: 56 + insets.top + Spacing.lg,
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+        testID="screen-meal-prep"
+      >
+        {plan && plan.recipes.length > 0 ? (
+          <View style={styles.recipeChips}>
+            {plan.recipes.map((recipe) => {
+              const selected = selectedIds
+                ? selectedIds.includes(recipe.recipeId)
+                : recipe.selected;
+              return (
+                <Pressable
+                  key={recipe.recipeId}
+                  style={[
+                    styles.recipeChip,
+                    {
+                      borderColor: selected
+                        ? AppColors.primary
+                        : themeStyle.glass.border,
+                    },
+                  ]}
+                  onPress={() => toggleRecipe(recipe.recipeId)}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: selected }}
+                  accessibilityLabel={`Prep ${recipe.title}`}
+                >
+                  <Feather
+                    name={selected ? "check-circle" : "circle"}
+                    size={16}
+                    color={selected ? AppColors.primary : theme.textSecondary}
+                  />
+                  <ThemedText type="small" numberOfLines={1}>
+                    {recipe.title} ×{recipe.plannedMeals}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+        ) : null}
+
+        {loading ? (
+          <ActivityIndicator color={AppColors.primary} style={styles.loading} />
+        ) : error ? (
+          <GlassCard>
+            <ThemedText type="body">
+              Couldn&apos;t plan your prep session.
+            </ThemedText>
+            <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+              {error}
+            </ThemedText>
+          </GlassCard>
+        ) : !plan || plan.timeline.length === 0 ? (
+          <GlassCard>
+            <ThemedText type="h4">Nothing to Prep</ThemedText>
+            <ThemedText type="body" style={{ color: theme.textSecondary }}>
+              {plan && plan.recipes.length > 0
+                ? "Select at least one recipe to build a prep timeline."
+                : "Add recipes to this week's meal plan to build a prep timeline."}
+            </ThemedText>
+          </GlassCard>
+        ) : (
+          <>
+            <GlassCard style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Feather name="clock" size={18} color={AppColors.primary} />
+                <ThemedText type="h4">
+                  {format(parseISO(plan.prepDate), "EEEE")} ·{" "}
+                  {formatDuration(plan.totalMinutes)}
+                </ThemedText>
+              </View>
+              {plan.warnings.map((warning) => (
+                <View key={warning} style={styles.warningRow}>
+                  <Feather
+                    name="alert-triangle"
+                    size={14}
+                    color={AppColors.warning}
+                  />
+                  <ThemedText
+                    type="caption"
+                    style={[styles.warningText, { color: theme.textSecondary }]}
+                  >
+                    {warning}
+                  </ThemedText>
+                </View>
+              ))}
+              {plan.timeline.map(renderTask)}
+            </GlassCard>
+
+            <GlassCard style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Feather name="package" size={18} color={AppColors.primary} />
+                <ThemedText type="h4">Containers</ThemedText>
+              </View>
+              {plan.containers.map((container) => (
+                <View
+                  key={`${container.recipeId}:${container.date}:${container.slotId}`}
+                  style={[
+                    styles.taskRow,
+                    { borderColor: themeStyle.glass.border },
+                  ]}
+                >
+                  <Feather
+                    name={
+                      container.storage === "freezer" ? "cloud-snow" : "archive"
+                    }
+                    size={18}
+                    color={theme.textSecondary}
+                  />
+                  <View style={styles.taskText}>
+                    <ThemedText type="body">{container.label}</ThemedText>
+                    <ThemedText
+                      type="caption"
+                      style={{ color: theme.textSecondary }}
+                    >
+                      {container.instructions}
+                    </ThemedText>
+                  </View>
+                </View>
+              ))}
+            </GlassCard>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.md,
+  },
+  loading: {
+    marginTop: Spacing.xl,
+  },
+  recipeChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  recipeChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.pill,
+    borderWidth: 1,
+    maxWidth: "100%",
+  },
+  section: {
+    gap: Spacing.sm,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  warningRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.xs,
+  },
+  warningText: {
+    flex: 1,
+  },
+  taskRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingTop: Spacing.sm,
+    borderTopWidth: 1,
+  },
+  taskTime: {
+    width: 44,
+    alignItems: "flex-end",
+  },
+  taskText: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  badge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.pill,
+    borderWidth: 1,
+  },
+});
@@ -22,6 +22,9 @@ import { MenuItemConfig } from "@/components/HeaderMenu";
 import { ThemedText } from "@/components/ThemedText";
 import { GlassCard } from "@/components/GlassCard";
 import { WasteReductionStats } from "@/components/WasteReductionStats";
+import { SignInMethodsCard } from "@/components/SignInMethodsCard";
+import { PasskeysCard } from "@/components/PasskeysCard";
+import { TwoFactorCard } from "@/components/TwoFactorCard";
 import { useTheme } from "@/hooks/useTheme";
 import type { ThemePreference } from "@/contexts/ThemeContext";
 import { useAuth } from "@/contexts/AuthContext";
@@ -744,6 +747,12 @@ export default function ProfileScreen() {
               </View>
             </GlassCard>
 
+            <SignInMethodsCard />
+
+            <PasskeysCard />
+
+            <TwoFactorCard />
+
             <GlassCard style={styles.subscriptionCard}>
               <View style={styles.subscriptionHeader}>
                 <View
@@ -26,9 +26,11 @@ import { TermTooltip } from "@/components/recipe-detail/TermTooltip";
 import { IngredientSwapModal } from "@/components/recipe-detail/IngredientSwapModal";
 import { RecipeDetailSkeleton } from "@/components/LoadingState";
 import { GlassHeader, MenuItemConfig } from "@/components/GlassHeader";
+import { GlassButton } from "@/components/GlassButton";
+import { GlassCard } from "@/components/GlassCard";
 import { useTheme } from "@/hooks/useTheme";
 import { useRecipeVoiceNavigation } from "@/hooks/useRecipeVoiceNavigation";
-import { Spacing } from "@/constants/theme";
+import { Spacing, AppColors } from "@/constants/theme";
 import {
   storage,
   Recipe,
@@ -45,9 +47,23 @@ import { useInstacart } from "@/hooks/useInstacart";
 import { getRecipeDeepLink } from "@/lib/deep-linking";
 
 import { apiClient } from "@/lib/api-client";
+import { syncManager } from "@/lib/sync-manager";
 import { RecipesStackParamList } from "@/navigation/RecipesStackNavigator";
-import type { ApplianceItem, ImageGenerationResponse, RecipesNavigation } from "@/lib/types";
+import type {
+  ApplianceItem,
+  CookLogEntry,
+  ImageGenerationResponse,
+  RecipeCookPreview,
+  RecipeCookLog as CookLog,
+  RecipeCookResult,
+  RecipeCookUndoResult,
+  RecipeScaleResult,
+  RecipesNavigation,
+  UnitSystem,
+} from "@/lib/types";
 import { logger } from "@/lib/logger";
+import { useCookingTimers } from "@/contexts/CookingTimersContext";
+import type { DurationMatch } from "@shared/instruction-timing";
 
 import { RecipeHero } from "@/components/recipe-detail/RecipeHero";
 import { RecipeHeader } from "@/components/recipe-detail/RecipeHeader";
@@ -55,6 +71,16 @@ import { RecipeCookwareSection } from "@/components/recipe-detail/RecipeCookware
 import { RecipeNutritionCard } from "@/components/recipe-detail/RecipeNutritionCard";
 import { RecipeIngredientsList } from "@/components/recipe-detail/RecipeIngredientsList";
 import { RecipeInstructions } from "@/components/recipe-detail/RecipeInstructions";
+import { RecipeTimers } from "@/components/recipe-detail/RecipeTimers";
+import { RecipeCookLog } from "@/components/recipe-detail/RecipeCookLog";
+import {
+  CookLogModal,
+  type CookLogDraft,
+} from "@/components/recipe-detail/CookLogModal";
+import {
+  CookRecipeModal,
+  type LeftoversChoice,
+} from "@/components/recipe-detail/CookRecipeModal";
 
 export default function RecipeDetailScreen() {
   const insets = useSafeAreaInsets();
@@ -72,10 +98,24 @@ export default function RecipeDetailScreen() {
   const [selectedTerm, setSelectedTerm] = useState<CookingTerm | null>(null);
   const [tooltipVisible, setTooltipVisible] = useState(false);
   const [selectedServings, setSelectedServings] = useState<number>(1);
+  /** Null follows the account's preferred units. */
+  const [unitSystem, setUnitSystem] = useState<UnitSystem | null>(null);
+  const [scaling, setScaling] = useState<RecipeScaleResult | null>(null);
   const [swapModalVisible, setSwapModalVisible] = useState(false);
   const [selectedIngredient, setSelectedIngredient] =
     useState<RecipeIngredient | null>(null);
   const [exporting, setExporting] = useState(false);
+  const [cookModalVisible, setCookModalVisible] = useState(false);
+  const [cookPreview, setCookPreview] = useState<RecipeCookPreview | null>(
+    null,
+  );
+  const [cookCommitting, setCookCommitting] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+  const [cookLog, setCookLog] = useState<CookLog | null>(null);
+  const [cookLogModalVisible, setCookLogModalVisible] = useState(false);
+  const [editingCookLogEntry, setEditingCookLogEntry] =
+    useState<CookLogEntry | null>(null);
+  const [cookLogSaving, setCookLogSaving] = useState(false);
 
   const {
     isConfigured: instacartConfigured,
@@ -97,6 +137,7 @@ export default function RecipeDetailScreen() {
       const numQuantity =
         typeof quantity === "string" ? parseFloat(quantity) : quantity;
       if (isNaN(numQuantity)) return String(quantity);
+      if (numQuantity === 0) return "";
       const scaled = (numQuantity * targetServings) / baseServings;
       if (scaled === Math.floor(scaled)) return String(scaled);
       if (scaled < 1) {
@@ -116,6 +157,17 @@ export default function RecipeDetailScreen() {
     [],
   );
 
+  const loadCookLog = useCallback(async (recipeId: string) => {
+    try {
+      const log = await apiClient.get<CookLog>(
+        `/api/recipes/${encodeURIComponent(recipeId)}/cook-log`,
+      );
+      setCookLog(log);
+    } catch (error) {
+      logger.error("Error loading cook log:", error);
+    }
+  }, []);
+
   const loadData = useCallback(async () => {
     const [recipes, items, prefs, cookwareIds] = await Promise.all([
       storage.getRecipes(),
@@ -123,10 +175,14 @@ export default function RecipeDetailScreen() {
       storage.getPreferences(),
       storage.getCookware(),
     ]);
-    const initialRecipe = route.params.initialRecipe;
-    const found =
-      initialRecipe || recipes.find((r) => r.id === route.params.recipeId);
+    // The stored copy wins so edits show when returning from EditRecipe.
+    const saved = recipes.find((r) => r.id === route.params.recipeId);
+    const found = saved || route.params.initialRecipe;
     setRecipe(found || null);
+    setIsSaved(!!saved);
+    if (saved) {
+      loadCookLog(saved.id);
+    }
     if (found) {
       setSelectedServings(found.servings || 1);
     }
@@ -146,13 +202,25 @@ export default function RecipeDetailScreen() {
     }
 
     setLoading(false);
-  }, [route.params.recipeId, route.params.initialRecipe]);
+  }, [route.params.recipeId, route.params.initialRecipe, loadCookLog]);
 
   const handleTermPress = useCallback((term: CookingTerm) => {
     setSelectedTerm(term);
     setTooltipVisible(true);
   }, []);
 
+  const { startTimer } = useCookingTimers();
+  const handleStartTimer = useCallback(
+    (stepIndex: number, duration: DurationMatch) => {
+      if (!recipe) return;
+      startTimer({
+        label: `${recipe.title} · Step ${stepIndex + 1}`,
+        seconds: Math.round(duration.maxMinutes * 60),
+      });
+    },
+    [recipe, startTimer],
+  );
+
   const handleCloseTooltip = useCallback(() => {
     setTooltipVisible(false);
     setSelectedTerm(null);
@@ -197,6 +265,46 @@ export default function RecipeDetailScreen() {
     }, [loadData]),
   );
 
+  useEffect(() => {
+    if (!recipe || recipe.ingredients.length === 0) {
+      setScaling(null);
+      return;
+    }
+
+    let isCancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await apiClient.post<RecipeScaleResult>(
+          "/api/recipes/scale",
+          {
+            ingredients: recipe.ingredients.map((ing) => ({
+              name: ing.name,
+              quantity: Number(ing.quantity) || 0,
+              unit: ing.unit || "",
+            })),
+            fromServings: recipe.servings || 1,
+            toServings: selectedServings,
+            units: unitSystem ?? undefined,
+            instructions: recipe.instructions,
+          },
+        );
+        if (!isCancelled) setScaling(result);
+      } catch (error) {
+        logger.warn("Recipe scaling unavailable, using linear amounts:", error);
+        if (!isCancelled) setScaling(null);
+      }
+    }, 300);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [recipe, selectedServings, unitSystem]);
+
+  const handleToggleUnits = useCallback(() => {
+    setUnitSystem(scaling?.units === "metric" ? "imperial" : "metric");
+  }, [scaling?.units]);
+
   useEffect(() => {
     if (!recipe || recipe.imageUri || !recipe.isAIGenerated) {
       return;
@@ -304,6 +412,25 @@ export default function RecipeDetailScreen() {
     loadData();
   };
 
+  const handleMakeCopy = async () => {
+    if (!recipe) return;
+    const copy: Recipe = {
+      ...recipe,
+      id: generateId(),
+      title: `${recipe.title} (My Version)`,
+      isFavorite: false,
+      createdAt: new Date().toISOString(),
+      forkedFrom: recipe.id,
+    };
+    try {
+      await storage.addRecipe(copy);
+      navigation.push("RecipeDetail", { recipeId: copy.id });
+    } catch (error) {
+      logger.error("Error copying recipe:", error);
+      Alert.alert("Couldn't Copy", "Please try again.");
+    }
+  };
+
   const isIngredientAvailable = useCallback((ingredientName: string): boolean => {
     const inventoryNames = inventory.map((i) => i.name.toLowerCase());
     return inventoryNames.some(
@@ -392,10 +519,12 @@ export default function RecipeDetailScreen() {
 
     const baseServings = recipe.servings || 1;
     const ingredientsList = recipe.ingredients
-      .map(
-        (ing) =>
-          `- ${scaleQuantity(ing.quantity, baseServings, selectedServings)} ${ing.unit} ${ing.name}`,
-      )
+      .map((ing, index) => {
+        const scaled = scaling?.ingredients[index];
+        return scaled
+          ? `- ${scaled.display} ${scaled.unit} ${ing.name}`
+          : `- ${scaleQuantity(ing.quantity, baseServings, selectedServings)} ${ing.unit} ${ing.name}`;
+      })
       .join("\n");
 
     const instructionsList = recipe.instructions
@@ -436,6 +565,172 @@ export default function RecipeDetailScreen() {
     }
   };
 
+  const handleCookedIt = async () => {
+    if (!recipe) return;
+    setCookPreview(null);
+    setCookModalVisible(true);
+    try {
+      // Push local inventory edits first so the preview matches what's on screen.
+      await syncManager.fullSync();
+      const preview = await apiClient.post<RecipeCookPreview>(
+        `/api/recipes/${recipe.id}/cook/preview`,
+        { servings: selectedServings },
+      );
+      setCookPreview(preview);
+    } catch (error) {
+      logger.error("Error previewing cooked recipe:", error);
+      setCookModalVisible(false);
+      Alert.alert(
+        "Couldn't Check Inventory",
+        error instanceof Error ? error.message : "Please try again.",
+      );
+    }
+  };
+
+  const handleCloseCookModal = useCallback(() => {
+    if (cookCommitting) return;
+    setCookModalVisible(false);
+    setCookPreview(null);
+  }, [cookCommitting]);
+
+  const handleUndoCooked = async (cookId: string) => {
+    try {
+      const result = await apiClient.post<RecipeCookUndoResult>(
+        `/api/recipes/cook/${cookId}/undo`,
+      );
+      await syncManager.fullSync();
+      await loadData();
+      Alert.alert(
+        "Undone",
+        `${result.restoredItems} item${result.restoredItems === 1 ? " was" : "s were"} put back in your inventory.`,
+      );
+    } catch (error) {
+      logger.error("Error undoing cooked recipe:", error);
+      Alert.alert(
+        "Undo Failed",
+        error instanceof Error ? error.message : "Please try again.",
+      );
+    }
+  };
+
+  const handleConfirmCooked = async (leftovers: LeftoversChoice | null) => {
+    if (!recipe || !cookPreview) return;
+    setCookCommitting(true);
+    try {
+      const result = await apiClient.post<RecipeCookResult>(
+        `/api/recipes/${recipe.id}/cook`,
+        {
+          servings: cookPreview.servings,
+          ...(leftovers ? { leftovers } : {}),
+        },
+      );
+      setCookModalVisible(false);
+      setCookPreview(null);
+      await syncManager.fullSync();
+      await loadData();
+      Alert.alert(
+        "Marked as Cooked",
+        `${result.consumedEntryIds.length} ingredient${result.consumedEntryIds.length === 1 ? " was" : "s were"} deducted from your inventory.` +
+          (result.leftovers
+            ? ` ${result.leftovers.servings} serving${result.leftovers.servings === 1 ? "" : "s"} of leftovers went in the ${result.leftovers.storageLocation}.`
+            : ""),
+        [
+          { text: "Undo", onPress: () => handleUndoCooked(result.cookId) },
+          {
+            text: "Rate It",
+            onPress: () =>
+              openCookLogModal({
+                id: result.cookLogId,
+                recipeId: recipe.id,
+                cookEventId: result.cookId,
+                cookedAt: new Date().toISOString(),
+                rating: null,
+                eaters: [],
+                notes: null,
+                photoUri: null,
+              }),
+          },
+          { text: "OK", style: "cancel" },
+        ],
+      );
+    } catch (error) {
+      logger.error("Error marking recipe cooked:", error);
+      Alert.alert(
+        "Couldn't Update Inventory",
+        error instanceof Error ? error.message : "Please try again.",
+      );
+    } finally {
+      setCookCommitting(false);
+    }
+  };
+
+  const openCookLogModal = (entry: CookLogEntry | null) => {
+    setEditingCookLogEntry(entry);
+    setCookLogModalVisible(true);
+  };
+
+  const handleCloseCookLogModal = useCallback(() => {
+    if (cookLogSaving) return;
+    setCookLogModalVisible(false);
+    setEditingCookLogEntry(null);
+  }, [cookLogSaving]);
+
+  const handleSaveCookLog = async (draft: CookLogDraft) => {
+    if (!recipe) return;
+    setCookLogSaving(true);
+    try {
+      const basePath = `/api/recipes/${encodeURIComponent(recipe.id)}/cook-log`;
+      if (editingCookLogEntry) {
+        await apiClient.patch<CookLogEntry>(
+          `${basePath}/${editingCookLogEntry.id}`,
+          draft,
+        );
+      } else {
+        await apiClient.post<CookLogEntry>(basePath, draft);
+      }
+      setCookLogModalVisible(false);
+      setEditingCookLogEntry(null);
+      await loadCookLog(recipe.id);
+    } catch (error) {
+      logger.error("Error saving cook log:", error);
+      Alert.alert(
+        "Couldn't Save",
+        error instanceof Error ? error.message : "Please try again.",
+      );
+    } finally {
+      setCookLogSaving(false);
+    }
+  };
+
+  const handleDeleteCookLog = () => {
+    if (!recipe || !editingCookLogEntry) return;
+    const entry = editingCookLogEntry;
+    Alert.alert("Delete Entry?", "This cook will be removed from the log.", [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await apiClient.delete(
+              `/api/recipes/${encodeURIComponent(recipe.id)}/cook-log/${entry.id}`,
+            );
+            setCookLogModalVisible(false);
+            setEditingCookLogEntry(null);
+            await loadCookLog(recipe.id);
+          } catch (error) {
+            logger.error("Error deleting cook log entry:", error);
+            Alert.alert("Couldn't Delete", "Please try again.");
+          }
+        },
+      },
+    ]);
+  };
+
+  const knownEaters = Array.from(
+    new Set(cookLog?.entries.flatMap((entry) => entry.eaters) ?? []),
+  );
+
   const loadingHeaderPadding = 56 + insets.top + Spacing.lg;
 
   if (loading) {
@@ -516,6 +811,36 @@ export default function RecipeDetailScreen() {
       onPress: handleToggleFavorite,
       active: recipe.isFavorite,
     },
+    {
+      label: "Edit Recipe",
+      icon: "edit-2",
+      onPress: () => navigation.navigate("EditRecipe", { recipeId: recipe.id }),
+      disabled: !isSaved,
+    },
+    {
+      label: "Version History",
+      icon: "git-commit",
+      onPress: () =>
+        navigation.navigate("RecipeHistory", { recipeId: recipe.id }),
+      disabled: !isSaved,
+    },
+    {
+      label: "Make a Copy",
+      icon: "copy",
+      onPress: handleMakeCopy,
+      disabled: !isSaved,
+    },
+    {
+      label: "Cooked It",
+      icon: "check-square",
+      onPress: handleCookedIt,
+    },
+    {
+      label: "Cook With Sides",
+      icon: "clock",
+      onPress: () =>
+        navigation.navigate("CookingTimeline", { recipeIds: [recipe.id] }),
+    },
     {
       label: "Share",
       icon: "share-2",
@@ -598,6 +923,8 @@ export default function RecipeDetailScreen() {
           selectedServings={selectedServings}
           onServingsChange={setSelectedServings}
           scaleQuantity={scaleQuantity}
+          scaling={scaling}
+          onToggleUnits={handleToggleUnits}
           onSwapPress={handleSwapPress}
           onAddMissingToShoppingList={handleAddMissingToShoppingList}
           availableCount={availableCount}
@@ -608,18 +935,51 @@ export default function RecipeDetailScreen() {
           theme={theme}
         />
 
+        {recipe.notes ? (
+          <GlassCard style={styles.notesCard}>
+            <ThemedText type="h4">My Notes</ThemedText>
+            <ThemedText type="body" style={{ color: theme.textSecondary }}>
+              {recipe.notes}
+            </ThemedText>
+          </GlassCard>
+        ) : null}
+
+        <RecipeTimers theme={theme} />
+
         <RecipeInstructions
           recipe={recipe}
           showVoiceControls={showVoiceControls}
           voiceNav={voiceNav}
           termHighlightingEnabled={termHighlightingEnabled}
           onTermPress={handleTermPress}
+          onStartTimer={handleStartTimer}
           stepPositions={stepPositions}
           onInstructionSectionLayout={(y) => {
             instructionSectionY.current = y;
           }}
           theme={theme}
         />
+
+        {isSaved ? (
+          <RecipeCookLog
+            log={cookLog}
+            onLogCook={() => openCookLogModal(null)}
+            onEditEntry={openCookLogModal}
+            theme={theme}
+          />
+        ) : null}
+
+        <GlassButton
+          variant="outline"
+          onPress={handleCookedIt}
+          icon={
+            <Feather name="check-square" size={18} color={AppColors.primary} />
+          }
+          testID="button-cooked-it"
+          accessibilityLabel="I cooked this, deduct ingredients from inventory"
+        >
+          I Cooked This
+        </GlassButton>
       </ScrollView>
 
       {showVoiceControls ? (
@@ -660,6 +1020,24 @@ export default function RecipeDetailScreen() {
         onClose={handleCloseTooltip}
       />
 
+      <CookRecipeModal
+        visible={cookModalVisible}
+        preview={cookPreview}
+        committing={cookCommitting}
+        onConfirm={handleConfirmCooked}
+        onClose={handleCloseCookModal}
+      />
+
+      <CookLogModal
+        visible={cookLogModalVisible}
+        entry={editingCookLogEntry}
+        knownEaters={knownEaters}
+        saving={cookLogSaving}
+        onSave={handleSaveCookLog}
+        onDelete={handleDeleteCookLog}
+        onClose={handleCloseCookLogModal}
+      />
+
       {selectedIngredient ? (
         <IngredientSwapModal
           visible={swapModalVisible}
@@ -690,6 +1068,9 @@ const styles = StyleSheet.create({
   headerGroup: {
     gap: Spacing.sm,
   },
+  notesCard: {
+    gap: Spacing.sm,
+  },
   voiceControlsContainer: {
     position: "absolute",
     left: Spacing.lg,
@@ -0,0 +1,337 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useRoute, RouteProp } from "@react-navigation/native";
+import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { Feather } from "@expo/vector-icons";
+import { format, parseISO } from "date-fns";
+
+import { ThemedText } from "@/components/ThemedText";
+import { GlassCard } from "@/components/GlassCard";
+import { GlassButton } from "@/components/GlassButton";
+import { GlassHeader } from "@/components/GlassHeader";
+import { useTheme } from "@/hooks/useTheme";
+import { Spacing, BorderRadius, AppColors } from "@/constants/theme";
+import { storage } from "@/lib/storage";
+import { apiClient } from "@/lib/api-client";
+import { syncManager } from "@/lib/sync-manager";
+import { logger } from "@/lib/logger";
+import { RecipesStackParamList } from "@/navigation/RecipesStackNavigator";
+import type {
+  RecipeDiffLine,
+  RecipeRevision,
+  RecipeRevisionDiff,
+} from "@/lib/types";
+
+type RecipeHistoryRouteProp = RouteProp<RecipesStackParamList, "RecipeHistory">;
+
+const FIELD_LABELS: Record<
+  RecipeRevisionDiff["diff"]["fields"][number]["field"],
+  string
+> = {
+  title: "Title",
+  description: "Description",
+  notes: "Notes",
+  prepTime: "Prep time",
+  cookTime: "Cook time",
+  servings: "Servings",
+};
+
+function versionDate(revision: RecipeRevision): string {
+  return revision.createdAt
+    ? format(parseISO(revision.createdAt), "MMM d, yyyy h:mm a")
+    : "";
+}
+
+export default function RecipeHistoryScreen() {
+  const insets = useSafeAreaInsets();
+  const tabBarHeight = useBottomTabBarHeight();
+  const { theme } = useTheme();
+  const route = useRoute<RecipeHistoryRouteProp>();
+  const { recipeId } = route.params;
+
+  const [revisions, setRevisions] = useState<RecipeRevision[] | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<RecipeRevisionDiff | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      // Push local edits first so the newest version is in the history.
+      await syncManager.fullSync();
+      const result = await apiClient.get<{ revisions: RecipeRevision[] }>(
+        `/api/recipes/${encodeURIComponent(recipeId)}/revisions`,
+      );
+      setRevisions(result.revisions);
+      setCompareVersion(result.revisions[1]?.version ?? null);
+    } catch (error) {
+      logger.error("Error loading recipe history:", error);
+      setRevisions([]);
+    }
+  }, [recipeId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const current = revisions?.[0];
+
+  useEffect(() => {
+    if (!current || compareVersion === null) {
+      setDiff(null);
+      return;
+    }
+    let isCancelled = false;
+    apiClient
+      .get<RecipeRevisionDiff>(
+        `/api/recipes/${encodeURIComponent(recipeId)}/revisions/diff?from=${compareVersion}&to=${current.version}`,
+      )
+      .then((result) => {
+        if (!isCancelled) setDiff(result);
+      })
+      .catch((error) => {
+        logger.error("Error comparing recipe versions:", error);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [recipeId, current, compareVersion]);
+
+  const restore = async (revision: RecipeRevision) => {
+    setRestoring(true);
+    try {
+      const recipes = await storage.getRecipes();
+      const recipe = recipes.find((r) => r.id === recipeId);
+      if (!recipe) throw new Error("Recipe not found");
+      await storage.updateRecipe({
+        ...recipe,
+        title: revision.title,
+        description: revision.description ?? "",
+        ingredients: revision.ingredients,
+        instructions: revision.instructions,
+        notes: revision.notes ?? undefined,
+        prepTime: revision.prepTime ?? recipe.prepTime,
+        cookTime: revision.cookTime ?? recipe.cookTime,
+        servings: revision.servings ?? recipe.servings,
+      });
+      await loadRevisions();
+    } catch (error) {
+      logger.error("Error restoring recipe version:", error);
+      Alert.alert("Couldn't Restore", "Please try again.");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleRestore = (revision: RecipeRevision) => {
+    Alert.alert(
+      `Restore Version ${revision.version}?`,
+      "Your current recipe stays in the history, so you can switch back.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Restore", onPress: () => restore(revision) },
+      ],
+    );
+  };
+
+  const renderLines = (title: string, lines: RecipeDiffLine[]) => {
+    const changed = lines.some((line) => line.type !== "same");
+    if (!changed) return null;
+    return (
+      <View style={styles.diffGroup}>
+        <ThemedText type="small" style={styles.diffTitle}>
+          {title}
+        </ThemedText>
+        {lines.map((line, index) => (
+          <View
+            key={`${line.type}-${index}`}
+            style={[
+              styles.diffLine,
+              line.type === "added" && {
+                backgroundColor: `${AppColors.success}20`,
+              },
+              line.type === "removed" && {
+                backgroundColor: `${AppColors.error}20`,
+              },
+            ]}
+          >
+            <ThemedText
+              type="small"
+              style={{
+                color:
+                  line.type === "added"
+                    ? AppColors.success
+                    : line.type === "removed"
+                      ? AppColors.error
+                      : theme.textSecondary,
+              }}
+            >
+              {line.type === "added"
+                ? "+ "
+                : line.type === "removed"
+                  ? "− "
+                  : "  "}
+              {line.text}
+            </ThemedText>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      <GlassHeader
+        title="Version History"
+        screenKey="recipeHistory"
+        showSearch={false}
+        showBackButton={true}
+        menuItems={[]}
+      />
+      <ScrollView
+        contentContainerStyle={[
+          styles.content,
+          {
+            paddingTop: 56 + insets.top + Spacing.lg,
+            paddingBottom: tabBarHeight + Spacing.xl,
+          },
+        ]}
+        testID="screen-recipe-history"
+      >
+        {revisions === null ? (
+          <ActivityIndicator color={AppColors.primary} />
+        ) : revisions.length < 2 ? (
+          <GlassCard style={styles.section}>
+            <ThemedText type="h4">No Earlier Versions</ThemedText>
+            <ThemedText type="body" style={{ color: theme.textSecondary }}>
+              When you edit this recipe, each version is saved here so you can
+              compare changes or go back.
+            </ThemedText>
+          </GlassCard>
+        ) : (
+          <>
+            {diff && compareVersion !== null ? (
+              <GlassCard style={styles.section}>
+                <ThemedText type="h4">
+                  Version {compareVersion} → Current
+                </ThemedText>
+                {diff.diff.fields.map((change) => (
+                  <View key={change.field} style={styles.fieldChange}>
+                    <ThemedText type="small" style={styles.diffTitle}>
+                      {FIELD_LABELS[change.field]}
+                    </ThemedText>
+                    <ThemedText type="small" style={{ color: AppColors.error }}>
+                      − {change.before ?? "(none)"}
+                    </ThemedText>
+                    <ThemedText
+                      type="small"
+                      style={{ color: AppColors.success }}
+                    >
+                      + {change.after ?? "(none)"}
+                    </ThemedText>
+                  </View>
+                ))}
+                {renderLines("Ingredients", diff.diff.ingredients)}
+                {renderLines("Steps", diff.diff.instructions)}
+              </GlassCard>
+            ) : null}
+
+            {revisions.map((revision, index) => {
+              const isCurrent = index === 0;
+              const isCompared = revision.version === compareVersion;
+              return (
+                <GlassCard key={revision.version} style={styles.section}>
+                  <Pressable
+                    onPress={() =>
+                      !isCurrent && setCompareVersion(revision.version)
+                    }
+                    style={styles.versionRow}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Compare version ${revision.version} with the current recipe`}
+                    accessibilityState={{ selected: isCompared }}
+                    disabled={isCurrent}
+                  >
+                    <View style={styles.versionText}>
+                      <ThemedText type="body" style={styles.diffTitle}>
+                        Version {revision.version}
+                        {isCurrent ? " · Current" : ""}
+                      </ThemedText>
+                      <ThemedText
+                        type="caption"
+                        style={{ color: theme.textSecondary }}
+                      >
+                        {versionDate(revision)}
+                        {revision.restoredFrom
+                          ? ` · restored from version ${revision.restoredFrom}`
+                          : ""}
+                      </ThemedText>
+                    </View>
+                    {isCompared ? (
+                      <Feather
+                        name="git-pull-request"
+                        size={18}
+                        color={AppColors.primary}
+                      />
+                    ) : null}
+                  </Pressable>
+                  {!isCurrent ? (
+                    <GlassButton
+                      variant="outline"
+                      onPress={() => handleRestore(revision)}
+                      disabled={restoring}
+                      testID={`button-restore-version-${revision.version}`}
+                    >
+                      Restore This Version
+                    </GlassButton>
+                  ) : null}
+                </GlassCard>
+              );
+            })}
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+    gap: Spacing.lg,
+  },
+  section: {
+    gap: Spacing.md,
+  },
+  versionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  versionText: {
+    flex: 1,
+  },
+  diffGroup: {
+    gap: 2,
+  },
+  diffTitle: {
+    fontWeight: "600",
+  },
+  diffLine: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.sm,
+  },
+  fieldChange: {
+    gap: 2,
+  },
+});
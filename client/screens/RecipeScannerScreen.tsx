@@ -30,11 +30,16 @@ import { Spacing, BorderRadius, AppColors, Typography } from "@/constants/theme"
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
 import { apiClient } from "@/lib/api-client";
 import { storage, generateId, type Recipe } from "@/lib/storage";
+import {
+  normalizeIngredient,
+  type StructuredIngredient,
+} from "@shared/ingredient-parser";
 
 interface ScannedRecipe {
   title: string;
   description?: string;
   ingredients: string[];
+  parsedIngredients?: StructuredIngredient[];
   instructions: string[];
   prepTime?: string;
   cookTime?: string;
@@ -159,7 +164,11 @@ export default function RecipeScannerScreen() {
         id: generateId(),
         title: scanResult.title,
         description: scanResult.description || "",
-        ingredients: scanResult.ingredients,
+        ingredients:
+          scanResult.parsedIngredients ??
+          scanResult.ingredients
+            .map((line) => normalizeIngredient(line))
+            .filter((ing): ing is StructuredIngredient => ing !== null),
         instructions: scanResult.instructions,
         prepTime: scanResult.prepTime || "",
         cookTime: scanResult.cookTime || "",
@@ -8,8 +8,10 @@
  *
  * KEY FEATURES:
  * - View saved recipes in a 2-column grid layout
- * - Search recipes by title or description
+ * - Full-text search over titles, ingredients and instructions (server-side when online)
+ * - Filter by cuisine, dietary tags, total time and "can make now"
  * - Filter by favorites and available cookware
+ * - Sort by cook log: most cooked, top rated, not cooked lately
  * - See ingredient match percentage based on current inventory
  * - Quick access to AI chef chat for recipe suggestions
  * - Export recipes to CSV or PDF format
@@ -26,6 +28,7 @@
  * DATA FLOW:
  * - Loads recipes and inventory from local storage
  * - Calculates ingredient match on the fly
+ * - Narrows the list to ids returned by /api/recipes/search when online
  * - Checks cookware compatibility from user settings
  *
  * @module screens/RecipesScreen
@@ -62,6 +65,7 @@ import { MenuItemConfig } from "@/components/HeaderMenu";
 import { RecipesSkeleton } from "@/components/LoadingState";
 import { EmptyState } from "@/components/EmptyState";
 import { RecipeSettingsModal } from "@/components/recipe-detail/RecipeSettingsModal";
+import { ImportRecipeModal } from "@/components/recipe-detail/ImportRecipeModal";
 import { UpgradePrompt } from "@/components/subscription/UpgradePrompt";
 import { useTheme } from "@/hooks/useTheme";
 import { useQuickRecipeGeneration } from "@/hooks/useQuickRecipeGeneration";
@@ -74,7 +78,23 @@ import {
 import { storage, Recipe, FoodItem } from "@/lib/storage";
 import { apiClient } from "@/lib/api-client";
 import { exportRecipesToCSV, exportRecipesToPDF } from "@/lib/export";
-import type { ApplianceItem, RecipesNavigation } from "@/lib/types";
+import type {
+  ApplianceItem,
+  RecipeCookStats,
+  RecipeSearchFacets,
+  RecipesNavigation,
+} from "@/lib/types";
+import {
+  RECIPE_SORT_OPTIONS,
+  sortRecipesByCookStats,
+  type RecipeSortMode,
+} from "@/lib/recipe-sorting";
+import {
+  RECIPE_TIME_FILTERS,
+  hasServerSearchFilters,
+  searchRecipeIds,
+  type RecipeSearchFilters,
+} from "@/lib/recipe-search";
 import { useSearch } from "@/contexts/SearchContext";
 import { logger } from "@/lib/logger";
 import { useOnlineStatus } from "@/hooks/useSyncStatus";
@@ -107,12 +127,25 @@ export default function RecipesScreen() {
   const [loading, setLoading] = useState(true);
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
   const [exporting, setExporting] = useState(false);
   const [localSearchQuery, setLocalSearchQuery] = useState("");
   const [selectedRecipeId, setSelectedRecipeId] = useState<string | null>(null);
   const [selectedCuisines, setSelectedCuisines] = useState<string[]>([]);
   const [selectedDietaryTags, setSelectedDietaryTags] = useState<string[]>([]);
   const [recipesStatusLabel, setRecipesStatusLabel] = useState("");
+  const [sortMode, setSortMode] = useState<RecipeSortMode>("recent");
+  const [cookStats, setCookStats] = useState<Map<string, RecipeCookStats>>(
+    new Map(),
+  );
+  const [canMakeNowOnly, setCanMakeNowOnly] = useState(false);
+  const [maxTotalTime, setMaxTotalTime] = useState<number | null>(null);
+  const [serverMatchIds, setServerMatchIds] = useState<Set<string> | null>(
+    null,
+  );
+  const [searchFacets, setSearchFacets] = useState<RecipeSearchFacets | null>(
+    null,
+  );
 
   const {
     generateQuickRecipe,
@@ -163,6 +196,13 @@ export default function RecipesScreen() {
         disabled: isGenerating || !isOnline,
         sublabel: !isOnline ? "Available when online" : undefined,
       },
+      {
+        label: "Import from Web",
+        icon: "link",
+        onPress: () => setShowImportModal(true),
+        disabled: !isOnline,
+        sublabel: !isOnline ? "Available when online" : undefined,
+      },
       {
         label: exporting ? "Exporting..." : "Export to CSV",
         icon: "file-text",
@@ -214,6 +254,15 @@ export default function RecipesScreen() {
       setRecipes(loadedRecipes);
       setInventory(loadedInventory);
 
+      try {
+        const { stats } = await apiClient.get<{ stats: RecipeCookStats[] }>(
+          "/api/recipes/cook-log/stats",
+        );
+        setCookStats(new Map(stats.map((s) => [s.recipeId, s])));
+      } catch (err) {
+        logger.error("Error loading cook stats:", err);
+      }
+
       if (cookwareIds.length > 0) {
         try {
           const allAppliances = await apiClient.get<ApplianceItem[]>("/api/appliances");
@@ -243,18 +292,21 @@ export default function RecipesScreen() {
     setRefreshing(false);
   };
 
-  const getMatchPercentage = (recipe: Recipe): number => {
-    if (recipe.ingredients.length === 0) return 0;
-    const inventoryNames = inventory.map((i) => i.name.toLowerCase());
-    const matchedCount = recipe.ingredients.filter((ing) =>
-      inventoryNames.some(
-        (name) =>
-          name.includes(ing.name.toLowerCase()) ||
-          ing.name.toLowerCase().includes(name),
-      ),
-    ).length;
-    return Math.round((matchedCount / recipe.ingredients.length) * 100);
-  };
+  const getMatchPercentage = useCallback(
+    (recipe: Recipe): number => {
+      if (recipe.ingredients.length === 0) return 0;
+      const inventoryNames = inventory.map((i) => i.name.toLowerCase());
+      const matchedCount = recipe.ingredients.filter((ing) =>
+        inventoryNames.some(
+          (name) =>
+            name.includes(ing.name.toLowerCase()) ||
+            ing.name.toLowerCase().includes(name),
+        ),
+      ).length;
+      return Math.round((matchedCount / recipe.ingredients.length) * 100);
+    },
+    [inventory],
+  );
 
   const canMakeWithCookware = (recipe: Recipe): boolean => {
     if (!recipe.requiredCookware || recipe.requiredCookware.length === 0) {
@@ -268,6 +320,54 @@ export default function RecipesScreen() {
     );
   };
 
+  const searchFilters: RecipeSearchFilters = useMemo(
+    () => ({
+      query: [searchQuery, localSearchQuery].join(" ").trim(),
+      cuisines: selectedCuisines,
+      dietaryTags: selectedDietaryTags,
+      maxTotalTime,
+      canMakeNow: canMakeNowOnly,
+    }),
+    [
+      searchQuery,
+      localSearchQuery,
+      selectedCuisines,
+      selectedDietaryTags,
+      maxTotalTime,
+      canMakeNowOnly,
+    ],
+  );
+
+  useEffect(() => {
+    if (!isOnline || !hasServerSearchFilters(searchFilters)) {
+      setServerMatchIds(null);
+      setSearchFacets(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const { ids, facets } = await searchRecipeIds(
+          searchFilters,
+          controller.signal,
+        );
+        setServerMatchIds(new Set(ids));
+        setSearchFacets(facets);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        logger.error("Error searching recipes:", err);
+        setServerMatchIds(null);
+        setSearchFacets(null);
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [isOnline, searchFilters, recipes]);
+
   const availableCuisines = useMemo(() => {
     const set = new Set<string>();
     recipes.forEach((r) => {
@@ -288,7 +388,11 @@ export default function RecipesScreen() {
     const headerQ = searchQuery.toLowerCase();
     const localQ = localSearchQuery.trim().toLowerCase();
 
-    return recipes.filter((recipe) => {
+    const matching = recipes.filter((recipe) => {
+      if (showFavoritesOnly && !recipe.isFavorite) return false;
+
+      if (serverMatchIds) return serverMatchIds.has(recipe.id);
+
       if (headerQ) {
         const matchesHeader =
           recipe.title.toLowerCase().includes(headerQ) ||
@@ -306,8 +410,6 @@ export default function RecipesScreen() {
         if (!matchesLocal) return false;
       }
 
-      if (showFavoritesOnly && !recipe.isFavorite) return false;
-
       if (
         selectedCuisines.length > 0 &&
         (!recipe.cuisine || !selectedCuisines.includes(recipe.cuisine))
@@ -319,15 +421,31 @@ export default function RecipesScreen() {
         if (!selectedDietaryTags.some((t) => tags.includes(t))) return false;
       }
 
+      if (
+        maxTotalTime !== null &&
+        (recipe.prepTime || 0) + (recipe.cookTime || 0) > maxTotalTime
+      )
+        return false;
+
+      if (canMakeNowOnly && getMatchPercentage(recipe) < 100) return false;
+
       return true;
     });
+
+    return sortRecipesByCookStats(matching, cookStats, sortMode);
   }, [
     recipes,
+    cookStats,
+    sortMode,
     searchQuery,
     localSearchQuery,
     showFavoritesOnly,
     selectedCuisines,
     selectedDietaryTags,
+    maxTotalTime,
+    canMakeNowOnly,
+    serverMatchIds,
+    getMatchPercentage,
   ]);
 
   const handleToggleFavorite = async (recipe: Recipe) => {
@@ -707,6 +825,164 @@ export default function RecipesScreen() {
               )}
             </View>
 
+            {cookStats.size > 0 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.chipScrollContent}
+                accessibilityRole="radiogroup"
+                accessibilityLabel="Sort recipes"
+              >
+                {RECIPE_SORT_OPTIONS.map((option) => {
+                  const isSelected = sortMode === option.mode;
+                  return (
+                    <Pressable
+                      key={`sort-${option.mode}`}
+                      testID={`sort-recipes-${option.mode}`}
+                      accessibilityRole="radio"
+                      accessibilityLabel={`Sort by ${option.label}`}
+                      accessibilityState={{ checked: isSelected }}
+                      style={[
+                        styles.filterChip,
+                        {
+                          backgroundColor: isSelected
+                            ? AppColors.primary
+                            : themeStyle.glass.background,
+                          borderColor: isSelected
+                            ? AppColors.primary
+                            : themeStyle.glass.border,
+                          borderRadius: themeStyle.glassEffect.borderRadius.pill,
+                          borderWidth: 1,
+                        },
+                      ]}
+                      onPress={() => {
+                        Haptics.selectionAsync();
+                        setSortMode(option.mode);
+                      }}
+                    >
+                      <Feather
+                        name={option.icon}
+                        size={12}
+                        color={isSelected ? theme.buttonText : theme.textSecondary}
+                        style={{ marginRight: 4 }}
+                      />
+                      <ThemedText
+                        type="caption"
+                        style={{
+                          color: isSelected ? theme.buttonText : theme.textSecondary,
+                          fontWeight: isSelected ? "600" : "400",
+                        }}
+                      >
+                        {option.label}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </ScrollView>
+            )}
+
+            {recipes.length > 0 && (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                contentContainerStyle={styles.chipScrollContent}
+              >
+                {(() => {
+                  const count = searchFacets?.canMakeNow;
+                  return (
+                    <Pressable
+                      testID="filter-can-make-now"
+                      accessibilityRole="button"
+                      accessibilityLabel={`Show recipes you can make now, ${canMakeNowOnly ? "selected" : "not selected"}`}
+                      accessibilityState={{ selected: canMakeNowOnly }}
+                      style={[
+                        styles.filterChip,
+                        {
+                          backgroundColor: canMakeNowOnly
+                            ? AppColors.success
+                            : themeStyle.glass.background,
+                          borderColor: canMakeNowOnly
+                            ? AppColors.success
+                            : themeStyle.glass.border,
+                          borderRadius: themeStyle.glassEffect.borderRadius.pill,
+                          borderWidth: 1,
+                        },
+                      ]}
+                      onPress={() => {
+                        Haptics.selectionAsync();
+                        setCanMakeNowOnly((prev) => !prev);
+                      }}
+                    >
+                      <Feather
+                        name="check-square"
+                        size={12}
+                        color={canMakeNowOnly ? theme.buttonText : theme.textSecondary}
+                        style={{ marginRight: 4 }}
+                      />
+                      <ThemedText
+                        type="caption"
+                        style={{
+                          color: canMakeNowOnly ? theme.buttonText : theme.textSecondary,
+                          fontWeight: canMakeNowOnly ? "600" : "400",
+                        }}
+                      >
+                        {count !== undefined ? `Can Make Now (${count})` : "Can Make Now"}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })()}
+
+                {RECIPE_TIME_FILTERS.map((minutes) => {
+                  const isSelected = maxTotalTime === minutes;
+                  const count = searchFacets?.totalTime.find(
+                    (f) => f.value === String(minutes),
+                  )?.count;
+                  return (
+                    <Pressable
+                      key={`time-${minutes}`}
+                      testID={`filter-time-${minutes}`}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Ready in ${minutes} minutes or less, ${isSelected ? "selected" : "not selected"}`}
+                      accessibilityState={{ selected: isSelected }}
+                      style={[
+                        styles.filterChip,
+                        {
+                          backgroundColor: isSelected
+                            ? AppColors.primary
+                            : themeStyle.glass.background,
+                          borderColor: isSelected
+                            ? AppColors.primary
+                            : themeStyle.glass.border,
+                          borderRadius: themeStyle.glassEffect.borderRadius.pill,
+                          borderWidth: 1,
+                        },
+                      ]}
+                      onPress={() => {
+                        Haptics.selectionAsync();
+                        setMaxTotalTime(isSelected ? null : minutes);
+                      }}
+                    >
+                      <Feather
+                        name="clock"
+                        size={12}
+                        color={isSelected ? theme.buttonText : theme.textSecondary}
+                        style={{ marginRight: 4 }}
+                      />
+                      <ThemedText
+                        type="caption"
+                        style={{
+                          color: isSelected ? theme.buttonText : theme.textSecondary,
+                          fontWeight: isSelected ? "600" : "400",
+                        }}
+                      >
+                        {count !== undefined ? `≤ ${minutes} min (${count})` : `≤ ${minutes} min`}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </ScrollView>
+            )}
+
             {(availableCuisines.length > 0 ||
               availableDietaryTags.length > 0) && (
               <ScrollView
@@ -838,6 +1114,16 @@ export default function RecipesScreen() {
         }
       />
 
+      <ImportRecipeModal
+        visible={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImported={(recipe) => {
+          setShowImportModal(false);
+          loadData();
+          navigation.navigate("RecipeDetail", { recipeId: recipe.id });
+        }}
+      />
+
       <Modal visible={isGenerating} transparent animationType="fade" accessibilityViewIsModal={true}>
         <View style={styles.progressModalOverlay}>
           <View
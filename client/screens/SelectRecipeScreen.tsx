@@ -20,9 +20,11 @@ import { GlassButton } from "@/components/GlassButton";
 import { GlassHeader } from "@/components/GlassHeader";
 import { useTheme } from "@/hooks/useTheme";
 import { Spacing, BorderRadius, AppColors, Typography } from "@/constants/theme";
-import { storage, Recipe, MealPlan } from "@/lib/storage";
+import { storage, FoodItem, Recipe, MealPlan } from "@/lib/storage";
 import { getApiUrl } from "@/lib/query-client";
 import { MealPlanStackParamList } from "@/navigation/MealPlanStackNavigator";
+import type { MealEntry } from "@shared/meal-plan";
+import { isLeftoverItem } from "@shared/leftovers";
 
 type SelectRecipeRouteProp = RouteProp<MealPlanStackParamList, "SelectRecipe">;
 
@@ -35,12 +37,17 @@ export default function SelectRecipeScreen() {
   const { date, mealType } = route.params;
 
   const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [leftovers, setLeftovers] = useState<FoodItem[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [loading, setLoading] = useState(true);
 
   const loadRecipes = useCallback(async () => {
-    const loadedRecipes = await storage.getRecipes();
+    const [loadedRecipes, inventory] = await Promise.all([
+      storage.getRecipes(),
+      storage.getInventory(),
+    ]);
     setRecipes(loadedRecipes);
+    setLeftovers(inventory.filter(isLeftoverItem));
     setLoading(false);
   }, []);
 
@@ -48,28 +55,26 @@ export default function SelectRecipeScreen() {
     loadRecipes();
   }, [loadRecipes]);
 
-  const handleSelectRecipe = useCallback(
-    async (recipe: Recipe) => {
+  const saveEntry = useCallback(
+    async (entry: MealEntry) => {
       const mealPlans = await storage.getMealPlans();
-      const existingPlanIndex = mealPlans.findIndex((p) => p.date === date);
+      const existingPlan = mealPlans.find((p) => p.date === date);
 
-      if (existingPlanIndex !== -1) {
-        const existingPlan = mealPlans[existingPlanIndex];
+      if (existingPlan) {
         const updatedPlan: MealPlan = {
           ...existingPlan,
           meals: {
             ...existingPlan.meals,
-            [mealType]: recipe.id,
+            [mealType]: entry,
           },
         };
-        mealPlans[existingPlanIndex] = updatedPlan;
-        await storage.setMealPlans(mealPlans);
+        await storage.updateMealPlan(updatedPlan);
       } else {
         const newPlan: MealPlan = {
           id: `mp_${Date.now()}`,
           date,
           meals: {
-            [mealType]: recipe.id,
+            [mealType]: entry,
           },
         };
         await storage.addMealPlan(newPlan);
@@ -85,6 +90,49 @@ export default function SelectRecipeScreen() {
     [date, mealType, navigation],
   );
 
+  const handleSelectRecipe = useCallback(
+    (recipe: Recipe) => saveEntry({ type: "recipe", recipeId: recipe.id }),
+    [saveEntry],
+  );
+
+  const handleLeftoverItem = useCallback(
+    (item: FoodItem) =>
+      saveEntry({
+        type: "leftovers",
+        inventoryItemId: item.id,
+        ...(item.recipeId ? { recipeId: item.recipeId } : {}),
+        ...(item.purchaseDate
+          ? { fromDate: item.purchaseDate.slice(0, 10) }
+          : {}),
+      }),
+    [saveEntry],
+  );
+
+  // Without a leftovers item, point at the latest recipe planned before this day.
+  const handleLeftovers = useCallback(async () => {
+    const mealPlans = await storage.getMealPlans();
+    const source = mealPlans
+      .filter((plan) => plan.date <= date)
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .flatMap((plan) =>
+        Object.entries(plan.meals)
+          .filter(([slotId]) => plan.date < date || slotId !== mealType)
+          .map(([, entry]) => ({ date: plan.date, entry })),
+      )
+      .find(({ entry }) => entry.type === "recipe");
+    await saveEntry(
+      source?.entry.type === "recipe"
+        ? {
+            type: "leftovers",
+            recipeId: source.entry.recipeId,
+            fromDate: source.date,
+          }
+        : { type: "leftovers" },
+    );
+  }, [date, mealType, saveEntry]);
+
+  const customMeal = searchQuery.trim();
+
   const filteredRecipes = recipes.filter(
     (recipe) =>
       recipe.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -216,6 +264,73 @@ export default function SelectRecipeScreen() {
           )}
         </View>
 
+        <View style={styles.quickOptions}>
+          {customMeal ? (
+            <Pressable
+              style={[
+                styles.quickOption,
+                { borderColor: themeStyle.glass.border },
+              ]}
+              onPress={() =>
+                saveEntry({ type: "text", text: customMeal.slice(0, 200) })
+              }
+              accessibilityRole="button"
+              accessibilityLabel={`Add ${customMeal} as a meal`}
+              testID="button-add-custom-meal"
+            >
+              <Feather name="edit-3" size={16} color={AppColors.primary} />
+              <ThemedText
+                type="small"
+                numberOfLines={1}
+                style={{ color: AppColors.primary, flexShrink: 1 }}
+              >
+                Add {customMeal}
+              </ThemedText>
+            </Pressable>
+          ) : null}
+          {leftovers.map((item) => (
+            <Pressable
+              key={item.id}
+              style={[
+                styles.quickOption,
+                { borderColor: themeStyle.glass.border },
+              ]}
+              onPress={() => handleLeftoverItem(item)}
+              accessibilityRole="button"
+              accessibilityLabel={`Plan ${item.name}, ${item.quantity} servings left`}
+            >
+              <Feather name="rotate-ccw" size={16} color={AppColors.primary} />
+              <ThemedText
+                type="small"
+                numberOfLines={1}
+                style={{ flexShrink: 1 }}
+              >
+                {item.name} ({item.quantity})
+              </ThemedText>
+            </Pressable>
+          ))}
+          <Pressable
+            style={[styles.quickOption, { borderColor: themeStyle.glass.border }]}
+            onPress={handleLeftovers}
+            accessibilityRole="button"
+            accessibilityLabel="Plan leftovers for this meal"
+            testID="button-add-leftovers"
+          >
+            <Feather name="rotate-ccw" size={16} color={theme.textSecondary} />
+            <ThemedText type="small">Leftovers</ThemedText>
+          </Pressable>
+          <Pressable
+            style={[styles.quickOption, { borderColor: themeStyle.glass.border }]}
+            onPress={() => saveEntry({ type: "eat_out" })}
+            accessibilityRole="button"
+            accessibilityLabel="Plan to eat out for this meal"
+            testID="button-add-eat-out"
+          >
+            <Feather name="map-pin" size={16} color={theme.textSecondary} />
+            <ThemedText type="small">Eat out</ThemedText>
+          </Pressable>
+        </View>
+
         {filteredRecipes.length === 0 && !loading ? (
           <View style={styles.emptyState}>
             <Feather name="book-open" size={48} color={theme.textSecondary} />
@@ -280,6 +395,23 @@ const styles = StyleSheet.create({
     fontSize: Typography.body.fontSize,
     paddingVertical: Spacing.xs,
   },
+  quickOptions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.md,
+  },
+  quickOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.pill,
+    borderWidth: 1,
+    maxWidth: "100%",
+  },
   listContent: {
     paddingHorizontal: Spacing.lg,
     gap: Spacing.sm,
@@ -65,6 +65,7 @@ import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollV
 import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/contexts/AuthContext";
 import { useBiometricAuth } from "@/hooks/useBiometricAuth";
+import { runWithStepUp } from "@/hooks/usePasskeys";
 import { Spacing, AppColors, BorderRadius, Typography } from "@/constants/theme";
 import {
   storage,
@@ -100,6 +101,7 @@ import { SettingsChipSelector } from "@/components/settings/SettingsChipSelector
 import { SettingsNutritionTargets } from "@/components/settings/SettingsNutritionTargets";
 import { SettingsAbout } from "@/components/settings/SettingsAbout";
 import { SettingsIntegrations } from "@/components/settings/SettingsIntegrations";
+import { SettingsApiKeys } from "@/components/settings/SettingsApiKeys";
 import { SettingsInstacart } from "@/components/settings/SettingsInstacart";
 import { SettingsLegalSupport } from "@/components/settings/SettingsLegalSupport";
 import { SettingsStoragePrefs } from "@/components/settings/SettingsStoragePrefs";
@@ -109,6 +111,7 @@ import { SettingsRecentlyDeleted } from "@/components/settings/SettingsRecentlyD
 import { SettingsActiveSessions } from "@/components/settings/SettingsActiveSessions";
 import { SettingsFooter } from "@/components/settings/SettingsFooter";
 import { SettingsImportDialog } from "@/components/settings/SettingsImportDialog";
+import { DEFAULT_NUTRITION_GOALS } from "@shared/nutrition-intake";
 
 type SettingsCategory = {
   key: string;
@@ -461,6 +464,22 @@ export default function SettingsScreen() {
     await storage.setPreferences(newPrefs);
   };
 
+  const handleCalorieGoalChange = async (delta: number) => {
+    const current =
+      preferences.nutritionGoals?.calories ?? DEFAULT_NUTRITION_GOALS.calories;
+    const calories = Math.max(1000, Math.min(5000, current + delta));
+    if (calories === current) {
+      return;
+    }
+
+    const newPrefs = {
+      ...preferences,
+      nutritionGoals: { ...preferences.nutritionGoals, calories },
+    };
+    setPreferences(newPrefs);
+    await storage.setPreferences(newPrefs);
+  };
+
   const handleResetMacros = async () => {
     const newPrefs = { ...preferences, macroTargets: DEFAULT_MACRO_TARGETS };
     setPreferences(newPrefs);
@@ -555,7 +574,15 @@ export default function SettingsScreen() {
     try {
       const authToken = await storage.getAuthToken();
       if (authToken && user?.email) {
-        await apiClient.delete<void>("/api/auth/account", { email: user.email });
+        const email = user.email;
+        const confirmed = await runWithStepUp(async () => {
+          await apiClient.delete<void>("/api/auth/account", { email });
+          return true;
+        });
+        if (!confirmed) {
+          setIsDeleting(false);
+          return;
+        }
       }
 
       await storage.deleteAccount();
@@ -919,6 +946,7 @@ export default function SettingsScreen() {
             <SettingsNutritionTargets
               preferences={preferences}
               onMacroChange={handleMacroChange}
+              onCalorieGoalChange={handleCalorieGoalChange}
               onResetMacros={handleResetMacros}
               theme={theme}
             />
@@ -928,6 +956,7 @@ export default function SettingsScreen() {
         return (
           <>
             <SettingsIntegrations navigation={navigation as any} theme={theme} />
+            {isAuthenticated ? <SettingsApiKeys theme={theme} /> : null}
             <SettingsInstacart
               preferences={preferences}
               onPreferencesChange={handleInstacartPreferencesChange}
@@ -1283,6 +1312,7 @@ export default function SettingsScreen() {
         <SettingsNutritionTargets
           preferences={preferences}
           onMacroChange={handleMacroChange}
+          onCalorieGoalChange={handleCalorieGoalChange}
           onResetMacros={handleResetMacros}
           theme={theme}
         />
@@ -1291,6 +1321,8 @@ export default function SettingsScreen() {
 
         <SettingsIntegrations navigation={navigation as any} theme={theme} />
 
+        {isAuthenticated ? <SettingsApiKeys theme={theme} /> : null}
+
         <SettingsInstacart
           preferences={preferences}
           onPreferencesChange={handleInstacartPreferencesChange}
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useMemo } from "react";
 import {
   View,
   ViewProps,
@@ -26,9 +26,15 @@ import { GlassButton } from "@/components/GlassButton";
 import { useTheme } from "@/hooks/useTheme";
 import { EmptyState } from "@/components/EmptyState";
 import { useInstacart } from "@/hooks/useInstacart";
+import { usePriceEstimate } from "@/hooks/usePriceEstimate";
+import { useBudgetSummary } from "@/hooks/useGroceryBudget";
 import { Spacing, BorderRadius, AppColors, Typography } from "@/constants/theme";
 import * as Haptics from "expo-haptics";
 import { storage, ShoppingListItem } from "@/lib/storage";
+import { apiClient } from "@/lib/api-client";
+import { logger } from "@/lib/logger";
+import type { GenerateShoppingListResult } from "@/lib/types";
+import { format, addDays } from "date-fns";
 
 
 export default function ShoppingListScreen() {
@@ -42,11 +48,10 @@ export default function ShoppingListScreen() {
     openShoppingLink,
   } = useInstacart();
 
-  const menuItems: MenuItemConfig[] = [];
-
   const [items, setItems] = useState<ShoppingListItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [generating, setGenerating] = useState(false);
 
   const loadItems = useCallback(async () => {
     const list = await storage.getShoppingList();
@@ -126,8 +131,59 @@ export default function ShoppingListScreen() {
     await openShoppingLink(products, "ChefSpAIce Shopping List");
   };
 
-  const uncheckedItems = items.filter((i) => !i.isChecked);
-  const checkedItems = items.filter((i) => i.isChecked);
+  const handleGenerateFromMealPlan = async () => {
+    if (generating) return;
+    setGenerating(true);
+    try {
+      // Push local meal plan and inventory edits so the server plans from them.
+      await syncManager.fullSync();
+      const today = new Date();
+      const result = await apiClient.post<GenerateShoppingListResult>(
+        "/api/shopping-list/generate",
+        {
+          startDate: format(today, "yyyy-MM-dd"),
+          endDate: format(addDays(today, 6), "yyyy-MM-dd"),
+        },
+      );
+      await syncManager.fullSync();
+      await loadItems();
+
+      Alert.alert(
+        "Shopping List Updated",
+        result.plannedRecipes === 0
+          ? "No planned meals found for the next 7 days."
+          : result.items.length === 0
+            ? "Your inventory already covers this week's meals."
+            : `Added ${result.items.length} item${result.items.length === 1 ? "" : "s"} for ${result.plannedRecipes} planned recipe${result.plannedRecipes === 1 ? "" : "s"}.`,
+      );
+    } catch (error) {
+      logger.error("Error generating shopping list:", error);
+      Alert.alert(
+        "Couldn't Generate List",
+        error instanceof Error ? error.message : "Please try again.",
+      );
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const menuItems: MenuItemConfig[] = [
+    {
+      label: generating ? "Generating..." : "Generate from Meal Plan",
+      icon: "calendar",
+      onPress: handleGenerateFromMealPlan,
+      disabled: generating,
+    },
+  ];
+
+  const uncheckedItems = useMemo(() => items.filter((i) => !i.isChecked), [items]);
+  const checkedItems = useMemo(() => items.filter((i) => i.isChecked), [items]);
+  const estimatedCost = usePriceEstimate(uncheckedItems);
+  const { data: budgetSummary } = useBudgetSummary();
+  const budgetAfterTrip =
+    budgetSummary?.remaining != null && estimatedCost.pricedCount > 0
+      ? budgetSummary.remaining - estimatedCost.total
+      : null;
 
   const renderItem = useCallback(({ item }: { item: ShoppingListItem }) => (
     <Animated.View
@@ -261,9 +317,40 @@ export default function ShoppingListScreen() {
         ListHeaderComponent={
           items.length > 0 ? (
             <View style={styles.header} testID="container-shopping-header">
-              <ThemedText type="body" testID="text-items-remaining" accessibilityRole="text" accessibilityLabel={`${uncheckedItems.length} items remaining on your shopping list`}>
-                {uncheckedItems.length} items remaining
-              </ThemedText>
+              <View>
+                <ThemedText type="body" testID="text-items-remaining" accessibilityRole="text" accessibilityLabel={`${uncheckedItems.length} items remaining on your shopping list`}>
+                  {uncheckedItems.length} items remaining
+                </ThemedText>
+                {estimatedCost.pricedCount > 0 ? (
+                  <ThemedText
+                    type="caption"
+                    style={{ color: theme.textSecondary }}
+                    testID="text-estimated-cost"
+                    accessibilityLabel={`Estimated cost $${estimatedCost.total.toFixed(2)} for ${estimatedCost.pricedCount} priced items`}
+                  >
+                    Est. ${estimatedCost.total.toFixed(2)}
+                    {estimatedCost.pricedCount < uncheckedItems.length
+                      ? ` (${estimatedCost.pricedCount} of ${uncheckedItems.length} priced)`
+                      : ""}
+                  </ThemedText>
+                ) : null}
+                {budgetAfterTrip !== null ? (
+                  <ThemedText
+                    type="caption"
+                    style={{
+                      color:
+                        budgetAfterTrip < 0
+                          ? AppColors.error
+                          : theme.textSecondary,
+                    }}
+                    testID="text-budget-after-trip"
+                  >
+                    {budgetAfterTrip >= 0
+                      ? `Leaves $${budgetAfterTrip.toFixed(2)} of this month's budget`
+                      : `$${(-budgetAfterTrip).toFixed(2)} over this month's budget`}
+                  </ThemedText>
+                ) : null}
+              </View>
               {checkedItems.length > 0 ? (
                 <Pressable
                   onPress={handleClearChecked}
@@ -35,6 +35,9 @@ import { Spacing, BorderRadius, AppColors, Typography } from "@/constants/theme"
 import { getApiUrl } from "@/lib/query-client";
 import { apiClient, ApiClientError } from "@/lib/api-client";
 import { logger } from "@/lib/logger";
+import { runWithStepUp } from "@/hooks/usePasskeys";
+import type { CreatedApiKey } from "@/lib/types";
+import type { ApiKeyScope } from "@shared/api-keys";
 
 type StepData = {
   number: number;
@@ -94,6 +97,9 @@ function CodeBlock({ code, theme, onCopy }: { code: string; theme: ReturnType<ty
   );
 }
 
+/** Permissions for the key created here: the inventory and recipe actions this guide describes. */
+const SIRI_KEY_SCOPES: ApiKeyScope[] = ["inventory:read", "inventory:write", "recipes"];
+
 export default function SiriShortcutsGuideScreen() {
   const insets = useSafeAreaInsets();
   const tabBarHeight = useBottomTabBarHeight();
@@ -122,16 +128,19 @@ export default function SiriShortcutsGuideScreen() {
 
     setIsGeneratingKey(true);
     try {
-      const data = await apiClient.post<{ success?: boolean; apiKey?: string; message?: string }>("/api/external/generate-key");
-      if (data.success && data.apiKey) {
-        setApiKey(data.apiKey);
-        Alert.alert(
-          "API Key Generated",
-          "Your API key has been generated. Copy it now - it won't be shown again!",
-        );
-      } else {
-        Alert.alert("Error", data.message || "Failed to generate API key");
-      }
+      const data = await runWithStepUp(() =>
+        apiClient.post<CreatedApiKey>("/api/external/keys", {
+          name: "Siri Shortcuts",
+          scopes: SIRI_KEY_SCOPES,
+          expiresInDays: null,
+        }),
+      );
+      if (!data) return;
+      setApiKey(data.apiKey);
+      Alert.alert(
+        "API Key Generated",
+        "Your API key has been generated. Copy it now - it won't be shown again!",
+      );
     } catch (error) {
       logger.error("Generate API key error:", error);
       const msg = error instanceof ApiClientError ? error.message : "Failed to generate API key. Please try again.";
@@ -191,7 +200,7 @@ export default function SiriShortcutsGuideScreen() {
     {
       number: 4,
       title: "Generate API Key",
-      description: "Tap the 'Generate API Key' button below. Copy the key immediately - it won't be shown again!",
+      description: "Tap the 'Generate API Key' button below. Copy the key immediately - it won't be shown again! You can rename, limit or revoke it later under Settings > API Keys.",
     },
   ];
 
@@ -222,6 +231,7 @@ export default function SiriShortcutsGuideScreen() {
       substeps: [
         `URL: ${apiUrl}/api/external/action`,
         "Method: POST",
+        "Headers: Authorization = Bearer [Paste your API key]",
         "Request Body: JSON",
       ],
     },
@@ -230,7 +240,6 @@ export default function SiriShortcutsGuideScreen() {
       title: "Configure JSON Body",
       description: "Add these fields to the JSON body:",
       substeps: [
-        "apiKey: [Paste your API key]",
         'action: "add_item"',
         "item: [Select 'Provided Input' from Ask for Input]",
       ],
@@ -272,15 +281,15 @@ export default function SiriShortcutsGuideScreen() {
       substeps: [
         `URL: ${apiUrl}/api/external/action`,
         "Method: POST",
+        "Headers: Authorization = Bearer [Paste your API key]",
         "Request Body: JSON",
       ],
     },
     {
       number: 3,
       title: "Configure JSON Body",
-      description: "Add these fields:",
+      description: "Add this field:",
       substeps: [
-        "apiKey: [Paste your API key]",
         'action: "what_expires"',
       ],
     },
@@ -439,7 +448,7 @@ export default function SiriShortcutsGuideScreen() {
             Available Actions
           </ThemedText>
           <ThemedText type="caption" style={styles.sectionDescription}>
-            Use these action values in your shortcuts:
+            Use these action values in your shortcuts. Each one needs the matching permission on your API key.
           </ThemedText>
           
           <View style={styles.actionsList}>
@@ -478,6 +487,24 @@ export default function SiriShortcutsGuideScreen() {
                 Get a quick recipe suggestion based on your inventory.
               </ThemedText>
             </View>
+
+            <View style={styles.actionItem}>
+              <View style={[styles.actionBadge, { backgroundColor: AppColors.success }]}>
+                <ThemedText type="small" style={styles.actionBadgeText}>add_to_shopping_list</ThemedText>
+              </View>
+              <ThemedText type="small" style={styles.actionDescription}>
+                Add an item to your shopping list. Requires: item (name), optional: quantity, unit
+              </ThemedText>
+            </View>
+
+            <View style={styles.actionItem}>
+              <View style={[styles.actionBadge, { backgroundColor: AppColors.success }]}>
+                <ThemedText type="small" style={styles.actionBadgeText}>shopping_list</ThemedText>
+              </View>
+              <ThemedText type="small" style={styles.actionDescription}>
+                List the unchecked items on your shopping list.
+              </ThemedText>
+            </View>
           </View>
         </GlassCard>
 
@@ -519,11 +546,11 @@ export default function SiriShortcutsGuideScreen() {
           
           <View style={styles.troubleshootItem}>
             <ThemedText type="body" style={styles.troubleshootQuestion}>
-              Shortcut says "Invalid API key"
+              Shortcut says &quot;Invalid API key&quot;
             </ThemedText>
             <ThemedText type="caption" style={styles.troubleshootAnswer}>
-              Make sure you copied the entire API key including the "csa_" prefix. 
-              If you've lost your key, generate a new one.
+              Make sure the Authorization header is &quot;Bearer &quot; followed by the entire API key,
+              including the &quot;csa_&quot; prefix. If you&apos;ve lost your key, generate a new one.
             </ThemedText>
           </View>
           
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "@jest/globals";
+import { buildTasteProfile, summarizeCookLog } from "../lib/cook-log";
+
+const entries = [
+  { recipeId: "soup", cookedAt: "2026-09-01T18:00:00.000Z", rating: 5 },
+  { recipeId: "soup", cookedAt: new Date("2026-10-01T18:00:00.000Z"), rating: 4 },
+  { recipeId: "soup", cookedAt: "2026-09-15T18:00:00.000Z", rating: null },
+  { recipeId: "curry", cookedAt: "2026-08-01T18:00:00.000Z", rating: 2 },
+  { recipeId: "tacos", cookedAt: "2026-10-10T18:00:00.000Z", rating: null },
+];
+
+describe("summarizeCookLog", () => {
+  const stats = summarizeCookLog(entries);
+  const soup = stats.find((s) => s.recipeId === "soup")!;
+
+  it("counts cooks and keeps the latest date", () => {
+    expect(soup.timesCooked).toBe(3);
+    expect(soup.lastCookedAt).toBe("2026-10-01T18:00:00.000Z");
+  });
+
+  it("averages only the rated cooks", () => {
+    expect(soup.averageRating).toBe(4.5);
+    expect(soup.ratingCount).toBe(2);
+  });
+
+  it("leaves the average empty when nothing is rated", () => {
+    const tacos = stats.find((s) => s.recipeId === "tacos")!;
+    expect(tacos.averageRating).toBeNull();
+    expect(tacos.ratingCount).toBe(0);
+  });
+
+  it("returns nothing for an empty log", () => {
+    expect(summarizeCookLog([])).toEqual([]);
+  });
+});
+
+describe("buildTasteProfile", () => {
+  const recipes = [
+    { recipeId: "soup", title: "Tomato Soup", cuisine: "Italian" },
+    { recipeId: "curry", title: "Green Curry", cuisine: "Thai" },
+    { recipeId: "tacos", title: "Fish Tacos", cuisine: "Mexican" },
+  ];
+
+  it("splits rated recipes into loved and disliked", () => {
+    const profile = buildTasteProfile(summarizeCookLog(entries), recipes);
+    expect(profile.loved).toEqual(["Tomato Soup"]);
+    expect(profile.disliked).toEqual(["Green Curry"]);
+    expect(profile.favoriteCuisines).toEqual(["Italian"]);
+  });
+
+  it("ranks loved recipes by rating, then by how often they're cooked", () => {
+    const profile = buildTasteProfile(
+      summarizeCookLog([
+        { recipeId: "tacos", cookedAt: "2026-10-01", rating: 4 },
+        { recipeId: "tacos", cookedAt: "2026-10-02", rating: 4 },
+        { recipeId: "soup", cookedAt: "2026-10-03", rating: 4 },
+        { recipeId: "curry", cookedAt: "2026-10-04", rating: 5 },
+      ]),
+      recipes,
+    );
+    expect(profile.loved).toEqual(["Green Curry", "Fish Tacos", "Tomato Soup"]);
+  });
+
+  it("skips recipes that are no longer saved", () => {
+    const profile = buildTasteProfile(
+      summarizeCookLog([{ recipeId: "deleted", cookedAt: "2026-10-01", rating: 5 }]),
+      recipes,
+    );
+    expect(profile).toEqual({ loved: [], disliked: [], favoriteCuisines: [] });
+  });
+});
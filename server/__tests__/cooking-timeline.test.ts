@@ -0,0 +1,71 @@
+import { describe, it, expect } from "@jest/globals";
+import { buildCookingTimeline, type TimelineRecipe } from "../lib/cooking-timeline";
+
+const roast: TimelineRecipe = {
+  itemId: "roast",
+  title: "Roast Chicken",
+  prepTime: 10,
+  cookTime: 75,
+  instructions: [
+    "Season the chicken.",
+    "Roast for 60 minutes.",
+    "Rest for 15 minutes before carving.",
+  ],
+};
+
+const potatoes: TimelineRecipe = {
+  itemId: "potatoes",
+  title: "Mashed Potatoes",
+  prepTime: 10,
+  cookTime: 20,
+  instructions: [
+    "Peel and cube the potatoes.",
+    "Boil for 20 minutes.",
+    "Mash with butter for 5 minutes.",
+  ],
+};
+
+const beans: TimelineRecipe = {
+  itemId: "beans",
+  title: "Green Beans",
+  prepTime: 5,
+  cookTime: 5,
+  instructions: ["Sauté the beans for 5 minutes."],
+};
+
+describe("buildCookingTimeline", () => {
+  const plan = buildCookingTimeline([roast, potatoes, beans]);
+  const step = (id: string) => plan.steps.find((s) => s.id === id)!;
+
+  it("keeps each recipe's steps in order", () => {
+    for (const recipeId of ["roast", "potatoes"]) {
+      const steps = plan.steps
+        .filter((s) => s.recipeId === recipeId)
+        .sort((a, b) => a.stepIndex - b.stepIndex);
+      for (let i = 1; i < steps.length; i++) {
+        expect(steps[i].startMinute).toBeGreaterThanOrEqual(steps[i - 1].endMinute);
+      }
+    }
+  });
+
+  it("finishes the dishes together and never overlaps active work", () => {
+    expect(step("roast:2").endMinute).toBe(plan.totalMinutes);
+    expect(plan.totalMinutes).toBe(85);
+
+    const active = plan.steps.filter((s) => !s.passive);
+    for (const a of active) {
+      for (const b of active) {
+        if (a === b) continue;
+        expect(a.endMinute <= b.startMinute || b.endMinute <= a.startMinute).toBe(true);
+      }
+    }
+    // Both active finishing steps can't end at serve time; one goes just before.
+    expect([step("potatoes:2").endMinute, step("beans:0").endMinute].sort()).toEqual([80, 85]);
+  });
+
+  it("spreads the recipe's remaining time over steps without a duration", () => {
+    expect(step("roast:0").endMinute - step("roast:0").startMinute).toBe(10);
+    expect(step("roast:0").timerMinutes).toBeNull();
+    expect(step("roast:1").timerMinutes).toBe(60);
+  });
+});
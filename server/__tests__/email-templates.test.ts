@@ -0,0 +1,122 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  MAX_EMAIL_ATTEMPTS,
+  createUnsubscribeToken,
+  renderEmail,
+  retryDelayMs,
+  verifyUnsubscribeToken,
+} from "../lib/email-templates";
+import { previousWeekRange, summarizeWasteWeek } from "../lib/waste-report";
+
+const SECRET = "test-secret";
+
+describe("renderEmail", () => {
+  it("renders the reset link into both bodies", () => {
+    const email = renderEmail("password_reset", {
+      displayName: "Sam",
+      resetUrl: "https://chefspaice.com/reset-password?token=abc",
+      expiresInMinutes: 60,
+    });
+    expect(email.subject).toBe("Reset your ChefSpAIce password");
+    expect(email.text).toContain("Hi Sam,");
+    expect(email.text).toContain("https://chefspaice.com/reset-password?token=abc");
+    expect(email.text).toContain("60 minutes");
+    expect(email.html).toContain('href="https://chefspaice.com/reset-password?token=abc"');
+  });
+
+  it("never adds an unsubscribe link to account mail", () => {
+    const email = renderEmail(
+      "welcome",
+      { appUrl: "https://chefspaice.com" },
+      { unsubscribeUrl: "https://chefspaice.com/api/email/unsubscribe?token=x" },
+    );
+    expect(email.text).toContain("Hi there,");
+    expect(email.text).not.toContain("Unsubscribe");
+    expect(email.html).not.toContain("unsubscribe");
+  });
+
+  it("adds the unsubscribe link to offers", () => {
+    const email = renderEmail(
+      "winback_offer",
+      { offerAmountCents: 499, offerUrl: "https://chefspaice.com/subscription?offer=winback" },
+      { unsubscribeUrl: "https://chefspaice.com/api/email/unsubscribe?token=x" },
+    );
+    expect(email.subject).toBe("We miss you! Come back for $4.99");
+    expect(email.text).toContain("Unsubscribe: https://chefspaice.com/api/email/unsubscribe?token=x");
+    expect(email.html).toContain("Unsubscribe</a>");
+  });
+
+  it("escapes user-provided text in HTML", () => {
+    const email = renderEmail("weekly_waste_report", {
+      displayName: "<b>Sam</b>",
+      weekStart: "2026-03-02",
+      weekEnd: "2026-03-08",
+      itemCount: 3,
+      wastedValue: 7.5,
+      topItems: [{ name: "Milk & cream", count: 2 }],
+      topReasons: [{ reason: "expired", count: 3 }],
+      appUrl: "https://chefspaice.com",
+    });
+    expect(email.subject).toBe("Your food waste report: 3 items this week");
+    expect(email.html).toContain("Hi &lt;b&gt;Sam&lt;/b&gt;,");
+    expect(email.html).toContain("<li>Milk &amp; cream (×2)</li>");
+    expect(email.text).toContain("worth about $7.50");
+    expect(email.text).toContain("Mar 2, 2026 – Mar 8, 2026");
+  });
+});
+
+describe("unsubscribe tokens", () => {
+  it("round-trips the user and category", () => {
+    const token = createUnsubscribeToken("user-1", "offers", SECRET);
+    expect(verifyUnsubscribeToken(token, SECRET)).toEqual({ userId: "user-1", category: "offers" });
+  });
+
+  it("rejects tampered tokens and other secrets", () => {
+    const token = createUnsubscribeToken("user-1", "offers", SECRET);
+    const [, signature] = token.split(".");
+    const forged = `${Buffer.from(JSON.stringify({ u: "user-2", c: "offers" })).toString("base64url")}.${signature}`;
+    expect(verifyUnsubscribeToken(forged, SECRET)).toBeNull();
+    expect(verifyUnsubscribeToken(token, "other-secret")).toBeNull();
+    expect(verifyUnsubscribeToken("garbage", SECRET)).toBeNull();
+  });
+
+  it("cannot unsubscribe from account mail", () => {
+    const payload = Buffer.from(JSON.stringify({ u: "user-1", c: "account" })).toString("base64url");
+    const token = createUnsubscribeToken("user-1", "offers", SECRET);
+    expect(verifyUnsubscribeToken(`${payload}.${token.split(".")[1]}`, SECRET)).toBeNull();
+  });
+});
+
+describe("retryDelayMs", () => {
+  it("backs off after each failure and gives up at the limit", () => {
+    expect(retryDelayMs(1)).toBe(60_000);
+    expect(retryDelayMs(2)).toBe(5 * 60_000);
+    expect(retryDelayMs(4)).toBe(2 * 60 * 60_000);
+    expect(retryDelayMs(MAX_EMAIL_ATTEMPTS)).toBeNull();
+  });
+});
+
+describe("weekly waste summary", () => {
+  it("covers the seven days before today", () => {
+    expect(previousWeekRange(new Date("2026-03-09T08:00:00Z"))).toEqual({ weekStart: "2026-03-02", weekEnd: "2026-03-08" });
+  });
+
+  it("ranks items and reasons case-insensitively", () => {
+    const summary = summarizeWasteWeek([
+      { itemName: "Milk", quantity: 1, unit: "l", reason: "expired" },
+      { itemName: "milk", quantity: 1, unit: "l", reason: "Expired" },
+      { itemName: "Bread", quantity: null, unit: null, reason: "moldy" },
+      { itemName: "Spinach", quantity: 1, unit: "bag", reason: null },
+    ]);
+    expect(summary.itemCount).toBe(4);
+    expect(summary.topItems).toEqual([
+      { name: "Milk", count: 2 },
+      { name: "Bread", count: 1 },
+      { name: "Spinach", count: 1 },
+    ]);
+    expect(summary.topReasons).toEqual([
+      { reason: "expired", count: 2 },
+      { reason: "moldy", count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  localClock,
+  parseNotificationTime,
+  isDigestDue,
+  digestDate,
+  findExpiringItems,
+  alertKey,
+  excludeSentAlerts,
+  suggestRecipes,
+  buildDigestMessage,
+  type DigestInventoryItem,
+} from "../lib/expiring-digest";
+
+const item = (itemId: string, name: string, expirationDate: string | null, quantity = 1): DigestInventoryItem => ({
+  itemId,
+  name,
+  expirationDate,
+  quantity,
+  unit: "unit",
+});
+
+describe("localClock", () => {
+  it("converts an instant to the user's local date and time", () => {
+    const now = new Date("2026-10-18T02:30:00Z");
+    expect(localClock(now, "America/New_York")).toEqual({ date: "2026-10-17", minutes: 22 * 60 + 30 });
+    expect(localClock(now, "Asia/Tokyo")).toEqual({ date: "2026-10-18", minutes: 11 * 60 + 30 });
+  });
+
+  it("falls back to UTC for missing or unknown zones", () => {
+    const now = new Date("2026-10-18T09:05:00Z");
+    expect(localClock(now, null)).toEqual({ date: "2026-10-18", minutes: 9 * 60 + 5 });
+    expect(localClock(now, "Mars/Olympus")).toEqual({ date: "2026-10-18", minutes: 9 * 60 + 5 });
+  });
+});
+
+describe("isDigestDue", () => {
+  it("opens at the notification time for a limited window", () => {
+    expect(parseNotificationTime("07:45")).toBe(465);
+    expect(parseNotificationTime("25:00")).toBeNull();
+    expect(isDigestDue({ date: "2026-10-18", minutes: 465 }, "07:45")).toBe(true);
+    expect(isDigestDue({ date: "2026-10-18", minutes: 464 }, "07:45")).toBe(false);
+    expect(isDigestDue({ date: "2026-10-18", minutes: 465 + 180 }, "07:45")).toBe(false);
+  });
+
+  it("carries a late evening window past midnight into the same day's digest", () => {
+    expect(isDigestDue({ date: "2026-10-18", minutes: 22 * 60 + 30 }, "22:00")).toBe(true);
+    expect(isDigestDue({ date: "2026-10-19", minutes: 30 }, "22:00")).toBe(true);
+    expect(isDigestDue({ date: "2026-10-19", minutes: 30 }, "21:00")).toBe(false);
+    expect(digestDate({ date: "2026-10-19", minutes: 30 }, "22:00")).toBe("2026-10-18");
+    expect(digestDate({ date: "2026-10-18", minutes: 22 * 60 + 30 }, "22:00")).toBe("2026-10-18");
+    expect(digestDate({ date: "2026-10-18", minutes: 10 * 60 }, "09:00")).toBe("2026-10-18");
+  });
+
+  it("uses 09:00 when the time is missing or invalid", () => {
+    expect(isDigestDue({ date: "2026-10-18", minutes: 9 * 60 }, null)).toBe(true);
+    expect(isDigestDue({ date: "2026-10-18", minutes: 9 * 60 }, "soon")).toBe(true);
+  });
+});
+
+describe("findExpiringItems", () => {
+  it("keeps items within the threshold of the local day, soonest first", () => {
+    const expiring = findExpiringItems(
+      [
+        item("a", "Yogurt", "2026-10-20"),
+        item("b", "Milk", "2026-10-18T00:00:00.000Z"),
+        item("c", "Spinach", "2026-10-19"),
+        item("d", "Cheese", "2026-10-25"),
+        item("e", "Bread", "2026-10-17"),
+        item("f", "Eggs", null),
+        item("g", "Butter", "2026-10-19", 0),
+      ],
+      "2026-10-18",
+      3,
+    );
+    expect(expiring.map((i) => [i.name, i.daysUntilExpiry, i.stage])).toEqual([
+      ["Milk", 0, "today"],
+      ["Spinach", 1, "tomorrow"],
+      ["Yogurt", 2, "soon"],
+    ]);
+  });
+});
+
+describe("excludeSentAlerts", () => {
+  it("alerts again only when an item moves to a closer stage", () => {
+    const yesterday = findExpiringItems([item("a", "Milk", "2026-10-20"), item("b", "Ham", "2026-10-21")], "2026-10-17", 5);
+    const sent = new Set(yesterday.map(alertKey));
+    const today = findExpiringItems([item("a", "Milk", "2026-10-20"), item("b", "Ham", "2026-10-21")], "2026-10-19", 5);
+
+    expect(excludeSentAlerts(today, sent).map((i) => i.name)).toEqual(["Milk"]);
+  });
+});
+
+describe("suggestRecipes", () => {
+  const expiring = findExpiringItems(
+    [item("a", "Eggs", "2026-10-18"), item("b", "Spinach", "2026-10-19"), item("c", "Chicken", "2026-10-19")],
+    "2026-10-18",
+    3,
+  );
+
+  it("ranks saved recipes by how many expiring items they use", () => {
+    const suggestions = suggestRecipes(
+      [
+        { itemId: "r1", title: "Roast Chicken", ingredients: [{ name: "chicken thighs" }, { name: "lemon" }] },
+        { itemId: "r2", title: "Spinach Frittata", ingredients: ["6 large eggs", "2 cups baby spinach"] },
+        { itemId: "r3", title: "Baba Ganoush", ingredients: [{ name: "eggplant" }] },
+        { itemId: "r4", title: "Plain", ingredients: null },
+      ],
+      expiring,
+    );
+    expect(suggestions).toEqual([
+      { recipeId: "r2", title: "Spinach Frittata", uses: ["Eggs", "Spinach"] },
+      { recipeId: "r1", title: "Roast Chicken", uses: ["Chicken"] },
+    ]);
+  });
+});
+
+describe("buildDigestMessage", () => {
+  it("groups items by stage and adds recipe ideas", () => {
+    const expiring = findExpiringItems(
+      [item("a", "Milk", "2026-10-18"), item("b", "Spinach", "2026-10-19"), item("c", "Yogurt", "2026-10-21")],
+      "2026-10-18",
+      3,
+    );
+    expect(buildDigestMessage(expiring, [{ recipeId: "r1", title: "Smoothie", uses: ["Spinach"] }])).toEqual({
+      title: "3 items are expiring soon",
+      body: "Today: Milk\nTomorrow: Spinach\nSoon: Yogurt\nTry: Smoothie",
+    });
+  });
+
+  it("names a single item and shortens long lists", () => {
+    const one = findExpiringItems([item("a", "Milk", "2026-10-18")], "2026-10-18", 3);
+    expect(buildDigestMessage(one, []).title).toBe("Milk is expiring soon");
+
+    const many = findExpiringItems(
+      ["A", "B", "C", "D", "E", "F"].map((name) => item(name, name, "2026-10-18")),
+      "2026-10-18",
+      3,
+    );
+    expect(buildDigestMessage(many, []).body).toBe("Today: A, B, C, D and 2 more");
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  monthKey,
+  isMonthKey,
+  previousMonths,
+  breakdownSpend,
+  budgetStatus,
+  crossedBudget,
+  type SpendLine,
+} from "../lib/grocery-budget";
+
+describe("monthKey", () => {
+  it("takes the month from date strings and dates", () => {
+    expect(monthKey("2026-10-18")).toBe("2026-10");
+    expect(monthKey(new Date(Date.UTC(2026, 0, 31)))).toBe("2026-01");
+  });
+});
+
+describe("isMonthKey", () => {
+  it("accepts YYYY-MM only", () => {
+    expect(isMonthKey("2026-10")).toBe(true);
+    expect(isMonthKey("2026-13")).toBe(false);
+    expect(isMonthKey("2026-10-01")).toBe(false);
+  });
+});
+
+describe("previousMonths", () => {
+  it("lists months oldest first across a year boundary", () => {
+    expect(previousMonths("2026-02", 4)).toEqual(["2025-11", "2025-12", "2026-01", "2026-02"]);
+  });
+});
+
+describe("breakdownSpend", () => {
+  const receipts = [
+    { id: "r1", totalAmount: 30 },
+    { id: "r2", totalAmount: 12.5 },
+  ];
+  const lines = new Map<string, SpendLine[]>([
+    ["r1", [
+      { category: "Produce", totalPrice: 10 },
+      { category: "dairy", totalPrice: 8 },
+      { category: null, totalPrice: 4 },
+    ]],
+  ]);
+
+  it("puts line prices under their category and the rest of each total under other", () => {
+    expect(breakdownSpend(receipts, lines)).toEqual([
+      { category: "other", spent: 24.5, budget: null },
+      { category: "produce", spent: 10, budget: null },
+      { category: "dairy", spent: 8, budget: null },
+    ]);
+  });
+
+  it("lists budgeted categories with no spend", () => {
+    const breakdown = breakdownSpend(receipts, lines, { produce: 50, snacks: 20 });
+    expect(breakdown.find((c) => c.category === "produce")?.budget).toBe(50);
+    expect(breakdown.find((c) => c.category === "snacks")).toEqual({ category: "snacks", spent: 0, budget: 20 });
+  });
+});
+
+describe("budgetStatus", () => {
+  it("grades spend against the budget", () => {
+    expect(budgetStatus(100, null)).toBe("none");
+    expect(budgetStatus(50, 100)).toBe("under");
+    expect(budgetStatus(90, 100)).toBe("near");
+    expect(budgetStatus(100.01, 100)).toBe("over");
+  });
+});
+
+describe("crossedBudget", () => {
+  it("is true only for the receipt that takes spend over the budget", () => {
+    expect(crossedBudget(80, 110, 100)).toBe(true);
+    expect(crossedBudget(100, 100, 100)).toBe(false);
+    expect(crossedBudget(105, 120, 100)).toBe(false);
+    expect(crossedBudget(0, 50, null)).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  isHouseholdRole,
+  canManageHousehold,
+  canWriteHouseholdData,
+} from "../domain/services/PermissionService";
+import {
+  generateInviteCode,
+  normalizeInviteCode,
+} from "../domain/services/HouseholdService";
+
+describe("household roles", () => {
+  it("recognises the three household roles", () => {
+    expect(isHouseholdRole("owner")).toBe(true);
+    expect(isHouseholdRole("member")).toBe(true);
+    expect(isHouseholdRole("viewer")).toBe(true);
+    expect(isHouseholdRole("admin")).toBe(false);
+    expect(isHouseholdRole(undefined)).toBe(false);
+  });
+
+  it("only lets owners manage the household", () => {
+    expect(canManageHousehold("owner")).toBe(true);
+    expect(canManageHousehold("member")).toBe(false);
+    expect(canManageHousehold("viewer")).toBe(false);
+  });
+
+  it("lets owners and members write shared data but not viewers", () => {
+    expect(canWriteHouseholdData("owner")).toBe(true);
+    expect(canWriteHouseholdData("member")).toBe(true);
+    expect(canWriteHouseholdData("viewer")).toBe(false);
+  });
+});
+
+describe("household invite codes", () => {
+  it("generates 8-character codes without ambiguous characters", () => {
+    for (let i = 0; i < 50; i++) {
+      const code = generateInviteCode();
+      expect(code).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+    }
+  });
+
+  it("normalizes user-entered codes", () => {
+    expect(normalizeInviteCode(" abcd-ef23 ")).toBe("ABCDEF23");
+    expect(normalizeInviteCode("abcd ef23")).toBe("ABCDEF23");
+  });
+});
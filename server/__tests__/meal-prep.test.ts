@@ -0,0 +1,132 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  buildMealPrepPlan,
+  capacityFromAppliances,
+  detectEquipment,
+  mergePrepTasks,
+  DEFAULT_CAPACITY,
+  type MealPrepRecipe,
+} from "../lib/meal-prep";
+
+const chili: MealPrepRecipe = {
+  itemId: "chili",
+  title: "Chili",
+  servings: 4,
+  prepTime: 20,
+  cookTime: 60,
+  ingredients: [
+    { name: "onion", quantity: 1, unit: "", preparation: "finely chopped" },
+    { name: "garlic", quantity: 2, unit: "clove", preparation: "minced" },
+    { name: "kidney beans", quantity: 400, unit: "g" },
+  ],
+  instructions: ["Brown the meat in a large pot.", "Simmer for an hour."],
+};
+
+const traybake: MealPrepRecipe = {
+  itemId: "traybake",
+  title: "Chicken Traybake",
+  servings: 2,
+  prepTime: 15,
+  cookTime: 40,
+  ingredients: [
+    { name: "onions", quantity: 2, unit: "" },
+    { name: "garlic", quantity: 1, unit: "clove", preparation: "minced" },
+    { name: "chicken thighs", quantity: 500, unit: "g" },
+  ],
+  instructions: ["Chop the onions.", "Roast at 200C for 40 minutes."],
+};
+
+const salad: MealPrepRecipe = {
+  itemId: "salad",
+  title: "Grain Salad",
+  servings: 3,
+  prepTime: 10,
+  cookTime: null,
+  ingredients: [{ name: "cucumber", quantity: 1, unit: "", preparation: "diced" }],
+  instructions: ["Toss everything together."],
+};
+
+describe("mergePrepTasks", () => {
+  it("does shared knife work once across recipes", () => {
+    const tasks = mergePrepTasks([chili, traybake]);
+    const onion = tasks.find((t) => t.id === "chop:onion");
+    const garlic = tasks.find((t) => t.id === "mince:garlic");
+    expect(onion).toMatchObject({ quantity: 3, recipeIds: ["chili", "traybake"] });
+    expect(garlic).toMatchObject({ quantity: 3, unit: "clove" });
+    expect(tasks).toHaveLength(2);
+  });
+});
+
+describe("detectEquipment", () => {
+  it("reads the equipment from the instructions", () => {
+    expect(detectEquipment(chili)).toBe("stovetop");
+    expect(detectEquipment(traybake)).toBe("oven");
+    expect(detectEquipment(salad)).toBe("none");
+    expect(detectEquipment({ title: "Pulled Pork", instructions: ["Cook in the slow cooker on low."] })).toBe(
+      "slow_cooker",
+    );
+  });
+});
+
+describe("capacityFromAppliances", () => {
+  it("counts racks and burners and assumes a standard kitchen when empty", () => {
+    expect(capacityFromAppliances(["Oven", "Stovetop/Range", "Dutch Oven", "Air Fryer"])).toEqual({
+      oven: 2,
+      stovetop: 4,
+      slow_cooker: 0,
+      pressure_cooker: 0,
+      air_fryer: 1,
+    });
+    expect(capacityFromAppliances([])).toEqual(DEFAULT_CAPACITY);
+  });
+});
+
+describe("buildMealPrepPlan", () => {
+  const meals = [
+    { date: "2026-10-19", slotId: "lunch", recipeId: "chili" },
+    { date: "2026-10-20", slotId: "lunch", recipeId: "salad" },
+    { date: "2026-10-21", slotId: "dinner", recipeId: "traybake" },
+    { date: "2026-10-24", slotId: "dinner", recipeId: "chili" },
+  ];
+  const options = { prepDate: "2026-10-18", fridgeDays: 4, freezerDays: 90 };
+
+  it("starts the longest cook first and never double-books equipment", () => {
+    const plan = buildMealPrepPlan([chili, traybake, salad], meals, { ...DEFAULT_CAPACITY, oven: 0 }, options);
+    const cooks = plan.timeline.filter((t) => t.kind === "cook");
+    expect(cooks.map((t) => t.recipeIds[0])).toEqual(["chili", "traybake"]);
+    expect(plan.warnings).toEqual([
+      "Chicken Traybake needs an oven, which isn't in your kitchen. Timed as if you had one.",
+    ]);
+
+    const packs = plan.timeline.filter((t) => t.kind === "pack");
+    expect(packs).toHaveLength(3);
+    for (const cook of cooks) {
+      const pack = packs.find((p) => p.recipeIds[0] === cook.recipeIds[0])!;
+      expect(pack.startMinute).toBeGreaterThanOrEqual(cook.endMinute + 20);
+    }
+    expect(plan.totalMinutes).toBe(Math.max(...plan.timeline.map((t) => t.endMinute)));
+  });
+
+  it("queues dishes when the equipment is full", () => {
+    const plan = buildMealPrepPlan(
+      [chili, { ...traybake, instructions: ["Simmer in a pan."] }],
+      meals,
+      { ...DEFAULT_CAPACITY, stovetop: 1 },
+      options,
+    );
+    const [first, second] = plan.timeline.filter((t) => t.kind === "cook");
+    expect(second.startMinute).toBeGreaterThanOrEqual(first.endMinute);
+  });
+
+  it("freezes meals beyond the fridge life and labels each container", () => {
+    const plan = buildMealPrepPlan([chili, traybake, salad], meals, DEFAULT_CAPACITY, options);
+    expect(plan.containers.map((c) => [c.recipeId, c.date, c.storage])).toEqual([
+      ["chili", "2026-10-19", "fridge"],
+      ["salad", "2026-10-20", "fridge"],
+      ["traybake", "2026-10-21", "fridge"],
+      ["chili", "2026-10-24", "freezer"],
+    ]);
+    expect(plan.containers[0].label).toBe("Chili — Mon lunch — eat by 2026-10-22");
+    expect(plan.containers[3].instructions).toContain("Move to the fridge on Fri night");
+  });
+});
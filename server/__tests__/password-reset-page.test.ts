@@ -0,0 +1,46 @@
+import request from "supertest";
+import express from "express";
+import passwordResetRouter, { passwordResetUrl } from "../routers/auth/password-reset";
+
+const app = express();
+app.use(express.json());
+app.use(express.urlencoded({ extended: false }));
+app.use("/api/auth", passwordResetRouter);
+
+describe("password reset link", () => {
+  it("points at a page that posts the token back to the reset endpoint", async () => {
+    const link = new URL(passwordResetUrl("abc123"));
+    const response = await request(app).get(`${link.pathname}${link.search}`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers["content-type"]).toMatch(/text\/html/);
+    expect(response.text).toContain('action="/api/auth/reset-password"');
+    expect(response.text).toContain('name="token" value="abc123"');
+  });
+
+  it("escapes the token in the page", async () => {
+    const link = new URL(passwordResetUrl('"><script>'));
+    const response = await request(app).get(`${link.pathname}${link.search}`);
+
+    expect(response.text).not.toContain("<script>");
+    expect(response.text).toContain("&quot;&gt;&lt;script&gt;");
+  });
+
+  it("explains a link without a token", async () => {
+    const response = await request(app).get("/api/auth/reset-password");
+
+    expect(response.status).toBe(400);
+    expect(response.text).toContain("This reset link is invalid");
+  });
+
+  it("shows a weak password error on the page instead of JSON", async () => {
+    const response = await request(app)
+      .post("/api/auth/reset-password")
+      .type("form")
+      .send({ token: "abc123", password: "short" });
+
+    expect(response.status).toBe(400);
+    expect(response.headers["content-type"]).toMatch(/text\/html/);
+    expect(response.text).toContain('name="token" value="abc123"');
+  });
+});
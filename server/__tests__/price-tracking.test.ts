@@ -0,0 +1,84 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  normalizePriceName,
+  toUnitPrice,
+  findPricePoints,
+  estimateItemValue,
+  type PricePoint,
+} from "../lib/price-tracking";
+
+function point(overrides: Partial<PricePoint>): PricePoint {
+  return {
+    normalizedName: "whole milk",
+    storeName: "Kroger",
+    purchaseDate: "2026-10-01",
+    unitPrice: 0.001,
+    baseUnit: "ml",
+    ...overrides,
+  };
+}
+
+describe("normalizePriceName", () => {
+  it("lowercases and strips punctuation", () => {
+    expect(normalizePriceName("  Ben & Jerry's  Ice-Cream ")).toBe("ben jerry s ice cream");
+  });
+});
+
+describe("toUnitPrice", () => {
+  it("prices weights per gram", () => {
+    const price = toUnitPrice(4.99, 1, "lbs");
+    expect(price?.baseUnit).toBe("g");
+    expect(price?.unitPrice).toBeCloseTo(4.99 / 453.592);
+  });
+
+  it("prices counted items per piece", () => {
+    expect(toUnitPrice(3, 12, "items")).toEqual({ unitPrice: 0.25, baseUnit: "piece" });
+  });
+
+  it("keeps units it doesn't know as their own base", () => {
+    expect(toUnitPrice(5, 2, "container")).toEqual({ unitPrice: 2.5, baseUnit: "container" });
+  });
+
+  it("rejects missing prices and quantities", () => {
+    expect(toUnitPrice(0, 1, "g")).toBeNull();
+    expect(toUnitPrice(2, 0, "g")).toBeNull();
+  });
+});
+
+describe("findPricePoints", () => {
+  it("returns exact name matches before partial ones", () => {
+    const history = [
+      point({ normalizedName: "organic whole milk", purchaseDate: "2026-10-05" }),
+      point({ normalizedName: "whole milk", purchaseDate: "2026-10-01" }),
+      point({ normalizedName: "bananas" }),
+    ];
+
+    expect(findPricePoints(history, "Whole Milk").map((p) => p.normalizedName)).toEqual([
+      "whole milk",
+      "organic whole milk",
+    ]);
+  });
+});
+
+describe("estimateItemValue", () => {
+  const history = [
+    point({ normalizedName: "whole milk", unitPrice: 0.002, baseUnit: "ml", purchaseDate: "2026-10-10" }),
+    point({ normalizedName: "whole milk", unitPrice: 0.001, baseUnit: "ml", purchaseDate: "2026-09-01" }),
+    point({ normalizedName: "apples", unitPrice: 0.5, baseUnit: "piece" }),
+  ];
+
+  it("uses the most recent price, converting the quantity to the base unit", () => {
+    const estimate = estimateItemValue(history, "whole milk", 1, "l");
+    expect(estimate?.value).toBe(2);
+    expect(estimate?.purchaseDate).toBe("2026-10-10");
+  });
+
+  it("returns null when no price has a comparable unit", () => {
+    expect(estimateItemValue(history, "whole milk", 2, "items")).toBeNull();
+    expect(estimateItemValue(history, "cheddar", 1, "g")).toBeNull();
+  });
+
+  it("treats a missing unit as pieces", () => {
+    expect(estimateItemValue(history, "Apples", 6, null)?.value).toBe(3);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  parseIngredientQuantity,
+  toInventoryQuantity,
+  planRecipeDeductions,
+  totalDeductionsByItem,
+  allocateNutrition,
+  type CookInventoryItem,
+} from "../lib/recipe-deduction";
+
+const pantry: CookInventoryItem[] = [
+  { itemId: "flour", name: "All-Purpose Flour", quantity: 1, unit: "kg" },
+  { itemId: "milk", name: "Milk", quantity: 1, unit: "l" },
+  { itemId: "eggs", name: "Eggs", quantity: 6, unit: "unit" },
+  { itemId: "butter", name: "Butter", quantity: 100, unit: "g" },
+];
+
+describe("parseIngredientQuantity", () => {
+  it("reads numbers, decimals and fractions", () => {
+    expect(parseIngredientQuantity(2)).toBe(2);
+    expect(parseIngredientQuantity("1.5")).toBe(1.5);
+    expect(parseIngredientQuantity("1/2")).toBe(0.5);
+    expect(parseIngredientQuantity("1 1/2")).toBe(1.5);
+  });
+
+  it("returns null when there is no amount", () => {
+    expect(parseIngredientQuantity("to taste")).toBeNull();
+    expect(parseIngredientQuantity(0)).toBeNull();
+  });
+});
+
+describe("toInventoryQuantity", () => {
+  it("converts between units of the same type", () => {
+    expect(toInventoryQuantity(500, "g", pantry[0])).toBeCloseTo(0.5);
+  });
+
+  it("goes through grams for volume against weight", () => {
+    expect(toInventoryQuantity(2, "tbsp", pantry[3])).toBeCloseTo(30);
+  });
+
+  it("treats unitless recipe amounts as counts", () => {
+    expect(toInventoryQuantity(2, "", pantry[2])).toBe(2);
+    expect(toInventoryQuantity(2, "", pantry[0])).toBeNull();
+  });
+});
+
+describe("planRecipeDeductions", () => {
+  it("scales quantities and reports before/after in the item's unit", () => {
+    const [flour] = planRecipeDeductions(
+      [{ name: "flour", quantity: 250, unit: "g" }],
+      pantry,
+      2,
+    );
+
+    expect(flour.status).toBe("deduct");
+    expect(flour.requiredQuantity).toBe(500);
+    expect(flour.itemId).toBe("flour");
+    expect(flour.deductQuantity).toBeCloseTo(0.5);
+    expect(flour.quantityAfter).toBeCloseTo(0.5);
+  });
+
+  it("caps the deduction at what the item holds", () => {
+    const [eggs] = planRecipeDeductions(
+      [{ name: "eggs", quantity: 8, unit: "" }],
+      pantry,
+      1,
+    );
+
+    expect(eggs.status).toBe("insufficient");
+    expect(eggs.deductQuantity).toBe(6);
+    expect(eggs.quantityAfter).toBe(0);
+  });
+
+  it("lets later ingredients see what earlier ones took from the same item", () => {
+    const deductions = planRecipeDeductions(
+      [
+        { name: "butter", quantity: 60, unit: "g" },
+        { name: "butter", quantity: 60, unit: "g" },
+      ],
+      pantry,
+      1,
+    );
+
+    expect(deductions.map((d) => d.deductQuantity)).toEqual([60, 40]);
+    expect(deductions[1].status).toBe("insufficient");
+    expect(totalDeductionsByItem(deductions).get("butter")).toBe(100);
+  });
+
+  it("flags missing, unmeasured and unconvertible ingredients without deducting", () => {
+    const deductions = planRecipeDeductions(
+      [
+        { name: "saffron", quantity: 1, unit: "g" },
+        { name: "milk", quantity: "to taste", unit: "" },
+        { name: "eggs", quantity: 1, unit: "cup" },
+      ],
+      pantry,
+      1,
+    );
+
+    expect(deductions.map((d) => d.status)).toEqual([
+      "missing",
+      "unmeasured",
+      "unconvertible",
+    ]);
+    expect(deductions.every((d) => d.deductQuantity === 0)).toBe(true);
+  });
+});
+
+describe("allocateNutrition", () => {
+  it("splits by weight when every deducted ingredient converts to grams", () => {
+    const deductions = planRecipeDeductions(
+      [
+        { name: "flour", quantity: 300, unit: "g" },
+        { name: "butter", quantity: 100, unit: "g" },
+        { name: "saffron", quantity: 1, unit: "g" },
+      ],
+      pantry,
+      1,
+    );
+    const shares = allocateNutrition(deductions, {
+      calories: 800,
+      protein: 40,
+      carbs: 120,
+      fat: 20,
+    });
+
+    expect(shares[0]?.calories).toBe(600);
+    expect(shares[1]?.calories).toBe(200);
+    expect(shares[2]).toBeNull();
+  });
+
+  it("splits evenly when a deducted ingredient has no weight", () => {
+    const deductions = planRecipeDeductions(
+      [
+        { name: "flour", quantity: 300, unit: "g" },
+        { name: "eggs", quantity: 2, unit: "" },
+      ],
+      pantry,
+      1,
+    );
+    const shares = allocateNutrition(deductions, {
+      calories: 500,
+      protein: 20,
+      carbs: 60,
+      fat: 10,
+    });
+
+    expect(shares.map((s) => s?.calories)).toEqual([250, 250]);
+  });
+});
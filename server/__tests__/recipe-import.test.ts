@@ -0,0 +1,137 @@
+import { describe, it, expect } from "@jest/globals";
+import { readFileSync } from "fs";
+import path from "path";
+import {
+  parseRecipeHtml,
+  parseDuration,
+  parseYield,
+} from "../lib/recipe-import";
+import { isPrivateAddress, resolvePublicUrl } from "../lib/public-url";
+
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, "fixtures", "recipe-import", name), "utf8");
+}
+
+describe("parseDuration", () => {
+  it("reads ISO 8601 and plain durations", () => {
+    expect(parseDuration("PT1H30M")).toBe(90);
+    expect(parseDuration("P0DT0H20M")).toBe(20);
+    expect(parseDuration("1 hour 15 mins")).toBe(75);
+    expect(parseDuration("PT0S")).toBeNull();
+    expect(parseDuration(undefined)).toBeNull();
+  });
+});
+
+describe("parseYield", () => {
+  it("takes the first number", () => {
+    expect(parseYield(["4", "4 servings"])).toBe(4);
+    expect(parseYield("Makes 12 muffins")).toBe(12);
+    expect(parseYield(null)).toBeNull();
+  });
+});
+
+describe("parseRecipeHtml", () => {
+  it("reads a JSON-LD recipe from an @graph", () => {
+    const recipe = parseRecipeHtml(fixture("json-ld.html"), "https://www.simmerandstir.com/chili");
+
+    expect(recipe).toMatchObject({
+      title: "Weeknight Chicken Chili",
+      description: "A quick chili with white beans.",
+      prepTime: 15,
+      cookTime: 65,
+      servings: 6,
+      imageUrl: "https://www.simmerandstir.com/images/chili.jpg",
+      author: "Dana Ruiz",
+      siteName: "Simmer & Stir",
+      cuisine: "Tex-Mex",
+      method: "json-ld",
+    });
+    expect(recipe?.ingredients).toEqual([
+      { name: "boneless chicken thighs", quantity: 1.5, unit: "lb" },
+      { name: "white beans", quantity: 2, unit: "can", preparation: "drained", notes: "15 oz" },
+      { name: "olive oil", quantity: 1, unit: "tbsp" },
+      { name: "Salt", quantity: 0, unit: "", notes: "to taste" },
+      { name: "fresh cilantro", quantity: 0.25, unit: "cup", isOptional: true },
+    ]);
+    expect(recipe?.instructions).toEqual([
+      "Heat the oil in a large pot.",
+      "Brown the chicken, 5 minutes per side.",
+      "Add the beans and simmer for 45 minutes.",
+    ]);
+  });
+
+  it("falls back to microdata", () => {
+    const recipe = parseRecipeHtml(fixture("microdata.html"), "https://example.com/lemon-bars");
+
+    expect(recipe).toMatchObject({
+      title: "Lemon Bars",
+      description: "Tart and sweet.",
+      prepTime: 20,
+      cookTime: 35,
+      servings: 16,
+      imageUrl: "https://cdn.example.com/lemon-bars.jpg",
+      siteName: "example.com",
+      method: "microdata",
+    });
+    expect(recipe?.ingredients.map((i) => i.name)).toEqual(["all-purpose flour", "powdered sugar", "large eggs"]);
+    expect(recipe?.instructions).toEqual(["Press the crust into the pan.", "Bake until golden."]);
+  });
+
+  it("falls back to headings and lists", () => {
+    const recipe = parseRecipeHtml(fixture("plain.html"));
+
+    expect(recipe).toMatchObject({
+      title: "Grandma's Pancakes",
+      description: "Fluffy Sunday pancakes.",
+      servings: null,
+      method: "heuristic",
+    });
+    expect(recipe?.ingredients).toEqual([
+      { name: "flour", quantity: 1.5, unit: "cup" },
+      { name: "baking powder", quantity: 2, unit: "tsp" },
+      { name: "milk", quantity: 1, unit: "cup" },
+    ]);
+    expect(recipe?.instructions).toEqual([
+      "Whisk the dry ingredients.",
+      "Stir in the milk and cook on a hot griddle.",
+    ]);
+  });
+
+  it("returns null for pages without a recipe", () => {
+    expect(parseRecipeHtml(fixture("no-recipe.html"))).toBeNull();
+  });
+});
+
+describe("resolvePublicUrl", () => {
+  it.each([
+    ["loopback", "http://127.0.0.1/recipe"],
+    ["IPv6 loopback", "http://[::1]/recipe"],
+    ["link-local metadata", "http://169.254.169.254/latest/meta-data"],
+    ["IPv6 link-local", "http://[fe80::1]/"],
+    ["private network", "https://192.168.1.20/"],
+    ["IPv4-mapped loopback", "http://[::ffff:127.0.0.1]/"],
+    ["IPv4-mapped metadata", "http://[::ffff:169.254.169.254]/"],
+    ["IPv4-mapped in hex", "http://[::ffff:7f00:1]/"],
+  ])("rejects %s URLs", async (_label, url) => {
+    await expect(resolvePublicUrl(url)).rejects.toMatchObject({ errorCode: "INVALID_URL" });
+  });
+
+  it("rejects schemes other than http and https", async () => {
+    await expect(resolvePublicUrl("file:///etc/passwd")).rejects.toMatchObject({ errorCode: "INVALID_URL" });
+  });
+
+  it("pins public addresses for the fetch", async () => {
+    const target = await resolvePublicUrl("https://93.184.216.34/recipe");
+    expect(target).toMatchObject({ address: "93.184.216.34", family: 4 });
+    expect(target.url.pathname).toBe("/recipe");
+  });
+});
+
+describe("isPrivateAddress", () => {
+  it("treats mapped IPv4 addresses like the address they carry", () => {
+    expect(isPrivateAddress("::ffff:10.0.0.1")).toBe(true);
+    expect(isPrivateAddress("::ffff:a00:1")).toBe(true);
+    expect(isPrivateAddress("::ffff:8.8.8.8")).toBe(false);
+    expect(isPrivateAddress("2606:4700::1111")).toBe(false);
+  });
+});
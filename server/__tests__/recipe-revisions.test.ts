@@ -0,0 +1,76 @@
+import { describe, it, expect } from "@jest/globals";
+import { diffLines, diffRecipeSnapshots, sameContent, snapshotFromRecipe } from "../lib/recipe-revisions";
+
+const original = snapshotFromRecipe({
+  title: "Tomato Soup",
+  description: "Weeknight soup",
+  ingredients: [
+    { name: "tomatoes", quantity: 2, unit: "can", availabilityStatus: "available" },
+    { name: "onion", quantity: 1, unit: "", preparation: "diced" },
+    { name: "salt", quantity: 0, unit: "" },
+  ],
+  instructions: ["Soften the onion.", "Add tomatoes and simmer 20 minutes.", "Blend."],
+  prepTime: 10,
+  cookTime: 25,
+  servings: 4,
+});
+
+describe("snapshotFromRecipe", () => {
+  it("keeps only the editable content", () => {
+    expect(original.ingredients[0]).toEqual({ name: "tomatoes", quantity: 2, unit: "can" });
+    expect(original.notes).toBeNull();
+  });
+
+  it("ignores changes outside the content, like availability", () => {
+    const reloaded = snapshotFromRecipe({
+      title: "Tomato Soup",
+      description: "Weeknight soup",
+      ingredients: [
+        { name: "tomatoes", quantity: 2, unit: "can", availabilityStatus: "unavailable" },
+        { name: "onion", quantity: 1, unit: "", preparation: "diced" },
+        { name: "salt", quantity: 0, unit: "" },
+      ],
+      instructions: original.instructions,
+      prepTime: 10,
+      cookTime: 25,
+      servings: 4,
+    });
+    expect(sameContent(original, reloaded)).toBe(true);
+  });
+});
+
+describe("diffLines", () => {
+  it("marks removed and added lines around unchanged ones", () => {
+    expect(diffLines(["a", "b", "c"], ["a", "x", "c", "d"])).toEqual([
+      { type: "same", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "added", text: "x" },
+      { type: "same", text: "c" },
+      { type: "added", text: "d" },
+    ]);
+  });
+});
+
+describe("diffRecipeSnapshots", () => {
+  it("reports changed fields, ingredient lines and steps", () => {
+    const edited = {
+      ...original,
+      notes: "Add a splash of cream.",
+      servings: 6,
+      ingredients: [original.ingredients[0], { name: "onion", quantity: 2, unit: "", preparation: "diced" }, original.ingredients[2]],
+      instructions: [...original.instructions, "Season with salt."],
+    };
+
+    const diff = diffRecipeSnapshots(original, edited);
+
+    expect(diff.fields).toEqual([
+      { field: "notes", before: null, after: "Add a splash of cream." },
+      { field: "servings", before: 4, after: 6 },
+    ]);
+    expect(diff.ingredients.filter((line) => line.type !== "same")).toEqual([
+      { type: "removed", text: "1 onion, diced" },
+      { type: "added", text: "2 onion, diced" },
+    ]);
+    expect(diff.instructions[3]).toEqual({ type: "added", text: "Season with salt." });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  formatKitchenQuantity,
+  roundToFraction,
+  scaleIngredient,
+  scaleRecipe,
+} from "../lib/recipe-scaling";
+
+describe("formatKitchenQuantity", () => {
+  it("writes kitchen fractions", () => {
+    expect(formatKitchenQuantity(1.5)).toBe("1 1/2");
+    expect(formatKitchenQuantity(1 / 3)).toBe("1/3");
+    expect(formatKitchenQuantity(2)).toBe("2");
+    expect(formatKitchenQuantity(1.3)).toBe("1.3");
+  });
+
+  it("never rounds an amount away to nothing", () => {
+    expect(roundToFraction(0.01, [2, 4, 8])).toBe(1 / 8);
+  });
+});
+
+describe("scaleIngredient", () => {
+  it("keeps countable items whole", () => {
+    const eggs = scaleIngredient({ name: "eggs", quantity: 1, unit: "" }, 1 / 3, "imperial");
+    expect(eggs.quantity).toBe(1);
+    expect(eggs.display).toBe("1");
+
+    const cloves = scaleIngredient({ name: "garlic", quantity: 3, unit: "cloves" }, 1.5, "imperial");
+    expect(cloves.quantity).toBe(5);
+  });
+
+  it("keeps halves when the recipe already used them", () => {
+    const lemon = scaleIngredient({ name: "lemon", quantity: 0.5, unit: "" }, 3, "imperial");
+    expect(lemon.display).toBe("1 1/2");
+  });
+
+  it("moves tablespoons up to cups", () => {
+    const flour = scaleIngredient({ name: "flour", quantity: 8, unit: "tbsp" }, 3, "imperial");
+    expect(flour).toMatchObject({ unit: "cup", display: "1 1/2" });
+  });
+
+  it("rounds odd tablespoon amounts to a half", () => {
+    const oil = scaleIngredient({ name: "olive oil", quantity: 4, unit: "tbsp" }, 4 / 6, "imperial");
+    expect(oil).toMatchObject({ unit: "tbsp", display: "2 1/2" });
+  });
+
+  it("converts to metric and moves grams up to kilograms", () => {
+    const milk = scaleIngredient({ name: "milk", quantity: 1, unit: "cup" }, 2, "metric");
+    expect(milk).toMatchObject({ unit: "ml", display: "470" });
+
+    const beef = scaleIngredient({ name: "beef", quantity: 600, unit: "g" }, 2, "metric");
+    expect(beef).toMatchObject({ unit: "kg", display: "1.2" });
+  });
+
+  it("converts metric weights to ounces and pounds", () => {
+    expect(scaleIngredient({ name: "pasta", quantity: 250, unit: "g" }, 1, "imperial")).toMatchObject({
+      unit: "oz",
+      display: "8 3/4",
+    });
+    expect(scaleIngredient({ name: "chicken", quantity: 500, unit: "g" }, 2, "imperial")).toMatchObject({
+      unit: "lb",
+      display: "2 1/4",
+    });
+  });
+
+  it("leaves amounts without a quantity alone", () => {
+    const salt = scaleIngredient({ name: "salt", quantity: 0, unit: "" }, 2, "imperial");
+    expect(salt.display).toBe("");
+    expect(salt.nonLinear).toBe("seasoning");
+  });
+});
+
+describe("scaleRecipe", () => {
+  it("flags leaveners, seasonings and oven times when the size changes", () => {
+    const result = scaleRecipe(
+      [
+        { name: "baking soda", quantity: 1, unit: "tsp" },
+        { name: "kosher salt", quantity: 1, unit: "tsp" },
+        { name: "red bell pepper", quantity: 1, unit: "" },
+        { name: "flour", quantity: 2, unit: "cups" },
+      ],
+      4,
+      8,
+      "imperial",
+      ["Bake for 25 minutes."],
+    );
+
+    expect(result.factor).toBe(2);
+    expect(result.ingredients.map((i) => i.nonLinear)).toEqual(["leavener", "seasoning", null, null]);
+    expect(result.warnings).toHaveLength(3);
+  });
+
+  it("has nothing to warn about at the original size", () => {
+    const result = scaleRecipe([{ name: "salt", quantity: 1, unit: "tsp" }], 4, 4, "imperial", ["Bake."]);
+    expect(result.warnings).toEqual([]);
+    expect(result.ingredients[0].nonLinear).toBeNull();
+  });
+});
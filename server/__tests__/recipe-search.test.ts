@@ -0,0 +1,108 @@
+import { describe, it, expect } from "@jest/globals";
+import { buildSearchFacets, checkCanMakeNow, readFacetFields } from "../lib/recipe-search";
+
+const inventory = [
+  { itemId: "pasta", name: "spaghetti", quantity: 500, unit: "g" },
+  { itemId: "tomato", name: "canned tomatoes", quantity: 2, unit: "can" },
+  { itemId: "salt", name: "salt", quantity: 1, unit: "kg" },
+];
+
+const recipes = [
+  {
+    recipeId: "spaghetti",
+    prepTime: 5,
+    cookTime: 15,
+    ingredients: [
+      { name: "spaghetti", quantity: 200, unit: "g" },
+      { name: "canned tomatoes", quantity: 1, unit: "can" },
+      { name: "salt", quantity: "to taste", unit: "" },
+      { name: "basil", quantity: 1, unit: "handful", isOptional: true },
+    ],
+    extraData: { cuisine: "Italian", dietaryTags: ["Vegetarian", "Vegan"], requiredCookware: ["Pot"] },
+  },
+  {
+    recipeId: "lasagna",
+    prepTime: 30,
+    cookTime: 60,
+    ingredients: [
+      { name: "lasagna sheets", quantity: 12, unit: "" },
+      { name: "canned tomatoes", quantity: 2, unit: "can" },
+    ],
+    extraData: { cuisine: "italian", dietaryTags: ["Vegetarian"], requiredCookware: ["Oven", "pot"] },
+  },
+  {
+    recipeId: "salad",
+    prepTime: 10,
+    cookTime: null,
+    ingredients: [{ name: "lettuce", quantity: 1, unit: "head" }],
+    extraData: null,
+  },
+];
+
+describe("readFacetFields", () => {
+  it("reads cuisine, tags and cookware from extra data", () => {
+    const fields = readFacetFields(recipes[0]);
+    expect(fields.cuisine).toBe("Italian");
+    expect(fields.dietaryTags).toEqual(["Vegetarian", "Vegan"]);
+    expect(fields.requiredCookware).toEqual(["Pot"]);
+    expect(fields.totalTime).toBe(20);
+  });
+
+  it("leaves fields empty when extra data is missing or malformed", () => {
+    const fields = readFacetFields({ prepTime: null, cookTime: null, extraData: { dietaryTags: "vegan", cuisine: " " } });
+    expect(fields).toEqual({ cuisine: null, dietaryTags: [], requiredCookware: [], totalTime: null });
+  });
+});
+
+describe("checkCanMakeNow", () => {
+  it("accepts a recipe when inventory covers every required ingredient", () => {
+    expect(checkCanMakeNow(recipes[0].ingredients, inventory)).toEqual({ canMakeNow: true, missingIngredients: [] });
+  });
+
+  it("lists ingredients that are missing or short", () => {
+    const result = checkCanMakeNow(recipes[1].ingredients, [
+      ...inventory.slice(0, 1),
+      { itemId: "tomato", name: "canned tomatoes", quantity: 1, unit: "can" },
+    ]);
+    expect(result.canMakeNow).toBe(false);
+    expect(result.missingIngredients).toEqual(["lasagna sheets", "canned tomatoes"]);
+  });
+
+  it("needs a matching item for to-taste ingredients", () => {
+    const result = checkCanMakeNow(recipes[0].ingredients, inventory.slice(0, 2));
+    expect(result.missingIngredients).toEqual(["salt"]);
+  });
+
+  it("never offers a recipe without ingredients", () => {
+    expect(checkCanMakeNow([], inventory).canMakeNow).toBe(false);
+    expect(checkCanMakeNow(null, inventory).canMakeNow).toBe(false);
+  });
+});
+
+describe("buildSearchFacets", () => {
+  const facets = buildSearchFacets(recipes, inventory);
+
+  it("counts values case-insensitively, most common first", () => {
+    expect(facets.cuisines).toEqual([{ value: "Italian", count: 2 }]);
+    expect(facets.dietaryTags).toEqual([
+      { value: "Vegetarian", count: 2 },
+      { value: "Vegan", count: 1 },
+    ]);
+    expect(facets.cookware).toEqual([
+      { value: "Pot", count: 2 },
+      { value: "Oven", count: 1 },
+    ]);
+  });
+
+  it("buckets total time cumulatively", () => {
+    expect(facets.totalTime).toEqual([
+      { value: "15", count: 1 },
+      { value: "30", count: 2 },
+      { value: "60", count: 2 },
+    ]);
+  });
+
+  it("counts the recipes that can be made now", () => {
+    expect(facets.canMakeNow).toBe(1);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  collectIngredientNeeds,
+  mergeIngredientNeeds,
+  subtractInventory,
+  buildShoppingListFromPlans,
+  type PlannedRecipe,
+  type ShoppingInventoryItem,
+} from "../lib/shopping-list-generation";
+
+const pancakes: PlannedRecipe = {
+  itemId: "pancakes",
+  title: "Pancakes",
+  servings: 2,
+  ingredients: [
+    { name: "Flour", quantity: 200, unit: "g" },
+    { name: "Milk", quantity: 1, unit: "cup" },
+    { name: "Eggs", quantity: 2, unit: "" },
+    { name: "Blueberries", quantity: 50, unit: "g", isOptional: true },
+    { name: "Salt", quantity: "to taste", unit: "" },
+  ],
+};
+
+const bread: PlannedRecipe = {
+  itemId: "bread",
+  title: "Bread",
+  servings: 4,
+  ingredients: [
+    { name: "flour", quantity: 0.5, unit: "kg" },
+    { name: "Yeast", quantity: 1, unit: "packet" },
+  ],
+};
+
+const recipesById = new Map([pancakes, bread].map((r) => [r.itemId, r]));
+
+describe("collectIngredientNeeds", () => {
+  it("scales each planned recipe to the household size and skips optional ingredients", () => {
+    const needs = collectIngredientNeeds(
+      [{ date: "2026-10-19", meals: { breakfast: "pancakes", dinner: "unknown" } }],
+      recipesById,
+      4,
+    );
+
+    expect(needs.map((n) => [n.name, n.quantity, n.unit])).toEqual([
+      ["Flour", 400, "g"],
+      ["Milk", 2, "cup"],
+      ["Eggs", 4, ""],
+      ["Salt", null, ""],
+    ]);
+    expect(needs.every((n) => n.recipeIds[0] === "pancakes")).toBe(true);
+  });
+
+  it("counts a recipe once per planned meal", () => {
+    const needs = collectIngredientNeeds(
+      [
+        { date: "2026-10-19", meals: { breakfast: "pancakes" } },
+        { date: "2026-10-20", meals: { breakfast: "pancakes" } },
+      ],
+      recipesById,
+      2,
+    );
+
+    expect(needs.filter((n) => n.name === "Flour")).toHaveLength(2);
+  });
+});
+
+describe("mergeIngredientNeeds", () => {
+  it("adds convertible amounts in the first unit seen and keeps every recipe link", () => {
+    const [flour] = mergeIngredientNeeds([
+      { name: "Flour", quantity: 200, unit: "g", recipeIds: ["pancakes"] },
+      { name: "flour", quantity: 0.5, unit: "kg", recipeIds: ["bread"] },
+    ]);
+
+    expect(flour.quantity).toBeCloseTo(700);
+    expect(flour.unit).toBe("g");
+    expect(flour.recipeIds).toEqual(["pancakes", "bread"]);
+  });
+
+  it("falls back to grams across weight and volume", () => {
+    const [butter] = mergeIngredientNeeds([
+      { name: "Butter", quantity: 2, unit: "tbsp", recipeIds: ["a"] },
+      { name: "Butter", quantity: 100, unit: "g", recipeIds: ["b"] },
+    ]);
+
+    expect(butter.unit).toBe("g");
+    expect(butter.quantity).toBeCloseTo(130);
+  });
+
+  it("keeps unrelated units apart and drops unmeasured needs covered by a measured one", () => {
+    const merged = mergeIngredientNeeds([
+      { name: "Garlic", quantity: 2, unit: "clove", recipeIds: ["a"] },
+      { name: "Garlic", quantity: 1, unit: "head", recipeIds: ["b"] },
+      { name: "Garlic", quantity: null, unit: "", recipeIds: ["c"] },
+      { name: "Pepper", quantity: null, unit: "", recipeIds: ["c"] },
+    ]);
+
+    expect(merged.map((n) => [n.name, n.quantity, n.unit])).toEqual([
+      ["Garlic", 2, "clove"],
+      ["Garlic", 1, "head"],
+      ["Pepper", null, ""],
+    ]);
+  });
+});
+
+describe("subtractInventory", () => {
+  const inventory: ShoppingInventoryItem[] = [
+    { itemId: "flour", name: "Flour", quantity: 0.25, unit: "kg", category: "Pantry" },
+    { itemId: "eggs", name: "Eggs", quantity: 12, unit: "unit", category: "Dairy" },
+    { itemId: "salt", name: "Sea Salt", quantity: 1, unit: "jar", category: "Pantry" },
+  ];
+
+  it("buys only the shortfall, converting between units", () => {
+    const [flour] = subtractInventory(
+      [{ name: "Flour", quantity: 700, unit: "g", recipeIds: ["a"] }],
+      inventory,
+    );
+
+    expect(flour.quantity).toBeCloseTo(450);
+    expect(flour.unit).toBe("g");
+    expect(flour.category).toBe("Pantry");
+  });
+
+  it("drops needs fully covered by inventory, including unmeasured ones in stock", () => {
+    const items = subtractInventory(
+      [
+        { name: "Eggs", quantity: 4, unit: "", recipeIds: ["a"] },
+        { name: "Salt", quantity: null, unit: "", recipeIds: ["a"] },
+        { name: "Yeast", quantity: null, unit: "", recipeIds: ["b"] },
+      ],
+      inventory,
+    );
+
+    expect(items.map((i) => [i.name, i.quantity])).toEqual([["Yeast", 1]]);
+  });
+
+  it("lets later needs see what earlier ones used", () => {
+    const items = subtractInventory(
+      [
+        { name: "Eggs", quantity: 8, unit: "", recipeIds: ["a"] },
+        { name: "Eggs", quantity: 8, unit: "", recipeIds: ["b"] },
+      ],
+      inventory,
+    );
+
+    expect(items).toHaveLength(1);
+    expect(items[0].quantity).toBe(4);
+    expect(items[0].recipeIds).toEqual(["b"]);
+  });
+});
+
+describe("buildShoppingListFromPlans", () => {
+  it("groups the list by category with uncategorized items last", () => {
+    const items = buildShoppingListFromPlans(
+      [{ date: "2026-10-19", meals: { breakfast: "pancakes", dinner: "bread" } }],
+      [pancakes, bread],
+      [
+        { itemId: "flour", name: "Flour", quantity: 100, unit: "g", category: "Pantry" },
+        { itemId: "milk", name: "Milk", quantity: 0, unit: "cup", category: "Dairy" },
+      ],
+      2,
+    );
+
+    expect(items.map((i) => [i.category, i.name])).toEqual([
+      ["Dairy", "Milk"],
+      ["Pantry", "Flour"],
+      [null, "Eggs"],
+      [null, "Salt"],
+      [null, "Yeast"],
+    ]);
+    const flour = items.find((i) => i.name === "Flour")!;
+    expect(flour.quantity).toBeCloseTo(350);
+    expect(flour.recipeIds).toEqual(["pancakes", "bread"]);
+  });
+});
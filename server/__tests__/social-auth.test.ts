@@ -0,0 +1,128 @@
+import { describe, it, expect } from "@jest/globals";
+import { createHash, createSign, generateKeyPairSync } from "crypto";
+import { verifyIdToken, UNKNOWN_SIGNING_KEY, type SigningKey } from "../lib/id-token";
+import { canRemovePasskey, canUnlinkProvider, countLoginMethods, decideSocialSignIn } from "../lib/login-methods";
+import { AppError } from "../middleware/errorHandler";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const signingKey: SigningKey = { ...publicKey.export({ format: "jwk" }), kid: "test-key", alg: "RS256" };
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+const nowSeconds = Math.floor(NOW.getTime() / 1000);
+
+const baseOptions = {
+  keys: [signingKey],
+  issuers: ["https://appleid.apple.com"],
+  audiences: ["com.chefspaice.chefspaice"],
+  now: NOW,
+};
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function signToken(claims: Record<string, unknown>, header: Record<string, unknown> = {}): string {
+  const unsigned = `${encode({ alg: "RS256", kid: "test-key", ...header })}.${encode({
+    iss: "https://appleid.apple.com",
+    aud: "com.chefspaice.chefspaice",
+    sub: "apple-user-1",
+    iat: nowSeconds - 10,
+    exp: nowSeconds + 600,
+    ...claims,
+  })}`;
+  const signature = createSign("RSA-SHA256").update(unsigned).sign(privateKey).toString("base64url");
+  return `${unsigned}.${signature}`;
+}
+
+function errorCode(fn: () => unknown): string | undefined {
+  try {
+    fn();
+  } catch (error) {
+    return error instanceof AppError ? error.errorCode : "NOT_APP_ERROR";
+  }
+  return undefined;
+}
+
+describe("verifyIdToken", () => {
+  it("returns the identity from a valid token", () => {
+    const token = signToken({ email: "Sam@Example.com", email_verified: "true", is_private_email: "false" });
+    expect(verifyIdToken(token, baseOptions)).toEqual({
+      subject: "apple-user-1",
+      email: "sam@example.com",
+      emailVerified: true,
+      name: null,
+      isPrivateEmail: false,
+    });
+  });
+
+  it("accepts a raw or hashed nonce", () => {
+    const hashed = createHash("sha256").update("raw-nonce").digest("hex");
+    expect(verifyIdToken(signToken({ nonce: hashed }), { ...baseOptions, nonce: "raw-nonce" }).subject).toBe("apple-user-1");
+    expect(verifyIdToken(signToken({ nonce: "raw-nonce" }), { ...baseOptions, nonce: "raw-nonce" }).subject).toBe("apple-user-1");
+    expect(errorCode(() => verifyIdToken(signToken({ nonce: "other" }), { ...baseOptions, nonce: "raw-nonce" }))).toBe("INVALID_ID_TOKEN");
+  });
+
+  it("rejects expired tokens and wrong issuers or audiences", () => {
+    expect(errorCode(() => verifyIdToken(signToken({ exp: nowSeconds - 120 }), baseOptions))).toBe("ID_TOKEN_EXPIRED");
+    expect(errorCode(() => verifyIdToken(signToken({ iss: "https://evil.example" }), baseOptions))).toBe("INVALID_ID_TOKEN");
+    expect(errorCode(() => verifyIdToken(signToken({ aud: "com.other.app" }), baseOptions))).toBe("INVALID_ID_TOKEN");
+  });
+
+  it("rejects tampered payloads", () => {
+    const [header, , signature] = signToken({}).split(".");
+    const forged = `${header}.${encode({ iss: "https://appleid.apple.com", aud: "com.chefspaice.chefspaice", sub: "someone-else", exp: nowSeconds + 600 })}.${signature}`;
+    expect(errorCode(() => verifyIdToken(forged, baseOptions))).toBe("INVALID_ID_TOKEN");
+  });
+
+  it("flags unknown keys and unsupported algorithms", () => {
+    expect(errorCode(() => verifyIdToken(signToken({}, { kid: "rotated" }), baseOptions))).toBe(UNKNOWN_SIGNING_KEY);
+    expect(errorCode(() => verifyIdToken(signToken({}, { alg: "none" }), baseOptions))).toBe("INVALID_ID_TOKEN");
+    expect(errorCode(() => verifyIdToken("not-a-token", baseOptions))).toBe("INVALID_ID_TOKEN");
+  });
+});
+
+describe("login methods", () => {
+  it("never unlinks the last way to sign in", () => {
+    expect(countLoginMethods({ hasPassword: true, providers: ["google"], passkeyCount: 0 })).toBe(2);
+    expect(canUnlinkProvider({ hasPassword: true, providers: ["google"], passkeyCount: 0 }, "google")).toBe(true);
+    expect(canUnlinkProvider({ hasPassword: false, providers: ["google", "apple"], passkeyCount: 0 }, "apple")).toBe(true);
+    expect(canUnlinkProvider({ hasPassword: false, providers: ["google"], passkeyCount: 0 }, "google")).toBe(false);
+    expect(canUnlinkProvider({ hasPassword: true, providers: [], passkeyCount: 0 }, "apple")).toBe(false);
+  });
+
+  it("counts passkeys as sign-in methods", () => {
+    expect(canUnlinkProvider({ hasPassword: false, providers: ["google"], passkeyCount: 1 }, "google")).toBe(true);
+    expect(canRemovePasskey({ hasPassword: false, providers: [], passkeyCount: 2 })).toBe(true);
+    expect(canRemovePasskey({ hasPassword: false, providers: [], passkeyCount: 1 })).toBe(false);
+    expect(canRemovePasskey({ hasPassword: true, providers: [], passkeyCount: 0 })).toBe(false);
+  });
+});
+
+describe("decideSocialSignIn", () => {
+  const passwordAccount = { userId: "user-1", hasPassword: true };
+
+  it("logs into an already linked account", () => {
+    expect(decideSocialSignIn({ linkedUserId: "user-2", emailMatch: passwordAccount, emailVerified: false, passwordVerified: false }))
+      .toEqual({ action: "login", userId: "user-2" });
+  });
+
+  it("creates an account when nobody has the email", () => {
+    expect(decideSocialSignIn({ linkedUserId: null, emailMatch: null, emailVerified: true, passwordVerified: false }))
+      .toEqual({ action: "create" });
+  });
+
+  it("only merges into a password account once the password is proven", () => {
+    expect(decideSocialSignIn({ linkedUserId: null, emailMatch: passwordAccount, emailVerified: true, passwordVerified: false }))
+      .toEqual({ action: "password_required" });
+    expect(decideSocialSignIn({ linkedUserId: null, emailMatch: passwordAccount, emailVerified: true, passwordVerified: true }))
+      .toEqual({ action: "link", userId: "user-1" });
+  });
+
+  it("merges password-less accounts on a verified email only", () => {
+    const socialOnly = { userId: "user-3", hasPassword: false };
+    expect(decideSocialSignIn({ linkedUserId: null, emailMatch: socialOnly, emailVerified: true, passwordVerified: false }))
+      .toEqual({ action: "link", userId: "user-3" });
+    expect(decideSocialSignIn({ linkedUserId: null, emailMatch: socialOnly, emailVerified: false, passwordVerified: false }))
+      .toEqual({ action: "email_unverified" });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  generateHotp,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  hashRecoveryCode,
+  isTotpCode,
+  timeStep,
+  verifyTotp,
+} from "../lib/totp";
+
+// RFC 6238 appendix B uses the ASCII secret "12345678901234567890" (SHA1).
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("base32", () => {
+  it("round-trips arbitrary bytes", () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+  });
+
+  it("matches the RFC 4648 test vectors", () => {
+    expect(base32Encode(Buffer.from("foobar"))).toBe("MZXW6YTBOI");
+    expect(base32Decode("mzxw 6ytb oi").toString()).toBe("foobar");
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => base32Decode("MZXW1")).toThrow();
+  });
+});
+
+describe("generateHotp / generateTotp", () => {
+  it("matches the RFC 4226 HOTP vectors", () => {
+    const key = Buffer.from("12345678901234567890");
+    expect(generateHotp(key, 0)).toBe("755224");
+    expect(generateHotp(key, 9)).toBe("520489");
+  });
+
+  it("matches the RFC 6238 TOTP vectors truncated to 6 digits", () => {
+    expect(generateTotp(RFC_SECRET, 59_000)).toBe("287082");
+    expect(generateTotp(RFC_SECRET, 1_111_111_109_000)).toBe("081804");
+    expect(generateTotp(RFC_SECRET, 2_000_000_000_000)).toBe("279037");
+  });
+
+  it("generates 32-character base32 secrets", () => {
+    expect(generateTotpSecret()).toMatch(/^[A-Z2-7]{32}$/);
+  });
+});
+
+describe("verifyTotp", () => {
+  const now = 1_700_000_000_000;
+  const step = timeStep(now);
+
+  it("accepts the current code and one step of drift either way", () => {
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now), null, now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 30_000), null, now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now + 30_000), null, now)).toBe(step + 1);
+  });
+
+  it("rejects codes outside the window or malformed input", () => {
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 90_000), null, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "12345", null, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef", null, now)).toBeNull();
+  });
+
+  it("rejects a code whose step was already used", () => {
+    const code = generateTotp(RFC_SECRET, now);
+    expect(verifyTotp(RFC_SECRET, code, step, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, code, step - 1, now)).toBe(step);
+  });
+});
+
+describe("buildOtpAuthUri", () => {
+  it("encodes the issuer, account and parameters", () => {
+    const uri = new URL(buildOtpAuthUri("JBSWY3DPEHPK3PXP", "cook@example.com"));
+    expect(uri.protocol).toBe("otpauth:");
+    expect(uri.host).toBe("totp");
+    expect(decodeURIComponent(uri.pathname)).toBe("/ChefSpAIce:cook@example.com");
+    expect(uri.searchParams.get("secret")).toBe("JBSWY3DPEHPK3PXP");
+    expect(uri.searchParams.get("issuer")).toBe("ChefSpAIce");
+    expect(uri.searchParams.get("digits")).toBe("6");
+  });
+});
+
+describe("recovery codes", () => {
+  it("generates distinct codes that are not mistaken for TOTP codes", () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    for (const code of codes) {
+      expect(code).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/);
+      expect(isTotpCode(code)).toBe(false);
+    }
+    expect(isTotpCode("123 456")).toBe(true);
+  });
+
+  it("hashes codes ignoring case and separators", () => {
+    expect(hashRecoveryCode("ABCDE-FGHJK")).toBe(hashRecoveryCode("abcdefghjk"));
+    expect(hashRecoveryCode("abcde-fghjk")).not.toBe(hashRecoveryCode("abcde-fghjm"));
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from "@jest/globals";
+import { createHash, generateKeyPairSync, sign, type KeyObject } from "crypto";
+import {
+  COSE_ALG_ES256,
+  decodeCbor,
+  readClientDataChallenge,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type RegistrationResponseJSON,
+} from "../lib/webauthn";
+import { AppError } from "../middleware/errorHandler";
+
+const RP_ID = "chefspaice.com";
+const ORIGIN = "https://chefspaice.com";
+const CHALLENGE = "c2VydmVyLWNoYWxsZW5nZQ";
+const expected = { challenge: CHALLENGE, origins: [ORIGIN], rpId: RP_ID };
+
+const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+const credentialId = Buffer.from("credential-0001");
+
+function cborHead(major: number, length: number): Buffer {
+  if (length < 24) return Buffer.from([(major << 5) | length]);
+  if (length < 0x100) return Buffer.from([(major << 5) | 24, length]);
+  const head = Buffer.alloc(3);
+  head.writeUInt8((major << 5) | 25);
+  head.writeUInt16BE(length, 1);
+  return head;
+}
+
+function cbor(value: unknown): Buffer {
+  if (typeof value === "number") return value >= 0 ? cborHead(0, value) : cborHead(1, -1 - value);
+  if (Buffer.isBuffer(value)) return Buffer.concat([cborHead(2, value.length), value]);
+  if (typeof value === "string") return Buffer.concat([cborHead(3, Buffer.byteLength(value)), Buffer.from(value)]);
+  if (Array.isArray(value)) return Buffer.concat([cborHead(4, value.length), ...value.map(cbor)]);
+  const entries = value instanceof Map ? [...value.entries()] : Object.entries(value as object);
+  return Buffer.concat([cborHead(5, entries.length), ...entries.flatMap(([k, v]) => [cbor(k), cbor(v)])]);
+}
+
+function coseKey(key: KeyObject): Map<number, unknown> {
+  const jwk = key.export({ format: "jwk" });
+  return new Map<number, unknown>([
+    [1, 2],
+    [3, COSE_ALG_ES256],
+    [-1, 1],
+    [-2, Buffer.from(jwk.x!, "base64url")],
+    [-3, Buffer.from(jwk.y!, "base64url")],
+  ]);
+}
+
+function authenticatorData(flags: number, signCount: number, attested?: Buffer): Buffer {
+  const header = Buffer.alloc(37);
+  createHash("sha256").update(RP_ID).digest().copy(header, 0);
+  header.writeUInt8(flags, 32);
+  header.writeUInt32BE(signCount, 33);
+  return attested ? Buffer.concat([header, attested]) : header;
+}
+
+function clientData(type: string, overrides: Record<string, unknown> = {}): string {
+  return Buffer.from(JSON.stringify({ type, challenge: CHALLENGE, origin: ORIGIN, ...overrides })).toString("base64url");
+}
+
+function registration(overrides: { clientData?: Record<string, unknown>; flags?: number } = {}): RegistrationResponseJSON {
+  const idLength = Buffer.alloc(2);
+  idLength.writeUInt16BE(credentialId.length);
+  const attested = Buffer.concat([Buffer.alloc(16), idLength, credentialId, cbor(coseKey(publicKey))]);
+  const authData = authenticatorData(overrides.flags ?? 0x45, 0, attested);
+
+  return {
+    id: credentialId.toString("base64url"),
+    type: "public-key",
+    response: {
+      clientDataJSON: clientData("webauthn.create", overrides.clientData),
+      attestationObject: cbor({ fmt: "none", attStmt: {}, authData }).toString("base64url"),
+      transports: ["internal", "hybrid"],
+    },
+  };
+}
+
+function assertion(signCount: number, signer: KeyObject = privateKey): AuthenticationResponseJSON {
+  const authData = authenticatorData(0x05, signCount);
+  const clientDataJSON = clientData("webauthn.get");
+  const clientDataHash = createHash("sha256").update(Buffer.from(clientDataJSON, "base64url")).digest();
+
+  return {
+    id: credentialId.toString("base64url"),
+    type: "public-key",
+    response: {
+      clientDataJSON,
+      authenticatorData: authData.toString("base64url"),
+      signature: sign("sha256", Buffer.concat([authData, clientDataHash]), signer).toString("base64url"),
+    },
+  };
+}
+
+function errorCode(fn: () => unknown): string | undefined {
+  try {
+    fn();
+  } catch (error) {
+    return error instanceof AppError ? error.errorCode : "NOT_APP_ERROR";
+  }
+  return undefined;
+}
+
+describe("decodeCbor", () => {
+  it("decodes maps with integer keys, byte strings and nested arrays", () => {
+    const decoded = decodeCbor(cbor(new Map<unknown, unknown>([[1, "a"], [-7, Buffer.from([1, 2])], ["list", [0, -300]]])));
+    expect(decoded).toEqual(new Map<unknown, unknown>([[1, "a"], [-7, Buffer.from([1, 2])], ["list", [0, -300]]]));
+  });
+
+  it("rejects truncated input", () => {
+    expect(errorCode(() => decodeCbor(Buffer.from([0x62, 0x61])))).toBe("INVALID_PASSKEY_RESPONSE");
+  });
+
+  it("rejects a length or float cut off before its bytes", () => {
+    expect(errorCode(() => decodeCbor(Buffer.from([0x19, 0x01])))).toBe("INVALID_PASSKEY_RESPONSE");
+    expect(errorCode(() => decodeCbor(Buffer.from([0x5a, 0x00, 0x00])))).toBe("INVALID_PASSKEY_RESPONSE");
+    expect(errorCode(() => decodeCbor(Buffer.from([0xfb, 0x3f, 0xf0])))).toBe("INVALID_PASSKEY_RESPONSE");
+  });
+});
+
+describe("verifyRegistrationResponse", () => {
+  it("extracts the credential from a none attestation", () => {
+    const verified = verifyRegistrationResponse(registration(), expected);
+    expect(verified).toMatchObject({
+      credentialId: credentialId.toString("base64url"),
+      algorithm: COSE_ALG_ES256,
+      signCount: 0,
+      backedUp: false,
+      transports: ["internal", "hybrid"],
+    });
+    expect(verified.publicKey).toBe(publicKey.export({ type: "spki", format: "der" }).toString("base64url"));
+  });
+
+  it("rejects a wrong challenge, origin or ceremony type", () => {
+    expect(errorCode(() => verifyRegistrationResponse(registration({ clientData: { challenge: "other" } }), expected))).toBe("INVALID_PASSKEY_RESPONSE");
+    expect(errorCode(() => verifyRegistrationResponse(registration({ clientData: { origin: "https://evil.example" } }), expected))).toBe("INVALID_PASSKEY_RESPONSE");
+    expect(errorCode(() => verifyRegistrationResponse(registration({ clientData: { type: "webauthn.get" } }), expected))).toBe("INVALID_PASSKEY_RESPONSE");
+  });
+
+  it("requires user verification and the right relying party", () => {
+    expect(errorCode(() => verifyRegistrationResponse(registration({ flags: 0x41 }), expected))).toBe("INVALID_PASSKEY_RESPONSE");
+    expect(errorCode(() => verifyRegistrationResponse(registration(), { ...expected, rpId: "other.example" }))).toBe("INVALID_PASSKEY_RESPONSE");
+  });
+});
+
+describe("verifyAuthenticationResponse", () => {
+  const stored = verifyRegistrationResponse(registration(), expected);
+
+  it("accepts a signature from the registered key", () => {
+    expect(verifyAuthenticationResponse(assertion(1), expected, stored)).toEqual({ signCount: 1, backedUp: false });
+    expect(readClientDataChallenge(assertion(1).response.clientDataJSON)).toBe(CHALLENGE);
+  });
+
+  it("rejects signatures from another key", () => {
+    const other = generateKeyPairSync("ec", { namedCurve: "P-256" }).privateKey;
+    expect(errorCode(() => verifyAuthenticationResponse(assertion(1, other), expected, stored))).toBe("INVALID_PASSKEY_RESPONSE");
+  });
+
+  it("detects a counter that does not advance", () => {
+    expect(errorCode(() => verifyAuthenticationResponse(assertion(4), expected, { ...stored, signCount: 4 }))).toBe("PASSKEY_COUNTER_MISMATCH");
+    expect(verifyAuthenticationResponse(assertion(0), expected, { ...stored, signCount: 0 }).signCount).toBe(0);
+  });
+});
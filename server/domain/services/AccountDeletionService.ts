@@ -7,9 +7,19 @@ import {
   subscriptions,
   userAppliances,
   authProviders,
+  passkeyCredentials,
+  webauthnChallenges,
+  userTwoFactor,
+  twoFactorRecoveryCodes,
+  twoFactorLoginChallenges,
+  trustedDevices,
+  apiKeys,
+  apiKeyRequestLogs,
   feedback,
   userInventoryItems,
   userSavedRecipes,
+  recipeRevisions,
+  recipeCookLogs,
   userMealPlans,
   userShoppingItems,
   userCookwareItems,
@@ -29,6 +39,7 @@ import { logger } from "../../lib/logger";
 import { clearAuthCookie } from "../../lib/session-utils";
 import { createEvent, type AccountDeleted } from "@shared/domain/events";
 import { sessionCache } from "../../lib/session-cache";
+import { leaveHousehold } from "./HouseholdService";
 
 export async function deleteAccount(userId: string, res: Response): Promise<AccountDeleted> {
   logger.info("Starting account deletion", { userId });
@@ -66,6 +77,13 @@ export async function deleteAccount(userId: string, res: Response): Promise<Acco
     .where(eq(userSessions.userId, userId));
   await Promise.all(userSessionRows.map((s) => sessionCache.delete(s.token)));
 
+  // Hand off household ownership before the cascade would delete it.
+  try {
+    await leaveHousehold(userId);
+  } catch (e) {
+    logger.warn("Error leaving household during account deletion", { userId, error: e instanceof Error ? e.message : String(e) });
+  }
+
   await db.transaction(async (tx) => {
     await tx.delete(notifications).where(eq(notifications.userId, userId));
     await tx.delete(conversionEvents).where(eq(conversionEvents.userId, userId));
@@ -74,6 +92,8 @@ export async function deleteAccount(userId: string, res: Response): Promise<Acco
     await tx.delete(nutritionCorrections).where(eq(nutritionCorrections.userId, userId));
     await tx.delete(feedback).where(eq(feedback.userId, userId));
     await tx.delete(userInventoryItems).where(eq(userInventoryItems.userId, userId));
+    await tx.delete(recipeRevisions).where(eq(recipeRevisions.userId, userId));
+    await tx.delete(recipeCookLogs).where(eq(recipeCookLogs.userId, userId));
     await tx.delete(userSavedRecipes).where(eq(userSavedRecipes.userId, userId));
     await tx.delete(userMealPlans).where(eq(userMealPlans.userId, userId));
     await tx.delete(userShoppingItems).where(eq(userShoppingItems.userId, userId));
@@ -83,6 +103,14 @@ export async function deleteAccount(userId: string, res: Response): Promise<Acco
     await tx.delete(userStorageLocations).where(eq(userStorageLocations.userId, userId));
     await tx.delete(userSyncKV).where(eq(userSyncKV.userId, userId));
     await tx.delete(authProviders).where(eq(authProviders.userId, userId));
+    await tx.delete(passkeyCredentials).where(eq(passkeyCredentials.userId, userId));
+    await tx.delete(webauthnChallenges).where(eq(webauthnChallenges.userId, userId));
+    await tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    await tx.delete(twoFactorLoginChallenges).where(eq(twoFactorLoginChallenges.userId, userId));
+    await tx.delete(trustedDevices).where(eq(trustedDevices.userId, userId));
+    await tx.delete(apiKeyRequestLogs).where(eq(apiKeyRequestLogs.userId, userId));
+    await tx.delete(apiKeys).where(eq(apiKeys.userId, userId));
     await tx.delete(userAppliances).where(eq(userAppliances.userId, userId));
     await tx.delete(subscriptions).where(eq(subscriptions.userId, userId));
     await tx.delete(userSyncData).where(eq(userSyncData.userId, userId));
@@ -12,6 +12,13 @@ import type { DomainEvent, UserSignedUp, UserLoggedIn } from "@shared/domain";
 import { createEvent, createEmail } from "@shared/domain";
 import { AppError } from "../../middleware/errorHandler";
 import { sessionCache } from "../../lib/session-cache";
+import {
+  checkSecondFactor,
+  createTwoFactorChallenge,
+  forgetTrustedDevicesForSessions,
+  redeemTwoFactorChallenge,
+  type TwoFactorChallenge,
+} from "./TwoFactorService";
 
 const BCRYPT_ROUNDS = 12;
 
@@ -27,6 +34,13 @@ export interface LoginResult {
   events: DomainEvent[];
 }
 
+export interface TwoFactorLoginResult extends LoginResult {
+  /** Set when the user asked to trust this device; the client sends it on later sign-ins. */
+  deviceToken: string | null;
+}
+
+type RequestMeta = { userAgent?: string; ipAddress?: string };
+
 export function validatePassword(password: string): string | null {
   if (password.length < 8) return "Password must be at least 8 characters";
   if (!/[A-Z]/.test(password)) return "Password must contain an uppercase letter";
@@ -45,7 +59,8 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
 
 export async function createSession(
   userId: string,
-  requestMeta?: { userAgent?: string; ipAddress?: string }
+  requestMeta?: RequestMeta,
+  options?: { twoFactorVerified?: boolean; trustedDeviceId?: string | null }
 ): Promise<{ rawToken: string; expiresAt: Date }> {
   const rawToken = generateToken();
   const hashedToken = hashToken(rawToken);
@@ -57,11 +72,35 @@ export async function createSession(
     userAgent: requestMeta?.userAgent || "unknown",
     ipAddress: anonymizeIpAddress(requestMeta?.ipAddress),
     expiresAt,
+    twoFactorVerifiedAt: options?.twoFactorVerified ? new Date() : null,
+    trustedDeviceId: options?.trustedDeviceId ?? null,
   });
 
   return { rawToken, expiresAt };
 }
 
+/** Starts the 7-day trial for a new account. Failures are logged, not thrown. */
+export async function startTrialSubscription(userId: string): Promise<void> {
+  try {
+    const now = new Date();
+    const trialEnd = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+    await createOrUpdateSubscription({
+      userId,
+      status: "trialing",
+      planType: "monthly",
+      currentPeriodStart: now,
+      currentPeriodEnd: trialEnd,
+      trialStart: now,
+      trialEnd: trialEnd,
+    });
+  } catch (subError) {
+    logger.error("Failed to create trial subscription (non-fatal)", {
+      userId,
+      error: subError instanceof Error ? subError.message : String(subError),
+    });
+  }
+}
+
 export async function registerWithEmail(
   email: string,
   password: string,
@@ -158,24 +197,7 @@ export async function registerWithEmail(
     return { newUser: createdUser, rawToken: rawTokenInner };
   });
 
-  try {
-    const now = new Date();
-    const trialEnd = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-    await createOrUpdateSubscription({
-      userId: newUser.id,
-      status: "trialing",
-      planType: "monthly",
-      currentPeriodStart: now,
-      currentPeriodEnd: trialEnd,
-      trialStart: now,
-      trialEnd: trialEnd,
-    });
-  } catch (subError) {
-    logger.error("Failed to create trial subscription (non-fatal)", {
-      userId: newUser.id,
-      error: subError instanceof Error ? subError.message : String(subError),
-    });
-  }
+  await startTrialSubscription(newUser.id);
 
   const event = createEvent<UserSignedUp>({
     type: "UserSignedUp",
@@ -191,11 +213,11 @@ export async function registerWithEmail(
 const MAX_FAILED_ATTEMPTS = 5;
 const LOCKOUT_DURATION_MS = 15 * 60 * 1000;
 
-export async function loginWithEmail(
-  email: string,
-  password: string,
-  requestMeta?: { userAgent?: string; ipAddress?: string }
-): Promise<LoginResult> {
+/**
+ * Checks an email and password, applying the failed-attempt lockout.
+ * Returns the user without starting a session.
+ */
+export async function verifyEmailPassword(email: string, password: string): Promise<User> {
   if (!email || !password) {
     throw AppError.badRequest("Email and password are required", "MISSING_CREDENTIALS");
   }
@@ -242,24 +264,79 @@ export async function loginWithEmail(
       .where(eq(users.id, user.id));
   }
 
-  const { rawToken } = await createSession(user.id, requestMeta);
+  return user;
+}
+
+/**
+ * Finishes a sign-in whose first factor passed: creates the session, or
+ * returns a pending challenge when the account has 2FA and the device is
+ * not trusted.
+ */
+export async function startLoginSession(
+  user: User,
+  provider: UserLoggedIn["provider"],
+  requestMeta?: RequestMeta,
+  deviceToken?: string | null
+): Promise<LoginResult | TwoFactorChallenge> {
+  const secondFactor = await checkSecondFactor(user.id, deviceToken);
+  if (secondFactor.required) {
+    return createTwoFactorChallenge(user.id, provider);
+  }
 
-  const event = createEvent<UserLoggedIn>({
-    type: "UserLoggedIn",
-    userId: user.id,
-    provider: "email",
+  const { rawToken } = await createSession(user.id, requestMeta, {
+    twoFactorVerified: secondFactor.trustedDeviceId !== null,
+    trustedDeviceId: secondFactor.trustedDeviceId,
   });
 
+  const event = createEvent<UserLoggedIn>({ type: "UserLoggedIn", userId: user.id, provider });
   return { user, rawToken, events: [event] };
 }
 
+export async function loginWithEmail(
+  email: string,
+  password: string,
+  requestMeta?: RequestMeta,
+  deviceToken?: string | null
+): Promise<LoginResult | TwoFactorChallenge> {
+  const user = await verifyEmailPassword(email, password);
+  return startLoginSession(user, "email", requestMeta, deviceToken);
+}
+
+/** Second login step: exchanges the pending challenge and a 2FA code for a session. */
+export async function completeTwoFactorLogin(
+  twoFactorToken: string,
+  code: string,
+  trustDevice: boolean,
+  requestMeta?: RequestMeta
+): Promise<TwoFactorLoginResult> {
+  const redeemed = await redeemTwoFactorChallenge(twoFactorToken, code, trustDevice, requestMeta?.userAgent);
+
+  const [user] = await db.select().from(users).where(eq(users.id, redeemed.userId)).limit(1);
+  if (!user) {
+    throw AppError.unauthorized("User not found", "USER_NOT_FOUND");
+  }
+
+  const { rawToken } = await createSession(user.id, requestMeta, {
+    twoFactorVerified: true,
+    trustedDeviceId: redeemed.trustedDeviceId,
+  });
+
+  const event = createEvent<UserLoggedIn>({ type: "UserLoggedIn", userId: user.id, provider: redeemed.provider });
+  return { user, rawToken, deviceToken: redeemed.deviceToken, events: [event] };
+}
+
 export async function revokeSession(
   sessionId: string,
   userId: string,
   currentToken?: string
 ): Promise<void> {
   const [session] = await db
-    .select({ id: userSessions.id, userId: userSessions.userId, token: userSessions.token })
+    .select({
+      id: userSessions.id,
+      userId: userSessions.userId,
+      token: userSessions.token,
+      trustedDeviceId: userSessions.trustedDeviceId,
+    })
     .from(userSessions)
     .where(and(eq(userSessions.id, sessionId), eq(userSessions.userId, userId)))
     .limit(1);
@@ -277,6 +354,7 @@ export async function revokeSession(
 
   await sessionCache.delete(session.token);
   await db.delete(userSessions).where(eq(userSessions.id, sessionId));
+  await forgetTrustedDevicesForSessions([session.trustedDeviceId]);
 }
 
 export async function revokeAllOtherSessions(
@@ -284,7 +362,7 @@ export async function revokeAllOtherSessions(
   currentTokenHash: string
 ): Promise<number> {
   const allSessions = await db
-    .select({ id: userSessions.id, token: userSessions.token })
+    .select({ id: userSessions.id, token: userSessions.token, trustedDeviceId: userSessions.trustedDeviceId })
     .from(userSessions)
     .where(eq(userSessions.userId, userId));
 
@@ -294,6 +372,7 @@ export async function revokeAllOtherSessions(
   if (otherSessionIds.length > 0) {
     await Promise.all(otherSessions.map((s) => sessionCache.delete(s.token)));
     await db.delete(userSessions).where(inArray(userSessions.id, otherSessionIds));
+    await forgetTrustedDevicesForSessions(otherSessions.map((s) => s.trustedDeviceId));
   }
 
   return otherSessionIds.length;
@@ -0,0 +1,493 @@
+import { randomBytes } from "crypto";
+import { db } from "../../db";
+import {
+  users,
+  households,
+  householdMembers,
+  householdInvites,
+  userInventoryItems,
+  userMealPlans,
+  userShoppingItems,
+} from "@shared/schema";
+import type { Household, HouseholdInvite } from "@shared/schema";
+import { eq, and, isNull, gt, asc } from "drizzle-orm";
+import { hashToken } from "../../lib/auth-utils";
+import { logger } from "../../lib/logger";
+import { AppError } from "../../middleware/errorHandler";
+import { nextSyncRevision, recordTombstones } from "../../routers/sync/sync-helpers";
+import type { HouseholdRole } from "@shared/domain";
+import {
+  getHouseholdMembership,
+  canManageHousehold,
+  isHouseholdRole,
+} from "./PermissionService";
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const INVITE_CODE_LENGTH = 8;
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface HouseholdMemberSummary {
+  userId: string;
+  displayName: string | null;
+  email: string;
+  role: HouseholdRole;
+  joinedAt: Date | null;
+}
+
+export interface HouseholdDetails {
+  household: Household;
+  role: HouseholdRole;
+  members: HouseholdMemberSummary[];
+  pendingInvites: Omit<HouseholdInvite, "codeHash">[];
+}
+
+export interface CreatedInvite {
+  invite: Omit<HouseholdInvite, "codeHash">;
+  code: string;
+}
+
+export function generateInviteCode(): string {
+  const bytes = randomBytes(INVITE_CODE_LENGTH);
+  let code = "";
+  for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+    code += INVITE_CODE_ALPHABET[bytes[i] % INVITE_CODE_ALPHABET.length];
+  }
+  return code;
+}
+
+export function normalizeInviteCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toUpperCase();
+}
+
+function stripCodeHash(
+  invite: HouseholdInvite,
+): Omit<HouseholdInvite, "codeHash"> {
+  const { codeHash: _codeHash, ...rest } = invite;
+  return rest;
+}
+
+async function requireMembership(userId: string) {
+  const membership = await getHouseholdMembership(userId);
+  if (!membership) {
+    throw AppError.notFound(
+      "You are not part of a household",
+      "HOUSEHOLD_NOT_FOUND",
+    );
+  }
+  return membership;
+}
+
+async function requireOwner(userId: string) {
+  const membership = await requireMembership(userId);
+  if (!canManageHousehold(membership.role)) {
+    throw AppError.forbidden(
+      "Only the household owner can do this",
+      "HOUSEHOLD_OWNER_REQUIRED",
+    );
+  }
+  return membership;
+}
+
+/**
+ * Moves a user's personal inventory, shopping and meal-plan rows into the
+ * household so the other members see them on their next sync.
+ */
+async function attachUserRows(tx: Tx, userId: string, householdId: string) {
+  await tx
+    .update(userInventoryItems)
+    .set({ householdId, updatedAt: new Date(), revision: nextSyncRevision() })
+    .where(
+      and(
+        eq(userInventoryItems.userId, userId),
+        isNull(userInventoryItems.householdId),
+      ),
+    );
+  await tx
+    .update(userMealPlans)
+    .set({ householdId, updatedAt: new Date(), revision: nextSyncRevision() })
+    .where(
+      and(eq(userMealPlans.userId, userId), isNull(userMealPlans.householdId)),
+    );
+  await tx
+    .update(userShoppingItems)
+    .set({ householdId, updatedAt: new Date(), revision: nextSyncRevision() })
+    .where(
+      and(
+        eq(userShoppingItems.userId, userId),
+        isNull(userShoppingItems.householdId),
+      ),
+    );
+}
+
+/**
+ * Takes back the rows a user added while in the household. Rows added by the
+ * remaining members stay shared.
+ */
+async function detachUserRows(tx: Tx, userId: string, householdId: string) {
+  const detached = { updatedAt: new Date(), householdId: null, revision: nextSyncRevision() };
+  const inventory = await tx
+    .update(userInventoryItems)
+    .set(detached)
+    .where(
+      and(
+        eq(userInventoryItems.userId, userId),
+        eq(userInventoryItems.householdId, householdId),
+      ),
+    )
+    .returning({ itemId: userInventoryItems.itemId });
+  const mealPlans = await tx
+    .update(userMealPlans)
+    .set(detached)
+    .where(
+      and(
+        eq(userMealPlans.userId, userId),
+        eq(userMealPlans.householdId, householdId),
+      ),
+    )
+    .returning({ itemId: userMealPlans.itemId });
+  const shoppingItems = await tx
+    .update(userShoppingItems)
+    .set(detached)
+    .where(
+      and(
+        eq(userShoppingItems.userId, userId),
+        eq(userShoppingItems.householdId, householdId),
+      ),
+    )
+    .returning({ itemId: userShoppingItems.itemId });
+
+  // The remaining members no longer see these rows, so tell their devices.
+  await recordTombstones(
+    [
+      ...inventory.map((r) => ({ dataType: "inventory", itemId: r.itemId })),
+      ...mealPlans.map((r) => ({ dataType: "mealPlans", itemId: r.itemId })),
+      ...shoppingItems.map((r) => ({ dataType: "shoppingList", itemId: r.itemId })),
+    ].map((entry) => ({ ...entry, userId, householdId })),
+    tx,
+  );
+}
+
+export async function getHouseholdForUser(
+  userId: string,
+): Promise<HouseholdDetails | null> {
+  const membership = await getHouseholdMembership(userId);
+  if (!membership) {
+    return null;
+  }
+
+  const [household] = await db
+    .select()
+    .from(households)
+    .where(eq(households.id, membership.householdId))
+    .limit(1);
+
+  if (!household) {
+    return null;
+  }
+
+  const memberRows = await db
+    .select({
+      userId: householdMembers.userId,
+      role: householdMembers.role,
+      joinedAt: householdMembers.joinedAt,
+      displayName: users.displayName,
+      email: users.email,
+    })
+    .from(householdMembers)
+    .innerJoin(users, eq(users.id, householdMembers.userId))
+    .where(eq(householdMembers.householdId, household.id))
+    .orderBy(asc(householdMembers.joinedAt));
+
+  const pendingInvites = canManageHousehold(membership.role)
+    ? await db
+        .select()
+        .from(householdInvites)
+        .where(
+          and(
+            eq(householdInvites.householdId, household.id),
+            isNull(householdInvites.acceptedAt),
+            gt(householdInvites.expiresAt, new Date()),
+          ),
+        )
+    : [];
+
+  return {
+    household,
+    role: membership.role,
+    members: memberRows.map((m) => ({
+      userId: m.userId,
+      displayName: m.displayName,
+      email: m.email,
+      role: isHouseholdRole(m.role) ? m.role : "viewer",
+      joinedAt: m.joinedAt,
+    })),
+    pendingInvites: pendingInvites.map(stripCodeHash),
+  };
+}
+
+export async function createHousehold(
+  userId: string,
+  name: string,
+): Promise<Household> {
+  const existing = await getHouseholdMembership(userId);
+  if (existing) {
+    throw AppError.conflict(
+      "You already belong to a household",
+      "HOUSEHOLD_ALREADY_MEMBER",
+    );
+  }
+
+  const household = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(households)
+      .values({ name, ownerId: userId })
+      .returning();
+    await tx
+      .insert(householdMembers)
+      .values({ householdId: created.id, userId, role: "owner" });
+    await attachUserRows(tx, userId, created.id);
+    return created;
+  });
+
+  logger.info("Household created", { householdId: household.id, userId });
+  return household;
+}
+
+export async function createInvite(
+  userId: string,
+  options: { role: Exclude<HouseholdRole, "owner">; email?: string },
+): Promise<CreatedInvite> {
+  const membership = await requireOwner(userId);
+
+  const code = generateInviteCode();
+  const [invite] = await db
+    .insert(householdInvites)
+    .values({
+      householdId: membership.householdId,
+      invitedBy: userId,
+      email: options.email?.toLowerCase() ?? null,
+      codeHash: hashToken(code),
+      role: options.role,
+      expiresAt: new Date(Date.now() + INVITE_TTL_MS),
+    })
+    .returning();
+
+  return { invite: stripCodeHash(invite), code };
+}
+
+export async function revokeInvite(
+  userId: string,
+  inviteId: string,
+): Promise<void> {
+  const membership = await requireOwner(userId);
+
+  const deleted = await db
+    .delete(householdInvites)
+    .where(
+      and(
+        eq(householdInvites.id, inviteId),
+        eq(householdInvites.householdId, membership.householdId),
+        isNull(householdInvites.acceptedAt),
+      ),
+    )
+    .returning({ id: householdInvites.id });
+
+  if (deleted.length === 0) {
+    throw AppError.notFound("Invite not found", "INVITE_NOT_FOUND");
+  }
+}
+
+export async function acceptInvite(
+  userId: string,
+  code: string,
+): Promise<HouseholdDetails> {
+  const existing = await getHouseholdMembership(userId);
+  if (existing) {
+    throw AppError.conflict(
+      "Leave your current household before joining another",
+      "HOUSEHOLD_ALREADY_MEMBER",
+    );
+  }
+
+  const [invite] = await db
+    .select()
+    .from(householdInvites)
+    .where(eq(householdInvites.codeHash, hashToken(normalizeInviteCode(code))))
+    .limit(1);
+
+  if (!invite || invite.acceptedAt) {
+    throw AppError.badRequest(
+      "Invalid or already used invite code",
+      "INVALID_INVITE",
+    );
+  }
+  if (invite.expiresAt.getTime() < Date.now()) {
+    throw AppError.badRequest("This invite has expired", "INVITE_EXPIRED");
+  }
+
+  if (invite.email) {
+    const [user] = await db
+      .select({ email: users.email })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    if (!user || user.email.toLowerCase() !== invite.email) {
+      throw AppError.forbidden(
+        "This invite was sent to a different email address",
+        "INVITE_EMAIL_MISMATCH",
+      );
+    }
+  }
+
+  const role: HouseholdRole = invite.role === "viewer" ? "viewer" : "member";
+
+  await db.transaction(async (tx) => {
+    const claimed = await tx
+      .update(householdInvites)
+      .set({ acceptedBy: userId, acceptedAt: new Date() })
+      .where(
+        and(
+          eq(householdInvites.id, invite.id),
+          isNull(householdInvites.acceptedAt),
+        ),
+      )
+      .returning({ id: householdInvites.id });
+
+    if (claimed.length === 0) {
+      throw AppError.badRequest(
+        "Invalid or already used invite code",
+        "INVALID_INVITE",
+      );
+    }
+
+    await tx
+      .insert(householdMembers)
+      .values({ householdId: invite.householdId, userId, role });
+
+    // Viewers can't write shared data, so their personal rows stay private.
+    if (role !== "viewer") {
+      await attachUserRows(tx, userId, invite.householdId);
+    }
+  });
+
+  logger.info("Household invite accepted", {
+    householdId: invite.householdId,
+    userId,
+    role,
+  });
+
+  const details = await getHouseholdForUser(userId);
+  if (!details) {
+    throw AppError.internal(
+      "Failed to load household after joining",
+      "HOUSEHOLD_JOIN_FAILED",
+    );
+  }
+  return details;
+}
+
+/**
+ * Removes a user from their household. If the owner leaves, ownership passes to
+ * the longest-standing member (members before viewers); the household is
+ * deleted once nobody is left.
+ */
+export async function leaveHousehold(userId: string): Promise<void> {
+  const membership = await getHouseholdMembership(userId);
+  if (!membership) {
+    return;
+  }
+
+  const { householdId } = membership;
+
+  await db.transaction(async (tx) => {
+    await detachUserRows(tx, userId, householdId);
+    await tx
+      .delete(householdMembers)
+      .where(eq(householdMembers.userId, userId));
+
+    if (membership.role !== "owner") {
+      return;
+    }
+
+    const remaining = await tx
+      .select({ userId: householdMembers.userId, role: householdMembers.role })
+      .from(householdMembers)
+      .where(eq(householdMembers.householdId, householdId))
+      .orderBy(asc(householdMembers.joinedAt));
+
+    if (remaining.length === 0) {
+      await tx.delete(households).where(eq(households.id, householdId));
+      return;
+    }
+
+    const successor =
+      remaining.find((m) => m.role === "member") ?? remaining[0];
+    await tx
+      .update(householdMembers)
+      .set({ role: "owner" })
+      .where(eq(householdMembers.userId, successor.userId));
+    await tx
+      .update(households)
+      .set({ ownerId: successor.userId, updatedAt: new Date() })
+      .where(eq(households.id, householdId));
+  });
+
+  logger.info("User left household", { householdId, userId });
+}
+
+export async function removeMember(
+  ownerId: string,
+  memberId: string,
+): Promise<void> {
+  const membership = await requireOwner(ownerId);
+  if (memberId === ownerId) {
+    throw AppError.badRequest(
+      "Use leave to remove yourself from the household",
+      "CANNOT_REMOVE_SELF",
+    );
+  }
+
+  const target = await getHouseholdMembership(memberId);
+  if (!target || target.householdId !== membership.householdId) {
+    throw AppError.notFound("Member not found", "MEMBER_NOT_FOUND");
+  }
+
+  await leaveHousehold(memberId);
+}
+
+export async function updateMemberRole(
+  ownerId: string,
+  memberId: string,
+  role: Exclude<HouseholdRole, "owner">,
+): Promise<void> {
+  const membership = await requireOwner(ownerId);
+  if (memberId === ownerId) {
+    throw AppError.badRequest(
+      "The owner's role cannot be changed",
+      "CANNOT_CHANGE_OWNER_ROLE",
+    );
+  }
+
+  const updated = await db
+    .update(householdMembers)
+    .set({ role })
+    .where(
+      and(
+        eq(householdMembers.userId, memberId),
+        eq(householdMembers.householdId, membership.householdId),
+      ),
+    )
+    .returning({ userId: householdMembers.userId });
+
+  if (updated.length === 0) {
+    throw AppError.notFound("Member not found", "MEMBER_NOT_FOUND");
+  }
+
+  if (role === "member") {
+    await db.transaction((tx) =>
+      attachUserRows(tx, memberId, membership.householdId),
+    );
+  }
+}
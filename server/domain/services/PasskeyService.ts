@@ -0,0 +1,366 @@
+import { randomBytes } from "crypto";
+import { db } from "../../db";
+import { passkeyCredentials, users, userSessions, webauthnChallenges } from "@shared/schema";
+import { and, asc, count, eq, gt, isNull } from "drizzle-orm";
+import { logger } from "../../lib/logger";
+import { createEvent, type User, type DomainEvent, type UserLoggedIn } from "@shared/domain";
+import { AppError } from "../../middleware/errorHandler";
+import { getAppBaseUrl } from "../../services/emailService";
+import { canRemovePasskey } from "../../lib/login-methods";
+import {
+  readClientDataChallenge,
+  SUPPORTED_ALGORITHMS,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type ExpectedCeremony,
+  type RegistrationResponseJSON,
+} from "../../lib/webauthn";
+import { createSession } from "./AuthenticationService";
+import { getLoginMethods } from "./SocialAuthService";
+
+type ChallengePurpose = "register" | "login" | "step_up";
+
+const RP_NAME = "ChefSpAIce";
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const CEREMONY_TIMEOUT_MS = 2 * 60 * 1000;
+/** How long a passkey confirmation unlocks destructive routes for the session. */
+export const STEP_UP_WINDOW_MS = 5 * 60 * 1000;
+
+export interface CredentialDescriptor {
+  id: string;
+  type: "public-key";
+  transports?: string[];
+}
+
+/** Options for `navigator.credentials.create()` / native passkey APIs, base64url-encoded. */
+export interface PasskeyRegistrationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: "public-key"; alg: number }[];
+  timeout: number;
+  attestation: "none";
+  authenticatorSelection: {
+    residentKey: "required";
+    requireResidentKey: true;
+    userVerification: "required";
+  };
+  excludeCredentials: CredentialDescriptor[];
+}
+
+export interface PasskeyRequestOptions {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  userVerification: "required";
+  allowCredentials: CredentialDescriptor[];
+}
+
+export interface PasskeySummary {
+  id: string;
+  name: string;
+  backedUp: boolean;
+  createdAt: string | null;
+  lastUsedAt: string | null;
+}
+
+export interface PasskeyLoginResult {
+  user: User;
+  rawToken: string;
+  events: DomainEvent[];
+}
+
+/**
+ * Relying party settings. WEBAUTHN_RP_ID defaults to the app's host;
+ * WEBAUTHN_ORIGINS lists every origin allowed to answer a ceremony, including
+ * native Android apps ("android:apk-key-hash:<hash>").
+ */
+function getRelyingParty(): { id: string; origins: string[] } {
+  const baseUrl = new URL(getAppBaseUrl());
+  const origins = process.env.WEBAUTHN_ORIGINS?.split(",").map((o) => o.trim()).filter(Boolean) ?? [];
+  return {
+    id: process.env.WEBAUTHN_RP_ID || baseUrl.hostname,
+    origins: origins.length > 0 ? origins : [baseUrl.origin],
+  };
+}
+
+async function issueChallenge(purpose: ChallengePurpose, userId: string | null): Promise<string> {
+  const challenge = randomBytes(32).toString("base64url");
+  await db.insert(webauthnChallenges).values({
+    challenge,
+    purpose,
+    userId,
+    expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS),
+  });
+  return challenge;
+}
+
+/** Deletes the pending challenge a response answers, so each one verifies at most once. */
+async function consumeChallenge(
+  clientDataJSON: string,
+  purpose: ChallengePurpose,
+  userId: string | null,
+): Promise<ExpectedCeremony> {
+  const challenge = readClientDataChallenge(clientDataJSON);
+
+  const [row] = await db
+    .delete(webauthnChallenges)
+    .where(and(
+      eq(webauthnChallenges.challenge, challenge),
+      eq(webauthnChallenges.purpose, purpose),
+      userId ? eq(webauthnChallenges.userId, userId) : isNull(webauthnChallenges.userId),
+      gt(webauthnChallenges.expiresAt, new Date()),
+    ))
+    .returning({ challenge: webauthnChallenges.challenge });
+
+  if (!row) {
+    throw AppError.badRequest("This passkey request has expired. Please try again.", "PASSKEY_CHALLENGE_EXPIRED");
+  }
+
+  const rp = getRelyingParty();
+  return { challenge: row.challenge, origins: rp.origins, rpId: rp.id };
+}
+
+function toDescriptor(row: { credentialId: string; transports: string[] | null }): CredentialDescriptor {
+  return {
+    id: row.credentialId,
+    type: "public-key",
+    ...(row.transports?.length ? { transports: row.transports } : {}),
+  };
+}
+
+function toSummary(row: typeof passkeyCredentials.$inferSelect): PasskeySummary {
+  return {
+    id: row.id,
+    name: row.name,
+    backedUp: row.backedUp,
+    createdAt: row.createdAt?.toISOString() ?? null,
+    lastUsedAt: row.lastUsedAt?.toISOString() ?? null,
+  };
+}
+
+export async function hasPasskeys(userId: string): Promise<boolean> {
+  const [row] = await db
+    .select({ total: count() })
+    .from(passkeyCredentials)
+    .where(eq(passkeyCredentials.userId, userId));
+  return (row?.total ?? 0) > 0;
+}
+
+export async function listPasskeys(userId: string): Promise<PasskeySummary[]> {
+  const rows = await db
+    .select()
+    .from(passkeyCredentials)
+    .where(eq(passkeyCredentials.userId, userId))
+    .orderBy(asc(passkeyCredentials.createdAt));
+  return rows.map(toSummary);
+}
+
+export async function getRegistrationOptions(userId: string): Promise<PasskeyRegistrationOptions> {
+  const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+  if (!user) {
+    throw AppError.notFound("User not found", "USER_NOT_FOUND");
+  }
+
+  const existing = await db
+    .select({ credentialId: passkeyCredentials.credentialId, transports: passkeyCredentials.transports })
+    .from(passkeyCredentials)
+    .where(eq(passkeyCredentials.userId, userId));
+
+  return {
+    challenge: await issueChallenge("register", userId),
+    rp: { id: getRelyingParty().id, name: RP_NAME },
+    user: {
+      id: Buffer.from(userId, "utf-8").toString("base64url"),
+      name: user.email,
+      displayName: user.displayName || user.email,
+    },
+    pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({ type: "public-key" as const, alg })),
+    timeout: CEREMONY_TIMEOUT_MS,
+    attestation: "none",
+    authenticatorSelection: {
+      residentKey: "required",
+      requireResidentKey: true,
+      userVerification: "required",
+    },
+    excludeCredentials: existing.map(toDescriptor),
+  };
+}
+
+export async function registerPasskey(
+  userId: string,
+  response: RegistrationResponseJSON,
+  name?: string,
+): Promise<PasskeySummary> {
+  const expected = await consumeChallenge(response.response.clientDataJSON, "register", userId);
+  const verified = verifyRegistrationResponse(response, expected);
+
+  const [existing] = await db
+    .select({ id: passkeyCredentials.id })
+    .from(passkeyCredentials)
+    .where(eq(passkeyCredentials.credentialId, verified.credentialId))
+    .limit(1);
+  if (existing) {
+    throw AppError.conflict("This passkey is already registered", "PASSKEY_ALREADY_REGISTERED");
+  }
+
+  const [created] = await db
+    .insert(passkeyCredentials)
+    .values({
+      userId,
+      credentialId: verified.credentialId,
+      publicKey: verified.publicKey,
+      algorithm: verified.algorithm,
+      signCount: verified.signCount,
+      transports: verified.transports,
+      backedUp: verified.backedUp,
+      name: name?.trim() || "Passkey",
+    })
+    .returning();
+
+  logger.info("Passkey registered", { userId, passkeyId: created.id });
+  return toSummary(created);
+}
+
+/** Removes a passkey, refusing to remove the user's last way to sign in. */
+export async function removePasskey(userId: string, passkeyId: string): Promise<PasskeySummary[]> {
+  const [passkey] = await db
+    .select({ id: passkeyCredentials.id })
+    .from(passkeyCredentials)
+    .where(and(eq(passkeyCredentials.id, passkeyId), eq(passkeyCredentials.userId, userId)))
+    .limit(1);
+  if (!passkey) {
+    throw AppError.notFound("Passkey not found", "PASSKEY_NOT_FOUND");
+  }
+
+  const methods = await getLoginMethods(userId);
+  const counts = { hasPassword: methods.hasPassword, providers: methods.providers.map((p) => p.provider), passkeyCount: methods.passkeyCount };
+  if (!canRemovePasskey(counts)) {
+    throw AppError.conflict(
+      "This is your only way to sign in. Set a password, add another passkey or link an account first.",
+      "LAST_LOGIN_METHOD",
+    );
+  }
+
+  await db.delete(passkeyCredentials).where(eq(passkeyCredentials.id, passkeyId));
+  logger.info("Passkey removed", { userId, passkeyId });
+  return listPasskeys(userId);
+}
+
+/** Discoverable-credential login: the authenticator picks the account. */
+export async function getLoginOptions(): Promise<PasskeyRequestOptions> {
+  return {
+    challenge: await issueChallenge("login", null),
+    rpId: getRelyingParty().id,
+    timeout: CEREMONY_TIMEOUT_MS,
+    userVerification: "required",
+    allowCredentials: [],
+  };
+}
+
+/** Verifies an assertion against the stored credential and advances its counter. */
+async function verifyAssertion(
+  response: AuthenticationResponseJSON,
+  expected: ExpectedCeremony,
+  userId: string | null,
+): Promise<typeof passkeyCredentials.$inferSelect> {
+  const [credential] = await db
+    .select()
+    .from(passkeyCredentials)
+    .where(eq(passkeyCredentials.credentialId, response.id))
+    .limit(1);
+
+  const userHandle = response.response.userHandle
+    ? Buffer.from(response.response.userHandle, "base64url").toString("utf-8")
+    : null;
+
+  if (!credential || (userId && credential.userId !== userId) || (userHandle && userHandle !== credential.userId)) {
+    throw AppError.unauthorized("This passkey is not registered with ChefSpAIce", "PASSKEY_NOT_FOUND");
+  }
+
+  const verified = verifyAuthenticationResponse(response, expected, credential);
+
+  await db
+    .update(passkeyCredentials)
+    .set({ signCount: verified.signCount, backedUp: verified.backedUp, lastUsedAt: new Date() })
+    .where(eq(passkeyCredentials.id, credential.id));
+
+  return credential;
+}
+
+export async function loginWithPasskey(
+  response: AuthenticationResponseJSON,
+  requestMeta?: { userAgent?: string; ipAddress?: string },
+): Promise<PasskeyLoginResult> {
+  const expected = await consumeChallenge(response.response.clientDataJSON, "login", null);
+  const credential = await verifyAssertion(response, expected, null);
+
+  const [user] = await db.select().from(users).where(eq(users.id, credential.userId)).limit(1);
+  if (!user) {
+    throw AppError.unauthorized("User not found", "USER_NOT_FOUND");
+  }
+
+  // A user-verified passkey is already two factors (device plus biometric or PIN).
+  const { rawToken } = await createSession(user.id, requestMeta, { twoFactorVerified: true });
+  logger.info("Signed in with passkey", { userId: user.id, passkeyId: credential.id });
+
+  const event = createEvent<UserLoggedIn>({ type: "UserLoggedIn", userId: user.id, provider: "passkey" });
+  return { user, rawToken, events: [event] };
+}
+
+export async function getStepUpOptions(userId: string): Promise<PasskeyRequestOptions> {
+  const rows = await db
+    .select({ credentialId: passkeyCredentials.credentialId, transports: passkeyCredentials.transports })
+    .from(passkeyCredentials)
+    .where(eq(passkeyCredentials.userId, userId));
+
+  if (rows.length === 0) {
+    throw AppError.badRequest("You have no passkeys registered", "NO_PASSKEYS");
+  }
+
+  return {
+    challenge: await issueChallenge("step_up", userId),
+    rpId: getRelyingParty().id,
+    timeout: CEREMONY_TIMEOUT_MS,
+    userVerification: "required",
+    allowCredentials: rows.map(toDescriptor),
+  };
+}
+
+/** Confirms the user with one of their passkeys and marks the session as recently verified. */
+export async function completeStepUp(
+  userId: string,
+  sessionTokenHash: string,
+  response: AuthenticationResponseJSON,
+): Promise<{ expiresAt: string }> {
+  const expected = await consumeChallenge(response.response.clientDataJSON, "step_up", userId);
+  await verifyAssertion(response, expected, userId);
+
+  const now = new Date();
+  await db
+    .update(userSessions)
+    .set({ stepUpAt: now })
+    .where(and(eq(userSessions.token, sessionTokenHash), eq(userSessions.userId, userId)));
+
+  return { expiresAt: new Date(now.getTime() + STEP_UP_WINDOW_MS).toISOString() };
+}
+
+/**
+ * Throws STEP_UP_REQUIRED unless the session confirmed a passkey within the
+ * step-up window. Users without passkeys have nothing to confirm with and
+ * keep the route's existing checks.
+ */
+export async function assertRecentStepUp(userId: string, sessionTokenHash: string): Promise<void> {
+  if (!(await hasPasskeys(userId))) return;
+
+  const [session] = await db
+    .select({ stepUpAt: userSessions.stepUpAt })
+    .from(userSessions)
+    .where(and(eq(userSessions.token, sessionTokenHash), eq(userSessions.userId, userId)))
+    .limit(1);
+
+  if (!session?.stepUpAt || Date.now() - session.stepUpAt.getTime() > STEP_UP_WINDOW_MS) {
+    throw AppError.forbidden("Confirm it's you with your passkey to continue", "STEP_UP_REQUIRED");
+  }
+}
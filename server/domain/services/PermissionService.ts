@@ -1,4 +1,4 @@
-import type { Permission } from "@shared/domain/entities";
+import type { Permission, HouseholdRole, HouseholdMembership } from "@shared/domain/entities";
 import {
   getUserEntitlements,
   checkFeatureAccess as checkFeatureAccessService,
@@ -7,7 +7,7 @@ import {
   checkCookwareLimit,
 } from "../../services/subscriptionService";
 import { db } from "../../db";
-import { users } from "@shared/schema";
+import { users, householdMembers } from "@shared/schema";
 import { eq } from "drizzle-orm";
 
 export async function getUserPermission(userId: string): Promise<Permission> {
@@ -67,3 +67,34 @@ export async function checkLimit(
     limit,
   };
 }
+
+const HOUSEHOLD_ROLES: readonly HouseholdRole[] = ["owner", "member", "viewer"];
+
+export function isHouseholdRole(value: unknown): value is HouseholdRole {
+  return typeof value === "string" && (HOUSEHOLD_ROLES as readonly string[]).includes(value);
+}
+
+export async function getHouseholdMembership(userId: string): Promise<HouseholdMembership | null> {
+  const [row] = await db
+    .select({ householdId: householdMembers.householdId, role: householdMembers.role })
+    .from(householdMembers)
+    .where(eq(householdMembers.userId, userId))
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  return {
+    householdId: row.householdId,
+    role: isHouseholdRole(row.role) ? row.role : "viewer",
+  };
+}
+
+export function canManageHousehold(role: HouseholdRole): boolean {
+  return role === "owner";
+}
+
+export function canWriteHouseholdData(role: HouseholdRole): boolean {
+  return role === "owner" || role === "member";
+}
@@ -0,0 +1,396 @@
+import { db } from "../../db";
+import { authProviders, passkeyCredentials, users, userSessions, userSyncData } from "@shared/schema";
+import { and, asc, count, eq } from "drizzle-orm";
+import { generateToken, getExpiryDate } from "../../lib/session-utils";
+import { hashToken, anonymizeIpAddress } from "../../lib/auth-utils";
+import { logger } from "../../lib/logger";
+import { createEvent, type User, type DomainEvent, type UserSignedUp } from "@shared/domain";
+import { AppError } from "../../middleware/errorHandler";
+import { UNKNOWN_SIGNING_KEY, verifyIdToken, type IdTokenIdentity, type SigningKey } from "../../lib/id-token";
+import { canUnlinkProvider, decideSocialSignIn, SOCIAL_PROVIDERS, type SocialProvider } from "../../lib/login-methods";
+import { startLoginSession, startTrialSubscription, verifyEmailPassword } from "./AuthenticationService";
+import type { TwoFactorChallenge } from "./TwoFactorService";
+
+export type SigningKeySource = () => Promise<SigningKey[]>;
+
+export interface SocialCredential {
+  idToken: string;
+  /** Raw nonce the client sent to the provider, when it used one. */
+  nonce?: string;
+  /** Apple only shares the user's name with the app, on first sign-in. */
+  displayName?: string;
+  /** Password of an existing account with the same email, to merge into it. */
+  password?: string;
+  /** Token from an earlier "trust this device", to skip two-factor. */
+  deviceToken?: string;
+}
+
+export interface SocialSignInResult {
+  user: User;
+  rawToken: string;
+  isNewUser: boolean;
+  events: DomainEvent[];
+}
+
+export interface LinkedProvider {
+  provider: SocialProvider;
+  email: string | null;
+  isPrimary: boolean;
+  linkedAt: string | null;
+}
+
+export interface LoginMethodsSummary {
+  hasPassword: boolean;
+  providers: LinkedProvider[];
+  passkeyCount: number;
+}
+
+const PROVIDER_CONFIG: Record<SocialProvider, { jwksUrl: string; issuers: string[]; audienceEnv: string; defaultAudiences: string[] }> = {
+  google: {
+    jwksUrl: "https://www.googleapis.com/oauth2/v3/certs",
+    issuers: ["https://accounts.google.com", "accounts.google.com"],
+    audienceEnv: "GOOGLE_CLIENT_IDS",
+    defaultAudiences: [],
+  },
+  apple: {
+    jwksUrl: "https://appleid.apple.com/auth/keys",
+    issuers: ["https://appleid.apple.com"],
+    audienceEnv: "APPLE_CLIENT_IDS",
+    defaultAudiences: ["com.chefspaice.chefspaice"],
+  },
+};
+
+const KEY_CACHE_TTL_MS = 60 * 60 * 1000;
+/** An unknown `kid` forces a refetch (keys rotate), but not more often than this. */
+const MIN_KEY_REFRESH_MS = 60 * 1000;
+
+const keyCache = new Map<SocialProvider, { keys: SigningKey[]; fetchedAt: number }>();
+const keySourceOverrides = new Map<SocialProvider, SigningKeySource>();
+
+/** Replaces a provider's published keys, e.g. with locally generated ones in tests. */
+export function setSigningKeySource(provider: SocialProvider, source: SigningKeySource | null): void {
+  if (source) {
+    keySourceOverrides.set(provider, source);
+  } else {
+    keySourceOverrides.delete(provider);
+  }
+  keyCache.delete(provider);
+}
+
+export function isSocialProvider(value: string): value is SocialProvider {
+  return (SOCIAL_PROVIDERS as string[]).includes(value);
+}
+
+async function fetchPublishedKeys(provider: SocialProvider): Promise<SigningKey[]> {
+  const response = await fetch(PROVIDER_CONFIG[provider].jwksUrl);
+  if (!response.ok) {
+    throw new Error(`JWKS request failed with status ${response.status}`);
+  }
+  const body = (await response.json()) as { keys?: SigningKey[] };
+  return Array.isArray(body.keys) ? body.keys : [];
+}
+
+async function loadSigningKeys(provider: SocialProvider, forceRefresh = false): Promise<SigningKey[]> {
+  const cached = keyCache.get(provider);
+  const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+  if (cached && (forceRefresh ? age < MIN_KEY_REFRESH_MS : age < KEY_CACHE_TTL_MS)) {
+    return cached.keys;
+  }
+
+  try {
+    const source = keySourceOverrides.get(provider) ?? (() => fetchPublishedKeys(provider));
+    const keys = await source();
+    keyCache.set(provider, { keys, fetchedAt: Date.now() });
+    return keys;
+  } catch (error) {
+    logger.error("Failed to load provider signing keys", {
+      provider,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    if (cached) return cached.keys;
+    throw AppError.serviceUnavailable("Sign-in provider is unavailable, please try again", "PROVIDER_UNAVAILABLE");
+  }
+}
+
+function getAudiences(provider: SocialProvider): string[] {
+  const config = PROVIDER_CONFIG[provider];
+  const configured = process.env[config.audienceEnv]?.split(",").map((id) => id.trim()).filter(Boolean) ?? [];
+  return configured.length > 0 ? configured : config.defaultAudiences;
+}
+
+export async function verifyProviderToken(
+  provider: SocialProvider,
+  idToken: string,
+  nonce?: string,
+): Promise<IdTokenIdentity> {
+  const audiences = getAudiences(provider);
+  if (audiences.length === 0) {
+    throw AppError.serviceUnavailable(`${provider} sign-in is not configured`, "PROVIDER_NOT_CONFIGURED");
+  }
+
+  const verify = (keys: SigningKey[]) =>
+    verifyIdToken(idToken, { keys, issuers: PROVIDER_CONFIG[provider].issuers, audiences, nonce });
+
+  try {
+    return verify(await loadSigningKeys(provider));
+  } catch (error) {
+    if (error instanceof AppError && error.errorCode === UNKNOWN_SIGNING_KEY) {
+      return verify(await loadSigningKeys(provider, true));
+    }
+    throw error;
+  }
+}
+
+/** Links a provider identity to a user; a user holds at most one identity per provider. */
+async function attachProvider(
+  userId: string,
+  provider: SocialProvider,
+  identity: IdTokenIdentity,
+  isPrimary: boolean,
+): Promise<void> {
+  const [existing] = await db
+    .select({ id: authProviders.id })
+    .from(authProviders)
+    .where(and(eq(authProviders.userId, userId), eq(authProviders.provider, provider)))
+    .limit(1);
+  if (existing) {
+    throw AppError.conflict(`A different ${provider} account is already linked`, "PROVIDER_ALREADY_LINKED");
+  }
+
+  await db.insert(authProviders).values({
+    userId,
+    provider,
+    providerId: identity.subject,
+    providerEmail: identity.email,
+    isPrimary,
+    metadata: { emailVerified: identity.emailVerified, isPrivateEmail: identity.isPrivateEmail },
+  });
+}
+
+async function createUserFromProvider(
+  provider: SocialProvider,
+  identity: IdTokenIdentity,
+  email: string,
+  displayName: string | undefined,
+  requestMeta?: { userAgent?: string; ipAddress?: string },
+): Promise<{ user: User; rawToken: string }> {
+  return db.transaction(async (tx) => {
+    const [createdUser] = await tx
+      .insert(users)
+      .values({
+        email,
+        password: null,
+        displayName: displayName?.trim() || identity.name || email.split("@")[0],
+        primaryProvider: provider,
+        primaryProviderId: identity.subject,
+      })
+      .returning();
+
+    await tx.insert(authProviders).values({
+      userId: createdUser.id,
+      provider,
+      providerId: identity.subject,
+      providerEmail: identity.email,
+      isPrimary: true,
+      metadata: { emailVerified: identity.emailVerified, isPrivateEmail: identity.isPrivateEmail },
+    });
+
+    const rawToken = generateToken();
+    await tx.insert(userSessions).values({
+      userId: createdUser.id,
+      token: hashToken(rawToken),
+      userAgent: requestMeta?.userAgent || "unknown",
+      ipAddress: anonymizeIpAddress(requestMeta?.ipAddress),
+      expiresAt: getExpiryDate(),
+    });
+
+    await tx.insert(userSyncData).values({ userId: createdUser.id });
+
+    return { user: createdUser, rawToken };
+  });
+}
+
+/**
+ * Signs in with a Google or Apple ID token: logs into the linked account,
+ * merges into an existing account with the same email when that is safe
+ * (see decideSocialSignIn), or creates a new account.
+ */
+export async function signInWithProvider(
+  provider: SocialProvider,
+  credential: SocialCredential,
+  requestMeta?: { userAgent?: string; ipAddress?: string },
+): Promise<SocialSignInResult | TwoFactorChallenge> {
+  const identity = await verifyProviderToken(provider, credential.idToken, credential.nonce);
+
+  const [link] = await db
+    .select({ id: authProviders.id, userId: authProviders.userId })
+    .from(authProviders)
+    .where(and(eq(authProviders.provider, provider), eq(authProviders.providerId, identity.subject)))
+    .limit(1);
+
+  const [emailUser] = !link && identity.email
+    ? await db.select().from(users).where(eq(users.email, identity.email)).limit(1)
+    : [];
+
+  let passwordVerified = false;
+  if (emailUser?.password && credential.password && identity.emailVerified) {
+    await verifyEmailPassword(emailUser.email, credential.password);
+    passwordVerified = true;
+  }
+
+  const decision = decideSocialSignIn({
+    linkedUserId: link?.userId ?? null,
+    emailMatch: emailUser ? { userId: emailUser.id, hasPassword: !!emailUser.password } : null,
+    emailVerified: identity.emailVerified,
+    passwordVerified,
+  });
+
+  switch (decision.action) {
+    case "password_required":
+      throw AppError.conflict(
+        "An account with this email already exists. Enter its password to link your sign-in.",
+        "ACCOUNT_LINK_REQUIRED",
+      );
+    case "email_unverified":
+      throw AppError.conflict(
+        "An account with this email already exists. Sign in with your password, then link this account from your profile.",
+        "EMAIL_NOT_VERIFIED",
+      );
+    case "create": {
+      if (!identity.email) {
+        throw AppError.badRequest("The provider did not share an email address", "EMAIL_REQUIRED");
+      }
+      const { user, rawToken } = await createUserFromProvider(
+        provider, identity, identity.email, credential.displayName, requestMeta,
+      );
+      await startTrialSubscription(user.id);
+      logger.info("Account created with social sign-in", { userId: user.id, provider });
+
+      const event = createEvent<UserSignedUp>({ type: "UserSignedUp", userId: user.id, email: user.email, provider });
+      return { user, rawToken, isNewUser: true, events: [event] };
+    }
+    case "link": {
+      await attachProvider(decision.userId, provider, identity, false);
+      if (emailUser && !emailUser.isActivated) {
+        await db.update(users).set({ isActivated: true, updatedAt: new Date() }).where(eq(users.id, decision.userId));
+      }
+      logger.info("Social identity merged into existing account", { userId: decision.userId, provider });
+      break;
+    }
+    case "login":
+      await db
+        .update(authProviders)
+        .set({ providerEmail: identity.email, updatedAt: new Date() })
+        .where(eq(authProviders.id, link!.id));
+      break;
+  }
+
+  const [user] = await db.select().from(users).where(eq(users.id, decision.userId)).limit(1);
+  if (!user) {
+    throw AppError.unauthorized("User not found", "USER_NOT_FOUND");
+  }
+
+  const result = await startLoginSession(user, provider, requestMeta, credential.deviceToken);
+  return "twoFactorRequired" in result ? result : { ...result, isNewUser: false };
+}
+
+export async function getLoginMethods(userId: string): Promise<LoginMethodsSummary> {
+  const [user] = await db.select({ password: users.password }).from(users).where(eq(users.id, userId)).limit(1);
+  if (!user) {
+    throw AppError.notFound("User not found", "USER_NOT_FOUND");
+  }
+
+  const rows = await db
+    .select()
+    .from(authProviders)
+    .where(eq(authProviders.userId, userId))
+    .orderBy(asc(authProviders.createdAt));
+
+  const [passkeys] = await db
+    .select({ total: count() })
+    .from(passkeyCredentials)
+    .where(eq(passkeyCredentials.userId, userId));
+
+  return {
+    hasPassword: !!user.password,
+    providers: rows
+      .filter((row) => isSocialProvider(row.provider))
+      .map((row) => ({
+        provider: row.provider as SocialProvider,
+        email: row.providerEmail,
+        isPrimary: row.isPrimary ?? false,
+        linkedAt: row.createdAt?.toISOString() ?? null,
+      })),
+    passkeyCount: passkeys?.total ?? 0,
+  };
+}
+
+/** Links a provider identity to the signed-in user. Relinking the same identity is a no-op. */
+export async function linkProvider(
+  userId: string,
+  provider: SocialProvider,
+  credential: Pick<SocialCredential, "idToken" | "nonce">,
+): Promise<LoginMethodsSummary> {
+  const identity = await verifyProviderToken(provider, credential.idToken, credential.nonce);
+
+  const [existing] = await db
+    .select({ userId: authProviders.userId })
+    .from(authProviders)
+    .where(and(eq(authProviders.provider, provider), eq(authProviders.providerId, identity.subject)))
+    .limit(1);
+
+  if (existing && existing.userId !== userId) {
+    throw AppError.conflict(`This ${provider} account is already used by another ChefSpAIce account`, "PROVIDER_IN_USE");
+  }
+  if (!existing) {
+    await attachProvider(userId, provider, identity, false);
+    logger.info("Social identity linked", { userId, provider });
+  }
+
+  return getLoginMethods(userId);
+}
+
+/** Unlinks a provider, refusing to remove the user's last way to sign in. */
+export async function unlinkProvider(userId: string, provider: SocialProvider): Promise<LoginMethodsSummary> {
+  const methods = await getLoginMethods(userId);
+  const linked = methods.providers.find((p) => p.provider === provider);
+  if (!linked) {
+    throw AppError.notFound(`No ${provider} account is linked`, "PROVIDER_NOT_LINKED");
+  }
+
+  const counts = { hasPassword: methods.hasPassword, providers: methods.providers.map((p) => p.provider), passkeyCount: methods.passkeyCount };
+  if (!canUnlinkProvider(counts, provider)) {
+    throw AppError.conflict(
+      "This is your only way to sign in. Set a password, add a passkey or link another account first.",
+      "LAST_LOGIN_METHOD",
+    );
+  }
+
+  await db
+    .delete(authProviders)
+    .where(and(eq(authProviders.userId, userId), eq(authProviders.provider, provider)));
+
+  if (linked.isPrimary) {
+    const [next] = await db
+      .select({ id: authProviders.id, provider: authProviders.provider, providerId: authProviders.providerId })
+      .from(authProviders)
+      .where(eq(authProviders.userId, userId))
+      .orderBy(asc(authProviders.createdAt))
+      .limit(1);
+
+    if (next && !methods.hasPassword) {
+      await db.update(authProviders).set({ isPrimary: true, updatedAt: new Date() }).where(eq(authProviders.id, next.id));
+    }
+    await db
+      .update(users)
+      .set({
+        primaryProvider: methods.hasPassword ? "email" : next?.provider ?? null,
+        primaryProviderId: methods.hasPassword ? null : next?.providerId ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId));
+  }
+
+  logger.info("Social identity unlinked", { userId, provider });
+  return getLoginMethods(userId);
+}
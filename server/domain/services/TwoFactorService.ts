@@ -0,0 +1,361 @@
+import { randomBytes } from "crypto";
+import { db } from "../../db";
+import {
+  trustedDevices,
+  twoFactorLoginChallenges,
+  twoFactorRecoveryCodes,
+  users,
+  userSessions,
+  userTwoFactor,
+} from "@shared/schema";
+import { and, count, eq, gt, inArray, isNull, lt, or } from "drizzle-orm";
+import { hashToken } from "../../lib/auth-utils";
+import { logger } from "../../lib/logger";
+import { decryptToken, encryptToken } from "../../lib/token-encryption";
+import {
+  buildOtpAuthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  isTotpCode,
+  verifyTotp,
+} from "../../lib/totp";
+import { AppError } from "../../middleware/errorHandler";
+import type { AuthProviderType } from "@shared/domain";
+
+const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+/** How long "trust this device" skips the second step. */
+const TRUSTED_DEVICE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  trustedDeviceCount: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  twoFactorToken: string;
+  expiresAt: string;
+}
+
+export interface RedeemedChallenge {
+  userId: string;
+  provider: AuthProviderType;
+  trustedDeviceId: string | null;
+  /** Raw token the client keeps to skip 2FA on this device; only set when trust was requested. */
+  deviceToken: string | null;
+}
+
+async function getEnrollment(userId: string) {
+  const [row] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId)).limit(1);
+  return row ?? null;
+}
+
+async function getEnabledEnrollment(userId: string) {
+  const row = await getEnrollment(userId);
+  if (!row?.enabledAt) {
+    throw AppError.badRequest("Two-factor authentication is not enabled", "TWO_FACTOR_NOT_ENABLED");
+  }
+  return row;
+}
+
+async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await db.transaction(async (tx) => {
+    await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    await tx.insert(twoFactorRecoveryCodes).values(
+      codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    );
+  });
+  return codes;
+}
+
+/**
+ * Accepts a TOTP code newer than the last one used, recording its step. The
+ * update only lands if no concurrent request recorded this step first.
+ */
+async function consumeTotpCode(enrollment: typeof userTwoFactor.$inferSelect, code: string): Promise<boolean> {
+  const step = verifyTotp(decryptToken(enrollment.secret), code, enrollment.lastUsedStep);
+  if (step === null) return false;
+
+  const [recorded] = await db
+    .update(userTwoFactor)
+    .set({ lastUsedStep: step, updatedAt: new Date() })
+    .where(and(
+      eq(userTwoFactor.userId, enrollment.userId),
+      or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step)),
+    ))
+    .returning({ id: userTwoFactor.id });
+  return !!recorded;
+}
+
+/** Marks a matching unused recovery code as spent; concurrent uses of one code can't both win. */
+async function consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+  const [spent] = await db
+    .update(twoFactorRecoveryCodes)
+    .set({ usedAt: new Date() })
+    .where(and(
+      eq(twoFactorRecoveryCodes.userId, userId),
+      eq(twoFactorRecoveryCodes.codeHash, hashRecoveryCode(code)),
+      isNull(twoFactorRecoveryCodes.usedAt),
+    ))
+    .returning({ id: twoFactorRecoveryCodes.id });
+
+  if (spent) {
+    logger.info("Two-factor recovery code used", { userId });
+  }
+  return !!spent;
+}
+
+/** Checks an authenticator code or, failing that shape, a recovery code. */
+async function verifySecondFactor(userId: string, code: string): Promise<boolean> {
+  const enrollment = await getEnabledEnrollment(userId);
+  return isTotpCode(code)
+    ? consumeTotpCode(enrollment, code)
+    : consumeRecoveryCode(userId, code);
+}
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const row = await getEnrollment(userId);
+  return !!row?.enabledAt;
+}
+
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  const enrollment = await getEnrollment(userId);
+
+  const [codes] = await db
+    .select({ total: count() })
+    .from(twoFactorRecoveryCodes)
+    .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+
+  const [devices] = await db
+    .select({ total: count() })
+    .from(trustedDevices)
+    .where(and(eq(trustedDevices.userId, userId), gt(trustedDevices.expiresAt, new Date())));
+
+  return {
+    enabled: !!enrollment?.enabledAt,
+    enabledAt: enrollment?.enabledAt?.toISOString() ?? null,
+    recoveryCodesRemaining: enrollment?.enabledAt ? codes?.total ?? 0 : 0,
+    trustedDeviceCount: devices?.total ?? 0,
+  };
+}
+
+/**
+ * Starts (or restarts) enrollment with a fresh secret. 2FA stays off until
+ * enableTwoFactor confirms the authenticator app produces valid codes.
+ */
+export async function beginTwoFactorSetup(userId: string): Promise<TwoFactorSetup> {
+  const [user] = await db.select({ email: users.email }).from(users).where(eq(users.id, userId)).limit(1);
+  if (!user) {
+    throw AppError.notFound("User not found", "USER_NOT_FOUND");
+  }
+
+  const existing = await getEnrollment(userId);
+  if (existing?.enabledAt) {
+    throw AppError.conflict("Two-factor authentication is already enabled", "TWO_FACTOR_ALREADY_ENABLED");
+  }
+
+  const secret = generateTotpSecret();
+  await db
+    .insert(userTwoFactor)
+    .values({ userId, secret: encryptToken(secret) })
+    .onConflictDoUpdate({
+      target: userTwoFactor.userId,
+      set: { secret: encryptToken(secret), lastUsedStep: null, updatedAt: new Date() },
+    });
+
+  return { secret, otpauthUri: buildOtpAuthUri(secret, user.email) };
+}
+
+/**
+ * Confirms enrollment with a code from the authenticator app, issues
+ * recovery codes and counts the current session as verified.
+ */
+export async function enableTwoFactor(
+  userId: string,
+  code: string,
+  sessionTokenHash: string,
+): Promise<{ recoveryCodes: string[] }> {
+  const enrollment = await getEnrollment(userId);
+  if (!enrollment) {
+    throw AppError.badRequest("Start two-factor setup first", "TWO_FACTOR_SETUP_REQUIRED");
+  }
+  if (enrollment.enabledAt) {
+    throw AppError.conflict("Two-factor authentication is already enabled", "TWO_FACTOR_ALREADY_ENABLED");
+  }
+  if (!(await consumeTotpCode(enrollment, code))) {
+    throw AppError.badRequest("That code didn't match. Check your authenticator app and try again.", "INVALID_TWO_FACTOR_CODE");
+  }
+
+  const now = new Date();
+  await db.update(userTwoFactor).set({ enabledAt: now, updatedAt: now }).where(eq(userTwoFactor.id, enrollment.id));
+  await db
+    .update(userSessions)
+    .set({ twoFactorVerifiedAt: now })
+    .where(and(eq(userSessions.token, sessionTokenHash), eq(userSessions.userId, userId)));
+
+  const recoveryCodes = await replaceRecoveryCodes(userId);
+  logger.info("Two-factor authentication enabled", { userId });
+  return { recoveryCodes };
+}
+
+/** Turns 2FA off after a valid code, forgetting recovery codes and trusted devices. */
+export async function disableTwoFactor(userId: string, code: string): Promise<void> {
+  if (!(await verifySecondFactor(userId, code))) {
+    throw AppError.badRequest("Invalid verification code", "INVALID_TWO_FACTOR_CODE");
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    await tx.delete(twoFactorLoginChallenges).where(eq(twoFactorLoginChallenges.userId, userId));
+    await tx.delete(trustedDevices).where(eq(trustedDevices.userId, userId));
+  });
+  logger.info("Two-factor authentication disabled", { userId });
+}
+
+/** Replaces every recovery code. Requires an authenticator code, not a recovery code. */
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+  const enrollment = await getEnabledEnrollment(userId);
+  if (!isTotpCode(code) || !(await consumeTotpCode(enrollment, code))) {
+    throw AppError.badRequest("Enter a code from your authenticator app", "INVALID_TWO_FACTOR_CODE");
+  }
+  return { recoveryCodes: await replaceRecoveryCodes(userId) };
+}
+
+/** Forgets every trusted device, so the next sign-in on each asks for a code again. */
+export async function forgetTrustedDevices(userId: string): Promise<{ removed: number }> {
+  const removed = await db
+    .delete(trustedDevices)
+    .where(eq(trustedDevices.userId, userId))
+    .returning({ id: trustedDevices.id });
+  return { removed: removed.length };
+}
+
+/** Deletes trusted devices remembered by the given sessions (used when sessions are revoked). */
+export async function forgetTrustedDevicesForSessions(trustedDeviceIds: (string | null)[]): Promise<void> {
+  const ids = trustedDeviceIds.filter((id): id is string => !!id);
+  if (ids.length === 0) return;
+  await db.delete(trustedDevices).where(inArray(trustedDevices.id, ids));
+}
+
+/**
+ * Decides whether a sign-in that passed its first factor needs a code.
+ * A valid device token from an earlier "trust this device" skips the code.
+ */
+export async function checkSecondFactor(
+  userId: string,
+  deviceToken?: string | null,
+): Promise<{ required: boolean; trustedDeviceId: string | null }> {
+  if (!(await isTwoFactorEnabled(userId))) {
+    return { required: false, trustedDeviceId: null };
+  }
+
+  if (deviceToken) {
+    const [device] = await db
+      .update(trustedDevices)
+      .set({ lastUsedAt: new Date() })
+      .where(and(
+        eq(trustedDevices.tokenHash, hashToken(deviceToken)),
+        eq(trustedDevices.userId, userId),
+        gt(trustedDevices.expiresAt, new Date()),
+      ))
+      .returning({ id: trustedDevices.id });
+    if (device) {
+      return { required: false, trustedDeviceId: device.id };
+    }
+  }
+
+  return { required: true, trustedDeviceId: null };
+}
+
+export async function createTwoFactorChallenge(
+  userId: string,
+  provider: AuthProviderType,
+): Promise<TwoFactorChallenge> {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + LOGIN_CHALLENGE_TTL_MS);
+  await db.insert(twoFactorLoginChallenges).values({ userId, provider, tokenHash: hashToken(token), expiresAt });
+  return { twoFactorRequired: true, twoFactorToken: token, expiresAt: expiresAt.toISOString() };
+}
+
+/**
+ * Exchanges a pending login challenge and a code for the user it belongs
+ * to. Each challenge allows a few wrong codes before it is discarded.
+ */
+export async function redeemTwoFactorChallenge(
+  twoFactorToken: string,
+  code: string,
+  trustDevice: boolean,
+  userAgent?: string,
+): Promise<RedeemedChallenge> {
+  const tokenHash = hashToken(twoFactorToken);
+  const [challenge] = await db
+    .select()
+    .from(twoFactorLoginChallenges)
+    .where(and(eq(twoFactorLoginChallenges.tokenHash, tokenHash), gt(twoFactorLoginChallenges.expiresAt, new Date())))
+    .limit(1);
+
+  if (!challenge) {
+    throw AppError.unauthorized("Your sign-in has expired. Please sign in again.", "TWO_FACTOR_CHALLENGE_EXPIRED");
+  }
+
+  if (!(await verifySecondFactor(challenge.userId, code))) {
+    const attempts = challenge.attempts + 1;
+    if (attempts >= MAX_CHALLENGE_ATTEMPTS) {
+      await db.delete(twoFactorLoginChallenges).where(eq(twoFactorLoginChallenges.id, challenge.id));
+    } else {
+      await db.update(twoFactorLoginChallenges).set({ attempts }).where(eq(twoFactorLoginChallenges.id, challenge.id));
+    }
+    throw AppError.unauthorized("Invalid verification code", "INVALID_TWO_FACTOR_CODE");
+  }
+
+  const [consumed] = await db
+    .delete(twoFactorLoginChallenges)
+    .where(eq(twoFactorLoginChallenges.id, challenge.id))
+    .returning({ id: twoFactorLoginChallenges.id });
+  if (!consumed) {
+    throw AppError.unauthorized("Your sign-in has expired. Please sign in again.", "TWO_FACTOR_CHALLENGE_EXPIRED");
+  }
+
+  const provider = challenge.provider as AuthProviderType;
+  if (!trustDevice) {
+    return { userId: challenge.userId, provider, trustedDeviceId: null, deviceToken: null };
+  }
+
+  const deviceToken = randomBytes(32).toString("base64url");
+  const [device] = await db
+    .insert(trustedDevices)
+    .values({
+      userId: challenge.userId,
+      tokenHash: hashToken(deviceToken),
+      userAgent: userAgent || "unknown",
+      expiresAt: new Date(Date.now() + TRUSTED_DEVICE_TTL_MS),
+      lastUsedAt: new Date(),
+    })
+    .returning({ id: trustedDevices.id });
+
+  return { userId: challenge.userId, provider, trustedDeviceId: device.id, deviceToken };
+}
+
+/** True when the user has 2FA on and this session's login passed it. */
+export async function isSessionTwoFactorVerified(userId: string, sessionTokenHash: string): Promise<boolean> {
+  if (!(await isTwoFactorEnabled(userId))) return false;
+
+  const [session] = await db
+    .select({ twoFactorVerifiedAt: userSessions.twoFactorVerifiedAt })
+    .from(userSessions)
+    .where(and(eq(userSessions.token, sessionTokenHash), eq(userSessions.userId, userId)))
+    .limit(1);
+
+  return !!session?.twoFactorVerifiedAt;
+}
@@ -2,13 +2,33 @@ export {
   getUserPermission,
   canAccessFeature,
   checkLimit,
+  getHouseholdMembership,
+  isHouseholdRole,
+  canManageHousehold,
+  canWriteHouseholdData,
 } from "./PermissionService";
 
 export { deleteAccount } from "./AccountDeletionService";
 
+export {
+  getHouseholdForUser,
+  createHousehold,
+  createInvite,
+  revokeInvite,
+  acceptInvite,
+  leaveHousehold,
+  removeMember,
+  updateMemberRole,
+} from "./HouseholdService";
+
+export type { HouseholdDetails, HouseholdMemberSummary, CreatedInvite } from "./HouseholdService";
+
 export {
   registerWithEmail,
   loginWithEmail,
+  verifyEmailPassword,
+  startLoginSession,
+  completeTwoFactorLogin,
   createSession,
   revokeSession,
   revokeAllOtherSessions,
@@ -18,4 +38,41 @@ export {
   verifyPassword,
 } from "./AuthenticationService";
 
-export type { RegisterResult, LoginResult } from "./AuthenticationService";
+export type { RegisterResult, LoginResult, TwoFactorLoginResult } from "./AuthenticationService";
+
+export {
+  signInWithProvider,
+  getLoginMethods,
+  linkProvider,
+  unlinkProvider,
+  isSocialProvider,
+} from "./SocialAuthService";
+
+export type { SocialCredential, SocialSignInResult, LoginMethodsSummary } from "./SocialAuthService";
+
+export {
+  getRegistrationOptions,
+  registerPasskey,
+  listPasskeys,
+  removePasskey,
+  getLoginOptions,
+  loginWithPasskey,
+  getStepUpOptions,
+  completeStepUp,
+  assertRecentStepUp,
+} from "./PasskeyService";
+
+export type { PasskeySummary, PasskeyLoginResult } from "./PasskeyService";
+
+export {
+  getTwoFactorStatus,
+  beginTwoFactorSetup,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  forgetTrustedDevices,
+  isTwoFactorEnabled,
+  isSessionTwoFactorVerified,
+} from "./TwoFactorService";
+
+export type { TwoFactorStatus, TwoFactorSetup, TwoFactorChallenge } from "./TwoFactorService";
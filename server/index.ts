@@ -18,6 +18,11 @@ import { registerWinbackJob } from "./jobs/winbackJob";
 import { registerCacheCleanupJob } from "./jobs/cacheCleanupJob";
 import { registerDataRetentionJob } from "./jobs/dataRetentionJob";
 import { registerSoftDeleteCleanupJob } from "./jobs/softDeleteCleanupJob";
+import { registerExpiringDigestJob } from "./jobs/expiringDigestJob";
+import { runMealPlanMigration } from "./jobs/mealPlanMigrationJob";
+import { runApiKeyMigration } from "./jobs/apiKeyMigrationJob";
+import { registerEmailRetryJob } from "./jobs/emailRetryJob";
+import { registerWasteReportJob } from "./jobs/wasteReportJob";
 import { startJobScheduler } from "./jobs/jobScheduler";
 import { logger } from "./lib/logger";
 import { AppError } from "./middleware/errorHandler";
@@ -94,6 +99,14 @@ function setupBodyParsing(app: express.Application) {
     },
   }));
 
+  // Recipe import accepts whole web pages, which often exceed 1 MB.
+  app.use("/api/recipes/import", express.json({
+    limit: "4mb",
+    verify: (req, _res, buf) => {
+      (req as any).rawBody = buf;
+    },
+  }));
+
   // 1 MB default limit protects against oversized payloads while covering
   // typical API requests (JSON data, form submissions, sync payloads).
   app.use(
@@ -603,7 +616,7 @@ async function ensureStripePrices() {
       throw new Error("TOKEN_ENCRYPTION_KEY must be exactly 64 hex characters");
     }
   } else {
-    logger.warn("TOKEN_ENCRYPTION_KEY not set — OAuth token encryption disabled");
+    logger.warn("TOKEN_ENCRYPTION_KEY not set — OAuth token encryption and two-factor setup disabled");
   }
 
   const port = parseInt(process.env.PORT || "5000", 10);
@@ -620,11 +633,17 @@ async function ensureStripePrices() {
         logger.error("Background Stripe init failed", { error: err instanceof Error ? err.message : String(err) });
       });
 
+      runMealPlanMigration();
+      runApiKeyMigration();
+
       registerSessionCleanupJob(24 * 60 * 60 * 1000);
       registerWinbackJob(7 * 24 * 60 * 60 * 1000);
       registerCacheCleanupJob(24 * 60 * 60 * 1000);
       registerDataRetentionJob(30 * 24 * 60 * 60 * 1000);
       registerSoftDeleteCleanupJob(7 * 24 * 60 * 60 * 1000);
+      registerExpiringDigestJob(15 * 60 * 1000);
+      registerEmailRetryJob(60 * 1000);
+      registerWasteReportJob(7 * 24 * 60 * 60 * 1000);
       startJobScheduler().catch((err) => {
         logger.error("Job scheduler startup failed", { error: err instanceof Error ? err.message : String(err) });
       });
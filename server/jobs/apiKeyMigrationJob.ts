@@ -0,0 +1,56 @@
+import { db } from "../db";
+import { apiKeys, users } from "@shared/schema";
+import { eq, isNotNull } from "drizzle-orm";
+import { API_KEY_PREFIX, API_KEY_SCOPES } from "@shared/api-keys";
+import { logger } from "../lib/logger";
+
+const BATCH_SIZE = 500;
+const LEGACY_KEY_NAME = "Siri Shortcuts";
+
+/**
+ * Moves keys made before named API keys out of users.apiKeyHash. Each becomes
+ * a key with every scope and no expiry, so existing shortcuts keep working.
+ * The hash is the same SHA-256 the new keys use; only the display prefix is
+ * unknown, so the bare "csa_" stands in for it.
+ */
+async function migrateLegacyApiKeys(): Promise<void> {
+  let migrated = 0;
+
+  for (;;) {
+    const rows = await db
+      .select({ id: users.id, apiKeyHash: users.apiKeyHash })
+      .from(users)
+      .where(isNotNull(users.apiKeyHash))
+      .limit(BATCH_SIZE);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      await db.transaction(async (tx) => {
+        await tx
+          .insert(apiKeys)
+          .values({
+            userId: row.id,
+            name: LEGACY_KEY_NAME,
+            keyHash: row.apiKeyHash!,
+            keyPrefix: API_KEY_PREFIX,
+            scopes: [...API_KEY_SCOPES],
+          })
+          .onConflictDoNothing({ target: apiKeys.keyHash });
+        await tx.update(users).set({ apiKeyHash: null }).where(eq(users.id, row.id));
+      });
+      migrated++;
+    }
+  }
+
+  logger.info("Legacy API key migration completed", { migrated });
+}
+
+/**
+ * One-time migration, run once at startup like the meal plan migration. It
+ * only touches users that still have a legacy key, so reruns are no-ops.
+ */
+export function runApiKeyMigration(): void {
+  migrateLegacyApiKeys().catch((err) => {
+    logger.error("Legacy API key migration failed", { error: err instanceof Error ? err.message : String(err) });
+  });
+}
@@ -3,6 +3,7 @@ import { userWasteLogs, userConsumedLogs } from "@shared/schema";
 import { sql, lt } from "drizzle-orm";
 import { logger } from "../lib/logger";
 import { registerJob } from "./jobScheduler";
+import { rollUpMonthlySpend } from "../services/groceryBudgetService";
 
 const RETENTION_MONTHS = 12;
 
@@ -105,6 +106,9 @@ async function runDataRetention(): Promise<void> {
     deleted: consumedResult.deleted,
   });
 
+  const spendRows = await rollUpMonthlySpend();
+  logger.info("Grocery spend rollup complete", { summaryRows: spendRows });
+
   const totalArchived = wasteResult.archived + consumedResult.archived;
   const totalDeleted = wasteResult.deleted + consumedResult.deleted;
   logger.info("Data retention job completed", { totalArchived, totalDeleted });
@@ -0,0 +1,8 @@
+import { registerJob } from "./jobScheduler";
+import { retryFailedEmails } from "../services/emailService";
+
+export function registerEmailRetryJob(intervalMs: number = 60 * 1000): void {
+  registerJob("email-retry", intervalMs, async () => {
+    await retryFailedEmails();
+  });
+}
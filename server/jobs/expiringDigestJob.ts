@@ -0,0 +1,9 @@
+import { registerJob } from "./jobScheduler";
+import { sendExpiringDigests } from "../services/expiringDigestService";
+
+// Runs often enough to catch each user's local notification time.
+export function registerExpiringDigestJob(intervalMs: number = 15 * 60 * 1000): void {
+  registerJob("expiring-food-digest", intervalMs, async () => {
+    await sendExpiringDigests();
+  });
+}
@@ -0,0 +1,74 @@
+import { db } from "../db";
+import { userMealPlans, userSavedRecipes } from "@shared/schema";
+import { eq, inArray, sql } from "drizzle-orm";
+import { normalizeMeals } from "@shared/meal-plan";
+import { logger } from "../lib/logger";
+import { getScopeMemberIds, nextSyncRevision } from "../routers/sync/sync-helpers";
+
+const BATCH_SIZE = 500;
+
+// Rows still holding a bare string per slot, or the old array of meals.
+const hasLegacyMeals = sql`CASE
+  WHEN jsonb_typeof(${userMealPlans.meals}) = 'array' THEN true
+  WHEN jsonb_typeof(${userMealPlans.meals}) = 'object' THEN EXISTS (
+    SELECT 1 FROM jsonb_each(${userMealPlans.meals}) AS slot WHERE jsonb_typeof(slot.value) = 'string'
+  )
+  ELSE false
+END`;
+
+/**
+ * Rewrites meal plans saved before typed meal entries. Bare strings become
+ * recipe entries when they match a recipe saved by someone who shares the
+ * plan, and free-text entries otherwise. Runs until no legacy rows are left.
+ */
+async function migrateLegacyMealPlans(): Promise<void> {
+  let migrated = 0;
+  const recipeIdsByScope = new Map<string, Set<string>>();
+
+  for (;;) {
+    const rows = await db
+      .select({
+        id: userMealPlans.id,
+        userId: userMealPlans.userId,
+        householdId: userMealPlans.householdId,
+        meals: userMealPlans.meals,
+      })
+      .from(userMealPlans)
+      .where(hasLegacyMeals)
+      .limit(BATCH_SIZE);
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      const scopeKey = row.householdId ?? row.userId;
+      let recipeIds = recipeIdsByScope.get(scopeKey);
+      if (!recipeIds) {
+        const memberIds = await getScopeMemberIds({ userId: row.userId, householdId: row.householdId, role: null });
+        const recipes = await db
+          .select({ itemId: userSavedRecipes.itemId })
+          .from(userSavedRecipes)
+          .where(inArray(userSavedRecipes.userId, memberIds));
+        recipeIds = new Set(recipes.map((recipe) => recipe.itemId));
+        recipeIdsByScope.set(scopeKey, recipeIds);
+      }
+
+      await db
+        .update(userMealPlans)
+        .set({ meals: normalizeMeals(row.meals, recipeIds), revision: nextSyncRevision() })
+        .where(eq(userMealPlans.id, row.id));
+      migrated++;
+    }
+  }
+
+  logger.info("Meal plan entry migration completed", { migrated });
+}
+
+/**
+ * One-time migration, run once at startup rather than on a schedule. It is
+ * idempotent, so instances starting together or later restarts only find
+ * nothing left to migrate.
+ */
+export function runMealPlanMigration(): void {
+  migrateLegacyMealPlans().catch((err) => {
+    logger.error("Meal plan entry migration failed", { error: err instanceof Error ? err.message : String(err) });
+  });
+}
@@ -1,5 +1,5 @@
 import { db } from "../db";
-import { userSessions } from "@shared/schema";
+import { apiKeyRequestLogs, trustedDevices, twoFactorLoginChallenges, userSessions, webauthnChallenges } from "@shared/schema";
 import { lt, isNotNull, and } from "drizzle-orm";
 import { logger } from "../lib/logger";
 import { registerJob } from "./jobScheduler";
@@ -18,6 +18,26 @@ async function cleanupSessions(): Promise<void> {
       and(lt(userSessions.createdAt, thirtyDaysAgo), isNotNull(userSessions.ipAddress))
     );
   logger.info("Anonymized IP addresses on old sessions", { count: anonymizeResult.rowCount });
+
+  const challengeResult = await db
+    .delete(webauthnChallenges)
+    .where(lt(webauthnChallenges.expiresAt, new Date()));
+  logger.info("Cleaned up expired passkey challenges", { count: challengeResult.rowCount });
+
+  const twoFactorResult = await db
+    .delete(twoFactorLoginChallenges)
+    .where(lt(twoFactorLoginChallenges.expiresAt, new Date()));
+  logger.info("Cleaned up expired two-factor challenges", { count: twoFactorResult.rowCount });
+
+  const deviceResult = await db
+    .delete(trustedDevices)
+    .where(lt(trustedDevices.expiresAt, new Date()));
+  logger.info("Cleaned up expired trusted devices", { count: deviceResult.rowCount });
+
+  const apiLogResult = await db
+    .delete(apiKeyRequestLogs)
+    .where(lt(apiKeyRequestLogs.createdAt, thirtyDaysAgo));
+  logger.info("Cleaned up old API key request logs", { count: apiLogResult.rowCount });
 }
 
 export function registerSessionCleanupJob(intervalMs: number = 24 * 60 * 60 * 1000): void {
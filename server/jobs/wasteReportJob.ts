@@ -0,0 +1,8 @@
+import { registerJob } from "./jobScheduler";
+import { sendWeeklyWasteReports } from "../services/wasteReportService";
+
+export function registerWasteReportJob(intervalMs: number = 7 * 24 * 60 * 60 * 1000): void {
+  registerJob("weekly-waste-report", intervalMs, async () => {
+    await sendWeeklyWasteReports();
+  });
+}
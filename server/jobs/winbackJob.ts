@@ -2,6 +2,7 @@ import { db } from "../db";
 import { subscriptions, winbackCampaigns } from "@shared/schema";
 import { eq, and, lt } from "drizzle-orm";
 import { queueNotification } from "../services/notificationService";
+import { getAppBaseUrl, sendUserEmail } from "../services/emailService";
 import { logger } from "../lib/logger";
 import { registerJob } from "./jobScheduler";
 import { getUncachableStripeClient } from "../stripe/stripeClient";
@@ -52,6 +53,11 @@ export async function checkWinbackCandidates(): Promise<{ sent: number; skipped:
           data: { offerAmount: 499, offerType: "first_month_discount" },
         });
 
+        await sendUserEmail(candidate.userId, "winback_offer", {
+          offerAmountCents: 499,
+          offerUrl: `${getAppBaseUrl()}/subscription?offer=winback`,
+        });
+
         const stripe = await getUncachableStripeClient();
 
         const coupon = await stripe.coupons.create({
@@ -6,7 +6,22 @@ import OpenAI from "openai";
 import { generateRecipe as generateRecipeService, type InventoryItem } from "../services/recipeGenerationService";
 import { logger } from "./logger";
 import { AppError } from "../middleware/errorHandler";
-import { updateSectionTimestamp } from "../routers/sync/sync-helpers";
+import {
+  updateSectionTimestamp,
+  updateScopeTimestamp,
+  nextSyncRevision,
+  recordTombstones,
+  recordReplacedTombstones,
+  resolveSyncScope,
+  rowOwners,
+  scopeFilter,
+  type SyncScope,
+} from "../routers/sync/sync-helpers";
+import { consumeFifo, type InventoryLot, type LotConsumption } from "@shared/inventory-lots";
+import { findSavedRecipeByTitle, previewRecipeCook, cookRecipe, undoRecipeCook } from "../services/recipeCookService";
+import { estimateItemValues } from "../services/priceHistoryService";
+import type { IngredientDeduction } from "./recipe-deduction";
+import { normalizeMeals, mealEntryLabel, type MealEntry, type PlanMeals } from "@shared/meal-plan";
 
 const openai = new OpenAI({
   baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
@@ -33,6 +48,7 @@ export interface WasteEntry {
   reason: string;
   wastedAt: string;
   originalItemId?: string;
+  estimatedValue?: number;
 }
 
 export interface ConsumedEntry {
@@ -57,7 +73,7 @@ export interface ShoppingListItem {
 export interface MealPlan {
   id: string;
   date: string;
-  meals: Record<string, string | undefined>;
+  meals: PlanMeals;
 }
 
 export interface NavigationInstruction {
@@ -194,6 +210,47 @@ export const chatFunctionDefinitions: OpenAI.Chat.ChatCompletionTool[] = [
       }
     }
   },
+  {
+    type: "function",
+    function: {
+      name: "mark_recipe_cooked",
+      description: "Mark one of the user's saved recipes as cooked and deduct its ingredients from inventory. Use when the user says they made or cooked a saved recipe. ALWAYS call first with confirm=false to get the list of deductions, show it to the user, and only call again with confirm=true once they agree.",
+      parameters: {
+        type: "object",
+        properties: {
+          recipeName: {
+            type: "string",
+            description: "The title of the saved recipe that was cooked"
+          },
+          servings: {
+            type: "number",
+            description: "How many servings were cooked. Defaults to the recipe's own servings."
+          },
+          leftoverServings: {
+            type: "number",
+            description: "Servings left over to keep in the fridge as leftovers, if the user mentions any"
+          },
+          confirm: {
+            type: "boolean",
+            description: "False to preview the deductions, true to apply them"
+          }
+        },
+        required: ["recipeName"]
+      }
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "undo_recipe_cooked",
+      description: "Undo the most recent 'cooked it' action, putting the deducted ingredients back into inventory. Use when the user says they didn't actually cook it or the deduction was wrong.",
+      parameters: {
+        type: "object",
+        properties: {},
+        required: []
+      }
+    }
+  },
   {
     type: "function",
     function: {
@@ -489,11 +546,12 @@ export const chatFunctionDefinitions: OpenAI.Chat.ChatCompletionTool[] = [
 ];
 
 export async function getUserSyncData(userId: string) {
+  const scope = await resolveSyncScope(userId);
   const [inventoryRows, recipeRows, mealPlanRows, shoppingRows, cookwareRows, wasteLogRows, consumedLogRows, preferencesRow] = await Promise.all([
-    db.select().from(userInventoryItems).where(and(eq(userInventoryItems.userId, userId), isNull(userInventoryItems.deletedAt))),
+    db.select().from(userInventoryItems).where(and(scopeFilter(userInventoryItems, scope), isNull(userInventoryItems.deletedAt))),
     db.select().from(userSavedRecipes).where(eq(userSavedRecipes.userId, userId)),
-    db.select().from(userMealPlans).where(eq(userMealPlans.userId, userId)),
-    db.select().from(userShoppingItems).where(eq(userShoppingItems.userId, userId)),
+    db.select().from(userMealPlans).where(scopeFilter(userMealPlans, scope)),
+    db.select().from(userShoppingItems).where(scopeFilter(userShoppingItems, scope)),
     db.select().from(userCookwareItems).where(eq(userCookwareItems.userId, userId)),
     db.select().from(userWasteLogs).where(eq(userWasteLogs.userId, userId)),
     db.select().from(userConsumedLogs).where(eq(userConsumedLogs.userId, userId)),
@@ -538,7 +596,7 @@ export async function getUserSyncData(userId: string) {
   const mealPlans = mealPlanRows.map(mp => ({
     id: mp.itemId,
     date: mp.date,
-    meals: mp.meals,
+    meals: normalizeMeals(mp.meals),
     ...(mp.extraData as Record<string, unknown> || {}),
     updatedAt: mp.updatedAt?.toISOString(),
   }));
@@ -591,16 +649,23 @@ export async function getUserSyncData(userId: string) {
 
 async function updateUserSyncData(userId: string, updates: Record<string, unknown>) {
   if (updates.mealPlans !== undefined) {
+    const scope = await resolveSyncScope(userId, "write");
     const mealPlans = updates.mealPlans as Array<Record<string, unknown>>;
-    await db.delete(userMealPlans).where(eq(userMealPlans.userId, userId));
+    const removed = await db.delete(userMealPlans).where(scopeFilter(userMealPlans, scope))
+      .returning({ itemId: userMealPlans.itemId, householdId: userMealPlans.householdId, userId: userMealPlans.userId });
+    const owners = rowOwners(removed);
+    const keptIds = (Array.isArray(mealPlans) ? mealPlans : []).map((mp) => String(mp.id));
+    await recordReplacedTombstones(removed, keptIds, { userId, dataType: "mealPlans" });
     if (Array.isArray(mealPlans) && mealPlans.length > 0) {
       await db.insert(userMealPlans).values(mealPlans.map((mp) => ({
-        userId,
+        userId: owners.get(String(mp.id)) ?? userId,
+        householdId: scope.householdId,
         itemId: String(mp.id),
         date: String(mp.date || ""),
         meals: mp.meals ?? null,
       })));
     }
+    await updateScopeTimestamp(scope, "mealPlans");
   }
 
   const syncPayload: Record<string, unknown> = {
@@ -633,12 +698,14 @@ export async function executeAddInventoryItem(
   }
 ): Promise<ActionResult> {
   try {
+    const scope = await resolveSyncScope(userId, "write");
     const itemId = generateId();
     const purchaseDate = getTodayDate();
     const expirationDate = getDefaultExpirationDate(args.expirationDays || 7);
 
     await db.insert(userInventoryItems).values({
       userId,
+      householdId: scope.householdId,
       itemId,
       name: args.name,
       quantity: args.quantity,
@@ -651,7 +718,7 @@ export async function executeAddInventoryItem(
       updatedAt: new Date(),
     });
 
-    await updateSectionTimestamp(userId, "inventory");
+    await updateScopeTimestamp(scope, "inventory");
 
     const newItem: FoodItem = {
       id: itemId,
@@ -681,6 +748,50 @@ export async function executeAddInventoryItem(
   }
 }
 
+type InventoryRow = typeof userInventoryItems.$inferSelect;
+
+/**
+ * Takes `quantity` out of an inventory row, drawing from its earliest-expiring
+ * lot first. Without a quantity, or once every lot is used up, the row is
+ * deleted.
+ */
+async function drawDownInventoryRow(
+  scope: SyncScope,
+  row: InventoryRow,
+  quantity: number | undefined,
+  removeCompletely: boolean | undefined,
+): Promise<LotConsumption[]> {
+  const rowFilter = and(scopeFilter(userInventoryItems, scope), eq(userInventoryItems.id, row.id));
+  const item = { ...row, lots: row.lots as InventoryLot[] | null };
+  const result = consumeFifo(item, removeCompletely || !quantity ? item.quantity : quantity);
+
+  if (result.depleted) {
+    await db.delete(userInventoryItems).where(rowFilter);
+    await recordTombstones([{ userId: row.userId, householdId: row.householdId, dataType: "inventory", itemId: row.itemId }]);
+    return result.consumed;
+  }
+
+  await db.update(userInventoryItems).set({
+    quantity: result.item.quantity,
+    purchaseDate: result.item.purchaseDate,
+    expirationDate: result.item.expirationDate,
+    storageLocation: result.item.storageLocation,
+    lots: result.item.lots,
+    updatedAt: new Date(),
+    revision: nextSyncRevision(),
+  }).where(rowFilter);
+  return result.consumed;
+}
+
+function describeConsumedLots(row: InventoryRow, consumed: LotConsumption[]): string {
+  if (!row.lots || consumed.length === 0 || !consumed[0].expirationDate) {
+    return "";
+  }
+  return consumed.length === 1
+    ? ` from the batch expiring ${consumed[0].expirationDate}`
+    : ` from ${consumed.length} batches, oldest first`;
+}
+
 export async function executeConsumeItem(
   userId: string,
   args: {
@@ -691,8 +802,9 @@ export async function executeConsumeItem(
   }
 ): Promise<ActionResult> {
   try {
+    const scope = await resolveSyncScope(userId, "write");
     const inventoryRows = await db.select().from(userInventoryItems).where(
-      and(eq(userInventoryItems.userId, userId), isNull(userInventoryItems.deletedAt))
+      and(scopeFilter(userInventoryItems, scope), isNull(userInventoryItems.deletedAt))
     );
 
     const itemNameLower = args.itemName.toLowerCase();
@@ -718,18 +830,7 @@ export async function executeConsumeItem(
       originalItemId: matchedRow.itemId
     };
 
-    if (args.removeCompletely || !args.quantity || args.quantity >= matchedRow.quantity) {
-      await db.delete(userInventoryItems).where(
-        and(eq(userInventoryItems.userId, userId), eq(userInventoryItems.itemId, matchedRow.itemId))
-      );
-    } else {
-      await db.update(userInventoryItems).set({
-        quantity: matchedRow.quantity - args.quantity,
-        updatedAt: new Date(),
-      }).where(
-        and(eq(userInventoryItems.userId, userId), eq(userInventoryItems.itemId, matchedRow.itemId))
-      );
-    }
+    const consumedLots = await drawDownInventoryRow(scope, matchedRow, args.quantity, args.removeCompletely);
 
     await db.insert(userConsumedLogs).values({
       userId,
@@ -741,11 +842,11 @@ export async function executeConsumeItem(
     });
 
     await updateSectionTimestamp(userId, "consumedLog");
-    await updateSectionTimestamp(userId, "inventory");
+    await updateScopeTimestamp(scope, "inventory");
 
     return {
       success: true,
-      message: `Marked ${args.quantity || matchedRow.quantity} ${args.unit || matchedRow.unit} of ${matchedRow.name} as consumed.`,
+      message: `Marked ${args.quantity || matchedRow.quantity} ${args.unit || matchedRow.unit} of ${matchedRow.name} as consumed${describeConsumedLots(matchedRow, consumedLots)}.`,
       data: consumedEntry,
       actionType: "consume_inventory_item"
     };
@@ -770,8 +871,9 @@ export async function executeWasteItem(
   }
 ): Promise<ActionResult> {
   try {
+    const scope = await resolveSyncScope(userId, "write");
     const inventoryRows = await db.select().from(userInventoryItems).where(
-      and(eq(userInventoryItems.userId, userId), isNull(userInventoryItems.deletedAt))
+      and(scopeFilter(userInventoryItems, scope), isNull(userInventoryItems.deletedAt))
     );
 
     const itemNameLower = args.itemName.toLowerCase();
@@ -798,19 +900,16 @@ export async function executeWasteItem(
       originalItemId: matchedRow.itemId
     };
 
-    if (args.removeCompletely || !args.quantity || args.quantity >= matchedRow.quantity) {
-      await db.delete(userInventoryItems).where(
-        and(eq(userInventoryItems.userId, userId), eq(userInventoryItems.itemId, matchedRow.itemId))
-      );
-    } else {
-      await db.update(userInventoryItems).set({
-        quantity: matchedRow.quantity - args.quantity,
-        updatedAt: new Date(),
-      }).where(
-        and(eq(userInventoryItems.userId, userId), eq(userInventoryItems.itemId, matchedRow.itemId))
-      );
+    const valuation = await estimateItemValues(userId, [
+      { name: wasteEntry.itemName, quantity: wasteEntry.quantity, unit: wasteEntry.unit },
+    ]);
+    const estimate = valuation.items[0]?.estimate;
+    if (estimate) {
+      wasteEntry.estimatedValue = estimate.value;
     }
 
+    const consumedLots = await drawDownInventoryRow(scope, matchedRow, args.quantity, args.removeCompletely);
+
     await db.insert(userWasteLogs).values({
       userId,
       entryId: randomUUID(),
@@ -819,14 +918,15 @@ export async function executeWasteItem(
       unit: wasteEntry.unit,
       reason: wasteEntry.reason,
       date: wasteEntry.wastedAt,
+      ...(estimate && { extraData: { estimatedValue: estimate.value } }),
     });
 
     await updateSectionTimestamp(userId, "wasteLog");
-    await updateSectionTimestamp(userId, "inventory");
+    await updateScopeTimestamp(scope, "inventory");
 
     return {
       success: true,
-      message: `Logged ${args.quantity || matchedRow.quantity} ${args.unit || matchedRow.unit} of ${matchedRow.name} as wasted (${args.reason}).`,
+      message: `Logged ${args.quantity || matchedRow.quantity} ${args.unit || matchedRow.unit} of ${matchedRow.name} as wasted (${args.reason})${describeConsumedLots(matchedRow, consumedLots)}${estimate ? `, worth about $${estimate.value.toFixed(2)}` : ""}.`,
       data: wasteEntry,
       actionType: "waste_inventory_item"
     };
@@ -840,6 +940,96 @@ export async function executeWasteItem(
   }
 }
 
+function describeDeduction(deduction: IngredientDeduction): string {
+  switch (deduction.status) {
+    case "deduct":
+    case "insufficient": {
+      const unit = deduction.unit ? ` ${deduction.unit}` : "";
+      const shortfall = deduction.status === "insufficient" ? " (not enough for the recipe)" : "";
+      return `${deduction.itemName}: ${deduction.quantityBefore} → ${deduction.quantityAfter}${unit}${shortfall}`;
+    }
+    case "unconvertible":
+      return `${deduction.ingredientName}: can't convert ${deduction.requiredUnit} to ${deduction.unit}, left unchanged`;
+    case "unmeasured":
+      return `${deduction.ingredientName}: no amount given, left unchanged`;
+    default:
+      return `${deduction.ingredientName}: not in inventory`;
+  }
+}
+
+export async function executeMarkRecipeCooked(
+  userId: string,
+  args: {
+    recipeName: string;
+    servings?: number;
+    leftoverServings?: number;
+    confirm?: boolean;
+  }
+): Promise<ActionResult> {
+  try {
+    const recipe = await findSavedRecipeByTitle(userId, args.recipeName);
+    if (!recipe) {
+      return {
+        success: false,
+        message: `Could not find a saved recipe called "${args.recipeName}".`,
+        actionType: "mark_recipe_cooked"
+      };
+    }
+
+    if (!args.confirm) {
+      const preview = await previewRecipeCook(userId, recipe.itemId, args.servings);
+      const lines = preview.deductions.map((d) => `- ${describeDeduction(d)}`).join("\n");
+      return {
+        success: true,
+        message: `Cooking ${preview.servings} serving(s) of ${preview.recipeTitle} would update your inventory:\n${lines}\nShall I go ahead?`,
+        data: { preview, requiresConfirmation: true },
+        actionType: "mark_recipe_cooked"
+      };
+    }
+
+    const leftovers = args.leftoverServings && args.leftoverServings > 0
+      ? { servings: args.leftoverServings }
+      : undefined;
+    const result = await cookRecipe(userId, recipe.itemId, args.servings, leftovers);
+    const deducted = result.deductions.filter((d) => d.deductQuantity > 0).length;
+    const leftoversNote = result.leftovers
+      ? ` Added ${result.leftovers.servings} serving(s) of leftovers to your ${result.leftovers.storageLocation}.`
+      : "";
+    return {
+      success: true,
+      message: `Marked ${result.recipeTitle} as cooked and deducted ${deducted} ingredient(s) from your inventory.${leftoversNote} Say "undo" if that wasn't right.`,
+      data: result,
+      actionType: "mark_recipe_cooked"
+    };
+  } catch (error) {
+    logger.error("Error marking recipe cooked", { error: error instanceof Error ? error.message : String(error) });
+    return {
+      success: false,
+      message: error instanceof AppError ? error.message : `Failed to mark ${args.recipeName} as cooked.`,
+      actionType: "mark_recipe_cooked"
+    };
+  }
+}
+
+export async function executeUndoRecipeCooked(userId: string): Promise<ActionResult> {
+  try {
+    const result = await undoRecipeCook(userId);
+    return {
+      success: true,
+      message: `Undid cooking ${result.recipeTitle}; ${result.restoredItems} item(s) were put back in your inventory.`,
+      data: result,
+      actionType: "undo_recipe_cooked"
+    };
+  } catch (error) {
+    logger.error("Error undoing recipe cook", { error: error instanceof Error ? error.message : String(error) });
+    return {
+      success: false,
+      message: error instanceof AppError ? error.message : "Failed to undo the last cooked recipe.",
+      actionType: "undo_recipe_cooked"
+    };
+  }
+}
+
 export function executeOpenRecipeCustomizer(): ActionResult {
   return {
     success: true,
@@ -966,6 +1156,7 @@ export async function executeCreateMealPlan(
       };
     }
 
+    const scope = await resolveSyncScope(userId, "write");
     const userData = await getUserSyncData(userId);
     
     if (userData.inventory.length === 0) {
@@ -1066,13 +1257,16 @@ Return as JSON:
       return {
         id: generateId(),
         date: date.toISOString().split('T')[0],
-        meals: day.meals
+        meals: normalizeMeals(Object.fromEntries(
+          Object.entries(day.meals).map(([slot, meal]) => [slot, { type: "text", text: meal }]),
+        )),
       };
     });
 
     for (const mp of mealPlans) {
       await db.insert(userMealPlans).values({
         userId,
+        householdId: scope.householdId,
         itemId: mp.id,
         date: mp.date,
         meals: mp.meals,
@@ -1091,6 +1285,7 @@ Return as JSON:
       for (const si of newShoppingItems) {
         await db.insert(userShoppingItems).values({
           userId,
+          householdId: scope.householdId,
           itemId: si.id,
           name: si.name,
           quantity: si.quantity,
@@ -1101,13 +1296,16 @@ Return as JSON:
       }
     }
 
-    await updateSectionTimestamp(userId, "mealPlans");
-    await updateSectionTimestamp(userId, "shoppingList");
+    await updateScopeTimestamp(scope, "mealPlans");
+    await updateScopeTimestamp(scope, "shoppingList");
 
     let message = `Created a ${daysCount}-day ${styleDescription} meal plan for you!`;
     if (planningStyle === "batch_prep" && planData.prepDayInstructions) {
       message += ` Prep day tip: ${planData.prepDayInstructions}`;
     }
+    if (planningStyle === "batch_prep") {
+      message += " Open the Meal Prep Timeline from the meal plan menu for a timed prep schedule.";
+    }
     if (planData.shoppingNeeded && planData.shoppingNeeded.length > 0) {
       message += ` Also added ${planData.shoppingNeeded.length} items to your shopping list.`;
     }
@@ -1140,12 +1338,14 @@ export async function executeAddToShoppingList(
   }
 ): Promise<ActionResult> {
   try {
+    const scope = await resolveSyncScope(userId, "write");
     const newItems: ShoppingListItem[] = [];
 
     for (const item of args.items) {
       const itemId = generateId();
       await db.insert(userShoppingItems).values({
         userId,
+        householdId: scope.householdId,
         itemId,
         name: item.name,
         quantity: item.quantity || 1,
@@ -1164,7 +1364,7 @@ export async function executeAddToShoppingList(
       });
     }
 
-    await updateSectionTimestamp(userId, "shoppingList");
+    await updateScopeTimestamp(scope, "shoppingList");
 
     const itemNames = args.items.map(i => i.name).join(", ");
     return {
@@ -1503,7 +1703,8 @@ export async function executeRemoveShoppingItems(
   }
 ): Promise<ActionResult> {
   try {
-    const shoppingRows = await db.select().from(userShoppingItems).where(eq(userShoppingItems.userId, userId));
+    const scope = await resolveSyncScope(userId, "write");
+    const shoppingRows = await db.select().from(userShoppingItems).where(scopeFilter(userShoppingItems, scope));
 
     if (shoppingRows.length === 0) {
       return {
@@ -1518,10 +1719,11 @@ export async function executeRemoveShoppingItems(
       const checkedCount = checkedItems.length;
       for (const item of checkedItems) {
         await db.delete(userShoppingItems).where(
-          and(eq(userShoppingItems.userId, userId), eq(userShoppingItems.itemId, item.itemId))
+          and(scopeFilter(userShoppingItems, scope), eq(userShoppingItems.itemId, item.itemId))
         );
+        await recordTombstones([{ userId: item.userId, householdId: item.householdId, dataType: "shoppingList", itemId: item.itemId }]);
       }
-      await updateSectionTimestamp(userId, "shoppingList");
+      await updateScopeTimestamp(scope, "shoppingList");
       return {
         success: true,
         message: checkedCount > 0
@@ -1556,14 +1758,16 @@ export async function executeRemoveShoppingItems(
           await db.update(userShoppingItems).set({
             isChecked: true,
             updatedAt: new Date(),
+            revision: nextSyncRevision(),
           }).where(
-            and(eq(userShoppingItems.userId, userId), eq(userShoppingItems.itemId, matchedRow.itemId))
+            and(scopeFilter(userShoppingItems, scope), eq(userShoppingItems.itemId, matchedRow.itemId))
           );
           updated.push(matchedRow.name);
         } else {
           await db.delete(userShoppingItems).where(
-            and(eq(userShoppingItems.userId, userId), eq(userShoppingItems.itemId, matchedRow.itemId))
+            and(scopeFilter(userShoppingItems, scope), eq(userShoppingItems.itemId, matchedRow.itemId))
           );
+          await recordTombstones([{ userId: matchedRow.userId, householdId: matchedRow.householdId, dataType: "shoppingList", itemId: matchedRow.itemId }]);
           updated.push(matchedRow.name);
         }
       } else {
@@ -1571,7 +1775,7 @@ export async function executeRemoveShoppingItems(
       }
     }
 
-    await updateSectionTimestamp(userId, "shoppingList");
+    await updateScopeTimestamp(scope, "shoppingList");
 
     const parts: string[] = [];
     if (updated.length > 0) {
@@ -1640,11 +1844,18 @@ export async function executeUpdateMealPlan(
       };
     }
 
+    const recipes = userData.recipes as { id: string; title: string }[];
+    const recipeTitle = (recipeId: string) => recipes.find((r) => r.id === recipeId)?.title;
+    const savedRecipe = recipes.find((r) => r.title.toLowerCase() === args.newMeal!.trim().toLowerCase());
+    const newEntry: MealEntry = savedRecipe
+      ? { type: "recipe", recipeId: savedRecipe.id }
+      : { type: "text", text: args.newMeal.trim() };
+
     if (planIdx === -1) {
       const newPlan: MealPlan = {
         id: generateId(),
         date: args.date,
-        meals: { [args.mealSlot]: args.newMeal }
+        meals: { [args.mealSlot]: newEntry }
       };
       mealPlans.push(newPlan);
       await updateUserSyncData(userId, { mealPlans });
@@ -1657,13 +1868,13 @@ export async function executeUpdateMealPlan(
     }
 
     const oldMeal = mealPlans[planIdx].meals[args.mealSlot];
-    mealPlans[planIdx].meals[args.mealSlot] = args.newMeal;
+    mealPlans[planIdx].meals[args.mealSlot] = newEntry;
     await updateUserSyncData(userId, { mealPlans });
 
     return {
       success: true,
       message: oldMeal
-        ? `Updated ${args.mealSlot} for ${args.date}: "${oldMeal}" → "${args.newMeal}"`
+        ? `Updated ${args.mealSlot} for ${args.date}: "${mealEntryLabel(oldMeal, recipeTitle)}" → "${args.newMeal}"`
         : `Set ${args.mealSlot} for ${args.date}: ${args.newMeal}`,
       data: mealPlans[planIdx],
       actionType: "update_meal_plan"
@@ -1690,6 +1901,10 @@ export async function executeChatAction(
       return executeConsumeItem(userId, args as Parameters<typeof executeConsumeItem>[1]);
     case "waste_inventory_item":
       return executeWasteItem(userId, args as Parameters<typeof executeWasteItem>[1]);
+    case "mark_recipe_cooked":
+      return executeMarkRecipeCooked(userId, args as Parameters<typeof executeMarkRecipeCooked>[1]);
+    case "undo_recipe_cooked":
+      return executeUndoRecipeCooked(userId);
     case "generate_recipe":
       return executeGenerateRecipe(userId, args as Parameters<typeof executeGenerateRecipe>[1]);
     case "open_recipe_customizer":
@@ -0,0 +1,98 @@
+/**
+ * Cook log summaries.
+ *
+ * Per-recipe stats behind the recipe list's "most cooked" and "not cooked
+ * lately" sorting, and the household taste profile that recipe generation
+ * uses to lean towards what has been rated well.
+ */
+
+export interface CookLogEntryLike {
+  recipeId: string;
+  cookedAt: Date | string;
+  rating: number | null;
+}
+
+export interface RecipeCookStats {
+  recipeId: string;
+  timesCooked: number;
+  lastCookedAt: string | null;
+  averageRating: number | null;
+  ratingCount: number;
+}
+
+export interface TasteProfileRecipe {
+  recipeId: string;
+  title: string;
+  cuisine?: string | null;
+}
+
+export interface TasteProfile {
+  loved: string[];
+  disliked: string[];
+  favoriteCuisines: string[];
+}
+
+/** Average rating at or above which a recipe counts as loved. */
+export const LOVED_RATING = 4;
+/** Average rating at or below which a recipe counts as disliked. */
+export const DISLIKED_RATING = 2;
+
+const PROFILE_LIMIT = 5;
+
+function toTime(value: Date | string): number {
+  return typeof value === "string" ? new Date(value).getTime() : value.getTime();
+}
+
+export function summarizeCookLog(entries: CookLogEntryLike[]): RecipeCookStats[] {
+  const byRecipe = new Map<string, { count: number; last: number; ratingTotal: number; ratingCount: number }>();
+
+  for (const entry of entries) {
+    const stats = byRecipe.get(entry.recipeId) ?? { count: 0, last: 0, ratingTotal: 0, ratingCount: 0 };
+    stats.count += 1;
+    stats.last = Math.max(stats.last, toTime(entry.cookedAt));
+    if (entry.rating !== null) {
+      stats.ratingTotal += entry.rating;
+      stats.ratingCount += 1;
+    }
+    byRecipe.set(entry.recipeId, stats);
+  }
+
+  return Array.from(byRecipe, ([recipeId, stats]) => ({
+    recipeId,
+    timesCooked: stats.count,
+    lastCookedAt: stats.last > 0 ? new Date(stats.last).toISOString() : null,
+    averageRating: stats.ratingCount > 0 ? Math.round((stats.ratingTotal / stats.ratingCount) * 10) / 10 : null,
+    ratingCount: stats.ratingCount,
+  }));
+}
+
+/**
+ * Loved and disliked recipe titles, strongest first, plus the cuisines of the
+ * loved ones. Recipes nobody rated don't count either way.
+ */
+export function buildTasteProfile(stats: RecipeCookStats[], recipes: TasteProfileRecipe[]): TasteProfile {
+  const recipesById = new Map(recipes.map((recipe) => [recipe.recipeId, recipe]));
+  const rated = stats.filter((s) => s.averageRating !== null && recipesById.has(s.recipeId));
+
+  const loved = rated
+    .filter((s) => s.averageRating! >= LOVED_RATING)
+    .sort((a, b) => b.averageRating! - a.averageRating! || b.timesCooked - a.timesCooked);
+  const disliked = rated
+    .filter((s) => s.averageRating! <= DISLIKED_RATING)
+    .sort((a, b) => a.averageRating! - b.averageRating!);
+
+  const cuisineCounts = new Map<string, number>();
+  for (const s of loved) {
+    const cuisine = recipesById.get(s.recipeId)!.cuisine?.trim();
+    if (cuisine) cuisineCounts.set(cuisine, (cuisineCounts.get(cuisine) ?? 0) + 1);
+  }
+
+  return {
+    loved: loved.slice(0, PROFILE_LIMIT).map((s) => recipesById.get(s.recipeId)!.title),
+    disliked: disliked.slice(0, PROFILE_LIMIT).map((s) => recipesById.get(s.recipeId)!.title),
+    favoriteCuisines: Array.from(cuisineCounts)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 3)
+      .map(([cuisine]) => cuisine),
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Multi-recipe cooking timeline.
+ *
+ * Interleaves the steps of several recipes cooked for the same meal (a main
+ * and its sides) so they are all ready at the serve time. Steps keep their
+ * order within a recipe. Passive steps (baking, simmering, resting) run
+ * alongside anything else; active steps need the cook, who does one at a
+ * time.
+ *
+ * Scheduling works backwards from the serve time: each recipe's last step
+ * ends as late as possible, and every earlier step ends when the next one
+ * starts or, for active steps, before it if the cook is busy. Times are
+ * minutes from the start of the session.
+ */
+import { stepTiming } from "@shared/instruction-timing";
+
+export interface TimelineRecipe {
+  itemId: string;
+  title: string;
+  instructions: string[];
+  prepTime: number | null;
+  cookTime: number | null;
+}
+
+export interface CookingTimelineStep {
+  id: string;
+  recipeId: string;
+  recipeTitle: string;
+  stepIndex: number;
+  text: string;
+  startMinute: number;
+  endMinute: number;
+  passive: boolean;
+  /** Set when the step text gives a duration worth a timer. */
+  timerMinutes: number | null;
+}
+
+export interface CookingTimelinePlan {
+  totalMinutes: number;
+  steps: CookingTimelineStep[];
+}
+
+const MIN_STEP_MINUTES = 2;
+const DEFAULT_STEP_MINUTES = 5;
+
+interface TimedStep {
+  recipe: TimelineRecipe;
+  index: number;
+  text: string;
+  minutes: number;
+  passive: boolean;
+  timerMinutes: number | null;
+}
+
+/**
+ * Durations for every step of a recipe. Steps that don't say how long they
+ * take share what is left of the recipe's prep and cook time, at least two
+ * minutes each.
+ */
+export function timeRecipeSteps(recipe: TimelineRecipe): TimedStep[] {
+  const timings = recipe.instructions.map((text) => stepTiming(text));
+  const stated = timings.reduce((sum, t) => sum + (t.minutes ?? 0), 0);
+  const unstated = timings.filter((t) => t.minutes === null).length;
+  const budget = (recipe.prepTime ?? 0) + (recipe.cookTime ?? 0);
+  const fallback = unstated > 0 && budget > stated
+    ? Math.max(MIN_STEP_MINUTES, Math.round((budget - stated) / unstated))
+    : DEFAULT_STEP_MINUTES;
+
+  return recipe.instructions.map((text, index) => {
+    const timing = timings[index];
+    return {
+      recipe,
+      index,
+      text,
+      minutes: timing.minutes ?? fallback,
+      passive: timing.passive,
+      timerMinutes: timing.minutes,
+    };
+  });
+}
+
+/** Latest end at or before `deadline` for an active step that avoids the cook's busy times. */
+function latestFreeEnd(deadline: number, minutes: number, busy: [number, number][]): number {
+  let end = deadline;
+  for (;;) {
+    const clash = busy.find(([start, stop]) => start < end && end - minutes < stop);
+    if (!clash) return end;
+    end = clash[0];
+  }
+}
+
+export function buildCookingTimeline(recipes: TimelineRecipe[]): CookingTimelinePlan {
+  const queues = recipes.map((recipe) => ({ steps: timeRecipeSteps(recipe), deadline: 0 }));
+  const busy: [number, number][] = [];
+  const placed: { step: TimedStep; start: number; end: number }[] = [];
+
+  for (;;) {
+    let best: { queue: (typeof queues)[number]; end: number } | null = null;
+    for (const queue of queues) {
+      const step = queue.steps[queue.steps.length - 1];
+      if (!step) continue;
+      const end = step.passive ? queue.deadline : latestFreeEnd(queue.deadline, step.minutes, busy);
+      if (!best || end > best.end) best = { queue, end };
+    }
+    if (!best) break;
+
+    const step = best.queue.steps.pop()!;
+    const start = best.end - step.minutes;
+    if (!step.passive) busy.push([start, best.end]);
+    best.queue.deadline = start;
+    placed.push({ step, start, end: best.end });
+  }
+
+  const earliest = placed.reduce((min, p) => Math.min(min, p.start), 0);
+  const steps = placed
+    .map(({ step, start, end }) => ({
+      id: `${step.recipe.itemId}:${step.index}`,
+      recipeId: step.recipe.itemId,
+      recipeTitle: step.recipe.title,
+      stepIndex: step.index,
+      text: step.text,
+      startMinute: start - earliest,
+      endMinute: end - earliest,
+      passive: step.passive,
+      timerMinutes: step.timerMinutes,
+    }))
+    .sort((a, b) => a.startMinute - b.startMinute || a.endMinute - b.endMinute);
+
+  return { totalMinutes: -earliest, steps };
+}
@@ -0,0 +1,261 @@
+/**
+ * Transactional email templates, unsubscribe tokens and retry timing.
+ *
+ * Every template renders to a subject plus plain-text and HTML bodies. Mail
+ * in an unsubscribable category gets an unsubscribe link in its footer;
+ * "account" mail (password resets, welcome, cancellation) always goes out.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+export type EmailCategory = "account" | "waste_report" | "offers";
+
+export const UNSUBSCRIBABLE_CATEGORIES: EmailCategory[] = ["waste_report", "offers"];
+
+export interface PasswordResetEmailData {
+  displayName?: string | null;
+  resetUrl: string;
+  expiresInMinutes: number;
+}
+
+export interface WelcomeEmailData {
+  displayName?: string | null;
+  appUrl: string;
+}
+
+export interface WasteReportEmailData {
+  displayName?: string | null;
+  /** Inclusive ISO dates of the reported week. */
+  weekStart: string;
+  weekEnd: string;
+  itemCount: number;
+  /** Estimated from receipt prices; null when nothing could be priced. */
+  wastedValue: number | null;
+  topItems: { name: string; count: number }[];
+  topReasons: { reason: string; count: number }[];
+  appUrl: string;
+}
+
+export interface WinbackOfferEmailData {
+  displayName?: string | null;
+  offerAmountCents: number;
+  offerUrl: string;
+}
+
+export interface SubscriptionCanceledEmailData {
+  displayName?: string | null;
+  /** ISO date access ends, when known. */
+  accessEndsAt: string | null;
+  manageUrl: string;
+}
+
+export interface EmailTemplateData {
+  password_reset: PasswordResetEmailData;
+  welcome: WelcomeEmailData;
+  weekly_waste_report: WasteReportEmailData;
+  winback_offer: WinbackOfferEmailData;
+  subscription_canceled: SubscriptionCanceledEmailData;
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+export const TEMPLATE_CATEGORIES: Record<EmailTemplateName, EmailCategory> = {
+  password_reset: "account",
+  welcome: "account",
+  weekly_waste_report: "waste_report",
+  winback_offer: "offers",
+  subscription_canceled: "account",
+};
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface EmailContent {
+  subject: string;
+  /** Paragraphs; each is escaped for HTML. */
+  paragraphs: string[];
+  action?: { label: string; url: string };
+  list?: string[];
+}
+
+/** Sends after this many failed attempts are given up on. */
+export const MAX_EMAIL_ATTEMPTS = 5;
+
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000];
+
+/** Wait before the next attempt, after `attempts` failed ones; null when out of attempts. */
+export function retryDelayMs(attempts: number): number | null {
+  if (attempts >= MAX_EMAIL_ATTEMPTS) return null;
+  return RETRY_DELAYS_MS[Math.min(Math.max(attempts, 1), RETRY_DELAYS_MS.length) - 1];
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function greeting(displayName?: string | null): string {
+  const name = displayName?.trim();
+  return name ? `Hi ${name},` : "Hi there,";
+}
+
+function formatDollars(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function formatDate(isoDate: string): string {
+  const date = new Date(isoDate.length === 10 ? `${isoDate}T12:00:00Z` : isoDate);
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+}
+
+function buildContent<T extends EmailTemplateName>(template: T, data: EmailTemplateData[T]): EmailContent {
+  switch (template) {
+    case "password_reset": {
+      const d = data as PasswordResetEmailData;
+      return {
+        subject: "Reset your ChefSpAIce password",
+        paragraphs: [
+          greeting(d.displayName),
+          "We received a request to reset your ChefSpAIce password. Use the button below to choose a new one.",
+          `This link expires in ${d.expiresInMinutes} minutes. If you didn't ask for a reset, you can ignore this email and your password will stay the same.`,
+        ],
+        action: { label: "Reset password", url: d.resetUrl },
+      };
+    }
+    case "welcome": {
+      const d = data as WelcomeEmailData;
+      return {
+        subject: "Welcome to ChefSpAIce",
+        paragraphs: [
+          greeting(d.displayName),
+          "Thanks for joining ChefSpAIce! Add what's in your fridge and pantry, and we'll suggest recipes that use it up before it expires.",
+        ],
+        action: { label: "Open ChefSpAIce", url: d.appUrl },
+      };
+    }
+    case "weekly_waste_report": {
+      const d = data as WasteReportEmailData;
+      const period = `${formatDate(d.weekStart)} – ${formatDate(d.weekEnd)}`;
+      const itemsLabel = `${d.itemCount} item${d.itemCount === 1 ? "" : "s"}`;
+      return {
+        subject: `Your food waste report: ${itemsLabel} this week`,
+        paragraphs: [
+          greeting(d.displayName),
+          d.wastedValue !== null
+            ? `From ${period} you threw out ${itemsLabel}, worth about $${d.wastedValue.toFixed(2)}.`
+            : `From ${period} you threw out ${itemsLabel}.`,
+          ...(d.topReasons.length > 0
+            ? [`Most common reason: ${d.topReasons[0].reason}.`]
+            : []),
+          "Your expiring items are waiting in the app with recipe ideas to use them up.",
+        ],
+        list: d.topItems.map((item) => (item.count > 1 ? `${item.name} (×${item.count})` : item.name)),
+        action: { label: "See what's expiring", url: d.appUrl },
+      };
+    }
+    case "winback_offer": {
+      const d = data as WinbackOfferEmailData;
+      const price = formatDollars(d.offerAmountCents);
+      return {
+        subject: `We miss you! Come back for ${price}`,
+        paragraphs: [
+          greeting(d.displayName),
+          `It's been a while since you left ChefSpAIce. Come back and enjoy your first month for just ${price}.`,
+        ],
+        action: { label: "Claim offer", url: d.offerUrl },
+      };
+    }
+    case "subscription_canceled": {
+      const d = data as SubscriptionCanceledEmailData;
+      return {
+        subject: "Your ChefSpAIce subscription has been canceled",
+        paragraphs: [
+          greeting(d.displayName),
+          d.accessEndsAt
+            ? `Your subscription won't renew. You'll keep full access until ${formatDate(d.accessEndsAt)}.`
+            : "Your subscription won't renew.",
+          "Changed your mind? You can resume any time before then.",
+        ],
+        action: { label: "Manage subscription", url: d.manageUrl },
+      };
+    }
+    default:
+      throw new Error(`Unknown email template: ${String(template)}`);
+  }
+}
+
+/**
+ * Renders a template. `unsubscribeUrl` is only used for categories the
+ * recipient can unsubscribe from.
+ */
+export function renderEmail<T extends EmailTemplateName>(
+  template: T,
+  data: EmailTemplateData[T],
+  options: { unsubscribeUrl?: string } = {},
+): RenderedEmail {
+  const content = buildContent(template, data);
+  const unsubscribeUrl = UNSUBSCRIBABLE_CATEGORIES.includes(TEMPLATE_CATEGORIES[template])
+    ? options.unsubscribeUrl
+    : undefined;
+
+  const text = [
+    ...content.paragraphs,
+    ...(content.list?.length ? [content.list.map((item) => `- ${item}`).join("\n")] : []),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    ...(unsubscribeUrl ? [`Unsubscribe: ${unsubscribeUrl}`] : []),
+  ].join("\n\n");
+
+  const html = [
+    `<!DOCTYPE html><html><body style="font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1f2937; line-height: 1.5;">`,
+    ...content.paragraphs.map((p) => `<p>${escapeHtml(p)}</p>`),
+    ...(content.list?.length
+      ? [`<ul>${content.list.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`]
+      : []),
+    ...(content.action
+      ? [`<p><a href="${escapeHtml(content.action.url)}" style="display: inline-block; padding: 10px 18px; background: #2e7d32; color: #ffffff; border-radius: 6px; text-decoration: none;">${escapeHtml(content.action.label)}</a></p>`]
+      : []),
+    ...(unsubscribeUrl
+      ? [`<p style="font-size: 12px; color: #6b7280;"><a href="${escapeHtml(unsubscribeUrl)}" style="color: #6b7280;">Unsubscribe</a> from these emails.</p>`]
+      : []),
+    `</body></html>`,
+  ].join("\n");
+
+  return { subject: content.subject, text, html };
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/** A link-safe token that unsubscribes one user from one category. */
+export function createUnsubscribeToken(userId: string, category: EmailCategory, secret: string): string {
+  const payload = Buffer.from(JSON.stringify({ u: userId, c: category })).toString("base64url");
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+export function verifyUnsubscribeToken(
+  token: string,
+  secret: string,
+): { userId: string; category: EmailCategory } | null {
+  const [payload, signature, extra] = token.split(".");
+  if (!payload || !signature || extra !== undefined) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const parsed = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+    if (typeof parsed.u !== "string" || !UNSUBSCRIBABLE_CATEGORIES.includes(parsed.c)) return null;
+    return { userId: parsed.u, category: parsed.c };
+  } catch {
+    return null;
+  }
+}
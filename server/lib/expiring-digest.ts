@@ -0,0 +1,260 @@
+import { ingredientName } from "@shared/ingredient-parser";
+
+export interface DigestInventoryItem {
+  itemId: string;
+  name: string;
+  expirationDate: string | null;
+  quantity: number;
+  unit: string;
+}
+
+export interface DigestRecipe {
+  itemId: string;
+  title: string;
+  ingredients: unknown;
+}
+
+/** How close an item is to expiring, relative to the user's local day. */
+export type ExpiryStage = "today" | "tomorrow" | "soon";
+
+export interface ExpiringDigestItem {
+  itemId: string;
+  name: string;
+  expirationDate: string;
+  daysUntilExpiry: number;
+  stage: ExpiryStage;
+}
+
+export interface SuggestedRecipe {
+  recipeId: string;
+  title: string;
+  /** Names of the expiring items the recipe uses. */
+  uses: string[];
+}
+
+export interface LocalClock {
+  date: string;
+  /** Minutes since local midnight. */
+  minutes: number;
+}
+
+export const DEFAULT_NOTIFICATION_TIME = "09:00";
+
+/**
+ * How long after the user's notification time a digest may still go out, so
+ * a missed job run (deploy, restart) doesn't skip the day but a very late run
+ * doesn't buzz them in the middle of the night.
+ */
+export const DIGEST_WINDOW_MINUTES = 180;
+
+const MAX_LISTED_ITEMS = 4;
+const MINUTES_PER_DAY = 24 * 60;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The local date and time of day in an IANA time zone; unknown zones fall back to UTC. */
+export function localClock(now: Date, timeZone: string | null | undefined): LocalClock {
+  const zone = timeZone && isValidTimeZone(timeZone) ? timeZone : "UTC";
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value]),
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/** Minutes since midnight for an "HH:MM" time, or null if it isn't one. */
+export function parseNotificationTime(value: string | null | undefined): number | null {
+  const match = value?.trim().match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/** Minutes since the notification time opened the current window, wrapping past midnight. */
+function minutesSinceNotificationTime(clock: LocalClock, notificationTime: string | null | undefined): number {
+  const target =
+    parseNotificationTime(notificationTime) ?? parseNotificationTime(DEFAULT_NOTIFICATION_TIME)!;
+  return (clock.minutes - target + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
+
+/**
+ * Whether the local time falls in the window that opens at the user's
+ * notification time. A late notification time's window runs on past midnight.
+ */
+export function isDigestDue(clock: LocalClock, notificationTime: string | null | undefined): boolean {
+  return minutesSinceNotificationTime(clock, notificationTime) < DIGEST_WINDOW_MINUTES;
+}
+
+/**
+ * The local date whose digest the current window belongs to: the day before
+ * when a window that opened late in the evening has run past midnight.
+ */
+export function digestDate(clock: LocalClock, notificationTime: string | null | undefined): string {
+  return clock.minutes < minutesSinceNotificationTime(clock, notificationTime)
+    ? addDays(clock.date, -1)
+    : clock.date;
+}
+
+/** Whole days from one "YYYY-MM-DD" date to another. */
+export function daysBetween(from: string, to: string): number | null {
+  const start = Date.parse(`${from}T00:00:00Z`);
+  const end = Date.parse(`${to.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(start) || Number.isNaN(end)) return null;
+  return Math.round((end - start) / 86_400_000);
+}
+
+/** "YYYY-MM-DD" for `date` plus `days`. */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86_400_000).toISOString().slice(0, 10);
+}
+
+function stageFor(daysUntilExpiry: number): ExpiryStage {
+  if (daysUntilExpiry <= 0) return "today";
+  if (daysUntilExpiry === 1) return "tomorrow";
+  return "soon";
+}
+
+/**
+ * Items expiring between the user's local today and `alertDays` days out,
+ * soonest first. Items that have already expired are left to the waste flow.
+ */
+export function findExpiringItems(
+  items: DigestInventoryItem[],
+  localDate: string,
+  alertDays: number,
+): ExpiringDigestItem[] {
+  const expiring: ExpiringDigestItem[] = [];
+  for (const item of items) {
+    if (!item.expirationDate || item.quantity <= 0) continue;
+    const days = daysBetween(localDate, item.expirationDate);
+    if (days === null || days < 0 || days > alertDays) continue;
+    expiring.push({
+      itemId: item.itemId,
+      name: item.name,
+      expirationDate: item.expirationDate.slice(0, 10),
+      daysUntilExpiry: days,
+      stage: stageFor(days),
+    });
+  }
+  return expiring.sort(
+    (a, b) => a.daysUntilExpiry - b.daysUntilExpiry || a.name.localeCompare(b.name),
+  );
+}
+
+/**
+ * Identifies one alert about one item. An item is alerted again when it moves
+ * to a closer stage or its expiration date changes, but not every day.
+ */
+export function alertKey(item: ExpiringDigestItem): string {
+  return `${item.itemId}:${item.expirationDate}:${item.stage}`;
+}
+
+/** Drops items whose current alert was already part of an earlier digest. */
+export function excludeSentAlerts(
+  items: ExpiringDigestItem[],
+  sentKeys: ReadonlySet<string>,
+): ExpiringDigestItem[] {
+  return items.filter((item) => !sentKeys.has(alertKey(item)));
+}
+
+export function groupByStage(items: ExpiringDigestItem[]): Record<ExpiryStage, ExpiringDigestItem[]> {
+  return {
+    today: items.filter((item) => item.stage === "today"),
+    tomorrow: items.filter((item) => item.stage === "tomorrow"),
+    soon: items.filter((item) => item.stage === "soon"),
+  };
+}
+
+/** Lowercase words with simple plurals dropped, so "Eggs" matches "large egg". */
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word))
+    .join(" ");
+}
+
+function recipeIngredientNames(ingredients: unknown): string[] {
+  if (!Array.isArray(ingredients)) return [];
+  return ingredients
+    .map((ingredient) => {
+      if (typeof ingredient === "string") return ingredientName(ingredient);
+      if (ingredient && typeof ingredient === "object" && typeof (ingredient as { name?: unknown }).name === "string") {
+        return (ingredient as { name: string }).name;
+      }
+      return "";
+    })
+    .map(normalizeName)
+    .filter(Boolean);
+}
+
+/** Whole-word containment either way: "chicken" matches "chicken thigh" but "egg" doesn't match "eggplant". */
+function matches(itemName: string, ingredient: string): boolean {
+  return ` ${ingredient} `.includes(` ${itemName} `) || ` ${itemName} `.includes(` ${ingredient} `);
+}
+
+/** Saved recipes that use the most expiring items, best match first. */
+export function suggestRecipes(
+  recipes: DigestRecipe[],
+  items: ExpiringDigestItem[],
+  limit = 3,
+): SuggestedRecipe[] {
+  const itemNames = items.map((item) => ({ name: item.name, normalized: normalizeName(item.name) }));
+  const suggestions: SuggestedRecipe[] = [];
+  for (const recipe of recipes) {
+    const ingredients = recipeIngredientNames(recipe.ingredients);
+    const uses = itemNames
+      .filter(({ normalized }) => normalized && ingredients.some((ingredient) => matches(normalized, ingredient)))
+      .map(({ name }) => name);
+    if (uses.length > 0) {
+      suggestions.push({ recipeId: recipe.itemId, title: recipe.title, uses });
+    }
+  }
+  return suggestions
+    .sort((a, b) => b.uses.length - a.uses.length || a.title.localeCompare(b.title))
+    .slice(0, limit);
+}
+
+function listNames(items: ExpiringDigestItem[]): string {
+  const names = items.slice(0, MAX_LISTED_ITEMS).map((item) => item.name);
+  const more = items.length - names.length;
+  return more > 0 ? `${names.join(", ")} and ${more} more` : names.join(", ");
+}
+
+/** Push title and body for a digest, grouped by how soon the items expire. */
+export function buildDigestMessage(
+  items: ExpiringDigestItem[],
+  recipes: SuggestedRecipe[],
+): { title: string; body: string } {
+  const groups = groupByStage(items);
+  const lines: string[] = [];
+  if (groups.today.length > 0) lines.push(`Today: ${listNames(groups.today)}`);
+  if (groups.tomorrow.length > 0) lines.push(`Tomorrow: ${listNames(groups.tomorrow)}`);
+  if (groups.soon.length > 0) lines.push(`Soon: ${listNames(groups.soon)}`);
+  if (recipes.length > 0) lines.push(`Try: ${recipes.map((recipe) => recipe.title).join(", ")}`);
+
+  const title =
+    items.length === 1
+      ? `${items[0].name} is expiring soon`
+      : `${items.length} items are expiring soon`;
+  return { title, body: lines.join("\n") };
+}
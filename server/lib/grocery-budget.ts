@@ -0,0 +1,109 @@
+export interface SpendLine {
+  category: string | null;
+  totalPrice: number;
+}
+
+export interface SpendReceipt {
+  id: string;
+  totalAmount: number;
+}
+
+export interface CategorySpend {
+  category: string;
+  spent: number;
+  budget: number | null;
+}
+
+/**
+ * - none: no budget is set
+ * - under: less than 90% of the budget is spent
+ * - near: 90% or more is spent
+ * - over: spending exceeds the budget
+ */
+export type BudgetStatus = "none" | "under" | "near" | "over";
+
+/** Category for receipt lines without one and for the part of a receipt total not covered by its lines. */
+export const OTHER_SPEND_CATEGORY = "other";
+
+const NEAR_BUDGET_RATIO = 0.9;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** "YYYY-MM" for a "YYYY-MM-DD" date string or a Date (UTC). */
+export function monthKey(date: string | Date): string {
+  return typeof date === "string" ? date.slice(0, 7) : date.toISOString().slice(0, 7);
+}
+
+export function isMonthKey(value: string): boolean {
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+}
+
+/** Inclusive "YYYY-MM-DD" bounds for text comparison against purchase dates. */
+export function monthBounds(month: string): { start: string; end: string } {
+  return { start: `${month}-01`, end: `${month}-31` };
+}
+
+/** The `count` months ending with `month`, oldest first. */
+export function previousMonths(month: string, count: number): string[] {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const months: string[] = [];
+  for (let offset = count - 1; offset >= 0; offset--) {
+    const date = new Date(Date.UTC(year, monthIndex - 1 - offset, 1));
+    months.push(monthKey(date));
+  }
+  return months;
+}
+
+/**
+ * Splits a month's receipts by category. Line prices go to their category;
+ * whatever each receipt's total adds on top of its lines (tax, unpriced
+ * items) goes to "other", so the categories add up to the receipt totals.
+ * Budgeted categories are listed even when nothing was spent on them.
+ */
+export function breakdownSpend(
+  receipts: SpendReceipt[],
+  linesByReceipt: Map<string, SpendLine[]>,
+  categoryBudgets: Record<string, number> | null = null,
+): CategorySpend[] {
+  const spent = new Map<string, number>();
+  const add = (category: string, amount: number) => spent.set(category, (spent.get(category) ?? 0) + amount);
+
+  for (const receipt of receipts) {
+    const lines = linesByReceipt.get(receipt.id) ?? [];
+    let linesTotal = 0;
+    for (const line of lines) {
+      add(line.category?.trim().toLowerCase() || OTHER_SPEND_CATEGORY, line.totalPrice);
+      linesTotal += line.totalPrice;
+    }
+    const remainder = receipt.totalAmount - linesTotal;
+    if (Math.abs(remainder) >= 0.005) {
+      add(OTHER_SPEND_CATEGORY, remainder);
+    }
+  }
+
+  for (const category of Object.keys(categoryBudgets ?? {})) {
+    if (!spent.has(category)) spent.set(category, 0);
+  }
+
+  return [...spent.entries()]
+    .map(([category, amount]) => ({
+      category,
+      spent: roundMoney(amount),
+      budget: categoryBudgets?.[category] ?? null,
+    }))
+    .sort((a, b) => b.spent - a.spent || a.category.localeCompare(b.category));
+}
+
+export function budgetStatus(spent: number, budget: number | null): BudgetStatus {
+  if (budget === null || budget <= 0) return "none";
+  if (spent > budget) return "over";
+  if (spent >= budget * NEAR_BUDGET_RATIO) return "near";
+  return "under";
+}
+
+/** True when going from `previousSpent` to `spent` crosses the budget. */
+export function crossedBudget(previousSpent: number, spent: number, budget: number | null): boolean {
+  return budget !== null && budget > 0 && previousSpent <= budget && spent > budget;
+}
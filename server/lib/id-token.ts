@@ -0,0 +1,123 @@
+/**
+ * OpenID Connect ID-token verification for Google and Apple sign-in.
+ *
+ * Tokens are RS256 JWTs signed with one of the provider's published keys
+ * (JWKS). Key fetching lives in the social auth service so tests can pass
+ * their own keys here and stay offline.
+ */
+
+import { createHash, createPublicKey, createVerify, type JsonWebKey } from "crypto";
+import { AppError } from "../middleware/errorHandler";
+
+export interface SigningKey extends JsonWebKey {
+  kid?: string;
+  alg?: string;
+}
+
+export interface IdTokenVerifyOptions {
+  keys: SigningKey[];
+  issuers: string[];
+  audiences: string[];
+  /** Raw nonce sent with the sign-in request; the token may carry it as-is or SHA-256 hashed (Apple). */
+  nonce?: string;
+  now?: Date;
+}
+
+export interface IdTokenIdentity {
+  /** Stable provider user ID (`sub`). */
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+  /** Apple "Hide My Email" relay address. */
+  isPrivateEmail: boolean;
+}
+
+/** Allowed clock drift between us and the provider. */
+const CLOCK_SKEW_SECONDS = 60;
+
+export const UNKNOWN_SIGNING_KEY = "UNKNOWN_SIGNING_KEY";
+
+function invalid(message: string, errorCode = "INVALID_ID_TOKEN"): AppError {
+  return AppError.unauthorized(message, errorCode);
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(Buffer.from(segment, "base64url").toString("utf-8"));
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed;
+  } catch {
+    // fall through
+  }
+  throw invalid("Malformed ID token");
+}
+
+/** Apple sends booleans as strings ("true"). */
+function readBoolean(value: unknown): boolean {
+  return value === true || value === "true";
+}
+
+export function verifyIdToken(token: string, options: IdTokenVerifyOptions): IdTokenIdentity {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw invalid("Malformed ID token");
+  }
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  const header = decodeSegment(encodedHeader);
+  const claims = decodeSegment(encodedPayload);
+
+  if (header.alg !== "RS256") {
+    throw invalid("Unsupported ID token algorithm");
+  }
+
+  const key = options.keys.find((k) => k.kid === header.kid && k.kty === "RSA");
+  if (!key) {
+    throw invalid("ID token signed with an unknown key", UNKNOWN_SIGNING_KEY);
+  }
+
+  const verifier = createVerify("RSA-SHA256");
+  verifier.update(`${encodedHeader}.${encodedPayload}`);
+  const signatureValid = verifier.verify(
+    createPublicKey({ key, format: "jwk" }),
+    Buffer.from(encodedSignature, "base64url"),
+  );
+  if (!signatureValid) {
+    throw invalid("ID token signature is invalid");
+  }
+
+  if (typeof claims.iss !== "string" || !options.issuers.includes(claims.iss)) {
+    throw invalid("ID token issuer is not trusted");
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.some((aud) => typeof aud === "string" && options.audiences.includes(aud))) {
+    throw invalid("ID token was issued for a different app");
+  }
+
+  const nowSeconds = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < nowSeconds) {
+    throw invalid("ID token has expired", "ID_TOKEN_EXPIRED");
+  }
+  if (typeof claims.iat === "number" && claims.iat - CLOCK_SKEW_SECONDS > nowSeconds) {
+    throw invalid("ID token was issued in the future");
+  }
+
+  if (options.nonce !== undefined) {
+    const hashedNonce = createHash("sha256").update(options.nonce).digest("hex");
+    if (claims.nonce !== options.nonce && claims.nonce !== hashedNonce) {
+      throw invalid("ID token nonce does not match");
+    }
+  }
+
+  if (typeof claims.sub !== "string" || claims.sub.length === 0) {
+    throw invalid("ID token has no subject");
+  }
+
+  return {
+    subject: claims.sub,
+    email: typeof claims.email === "string" ? claims.email.toLowerCase() : null,
+    emailVerified: readBoolean(claims.email_verified),
+    name: typeof claims.name === "string" && claims.name.trim() ? claims.name.trim() : null,
+    isPrivateEmail: readBoolean(claims.is_private_email),
+  };
+}
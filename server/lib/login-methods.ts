@@ -0,0 +1,63 @@
+/**
+ * Rules for the ways a user can sign in: a password, any linked
+ * Google/Apple identities and registered passkeys. An account must always
+ * keep at least one.
+ */
+
+import type { AuthProviderType } from "@shared/domain";
+
+export type SocialProvider = Exclude<AuthProviderType, "email" | "passkey">;
+
+export const SOCIAL_PROVIDERS: SocialProvider[] = ["google", "apple"];
+
+export interface LoginMethods {
+  hasPassword: boolean;
+  providers: SocialProvider[];
+  passkeyCount: number;
+}
+
+export function countLoginMethods(methods: LoginMethods): number {
+  return (methods.hasPassword ? 1 : 0) + methods.providers.length + methods.passkeyCount;
+}
+
+/** Whether unlinking `provider` still leaves the user a way to sign in. */
+export function canUnlinkProvider(methods: LoginMethods, provider: SocialProvider): boolean {
+  if (!methods.providers.includes(provider)) return false;
+  return countLoginMethods(methods) > 1;
+}
+
+/** Whether removing one passkey still leaves the user a way to sign in. */
+export function canRemovePasskey(methods: LoginMethods): boolean {
+  return methods.passkeyCount > 0 && countLoginMethods(methods) > 1;
+}
+
+export interface EmailMatch {
+  userId: string;
+  hasPassword: boolean;
+}
+
+export type SocialSignInDecision =
+  | { action: "login"; userId: string }
+  | { action: "link"; userId: string }
+  | { action: "create" }
+  | { action: "password_required" }
+  | { action: "email_unverified" };
+
+/**
+ * What to do with a verified provider identity. An existing account with the
+ * same email is only merged when the provider vouches for the email and, for
+ * password accounts, the caller also proved the password — otherwise whoever
+ * registered that email could keep a password into the merged account.
+ */
+export function decideSocialSignIn(input: {
+  linkedUserId: string | null;
+  emailMatch: EmailMatch | null;
+  emailVerified: boolean;
+  passwordVerified: boolean;
+}): SocialSignInDecision {
+  if (input.linkedUserId) return { action: "login", userId: input.linkedUserId };
+  if (!input.emailMatch) return { action: "create" };
+  if (!input.emailVerified) return { action: "email_unverified" };
+  if (input.emailMatch.hasPassword && !input.passwordVerified) return { action: "password_required" };
+  return { action: "link", userId: input.emailMatch.userId };
+}
@@ -0,0 +1,513 @@
+/**
+ * Meal-prep planning.
+ *
+ * Turns the recipes planned for a week into one prep session: knife work that
+ * several recipes share is done once ("dice 3 onions" rather than three
+ * separate onion steps), cooking is scheduled across the ovens, burners and
+ * countertop appliances the user actually has, and every planned meal gets a
+ * labelled container with fridge or freezer instructions.
+ *
+ * Times are minutes from the start of the session. The cook is modelled as
+ * one person doing hands-on work (prep, assembly, packing) one task at a time,
+ * while appliances cook unattended in parallel.
+ */
+import { ingredientName } from "@shared/ingredient-parser";
+import { normalizeUnitName } from "./unit-conversion";
+import { parseIngredientQuantity } from "./recipe-deduction";
+
+export type PrepEquipment =
+  | "oven"
+  | "stovetop"
+  | "slow_cooker"
+  | "pressure_cooker"
+  | "air_fryer"
+  | "none";
+
+export type CookingEquipment = Exclude<PrepEquipment, "none">;
+
+/** How many dishes each kind of equipment can cook at once. */
+export type EquipmentCapacity = Record<CookingEquipment, number>;
+
+export type PrepAction = "peel" | "chop" | "dice" | "mince" | "slice" | "grate";
+
+export interface MealPrepRecipe {
+  itemId: string;
+  title: string;
+  servings: number | null;
+  prepTime: number | null;
+  cookTime: number | null;
+  ingredients: {
+    name: string;
+    quantity?: number | string | null;
+    unit?: string | null;
+    preparation?: string | null;
+  }[];
+  instructions: string[];
+}
+
+export interface MealPrepMeal {
+  date: string;
+  slotId: string;
+  recipeId: string;
+}
+
+/** One piece of knife work, merged across every recipe that needs it. */
+export interface SharedPrepTask {
+  id: string;
+  action: PrepAction;
+  ingredient: string;
+  /** Null when any recipe leaves the amount unmeasured. */
+  quantity: number | null;
+  unit: string;
+  recipeIds: string[];
+  minutes: number;
+}
+
+export interface PrepTimelineTask {
+  id: string;
+  kind: "prep" | "assemble" | "cook" | "pack";
+  label: string;
+  startMinute: number;
+  endMinute: number;
+  equipment: PrepEquipment | null;
+  recipeIds: string[];
+}
+
+export interface PrepContainer {
+  recipeId: string;
+  title: string;
+  date: string;
+  slotId: string;
+  storage: "fridge" | "freezer";
+  label: string;
+  eatBy: string;
+  instructions: string;
+}
+
+export interface MealPrepPlan {
+  prepDate: string;
+  totalMinutes: number;
+  sharedPrep: SharedPrepTask[];
+  timeline: PrepTimelineTask[];
+  containers: PrepContainer[];
+  warnings: string[];
+}
+
+export interface MealPrepOptions {
+  prepDate: string;
+  /** Days cooked food keeps in the fridge. */
+  fridgeDays: number;
+  /** Days cooked food keeps in the freezer. */
+  freezerDays: number;
+}
+
+/** Assumed when the user hasn't listed any appliances. */
+export const DEFAULT_CAPACITY: EquipmentCapacity = {
+  oven: 2,
+  stovetop: 4,
+  slow_cooker: 0,
+  pressure_cooker: 0,
+  air_fryer: 0,
+};
+
+const OVEN_RACKS = 2;
+const STOVETOP_BURNERS = 4;
+const DEFAULT_COOK_MINUTES = 30;
+const DEFAULT_PREP_MINUTES = 15;
+const MIN_ASSEMBLE_MINUTES = 5;
+const COOL_MINUTES = 20;
+const PACK_MINUTES = 5;
+
+const ACTION_WORDS: Record<PrepAction, RegExp> = {
+  peel: /\bpeel(?:ed|ing)?\b/,
+  chop: /\bchop(?:ped|ping)?\b/,
+  dice: /\b(?:dic(?:e|ed|ing)|cub(?:e|ed)d?)\b/,
+  mince: /\bminc(?:e|ed|ing)\b/,
+  slice: /\bslic(?:e|ed|ing)\b/,
+  grate: /\b(?:grat(?:e|ed|ing)|shredd?(?:ed|ing)?)\b/,
+};
+
+/** Minutes of knife work for the first recipe; each extra recipe adds the rest. */
+const ACTION_MINUTES: Record<PrepAction, { base: number; extra: number }> = {
+  peel: { base: 3, extra: 2 },
+  chop: { base: 4, extra: 2 },
+  dice: { base: 5, extra: 3 },
+  mince: { base: 3, extra: 1 },
+  slice: { base: 4, extra: 2 },
+  grate: { base: 3, extra: 2 },
+};
+
+const EQUIPMENT_PATTERNS: [CookingEquipment, RegExp][] = [
+  ["slow_cooker", /\b(?:slow[- ]cook(?:er)?|crock[- ]?pot)\b/],
+  ["pressure_cooker", /\b(?:pressure[- ]cook(?:er)?|instant pot)\b/],
+  ["air_fryer", /\bair[- ]fr(?:y|yer|ied)\b/],
+  ["oven", /\b(?:oven|bake|baked|baking|roast|roasted|broil|preheat)\b/],
+  ["stovetop", /\b(?:saut[eé]|simmer|boil|fry|skillet|saucepan|pot|pan|wok|stir[- ]fry|sear)\b/],
+];
+
+/** Fallbacks when the user has none of the equipment a recipe asks for. */
+const EQUIPMENT_FALLBACK: Partial<Record<CookingEquipment, CookingEquipment>> = {
+  slow_cooker: "stovetop",
+  pressure_cooker: "stovetop",
+  air_fryer: "oven",
+};
+
+const EQUIPMENT_NAMES: Record<CookingEquipment, string> = {
+  oven: "oven",
+  stovetop: "stovetop",
+  slow_cooker: "slow cooker",
+  pressure_cooker: "pressure cooker",
+  air_fryer: "air fryer",
+};
+
+function withArticle(equipment: CookingEquipment): string {
+  const name = EQUIPMENT_NAMES[equipment];
+  return `${/^[aeiou]/.test(name) ? "an" : "a"} ${name}`;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+function nameKey(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, " ")
+    .replace(/(?:es|s)$/, "");
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+function weekday(date: string): string {
+  return WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+}
+
+function findAction(text: string): PrepAction | null {
+  const lower = text.toLowerCase();
+  for (const [action, pattern] of Object.entries(ACTION_WORDS) as [PrepAction, RegExp][]) {
+    if (pattern.test(lower)) return action;
+  }
+  return null;
+}
+
+/**
+ * The knife work each recipe needs, from the ingredient's preparation
+ * ("finely chopped") or, failing that, from an instruction step that names
+ * both an action and the ingredient ("Dice the carrots").
+ */
+function recipePrepNeeds(
+  recipe: MealPrepRecipe,
+): { action: PrepAction; ingredient: string; quantity: number | null; unit: string }[] {
+  const steps = recipe.instructions.map((step) => step.toLowerCase());
+  const needs: { action: PrepAction; ingredient: string; quantity: number | null; unit: string }[] = [];
+
+  for (const ingredient of recipe.ingredients) {
+    const name = ingredientName(ingredient.name);
+    if (!name) continue;
+
+    let action = ingredient.preparation ? findAction(ingredient.preparation) : null;
+    if (!action) {
+      const key = nameKey(name);
+      const step = steps.find((s) => s.includes(key) && findAction(s));
+      action = step ? findAction(step) : null;
+    }
+    if (!action) continue;
+
+    needs.push({
+      action,
+      ingredient: name,
+      quantity: parseIngredientQuantity(ingredient.quantity ?? ""),
+      unit: ingredient.unit?.trim() ?? "",
+    });
+  }
+
+  return needs;
+}
+
+/**
+ * Merges knife work across recipes by action and ingredient. Amounts in the
+ * same unit are added; a mix of units or an unmeasured amount leaves the task
+ * without a total. Tasks serving the most recipes come first.
+ */
+export function mergePrepTasks(recipes: MealPrepRecipe[]): SharedPrepTask[] {
+  const tasks = new Map<string, SharedPrepTask>();
+
+  for (const recipe of recipes) {
+    for (const need of recipePrepNeeds(recipe)) {
+      const key = `${need.action}:${nameKey(need.ingredient)}`;
+      const existing = tasks.get(key);
+      if (!existing) {
+        tasks.set(key, {
+          id: key,
+          action: need.action,
+          ingredient: need.ingredient,
+          quantity: need.quantity,
+          unit: need.unit,
+          recipeIds: [recipe.itemId],
+          minutes: ACTION_MINUTES[need.action].base,
+        });
+        continue;
+      }
+
+      const sameUnit = normalizeUnitName(existing.unit) === normalizeUnitName(need.unit);
+      existing.quantity =
+        existing.quantity !== null && need.quantity !== null && sameUnit
+          ? existing.quantity + need.quantity
+          : null;
+      if (!existing.recipeIds.includes(recipe.itemId)) {
+        existing.recipeIds.push(recipe.itemId);
+        existing.minutes += ACTION_MINUTES[need.action].extra;
+      }
+    }
+  }
+
+  return [...tasks.values()].sort((a, b) => b.recipeIds.length - a.recipeIds.length);
+}
+
+/** The equipment a recipe cooks on, read from its title and instructions. */
+export function detectEquipment(recipe: Pick<MealPrepRecipe, "title" | "instructions">): PrepEquipment {
+  const text = [recipe.title, ...recipe.instructions].join(" ").toLowerCase();
+  for (const [equipment, pattern] of EQUIPMENT_PATTERNS) {
+    if (pattern.test(text)) return equipment;
+  }
+  return "none";
+}
+
+/**
+ * Capacity from the names of the user's appliances: two racks per oven, four
+ * burners per stovetop and one dish per countertop cooker. An empty list means
+ * the user hasn't set up their kitchen, so a standard oven and range is assumed.
+ */
+export function capacityFromAppliances(names: string[]): EquipmentCapacity {
+  if (names.length === 0) return { ...DEFAULT_CAPACITY };
+
+  const capacity: EquipmentCapacity = {
+    oven: 0,
+    stovetop: 0,
+    slow_cooker: 0,
+    pressure_cooker: 0,
+    air_fryer: 0,
+  };
+  for (const raw of names) {
+    const name = raw.toLowerCase();
+    if (/slow cooker|crock/.test(name)) capacity.slow_cooker += 1;
+    else if (/pressure cooker|instant pot/.test(name)) capacity.pressure_cooker += 1;
+    else if (/air fryer/.test(name)) capacity.air_fryer += 1;
+    else if (/stovetop|range|cooktop|hob/.test(name)) capacity.stovetop += STOVETOP_BURNERS;
+    else if (/^oven$|wall oven|convection oven|toaster oven/.test(name)) capacity.oven += OVEN_RACKS;
+  }
+  return capacity;
+}
+
+function describeTask(task: SharedPrepTask): string {
+  const amount = task.quantity !== null && task.quantity > 0
+    ? `${Math.round(task.quantity * 100) / 100}${task.unit ? ` ${task.unit}` : ""} `
+    : "";
+  const action = task.action.charAt(0).toUpperCase() + task.action.slice(1);
+  return `${action} ${amount}${task.ingredient}`;
+}
+
+interface CookSlot {
+  equipment: CookingEquipment;
+  freeAt: number[];
+}
+
+/**
+ * Plans one prep session for the planned meals. Each recipe is cooked once,
+ * in a batch covering every meal it is planned for. Recipes with the longest
+ * cook come first so their ovens and pots are busy while the rest is prepped;
+ * a recipe's shared knife work is done just before it is assembled. A dish
+ * cooks once its prep is done and its equipment is free, then cools before
+ * it is packed. Meals more than `fridgeDays` after the prep day are frozen.
+ */
+export function buildMealPrepPlan(
+  recipes: MealPrepRecipe[],
+  meals: MealPrepMeal[],
+  capacity: EquipmentCapacity,
+  options: MealPrepOptions,
+): MealPrepPlan {
+  const { prepDate, fridgeDays, freezerDays } = options;
+  const recipesById = new Map(recipes.map((r) => [r.itemId, r]));
+  const warnings: string[] = [];
+
+  const mealsByRecipe = new Map<string, MealPrepMeal[]>();
+  for (const meal of [...meals].sort((a, b) => a.date.localeCompare(b.date))) {
+    if (!recipesById.has(meal.recipeId) || meal.date < prepDate) continue;
+    const list = mealsByRecipe.get(meal.recipeId);
+    if (list) list.push(meal);
+    else mealsByRecipe.set(meal.recipeId, [meal]);
+  }
+
+  const batch = [...mealsByRecipe.keys()]
+    .map((id) => recipesById.get(id)!)
+    .map((recipe) => ({
+      recipe,
+      equipment: detectEquipment(recipe),
+      cookMinutes: recipe.cookTime && recipe.cookTime > 0 ? recipe.cookTime : 0,
+    }))
+    .map((entry) => ({
+      ...entry,
+      cookMinutes: entry.cookMinutes || (entry.equipment === "none" ? 0 : DEFAULT_COOK_MINUTES),
+    }))
+    .sort((a, b) => b.cookMinutes - a.cookMinutes || a.recipe.title.localeCompare(b.recipe.title));
+
+  for (const { recipe } of batch) {
+    const planned = mealsByRecipe.get(recipe.itemId)!.length;
+    if (recipe.servings && planned > recipe.servings) {
+      warnings.push(
+        `${recipe.title} makes ${recipe.servings} serving${recipe.servings === 1 ? "" : "s"} but is planned for ${planned} meals. Scale it up before you shop.`,
+      );
+    }
+  }
+
+  const sharedPrep = mergePrepTasks(batch.map((b) => b.recipe));
+
+  const slots = new Map<CookingEquipment, CookSlot>();
+  const slotFor = (recipe: MealPrepRecipe, wanted: CookingEquipment): CookSlot => {
+    let equipment = wanted;
+    if (capacity[equipment] <= 0 && EQUIPMENT_FALLBACK[equipment]) {
+      const fallback = EQUIPMENT_FALLBACK[equipment]!;
+      warnings.push(
+        `${recipe.title} calls for ${withArticle(wanted)}, which isn't in your kitchen. Planned on the ${EQUIPMENT_NAMES[fallback]} instead.`,
+      );
+      equipment = fallback;
+    }
+    let slot = slots.get(equipment);
+    if (!slot) {
+      if (capacity[equipment] <= 0) {
+        warnings.push(
+          `${recipe.title} needs ${withArticle(equipment)}, which isn't in your kitchen. Timed as if you had one.`,
+        );
+      }
+      slot = { equipment, freeAt: Array(Math.max(capacity[equipment], 1)).fill(0) };
+      slots.set(equipment, slot);
+    }
+    return slot;
+  };
+
+  const timeline: PrepTimelineTask[] = [];
+  const pending: { recipe: MealPrepRecipe; readyAt: number }[] = [];
+  const donePrep = new Set<string>();
+  let now = 0;
+
+  const packReady = () => {
+    pending.sort((a, b) => a.readyAt - b.readyAt);
+    while (pending.length > 0 && pending[0].readyAt <= now) {
+      const { recipe } = pending.shift()!;
+      const count = mealsByRecipe.get(recipe.itemId)!.length;
+      timeline.push({
+        id: `pack:${recipe.itemId}`,
+        kind: "pack",
+        label: `Portion ${recipe.title} into ${count} container${count === 1 ? "" : "s"}`,
+        startMinute: now,
+        endMinute: now + PACK_MINUTES,
+        equipment: null,
+        recipeIds: [recipe.itemId],
+      });
+      now += PACK_MINUTES;
+    }
+  };
+
+  for (const { recipe, equipment, cookMinutes } of batch) {
+    let knifeMinutes = 0;
+    for (const task of sharedPrep) {
+      if (!task.recipeIds.includes(recipe.itemId)) continue;
+      knifeMinutes += task.minutes / task.recipeIds.length;
+      if (donePrep.has(task.id)) continue;
+      packReady();
+      donePrep.add(task.id);
+      timeline.push({
+        id: `prep:${task.id}`,
+        kind: "prep",
+        label: describeTask(task),
+        startMinute: now,
+        endMinute: now + task.minutes,
+        equipment: null,
+        recipeIds: task.recipeIds,
+      });
+      now += task.minutes;
+    }
+
+    packReady();
+    const assembleMinutes = Math.max(
+      MIN_ASSEMBLE_MINUTES,
+      Math.round((recipe.prepTime && recipe.prepTime > 0 ? recipe.prepTime : DEFAULT_PREP_MINUTES) - knifeMinutes),
+    );
+    timeline.push({
+      id: `assemble:${recipe.itemId}`,
+      kind: "assemble",
+      label: equipment === "none" ? `Make ${recipe.title}` : `Assemble ${recipe.title}`,
+      startMinute: now,
+      endMinute: now + assembleMinutes,
+      equipment: null,
+      recipeIds: [recipe.itemId],
+    });
+    now += assembleMinutes;
+
+    if (equipment === "none" || cookMinutes === 0) {
+      pending.push({ recipe, readyAt: now });
+      continue;
+    }
+
+    const slot = slotFor(recipe, equipment);
+    const index = slot.freeAt.indexOf(Math.min(...slot.freeAt));
+    const start = Math.max(now, slot.freeAt[index]);
+    const end = start + cookMinutes;
+    slot.freeAt[index] = end;
+    timeline.push({
+      id: `cook:${recipe.itemId}`,
+      kind: "cook",
+      label: `Cook ${recipe.title}`,
+      startMinute: start,
+      endMinute: end,
+      equipment: slot.equipment,
+      recipeIds: [recipe.itemId],
+    });
+    pending.push({ recipe, readyAt: end + COOL_MINUTES });
+  }
+
+  while (pending.length > 0) {
+    now = Math.max(now, Math.min(...pending.map((p) => p.readyAt)));
+    packReady();
+  }
+
+  timeline.sort((a, b) => a.startMinute - b.startMinute || a.endMinute - b.endMinute);
+
+  const containers: PrepContainer[] = [];
+  for (const { recipe } of batch) {
+    for (const meal of mealsByRecipe.get(recipe.itemId)!) {
+      const daysAhead = daysBetween(prepDate, meal.date);
+      const frozen = daysAhead >= fridgeDays;
+      const eatBy = frozen ? addDays(prepDate, freezerDays) : addDays(prepDate, fridgeDays);
+      containers.push({
+        recipeId: recipe.itemId,
+        title: recipe.title,
+        date: meal.date,
+        slotId: meal.slotId,
+        storage: frozen ? "freezer" : "fridge",
+        label: `${recipe.title} — ${weekday(meal.date)} ${meal.slotId} — eat by ${eatBy}`,
+        eatBy,
+        instructions: frozen
+          ? `Freeze. Move to the fridge on ${weekday(addDays(meal.date, -1))} night to thaw, then reheat until piping hot.`
+          : "Refrigerate once cool. Reheat until piping hot.",
+      });
+    }
+  }
+  containers.sort((a, b) => a.date.localeCompare(b.date) || a.slotId.localeCompare(b.slotId));
+
+  return {
+    prepDate,
+    totalMinutes: timeline.reduce((max, task) => Math.max(max, task.endMinute), 0),
+    sharedPrep,
+    timeline,
+    containers,
+    warnings,
+  };
+}
@@ -0,0 +1,91 @@
+import { convertToBase, normalizeUnitName } from "./unit-conversion";
+
+export interface UnitPrice {
+  unitPrice: number;
+  baseUnit: string;
+}
+
+export interface PricePoint extends UnitPrice {
+  normalizedName: string;
+  storeName: string | null;
+  purchaseDate: string;
+}
+
+export interface ItemValueEstimate extends UnitPrice {
+  value: number;
+  storeName: string | null;
+  purchaseDate: string;
+}
+
+/** Lowercased, punctuation-free item name used to match prices to items. */
+export function normalizePriceName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Expresses an amount in its base unit: grams, millilitres or pieces for
+ * known units, otherwise the unit's own canonical name. A missing unit counts
+ * as pieces.
+ */
+function toBaseAmount(quantity: number, unit: string | null | undefined): { amount: number; baseUnit: string } {
+  const base = convertToBase(quantity, unit);
+  if (base) {
+    return { amount: base.value, baseUnit: base.baseUnit };
+  }
+  const name = unit ? normalizeUnitName(unit) : "";
+  return { amount: quantity, baseUnit: name || "piece" };
+}
+
+/**
+ * Price per base unit for a receipt line. Returns null when the price or
+ * quantity is not positive.
+ */
+export function toUnitPrice(totalPrice: number, quantity: number, unit: string | null | undefined): UnitPrice | null {
+  if (!(totalPrice > 0) || !(quantity > 0)) return null;
+  const { amount, baseUnit } = toBaseAmount(quantity, unit);
+  if (!(amount > 0)) return null;
+  return { unitPrice: totalPrice / amount, baseUnit };
+}
+
+/**
+ * Price points recorded for an item, exact name matches first, then names
+ * that contain or are contained in it. Each group keeps the input order, so
+ * pass history newest first.
+ */
+export function findPricePoints<T extends PricePoint>(history: T[], itemName: string): T[] {
+  const name = normalizePriceName(itemName);
+  if (!name) return [];
+  const exact = history.filter((point) => point.normalizedName === name);
+  const partial = history.filter(
+    (point) => point.normalizedName !== name && (point.normalizedName.includes(name) || name.includes(point.normalizedName)),
+  );
+  return [...exact, ...partial];
+}
+
+/**
+ * Values a quantity of an item at its most recent matching price whose unit
+ * can be related to the quantity's. Returns null if there is none.
+ */
+export function estimateItemValue(
+  history: PricePoint[],
+  itemName: string,
+  quantity: number,
+  unit: string | null | undefined,
+): ItemValueEstimate | null {
+  if (!(quantity > 0)) return null;
+  const { amount, baseUnit } = toBaseAmount(quantity, unit);
+  const point = findPricePoints(history, itemName).find((p) => p.baseUnit === baseUnit);
+  if (!point) return null;
+
+  return {
+    value: Math.round(amount * point.unitPrice * 100) / 100,
+    unitPrice: point.unitPrice,
+    baseUnit: point.baseUnit,
+    storeName: point.storeName,
+    purchaseDate: point.purchaseDate,
+  };
+}
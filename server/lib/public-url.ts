@@ -0,0 +1,72 @@
+/**
+ * Guards for fetching user-supplied URLs from the server.
+ *
+ * A URL is only fetched after every address its host resolves to has been
+ * checked, and the connection is then pinned to the checked address so a
+ * second DNS answer can't point it somewhere internal.
+ */
+
+import { BlockList, isIP } from "net";
+import { lookup } from "dns/promises";
+import { AppError } from "../middleware/errorHandler";
+
+/** A URL together with the checked address it should be fetched from. */
+export interface PublicTarget {
+  url: URL;
+  address: string;
+  family: 4 | 6;
+}
+
+// IPv4 rules also match IPv4-mapped IPv6 addresses (::ffff:7f00:1 and
+// ::ffff:127.0.0.1 alike), so mapped forms need no separate entries.
+const privateRanges = new BlockList();
+privateRanges.addSubnet("0.0.0.0", 8, "ipv4");
+privateRanges.addSubnet("10.0.0.0", 8, "ipv4");
+privateRanges.addSubnet("100.64.0.0", 10, "ipv4");
+privateRanges.addSubnet("127.0.0.0", 8, "ipv4");
+privateRanges.addSubnet("169.254.0.0", 16, "ipv4");
+privateRanges.addSubnet("172.16.0.0", 12, "ipv4");
+privateRanges.addSubnet("192.0.0.0", 24, "ipv4");
+privateRanges.addSubnet("192.168.0.0", 16, "ipv4");
+privateRanges.addSubnet("198.18.0.0", 15, "ipv4");
+privateRanges.addSubnet("224.0.0.0", 3, "ipv4");
+// Unspecified, loopback and the deprecated IPv4-compatible block.
+privateRanges.addSubnet("::", 96, "ipv6");
+// NAT64, which embeds an IPv4 address in the low bits.
+privateRanges.addSubnet("64:ff9b::", 96, "ipv6");
+privateRanges.addSubnet("fc00::", 7, "ipv6");
+privateRanges.addSubnet("fe80::", 10, "ipv6");
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return privateRanges.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/** Rejects URLs that aren't http(s) or that point at internal hosts. */
+export async function resolvePublicUrl(raw: string): Promise<PublicTarget> {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw AppError.badRequest("Invalid URL", "INVALID_URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw AppError.badRequest("Only http and https URLs can be imported", "INVALID_URL");
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const family = isIP(host);
+  const addresses = family
+    ? [{ address: host, family }]
+    : await lookup(host, { all: true }).catch(() => []);
+  if (addresses.length === 0) {
+    throw AppError.badRequest("Could not resolve that website", "IMPORT_FETCH_FAILED");
+  }
+  if (addresses.some((entry) => isPrivateAddress(entry.address))) {
+    throw AppError.badRequest("That address can't be imported from", "INVALID_URL");
+  }
+
+  const [first] = addresses;
+  return { url, address: first.address, family: first.family === 6 ? 6 : 4 };
+}
@@ -0,0 +1,252 @@
+import {
+  matchInventoryToRecipe,
+  compareQuantities,
+  convertToGrams,
+  getUnitType,
+} from "./unit-conversion";
+import { parseQuantity } from "@shared/ingredient-parser";
+
+export interface CookIngredient {
+  name: string;
+  quantity: number | string;
+  unit?: string | null;
+}
+
+export interface CookInventoryItem {
+  itemId: string;
+  name: string;
+  quantity: number;
+  unit: string | null;
+}
+
+export interface CookNutrition {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber?: number;
+  sugar?: number;
+}
+
+/**
+ * - deduct: the matched item covers the ingredient
+ * - insufficient: the item is matched but holds less than needed; all of it is taken
+ * - missing: nothing in inventory matches the ingredient name
+ * - unconvertible: an item matches but its unit can't be related to the recipe's
+ * - unmeasured: the ingredient has no usable quantity ("to taste")
+ */
+export type DeductionStatus =
+  | "deduct"
+  | "insufficient"
+  | "missing"
+  | "unconvertible"
+  | "unmeasured";
+
+export interface IngredientDeduction {
+  ingredientName: string;
+  /** Scaled to the servings being cooked, in the recipe's unit. */
+  requiredQuantity: number | null;
+  requiredUnit: string;
+  status: DeductionStatus;
+  itemId: string | null;
+  itemName: string | null;
+  /** Amount taken from the item, in the item's own unit. */
+  deductQuantity: number;
+  unit: string | null;
+  quantityBefore: number | null;
+  quantityAfter: number | null;
+  requiredGrams: number | null;
+}
+
+const QUANTITY_EPSILON = 1e-6;
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Reads a recipe ingredient quantity: numbers, decimal strings, "1/2",
+ * "1 1/2" and "½". Returns null for anything without a positive amount.
+ */
+export function parseIngredientQuantity(quantity: number | string): number | null {
+  if (typeof quantity === "number") {
+    return Number.isFinite(quantity) && quantity > 0 ? quantity : null;
+  }
+
+  return parseQuantity(quantity)?.quantity ?? null;
+}
+
+/**
+ * Converts a recipe amount into the inventory item's unit. Same-type units are
+ * converted exactly; weight/volume pairs go through grams; otherwise only
+ * matching unit names are accepted. Returns null when the units can't be
+ * related.
+ */
+export function toInventoryQuantity(
+  required: number,
+  recipeUnit: string,
+  item: CookInventoryItem,
+): number | null {
+  if (!recipeUnit.trim()) {
+    const itemUnitType = getUnitType(item.unit);
+    return itemUnitType === "count" || itemUnitType === "unknown" ? required : null;
+  }
+
+  const match = matchInventoryToRecipe(item.quantity, item.unit, required, recipeUnit);
+  const inRecipeUnits = match.inventoryQuantityInRecipeUnits;
+  if (inRecipeUnits !== undefined && inRecipeUnits > 0) {
+    return required * (item.quantity / inRecipeUnits);
+  }
+
+  const comparison = compareQuantities(item.quantity, item.unit, required, recipeUnit);
+  if (comparison.inventoryGrams && comparison.requiredGrams !== null) {
+    return item.quantity * (comparison.requiredGrams / comparison.inventoryGrams);
+  }
+  if (comparison.percentAvailable !== null) {
+    return required;
+  }
+  return null;
+}
+
+/** Inventory items matching an ingredient name, exact matches first. */
+export function findCandidates(
+  ingredientName: string,
+  inventory: CookInventoryItem[],
+): CookInventoryItem[] {
+  const nameLower = ingredientName.toLowerCase().trim();
+  const exact = inventory.filter((item) => item.name.toLowerCase().trim() === nameLower);
+  const partial = inventory.filter((item) => {
+    const itemLower = item.name.toLowerCase().trim();
+    return itemLower !== nameLower && (itemLower.includes(nameLower) || nameLower.includes(itemLower));
+  });
+  return [...exact, ...partial];
+}
+
+/**
+ * Works out what cooking the recipe takes from inventory. Ingredient
+ * quantities are multiplied by `scale` (target servings / recipe servings).
+ * Several ingredients can draw on the same item; each sees what the previous
+ * ones left.
+ */
+export function planRecipeDeductions(
+  ingredients: CookIngredient[],
+  inventory: CookInventoryItem[],
+  scale: number,
+): IngredientDeduction[] {
+  const remaining = new Map(inventory.map((item) => [item.itemId, item.quantity]));
+
+  return ingredients.map((ingredient) => {
+    const requiredUnit = ingredient.unit?.trim() ?? "";
+    const base = parseIngredientQuantity(ingredient.quantity);
+    const required = base === null ? null : roundQuantity(base * scale);
+    const deduction: IngredientDeduction = {
+      ingredientName: ingredient.name,
+      requiredQuantity: required,
+      requiredUnit,
+      status: "missing",
+      itemId: null,
+      itemName: null,
+      deductQuantity: 0,
+      unit: null,
+      quantityBefore: null,
+      quantityAfter: null,
+      requiredGrams: required === null || !requiredUnit ? null : convertToGrams(required, requiredUnit)?.grams ?? null,
+    };
+
+    const candidates = findCandidates(ingredient.name, inventory).filter(
+      (item) => (remaining.get(item.itemId) ?? 0) > QUANTITY_EPSILON,
+    );
+    if (candidates.length === 0) {
+      return deduction;
+    }
+
+    let item = candidates[0];
+    let amount: number | null = null;
+    if (required !== null) {
+      for (const candidate of candidates) {
+        const available = { ...candidate, quantity: remaining.get(candidate.itemId)! };
+        const converted = toInventoryQuantity(required, requiredUnit, available);
+        if (converted !== null) {
+          item = candidate;
+          amount = converted;
+          break;
+        }
+      }
+    }
+
+    const before = remaining.get(item.itemId)!;
+    deduction.itemId = item.itemId;
+    deduction.itemName = item.name;
+    deduction.unit = item.unit;
+    deduction.quantityBefore = roundQuantity(before);
+    deduction.quantityAfter = roundQuantity(before);
+
+    if (required === null) {
+      deduction.status = "unmeasured";
+      return deduction;
+    }
+    if (amount === null) {
+      deduction.status = "unconvertible";
+      return deduction;
+    }
+
+    const taken = Math.min(amount, before);
+    const after = before - taken;
+    remaining.set(item.itemId, after);
+    deduction.status = amount - before > QUANTITY_EPSILON ? "insufficient" : "deduct";
+    deduction.deductQuantity = roundQuantity(taken);
+    deduction.quantityAfter = roundQuantity(after);
+    return deduction;
+  });
+}
+
+/** Total quantity to take from each item, keyed by itemId. */
+export function totalDeductionsByItem(
+  deductions: IngredientDeduction[],
+): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const deduction of deductions) {
+    if (!deduction.itemId || deduction.deductQuantity <= 0) continue;
+    totals.set(
+      deduction.itemId,
+      roundQuantity((totals.get(deduction.itemId) ?? 0) + deduction.deductQuantity),
+    );
+  }
+  return totals;
+}
+
+/**
+ * Splits the cooked recipe's nutrition across the ingredients actually taken
+ * from inventory, by weight when every one of them converts to grams and
+ * evenly otherwise. The shares add up to `total`, give or take rounding.
+ */
+export function allocateNutrition(
+  deductions: IngredientDeduction[],
+  total: CookNutrition,
+): (CookNutrition | null)[] {
+  const taken = deductions.map((d) => d.deductQuantity > 0);
+  const takenCount = taken.filter(Boolean).length;
+  if (takenCount === 0) {
+    return deductions.map(() => null);
+  }
+
+  const byWeight = deductions.every((d, i) => !taken[i] || (d.requiredGrams ?? 0) > 0);
+  const totalGrams = deductions.reduce(
+    (sum, d, i) => sum + (taken[i] ? d.requiredGrams ?? 0 : 0),
+    0,
+  );
+
+  return deductions.map((d, i) => {
+    if (!taken[i]) return null;
+    const share = byWeight ? (d.requiredGrams ?? 0) / totalGrams : 1 / takenCount;
+    const portion = (value: number) => Math.round(value * share * 10) / 10;
+    return {
+      calories: portion(total.calories),
+      protein: portion(total.protein),
+      carbs: portion(total.carbs),
+      fat: portion(total.fat),
+      ...(total.fiber !== undefined && { fiber: portion(total.fiber) }),
+      ...(total.sugar !== undefined && { sugar: portion(total.sugar) }),
+    };
+  });
+}
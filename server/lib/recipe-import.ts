@@ -0,0 +1,372 @@
+import { normalizeIngredient, type StructuredIngredient } from "@shared/ingredient-parser";
+
+/** 0 quantity when the line has no amount ("salt to taste"). */
+export type ImportedIngredient = StructuredIngredient;
+
+/**
+ * - json-ld: a schema.org/Recipe object in a <script type="application/ld+json"> block
+ * - microdata: itemprop attributes under an itemtype="schema.org/Recipe" element
+ * - heuristic: lists found under "Ingredients" / "Instructions" headings
+ */
+export type RecipeImportMethod = "json-ld" | "microdata" | "heuristic";
+
+export interface ImportedRecipe {
+  title: string;
+  description: string;
+  ingredients: ImportedIngredient[];
+  instructions: string[];
+  /** Minutes; null when the page doesn't say. */
+  prepTime: number | null;
+  cookTime: number | null;
+  servings: number | null;
+  imageUrl: string | null;
+  author: string | null;
+  siteName: string | null;
+  cuisine: string | null;
+  method: RecipeImportMethod;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " ",
+  frac12: "½",
+  frac14: "¼",
+  frac34: "¾",
+  deg: "°",
+  ndash: "–",
+  mdash: "—",
+  rsquo: "'",
+  lsquo: "'",
+  rdquo: "\"",
+  ldquo: "\"",
+};
+
+const INGREDIENT_HEADING = /ingredients/i;
+const INSTRUCTION_HEADING = /instructions|directions|method|preparation|steps/i;
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/** Text content of an HTML fragment, with whitespace collapsed. */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<\/?(?:a|b|em|i|span|strong|sup|sub)\b[^>]*>/gi, "")
+      .replace(/<[^>]+>/g, " "),
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Minutes in an ISO 8601 duration ("PT1H30M"), or a plain "30 min" string. */
+export function parseDuration(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) && value > 0 ? Math.round(value) : null;
+  if (typeof value !== "string" || !value.trim()) return null;
+
+  const iso = value.trim().match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (iso) {
+    const [, days, hours, minutes, seconds] = iso.map((part) => Number(part) || 0);
+    const total = Math.round(days * 1440 + hours * 60 + minutes + seconds / 60);
+    return total > 0 ? total : null;
+  }
+
+  const hours = value.match(/(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours)\b/i);
+  const minutes = value.match(/(\d+)\s*(?:m|min|mins|minute|minutes)\b/i);
+  if (hours || minutes) {
+    const total = Math.round(Number(hours?.[1] ?? 0) * 60 + Number(minutes?.[1] ?? 0));
+    return total > 0 ? total : null;
+  }
+  return null;
+}
+
+/** Servings from a recipeYield value: 4, "4 servings", ["4", "4 servings"]. */
+export function parseYield(value: unknown): number | null {
+  const values = Array.isArray(value) ? value : [value];
+  for (const entry of values) {
+    if (typeof entry === "number" && entry > 0) return Math.round(entry);
+    if (typeof entry === "string") {
+      const match = entry.match(/\d+/);
+      if (match && Number(match[0]) > 0) return Number(match[0]);
+    }
+  }
+  return null;
+}
+
+function asString(value: unknown): string | null {
+  if (typeof value === "string") return htmlToText(value) || null;
+  if (typeof value === "number") return String(value);
+  return null;
+}
+
+function firstString(value: unknown, key?: string): string | null {
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      const found = firstString(entry, key);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (value && typeof value === "object" && key) {
+    return asString((value as JsonObject)[key]);
+  }
+  return asString(value);
+}
+
+function hasType(node: JsonObject, type: string): boolean {
+  const value = node["@type"];
+  const types = Array.isArray(value) ? value : [value];
+  return types.some((t) => typeof t === "string" && t.replace(/^https?:\/\/schema\.org\//, "") === type);
+}
+
+function findRecipeNode(value: unknown, depth = 0): JsonObject | null {
+  if (depth > 6 || !value || typeof value !== "object") return null;
+  if (Array.isArray(value)) {
+    for (const entry of value) {
+      const found = findRecipeNode(entry, depth + 1);
+      if (found) return found;
+    }
+    return null;
+  }
+  const node = value as JsonObject;
+  if (hasType(node, "Recipe")) return node;
+  for (const key of ["@graph", "mainEntity", "mainEntityOfPage", "itemListElement", "item"]) {
+    const found = findRecipeNode(node[key], depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+function flattenInstructions(value: unknown, depth = 0): string[] {
+  if (depth > 4 || value === null || value === undefined) return [];
+  if (typeof value === "string") {
+    if (/<(li|p|br)\b/i.test(value)) {
+      return value
+        .split(/<\/?(?:li|p|br)\b[^>]*>/i)
+        .map(htmlToText)
+        .filter(Boolean);
+    }
+    return value
+      .split(/\n+/)
+      .map(htmlToText)
+      .filter(Boolean);
+  }
+  if (Array.isArray(value)) return value.flatMap((entry) => flattenInstructions(entry, depth + 1));
+  if (typeof value === "object") {
+    const node = value as JsonObject;
+    if (node.itemListElement) return flattenInstructions(node.itemListElement, depth + 1);
+    const text = asString(node.text) ?? asString(node.name);
+    return text ? [text] : [];
+  }
+  return [];
+}
+
+function parseIngredientList(lines: unknown): ImportedIngredient[] {
+  const values = Array.isArray(lines) ? lines : typeof lines === "string" ? lines.split(/\n+/) : [];
+  return values
+    .map((line) => (typeof line === "string" ? normalizeIngredient(htmlToText(line)) : null))
+    .filter((ingredient): ingredient is ImportedIngredient => ingredient !== null);
+}
+
+function metaContent(html: string, property: string): string | null {
+  const pattern = new RegExp(
+    `<meta[^>]+(?:property|name)=["']${property}["'][^>]*content=["']([^"']*)["']|<meta[^>]+content=["']([^"']*)["'][^>]*(?:property|name)=["']${property}["']`,
+    "i",
+  );
+  const match = html.match(pattern);
+  const value = match?.[1] ?? match?.[2];
+  return value ? decodeEntities(value).trim() || null : null;
+}
+
+function fromJsonLd(html: string): Omit<ImportedRecipe, "siteName"> | null {
+  const blocks = html.matchAll(/<script[^>]*type=["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi);
+  for (const [, body] of blocks) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body.replace(/^\s*<!\[CDATA\[|\]\]>\s*$/g, "").trim());
+    } catch {
+      continue;
+    }
+
+    const node = findRecipeNode(parsed);
+    if (!node) continue;
+
+    const title = asString(node.name) ?? asString(node.headline);
+    const ingredients = parseIngredientList(node.recipeIngredient ?? node.ingredients);
+    if (!title || ingredients.length === 0) continue;
+
+    return {
+      title,
+      description: asString(node.description) ?? "",
+      ingredients,
+      instructions: flattenInstructions(node.recipeInstructions),
+      prepTime: parseDuration(node.prepTime),
+      cookTime: parseDuration(node.cookTime) ?? parseDuration(node.totalTime),
+      servings: parseYield(node.recipeYield),
+      imageUrl: firstString(node.image, "url"),
+      author: firstString(node.author, "name"),
+      cuisine: firstString(node.recipeCuisine),
+      method: "json-ld",
+    };
+  }
+  return null;
+}
+
+interface MicrodataProperty {
+  name: string;
+  value: string;
+  html: string;
+}
+
+function readMicrodata(html: string): MicrodataProperty[] {
+  const properties: MicrodataProperty[] = [];
+  const tags = html.matchAll(/<(\w+)\b([^>]*\bitemprop=["']([^"']+)["'][^>]*)>/gi);
+  for (const match of tags) {
+    const [tag, tagName, attributes, names] = match;
+    const attribute = (attr: string) =>
+      attributes.match(new RegExp(`\\b${attr}=["']([^"']*)["']`, "i"))?.[1] ?? null;
+
+    let inner = "";
+    if (!tag.endsWith("/>")) {
+      const start = (match.index ?? 0) + tag.length;
+      const end = html.indexOf(`</${tagName}`, start);
+      inner = end === -1 ? "" : html.slice(start, end);
+    }
+
+    const value = attribute("content") ?? attribute("datetime")
+      ?? (tagName.toLowerCase() === "img" ? attribute("src") : null)
+      ?? (tagName.toLowerCase() === "meta" || tagName.toLowerCase() === "link" ? attribute("href") : null)
+      ?? htmlToText(inner);
+
+    for (const name of names.split(/\s+/)) {
+      properties.push({ name, value: decodeEntities(value), html: inner });
+    }
+  }
+  return properties;
+}
+
+function fromMicrodata(html: string): Omit<ImportedRecipe, "siteName"> | null {
+  const start = html.search(/itemtype=["']https?:\/\/schema\.org\/Recipe["']/i);
+  if (start === -1) return null;
+
+  const properties = readMicrodata(html.slice(start));
+  const first = (...names: string[]) => properties.find((p) => names.includes(p.name) && p.value)?.value ?? null;
+  const all = (...names: string[]) => properties.filter((p) => names.includes(p.name));
+
+  const title = first("name");
+  const ingredients = parseIngredientList(all("recipeIngredient", "ingredients").map((p) => p.value));
+  if (!title || ingredients.length === 0) return null;
+
+  const instructions = all("recipeInstructions").flatMap((p) =>
+    p.html ? flattenInstructions(p.html) : flattenInstructions(p.value),
+  );
+
+  return {
+    title,
+    description: first("description") ?? "",
+    ingredients,
+    instructions,
+    prepTime: parseDuration(first("prepTime")),
+    cookTime: parseDuration(first("cookTime")) ?? parseDuration(first("totalTime")),
+    servings: parseYield(first("recipeYield", "yield")),
+    imageUrl: first("image"),
+    author: first("author"),
+    cuisine: first("recipeCuisine"),
+    method: "microdata",
+  };
+}
+
+/** List items of the first <ul>/<ol> after the heading matching `pattern`. */
+function listAfterHeading(html: string, pattern: RegExp): string[] {
+  const headings = html.matchAll(/<(h[1-6]|strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi);
+  for (const heading of headings) {
+    if (!pattern.test(htmlToText(heading[2]))) continue;
+
+    const after = html.slice((heading.index ?? 0) + heading[0].length);
+    const nextHeading = after.search(/<h[1-6]\b/i);
+    const section = nextHeading === -1 ? after : after.slice(0, nextHeading);
+
+    const list = section.match(/<(ul|ol)\b[^>]*>([\s\S]*?)<\/\1>/i);
+    if (list) {
+      const items = [...list[2].matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/gi)].map((item) => htmlToText(item[1]));
+      if (items.some(Boolean)) return items.filter(Boolean);
+    }
+
+    const paragraphs = [...section.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p>/gi)].map((p) => htmlToText(p[1]));
+    if (paragraphs.some(Boolean)) return paragraphs.filter(Boolean);
+  }
+  return [];
+}
+
+function fromHeuristics(html: string): Omit<ImportedRecipe, "siteName"> | null {
+  const body = html.replace(/<(script|style|nav|header|footer)[^>]*>[\s\S]*?<\/\1>/gi, " ");
+  const ingredients = parseIngredientList(listAfterHeading(body, INGREDIENT_HEADING));
+  const instructions = listAfterHeading(body, INSTRUCTION_HEADING);
+  if (ingredients.length === 0 || instructions.length === 0) return null;
+
+  const h1 = body.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i);
+  const titleTag = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+  const title = metaContent(html, "og:title") ?? (h1 ? htmlToText(h1[1]) : null) ?? (titleTag ? htmlToText(titleTag[1]) : null);
+  if (!title) return null;
+
+  return {
+    title,
+    description: metaContent(html, "og:description") ?? metaContent(html, "description") ?? "",
+    ingredients,
+    instructions,
+    prepTime: null,
+    cookTime: null,
+    servings: null,
+    imageUrl: metaContent(html, "og:image"),
+    author: metaContent(html, "author"),
+    cuisine: null,
+    method: "heuristic",
+  };
+}
+
+function resolveUrl(url: string | null, base: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url, base).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extracts a recipe from a web page, trying schema.org JSON-LD, then
+ * microdata, then heading-based heuristics. Returns null when none of them
+ * finds both a title and ingredients.
+ */
+export function parseRecipeHtml(html: string, sourceUrl?: string): ImportedRecipe | null {
+  const recipe = fromJsonLd(html) ?? fromMicrodata(html) ?? fromHeuristics(html);
+  if (!recipe) return null;
+
+  let siteName = metaContent(html, "og:site_name");
+  if (!siteName && sourceUrl) {
+    try {
+      siteName = new URL(sourceUrl).hostname.replace(/^www\./, "");
+    } catch {
+      siteName = null;
+    }
+  }
+
+  return {
+    ...recipe,
+    imageUrl: resolveUrl(recipe.imageUrl, sourceUrl),
+    siteName,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * Recipe revisions.
+ *
+ * The content of a saved recipe that is versioned (everything the user can
+ * edit, not images, favorites or sync metadata), and line diffs between two
+ * versions for the history view.
+ */
+
+import { formatIngredientLine, type StructuredIngredient } from "@shared/ingredient-parser";
+
+export interface RecipeSnapshot {
+  title: string;
+  description: string | null;
+  ingredients: StructuredIngredient[];
+  instructions: string[];
+  notes: string | null;
+  prepTime: number | null;
+  cookTime: number | null;
+  servings: number | null;
+}
+
+export type SnapshotField = "title" | "description" | "notes" | "prepTime" | "cookTime" | "servings";
+
+export interface FieldChange {
+  field: SnapshotField;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+export interface RecipeDiff {
+  fields: FieldChange[];
+  ingredients: DiffLine[];
+  instructions: DiffLine[];
+}
+
+const SNAPSHOT_FIELDS: SnapshotField[] = ["title", "description", "notes", "prepTime", "cookTime", "servings"];
+
+interface SnapshotSource {
+  title: string;
+  description?: string | null;
+  ingredients?: unknown;
+  instructions?: unknown;
+  notes?: unknown;
+  prepTime?: number | null;
+  cookTime?: number | null;
+  servings?: number | null;
+}
+
+function toIngredient(item: Record<string, unknown>): StructuredIngredient {
+  const { preparation, notes, isOptional } = item;
+  return {
+    name: String(item.name),
+    quantity: Number(item.quantity) || 0,
+    unit: typeof item.unit === "string" ? item.unit : "",
+    ...(typeof preparation === "string" && preparation ? { preparation } : {}),
+    ...(typeof notes === "string" && notes ? { notes } : {}),
+    ...(isOptional === true ? { isOptional } : {}),
+  };
+}
+
+/** The versioned content of a recipe row or sync payload. */
+export function snapshotFromRecipe(recipe: SnapshotSource): RecipeSnapshot {
+  const ingredients = Array.isArray(recipe.ingredients)
+    ? (recipe.ingredients as unknown[])
+        .filter((item): item is Record<string, unknown> => !!item && typeof item === "object" && "name" in item)
+        .map(toIngredient)
+    : [];
+  const instructions = Array.isArray(recipe.instructions)
+    ? (recipe.instructions as unknown[]).filter((step): step is string => typeof step === "string")
+    : [];
+
+  return {
+    title: recipe.title,
+    description: recipe.description || null,
+    ingredients,
+    instructions,
+    notes: typeof recipe.notes === "string" && recipe.notes.trim() ? recipe.notes : null,
+    prepTime: recipe.prepTime ?? null,
+    cookTime: recipe.cookTime ?? null,
+    servings: recipe.servings ?? null,
+  };
+}
+
+export function sameContent(a: RecipeSnapshot, b: RecipeSnapshot): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Longest-common-subsequence line diff, in the order of `after`. */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  const rows = before.length;
+  const cols = after.length;
+  const lengths: number[][] = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      lines.push({ type: "same", text: after[j] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: "removed", text: before[i++] });
+    } else {
+      lines.push({ type: "added", text: after[j++] });
+    }
+  }
+  while (i < rows) lines.push({ type: "removed", text: before[i++] });
+  while (j < cols) lines.push({ type: "added", text: after[j++] });
+  return lines;
+}
+
+export function diffRecipeSnapshots(before: RecipeSnapshot, after: RecipeSnapshot): RecipeDiff {
+  return {
+    fields: SNAPSHOT_FIELDS
+      .filter((field) => before[field] !== after[field])
+      .map((field) => ({ field, before: before[field], after: after[field] })),
+    ingredients: diffLines(before.ingredients.map(formatIngredientLine), after.ingredients.map(formatIngredientLine)),
+    instructions: diffLines(before.instructions, after.instructions),
+  };
+}
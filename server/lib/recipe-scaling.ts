@@ -0,0 +1,208 @@
+/**
+ * Recipe scaling.
+ *
+ * Scales ingredient amounts to a new serving count and writes them the way a
+ * cook would measure them: whole eggs, "1 1/2 cup" rather than "24 tbsp",
+ * "1.2 kg" rather than "1200 g", in the user's metric or imperial units.
+ * Seasonings, leaveners and bake times don't scale linearly, so they're
+ * flagged rather than silently multiplied.
+ */
+
+import { parseUnit, normalizeUnit } from "./unit-conversion";
+
+export type UnitSystem = "imperial" | "metric";
+
+export type NonLinearReason = "seasoning" | "leavener";
+
+export interface ScalableIngredient {
+  name: string;
+  quantity: number;
+  unit: string;
+}
+
+export interface ScaledIngredient {
+  name: string;
+  quantity: number;
+  unit: string;
+  /** The quantity as a cook would write it ("1 1/2", "0.75"); empty for "to taste". */
+  display: string;
+  /** Set when the amount shouldn't be trusted to scale linearly. */
+  nonLinear: NonLinearReason | null;
+}
+
+export interface RecipeScaleResult {
+  factor: number;
+  units: UnitSystem;
+  ingredients: ScaledIngredient[];
+  warnings: string[];
+}
+
+const ML_PER_TSP = 4.929;
+const ML_PER_TBSP = 14.787;
+const ML_PER_CUP = 236.588;
+const G_PER_OZ = 28.3495;
+const G_PER_LB = 453.592;
+
+/** Units bigger than a cup that read better left alone ("2 quarts", not "8 cup"). */
+const LARGE_VOLUME_UNITS = new Set(["pint", "pints", "pt", "quart", "quarts", "qt", "gallon", "gallons", "gal"]);
+
+const FRACTIONS: [number, string][] = [
+  [1 / 8, "1/8"],
+  [1 / 4, "1/4"],
+  [1 / 3, "1/3"],
+  [1 / 2, "1/2"],
+  [2 / 3, "2/3"],
+  [3 / 4, "3/4"],
+];
+
+const LEAVENER_PATTERN = /\b(?:baking powder|baking soda|bicarbonate|yeast|cream of tartar)\b/i;
+const SEASONING_PATTERN =
+  /\b(?:salt|(?<!bell |sweet )pepper(?:corns?)?|cayenne|chil(?:i|li|e) (?:powder|flakes)|red pepper flakes|paprika|cumin|cinnamon|nutmeg|curry powder|garlic powder|onion powder|spices?|seasoning|extract|hot sauce)\b/i;
+const OVEN_PATTERN = /\b(?:bake|baking|roast|oven)\b/i;
+
+/** Rounds to the nearest whole or fraction with one of the given denominators, never to zero. */
+export function roundToFraction(value: number, denominators: number[]): number {
+  let best = Math.round(value);
+  for (const denominator of denominators) {
+    const candidate = Math.round(value * denominator) / denominator;
+    if (Math.abs(candidate - value) < Math.abs(best - value)) best = candidate;
+  }
+  if (best <= 0) best = 1 / Math.max(...denominators);
+  return best;
+}
+
+function roundToStep(value: number, step: number): number {
+  return Math.max(step, Math.round(value / step) * step);
+}
+
+/** "1 1/2", "3/4", "2", or a trimmed decimal when no kitchen fraction fits. */
+export function formatKitchenQuantity(value: number): string {
+  const whole = Math.floor(value + 1e-9);
+  const rest = value - whole;
+  if (rest < 0.01) return String(whole);
+  const fraction = FRACTIONS.find(([amount]) => Math.abs(amount - rest) < 0.01);
+  if (!fraction) return String(Math.round(value * 100) / 100);
+  return whole > 0 ? `${whole} ${fraction[1]}` : fraction[1];
+}
+
+function formatDecimal(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+export function detectNonLinear(name: string): NonLinearReason | null {
+  if (LEAVENER_PATTERN.test(name)) return "leavener";
+  if (SEASONING_PATTERN.test(name)) return "seasoning";
+  return null;
+}
+
+type Measured = Pick<ScaledIngredient, "quantity" | "unit" | "display">;
+
+function fractional(quantity: number, unit: string, denominators: number[]): Measured {
+  const rounded = roundToFraction(quantity, denominators);
+  return { quantity: rounded, unit, display: formatKitchenQuantity(rounded) };
+}
+
+function decimal(quantity: number, unit: string): Measured {
+  return { quantity, unit, display: formatDecimal(quantity) };
+}
+
+function measureSpoons(ml: number): Measured {
+  return ml >= ML_PER_TBSP
+    ? fractional(ml / ML_PER_TBSP, "tbsp", [2])
+    : fractional(ml / ML_PER_TSP, "tsp", [2, 4, 8]);
+}
+
+function measureVolume(ml: number, originalUnit: string, units: UnitSystem): Measured {
+  // Spoon amounts read the same in both systems; the slack keeps a quarter cup a cup
+  if (ml < ML_PER_CUP / 4 - 0.5) return measureSpoons(ml);
+
+  if (units === "metric") {
+    if (ml >= 1000) return decimal(roundToStep(ml / 1000, 0.05), "L");
+    return decimal(roundToStep(ml, ml >= 100 ? 10 : 5), "ml");
+  }
+
+  const original = originalUnit.toLowerCase().trim();
+  const originalInfo = parseUnit(original);
+  if (LARGE_VOLUME_UNITS.has(original) && originalInfo) {
+    const inOriginal = ml / originalInfo.toBase;
+    if (inOriginal >= 1) return fractional(inOriginal, normalizeUnit(originalUnit), [2, 4]);
+  }
+  return fractional(ml / ML_PER_CUP, "cup", [2, 3, 4]);
+}
+
+function measureWeight(g: number, units: UnitSystem): Measured {
+  if (units === "metric") {
+    if (g >= 1000) return decimal(roundToStep(g / 1000, 0.05), "kg");
+    if (g >= 100) return decimal(roundToStep(g, 5), "g");
+    if (g >= 10) return decimal(Math.round(g), "g");
+    return decimal(roundToStep(g, 0.5), "g");
+  }
+  if (g >= G_PER_LB) return fractional(g / G_PER_LB, "lb", [2, 4]);
+  return fractional(g / G_PER_OZ, "oz", [2, 4]);
+}
+
+function measureCount(scaled: number, original: number, unit: string): Measured {
+  // Whole eggs stay whole; a recipe that already asked for half a lemon can keep halves
+  const quantity = Number.isInteger(original)
+    ? Math.max(1, Math.round(scaled))
+    : roundToStep(scaled, 0.5);
+  return { quantity, unit, display: formatKitchenQuantity(quantity) };
+}
+
+/** Scales one ingredient by `factor` and rewrites it in the given unit system. */
+export function scaleIngredient(
+  ingredient: ScalableIngredient,
+  factor: number,
+  units: UnitSystem,
+): ScaledIngredient {
+  const nonLinear = factor !== 1 ? detectNonLinear(ingredient.name) : null;
+  if (!(ingredient.quantity > 0)) {
+    return { name: ingredient.name, quantity: 0, unit: ingredient.unit, display: "", nonLinear };
+  }
+
+  const scaled = ingredient.quantity * factor;
+  const info = parseUnit(ingredient.unit);
+  let measured: Measured;
+  if (!ingredient.unit.trim() || info?.type === "count") {
+    measured = measureCount(scaled, ingredient.quantity, ingredient.unit);
+  } else if (info?.type === "volume") {
+    measured = measureVolume(scaled * info.toBase, ingredient.unit, units);
+  } else if (info?.type === "weight") {
+    measured = measureWeight(scaled * info.toBase, units);
+  } else {
+    // pinch, dash, sprig of something we don't know how to convert
+    measured = fractional(scaled, ingredient.unit, [2, 4]);
+  }
+
+  return { name: ingredient.name, ...measured, nonLinear };
+}
+
+/**
+ * Scales a recipe from `fromServings` to `toServings`. `instructions` are
+ * only read to warn about oven times, which don't follow the ingredients.
+ */
+export function scaleRecipe(
+  ingredients: ScalableIngredient[],
+  fromServings: number,
+  toServings: number,
+  units: UnitSystem,
+  instructions: string[] = [],
+): RecipeScaleResult {
+  const factor = toServings / Math.max(1, fromServings);
+  const scaled = ingredients.map((ingredient) => scaleIngredient(ingredient, factor, units));
+
+  const warnings: string[] = [];
+  if (factor !== 1) {
+    if (scaled.some((ingredient) => ingredient.nonLinear === "leavener")) {
+      warnings.push("Leaveners don't scale evenly. For big changes, use a little less than shown.");
+    }
+    if (scaled.some((ingredient) => ingredient.nonLinear === "seasoning")) {
+      warnings.push("Season to taste. Start with less salt and spice than shown and add more at the end.");
+    }
+    if (instructions.some((step) => OVEN_PATTERN.test(step))) {
+      warnings.push("Baking times change with pan size and depth, so start checking for doneness early.");
+    }
+  }
+
+  return { factor, units, ingredients: scaled, warnings };
+}
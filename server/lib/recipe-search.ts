@@ -0,0 +1,134 @@
+/**
+ * Saved recipe search facets.
+ *
+ * The full-text match and the cuisine, dietary tag, time and cookware filters
+ * run in Postgres; this module reads the facet fields out of a recipe row,
+ * decides whether a recipe can be made from the current inventory, and
+ * counts facet values for the filter chips.
+ */
+
+import {
+  planRecipeDeductions,
+  type CookIngredient,
+  type CookInventoryItem,
+} from "./recipe-deduction";
+
+export interface SearchableRecipe {
+  recipeId: string;
+  prepTime: number | null;
+  cookTime: number | null;
+  ingredients: unknown;
+  extraData: unknown;
+}
+
+export interface RecipeFacetFields {
+  cuisine: string | null;
+  dietaryTags: string[];
+  requiredCookware: string[];
+  totalTime: number | null;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface RecipeSearchFacets {
+  cuisines: FacetCount[];
+  dietaryTags: FacetCount[];
+  totalTime: FacetCount[];
+  cookware: FacetCount[];
+  canMakeNow: number;
+}
+
+export interface CanMakeResult {
+  canMakeNow: boolean;
+  missingIngredients: string[];
+}
+
+/** Upper bounds, in minutes, of the total time facet buckets. */
+export const TOTAL_TIME_BUCKETS = [
+  { value: "15", maxMinutes: 15 },
+  { value: "30", maxMinutes: 30 },
+  { value: "60", maxMinutes: 60 },
+] as const;
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((v): v is string => typeof v === "string" && v.trim().length > 0).map((v) => v.trim());
+}
+
+export function readFacetFields(recipe: Pick<SearchableRecipe, "prepTime" | "cookTime" | "extraData">): RecipeFacetFields {
+  const extra = (recipe.extraData as Record<string, unknown> | null) ?? {};
+  const cuisine = typeof extra.cuisine === "string" && extra.cuisine.trim() ? extra.cuisine.trim() : null;
+  const hasTime = recipe.prepTime !== null || recipe.cookTime !== null;
+
+  return {
+    cuisine,
+    dietaryTags: stringList(extra.dietaryTags),
+    requiredCookware: stringList(extra.requiredCookware),
+    totalTime: hasTime ? (recipe.prepTime ?? 0) + (recipe.cookTime ?? 0) : null,
+  };
+}
+
+function readIngredients(value: unknown): (CookIngredient & { isOptional?: boolean })[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (i): i is CookIngredient & { isOptional?: boolean } =>
+      !!i && typeof i === "object" && typeof (i as { name?: unknown }).name === "string",
+  );
+}
+
+/**
+ * A recipe can be made now when every required ingredient is covered by
+ * inventory at the recipe's own servings. Optional ingredients are ignored,
+ * and "to taste" ingredients only need a matching item.
+ */
+export function checkCanMakeNow(ingredients: unknown, inventory: CookInventoryItem[]): CanMakeResult {
+  const required = readIngredients(ingredients).filter((i) => !i.isOptional);
+  if (required.length === 0) {
+    return { canMakeNow: false, missingIngredients: [] };
+  }
+
+  const missingIngredients = planRecipeDeductions(required, inventory, 1)
+    .filter((d) => d.status !== "deduct" && !(d.status === "unmeasured" && d.itemId))
+    .map((d) => d.ingredientName);
+
+  return { canMakeNow: missingIngredients.length === 0, missingIngredients };
+}
+
+function countValues(values: string[][]): FacetCount[] {
+  const counts = new Map<string, { value: string; count: number }>();
+  for (const recipeValues of values) {
+    const seen = new Set<string>();
+    for (const value of recipeValues) {
+      const key = value.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const facet = counts.get(key) ?? { value, count: 0 };
+      facet.count += 1;
+      counts.set(key, facet);
+    }
+  }
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/**
+ * Facet counts over the recipes matching the text query. Time buckets are
+ * cumulative ("30" counts everything ready in 30 minutes or less), matching
+ * the `maxTotalTime` filter they feed.
+ */
+export function buildSearchFacets(recipes: SearchableRecipe[], inventory: CookInventoryItem[]): RecipeSearchFacets {
+  const fields = recipes.map(readFacetFields);
+
+  return {
+    cuisines: countValues(fields.map((f) => (f.cuisine ? [f.cuisine] : []))),
+    dietaryTags: countValues(fields.map((f) => f.dietaryTags)),
+    totalTime: TOTAL_TIME_BUCKETS.map((bucket) => ({
+      value: bucket.value,
+      count: fields.filter((f) => f.totalTime !== null && f.totalTime <= bucket.maxMinutes).length,
+    })),
+    cookware: countValues(fields.map((f) => f.requiredCookware)),
+    canMakeNow: recipes.filter((r) => checkCanMakeNow(r.ingredients, inventory).canMakeNow).length,
+  };
+}
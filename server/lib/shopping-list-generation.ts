@@ -0,0 +1,246 @@
+import { cookedRecipeIds } from "@shared/meal-plan";
+import { convert, convertToGrams, normalizeUnitName } from "./unit-conversion";
+import {
+  findCandidates,
+  parseIngredientQuantity,
+  toInventoryQuantity,
+  type CookIngredient,
+  type CookInventoryItem,
+} from "./recipe-deduction";
+
+export interface PlannedMealDay {
+  date: string;
+  /** Stored plan meals in any shape `normalizeMeals` accepts. */
+  meals: unknown;
+}
+
+export interface PlannedRecipe {
+  itemId: string;
+  title: string;
+  servings: number | null;
+  ingredients: (CookIngredient & { isOptional?: boolean })[];
+}
+
+export interface ShoppingInventoryItem extends CookInventoryItem {
+  category: string | null;
+}
+
+export interface IngredientNeed {
+  name: string;
+  /** Null for ingredients without an amount ("salt to taste"). */
+  quantity: number | null;
+  unit: string;
+  recipeIds: string[];
+}
+
+export interface GeneratedShoppingItem {
+  name: string;
+  quantity: number;
+  unit: string;
+  category: string | null;
+  recipeIds: string[];
+}
+
+const QUANTITY_EPSILON = 1e-6;
+
+function roundUp(value: number): number {
+  return Math.ceil(value * 100 - QUANTITY_EPSILON) / 100;
+}
+
+function nameKey(name: string): string {
+  return name.toLowerCase().trim().replace(/\s+/g, " ");
+}
+
+function addRecipeIds(target: string[], source: string[]): void {
+  for (const id of source) {
+    if (!target.includes(id)) target.push(id);
+  }
+}
+
+/**
+ * Expands every recipe referenced by the plan into its ingredients, scaled
+ * from the recipe's servings to `householdSize`. A recipe planned twice is
+ * counted twice. Leftovers, eating out, free-text meals, optional
+ * ingredients and unknown recipe ids are skipped.
+ */
+export function collectIngredientNeeds(
+  plans: PlannedMealDay[],
+  recipesById: Map<string, PlannedRecipe>,
+  householdSize: number,
+): IngredientNeed[] {
+  const needs: IngredientNeed[] = [];
+
+  for (const plan of plans) {
+    for (const recipeId of cookedRecipeIds(plan.meals)) {
+      const recipe = recipesById.get(recipeId);
+      if (!recipe) continue;
+
+      const scale = householdSize / (recipe.servings && recipe.servings > 0 ? recipe.servings : 1);
+      for (const ingredient of recipe.ingredients) {
+        if (ingredient.isOptional || !ingredient.name?.trim()) continue;
+        const quantity = parseIngredientQuantity(ingredient.quantity);
+        needs.push({
+          name: ingredient.name.trim(),
+          quantity: quantity === null ? null : quantity * scale,
+          unit: ingredient.unit?.trim() ?? "",
+          recipeIds: [recipe.itemId],
+        });
+      }
+    }
+  }
+
+  return needs;
+}
+
+interface MeasuredBucket {
+  name: string;
+  entries: { quantity: number; unit: string }[];
+  grams: number;
+  recipeIds: string[];
+}
+
+function mergeMeasured(bucket: MeasuredBucket): IngredientNeed {
+  const [first] = bucket.entries;
+  const sameUnit = bucket.entries.every(
+    (e) => normalizeUnitName(e.unit) === normalizeUnitName(first.unit),
+  );
+  if (sameUnit) {
+    const quantity = bucket.entries.reduce((sum, e) => sum + e.quantity, 0);
+    return { name: bucket.name, quantity, unit: first.unit, recipeIds: bucket.recipeIds };
+  }
+
+  const converted = bucket.entries.map((e) => convert(e.quantity, e.unit, first.unit));
+  if (converted.every((q) => q !== null)) {
+    const quantity = converted.reduce<number>((sum, q) => sum + (q ?? 0), 0);
+    return { name: bucket.name, quantity, unit: first.unit, recipeIds: bucket.recipeIds };
+  }
+
+  return { name: bucket.name, quantity: bucket.grams, unit: "g", recipeIds: bucket.recipeIds };
+}
+
+/**
+ * Merges needs for the same ingredient. Amounts that convert to grams are
+ * added together, in the first unit seen when every amount converts to it
+ * and in grams otherwise; other units are only added to the same unit. An
+ * unmeasured need is dropped when a measured one covers the same ingredient.
+ */
+export function mergeIngredientNeeds(needs: IngredientNeed[]): IngredientNeed[] {
+  const groups = new Map<string, IngredientNeed[]>();
+  for (const need of needs) {
+    const key = nameKey(need.name);
+    const group = groups.get(key);
+    if (group) group.push(need);
+    else groups.set(key, [need]);
+  }
+
+  const merged: IngredientNeed[] = [];
+  for (const group of groups.values()) {
+    const name = group[0].name;
+    let measured: MeasuredBucket | null = null;
+    const byUnit = new Map<string, IngredientNeed>();
+    const unmeasuredIds: string[] = [];
+
+    for (const need of group) {
+      if (need.quantity === null) {
+        addRecipeIds(unmeasuredIds, need.recipeIds);
+        continue;
+      }
+
+      const grams = need.unit ? convertToGrams(need.quantity, need.unit) : null;
+      if (grams) {
+        measured ??= { name, entries: [], grams: 0, recipeIds: [] };
+        measured.entries.push({ quantity: need.quantity, unit: need.unit });
+        measured.grams += grams.grams;
+        addRecipeIds(measured.recipeIds, need.recipeIds);
+        continue;
+      }
+
+      const unitKey = normalizeUnitName(need.unit);
+      const existing = byUnit.get(unitKey);
+      if (existing) {
+        existing.quantity = (existing.quantity ?? 0) + need.quantity;
+        addRecipeIds(existing.recipeIds, need.recipeIds);
+      } else {
+        byUnit.set(unitKey, { name, quantity: need.quantity, unit: need.unit, recipeIds: [...need.recipeIds] });
+      }
+    }
+
+    if (measured) merged.push(mergeMeasured(measured));
+    merged.push(...byUnit.values());
+    if (!measured && byUnit.size === 0) {
+      merged.push({ name, quantity: null, unit: "", recipeIds: unmeasuredIds });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Takes what inventory already holds off each need and returns what is left
+ * to buy. Several needs can draw on the same item; each sees what the
+ * previous ones left. Items whose unit can't be related to the need's are
+ * ignored. Unmeasured needs are dropped if any matching item is in stock and
+ * bought as a single unit otherwise.
+ */
+export function subtractInventory(
+  needs: IngredientNeed[],
+  inventory: ShoppingInventoryItem[],
+): GeneratedShoppingItem[] {
+  const remaining = new Map(inventory.map((item) => [item.itemId, item.quantity]));
+  const items: GeneratedShoppingItem[] = [];
+
+  for (const need of needs) {
+    const matches = findCandidates(need.name, inventory) as ShoppingInventoryItem[];
+    const category = matches[0]?.category ?? null;
+    const inStock = matches.filter((item) => (remaining.get(item.itemId) ?? 0) > QUANTITY_EPSILON);
+
+    if (need.quantity === null) {
+      if (inStock.length === 0) {
+        items.push({ name: need.name, quantity: 1, unit: "", category, recipeIds: need.recipeIds });
+      }
+      continue;
+    }
+
+    let left = need.quantity;
+    for (const item of inStock) {
+      const available = remaining.get(item.itemId)!;
+      const required = toInventoryQuantity(left, need.unit, { ...item, quantity: available });
+      if (required === null || required <= 0) continue;
+
+      const taken = Math.min(required, available);
+      remaining.set(item.itemId, available - taken);
+      left *= (required - taken) / required;
+      if (left <= QUANTITY_EPSILON) break;
+    }
+
+    if (left > QUANTITY_EPSILON) {
+      items.push({ name: need.name, quantity: roundUp(left), unit: need.unit, category, recipeIds: need.recipeIds });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Builds the shopping list for a set of planned days: expands and scales the
+ * planned recipes, merges duplicate ingredients, subtracts inventory and
+ * sorts the result by category, then name. Uncategorized items come last.
+ */
+export function buildShoppingListFromPlans(
+  plans: PlannedMealDay[],
+  recipes: PlannedRecipe[],
+  inventory: ShoppingInventoryItem[],
+  householdSize: number,
+): GeneratedShoppingItem[] {
+  const recipesById = new Map(recipes.map((recipe) => [recipe.itemId, recipe]));
+  const needs = mergeIngredientNeeds(collectIngredientNeeds(plans, recipesById, householdSize));
+
+  return subtractInventory(needs, inventory).sort((a, b) => {
+    if (a.category !== b.category) {
+      if (a.category === null) return 1;
+      if (b.category === null) return -1;
+      return a.category.localeCompare(b.category);
+    }
+    return a.name.localeCompare(b.name);
+  });
+}
@@ -0,0 +1,150 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * TOTP (RFC 6238) helpers for two-factor authentication.
+ *
+ * Codes use the parameters every authenticator app supports: HMAC-SHA1,
+ * 6 digits and a 30-second step. One step of clock drift is tolerated on
+ * either side, and callers pass the last accepted step so a code can't be
+ * used twice.
+ */
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_ISSUER = "ChefSpAIce";
+const TOTP_WINDOW = 1;
+const SECRET_BYTES = 20;
+
+export const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+const RECOVERY_CODE_LENGTH = 10;
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=-]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/** Generates a new random base32 secret for an authenticator app. */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(SECRET_BYTES));
+}
+
+export function generateHotp(secret: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = createHmac("sha1", secret).update(message).digest();
+
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+export function timeStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+export function generateTotp(secret: string, now: number = Date.now()): string {
+  return generateHotp(base32Decode(secret), timeStep(now));
+}
+
+/**
+ * Checks a code against the current step and its neighbours. Returns the
+ * matched step, or null when the code is wrong or its step is not newer
+ * than lastUsedStep.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep: number | null = null,
+  now: number = Date.now(),
+): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const current = timeStep(now);
+  const given = Buffer.from(normalized);
+
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (timingSafeEqual(Buffer.from(generateHotp(key, step)), given)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/** The otpauth:// URI authenticator apps read from the enrollment QR code. */
+export function buildOtpAuthUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/** Generates recovery codes formatted as "xxxxx-xxxxx" for display. */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const bytes = randomBytes(RECOVERY_CODE_LENGTH);
+    const chars = Array.from(bytes, (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]).join("");
+    return `${chars.slice(0, RECOVERY_CODE_LENGTH / 2)}-${chars.slice(RECOVERY_CODE_LENGTH / 2)}`;
+  });
+}
+
+/** Recovery codes are compared case-insensitively and without separators. */
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+/** Distinguishes an authenticator code from a recovery code in a single input. */
+export function isTotpCode(code: string): boolean {
+  return new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code.replace(/\s/g, ""));
+}
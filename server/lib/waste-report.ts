@@ -0,0 +1,56 @@
+/**
+ * Weekly food waste report: the reporting window and the per-week summary
+ * that feeds the weekly_waste_report email.
+ */
+
+export interface WasteLogEntry {
+  itemName: string;
+  quantity: number | null;
+  unit: string | null;
+  reason: string | null;
+}
+
+export interface WasteWeekSummary {
+  itemCount: number;
+  topItems: { name: string; count: number }[];
+  topReasons: { reason: string; count: number }[];
+}
+
+const TOP_ITEMS = 5;
+const TOP_REASONS = 3;
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** The seven full UTC days before `now`, as inclusive ISO dates. */
+export function previousWeekRange(now: Date): { weekStart: string; weekEnd: string } {
+  const end = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - 1));
+  const start = new Date(end);
+  start.setUTCDate(start.getUTCDate() - 6);
+  return { weekStart: toIsoDate(start), weekEnd: toIsoDate(end) };
+}
+
+function tally(values: string[], limit: number): { value: string; count: number }[] {
+  const counts = new Map<string, { value: string; count: number }>();
+  for (const raw of values) {
+    const value = raw.trim();
+    if (!value) continue;
+    const key = value.toLowerCase();
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { value, count: 1 });
+  }
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, limit);
+}
+
+/** Most wasted items and reasons, case-insensitive, most common first. */
+export function summarizeWasteWeek(entries: WasteLogEntry[]): WasteWeekSummary {
+  return {
+    itemCount: entries.length,
+    topItems: tally(entries.map((e) => e.itemName), TOP_ITEMS).map(({ value, count }) => ({ name: value, count })),
+    topReasons: tally(entries.map((e) => e.reason ?? ""), TOP_REASONS).map(({ value, count }) => ({ reason: value, count })),
+  };
+}
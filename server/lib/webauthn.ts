@@ -0,0 +1,348 @@
+/**
+ * WebAuthn (passkey) response verification.
+ *
+ * Registration requests `attestation: "none"`, so the attestation statement is
+ * not checked: the credential public key is trusted because the signed-in user
+ * registered it, not because of who made the authenticator. Assertions are
+ * verified against the stored key. Challenge storage and the RP configuration
+ * live in the passkey service.
+ */
+
+import { createHash, createPublicKey, timingSafeEqual, verify, type JsonWebKey } from "crypto";
+import { AppError } from "../middleware/errorHandler";
+
+/** COSE algorithm identifiers we accept, in preference order. */
+export const COSE_ALG_ES256 = -7;
+export const COSE_ALG_EDDSA = -8;
+export const COSE_ALG_RS256 = -257;
+export const SUPPORTED_ALGORITHMS = [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256];
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_STATE = 0x10;
+const FLAG_ATTESTED_DATA = 0x40;
+
+/** Registration response as serialized by the browser or native passkey API (base64url fields). */
+export interface RegistrationResponseJSON {
+  id: string;
+  rawId?: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationResponseJSON {
+  id: string;
+  rawId?: string;
+  type: string;
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export interface ExpectedCeremony {
+  challenge: string;
+  origins: string[];
+  rpId: string;
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  /** SPKI DER, base64url. */
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+  backedUp: boolean;
+  transports: string[];
+}
+
+export interface StoredCredential {
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+}
+
+export interface VerifiedAuthentication {
+  signCount: number;
+  backedUp: boolean;
+}
+
+interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  credentialId?: Buffer;
+  credentialPublicKey?: Map<unknown, unknown>;
+}
+
+function invalid(message: string, errorCode = "INVALID_PASSKEY_RESPONSE"): AppError {
+  return AppError.badRequest(message, errorCode);
+}
+
+function fromBase64Url(value: unknown, field: string): Buffer {
+  if (typeof value !== "string" || value.length === 0) {
+    throw invalid(`Passkey response is missing ${field}`);
+  }
+  return Buffer.from(value, "base64url");
+}
+
+// -----------------------------------------------------------------------------
+// CBOR: just enough of RFC 8949 for attestation objects and COSE keys, which
+// authenticators encode with definite lengths only.
+// -----------------------------------------------------------------------------
+
+/** Throws the usual 400 instead of letting a short buffer raise a RangeError. */
+function ensureAvailable(buf: Buffer, offset: number, size: number): void {
+  if (offset + size > buf.length) throw invalid("Truncated CBOR data");
+}
+
+function readLength(buf: Buffer, info: number, offset: number): { length: number; offset: number } {
+  if (info < 24) return { length: info, offset };
+  if (info <= 27) ensureAvailable(buf, offset, 1 << (info - 24));
+  if (info === 24) return { length: buf.readUInt8(offset), offset: offset + 1 };
+  if (info === 25) return { length: buf.readUInt16BE(offset), offset: offset + 2 };
+  if (info === 26) return { length: buf.readUInt32BE(offset), offset: offset + 4 };
+  if (info === 27) return { length: Number(buf.readBigUInt64BE(offset)), offset: offset + 8 };
+  throw invalid("Unsupported CBOR encoding");
+}
+
+function decodeCborItem(buf: Buffer, start: number): { value: unknown; offset: number } {
+  ensureAvailable(buf, start, 1);
+  const initial = buf.readUInt8(start);
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  if (major === 7) {
+    if (info === 20) return { value: false, offset: start + 1 };
+    if (info === 21) return { value: true, offset: start + 1 };
+    if (info === 22 || info === 23) return { value: null, offset: start + 1 };
+    if (info === 26) {
+      ensureAvailable(buf, start + 1, 4);
+      return { value: buf.readFloatBE(start + 1), offset: start + 5 };
+    }
+    if (info === 27) {
+      ensureAvailable(buf, start + 1, 8);
+      return { value: buf.readDoubleBE(start + 1), offset: start + 9 };
+    }
+    throw invalid("Unsupported CBOR value");
+  }
+
+  const { length, offset } = readLength(buf, info, start + 1);
+  switch (major) {
+    case 0:
+      return { value: length, offset };
+    case 1:
+      return { value: -1 - length, offset };
+    case 2:
+    case 3: {
+      ensureAvailable(buf, offset, length);
+      const end = offset + length;
+      const bytes = buf.subarray(offset, end);
+      return { value: major === 2 ? Buffer.from(bytes) : bytes.toString("utf-8"), offset: end };
+    }
+    case 4: {
+      const items: unknown[] = [];
+      let next = offset;
+      for (let i = 0; i < length; i++) {
+        const item = decodeCborItem(buf, next);
+        items.push(item.value);
+        next = item.offset;
+      }
+      return { value: items, offset: next };
+    }
+    case 5: {
+      const map = new Map<unknown, unknown>();
+      let next = offset;
+      for (let i = 0; i < length; i++) {
+        const key = decodeCborItem(buf, next);
+        const value = decodeCborItem(buf, key.offset);
+        map.set(key.value, value.value);
+        next = value.offset;
+      }
+      return { value: map, offset: next };
+    }
+    default:
+      // Tags (major 6) carry no meaning for WebAuthn; decode the tagged item.
+      return decodeCborItem(buf, offset);
+  }
+}
+
+export function decodeCbor(buf: Buffer): unknown {
+  return decodeCborItem(buf, 0).value;
+}
+
+// -----------------------------------------------------------------------------
+
+function parseAuthenticatorData(authData: Buffer): AuthenticatorData {
+  if (authData.length < 37) throw invalid("Authenticator data is too short");
+
+  const parsed: AuthenticatorData = {
+    rpIdHash: authData.subarray(0, 32),
+    flags: authData.readUInt8(32),
+    signCount: authData.readUInt32BE(33),
+  };
+
+  if (parsed.flags & FLAG_ATTESTED_DATA) {
+    // 16-byte AAGUID, then a 2-byte credential ID length.
+    let offset = 37 + 16;
+    if (authData.length < offset + 2) throw invalid("Attested credential data is truncated");
+    const idLength = authData.readUInt16BE(offset);
+    offset += 2;
+    parsed.credentialId = authData.subarray(offset, offset + idLength);
+    offset += idLength;
+
+    const key = decodeCborItem(authData, offset).value;
+    if (!(key instanceof Map)) throw invalid("Credential public key is malformed");
+    parsed.credentialPublicKey = key;
+  }
+
+  return parsed;
+}
+
+function coseBytes(key: Map<unknown, unknown>, label: number): string {
+  const value = key.get(label);
+  if (!Buffer.isBuffer(value)) throw invalid("Credential public key is malformed");
+  return value.toString("base64url");
+}
+
+/** Converts a COSE_Key to SPKI DER (base64url) so Node can load it later. */
+function coseKeyToSpki(key: Map<unknown, unknown>): { publicKey: string; algorithm: number } {
+  const algorithm = key.get(3);
+  const keyType = key.get(1);
+  let jwk: JsonWebKey;
+
+  if (algorithm === COSE_ALG_ES256 && keyType === 2 && key.get(-1) === 1) {
+    jwk = { kty: "EC", crv: "P-256", x: coseBytes(key, -2), y: coseBytes(key, -3) };
+  } else if (algorithm === COSE_ALG_EDDSA && keyType === 1 && key.get(-1) === 6) {
+    jwk = { kty: "OKP", crv: "Ed25519", x: coseBytes(key, -2) };
+  } else if (algorithm === COSE_ALG_RS256 && keyType === 3) {
+    jwk = { kty: "RSA", n: coseBytes(key, -1), e: coseBytes(key, -2) };
+  } else {
+    throw invalid("Passkey uses an unsupported algorithm", "UNSUPPORTED_PASSKEY_ALGORITHM");
+  }
+
+  try {
+    const spki = createPublicKey({ key: jwk, format: "jwk" }).export({ type: "spki", format: "der" });
+    return { publicKey: spki.toString("base64url"), algorithm };
+  } catch {
+    throw invalid("Credential public key is malformed");
+  }
+}
+
+function verifySignature(credential: StoredCredential, data: Buffer, signature: Buffer): boolean {
+  try {
+    const key = createPublicKey({ key: Buffer.from(credential.publicKey, "base64url"), format: "der", type: "spki" });
+    // ES256 signatures are DER-encoded, which is Node's default for EC keys.
+    const digest = credential.algorithm === COSE_ALG_EDDSA ? null : "sha256";
+    return verify(digest, data, key, signature);
+  } catch {
+    return false;
+  }
+}
+
+function sameBytes(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function parseClientData(clientDataJSON: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(fromBase64Url(clientDataJSON, "clientDataJSON").toString("utf-8"));
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) return parsed;
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+  }
+  throw invalid("Malformed client data");
+}
+
+/** The challenge a response was made for, so the caller can look up the pending ceremony. */
+export function readClientDataChallenge(clientDataJSON: string): string {
+  const { challenge } = parseClientData(clientDataJSON);
+  if (typeof challenge !== "string" || challenge.length === 0) {
+    throw invalid("Client data is missing the challenge");
+  }
+  return challenge;
+}
+
+function checkClientData(clientDataJSON: string, type: "webauthn.create" | "webauthn.get", expected: ExpectedCeremony): void {
+  const clientData = parseClientData(clientDataJSON);
+  if (clientData.type !== type) throw invalid("Unexpected passkey ceremony type");
+  if (clientData.challenge !== expected.challenge) throw invalid("Passkey challenge does not match");
+  if (typeof clientData.origin !== "string" || !expected.origins.includes(clientData.origin)) {
+    throw invalid("Passkey response came from an unexpected origin");
+  }
+  if (clientData.crossOrigin === true) throw invalid("Cross-origin passkey responses are not allowed");
+}
+
+function checkAuthenticatorFlags(authData: AuthenticatorData, rpId: string): void {
+  const expectedRpIdHash = createHash("sha256").update(rpId).digest();
+  if (!sameBytes(authData.rpIdHash, expectedRpIdHash)) throw invalid("Passkey is registered for a different site");
+  if (!(authData.flags & FLAG_USER_PRESENT)) throw invalid("User presence was not confirmed");
+  if (!(authData.flags & FLAG_USER_VERIFIED)) throw invalid("User verification is required");
+}
+
+export function verifyRegistrationResponse(
+  response: RegistrationResponseJSON,
+  expected: ExpectedCeremony,
+): VerifiedRegistration {
+  if (response.type !== "public-key") throw invalid("Unexpected credential type");
+  checkClientData(response.response.clientDataJSON, "webauthn.create", expected);
+
+  const attestation = decodeCbor(fromBase64Url(response.response.attestationObject, "attestationObject"));
+  const authDataBytes = attestation instanceof Map ? attestation.get("authData") : undefined;
+  if (!Buffer.isBuffer(authDataBytes)) throw invalid("Attestation object is malformed");
+
+  const authData = parseAuthenticatorData(authDataBytes);
+  checkAuthenticatorFlags(authData, expected.rpId);
+  if (!authData.credentialId || !authData.credentialPublicKey) {
+    throw invalid("Attestation is missing the credential");
+  }
+
+  const credentialId = authData.credentialId.toString("base64url");
+  if (credentialId !== response.id) throw invalid("Credential ID does not match the attestation");
+
+  return {
+    credentialId,
+    ...coseKeyToSpki(authData.credentialPublicKey),
+    signCount: authData.signCount,
+    backedUp: (authData.flags & FLAG_BACKUP_STATE) !== 0,
+    transports: (response.response.transports ?? []).filter((t) => typeof t === "string").slice(0, 10),
+  };
+}
+
+export function verifyAuthenticationResponse(
+  response: AuthenticationResponseJSON,
+  expected: ExpectedCeremony,
+  credential: StoredCredential,
+): VerifiedAuthentication {
+  if (response.type !== "public-key") throw invalid("Unexpected credential type");
+  checkClientData(response.response.clientDataJSON, "webauthn.get", expected);
+
+  const authDataBytes = fromBase64Url(response.response.authenticatorData, "authenticatorData");
+  const authData = parseAuthenticatorData(authDataBytes);
+  checkAuthenticatorFlags(authData, expected.rpId);
+
+  const clientDataHash = createHash("sha256")
+    .update(fromBase64Url(response.response.clientDataJSON, "clientDataJSON"))
+    .digest();
+  const signature = fromBase64Url(response.response.signature, "signature");
+  if (!verifySignature(credential, Buffer.concat([authDataBytes, clientDataHash]), signature)) {
+    throw invalid("Passkey signature is invalid");
+  }
+
+  // Synced passkeys always report 0. A counter that stops increasing on an
+  // authenticator that does count means the credential was cloned.
+  if ((authData.signCount !== 0 || credential.signCount !== 0) && authData.signCount <= credential.signCount) {
+    throw invalid("Passkey signature counter went backwards", "PASSKEY_COUNTER_MISMATCH");
+  }
+
+  return {
+    signCount: authData.signCount,
+    backedUp: (authData.flags & FLAG_BACKUP_STATE) !== 0,
+  };
+}
@@ -1,6 +1,6 @@
 import type { Request, Response, NextFunction } from "express";
 import { db } from "../db";
-import { users, userSessions } from "@shared/schema";
+import { users, userSessions, type ApiKey } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { AppError } from "./errorHandler";
 import { logger } from "../lib/logger";
@@ -18,6 +18,8 @@ declare global {
       userId?: string;
       user?: typeof users.$inferSelect;
       subscriptionTier?: string;
+      /** Set by requireApiKey on /api/external requests. */
+      apiKey?: ApiKey;
     }
   }
 }
@@ -1,5 +1,6 @@
 import rateLimit, { ipKeyGenerator } from "express-rate-limit";
 import { errorResponse } from "../lib/apiResponse";
+import { DEFAULT_API_KEY_RATE_LIMIT } from "@shared/api-keys";
 
 const skipInTest = () => process.env.NODE_ENV === "test";
 
@@ -71,3 +72,19 @@ export const generalLimiter = rateLimit({
     });
   },
 });
+
+/** Per-key limit for /api/external, using each key's own requests per minute. Mount after requireApiKey. */
+export const apiKeyLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: (req) => req.apiKey?.rateLimitPerMinute ?? DEFAULT_API_KEY_RATE_LIMIT,
+  standardHeaders: true,
+  legacyHeaders: false,
+  skip: skipInTest,
+  keyGenerator: (req) => `api_key:${req.apiKey?.id}`,
+  handler: (_req, res) => {
+    res.status(429).json({
+      ...errorResponse("This API key has made too many requests. Please try again later.", "API_KEY_RATE_LIMITED"),
+      retryAfter: 60,
+    });
+  },
+});
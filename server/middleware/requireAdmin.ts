@@ -1,6 +1,15 @@
 import type { Request, Response, NextFunction } from "express";
 import { AppError } from "./errorHandler";
-import { getUserByToken } from "../lib/auth-utils";
+import { getUserByToken, hashToken } from "../lib/auth-utils";
+import { isSessionTwoFactorVerified } from "../domain/services";
+
+/**
+ * With ADMIN_REQUIRE_2FA=true, admins must have two-factor authentication
+ * enabled and their session must have passed it at sign-in.
+ */
+function isTwoFactorRequiredForAdmins(): boolean {
+  return process.env.ADMIN_REQUIRE_2FA === "true";
+}
 
 export async function requireAdmin(
   req: Request,
@@ -28,6 +37,11 @@ export async function requireAdmin(
       return;
     }
 
+    if (isTwoFactorRequiredForAdmins() && !(await isSessionTwoFactorVerified(user.id, hashToken(rawToken)))) {
+      next(AppError.forbidden("Admin access requires a session verified with two-factor authentication", "TWO_FACTOR_REQUIRED"));
+      return;
+    }
+
     req.userId = user.id;
     req.user = user;
 
@@ -0,0 +1,68 @@
+import type { Request, Response, NextFunction } from "express";
+import { AppError } from "./errorHandler";
+import { anonymizeIpAddress } from "../lib/auth-utils";
+import { authenticateApiKey, recordApiKeyRequest } from "../services/apiKeyService";
+import {
+  ACTION_SCOPES,
+  EXTERNAL_ACTIONS,
+  keyAllowsAction,
+  parseApiKeyHeader,
+  type ExternalAction,
+} from "@shared/api-keys";
+
+function isExternalAction(value: unknown): value is ExternalAction {
+  return typeof value === "string" && (EXTERNAL_ACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Authenticates /api/external requests with a personal API key sent as
+ * `Authorization: Bearer csa_...`. Sets req.apiKey and req.userId, and
+ * records the request in the key's log once the response is sent.
+ */
+export async function requireApiKey(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const rawKey = parseApiKeyHeader(req.headers.authorization);
+
+    if (!rawKey) {
+      next(AppError.unauthorized("Send your API key as 'Authorization: Bearer <key>'", "API_KEY_REQUIRED"));
+      return;
+    }
+
+    const apiKey = await authenticateApiKey(rawKey);
+    req.apiKey = apiKey;
+    req.userId = apiKey.userId;
+
+    res.on("finish", () => {
+      const action = req.body?.action;
+      void recordApiKeyRequest(apiKey, {
+        action: isExternalAction(action) ? action : null,
+        statusCode: res.statusCode,
+        ipAddress: anonymizeIpAddress(req.ip),
+      });
+    });
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/** Rejects the validated body's action unless the key has its scope. Mount after validateBody. */
+export function requireActionScope(req: Request, _res: Response, next: NextFunction): void {
+  const action: ExternalAction = req.body.action;
+
+  if (!req.apiKey || !keyAllowsAction(req.apiKey.scopes, action)) {
+    next(
+      AppError.forbidden("This API key is not allowed to perform this action", "INSUFFICIENT_SCOPE").withDetails({
+        requiredScope: ACTION_SCOPES[action],
+      })
+    );
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,30 @@
+import type { Request, Response, NextFunction } from "express";
+import { AppError } from "./errorHandler";
+import { hashToken } from "../lib/auth-utils";
+import { assertRecentStepUp } from "../domain/services";
+
+/**
+ * Requires the current session to have confirmed a passkey recently
+ * (POST /api/auth/passkeys/step-up). Mount after requireAuth on destructive
+ * routes; the client answers 403 STEP_UP_REQUIRED with a passkey prompt and
+ * retries.
+ */
+export async function requireStepUp(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const authHeader = req.headers.authorization;
+
+    if (!req.userId || !authHeader?.startsWith("Bearer ")) {
+      next(AppError.unauthorized("Authentication required", "AUTHENTICATION_REQUIRED"));
+      return;
+    }
+
+    await assertRecentStepUp(req.userId, hashToken(authHeader.slice(7)));
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
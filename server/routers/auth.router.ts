@@ -5,6 +5,9 @@ import passwordResetRouter from "./auth/password-reset";
 import sessionManagementRouter from "./auth/session-management";
 import accountSettingsRouter from "./auth/account-settings";
 import completeOnboardingRouter from "./auth/complete-onboarding";
+import socialAuthRouter from "./auth/social-auth";
+import passkeysRouter from "./auth/passkeys";
+import twoFactorRouter from "./auth/two-factor";
 
 const router = Router();
 
@@ -14,5 +17,8 @@ router.use(passwordResetRouter);
 router.use(sessionManagementRouter);
 router.use(accountSettingsRouter);
 router.use(completeOnboardingRouter);
+router.use(socialAuthRouter);
+router.use(passkeysRouter);
+router.use(twoFactorRouter);
 
 export default router;
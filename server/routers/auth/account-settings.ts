@@ -3,17 +3,18 @@ import { db } from "../../db";
 import { users, userSessions, userSyncData, userInventoryItems, userSavedRecipes, userMealPlans, userShoppingItems, userCookwareItems, userWasteLogs, userConsumedLogs, userStorageLocations, userSyncKV, syncInventoryItemSchema, syncRecipeSchema, syncMealPlanSchema, syncShoppingItemSchema, syncCookwareItemSchema, syncWasteLogEntrySchema, syncConsumedLogEntrySchema } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { z } from "zod";
-import { extractExtraData, recipeKnownKeys, mealPlanKnownKeys, shoppingListKnownKeys, cookwareKnownKeys } from "../sync/sync-helpers";
+import { extractExtraData, recipeKnownKeys, mealPlanKnownKeys, shoppingListKnownKeys, cookwareKnownKeys, resolveSyncScope, scopeFilter, updateScopeTimestamp, recordReplacedTombstones, rowOwners } from "../sync/sync-helpers";
 import { randomBytes } from "crypto";
 import { AUTH_COOKIE_NAME } from "../../lib/session-utils";
 import { checkCookwareLimit, checkFeatureAccess } from "../../services/subscriptionService";
 import { csrfProtection } from "../../middleware/csrf";
 import { requireAuth } from "../../middleware/auth";
+import { requireStepUp } from "../../middleware/requireStepUp";
 import { logger } from "../../lib/logger";
 import { AppError } from "../../middleware/errorHandler";
 import { successResponse } from "../../lib/apiResponse";
 import { hashToken } from "../../lib/auth-utils";
-import { deleteAccount } from "../../domain/services";
+import { deleteAccount, assertRecentStepUp } from "../../domain/services";
 import { validateBody } from "../../middleware/validateBody";
 import { syncPreferencesSchema, queryNormalizedInventory, queryNormalizedRecipes, queryNormalizedMealPlans, queryNormalizedShoppingList, queryNormalizedWasteLog, queryNormalizedConsumedLog, queryNormalizedCustomLocations, queryNormalizedSyncKV } from "../auth/shared";
 
@@ -238,6 +239,18 @@ router.post("/sync", requireAuth, validateBody(accountSyncSchema), async (req: R
         if (prefs.expirationAlertDays !== undefined) {
           userUpdate.expirationAlertDays = prefs.expirationAlertDays;
         }
+        if (prefs.notificationsEnabled !== undefined) {
+          userUpdate.notificationsEnabled = prefs.notificationsEnabled;
+        }
+        if (prefs.notifyExpiringFood !== undefined) {
+          userUpdate.notifyExpiringFood = prefs.notifyExpiringFood;
+        }
+        if (prefs.notificationTime !== undefined) {
+          userUpdate.notificationTime = prefs.notificationTime;
+        }
+        if (prefs.timezone !== undefined) {
+          userUpdate.timezone = prefs.timezone;
+        }
         
         if (Object.keys(userUpdate).length > 1) {
           await db
@@ -267,13 +280,21 @@ router.post("/sync", requireAuth, validateBody(accountSyncSchema), async (req: R
       updatedAt: new Date(),
     };
 
+    // Pushing a shared section needs write access, as on the delta routes.
+    const writesShared = data.inventory !== undefined || data.mealPlans !== undefined || data.shoppingList !== undefined;
+    const scope = await resolveSyncScope(userId, writesShared ? "write" : "read");
+    const sharedSectionsUpdated: string[] = [];
+
     if (data.inventory !== undefined) {
       const validatedInventory = validateSyncArray(data.inventory, syncInventoryItemSchema, "inventory");
       await db.transaction(async (tx) => {
-        await tx.delete(userInventoryItems).where(eq(userInventoryItems.userId, userId));
+        const removed = await tx.delete(userInventoryItems).where(scopeFilter(userInventoryItems, scope)).returning({ itemId: userInventoryItems.itemId, householdId: userInventoryItems.householdId, userId: userInventoryItems.userId });
+        const owners = rowOwners(removed);
+        await recordReplacedTombstones(removed, validatedInventory.map((item) => String(item.id)), { userId, dataType: "inventory" }, tx);
         if (validatedInventory.length > 0) {
           await tx.insert(userInventoryItems).values(validatedInventory.map((item) => ({
-            userId,
+            userId: owners.get(String(item.id)) ?? userId,
+            householdId: scope.householdId,
             itemId: String(item.id),
             name: item.name,
             barcode: item.barcode,
@@ -289,16 +310,20 @@ router.post("/sync", requireAuth, validateBody(accountSyncSchema), async (req: R
             imageUri: item.imageUri,
             fdcId: item.fdcId,
             servingSize: item.servingSize,
+            lots: item.lots ?? null,
+            recipeId: item.recipeId ?? null,
             deletedAt: item.deletedAt ? new Date(item.deletedAt) : null,
           })));
         }
       });
       updatedSectionTimestamps.inventory = now;
+      sharedSectionsUpdated.push("inventory");
     }
     if (data.recipes !== undefined) {
       const validatedRecipes = validateSyncArray(data.recipes, syncRecipeSchema, "recipes");
       await db.transaction(async (tx) => {
-        await tx.delete(userSavedRecipes).where(eq(userSavedRecipes.userId, userId));
+        const removed = await tx.delete(userSavedRecipes).where(eq(userSavedRecipes.userId, userId)).returning({ itemId: userSavedRecipes.itemId });
+        await recordReplacedTombstones(removed, validatedRecipes.map((item) => String(item.id)), { userId, dataType: "recipes" }, tx);
         if (validatedRecipes.length > 0) {
           await tx.insert(userSavedRecipes).values(validatedRecipes.map((item) => ({
             userId,
@@ -323,10 +348,13 @@ router.post("/sync", requireAuth, validateBody(accountSyncSchema), async (req: R
     if (data.mealPlans !== undefined) {
       const validatedMealPlans = validateSyncArray(data.mealPlans, syncMealPlanSchema, "mealPlans");
       await db.transaction(async (tx) => {
-        await tx.delete(userMealPlans).where(eq(userMealPlans.userId, userId));
+        const removed = await tx.delete(userMealPlans).where(scopeFilter(userMealPlans, scope)).returning({ itemId: userMealPlans.itemId, householdId: userMealPlans.householdId, userId: userMealPlans.userId });
+        const owners = rowOwners(removed);
+        await recordReplacedTombstones(removed, validatedMealPlans.map((item) => String(item.id)), { userId, dataType: "mealPlans" }, tx);
         if (validatedMealPlans.length > 0) {
           await tx.insert(userMealPlans).values(validatedMealPlans.map((item) => ({
-            userId,
+            userId: owners.get(String(item.id)) ?? userId,
+            householdId: scope.householdId,
             itemId: String(item.id),
             date: item.date,
             meals: item.meals ?? null,
@@ -335,14 +363,18 @@ router.post("/sync", requireAuth, validateBody(accountSyncSchema), async (req: R
         }
       });
       updatedSectionTimestamps.mealPlans = now;
+      sharedSectionsUpdated.push("mealPlans");
     }
     if (data.shoppingList !== undefined) {
       const validatedShoppingList = validateSyncArray(data.shoppingList, syncShoppingItemSchema, "shoppingList");
       await db.transaction(async (tx) => {
-        await tx.delete(userShoppingItems).where(eq(userShoppingItems.userId, userId));
+        const removed = await tx.delete(userShoppingItems).where(scopeFilter(userShoppingItems, scope)).returning({ itemId: userShoppingItems.itemId, householdId: userShoppingItems.householdId, userId: userShoppingItems.userId });
+        const owners = rowOwners(removed);
+        await recordReplacedTombstones(removed, validatedShoppingList.map((item) => String(item.id)), { userId, dataType: "shoppingList" }, tx);
         if (validatedShoppingList.length > 0) {
           await tx.insert(userShoppingItems).values(validatedShoppingList.map((item) => ({
-            userId,
+            userId: owners.get(String(item.id)) ?? userId,
+            householdId: scope.householdId,
             itemId: String(item.id),
             name: item.name,
             quantity: item.quantity,
@@ -355,11 +387,13 @@ router.post("/sync", requireAuth, validateBody(accountSyncSchema), async (req: R
         }
       });
       updatedSectionTimestamps.shoppingList = now;
+      sharedSectionsUpdated.push("shoppingList");
     }
     if (data.cookware !== undefined) {
       const validatedCookware = Array.isArray(data.cookware) ? validateSyncArray(data.cookware, syncCookwareItemSchema, "cookware") : [];
       await db.transaction(async (tx) => {
-        await tx.delete(userCookwareItems).where(eq(userCookwareItems.userId, userId));
+        const removed = await tx.delete(userCookwareItems).where(eq(userCookwareItems.userId, userId)).returning({ itemId: userCookwareItems.itemId });
+        await recordReplacedTombstones(removed, validatedCookware.map((item) => String(item.id)), { userId, dataType: "cookware" }, tx);
         if (validatedCookware.length > 0) {
           await tx.insert(userCookwareItems).values(validatedCookware.map((item) => ({
             userId,
@@ -430,7 +464,8 @@ router.post("/sync", requireAuth, validateBody(accountSyncSchema), async (req: R
       const locationKnownKeys = new Set(["id", "name", "type"]);
       const validatedLocations = validateSyncArray(data.customLocations, syncCustomLocationSchema, "customLocations");
       await db.transaction(async (tx) => {
-        await tx.delete(userStorageLocations).where(eq(userStorageLocations.userId, userId));
+        const removed = await tx.delete(userStorageLocations).where(eq(userStorageLocations.userId, userId)).returning({ itemId: userStorageLocations.locationId });
+        await recordReplacedTombstones(removed, validatedLocations.filter((loc) => loc.id).map((loc) => String(loc.id)), { userId, dataType: "customLocations" }, tx);
         if (validatedLocations.length > 0) {
           await tx.insert(userStorageLocations).values(validatedLocations.map((loc) => {
             const rawLoc = loc as Record<string, unknown>;
@@ -465,6 +500,12 @@ router.post("/sync", requireAuth, validateBody(accountSyncSchema), async (req: R
         set: syncUpdate,
       });
 
+    if (scope.householdId) {
+      for (const section of sharedSectionsUpdated) {
+        await updateScopeTimestamp(scope, section);
+      }
+    }
+
     if (data.onboarding && data.onboarding.completedAt) {
       await db
         .update(users)
@@ -520,6 +561,8 @@ router.delete("/delete-account", csrfProtection, async (req: Request, res: Respo
       throw AppError.forbidden("Demo account cannot be deleted. This account is used for App Store review purposes.", "DEMO_PROTECTED");
     }
 
+    await assertRecentStepUp(userId, hashedToken);
+
     await deleteAccount(userId, res);
 
     res.json(successResponse(null, "Account and all associated data have been permanently deleted"));
@@ -533,7 +576,7 @@ const deleteAccountSchema = z.object({
   email: z.string().min(1, "Email confirmation is required"),
 });
 
-router.delete("/account", requireAuth, validateBody(deleteAccountSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.delete("/account", requireAuth, requireStepUp, validateBody(deleteAccountSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const userId = req.userId!;
     const { email } = req.body;
@@ -18,18 +18,24 @@ const router = Router();
 const loginSchema = z.object({
   email: z.string().min(1, "Email is required").email("Invalid email format"),
   password: z.string().min(1, "Password is required"),
+  deviceToken: z.string().max(128).optional(),
 });
 
 router.post("/login", validateBody(loginSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { email, password } = req.body;
+    const { email, password, deviceToken } = req.body;
 
     const result = await loginWithEmail(
       email,
       password,
-      { userAgent: req.headers["user-agent"], ipAddress: req.ip }
+      { userAgent: req.headers["user-agent"], ipAddress: req.ip },
+      deviceToken
     );
 
+    if ("twoFactorRequired" in result) {
+      return res.json(successResponse(result));
+    }
+
     const subscriptionInfo = await getSubscriptionInfo(result.user.id);
 
     setAuthCookie(res, result.rawToken, req);
@@ -0,0 +1,147 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { setAuthCookie } from "../../lib/session-utils";
+import { generateCsrfToken } from "../../middleware/csrf";
+import { requireAuth } from "../../middleware/auth";
+import { requireStepUp } from "../../middleware/requireStepUp";
+import { successResponse } from "../../lib/apiResponse";
+import { hashToken } from "../../lib/auth-utils";
+import {
+  completeStepUp,
+  getLoginOptions,
+  getRegistrationOptions,
+  getStepUpOptions,
+  listPasskeys,
+  loginWithPasskey,
+  registerPasskey,
+  removePasskey,
+} from "../../domain/services";
+import { getSubscriptionInfo } from "../auth/shared";
+import { validateBody } from "../../middleware/validateBody";
+
+const router = Router();
+
+const base64url = z.string().min(1).max(16384).regex(/^[A-Za-z0-9_-]+$/, "Expected base64url");
+
+const registrationSchema = z.object({
+  name: z.string().max(100).optional(),
+  response: z.object({
+    id: base64url,
+    rawId: base64url.optional(),
+    type: z.literal("public-key"),
+    response: z.object({
+      clientDataJSON: base64url,
+      attestationObject: base64url,
+      transports: z.array(z.string().max(32)).max(10).optional(),
+    }),
+  }),
+});
+
+const assertionSchema = z.object({
+  response: z.object({
+    id: base64url,
+    rawId: base64url.optional(),
+    type: z.literal("public-key"),
+    response: z.object({
+      clientDataJSON: base64url,
+      authenticatorData: base64url,
+      signature: base64url,
+      userHandle: base64url.nullable().optional(),
+    }),
+  }),
+});
+
+function bearerTokenHash(req: Request): string {
+  return hashToken(req.headers.authorization!.slice(7));
+}
+
+router.post("/passkeys/login/options", async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(successResponse(await getLoginOptions()));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/passkeys/login", validateBody(assertionSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await loginWithPasskey(
+      req.body.response,
+      { userAgent: req.headers["user-agent"], ipAddress: req.ip }
+    );
+
+    const subscriptionInfo = await getSubscriptionInfo(result.user.id);
+
+    setAuthCookie(res, result.rawToken, req);
+    const csrfToken = generateCsrfToken(req, res);
+
+    res.json(successResponse({
+      user: {
+        id: result.user.id,
+        email: result.user.email,
+        displayName: result.user.displayName,
+        avatarUrl: result.user.profileImageUrl,
+        createdAt: result.user.createdAt?.toISOString() || new Date().toISOString(),
+        hasCompletedOnboarding: result.user.hasCompletedOnboarding ?? false,
+        ...subscriptionInfo,
+      },
+      token: result.rawToken,
+      csrfToken,
+    }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/passkeys", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(successResponse(await listPasskeys(req.userId!)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Adding or removing a passkey changes what step-up accepts, so both need a
+// fresh confirmation once the user has a passkey.
+router.post("/passkeys/register/options", requireAuth, requireStepUp, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(successResponse(await getRegistrationOptions(req.userId!)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/passkeys/register", requireAuth, requireStepUp, validateBody(registrationSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const passkey = await registerPasskey(req.userId!, req.body.response, req.body.name);
+    res.status(201).json(successResponse(passkey, "Passkey added"));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete("/passkeys/:id", requireAuth, requireStepUp, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(successResponse(await removePasskey(req.userId!, req.params.id)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/passkeys/step-up/options", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(successResponse(await getStepUpOptions(req.userId!)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/passkeys/step-up", requireAuth, validateBody(assertionSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(successResponse(await completeStepUp(req.userId!, bearerTokenHash(req), req.body.response)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
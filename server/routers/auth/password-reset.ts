@@ -11,6 +11,8 @@ import { successResponse } from "../../lib/apiResponse";
 import { hashToken } from "../../lib/auth-utils";
 import { validatePassword, hashPassword } from "../../domain/services";
 import { validateBody } from "../../middleware/validateBody";
+import { getAppBaseUrl, sendTemplatedEmail } from "../../services/emailService";
+import { escapeHtml } from "../../lib/email-templates";
 
 const router = Router();
 
@@ -33,6 +35,59 @@ const resetPasswordSchema = z.object({
   password: z.string().min(1, "New password is required"),
 });
 
+/** The link in the reset email; GET /reset-password below serves its page. */
+export function passwordResetUrl(token: string): string {
+  return `${getAppBaseUrl()}/api/auth/reset-password?token=${encodeURIComponent(token)}`;
+}
+
+function resetPasswordPage(content: string): string {
+  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1"><title>Reset your password - ChefSpAIce</title></head><body style="font-family: -apple-system, Helvetica, Arial, sans-serif; max-width: 480px; margin: 48px auto; padding: 0 16px; color: #1f2937;"><h1 style="font-size: 20px;">ChefSpAIce</h1>${content}</body></html>`;
+}
+
+function resetPasswordForm(token: string, error?: string): string {
+  return resetPasswordPage(`${error ? `<p style="color: #b91c1c;">${escapeHtml(error)}</p>` : "<p>Choose a new password for your account.</p>"}<form method="post" action="/api/auth/reset-password"><input type="hidden" name="token" value="${escapeHtml(token)}"><label for="password" style="display: block; margin-bottom: 8px;">New password</label><input id="password" name="password" type="password" autocomplete="new-password" required style="width: 100%; padding: 10px; box-sizing: border-box; margin-bottom: 16px;"><button type="submit" style="padding: 10px 20px;">Reset password</button></form>`);
+}
+
+/** Sets a new password for a valid reset token and signs out every session. */
+async function resetPasswordWithToken(resetToken: string, password: string): Promise<void> {
+  const passwordError = validatePassword(password);
+  if (passwordError) {
+    throw AppError.badRequest(passwordError, "WEAK_PASSWORD");
+  }
+
+  await cleanupExpiredResetTokens();
+
+  const hashedResetToken = hashToken(resetToken);
+
+  const [entry] = await db
+    .select({ userId: passwordResetTokens.userId, expiresAt: passwordResetTokens.expiresAt })
+    .from(passwordResetTokens)
+    .where(eq(passwordResetTokens.tokenHash, hashedResetToken))
+    .limit(1);
+
+  if (!entry || entry.expiresAt < new Date()) {
+    if (entry) {
+      await db.delete(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, hashedResetToken));
+    }
+    throw AppError.badRequest("Invalid or expired reset token", "INVALID_RESET_TOKEN");
+  }
+
+  const hashedPassword = await hashPassword(password);
+
+  await db
+    .update(users)
+    .set({ password: hashedPassword, updatedAt: new Date() })
+    .where(eq(users.id, entry.userId));
+
+  await db
+    .delete(passwordResetTokens)
+    .where(eq(passwordResetTokens.userId, entry.userId));
+
+  await db
+    .delete(userSessions)
+    .where(eq(userSessions.userId, entry.userId));
+}
+
 router.post("/forgot-password", passwordResetLimiter, validateBody(forgotPasswordSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { email } = req.body;
@@ -40,7 +95,7 @@ router.post("/forgot-password", passwordResetLimiter, validateBody(forgotPasswor
     await cleanupExpiredResetTokens();
 
     const [user] = await db
-      .select({ id: users.id })
+      .select({ id: users.id, email: users.email, displayName: users.displayName })
       .from(users)
       .where(eq(users.email, email.toLowerCase()))
       .limit(1);
@@ -64,53 +119,58 @@ router.post("/forgot-password", passwordResetLimiter, validateBody(forgotPasswor
 
     logger.info("Password reset token generated", { userId: user.id });
 
+    // Not awaited: response time must not reveal whether the account exists.
+    void sendTemplatedEmail({
+      to: user.email,
+      userId: user.id,
+      template: "password_reset",
+      data: {
+        displayName: user.displayName,
+        resetUrl: passwordResetUrl(resetToken),
+        expiresInMinutes: PASSWORD_RESET_EXPIRY_MS / 60_000,
+      },
+    });
+
     res.json(successResponse({ message: PASSWORD_RESET_SUCCESS_MESSAGE }));
   } catch (error) {
     next(error);
   }
 });
 
-router.post("/reset-password", passwordResetLimiter, validateBody(resetPasswordSchema), async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const { token: resetToken, password } = req.body;
-
-    const passwordError = validatePassword(password);
-    if (passwordError) {
-      throw AppError.badRequest(passwordError, "WEAK_PASSWORD");
-    }
-
-    await cleanupExpiredResetTokens();
-
-    const hashedResetToken = hashToken(resetToken);
-
-    const [entry] = await db
-      .select({ userId: passwordResetTokens.userId, expiresAt: passwordResetTokens.expiresAt })
-      .from(passwordResetTokens)
-      .where(eq(passwordResetTokens.tokenHash, hashedResetToken))
-      .limit(1);
+// Link from the reset email; answers with a page rather than JSON.
+router.get("/reset-password", (req: Request, res: Response) => {
+  const token = typeof req.query.token === "string" ? req.query.token : "";
+  res.setHeader("Content-Type", "text/html");
+  if (!token) {
+    return res.status(400).send(resetPasswordPage("<p>This reset link is invalid. Request a new one from the sign-in screen in the app.</p>"));
+  }
+  res.send(resetPasswordForm(token));
+});
 
-    if (!entry || entry.expiresAt < new Date()) {
-      if (entry) {
-        await db.delete(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, hashedResetToken));
-      }
-      throw AppError.badRequest("Invalid or expired reset token", "INVALID_RESET_TOKEN");
+// The page's form posts here too; those requests get a page back, the app gets JSON.
+async function handleResetPasswordForm(req: Request, res: Response, next: NextFunction) {
+  if (!req.is("application/x-www-form-urlencoded")) {
+    return next();
+  }
+  const token = typeof req.body?.token === "string" ? req.body.token : "";
+  const password = typeof req.body?.password === "string" ? req.body.password : "";
+  try {
+    await resetPasswordWithToken(token, password);
+    res.setHeader("Content-Type", "text/html");
+    res.send(resetPasswordPage("<p>Your password has been reset. Sign in to the app with your new password.</p>"));
+  } catch (error) {
+    if (!(error instanceof AppError)) {
+      return next(error);
     }
+    res.setHeader("Content-Type", "text/html");
+    res.status(error.statusCode).send(resetPasswordForm(token, error.message));
+  }
+}
 
-    const hashedPassword = await hashPassword(password);
-
-    await db
-      .update(users)
-      .set({ password: hashedPassword, updatedAt: new Date() })
-      .where(eq(users.id, entry.userId));
-
-    await db
-      .delete(passwordResetTokens)
-      .where(eq(passwordResetTokens.userId, entry.userId));
-
-    await db
-      .delete(userSessions)
-      .where(eq(userSessions.userId, entry.userId));
-
+router.post("/reset-password", passwordResetLimiter, handleResetPasswordForm, validateBody(resetPasswordSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token, password } = req.body;
+    await resetPasswordWithToken(token, password);
     res.json(successResponse({ message: "Password has been reset successfully." }));
   } catch (error) {
     next(error);
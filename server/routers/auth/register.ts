@@ -6,6 +6,7 @@ import { successResponse } from "../../lib/apiResponse";
 import { registerWithEmail } from "../../domain/services";
 import { getSubscriptionInfo } from "../auth/shared";
 import { validateBody } from "../../middleware/validateBody";
+import { getAppBaseUrl, sendTemplatedEmail } from "../../services/emailService";
 
 const router = Router();
 
@@ -35,6 +36,13 @@ router.post("/register", validateBody(registerSchema), async (req: Request, res:
     setAuthCookie(res, result.rawToken, req);
     const csrfToken = generateCsrfToken(req, res);
 
+    void sendTemplatedEmail({
+      to: result.user.email,
+      userId: result.user.id,
+      template: "welcome",
+      data: { displayName: result.user.displayName, appUrl: getAppBaseUrl() },
+    });
+
     res.status(201).json(successResponse({
       user: {
         id: result.user.id,
@@ -24,6 +24,7 @@ router.get("/sessions", requireAuth, async (req: Request, res: Response, next: N
         createdAt: userSessions.createdAt,
         expiresAt: userSessions.expiresAt,
         token: userSessions.token,
+        trustedDeviceId: userSessions.trustedDeviceId,
       })
       .from(userSessions)
       .where(eq(userSessions.userId, userId))
@@ -41,6 +42,7 @@ router.get("/sessions", requireAuth, async (req: Request, res: Response, next: N
         createdAt: s.createdAt,
         expiresAt: s.expiresAt,
         isCurrent: s.token === currentHashedToken,
+        isTrusted: s.trustedDeviceId !== null,
       }));
 
     res.json(successResponse({ sessions: activeSessions }));
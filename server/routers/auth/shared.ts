@@ -2,15 +2,33 @@ import { z } from "zod";
 import { db } from "../../db";
 import { subscriptions, users, userInventoryItems, userSavedRecipes, userMealPlans, userShoppingItems, userWasteLogs, userConsumedLogs, userStorageLocations, userSyncKV } from "@shared/schema";
 import { eq, and, isNull } from "drizzle-orm";
+import { resolveSyncScope, scopeFilter } from "../sync/sync-helpers";
+import { isValidTimeZone } from "../../lib/expiring-digest";
+import { normalizeMeals } from "@shared/meal-plan";
 
 export const syncPreferencesSchema = z.object({
   servingSize: z.coerce.number().int().min(1).max(10).optional(),
   dailyMeals: z.coerce.number().int().min(1).max(10).optional(),
+  mealPlanPresetId: z.string().min(1).max(64).optional(),
   dietaryRestrictions: z.array(z.string().max(100)).max(50).optional(),
   cuisinePreferences: z.array(z.string().max(100)).max(50).optional(),
   storageAreas: z.array(z.string().max(50)).max(20).optional(),
   cookingLevel: z.enum(["basic", "intermediate", "professional"]).optional(),
   expirationAlertDays: z.coerce.number().int().min(1).max(30).optional(),
+  notificationsEnabled: z.boolean().optional(),
+  notifyExpiringFood: z.boolean().optional(),
+  notificationTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:MM").optional(),
+  timezone: z.string().max(64).refine(isValidTimeZone, "Unknown time zone").optional(),
+  macroTargets: z.object({
+    protein: z.number().min(0).max(100),
+    carbs: z.number().min(0).max(100),
+    fat: z.number().min(0).max(100),
+  }).optional(),
+  nutritionGoals: z.object({
+    calories: z.number().min(0).max(10000),
+    fiber: z.number().min(0).max(200).optional(),
+    sodium: z.number().min(0).max(20000).optional(),
+  }).optional(),
 });
 
 export function maskIpAddress(ip: string | null | undefined): string {
@@ -98,8 +116,9 @@ export async function getSubscriptionInfo(userId: string): Promise<SubscriptionI
 }
 
 export async function queryNormalizedInventory(userId: string) {
-  const rows = await db.select().from(userInventoryItems).where(and(eq(userInventoryItems.userId, userId), isNull(userInventoryItems.deletedAt)));
-  return rows.map(row => ({ id: row.itemId, name: row.name, barcode: row.barcode, quantity: row.quantity, unit: row.unit, storageLocation: row.storageLocation, purchaseDate: row.purchaseDate, expirationDate: row.expirationDate, category: row.category, usdaCategory: row.usdaCategory, nutrition: row.nutrition, notes: row.notes, imageUri: row.imageUri, fdcId: row.fdcId, servingSize: row.servingSize }));
+  const scope = await resolveSyncScope(userId);
+  const rows = await db.select().from(userInventoryItems).where(and(scopeFilter(userInventoryItems, scope), isNull(userInventoryItems.deletedAt)));
+  return rows.map(row => ({ id: row.itemId, name: row.name, barcode: row.barcode, quantity: row.quantity, unit: row.unit, storageLocation: row.storageLocation, purchaseDate: row.purchaseDate, expirationDate: row.expirationDate, category: row.category, usdaCategory: row.usdaCategory, nutrition: row.nutrition, notes: row.notes, imageUri: row.imageUri, fdcId: row.fdcId, servingSize: row.servingSize, lots: row.lots, recipeId: row.recipeId }));
 }
 
 export async function queryNormalizedRecipes(userId: string) {
@@ -108,12 +127,14 @@ export async function queryNormalizedRecipes(userId: string) {
 }
 
 export async function queryNormalizedMealPlans(userId: string) {
-  const rows = await db.select().from(userMealPlans).where(eq(userMealPlans.userId, userId));
-  return rows.map(row => ({ id: row.itemId, date: row.date, meals: row.meals, ...((row.extraData as Record<string, unknown>) || {}) }));
+  const scope = await resolveSyncScope(userId);
+  const rows = await db.select().from(userMealPlans).where(scopeFilter(userMealPlans, scope));
+  return rows.map(row => ({ id: row.itemId, date: row.date, meals: normalizeMeals(row.meals), ...((row.extraData as Record<string, unknown>) || {}) }));
 }
 
 export async function queryNormalizedShoppingList(userId: string) {
-  const rows = await db.select().from(userShoppingItems).where(eq(userShoppingItems.userId, userId));
+  const scope = await resolveSyncScope(userId);
+  const rows = await db.select().from(userShoppingItems).where(scopeFilter(userShoppingItems, scope));
   return rows.map(row => ({ id: row.itemId, name: row.name, quantity: row.quantity, unit: row.unit, isChecked: row.isChecked, category: row.category, recipeId: row.recipeId, ...((row.extraData as Record<string, unknown>) || {}) }));
 }
 
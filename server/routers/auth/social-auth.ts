@@ -0,0 +1,111 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { setAuthCookie } from "../../lib/session-utils";
+import { generateCsrfToken } from "../../middleware/csrf";
+import { requireAuth } from "../../middleware/auth";
+import { AppError } from "../../middleware/errorHandler";
+import { successResponse } from "../../lib/apiResponse";
+import { getLoginMethods, isSocialProvider, linkProvider, signInWithProvider, unlinkProvider } from "../../domain/services";
+import { getSubscriptionInfo } from "../auth/shared";
+import { validateBody } from "../../middleware/validateBody";
+import { getAppBaseUrl, sendTemplatedEmail } from "../../services/emailService";
+import type { SocialProvider } from "../../lib/login-methods";
+
+const router = Router();
+
+const socialSignInSchema = z.object({
+  idToken: z.string().min(1, "ID token is required"),
+  nonce: z.string().min(1).max(256).optional(),
+  displayName: z.string().max(100).optional(),
+  password: z.string().min(1).optional(),
+  deviceToken: z.string().max(128).optional(),
+});
+
+const linkProviderSchema = z.object({
+  idToken: z.string().min(1, "ID token is required"),
+  nonce: z.string().min(1).max(256).optional(),
+});
+
+function readProvider(req: Request): SocialProvider {
+  const { provider } = req.params;
+  if (!isSocialProvider(provider)) {
+    throw AppError.badRequest("Unsupported sign-in provider", "UNSUPPORTED_PROVIDER");
+  }
+  return provider;
+}
+
+router.post("/social/:provider", validateBody(socialSignInSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const provider = readProvider(req);
+
+    const result = await signInWithProvider(
+      provider,
+      req.body,
+      { userAgent: req.headers["user-agent"], ipAddress: req.ip }
+    );
+
+    if ("twoFactorRequired" in result) {
+      return res.json(successResponse(result));
+    }
+
+    if (result.isNewUser) {
+      void sendTemplatedEmail({
+        to: result.user.email,
+        userId: result.user.id,
+        template: "welcome",
+        data: { displayName: result.user.displayName, appUrl: getAppBaseUrl() },
+      });
+    }
+
+    const subscriptionInfo = await getSubscriptionInfo(result.user.id);
+
+    setAuthCookie(res, result.rawToken, req);
+    const csrfToken = generateCsrfToken(req, res);
+
+    res.status(result.isNewUser ? 201 : 200).json(successResponse({
+      user: {
+        id: result.user.id,
+        email: result.user.email,
+        displayName: result.user.displayName,
+        avatarUrl: result.user.profileImageUrl,
+        createdAt: result.user.createdAt?.toISOString() || new Date().toISOString(),
+        hasCompletedOnboarding: result.user.hasCompletedOnboarding ?? false,
+        provider,
+        isNewUser: result.isNewUser,
+        ...subscriptionInfo,
+      },
+      token: result.rawToken,
+      csrfToken,
+    }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/providers", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(successResponse(await getLoginMethods(req.userId!)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/providers/:provider", requireAuth, validateBody(linkProviderSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const provider = readProvider(req);
+    res.json(successResponse(await linkProvider(req.userId!, provider, req.body)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete("/providers/:provider", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const provider = readProvider(req);
+    res.json(successResponse(await unlinkProvider(req.userId!, provider)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
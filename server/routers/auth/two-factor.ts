@@ -0,0 +1,122 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { setAuthCookie } from "../../lib/session-utils";
+import { generateCsrfToken } from "../../middleware/csrf";
+import { requireAuth } from "../../middleware/auth";
+import { requireStepUp } from "../../middleware/requireStepUp";
+import { successResponse } from "../../lib/apiResponse";
+import { hashToken } from "../../lib/auth-utils";
+import {
+  beginTwoFactorSetup,
+  completeTwoFactorLogin,
+  disableTwoFactor,
+  enableTwoFactor,
+  forgetTrustedDevices,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+} from "../../domain/services";
+import { getSubscriptionInfo } from "../auth/shared";
+import { validateBody } from "../../middleware/validateBody";
+
+const router = Router();
+
+const codeSchema = z.object({
+  code: z.string().trim().min(6, "Enter your verification code").max(32),
+});
+
+const loginSchema = codeSchema.extend({
+  twoFactorToken: z.string().min(1).max(128),
+  trustDevice: z.boolean().optional().default(false),
+});
+
+function bearerTokenHash(req: Request): string {
+  return hashToken(req.headers.authorization!.slice(7));
+}
+
+// Second login step. Mounted under /login so it shares the login rate limiter.
+router.post("/login/2fa", validateBody(loginSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { twoFactorToken, code, trustDevice } = req.body;
+
+    const result = await completeTwoFactorLogin(
+      twoFactorToken,
+      code,
+      trustDevice,
+      { userAgent: req.headers["user-agent"], ipAddress: req.ip }
+    );
+
+    const subscriptionInfo = await getSubscriptionInfo(result.user.id);
+
+    setAuthCookie(res, result.rawToken, req);
+    const csrfToken = generateCsrfToken(req, res);
+
+    res.json(successResponse({
+      user: {
+        id: result.user.id,
+        email: result.user.email,
+        displayName: result.user.displayName,
+        avatarUrl: result.user.profileImageUrl,
+        createdAt: result.user.createdAt?.toISOString() || new Date().toISOString(),
+        hasCompletedOnboarding: result.user.hasCompletedOnboarding ?? false,
+        ...subscriptionInfo,
+      },
+      token: result.rawToken,
+      csrfToken,
+      deviceToken: result.deviceToken,
+    }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/2fa", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(successResponse(await getTwoFactorStatus(req.userId!)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/2fa/setup", requireAuth, requireStepUp, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(successResponse(await beginTwoFactorSetup(req.userId!)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/2fa/enable", requireAuth, validateBody(codeSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await enableTwoFactor(req.userId!, req.body.code, bearerTokenHash(req));
+    res.json(successResponse(result, "Two-factor authentication enabled"));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/2fa/disable", requireAuth, requireStepUp, validateBody(codeSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await disableTwoFactor(req.userId!, req.body.code);
+    res.json(successResponse(null, "Two-factor authentication disabled"));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/2fa/recovery-codes", requireAuth, validateBody(codeSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(successResponse(await regenerateRecoveryCodes(req.userId!, req.body.code)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete("/2fa/trusted-devices", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(successResponse(await forgetTrustedDevices(req.userId!)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
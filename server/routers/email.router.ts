@@ -0,0 +1,91 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { requireAuth } from "../middleware/auth";
+import { AppError } from "../middleware/errorHandler";
+import { successResponse } from "../lib/apiResponse";
+import { validateBody } from "../middleware/validateBody";
+import { UNSUBSCRIBABLE_CATEGORIES, escapeHtml, type EmailCategory } from "../lib/email-templates";
+import {
+  getEmailPreferences,
+  unsubscribeWithToken,
+  updateEmailPreferences,
+} from "../services/emailService";
+
+const router = Router();
+
+const CATEGORY_LABELS: Record<EmailCategory, string> = {
+  account: "account emails",
+  waste_report: "weekly food waste reports",
+  offers: "offers and promotions",
+};
+
+const preferencesSchema = z.object({
+  preferences: z
+    .array(
+      z.object({
+        category: z.enum(UNSUBSCRIBABLE_CATEGORIES as [EmailCategory, ...EmailCategory[]]),
+        subscribed: z.boolean(),
+      }),
+    )
+    .min(1, "At least one preference is required"),
+});
+
+function unsubscribePage(message: string): string {
+  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1"><title>ChefSpAIce</title></head><body style="font-family: -apple-system, Helvetica, Arial, sans-serif; max-width: 480px; margin: 48px auto; padding: 0 16px; color: #1f2937;"><h1 style="font-size: 20px;">ChefSpAIce</h1><p>${escapeHtml(message)}</p></body></html>`;
+}
+
+function readToken(req: Request): string | null {
+  const token = req.query.token ?? req.body?.token;
+  return typeof token === "string" && token.length > 0 ? token : null;
+}
+
+// Link from the email footer; answers with a page rather than JSON.
+router.get("/unsubscribe", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = readToken(req);
+    const category = token ? await unsubscribeWithToken(token) : null;
+
+    res.setHeader("Content-Type", "text/html");
+    if (!category) {
+      return res.status(400).send(unsubscribePage("This unsubscribe link is invalid. You can manage email preferences from Settings in the app."));
+    }
+    res.send(unsubscribePage(`You've been unsubscribed from ${CATEGORY_LABELS[category]}. You can turn them back on from Settings in the app.`));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// One-click unsubscribe (RFC 8058) sent by mail clients via List-Unsubscribe-Post.
+router.post("/unsubscribe", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const token = readToken(req);
+    const category = token ? await unsubscribeWithToken(token) : null;
+    if (!category) {
+      throw AppError.badRequest("Invalid unsubscribe token", "INVALID_UNSUBSCRIBE_TOKEN");
+    }
+    res.json(successResponse({ category, subscribed: false }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/preferences", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    res.json(successResponse(await getEmailPreferences(userId)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put("/preferences", requireAuth, validateBody(preferencesSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const { preferences } = req.body as z.infer<typeof preferencesSchema>;
+    res.json(successResponse(await updateEmailPreferences(userId, preferences)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,18 +1,29 @@
 import { Router, Request, Response, NextFunction } from "express";
 import { db } from "../db";
-import { users, userInventoryItems } from "@shared/schema";
-import { and, eq, isNull, ilike } from "drizzle-orm";
-import { randomBytes, createHash } from "crypto";
+import { userInventoryItems, userShoppingItems } from "@shared/schema";
+import { and, asc, eq, isNull, ilike } from "drizzle-orm";
+import { randomBytes } from "crypto";
 import { z } from "zod";
 import OpenAI from "openai";
 import { requireAuth } from "../middleware/auth";
+import { requireStepUp } from "../middleware/requireStepUp";
+import { requireActionScope, requireApiKey } from "../middleware/requireApiKey";
+import { apiKeyLimiter } from "../middleware/rateLimiter";
 import { AppError } from "../middleware/errorHandler";
 import { successResponse } from "../lib/apiResponse";
 import { logger } from "../lib/logger";
 import { validateBody } from "../middleware/validateBody";
 import { checkPantryItemLimit } from "../services/subscriptionService";
+import {
+  createApiKey,
+  getApiKeyLogs,
+  listApiKeys,
+  revokeApiKey,
+  updateApiKey,
+} from "../services/apiKeyService";
 import { ERROR_CODES, ERROR_MESSAGES } from "@shared/subscription";
-import { updateSectionTimestamp } from "./sync/sync-helpers";
+import { API_KEY_SCOPES, EXTERNAL_ACTIONS, MAX_API_KEY_RATE_LIMIT } from "@shared/api-keys";
+import { resolveSyncScope, scopeFilter, updateScopeTimestamp } from "./sync/sync-helpers";
 
 interface ExternalInventoryItem {
   id: string;
@@ -26,6 +37,14 @@ interface ExternalInventoryItem {
   [key: string]: unknown;
 }
 
+interface ExternalShoppingItem {
+  id: string;
+  name: string;
+  quantity: number;
+  unit: string;
+  category?: string;
+}
+
 const router = Router();
 
 const openai = new OpenAI({
@@ -37,41 +56,43 @@ function escapeLikePattern(input: string): string {
   return input.replace(/[%_\\]/g, '\\$&');
 }
 
-function hashApiKey(apiKey: string): string {
-  return createHash("sha256").update(apiKey).digest("hex");
-}
-
-function generateApiKey(): string {
-  return `csa_${randomBytes(32).toString("hex")}`;
-}
-
 const actionSchema = z.object({
-  apiKey: z.string().min(1),
-  action: z.enum(["add_item", "check_inventory", "what_expires", "quick_recipe"]),
+  action: z.enum(EXTERNAL_ACTIONS),
   item: z.string().optional(),
   quantity: z.number().optional(),
   unit: z.string().optional(),
 });
 
-async function validateApiKey(apiKey: string): Promise<typeof users.$inferSelect | null> {
-  const keyHash = hashApiKey(apiKey);
-  const [user] = await db
-    .select()
-    .from(users)
-    .where(eq(users.apiKeyHash, keyHash))
-    .limit(1);
-  
-  return user || null;
-}
+const scopesSchema = z
+  .array(z.enum(API_KEY_SCOPES))
+  .min(1, "Choose at least one permission")
+  .transform((scopes) => [...new Set(scopes)]);
 
-router.post("/action", validateBody(actionSchema), async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const { apiKey, action, item, quantity, unit } = req.body;
+const keyNameSchema = z.string().trim().min(1, "Name is required").max(100);
 
-    const user = await validateApiKey(apiKey);
-    if (!user) {
-      throw AppError.unauthorized("Invalid API key", "INVALID_API_KEY");
-    }
+const rateLimitSchema = z.number().int().min(1).max(MAX_API_KEY_RATE_LIMIT);
+
+const createKeySchema = z.object({
+  name: keyNameSchema,
+  scopes: scopesSchema,
+  rateLimitPerMinute: rateLimitSchema.optional(),
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+
+const updateKeySchema = z
+  .object({
+    name: keyNameSchema.optional(),
+    scopes: scopesSchema.optional(),
+    rateLimitPerMinute: rateLimitSchema.optional(),
+  })
+  .refine((body) => Object.values(body).some((value) => value !== undefined), {
+    message: "Nothing to update",
+  });
+
+router.post("/action", requireApiKey, apiKeyLimiter, validateBody(actionSchema), requireActionScope, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { action, item, quantity, unit } = req.body;
+    const userId = req.userId!;
 
     switch (action) {
       case "add_item": {
@@ -79,7 +100,7 @@ router.post("/action", validateBody(actionSchema), async (req: Request, res: Res
           throw AppError.badRequest("Item name is required for add_item action", "MISSING_ITEM_NAME");
         }
 
-        const limitCheck = await checkPantryItemLimit(user.id);
+        const limitCheck = await checkPantryItemLimit(userId);
         if (typeof limitCheck.remaining === 'number' && limitCheck.remaining < 1) {
           throw AppError.forbidden(ERROR_MESSAGES[ERROR_CODES.PANTRY_LIMIT_REACHED], ERROR_CODES.PANTRY_LIMIT_REACHED).withDetails({
             limit: limitCheck.limit,
@@ -87,11 +108,13 @@ router.post("/action", validateBody(actionSchema), async (req: Request, res: Res
           });
         }
 
+        const scope = await resolveSyncScope(userId, "write");
         const itemId = randomBytes(8).toString("hex");
         const now = new Date();
 
         const [inserted] = await db.insert(userInventoryItems).values({
-          userId: user.id,
+          userId,
+          householdId: scope.householdId,
           itemId,
           name: item,
           quantity: quantity || 1,
@@ -101,7 +124,7 @@ router.post("/action", validateBody(actionSchema), async (req: Request, res: Res
           updatedAt: now,
         }).returning();
 
-        await updateSectionTimestamp(user.id, "inventory");
+        await updateScopeTimestamp(scope, "inventory");
 
         const newItem: ExternalInventoryItem = {
           id: inserted.itemId,
@@ -121,12 +144,14 @@ router.post("/action", validateBody(actionSchema), async (req: Request, res: Res
           throw AppError.badRequest("Item name is required for check_inventory action", "MISSING_ITEM_NAME");
         }
 
+        const scope = await resolveSyncScope(userId);
+
         const foundRows = await db
           .select()
           .from(userInventoryItems)
           .where(
             and(
-              eq(userInventoryItems.userId, user.id),
+              scopeFilter(userInventoryItems, scope),
               isNull(userInventoryItems.deletedAt),
               ilike(userInventoryItems.name, `%${escapeLikePattern(item)}%`),
             ),
@@ -154,13 +179,14 @@ router.post("/action", validateBody(actionSchema), async (req: Request, res: Res
       case "what_expires": {
         const now = new Date();
         const threeDaysFromNow = new Date(now.getTime() + 3 * 24 * 60 * 60 * 1000);
+        const scope = await resolveSyncScope(userId);
 
         const allWithExpiration = await db
           .select()
           .from(userInventoryItems)
           .where(
             and(
-              eq(userInventoryItems.userId, user.id),
+              scopeFilter(userInventoryItems, scope),
               isNull(userInventoryItems.deletedAt),
             ),
           );
@@ -192,12 +218,14 @@ router.post("/action", validateBody(actionSchema), async (req: Request, res: Res
       }
 
       case "quick_recipe": {
+        const scope = await resolveSyncScope(userId);
+
         const inventoryRows = await db
           .select({ name: userInventoryItems.name })
           .from(userInventoryItems)
           .where(
             and(
-              eq(userInventoryItems.userId, user.id),
+              scopeFilter(userInventoryItems, scope),
               isNull(userInventoryItems.deletedAt),
             ),
           )
@@ -234,6 +262,62 @@ router.post("/action", validateBody(actionSchema), async (req: Request, res: Res
         }
       }
 
+      case "add_to_shopping_list": {
+        if (!item) {
+          throw AppError.badRequest("Item name is required for add_to_shopping_list action", "MISSING_ITEM_NAME");
+        }
+
+        const scope = await resolveSyncScope(userId, "write");
+        const itemId = randomBytes(8).toString("hex");
+
+        const [inserted] = await db.insert(userShoppingItems).values({
+          userId,
+          householdId: scope.householdId,
+          itemId,
+          name: item,
+          quantity: quantity || 1,
+          unit: unit || "item",
+          isChecked: false,
+          updatedAt: new Date(),
+        }).returning();
+
+        await updateScopeTimestamp(scope, "shoppingList");
+
+        const newItem: ExternalShoppingItem = {
+          id: inserted.itemId,
+          name: inserted.name,
+          quantity: inserted.quantity,
+          unit: inserted.unit,
+        };
+
+        return res.json(successResponse({ item: newItem }, `Added ${item} to your shopping list`));
+      }
+
+      case "shopping_list": {
+        const scope = await resolveSyncScope(userId);
+
+        const rows = await db
+          .select()
+          .from(userShoppingItems)
+          .where(and(scopeFilter(userShoppingItems, scope), eq(userShoppingItems.isChecked, false)))
+          .orderBy(asc(userShoppingItems.addedAt));
+
+        const items: ExternalShoppingItem[] = rows.map((row) => ({
+          id: row.itemId,
+          name: row.name,
+          quantity: row.quantity,
+          unit: row.unit,
+          category: row.category ?? undefined,
+        }));
+
+        if (items.length > 0) {
+          const itemList = items.map((i) => i.name).join(", ");
+          return res.json(successResponse({ items }, `You have ${items.length} item${items.length > 1 ? "s" : ""} on your shopping list: ${itemList}`));
+        } else {
+          return res.json(successResponse({ items: [] }, "Your shopping list is empty"));
+        }
+      }
+
       default:
         throw AppError.badRequest("Unknown action", "UNKNOWN_ACTION");
     }
@@ -242,44 +326,44 @@ router.post("/action", validateBody(actionSchema), async (req: Request, res: Res
   }
 });
 
-router.post("/generate-key", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+router.get("/keys", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const userId = req.userId!;
-
-    const [user] = await db
-      .select()
-      .from(users)
-      .where(eq(users.id, userId))
-      .limit(1);
-
-    if (!user) {
-      throw AppError.notFound("User not found", "USER_NOT_FOUND");
-    }
-
-    const newApiKey = generateApiKey();
-    const keyHash = hashApiKey(newApiKey);
-
-    await db
-      .update(users)
-      .set({ apiKeyHash: keyHash })
-      .where(eq(users.id, userId));
+    res.json(successResponse({ keys: await listApiKeys(req.userId!) }));
+  } catch (error) {
+    next(error);
+  }
+});
 
-    return res.json(successResponse({ apiKey: newApiKey }, "API key generated successfully. Save this key securely - it cannot be retrieved later."));
+router.post("/keys", requireAuth, requireStepUp, validateBody(createKeySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const created = await createApiKey(req.userId!, req.body);
+    res.status(201).json(successResponse(created, "API key created. Save this key securely - it cannot be retrieved later."));
   } catch (error) {
     next(error);
   }
 });
 
-router.delete("/revoke-key", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+router.patch("/keys/:id", requireAuth, requireStepUp, validateBody(updateKeySchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const userId = req.userId!;
+    const key = await updateApiKey(req.userId!, req.params.id, req.body);
+    res.json(successResponse({ key }, "API key updated"));
+  } catch (error) {
+    next(error);
+  }
+});
 
-    await db
-      .update(users)
-      .set({ apiKeyHash: null })
-      .where(eq(users.id, userId));
+router.delete("/keys/:id", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await revokeApiKey(req.userId!, req.params.id);
+    res.json(successResponse(null, "API key revoked successfully"));
+  } catch (error) {
+    next(error);
+  }
+});
 
-    return res.json(successResponse(null, "API key revoked successfully"));
+router.get("/keys/:id/logs", requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(successResponse({ requests: await getApiKeyLogs(req.userId!, req.params.id) }));
   } catch (error) {
     next(error);
   }
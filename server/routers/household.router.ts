@@ -0,0 +1,153 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { AppError } from "../middleware/errorHandler";
+import { successResponse } from "../lib/apiResponse";
+import { validateBody } from "../middleware/validateBody";
+import {
+  getHouseholdForUser,
+  createHousehold,
+  createInvite,
+  revokeInvite,
+  acceptInvite,
+  leaveHousehold,
+  removeMember,
+  updateMemberRole,
+} from "../domain/services";
+
+const router = Router();
+
+const createHouseholdSchema = z.object({
+  name: z.string().trim().min(1, "Household name is required").max(100),
+});
+
+const invitableRoleSchema = z.enum(["member", "viewer"]);
+
+const createInviteSchema = z.object({
+  role: invitableRoleSchema.default("member"),
+  email: z.string().email().optional(),
+});
+
+const acceptInviteSchema = z.object({
+  code: z.string().trim().min(1, "Invite code is required").max(32),
+});
+
+const updateRoleSchema = z.object({
+  role: invitableRoleSchema,
+});
+
+function requireUserId(req: Request): string {
+  const userId = req.userId;
+  if (!userId) {
+    throw AppError.unauthorized("Authentication required", "UNAUTHORIZED");
+  }
+  return userId;
+}
+
+router.get("/", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = requireUserId(req);
+    const details = await getHouseholdForUser(userId);
+    res.json(successResponse(details));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post(
+  "/",
+  validateBody(createHouseholdSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = requireUserId(req);
+      await createHousehold(userId, req.body.name);
+      const details = await getHouseholdForUser(userId);
+      res.status(201).json(successResponse(details, "Household created"));
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.post(
+  "/invites",
+  validateBody(createInviteSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = requireUserId(req);
+      const { role, email } = req.body;
+      const created = await createInvite(userId, { role, email });
+      res.status(201).json(successResponse(created, "Invite created"));
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.delete(
+  "/invites/:id",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = requireUserId(req);
+      await revokeInvite(userId, req.params.id);
+      res.json(successResponse(null, "Invite revoked"));
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.post(
+  "/invites/accept",
+  validateBody(acceptInviteSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = requireUserId(req);
+      const details = await acceptInvite(userId, req.body.code);
+      res.json(successResponse(details, "Joined household"));
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.post(
+  "/leave",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = requireUserId(req);
+      await leaveHousehold(userId);
+      res.json(successResponse(null, "Left household"));
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.delete(
+  "/members/:userId",
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = requireUserId(req);
+      await removeMember(userId, req.params.userId);
+      res.json(successResponse(null, "Member removed"));
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+router.patch(
+  "/members/:userId",
+  validateBody(updateRoleSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = requireUserId(req);
+      await updateMemberRole(userId, req.params.userId, req.body.role);
+      res.json(successResponse(null, "Member role updated"));
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export default router;
@@ -17,6 +17,7 @@ import { validateBody } from "../middleware/validateBody";
 import { successResponse } from "../lib/apiResponse";
 import { logger } from "../lib/logger";
 import { toInstacartUnit } from "../lib/unit-conversion";
+import { normalizeIngredient } from "@shared/ingredient-parser";
 
 export interface InstacartLineItemMeasurement {
   size: number;
@@ -71,7 +72,26 @@ function cleanUpc(upc: string): string {
   return upc.replace(/\D/g, "");
 }
 
-function buildLineItem(input: InstacartLineItemInput): InstacartLineItem {
+/**
+ * Splits a free-text line sent as the name ("2 lbs chicken thighs, diced")
+ * into name, quantity and unit so Instacart searches for the food itself.
+ * The original line is kept as the display text.
+ */
+function parseIngredientInput(input: InstacartLineItemInput): InstacartLineItemInput {
+  const parsed = normalizeIngredient({ name: input.name, quantity: input.quantity, unit: input.unit });
+  if (!parsed) return input;
+  const original = input.name.trim();
+  return {
+    ...input,
+    name: parsed.name,
+    quantity: parsed.quantity || input.quantity,
+    unit: parsed.unit || input.unit,
+    display_text: input.display_text || (parsed.name !== original ? original : undefined),
+  };
+}
+
+function buildLineItem(rawInput: InstacartLineItemInput): InstacartLineItem {
+  const input = parseIngredientInput(rawInput);
   const unit = toInstacartUnit(input.unit || "each");
   const quantity = input.quantity || 1;
 
@@ -137,7 +157,8 @@ function buildLineItem(input: InstacartLineItemInput): InstacartLineItem {
   return lineItem;
 }
 
-function buildRecipeIngredient(input: InstacartLineItemInput): InstacartRecipeIngredient {
+function buildRecipeIngredient(rawInput: InstacartLineItemInput): InstacartRecipeIngredient {
+  const input = parseIngredientInput(rawInput);
   const unit = toInstacartUnit(input.unit || "each");
   const quantity = input.quantity || 1;
 
@@ -12,6 +12,8 @@ import { AppError } from "../../../middleware/errorHandler";
 import { logger } from "../../../lib/logger";
 import { successResponse } from "../../../lib/apiResponse";
 import { withCircuitBreaker } from "../../../lib/circuit-breaker";
+import { recordReceipt } from "../../../services/priceHistoryService";
+import { checkBudgetAfterReceipt } from "../../../services/groceryBudgetService";
 
 const router = Router();
 
@@ -47,6 +49,7 @@ export interface ReceiptAnalysisResult {
   totalAmount?: number;
   notes?: string;
   error?: string;
+  pricesRecorded?: number;
 }
 
 const RECEIPT_ANALYSIS_PROMPT = `Analyze this grocery receipt image and extract all food items purchased.
@@ -258,6 +261,18 @@ router.post("/analyze-receipt", async (req: Request, res: Response, next: NextFu
       items: itemsWithUSDA,
     };
 
+    if (req.userId) {
+      try {
+        const recorded = await recordReceipt(req.userId, result);
+        result.pricesRecorded = recorded?.pricesRecorded ?? 0;
+        if (recorded) {
+          await checkBudgetAfterReceipt(req.userId, recorded.purchaseDate, recorded.totalAmount);
+        }
+      } catch (e) {
+        logger.warn("Failed to record receipt", { error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+
     logger.info("Receipt analysis complete", { itemCount: result.items.length });
     return res.json(successResponse(result));
   } catch (error) {
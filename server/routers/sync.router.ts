@@ -8,6 +8,7 @@ import recipesRouter from "./sync/recipes-sync";
 import mealPlansRouter from "./sync/meal-plans-sync";
 import shoppingRouter from "./sync/shopping-sync";
 import cookwareRouter from "./sync/cookware-sync";
+import deltaRouter from "./sync/delta-sync";
 
 const router = Router();
 
@@ -16,6 +17,7 @@ router.use("/recipes", recipesRouter);
 router.use("/mealPlans", mealPlansRouter);
 router.use("/shoppingList", shoppingRouter);
 router.use("/cookware", cookwareRouter);
+router.use("/delta", deltaRouter);
 
 router.get("/status", async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -12,6 +12,7 @@ import {
   updateSectionTimestamp,
   extractExtraData, cookwareKnownKeys,
   cookwareSchema, cookwareSyncRequestSchema,
+  nextSyncRevision, recordTombstones,
 } from "./sync-helpers";
 
 const router = Router();
@@ -72,6 +73,7 @@ router.post("/", validateBody(cookwareSyncRequestSchema), async (req: Request, r
           alternatives: data.alternatives,
           extraData,
           updatedAt: new Date(),
+          revision: nextSyncRevision(),
         },
       });
     } else if (operation === "update") {
@@ -109,6 +111,7 @@ router.post("/", validateBody(cookwareSyncRequestSchema), async (req: Request, r
           alternatives: data.alternatives,
           extraData,
           updatedAt: new Date(),
+          revision: nextSyncRevision(),
         }).where(and(eq(userCookwareItems.userId, userId), eq(userCookwareItems.itemId, dataIdStr)));
       } else {
         const [{ value: currentCount }] = await db.select({ value: count() }).from(userCookwareItems).where(eq(userCookwareItems.userId, userId));
@@ -137,6 +140,7 @@ router.post("/", validateBody(cookwareSyncRequestSchema), async (req: Request, r
       await db.delete(userCookwareItems).where(
         and(eq(userCookwareItems.userId, userId), eq(userCookwareItems.itemId, dataIdStr))
       );
+      await recordTombstones([{ userId, householdId: null, dataType: "cookware", itemId: dataIdStr }]);
     }
 
     await updateSectionTimestamp(userId, "cookware");
@@ -196,6 +200,7 @@ router.put("/", validateBody(updateSchema), async (req: Request, res: Response,
         alternatives: data.alternatives,
         extraData,
         updatedAt: new Date(),
+        revision: nextSyncRevision(),
       }).where(
         and(eq(userCookwareItems.userId, userId), eq(userCookwareItems.itemId, dataIdStr))
       );
@@ -248,6 +253,7 @@ router.delete("/", validateBody(deleteSchema), async (req: Request, res: Respons
     await db.delete(userCookwareItems).where(
       and(eq(userCookwareItems.userId, userId), eq(userCookwareItems.itemId, dataIdStr))
     );
+    await recordTombstones([{ userId, householdId: null, dataType: "cookware", itemId: dataIdStr }]);
 
     await updateSectionTimestamp(userId, "cookware");
 
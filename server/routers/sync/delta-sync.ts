@@ -0,0 +1,36 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { AppError } from "../../middleware/errorHandler";
+import { validateBody } from "../../middleware/validateBody";
+import { successResponse } from "../../lib/apiResponse";
+import {
+  deltaSyncRequestSchema,
+  runDeltaSync,
+} from "../../services/deltaSyncService";
+
+const router = Router();
+
+router.post(
+  "/",
+  validateBody(deltaSyncRequestSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.userId;
+      if (!userId) {
+        throw AppError.unauthorized("Authentication required", "UNAUTHORIZED");
+      }
+
+      const result = await runDeltaSync(userId, req.body);
+
+      res.json(
+        successResponse({
+          ...result,
+          syncedAt: new Date().toISOString(),
+        }),
+      );
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
+export default router;
@@ -0,0 +1,303 @@
+import { z } from "zod";
+import type { AnyPgColumn, PgTable } from "drizzle-orm/pg-core";
+import {
+  userInventoryItems,
+  userSavedRecipes,
+  userMealPlans,
+  userShoppingItems,
+  userCookwareItems,
+  userStorageLocations,
+  syncInventoryItemSchema,
+  syncRecipeSchema,
+  syncMealPlanSchema,
+  syncShoppingItemSchema,
+  syncCookwareItemSchema,
+} from "@shared/schema";
+import type { SyncRecord } from "@shared/sync-merge";
+import { normalizeMeals } from "@shared/meal-plan";
+import {
+  extractExtraData,
+  recipeKnownKeys,
+  mealPlanKnownKeys,
+  shoppingListKnownKeys,
+  cookwareKnownKeys,
+} from "./sync-helpers";
+
+export const deltaDataTypes = [
+  "inventory",
+  "recipes",
+  "mealPlans",
+  "shoppingList",
+  "cookware",
+  "customLocations",
+] as const;
+
+export type DeltaDataType = (typeof deltaDataTypes)[number];
+
+/**
+ * Describes how one delta-synced section maps between its table rows and the
+ * flat client records exchanged by /api/sync/delta.
+ */
+export interface DeltaTableConfig {
+  dataType: DeltaDataType;
+  table: PgTable;
+  columns: {
+    userId: AnyPgColumn;
+    householdId: AnyPgColumn | null;
+    itemId: AnyPgColumn;
+    revision: AnyPgColumn;
+  };
+  itemIdKey: string;
+  /** Shared sections are scoped to the user's household when they have one. */
+  shared: boolean;
+  schema: z.ZodType<SyncRecord>;
+  toRecord(row: Record<string, unknown>): SyncRecord;
+  toColumns(record: SyncRecord): Record<string, unknown>;
+}
+
+function defineDeltaTable<TTable extends PgTable>(config: {
+  dataType: DeltaDataType;
+  table: TTable;
+  columns: DeltaTableConfig["columns"];
+  itemIdKey: string;
+  shared: boolean;
+  schema: z.ZodType<SyncRecord>;
+  toRecord(row: TTable["$inferSelect"]): SyncRecord;
+  toColumns(record: SyncRecord): Partial<TTable["$inferInsert"]>;
+}): DeltaTableConfig {
+  return {
+    ...config,
+    toRecord: (row) => config.toRecord(row as TTable["$inferSelect"]),
+    toColumns: (record) => config.toColumns(record) as Record<string, unknown>,
+  };
+}
+
+function extra(row: { extraData: unknown }): Record<string, unknown> {
+  return (row.extraData as Record<string, unknown>) || {};
+}
+
+const customLocationSchema = z
+  .object({
+    id: z.union([z.string(), z.number()]),
+    name: z.string(),
+    type: z.string().optional().nullable(),
+  })
+  .passthrough();
+
+const customLocationKnownKeys = new Set(["id", "name", "type", "updatedAt"]);
+
+export const deltaTables: Record<DeltaDataType, DeltaTableConfig> = {
+  inventory: defineDeltaTable({
+    dataType: "inventory",
+    table: userInventoryItems,
+    columns: {
+      userId: userInventoryItems.userId,
+      householdId: userInventoryItems.householdId,
+      itemId: userInventoryItems.itemId,
+      revision: userInventoryItems.revision,
+    },
+    itemIdKey: "itemId",
+    shared: true,
+    schema: syncInventoryItemSchema as z.ZodType<SyncRecord>,
+    toRecord: (row) => ({
+      id: row.itemId,
+      name: row.name,
+      barcode: row.barcode,
+      quantity: row.quantity,
+      unit: row.unit,
+      storageLocation: row.storageLocation,
+      purchaseDate: row.purchaseDate,
+      expirationDate: row.expirationDate,
+      category: row.category,
+      usdaCategory: row.usdaCategory,
+      nutrition: row.nutrition,
+      notes: row.notes,
+      imageUri: row.imageUri,
+      fdcId: row.fdcId,
+      servingSize: row.servingSize,
+      lots: row.lots ?? null,
+      recipeId: row.recipeId ?? null,
+      updatedAt: row.updatedAt?.toISOString(),
+      deletedAt: row.deletedAt?.toISOString() ?? null,
+    }),
+    toColumns: (r) => ({
+      name: r.name as string,
+      barcode: (r.barcode as string | null) ?? null,
+      quantity: r.quantity as number,
+      unit: r.unit as string,
+      storageLocation: r.storageLocation as string,
+      purchaseDate: (r.purchaseDate as string | null) ?? null,
+      expirationDate: (r.expirationDate as string | null) ?? null,
+      category: r.category as string,
+      usdaCategory: (r.usdaCategory as string | null) ?? null,
+      nutrition: r.nutrition ?? null,
+      notes: (r.notes as string | null) ?? null,
+      imageUri: (r.imageUri as string | null) ?? null,
+      fdcId: (r.fdcId as number | null) ?? null,
+      servingSize: (r.servingSize as string | null) ?? null,
+      lots: r.lots ?? null,
+      recipeId: (r.recipeId as string | null) ?? null,
+      deletedAt: r.deletedAt ? new Date(r.deletedAt as string) : null,
+    }),
+  }),
+
+  // Recipe image bytes stay on the per-item recipe endpoints; delta records
+  // carry cloudImageUri only.
+  recipes: defineDeltaTable({
+    dataType: "recipes",
+    table: userSavedRecipes,
+    columns: {
+      userId: userSavedRecipes.userId,
+      householdId: null,
+      itemId: userSavedRecipes.itemId,
+      revision: userSavedRecipes.revision,
+    },
+    itemIdKey: "itemId",
+    shared: false,
+    schema: syncRecipeSchema as z.ZodType<SyncRecord>,
+    toRecord: (row) => ({
+      id: row.itemId,
+      title: row.title,
+      description: row.description,
+      ingredients: row.ingredients,
+      instructions: row.instructions,
+      prepTime: row.prepTime,
+      cookTime: row.cookTime,
+      servings: row.servings,
+      imageUri: row.imageUri,
+      cloudImageUri: row.cloudImageUri,
+      nutrition: row.nutrition,
+      isFavorite: row.isFavorite,
+      updatedAt: row.updatedAt?.toISOString(),
+      ...extra(row),
+    }),
+    toColumns: (r) => ({
+      title: r.title as string,
+      description: (r.description as string | null) ?? null,
+      ingredients: r.ingredients ?? null,
+      instructions: r.instructions ?? null,
+      prepTime: (r.prepTime as number | null) ?? null,
+      cookTime: (r.cookTime as number | null) ?? null,
+      servings: (r.servings as number | null) ?? null,
+      imageUri: (r.imageUri as string | null) ?? null,
+      cloudImageUri: (r.cloudImageUri as string | null) ?? null,
+      nutrition: r.nutrition ?? null,
+      isFavorite: (r.isFavorite as boolean | null) ?? false,
+      extraData: extractExtraData(r, recipeKnownKeys),
+    }),
+  }),
+
+  mealPlans: defineDeltaTable({
+    dataType: "mealPlans",
+    table: userMealPlans,
+    columns: {
+      userId: userMealPlans.userId,
+      householdId: userMealPlans.householdId,
+      itemId: userMealPlans.itemId,
+      revision: userMealPlans.revision,
+    },
+    itemIdKey: "itemId",
+    shared: true,
+    schema: syncMealPlanSchema as z.ZodType<SyncRecord>,
+    toRecord: (row) => ({
+      id: row.itemId,
+      date: row.date,
+      meals: normalizeMeals(row.meals),
+      updatedAt: row.updatedAt?.toISOString(),
+      ...extra(row),
+    }),
+    toColumns: (r) => ({
+      date: r.date as string,
+      meals: r.meals ?? null,
+      extraData: extractExtraData(r, mealPlanKnownKeys),
+    }),
+  }),
+
+  shoppingList: defineDeltaTable({
+    dataType: "shoppingList",
+    table: userShoppingItems,
+    columns: {
+      userId: userShoppingItems.userId,
+      householdId: userShoppingItems.householdId,
+      itemId: userShoppingItems.itemId,
+      revision: userShoppingItems.revision,
+    },
+    itemIdKey: "itemId",
+    shared: true,
+    schema: syncShoppingItemSchema as z.ZodType<SyncRecord>,
+    toRecord: (row) => ({
+      id: row.itemId,
+      name: row.name,
+      quantity: row.quantity,
+      unit: row.unit,
+      isChecked: row.isChecked,
+      category: row.category,
+      recipeId: row.recipeId,
+      updatedAt: row.updatedAt?.toISOString(),
+      ...extra(row),
+    }),
+    toColumns: (r) => ({
+      name: r.name as string,
+      quantity: r.quantity as number,
+      unit: r.unit as string,
+      isChecked: r.isChecked as boolean,
+      category: (r.category as string | null) ?? null,
+      recipeId: (r.recipeId as string | null) ?? null,
+      extraData: extractExtraData(r, shoppingListKnownKeys),
+    }),
+  }),
+
+  cookware: defineDeltaTable({
+    dataType: "cookware",
+    table: userCookwareItems,
+    columns: {
+      userId: userCookwareItems.userId,
+      householdId: null,
+      itemId: userCookwareItems.itemId,
+      revision: userCookwareItems.revision,
+    },
+    itemIdKey: "itemId",
+    shared: false,
+    schema: syncCookwareItemSchema as z.ZodType<SyncRecord>,
+    toRecord: (row) => ({
+      id: row.itemId,
+      name: row.name,
+      category: row.category,
+      alternatives: row.alternatives,
+      updatedAt: row.updatedAt?.toISOString(),
+      ...extra(row),
+    }),
+    toColumns: (r) => ({
+      name: (r.name as string | null) ?? null,
+      category: (r.category as string | null) ?? null,
+      alternatives: (r.alternatives as string[] | null) ?? null,
+      extraData: extractExtraData(r, cookwareKnownKeys),
+    }),
+  }),
+
+  customLocations: defineDeltaTable({
+    dataType: "customLocations",
+    table: userStorageLocations,
+    columns: {
+      userId: userStorageLocations.userId,
+      householdId: null,
+      itemId: userStorageLocations.locationId,
+      revision: userStorageLocations.revision,
+    },
+    itemIdKey: "locationId",
+    shared: false,
+    schema: customLocationSchema as z.ZodType<SyncRecord>,
+    toRecord: (row) => ({
+      id: row.locationId,
+      name: row.name,
+      type: row.type,
+      updatedAt: row.updatedAt?.toISOString(),
+      ...extra(row),
+    }),
+    toColumns: (r) => ({
+      name: r.name as string,
+      type: (r.type as string | null) ?? null,
+      extraData: extractExtraData(r, customLocationKnownKeys),
+    }),
+  }),
+};
@@ -9,9 +9,10 @@ import { AppError } from "../../middleware/errorHandler";
 import { validateBody } from "../../middleware/validateBody";
 import { successResponse } from "../../lib/apiResponse";
 import {
-  updateSectionTimestamp,
+  resolveSyncScope, scopeFilter, updateScopeTimestamp,
   inventoryItemSchema, inventorySyncRequestSchema,
   encodeCursor, decodeCursor, paginationQuerySchema,
+  nextSyncRevision, recordTombstones,
 } from "./sync-helpers";
 
 const router = Router();
@@ -32,6 +33,8 @@ router.get("/", async (req: Request, res: Response, next: NextFunction) => {
       throw AppError.unauthorized("Authentication required", "UNAUTHORIZED");
     }
 
+    const scope = await resolveSyncScope(userId, "read");
+
     const { limit, cursor } = paginationQuerySchema.parse(req.query);
 
     let cursorCondition = undefined;
@@ -50,7 +53,7 @@ router.get("/", async (req: Request, res: Response, next: NextFunction) => {
     }
 
     const conditions = [
-      eq(userInventoryItems.userId, userId),
+      scopeFilter(userInventoryItems, scope),
       isNull(userInventoryItems.deletedAt),
     ];
     if (cursorCondition) {
@@ -83,6 +86,8 @@ router.get("/", async (req: Request, res: Response, next: NextFunction) => {
       imageUri: item.imageUri,
       fdcId: item.fdcId,
       servingSize: item.servingSize,
+      lots: item.lots,
+      recipeId: item.recipeId,
       updatedAt: item.updatedAt?.toISOString(),
     }));
 
@@ -106,6 +111,8 @@ router.post("/", validateBody(inventorySyncRequestSchema), async (req: Request,
       throw AppError.unauthorized("Authentication required", "UNAUTHORIZED");
     }
 
+    const scope = await resolveSyncScope(userId, "write");
+
     const { operation, data } = req.body;
     const dataIdStr = String(data.id);
 
@@ -122,6 +129,7 @@ router.post("/", validateBody(inventorySyncRequestSchema), async (req: Request,
 
       await db.insert(userInventoryItems).values({
         userId,
+        householdId: scope.householdId,
         itemId: dataIdStr,
         name: data.name,
         barcode: data.barcode,
@@ -137,6 +145,8 @@ router.post("/", validateBody(inventorySyncRequestSchema), async (req: Request,
         imageUri: data.imageUri,
         fdcId: data.fdcId,
         servingSize: data.servingSize,
+        lots: data.lots ?? null,
+        recipeId: data.recipeId ?? null,
         updatedAt: new Date(),
         deletedAt: data.deletedAt ? new Date(data.deletedAt) : null,
       }).onConflictDoUpdate({
@@ -156,13 +166,16 @@ router.post("/", validateBody(inventorySyncRequestSchema), async (req: Request,
           imageUri: data.imageUri,
           fdcId: data.fdcId,
           servingSize: data.servingSize,
+          lots: data.lots ?? null,
+          recipeId: data.recipeId ?? null,
           updatedAt: new Date(),
+          revision: nextSyncRevision(),
           deletedAt: data.deletedAt ? new Date(data.deletedAt) : null,
         },
       });
     } else if (operation === "update") {
       const existingRows = await db.select().from(userInventoryItems).where(
-        and(eq(userInventoryItems.userId, userId), eq(userInventoryItems.itemId, dataIdStr))
+        and(scopeFilter(userInventoryItems, scope), eq(userInventoryItems.itemId, dataIdStr))
       );
 
       if (existingRows.length > 0) {
@@ -171,7 +184,7 @@ router.post("/", validateBody(inventorySyncRequestSchema), async (req: Request,
           const incomingTime = new Date(data.updatedAt).getTime();
           const existingTime = new Date(existing.updatedAt).getTime();
           if (incomingTime <= existingTime) {
-            await updateSectionTimestamp(userId, "inventory");
+            await updateScopeTimestamp(scope, "inventory");
             res.json(successResponse({
               syncedAt: new Date().toISOString(),
               operation: "skipped",
@@ -193,6 +206,8 @@ router.post("/", validateBody(inventorySyncRequestSchema), async (req: Request,
                 imageUri: existing.imageUri,
                 fdcId: existing.fdcId,
                 servingSize: existing.servingSize,
+                lots: existing.lots,
+                recipeId: existing.recipeId,
                 updatedAt: existing.updatedAt?.toISOString(),
                 deletedAt: existing.deletedAt?.toISOString() ?? null,
               },
@@ -215,9 +230,12 @@ router.post("/", validateBody(inventorySyncRequestSchema), async (req: Request,
           imageUri: data.imageUri,
           fdcId: data.fdcId,
           servingSize: data.servingSize,
+          lots: data.lots ?? null,
+          recipeId: data.recipeId ?? null,
           updatedAt: new Date(),
+          revision: nextSyncRevision(),
           deletedAt: data.deletedAt ? new Date(data.deletedAt) : null,
-        }).where(and(eq(userInventoryItems.userId, userId), eq(userInventoryItems.itemId, dataIdStr)));
+        }).where(and(scopeFilter(userInventoryItems, scope), eq(userInventoryItems.itemId, dataIdStr)));
       } else {
         const limitCheck = await checkPantryItemLimit(userId);
         const remaining = typeof limitCheck.remaining === 'number' ? limitCheck.remaining : Infinity;
@@ -229,6 +247,7 @@ router.post("/", validateBody(inventorySyncRequestSchema), async (req: Request,
         }
         await db.insert(userInventoryItems).values({
           userId,
+          householdId: scope.householdId,
           itemId: dataIdStr,
           name: data.name,
           barcode: data.barcode,
@@ -244,17 +263,20 @@ router.post("/", validateBody(inventorySyncRequestSchema), async (req: Request,
           imageUri: data.imageUri,
           fdcId: data.fdcId,
           servingSize: data.servingSize,
+          lots: data.lots ?? null,
+          recipeId: data.recipeId ?? null,
           updatedAt: new Date(),
           deletedAt: data.deletedAt ? new Date(data.deletedAt) : null,
         });
       }
     } else if (operation === "delete") {
       await db.delete(userInventoryItems).where(
-        and(eq(userInventoryItems.userId, userId), eq(userInventoryItems.itemId, dataIdStr))
+        and(scopeFilter(userInventoryItems, scope), eq(userInventoryItems.itemId, dataIdStr))
       );
+      await recordTombstones([{ userId, householdId: scope.householdId, dataType: "inventory", itemId: dataIdStr }]);
     }
 
-    await updateSectionTimestamp(userId, "inventory");
+    await updateScopeTimestamp(scope, "inventory");
 
     res.json(successResponse({
       syncedAt: new Date().toISOString(),
@@ -273,11 +295,13 @@ router.put("/", validateBody(updateSchema), async (req: Request, res: Response,
       throw AppError.unauthorized("Authentication required", "UNAUTHORIZED");
     }
 
+    const scope = await resolveSyncScope(userId, "write");
+
     const { data, clientTimestamp } = req.body;
     const dataIdStr = String(data.id);
 
     const existingRows = await db.select().from(userInventoryItems).where(
-      and(eq(userInventoryItems.userId, userId), eq(userInventoryItems.itemId, dataIdStr))
+      and(scopeFilter(userInventoryItems, scope), eq(userInventoryItems.itemId, dataIdStr))
     );
 
     if (existingRows.length > 0) {
@@ -309,6 +333,8 @@ router.put("/", validateBody(updateSchema), async (req: Request, res: Response,
             imageUri: existingItem.imageUri,
             fdcId: existingItem.fdcId,
             servingSize: existingItem.servingSize,
+            lots: existingItem.lots,
+            recipeId: existingItem.recipeId,
             updatedAt: existingItem.updatedAt?.toISOString(),
             deletedAt: existingItem.deletedAt?.toISOString() ?? null,
           },
@@ -330,10 +356,13 @@ router.put("/", validateBody(updateSchema), async (req: Request, res: Response,
         imageUri: data.imageUri,
         fdcId: data.fdcId,
         servingSize: data.servingSize,
+        lots: data.lots ?? null,
+        recipeId: data.recipeId ?? null,
         updatedAt: new Date(),
+        revision: nextSyncRevision(),
         deletedAt: data.deletedAt ? new Date(data.deletedAt) : null,
       }).where(
-        and(eq(userInventoryItems.userId, userId), eq(userInventoryItems.itemId, dataIdStr))
+        and(scopeFilter(userInventoryItems, scope), eq(userInventoryItems.itemId, dataIdStr))
       );
     } else {
       const limitCheck = await checkPantryItemLimit(userId);
@@ -347,6 +376,7 @@ router.put("/", validateBody(updateSchema), async (req: Request, res: Response,
 
       await db.insert(userInventoryItems).values({
         userId,
+        householdId: scope.householdId,
         itemId: dataIdStr,
         name: data.name,
         barcode: data.barcode,
@@ -362,12 +392,14 @@ router.put("/", validateBody(updateSchema), async (req: Request, res: Response,
         imageUri: data.imageUri,
         fdcId: data.fdcId,
         servingSize: data.servingSize,
+        lots: data.lots ?? null,
+        recipeId: data.recipeId ?? null,
         updatedAt: new Date(),
         deletedAt: data.deletedAt ? new Date(data.deletedAt) : null,
       });
     }
 
-    await updateSectionTimestamp(userId, "inventory");
+    await updateScopeTimestamp(scope, "inventory");
 
     res.json(successResponse({
       syncedAt: new Date().toISOString(),
@@ -386,14 +418,17 @@ router.delete("/", validateBody(deleteSchema), async (req: Request, res: Respons
       throw AppError.unauthorized("Authentication required", "UNAUTHORIZED");
     }
 
+    const scope = await resolveSyncScope(userId, "write");
+
     const { data } = req.body;
     const dataIdStr = String(data.id);
 
     await db.delete(userInventoryItems).where(
-      and(eq(userInventoryItems.userId, userId), eq(userInventoryItems.itemId, dataIdStr))
+      and(scopeFilter(userInventoryItems, scope), eq(userInventoryItems.itemId, dataIdStr))
     );
+    await recordTombstones([{ userId, householdId: scope.householdId, dataType: "inventory", itemId: dataIdStr }]);
 
-    await updateSectionTimestamp(userId, "inventory");
+    await updateScopeTimestamp(scope, "inventory");
 
     res.json(successResponse({
       syncedAt: new Date().toISOString(),
@@ -2,14 +2,16 @@ import { Router, Request, Response, NextFunction } from "express";
 import { z } from "zod";
 import { eq, and } from "drizzle-orm";
 import { db } from "../../db";
-import { userMealPlans } from "@shared/schema";
+import { userMealPlans, userSyncKV } from "@shared/schema";
+import { mealSlotTemplatesSchema, type MealSlotTemplates } from "@shared/meal-plan";
 import { AppError } from "../../middleware/errorHandler";
 import { validateBody } from "../../middleware/validateBody";
 import { successResponse } from "../../lib/apiResponse";
 import {
-  updateSectionTimestamp,
+  resolveSyncScope, scopeFilter, updateScopeTimestamp,
   extractExtraData, mealPlanKnownKeys,
   mealPlanSchema, mealPlanSyncRequestSchema,
+  nextSyncRevision, recordTombstones,
 } from "./sync-helpers";
 
 const router = Router();
@@ -23,6 +25,69 @@ const deleteSchema = z.object({
   data: z.object({ id: z.union([z.string(), z.number()]) }),
 });
 
+/** userSyncKV section holding the user's custom meal slot templates. */
+const TEMPLATES_SECTION = "mealSlotTemplates";
+
+async function loadTemplates(userId: string): Promise<MealSlotTemplates> {
+  const [row] = await db
+    .select({ data: userSyncKV.data, updatedAt: userSyncKV.updatedAt })
+    .from(userSyncKV)
+    .where(and(eq(userSyncKV.userId, userId), eq(userSyncKV.section, TEMPLATES_SECTION)))
+    .limit(1);
+  const parsed = mealSlotTemplatesSchema.safeParse(row?.data ?? { templates: [] });
+  return {
+    templates: parsed.success ? parsed.data.templates : [],
+    updatedAt: row?.updatedAt?.toISOString(),
+  };
+}
+
+router.get("/templates", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      throw AppError.unauthorized("Authentication required", "UNAUTHORIZED");
+    }
+
+    res.json(successResponse(await loadTemplates(userId)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * Replaces the user's custom slot templates. Templates are per user even in a
+ * household, and the newest write wins: a save older than the stored one is
+ * skipped and the stored templates are returned instead.
+ */
+router.put("/templates", validateBody(mealSlotTemplatesSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId;
+    if (!userId) {
+      throw AppError.unauthorized("Authentication required", "UNAUTHORIZED");
+    }
+
+    const { templates, updatedAt } = req.body as MealSlotTemplates;
+    const existing = await loadTemplates(userId);
+    if (updatedAt && existing.updatedAt && new Date(updatedAt).getTime() < new Date(existing.updatedAt).getTime()) {
+      res.json(successResponse({ ...existing, operation: "skipped", reason: "stale_update" }));
+      return;
+    }
+
+    const savedAt = new Date();
+    await db
+      .insert(userSyncKV)
+      .values({ userId, section: TEMPLATES_SECTION, data: { templates }, updatedAt: savedAt })
+      .onConflictDoUpdate({
+        target: [userSyncKV.userId, userSyncKV.section],
+        set: { data: { templates }, updatedAt: savedAt },
+      });
+
+    res.json(successResponse({ templates, updatedAt: savedAt.toISOString(), operation: "update" }));
+  } catch (error) {
+    next(error);
+  }
+});
+
 router.post("/", validateBody(mealPlanSyncRequestSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const userId = req.userId;
@@ -30,6 +95,8 @@ router.post("/", validateBody(mealPlanSyncRequestSchema), async (req: Request, r
       throw AppError.unauthorized("Authentication required", "UNAUTHORIZED");
     }
 
+    const scope = await resolveSyncScope(userId, "write");
+
     const { operation, data } = req.body;
     const dataIdStr = String(data.id);
     const extraData = extractExtraData(data as Record<string, unknown>, mealPlanKnownKeys);
@@ -37,6 +104,7 @@ router.post("/", validateBody(mealPlanSyncRequestSchema), async (req: Request, r
     if (operation === "create") {
       await db.insert(userMealPlans).values({
         userId,
+        householdId: scope.householdId,
         itemId: dataIdStr,
         date: data.date,
         meals: data.meals,
@@ -49,11 +117,12 @@ router.post("/", validateBody(mealPlanSyncRequestSchema), async (req: Request, r
           meals: data.meals,
           extraData,
           updatedAt: new Date(),
+          revision: nextSyncRevision(),
         },
       });
     } else if (operation === "update") {
       const existingRows = await db.select().from(userMealPlans).where(
-        and(eq(userMealPlans.userId, userId), eq(userMealPlans.itemId, dataIdStr))
+        and(scopeFilter(userMealPlans, scope), eq(userMealPlans.itemId, dataIdStr))
       );
 
       if (existingRows.length > 0) {
@@ -62,7 +131,7 @@ router.post("/", validateBody(mealPlanSyncRequestSchema), async (req: Request, r
           const incomingTime = new Date(data.updatedAt).getTime();
           const existingTime = new Date(existing.updatedAt).getTime();
           if (incomingTime <= existingTime) {
-            await updateSectionTimestamp(userId, "mealPlans");
+            await updateScopeTimestamp(scope, "mealPlans");
             res.json(successResponse({
               syncedAt: new Date().toISOString(),
               operation: "skipped",
@@ -84,10 +153,12 @@ router.post("/", validateBody(mealPlanSyncRequestSchema), async (req: Request, r
           meals: data.meals,
           extraData,
           updatedAt: new Date(),
-        }).where(and(eq(userMealPlans.userId, userId), eq(userMealPlans.itemId, dataIdStr)));
+          revision: nextSyncRevision(),
+        }).where(and(scopeFilter(userMealPlans, scope), eq(userMealPlans.itemId, dataIdStr)));
       } else {
         await db.insert(userMealPlans).values({
           userId,
+          householdId: scope.householdId,
           itemId: dataIdStr,
           date: data.date,
           meals: data.meals,
@@ -97,11 +168,12 @@ router.post("/", validateBody(mealPlanSyncRequestSchema), async (req: Request, r
       }
     } else if (operation === "delete") {
       await db.delete(userMealPlans).where(
-        and(eq(userMealPlans.userId, userId), eq(userMealPlans.itemId, dataIdStr))
+        and(scopeFilter(userMealPlans, scope), eq(userMealPlans.itemId, dataIdStr))
       );
+      await recordTombstones([{ userId, householdId: scope.householdId, dataType: "mealPlans", itemId: dataIdStr }]);
     }
 
-    await updateSectionTimestamp(userId, "mealPlans");
+    await updateScopeTimestamp(scope, "mealPlans");
 
     res.json(successResponse({
       syncedAt: new Date().toISOString(),
@@ -120,12 +192,14 @@ router.put("/", validateBody(updateSchema), async (req: Request, res: Response,
       throw AppError.unauthorized("Authentication required", "UNAUTHORIZED");
     }
 
+    const scope = await resolveSyncScope(userId, "write");
+
     const { data, clientTimestamp } = req.body;
     const dataIdStr = String(data.id);
     const extraData = extractExtraData(data as Record<string, unknown>, mealPlanKnownKeys);
 
     const existingRows = await db.select().from(userMealPlans).where(
-      and(eq(userMealPlans.userId, userId), eq(userMealPlans.itemId, dataIdStr))
+      and(scopeFilter(userMealPlans, scope), eq(userMealPlans.itemId, dataIdStr))
     );
 
     if (existingRows.length > 0) {
@@ -156,12 +230,14 @@ router.put("/", validateBody(updateSchema), async (req: Request, res: Response,
         meals: data.meals,
         extraData,
         updatedAt: new Date(),
+        revision: nextSyncRevision(),
       }).where(
-        and(eq(userMealPlans.userId, userId), eq(userMealPlans.itemId, dataIdStr))
+        and(scopeFilter(userMealPlans, scope), eq(userMealPlans.itemId, dataIdStr))
       );
     } else {
       await db.insert(userMealPlans).values({
         userId,
+        householdId: scope.householdId,
         itemId: dataIdStr,
         date: data.date,
         meals: data.meals,
@@ -170,7 +246,7 @@ router.put("/", validateBody(updateSchema), async (req: Request, res: Response,
       });
     }
 
-    await updateSectionTimestamp(userId, "mealPlans");
+    await updateScopeTimestamp(scope, "mealPlans");
 
     res.json(successResponse({
       syncedAt: new Date().toISOString(),
@@ -189,14 +265,17 @@ router.delete("/", validateBody(deleteSchema), async (req: Request, res: Respons
       throw AppError.unauthorized("Authentication required", "UNAUTHORIZED");
     }
 
+    const scope = await resolveSyncScope(userId, "write");
+
     const { data } = req.body;
     const dataIdStr = String(data.id);
 
     await db.delete(userMealPlans).where(
-      and(eq(userMealPlans.userId, userId), eq(userMealPlans.itemId, dataIdStr))
+      and(scopeFilter(userMealPlans, scope), eq(userMealPlans.itemId, dataIdStr))
     );
+    await recordTombstones([{ userId, householdId: scope.householdId, dataType: "mealPlans", itemId: dataIdStr }]);
 
-    await updateSectionTimestamp(userId, "mealPlans");
+    await updateScopeTimestamp(scope, "mealPlans");
 
     res.json(successResponse({
       syncedAt: new Date().toISOString(),
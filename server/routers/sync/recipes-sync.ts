@@ -6,11 +6,16 @@ import { userSavedRecipes } from "@shared/schema";
 import { AppError } from "../../middleware/errorHandler";
 import { validateBody } from "../../middleware/validateBody";
 import { successResponse } from "../../lib/apiResponse";
+import { logger } from "../../lib/logger";
+import { snapshotFromRecipe } from "../../lib/recipe-revisions";
+import { recordRecipeRevision, deleteRecipeRevisions } from "../../services/recipeRevisionService";
+import { deleteRecipeCookLogs } from "../../services/recipeCookLogService";
 import {
   updateSectionTimestamp,
   extractExtraData, recipeKnownKeys,
   recipeSchema, recipeSyncRequestSchema,
   encodeCursor, decodeCursor, paginationQuerySchema,
+  nextSyncRevision, recordTombstones,
 } from "./sync-helpers";
 
 const router = Router();
@@ -20,6 +25,31 @@ function base64ToBuffer(data: string | null | undefined): Buffer | null {
   return Buffer.from(data, "base64");
 }
 
+type RecipeRow = typeof userSavedRecipes.$inferSelect;
+
+/**
+ * Adds the written content to the recipe's history. History is a side
+ * record, so a failure here is logged and never fails the sync write.
+ */
+async function recordRevision(
+  userId: string,
+  recipeId: string,
+  data: Parameters<typeof snapshotFromRecipe>[0],
+  existing?: RecipeRow,
+): Promise<void> {
+  try {
+    const previous = existing
+      ? snapshotFromRecipe({ ...existing, notes: (existing.extraData as Record<string, unknown> | null)?.notes })
+      : undefined;
+    await recordRecipeRevision(userId, recipeId, snapshotFromRecipe(data), previous);
+  } catch (error) {
+    logger.warn("Failed to record recipe revision", {
+      recipeId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
 const updateSchema = z.object({
   data: recipeSchema,
   clientTimestamp: z.string().optional(),
@@ -148,8 +178,10 @@ router.post("/", validateBody(recipeSyncRequestSchema), async (req: Request, res
           isFavorite: data.isFavorite,
           extraData,
           updatedAt: new Date(),
+          revision: nextSyncRevision(),
         },
       });
+      await recordRevision(userId, dataIdStr, data);
     } else if (operation === "update") {
       const existingRows = await db.select().from(userSavedRecipes).where(
         and(eq(userSavedRecipes.userId, userId), eq(userSavedRecipes.itemId, dataIdStr))
@@ -205,7 +237,9 @@ router.post("/", validateBody(recipeSyncRequestSchema), async (req: Request, res
           isFavorite: data.isFavorite,
           extraData,
           updatedAt: new Date(),
+          revision: nextSyncRevision(),
         }).where(and(eq(userSavedRecipes.userId, userId), eq(userSavedRecipes.itemId, dataIdStr)));
+        await recordRevision(userId, dataIdStr, data, existing);
       } else {
         await db.insert(userSavedRecipes).values({
           userId,
@@ -226,11 +260,15 @@ router.post("/", validateBody(recipeSyncRequestSchema), async (req: Request, res
           extraData,
           updatedAt: new Date(),
         });
+        await recordRevision(userId, dataIdStr, data);
       }
     } else if (operation === "delete") {
       await db.delete(userSavedRecipes).where(
         and(eq(userSavedRecipes.userId, userId), eq(userSavedRecipes.itemId, dataIdStr))
       );
+      await deleteRecipeRevisions(userId, dataIdStr);
+      await deleteRecipeCookLogs(userId, dataIdStr);
+      await recordTombstones([{ userId, householdId: null, dataType: "recipes", itemId: dataIdStr }]);
     }
 
     await updateSectionTimestamp(userId, "recipes");
@@ -310,9 +348,11 @@ router.put("/", validateBody(updateSchema), async (req: Request, res: Response,
         isFavorite: data.isFavorite,
         extraData,
         updatedAt: new Date(),
+        revision: nextSyncRevision(),
       }).where(
         and(eq(userSavedRecipes.userId, userId), eq(userSavedRecipes.itemId, dataIdStr))
       );
+      await recordRevision(userId, dataIdStr, data, existingItem);
     } else {
       await db.insert(userSavedRecipes).values({
         userId,
@@ -333,6 +373,7 @@ router.put("/", validateBody(updateSchema), async (req: Request, res: Response,
         extraData,
         updatedAt: new Date(),
       });
+      await recordRevision(userId, dataIdStr, data);
     }
 
     await updateSectionTimestamp(userId, "recipes");
@@ -360,6 +401,9 @@ router.delete("/", validateBody(deleteSchema), async (req: Request, res: Respons
     await db.delete(userSavedRecipes).where(
       and(eq(userSavedRecipes.userId, userId), eq(userSavedRecipes.itemId, dataIdStr))
     );
+    await deleteRecipeRevisions(userId, dataIdStr);
+    await deleteRecipeCookLogs(userId, dataIdStr);
+    await recordTombstones([{ userId, householdId: null, dataType: "recipes", itemId: dataIdStr }]);
 
     await updateSectionTimestamp(userId, "recipes");
 
@@ -7,10 +7,11 @@ import { AppError } from "../../middleware/errorHandler";
 import { validateBody } from "../../middleware/validateBody";
 import { successResponse } from "../../lib/apiResponse";
 import {
-  updateSectionTimestamp,
+  resolveSyncScope, scopeFilter, updateScopeTimestamp,
   extractExtraData, shoppingListKnownKeys,
   shoppingListItemSchema, shoppingListSyncRequestSchema,
   encodeCursor, decodeCursor, paginationQuerySchema,
+  nextSyncRevision, recordTombstones,
 } from "./sync-helpers";
 
 const router = Router();
@@ -31,6 +32,8 @@ router.get("/", async (req: Request, res: Response, next: NextFunction) => {
       throw AppError.unauthorized("Authentication required", "UNAUTHORIZED");
     }
 
+    const scope = await resolveSyncScope(userId, "read");
+
     const { limit, cursor } = paginationQuerySchema.parse(req.query);
 
     let cursorCondition = undefined;
@@ -48,7 +51,7 @@ router.get("/", async (req: Request, res: Response, next: NextFunction) => {
       );
     }
 
-    const conditions = [eq(userShoppingItems.userId, userId)];
+    const conditions = [scopeFilter(userShoppingItems, scope)];
     if (cursorCondition) {
       conditions.push(cursorCondition);
     }
@@ -95,6 +98,8 @@ router.post("/", validateBody(shoppingListSyncRequestSchema), async (req: Reques
       throw AppError.unauthorized("Authentication required", "UNAUTHORIZED");
     }
 
+    const scope = await resolveSyncScope(userId, "write");
+
     const { operation, data } = req.body;
     const dataIdStr = String(data.id);
     const extraData = extractExtraData(data as Record<string, unknown>, shoppingListKnownKeys);
@@ -102,6 +107,7 @@ router.post("/", validateBody(shoppingListSyncRequestSchema), async (req: Reques
     if (operation === "create") {
       await db.insert(userShoppingItems).values({
         userId,
+        householdId: scope.householdId,
         itemId: dataIdStr,
         name: data.name,
         quantity: data.quantity,
@@ -122,11 +128,12 @@ router.post("/", validateBody(shoppingListSyncRequestSchema), async (req: Reques
           recipeId: data.recipeId,
           extraData,
           updatedAt: new Date(),
+          revision: nextSyncRevision(),
         },
       });
     } else if (operation === "update") {
       const existingRows = await db.select().from(userShoppingItems).where(
-        and(eq(userShoppingItems.userId, userId), eq(userShoppingItems.itemId, dataIdStr))
+        and(scopeFilter(userShoppingItems, scope), eq(userShoppingItems.itemId, dataIdStr))
       );
 
       if (existingRows.length > 0) {
@@ -135,7 +142,7 @@ router.post("/", validateBody(shoppingListSyncRequestSchema), async (req: Reques
           const incomingTime = new Date(data.updatedAt).getTime();
           const existingTime = new Date(existing.updatedAt).getTime();
           if (incomingTime <= existingTime) {
-            await updateSectionTimestamp(userId, "shoppingList");
+            await updateScopeTimestamp(scope, "shoppingList");
             res.json(successResponse({
               syncedAt: new Date().toISOString(),
               operation: "skipped",
@@ -165,10 +172,12 @@ router.post("/", validateBody(shoppingListSyncRequestSchema), async (req: Reques
           recipeId: data.recipeId,
           extraData,
           updatedAt: new Date(),
-        }).where(and(eq(userShoppingItems.userId, userId), eq(userShoppingItems.itemId, dataIdStr)));
+          revision: nextSyncRevision(),
+        }).where(and(scopeFilter(userShoppingItems, scope), eq(userShoppingItems.itemId, dataIdStr)));
       } else {
         await db.insert(userShoppingItems).values({
           userId,
+          householdId: scope.householdId,
           itemId: dataIdStr,
           name: data.name,
           quantity: data.quantity,
@@ -182,11 +191,12 @@ router.post("/", validateBody(shoppingListSyncRequestSchema), async (req: Reques
       }
     } else if (operation === "delete") {
       await db.delete(userShoppingItems).where(
-        and(eq(userShoppingItems.userId, userId), eq(userShoppingItems.itemId, dataIdStr))
+        and(scopeFilter(userShoppingItems, scope), eq(userShoppingItems.itemId, dataIdStr))
       );
+      await recordTombstones([{ userId, householdId: scope.householdId, dataType: "shoppingList", itemId: dataIdStr }]);
     }
 
-    await updateSectionTimestamp(userId, "shoppingList");
+    await updateScopeTimestamp(scope, "shoppingList");
 
     res.json(successResponse({
       syncedAt: new Date().toISOString(),
@@ -205,12 +215,14 @@ router.put("/", validateBody(updateSchema), async (req: Request, res: Response,
       throw AppError.unauthorized("Authentication required", "UNAUTHORIZED");
     }
 
+    const scope = await resolveSyncScope(userId, "write");
+
     const { data, clientTimestamp } = req.body;
     const dataIdStr = String(data.id);
     const extraData = extractExtraData(data as Record<string, unknown>, shoppingListKnownKeys);
 
     const existingRows = await db.select().from(userShoppingItems).where(
-      and(eq(userShoppingItems.userId, userId), eq(userShoppingItems.itemId, dataIdStr))
+      and(scopeFilter(userShoppingItems, scope), eq(userShoppingItems.itemId, dataIdStr))
     );
 
     if (existingRows.length > 0) {
@@ -249,12 +261,14 @@ router.put("/", validateBody(updateSchema), async (req: Request, res: Response,
         recipeId: data.recipeId,
         extraData,
         updatedAt: new Date(),
+        revision: nextSyncRevision(),
       }).where(
-        and(eq(userShoppingItems.userId, userId), eq(userShoppingItems.itemId, dataIdStr))
+        and(scopeFilter(userShoppingItems, scope), eq(userShoppingItems.itemId, dataIdStr))
       );
     } else {
       await db.insert(userShoppingItems).values({
         userId,
+        householdId: scope.householdId,
         itemId: dataIdStr,
         name: data.name,
         quantity: data.quantity,
@@ -267,7 +281,7 @@ router.put("/", validateBody(updateSchema), async (req: Request, res: Response,
       });
     }
 
-    await updateSectionTimestamp(userId, "shoppingList");
+    await updateScopeTimestamp(scope, "shoppingList");
 
     res.json(successResponse({
       syncedAt: new Date().toISOString(),
@@ -286,14 +300,17 @@ router.delete("/", validateBody(deleteSchema), async (req: Request, res: Respons
       throw AppError.unauthorized("Authentication required", "UNAUTHORIZED");
     }
 
+    const scope = await resolveSyncScope(userId, "write");
+
     const { data } = req.body;
     const dataIdStr = String(data.id);
 
     await db.delete(userShoppingItems).where(
-      and(eq(userShoppingItems.userId, userId), eq(userShoppingItems.itemId, dataIdStr))
+      and(scopeFilter(userShoppingItems, scope), eq(userShoppingItems.itemId, dataIdStr))
     );
+    await recordTombstones([{ userId, householdId: scope.householdId, dataType: "shoppingList", itemId: dataIdStr }]);
 
-    await updateSectionTimestamp(userId, "shoppingList");
+    await updateScopeTimestamp(scope, "shoppingList");
 
     res.json(successResponse({
       syncedAt: new Date().toISOString(),
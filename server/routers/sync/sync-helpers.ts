@@ -1,15 +1,20 @@
-import { eq } from "drizzle-orm";
+import { eq, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import { z } from "zod";
 import { db } from "../../db";
 import {
-  userSessions, userSyncData,
+  userSessions, userSyncData, householdMembers, syncTombstones,
   insertUserInventoryItemSchema, insertUserSavedRecipeSchema,
   insertUserMealPlanSchema, insertUserShoppingItemSchema,
   insertUserCookwareItemSchema,
-  syncNutritionSchema, syncIngredientSchema, syncMealSchema,
+  syncNutritionSchema, syncIngredientSchema,
 } from "@shared/schema";
 import { Request } from "express";
 import { hashToken } from "../../lib/auth-utils";
+import { AppError } from "../../middleware/errorHandler";
+import { getHouseholdMembership, canWriteHouseholdData } from "../../domain/services/PermissionService";
+import type { HouseholdRole } from "@shared/domain/entities";
+import { planMealsSchema } from "@shared/meal-plan";
 
 export interface SyncFailureRecord {
   dataType: string;
@@ -34,7 +39,7 @@ export function recordSyncFailure(userId: string, dataType: string, operation: s
 export const syncOperationSchema = z.enum(["create", "update", "delete"]);
 
 export const inventoryItemSchema = insertUserInventoryItemSchema
-  .omit({ userId: true, itemId: true })
+  .omit({ userId: true, householdId: true, itemId: true })
   .extend({
     id: z.union([z.string(), z.number()]),
     nutrition: syncNutritionSchema,
@@ -59,10 +64,10 @@ export const recipeSchema = insertUserSavedRecipeSchema
   .passthrough();
 
 export const mealPlanSchema = insertUserMealPlanSchema
-  .omit({ userId: true, itemId: true, extraData: true })
+  .omit({ userId: true, householdId: true, itemId: true, extraData: true })
   .extend({
     id: z.union([z.string(), z.number()]),
-    meals: z.array(syncMealSchema).optional().nullable(),
+    meals: planMealsSchema.optional().nullable(),
     updatedAt: z.string().optional(),
   })
   .passthrough();
@@ -76,7 +81,7 @@ export const cookwareSchema = insertUserCookwareItemSchema
   .passthrough();
 
 export const shoppingListItemSchema = insertUserShoppingItemSchema
-  .omit({ userId: true, itemId: true, extraData: true })
+  .omit({ userId: true, householdId: true, itemId: true, extraData: true })
   .extend({
     id: z.union([z.string(), z.number()]),
     updatedAt: z.string().optional(),
@@ -168,6 +173,109 @@ export async function updateSectionTimestamp(userId: string, section: string) {
   }
 }
 
+/**
+ * Identifies whose rows a shared-section sync request reads and writes.
+ * Users in a household share inventory, shopping list and meal plans, so those
+ * sections are filtered by householdId instead of userId.
+ */
+export interface SyncScope {
+  userId: string;
+  householdId: string | null;
+  role: HouseholdRole | null;
+}
+
+export async function resolveSyncScope(userId: string, access: "read" | "write" = "read"): Promise<SyncScope> {
+  const membership = await getHouseholdMembership(userId);
+  if (!membership) {
+    return { userId, householdId: null, role: null };
+  }
+
+  if (access === "write" && !canWriteHouseholdData(membership.role)) {
+    throw AppError.forbidden("Viewers cannot modify shared household data", "HOUSEHOLD_READ_ONLY");
+  }
+
+  return { userId, householdId: membership.householdId, role: membership.role };
+}
+
+export function scopeFilter(
+  table: { userId: AnyPgColumn; householdId: AnyPgColumn },
+  scope: SyncScope,
+): SQL {
+  return scope.householdId
+    ? eq(table.householdId, scope.householdId)
+    : eq(table.userId, scope.userId);
+}
+
+export async function getScopeMemberIds(scope: SyncScope): Promise<string[]> {
+  if (!scope.householdId) {
+    return [scope.userId];
+  }
+  const members = await db
+    .select({ userId: householdMembers.userId })
+    .from(householdMembers)
+    .where(eq(householdMembers.householdId, scope.householdId));
+  return members.map((m) => m.userId);
+}
+
+/**
+ * Bumps the section timestamp for every user who can see the scope's rows so
+ * their next delta sync picks up changes made by other household members.
+ */
+export async function updateScopeTimestamp(scope: SyncScope, section: string) {
+  const memberIds = await getScopeMemberIds(scope);
+  for (const memberId of memberIds) {
+    await updateSectionTimestamp(memberId, section);
+  }
+}
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/** Takes the next value of sync_revision_seq; use in `.set()` when updating a synced row. */
+export function nextSyncRevision(): SQL {
+  return sql`nextval('sync_revision_seq')`;
+}
+
+export interface TombstoneEntry {
+  userId: string;
+  householdId: string | null;
+  dataType: string;
+  itemId: string;
+}
+
+/** Records hard deletes so other devices drop the rows on their next delta pull. */
+export async function recordTombstones(entries: TombstoneEntry[], executor: DbExecutor = db) {
+  if (entries.length === 0) return;
+  await executor.insert(syncTombstones).values(entries);
+}
+
+/**
+ * Tombstones the rows removed by a delete-and-reinsert bulk replace that were
+ * not written back.
+ */
+export async function recordReplacedTombstones(
+  removed: { itemId: string; householdId?: string | null }[],
+  keptIds: Iterable<string>,
+  owner: { userId: string; dataType: string },
+  executor: DbExecutor = db,
+) {
+  const kept = new Set(keptIds);
+  await recordTombstones(
+    removed
+      .filter((row) => !kept.has(row.itemId))
+      .map((row) => ({ userId: owner.userId, householdId: row.householdId ?? null, dataType: owner.dataType, itemId: row.itemId })),
+    executor,
+  );
+}
+
+/**
+ * Maps each replaced row's itemId to the member who owns it, so a full
+ * replace of a shared section reinserts rows under their original owner
+ * rather than whoever pushed.
+ */
+export function rowOwners(rows: { itemId: string; userId: string }[]): Map<string, string> {
+  return new Map(rows.map((row) => [row.itemId, row.userId]));
+}
+
 export const recipeKnownKeys = new Set(["id", "title", "description", "ingredients", "instructions", "prepTime", "cookTime", "servings", "imageUri", "cloudImageUri", "imageData", "thumbnailData", "nutrition", "isFavorite", "updatedAt"]);
 export const mealPlanKnownKeys = new Set(["id", "date", "meals", "updatedAt"]);
 export const shoppingListKnownKeys = new Set(["id", "name", "quantity", "unit", "isChecked", "category", "recipeId", "updatedAt"]);
@@ -0,0 +1,71 @@
+import { Router, type Request, type Response, type NextFunction } from "express";
+import { z } from "zod";
+import { AppError } from "../../middleware/errorHandler";
+import { successResponse } from "../../lib/apiResponse";
+import { validateBody } from "../../middleware/validateBody";
+import { isMonthKey } from "../../lib/grocery-budget";
+import {
+  getBudgetSummary,
+  setMonthlyBudget,
+  getSpendHistory,
+} from "../../services/groceryBudgetService";
+
+const router = Router();
+
+const MAX_HISTORY_MONTHS = 24;
+
+const setBudgetSchema = z.object({
+  amount: z.number().positive().max(1_000_000),
+  categoryBudgets: z.record(z.string().trim().min(1), z.number().nonnegative()).nullish(),
+});
+
+function parseMonth(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || !isMonthKey(value)) {
+    throw AppError.badRequest("Month must be YYYY-MM", "INVALID_MONTH");
+  }
+  return value;
+}
+
+router.get("/", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const summary = await getBudgetSummary(req.userId, parseMonth(req.query.month));
+    res.json(successResponse(summary));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/history", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const months = Math.min(Math.max(parseInt(req.query.months as string) || 6, 1), MAX_HISTORY_MONTHS);
+    const history = await getSpendHistory(req.userId, months);
+    res.json(successResponse({ months: history }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.put("/:month", validateBody(setBudgetSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const month = parseMonth(req.params.month)!;
+    const summary = await setMonthlyBudget(req.userId, month, req.body);
+    res.json(successResponse(summary));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -115,6 +115,7 @@ router.get("/", async (req: Request, res: Response, next: NextFunction) => {
         notifyRecipeSuggestions: user.notifyRecipeSuggestions,
         notifyMealReminders: user.notifyMealReminders,
         notificationTime: user.notificationTime,
+        timezone: user.timezone,
         isAdmin: user.isAdmin,
         primaryProvider: user.primaryProvider,
         subscriptionTier: user.subscriptionTier,
@@ -210,6 +211,7 @@ router.get("/", async (req: Request, res: Response, next: NextFunction) => {
         notes: item.notes,
         imageUri: item.imageUri,
         fdcId: item.fdcId,
+        recipeId: item.recipeId,
         addedAt: item.addedAt,
         updatedAt: item.updatedAt,
         deletedAt: item.deletedAt,
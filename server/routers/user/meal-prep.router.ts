@@ -0,0 +1,31 @@
+import { Router, type Request, type Response, type NextFunction } from "express";
+import { z } from "zod";
+import { AppError } from "../../middleware/errorHandler";
+import { successResponse } from "../../lib/apiResponse";
+import { validateBody } from "../../middleware/validateBody";
+import { planMealPrep } from "../../services/mealPrepService";
+
+const router = Router();
+
+const planDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const mealPrepPlanSchema = z.object({
+  weekStart: planDateSchema,
+  prepDate: planDateSchema.optional(),
+  recipeIds: z.array(z.string().min(1)).max(50).optional(),
+});
+
+router.post("/plan", validateBody(mealPrepPlanSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const plan = await planMealPrep(req.userId, req.body);
+    res.json(successResponse(plan));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
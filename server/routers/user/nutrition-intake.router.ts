@@ -0,0 +1,64 @@
+import { Router, type Request, type Response, type NextFunction } from "express";
+import { AppError } from "../../middleware/errorHandler";
+import { successResponse } from "../../lib/apiResponse";
+import {
+  getDailyIntake,
+  getIntakeTrend,
+  todayFor,
+} from "../../services/nutritionIntakeService";
+
+const router = Router();
+
+const DEFAULT_TREND_DAYS = 7;
+const MAX_TREND_DAYS = 90;
+
+/** Client UTC offset in minutes (Date#getTimezoneOffset); defaults to UTC. */
+function parseTimezoneOffset(value: unknown): number {
+  if (value === undefined) return 0;
+  const offset = Number(value);
+  if (!Number.isInteger(offset) || Math.abs(offset) > 14 * 60) {
+    throw AppError.badRequest("tzOffset must be a whole number of minutes", "INVALID_TIMEZONE_OFFSET");
+  }
+  return offset;
+}
+
+function parseDate(value: unknown, timezoneOffset: number): string {
+  if (value === undefined) return todayFor(timezoneOffset);
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) {
+    throw AppError.badRequest("Date must be YYYY-MM-DD", "INVALID_DATE");
+  }
+  return value;
+}
+
+router.get("/", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const timezoneOffset = parseTimezoneOffset(req.query.tzOffset);
+    const date = parseDate(req.query.date, timezoneOffset);
+    const intake = await getDailyIntake(req.userId, date, timezoneOffset);
+    res.json(successResponse(intake));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/trend", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const timezoneOffset = parseTimezoneOffset(req.query.tzOffset);
+    const endDate = parseDate(req.query.end, timezoneOffset);
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || DEFAULT_TREND_DAYS, 1), MAX_TREND_DAYS);
+    const trend = await getIntakeTrend(req.userId, endDate, days, timezoneOffset);
+    res.json(successResponse(trend));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
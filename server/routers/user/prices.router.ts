@@ -0,0 +1,70 @@
+import { Router, type Request, type Response, type NextFunction } from "express";
+import { z } from "zod";
+import { AppError } from "../../middleware/errorHandler";
+import { successResponse } from "../../lib/apiResponse";
+import { validateBody } from "../../middleware/validateBody";
+import {
+  listPriceSummaries,
+  getItemPriceHistory,
+  estimateItemValues,
+} from "../../services/priceHistoryService";
+
+const router = Router();
+
+const estimateSchema = z.object({
+  items: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1),
+        quantity: z.number().positive(),
+        unit: z.string().nullish(),
+      }),
+    )
+    .max(500),
+});
+
+router.get("/", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const items = await listPriceSummaries(req.userId);
+    res.json(successResponse({ items }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/history", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const name = typeof req.query.name === "string" ? req.query.name.trim() : "";
+    if (!name) {
+      throw AppError.badRequest("Item name is required", "MISSING_ITEM_NAME");
+    }
+
+    const history = await getItemPriceHistory(req.userId, name);
+    res.json(successResponse(history));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/estimate", validateBody(estimateSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const result = await estimateItemValues(req.userId, req.body.items);
+    res.json(successResponse(result));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router, type Request, type Response, type NextFunction } from "express";
 import OpenAI from "openai";
+import { z } from "zod";
 import { eq, and } from "drizzle-orm";
 import {
   checkAiRecipeLimit,
@@ -19,12 +20,30 @@ import {
   recipeScanRequestSchema,
   organizeInventory,
   buildSmartPrompt,
+  loadTasteProfile,
   buildOpenAIMessages,
   postProcessRecipe,
   generateRecipeImage,
   scanRecipeFromImage,
   type GeneratedRecipe,
 } from "../../services/recipeGenerationService";
+import {
+  previewRecipeCook,
+  cookRecipe,
+  undoRecipeCook,
+} from "../../services/recipeCookService";
+import { importRecipe } from "../../services/recipeImportService";
+import { planCookingTimeline } from "../../services/cookingTimelineService";
+import { scaleRecipeForUser } from "../../services/recipeScalingService";
+import { listRecipeRevisions, diffRecipeRevisions } from "../../services/recipeRevisionService";
+import {
+  listCookLog,
+  addCookLogEntry,
+  updateCookLogEntry,
+  deleteCookLogEntry,
+  getCookStats,
+} from "../../services/recipeCookLogService";
+import { searchSavedRecipes } from "../../services/recipeSearchService";
 
 export {
   type InventoryItem,
@@ -42,6 +61,75 @@ const openai = new OpenAI({
   apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY,
 });
 
+const cookRecipeSchema = z.object({
+  servings: z.number().positive().max(100).optional(),
+  leftovers: z.object({
+    servings: z.number().positive().max(100),
+    storageLocation: z.enum(["fridge", "freezer"]).optional(),
+  }).optional(),
+});
+
+const cookingTimelineSchema = z.object({
+  recipeIds: z.array(z.string().min(1)).min(1).max(4).refine(
+    (ids) => new Set(ids).size === ids.length,
+    "Recipes must be unique",
+  ),
+  serveAt: z.string().datetime(),
+});
+
+const scaleRecipeSchema = z.object({
+  ingredients: z.array(z.object({
+    name: z.string().max(200),
+    quantity: z.number().min(0),
+    unit: z.string().max(50),
+  })).max(100),
+  fromServings: z.number().positive().max(100),
+  toServings: z.number().positive().max(100),
+  units: z.enum(["imperial", "metric"]).optional(),
+  instructions: z.array(z.string().max(2000)).max(100).optional(),
+});
+
+const revisionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive(),
+});
+
+const cookLogEntrySchema = z.object({
+  cookedAt: z.string().datetime().optional(),
+  rating: z.number().int().min(1).max(5).nullable().optional(),
+  eaters: z.array(z.string().max(60)).max(20).optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  photoUri: z.string().max(2048).nullable().optional(),
+});
+
+/** Accepts `?tag=a&tag=b` as well as `?tag=a,b`. */
+const listParam = z.preprocess(
+  (value) => {
+    if (value === undefined) return undefined;
+    const values = Array.isArray(value) ? value : [value];
+    return values.flatMap((v) => String(v).split(",")).map((v) => v.trim()).filter(Boolean);
+  },
+  z.array(z.string().max(100)).max(50).optional(),
+);
+
+const recipeSearchQuerySchema = z.object({
+  q: z.string().max(200).optional(),
+  cuisine: listParam,
+  dietaryTags: listParam,
+  maxTotalTime: z.coerce.number().int().positive().max(24 * 60).optional(),
+  cookware: listParam,
+  canMakeNow: z.enum(["true", "false"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+const importRecipeSchema = z.object({
+  url: z.string().trim().url().max(2048).optional(),
+  html: z.string().max(3 * 1024 * 1024).optional(),
+}).refine((data) => data.url || data.html, {
+  message: "Provide a URL or page HTML",
+});
+
 router.post("/generate", validateBody(generateRecipeSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
     if (!req.userId) {
@@ -95,6 +183,7 @@ router.post("/generate", validateBody(generateRecipeSchema), async (req: Request
     }
 
     const effectiveMaxTime = quickRecipe ? 20 : maxTime;
+    const tasteProfile = await loadTasteProfile(req.userId);
 
     const prompt = buildSmartPrompt({
       expiringItems,
@@ -110,6 +199,7 @@ router.post("/generate", validateBody(generateRecipeSchema), async (req: Request
       macroTargets,
       previousRecipeTitles,
       ingredientCount,
+      tasteProfile,
     });
 
     if (process.env.NODE_ENV !== "production") {
@@ -211,6 +301,7 @@ router.post("/generate-stream", validateBody(generateRecipeSchema), async (req:
     }
 
     const effectiveMaxTime = quickRecipe ? 20 : maxTime;
+    const tasteProfile = await loadTasteProfile(req.userId);
 
     const prompt = buildSmartPrompt({
       expiringItems,
@@ -226,6 +317,7 @@ router.post("/generate-stream", validateBody(generateRecipeSchema), async (req:
       macroTargets,
       previousRecipeTitles,
       ingredientCount,
+      tasteProfile,
     });
 
     if (process.env.NODE_ENV !== "production") {
@@ -393,6 +485,7 @@ router.post("/scan", async (req: Request, res: Response, next: NextFunction) =>
       title: result.title,
       description: result.description,
       ingredients: result.ingredients,
+      parsedIngredients: result.parsedIngredients,
       instructions: result.instructions,
       prepTime: result.prepTime,
       cookTime: result.cookTime,
@@ -404,6 +497,42 @@ router.post("/scan", async (req: Request, res: Response, next: NextFunction) =>
   }
 });
 
+router.post("/import", validateBody(importRecipeSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const recipe = await importRecipe(req.userId, req.body);
+    res.status(201).json(successResponse(recipe));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/search", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const query = recipeSearchQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      throw AppError.badRequest("Invalid search", "VALIDATION_ERROR").withDetails({ errors: query.error.errors });
+    }
+
+    const { cuisine, canMakeNow, ...params } = query.data;
+    const result = await searchSavedRecipes(req.userId, {
+      ...params,
+      cuisines: cuisine,
+      canMakeNow: canMakeNow === "true",
+    });
+    res.json(successResponse(result));
+  } catch (error) {
+    next(error);
+  }
+});
+
 router.get("/image/:recipeId", async (req: Request, res: Response, next: NextFunction) => {
   try {
     if (!req.userId) {
@@ -464,4 +593,165 @@ router.get("/image/:recipeId/thumbnail", async (req: Request, res: Response, nex
   }
 });
 
+router.post("/timeline", validateBody(cookingTimelineSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const timeline = await planCookingTimeline(req.userId, req.body.recipeIds, new Date(req.body.serveAt));
+    res.json(successResponse(timeline));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/scale", validateBody(scaleRecipeSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const result = await scaleRecipeForUser(req.userId, req.body);
+    res.json(successResponse(result));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/cook/:cookId/undo", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const result = await undoRecipeCook(req.userId, req.params.cookId);
+    res.json(successResponse(result, `Restored ingredients for ${result.recipeTitle}`));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/:recipeId/revisions", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const revisions = await listRecipeRevisions(req.userId, req.params.recipeId);
+    res.json(successResponse({ revisions }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/:recipeId/revisions/diff", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const query = revisionDiffQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      throw AppError.badRequest("Choose two versions to compare", "INVALID_REVISION_RANGE");
+    }
+
+    const result = await diffRecipeRevisions(req.userId, req.params.recipeId, query.data.from, query.data.to);
+    res.json(successResponse(result));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/cook-log/stats", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const stats = await getCookStats(req.userId);
+    res.json(successResponse({ stats }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get("/:recipeId/cook-log", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const result = await listCookLog(req.userId, req.params.recipeId);
+    res.json(successResponse(result));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/:recipeId/cook-log", validateBody(cookLogEntrySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const entry = await addCookLogEntry(req.userId, req.params.recipeId, req.body);
+    res.status(201).json(successResponse(entry, "Cook logged"));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.patch("/:recipeId/cook-log/:entryId", validateBody(cookLogEntrySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const entry = await updateCookLogEntry(req.userId, req.params.recipeId, req.params.entryId, req.body);
+    res.json(successResponse(entry));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete("/:recipeId/cook-log/:entryId", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    await deleteCookLogEntry(req.userId, req.params.recipeId, req.params.entryId);
+    res.json(successResponse({ message: "Cook log entry deleted" }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/:recipeId/cook/preview", validateBody(cookRecipeSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const preview = await previewRecipeCook(req.userId, req.params.recipeId, req.body.servings);
+    res.json(successResponse(preview));
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post("/:recipeId/cook", validateBody(cookRecipeSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const result = await cookRecipe(req.userId, req.params.recipeId, req.body.servings, req.body.leftovers);
+    res.status(201).json(successResponse(result, `Marked ${result.recipeTitle} as cooked`));
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
@@ -0,0 +1,31 @@
+import { Router, type Request, type Response, type NextFunction } from "express";
+import { z } from "zod";
+import { AppError } from "../../middleware/errorHandler";
+import { successResponse } from "../../lib/apiResponse";
+import { validateBody } from "../../middleware/validateBody";
+import { generateShoppingListFromMealPlan } from "../../services/shoppingListGenerationService";
+
+const router = Router();
+
+const planDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const generateFromMealPlanSchema = z.object({
+  startDate: planDateSchema,
+  endDate: planDateSchema,
+  replaceExisting: z.boolean().optional(),
+});
+
+router.post("/generate", validateBody(generateFromMealPlanSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.userId) {
+      throw AppError.unauthorized("Authentication required");
+    }
+
+    const result = await generateShoppingListFromMealPlan(req.userId, req.body);
+    res.status(201).json(successResponse(result));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,45 @@
+import { Router, Request, Response } from "express";
+
+/**
+ * Domain association files that let the native apps use passkeys (and
+ * universal links) for this domain. Each file is only served when the
+ * signing identity it needs is configured:
+ * - APPLE_TEAM_ID: Apple developer team ID
+ * - ANDROID_CERT_FINGERPRINTS: comma-separated SHA-256 signing cert fingerprints
+ */
+
+const IOS_BUNDLE_ID = "com.chefspaice.chefspaice";
+const ANDROID_PACKAGE = "com.chefspaice.chefspaice.app";
+
+const router = Router();
+
+router.get("/apple-app-site-association", (_req: Request, res: Response) => {
+  const teamId = process.env.APPLE_TEAM_ID;
+  if (!teamId) {
+    return res.status(404).end();
+  }
+
+  res.json({
+    webcredentials: { apps: [`${teamId}.${IOS_BUNDLE_ID}`] },
+  });
+});
+
+router.get("/assetlinks.json", (_req: Request, res: Response) => {
+  const fingerprints = process.env.ANDROID_CERT_FINGERPRINTS?.split(",").map((f) => f.trim()).filter(Boolean) ?? [];
+  if (fingerprints.length === 0) {
+    return res.status(404).end();
+  }
+
+  res.json([
+    {
+      relation: ["delegate_permission/common.get_login_creds", "delegate_permission/common.handle_all_urls"],
+      target: {
+        namespace: "android_app",
+        package_name: ANDROID_PACKAGE,
+        sha256_cert_fingerprints: fingerprints,
+      },
+    },
+  ]);
+});
+
+export default router;
@@ -12,6 +12,7 @@
  * - /api/feedback - User feedback collection
  * - /api/cooking-terms - Cooking terminology definitions
  * - /api/appliances - Kitchen appliance catalog
+ * - /api/email - Email unsubscribe links and preferences
  * 
  * ADMIN ROUTES (admin auth required):
  * - /api/admin/subscriptions/* - Subscription management
@@ -20,7 +21,9 @@
  * - /api/suggestions - AI-powered recipe suggestions
  * - /api/recipes - Recipe CRUD and AI generation
  * - /api/nutrition - Nutrition data lookup
+ * - /api/nutrition/intake - Daily intake totals and trends vs. nutrition goals
  * - /api/user/appliances - User's kitchen equipment
+ * - /api/meal-prep - Batch-cooking prep timeline for the week's meal plan
  * - /api/voice - Voice command processing
  * - /api/ai - Image analysis for food recognition
  * - /api/ingredients - Ingredient parsing and management
@@ -39,7 +42,12 @@ import { createServer, type Server } from "node:http";
 import { eq } from "drizzle-orm";
 import suggestionsRouter from "./routers/user/suggestions.router";
 import recipesRouter from "./routers/user/recipes.router";
+import shoppingListRouter from "./routers/user/shopping-list.router";
+import mealPrepRouter from "./routers/user/meal-prep.router";
+import pricesRouter from "./routers/user/prices.router";
+import budgetRouter from "./routers/user/budget.router";
 import nutritionRouter from "./routers/user/nutrition.router";
+import nutritionIntakeRouter from "./routers/user/nutrition-intake.router";
 import cookingTermsRouter from "./routers/user/cooking-terms.router";
 import {
   appliancesRouter,
@@ -70,6 +78,9 @@ import pushTokenRouter from "./routers/push-token.router";
 import analyticsWasteRouter from "./routers/analytics.router";
 import nutritionLookupRouter from "./routers/nutrition-lookup.router";
 import errorReportRouter from "./routers/error-report.router";
+import householdRouter from "./routers/household.router";
+import emailRouter from "./routers/email.router";
+import wellKnownRouter from "./routers/well-known.router";
 import { db, checkPoolHealth } from "./db";
 import { getRedisClient } from "./lib/cache";
 import { users, userSessions } from "@shared/schema";
@@ -199,12 +210,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }));
   }));
 
+  // =========================================================================
+  // DOMAIN ASSOCIATION - Lets the native apps use passkeys for this domain
+  // =========================================================================
+  app.use("/.well-known", wellKnownRouter);
+
   // =========================================================================
   // RATE LIMITING - Applied to all /api/* routes as baseline protection
   // =========================================================================
   app.use("/api", generalLimiter);
   app.use("/api/auth/login", authLimiter);
   app.use("/api/auth/register", authLimiter);
+  app.use("/api/auth/social", authLimiter);
+  app.use("/api/auth/passkeys/login", authLimiter);
   app.use("/api/chat", aiLimiter);
   app.use("/api/suggestions", aiLimiter);
   app.use("/api/recipes/generate", aiLimiter);
@@ -224,6 +242,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use("/api/external", externalApiRouter); // External API for Siri Shortcuts integration
   app.use("/api/referral", referralRouter); // Referral system
   app.use("/api/error-report", errorReportRouter); // Client-side crash reports
+  app.use("/api/email", emailRouter); // Unsubscribe links (preferences need auth)
 
   // =========================================================================
   // ADMIN ROUTES - Require admin authentication
@@ -245,7 +264,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.use("/api/suggestions", requireAuth, requireSubscription, suggestionsRouter);
   app.use("/api/recipes", requireAuth, requireSubscription, recipesRouter);
+  app.use("/api/shopping-list", requireAuth, requireSubscription, shoppingListRouter);
+  app.use("/api/meal-prep", requireAuth, requireSubscription, mealPrepRouter);
+  app.use("/api/prices", requireAuth, requireSubscription, pricesRouter);
+  app.use("/api/budget", requireAuth, requireSubscription, budgetRouter);
   app.use("/api/nutrition/lookup", requireAuth, nutritionLookupRouter);
+  app.use("/api/nutrition/intake", requireAuth, requireSubscription, nutritionIntakeRouter);
   app.use("/api/nutrition", requireAuth, requireSubscription, nutritionRouter);
   app.use("/api/user/appliances", requireAuth, requireSubscription, userAppliancesRouter);
   app.use("/api/voice", requireAuth, requireSubscription, voiceRouter);
@@ -253,6 +277,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use("/api/receipt", requireAuth, requireSubscription, receiptAnalysisRouter);
   app.use("/api/ingredients", requireAuth, requireSubscription, ingredientsRouter);
   app.use("/api/sync", requireAuth, requireSubscription, syncRouter);
+  app.use("/api/household", requireAuth, requireSubscription, householdRouter);
 
   // =========================================================================
   // FEATURE ROUTERS - Extracted to dedicated modules
@@ -399,7 +399,7 @@ async function seedDemoAccount() {
         userId,
         itemId: meal.id,
         date: meal.date,
-        meals: [{ type: meal.mealType, recipeId: meal.recipeId, customMeal: meal.recipeTitle }],
+        meals: { [meal.mealType]: { type: "recipe", recipeId: meal.recipeId } },
       }).onConflictDoNothing();
     }
     logger.info("Inserted meal plans into normalized table", { count: sampleMealPlan.meals.length });
@@ -0,0 +1,218 @@
+import { randomBytes, createHash } from "crypto";
+import { and, count, desc, eq } from "drizzle-orm";
+import { db } from "../db";
+import { apiKeyRequestLogs, apiKeys, type ApiKey } from "@shared/schema";
+import {
+  API_KEY_PREFIX,
+  MAX_API_KEYS_PER_USER,
+  apiKeyDisplayPrefix,
+  isApiKeyExpired,
+  type ApiKeyScope,
+} from "@shared/api-keys";
+import { AppError } from "../middleware/errorHandler";
+import { logger } from "../lib/logger";
+
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  rateLimitPerMinute: number;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string | null;
+  isExpired: boolean;
+}
+
+export interface CreatedApiKey {
+  /** The full key. Only returned here; the server keeps its hash. */
+  apiKey: string;
+  key: ApiKeyInfo;
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+  expiresInDays?: number | null;
+}
+
+export interface UpdateApiKeyInput {
+  name?: string;
+  scopes?: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+}
+
+export interface ApiKeyRequestEntry {
+  id: string;
+  action: string | null;
+  statusCode: number;
+  ipAddress: string | null;
+  createdAt: string;
+}
+
+export interface ApiKeyRequest {
+  action: string | null;
+  statusCode: number;
+  ipAddress: string | null;
+}
+
+function hashApiKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
+function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${randomBytes(32).toString("hex")}`;
+}
+
+function toInfo(row: ApiKey): ApiKeyInfo {
+  return {
+    id: row.id,
+    name: row.name,
+    keyPrefix: row.keyPrefix,
+    scopes: row.scopes,
+    rateLimitPerMinute: row.rateLimitPerMinute,
+    expiresAt: row.expiresAt?.toISOString() ?? null,
+    lastUsedAt: row.lastUsedAt?.toISOString() ?? null,
+    createdAt: row.createdAt?.toISOString() ?? null,
+    isExpired: isApiKeyExpired(row.expiresAt),
+  };
+}
+
+async function findOwnedKey(userId: string, keyId: string): Promise<ApiKey> {
+  const [row] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId)))
+    .limit(1);
+
+  if (!row) {
+    throw AppError.notFound("API key not found", "API_KEY_NOT_FOUND");
+  }
+  return row;
+}
+
+export async function listApiKeys(userId: string): Promise<ApiKeyInfo[]> {
+  const rows = await db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.userId, userId))
+    .orderBy(desc(apiKeys.createdAt));
+  return rows.map(toInfo);
+}
+
+export async function createApiKey(userId: string, input: CreateApiKeyInput): Promise<CreatedApiKey> {
+  const [{ value: total }] = await db
+    .select({ value: count() })
+    .from(apiKeys)
+    .where(eq(apiKeys.userId, userId));
+
+  if (total >= MAX_API_KEYS_PER_USER) {
+    throw AppError.conflict(
+      `You can have up to ${MAX_API_KEYS_PER_USER} API keys. Revoke one you no longer use first.`,
+      "API_KEY_LIMIT_REACHED",
+    );
+  }
+
+  const apiKey = generateApiKey();
+  const expiresAt = input.expiresInDays
+    ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  const [row] = await db
+    .insert(apiKeys)
+    .values({
+      userId,
+      name: input.name,
+      keyHash: hashApiKey(apiKey),
+      keyPrefix: apiKeyDisplayPrefix(apiKey),
+      scopes: input.scopes,
+      ...(input.rateLimitPerMinute !== undefined && { rateLimitPerMinute: input.rateLimitPerMinute }),
+      expiresAt,
+    })
+    .returning();
+
+  return { apiKey, key: toInfo(row) };
+}
+
+export async function updateApiKey(
+  userId: string,
+  keyId: string,
+  input: UpdateApiKeyInput,
+): Promise<ApiKeyInfo> {
+  await findOwnedKey(userId, keyId);
+
+  const [row] = await db
+    .update(apiKeys)
+    .set(input)
+    .where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId)))
+    .returning();
+  return toInfo(row);
+}
+
+export async function revokeApiKey(userId: string, keyId: string): Promise<void> {
+  await findOwnedKey(userId, keyId);
+  await db.delete(apiKeys).where(and(eq(apiKeys.id, keyId), eq(apiKeys.userId, userId)));
+}
+
+export async function getApiKeyLogs(
+  userId: string,
+  keyId: string,
+  limit = 50,
+): Promise<ApiKeyRequestEntry[]> {
+  await findOwnedKey(userId, keyId);
+
+  const rows = await db
+    .select()
+    .from(apiKeyRequestLogs)
+    .where(eq(apiKeyRequestLogs.apiKeyId, keyId))
+    .orderBy(desc(apiKeyRequestLogs.createdAt))
+    .limit(limit);
+
+  return rows.map((row) => ({
+    id: row.id,
+    action: row.action,
+    statusCode: row.statusCode,
+    ipAddress: row.ipAddress,
+    createdAt: row.createdAt.toISOString(),
+  }));
+}
+
+/** Looks up the key for a raw `csa_` value; throws 401 if unknown or expired. */
+export async function authenticateApiKey(rawKey: string): Promise<ApiKey> {
+  const [row] = await db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.keyHash, hashApiKey(rawKey)))
+    .limit(1);
+
+  if (!row) {
+    throw AppError.unauthorized("Invalid API key", "INVALID_API_KEY");
+  }
+  if (isApiKeyExpired(row.expiresAt)) {
+    throw AppError.unauthorized("This API key has expired", "API_KEY_EXPIRED");
+  }
+  return row;
+}
+
+/**
+ * Logs a finished request and bumps the key's lastUsedAt. Failures are only
+ * logged so a bookkeeping error never affects the response.
+ */
+export async function recordApiKeyRequest(key: ApiKey, request: ApiKeyRequest): Promise<void> {
+  try {
+    const now = new Date();
+    await db.insert(apiKeyRequestLogs).values({
+      apiKeyId: key.id,
+      userId: key.userId,
+      ...request,
+      createdAt: now,
+    });
+    await db.update(apiKeys).set({ lastUsedAt: now }).where(eq(apiKeys.id, key.id));
+  } catch (error) {
+    logger.error("Failed to record API key request", {
+      apiKeyId: key.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,80 @@
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "../db";
+import { userSavedRecipes } from "@shared/schema";
+import { AppError } from "../middleware/errorHandler";
+import { buildCookingTimeline, type CookingTimelineStep } from "../lib/cooking-timeline";
+
+export interface ScheduledTimelineStep extends CookingTimelineStep {
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface CookingTimelineResult {
+  startAt: string;
+  serveAt: string;
+  /** The requested serve time was too soon, so the timeline starts now instead. */
+  serveAtMoved: boolean;
+  totalMinutes: number;
+  recipes: { recipeId: string; title: string }[];
+  steps: ScheduledTimelineStep[];
+}
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Schedules the given saved recipes to be ready together at `serveAt`. When
+ * there isn't enough time left, the timeline starts at `now` and the serve
+ * time moves later.
+ */
+export async function planCookingTimeline(
+  userId: string,
+  recipeIds: string[],
+  serveAt: Date,
+  now: Date = new Date(),
+): Promise<CookingTimelineResult> {
+  const rows = await db
+    .select()
+    .from(userSavedRecipes)
+    .where(and(eq(userSavedRecipes.userId, userId), inArray(userSavedRecipes.itemId, recipeIds)));
+
+  const byId = new Map(rows.map((row) => [row.itemId, row]));
+  const missing = recipeIds.filter((id) => !byId.has(id));
+  if (missing.length > 0) {
+    throw AppError.notFound("Recipe not found", "RECIPE_NOT_FOUND");
+  }
+
+  const recipes = recipeIds.map((id) => {
+    const row = byId.get(id)!;
+    return {
+      itemId: row.itemId,
+      title: row.title,
+      prepTime: row.prepTime,
+      cookTime: row.cookTime,
+      instructions: Array.isArray(row.instructions)
+        ? (row.instructions as unknown[]).filter((step): step is string => typeof step === "string")
+        : [],
+    };
+  });
+  if (recipes.every((recipe) => recipe.instructions.length === 0)) {
+    throw AppError.badRequest("These recipes have no instructions to schedule", "NO_INSTRUCTIONS");
+  }
+
+  const plan = buildCookingTimeline(recipes);
+  let start = serveAt.getTime() - plan.totalMinutes * MINUTE_MS;
+  const serveAtMoved = start < now.getTime();
+  if (serveAtMoved) start = now.getTime();
+  const at = (minute: number) => new Date(start + minute * MINUTE_MS).toISOString();
+
+  return {
+    startAt: at(0),
+    serveAt: at(plan.totalMinutes),
+    serveAtMoved,
+    totalMinutes: plan.totalMinutes,
+    recipes: recipes.map((recipe) => ({ recipeId: recipe.itemId, title: recipe.title })),
+    steps: plan.steps.map((step) => ({
+      ...step,
+      startsAt: at(step.startMinute),
+      endsAt: at(step.endMinute),
+    })),
+  };
+}
@@ -0,0 +1,453 @@
+import { z } from "zod";
+import { eq, and, gt, asc, inArray, or, type SQL } from "drizzle-orm";
+import { db } from "../db";
+import { syncTombstones } from "@shared/schema";
+import { ERROR_CODES } from "@shared/subscription";
+import { diffFields, threeWayMerge, type SyncRecord } from "@shared/sync-merge";
+import { checkPantryItemLimit } from "./subscriptionService";
+import { canWriteHouseholdData } from "../domain/services/PermissionService";
+import {
+  resolveSyncScope,
+  nextSyncRevision,
+  recordTombstones,
+  updateScopeTimestamp,
+  type SyncScope,
+} from "../routers/sync/sync-helpers";
+import {
+  deltaTables,
+  deltaDataTypes,
+  type DeltaDataType,
+  type DeltaTableConfig,
+} from "../routers/sync/delta-tables";
+
+export const DELTA_MAX_CHANGES = 500;
+export const DELTA_DEFAULT_PULL_LIMIT = 500;
+
+export const deltaChangeSchema = z.object({
+  dataType: z.enum(deltaDataTypes),
+  id: z.union([z.string(), z.number()]).transform(String),
+  op: z.enum(["upsert", "delete"]),
+  baseRevision: z.number().int().nonnegative().nullable().optional(),
+  base: z.record(z.unknown()).nullable().optional(),
+  record: z.record(z.unknown()).optional(),
+});
+
+export const deltaSyncRequestSchema = z.object({
+  since: z.number().int().nonnegative().default(0),
+  scope: z.string().nullable().optional(),
+  limit: z.number().int().min(1).max(1000).default(DELTA_DEFAULT_PULL_LIMIT),
+  changes: z.array(deltaChangeSchema).max(DELTA_MAX_CHANGES).default([]),
+});
+
+export type DeltaChange = z.infer<typeof deltaChangeSchema>;
+export type DeltaSyncRequest = z.infer<typeof deltaSyncRequestSchema>;
+
+export type DeltaChangeStatus = "applied" | "merged" | "conflict" | "rejected";
+
+export interface DeltaChangeResult {
+  dataType: DeltaDataType;
+  id: string;
+  status: DeltaChangeStatus;
+  revision?: number;
+  conflicts?: string[];
+  serverRecord?: SyncRecord;
+  errorCode?: string;
+  error?: string;
+}
+
+export interface DeltaPulledChange {
+  dataType: DeltaDataType;
+  id: string;
+  revision: number;
+  deleted: boolean;
+  record: SyncRecord | null;
+}
+
+export interface DeltaSyncResult {
+  results: DeltaChangeResult[];
+  changes: DeltaPulledChange[];
+  revision: number;
+  hasMore: boolean;
+  reset: boolean;
+  scope: string | null;
+}
+
+function ownerFilter(config: DeltaTableConfig, scope: SyncScope): SQL {
+  if (config.shared && config.columns.householdId && scope.householdId) {
+    return eq(config.columns.householdId, scope.householdId);
+  }
+  return eq(config.columns.userId, scope.userId);
+}
+
+function rowRevision(row: Record<string, unknown>): number {
+  return Number(row.revision);
+}
+
+async function findRow(
+  config: DeltaTableConfig,
+  scope: SyncScope,
+  itemId: string,
+) {
+  const [row] = await db
+    .select()
+    .from(config.table)
+    .where(and(ownerFilter(config, scope), eq(config.columns.itemId, itemId)))
+    .limit(1);
+  return (row as Record<string, unknown> | undefined) ?? null;
+}
+
+function rejected(
+  change: DeltaChange,
+  errorCode: string,
+  error: string,
+): DeltaChangeResult {
+  return {
+    dataType: change.dataType,
+    id: change.id,
+    status: "rejected",
+    errorCode,
+    error,
+  };
+}
+
+async function applyDelete(
+  config: DeltaTableConfig,
+  scope: SyncScope,
+  change: DeltaChange,
+): Promise<DeltaChangeResult> {
+  const existing = await findRow(config, scope, change.id);
+  if (!existing) {
+    return { dataType: change.dataType, id: change.id, status: "applied" };
+  }
+
+  await db.transaction(async (tx) => {
+    await tx
+      .delete(config.table)
+      .where(
+        and(ownerFilter(config, scope), eq(config.columns.itemId, change.id)),
+      );
+    await recordTombstones(
+      [
+        {
+          userId: scope.userId,
+          householdId: config.shared ? scope.householdId : null,
+          dataType: config.dataType,
+          itemId: change.id,
+        },
+      ],
+      tx,
+    );
+  });
+
+  return { dataType: change.dataType, id: change.id, status: "applied" };
+}
+
+/** Times an upsert re-reads and re-merges after losing a race to another write. */
+const MAX_UPSERT_ATTEMPTS = 3;
+
+async function applyUpsert(
+  config: DeltaTableConfig,
+  scope: SyncScope,
+  change: DeltaChange,
+): Promise<DeltaChangeResult> {
+  for (let attempt = 0; attempt < MAX_UPSERT_ATTEMPTS; attempt++) {
+    const result = await attemptUpsert(config, scope, change);
+    if (result) return result;
+  }
+  return rejected(
+    change,
+    "SYNC_WRITE_CONFLICT",
+    "The record kept changing while it was being saved; sync again to retry",
+  );
+}
+
+/**
+ * One read-merge-write pass. The update only applies if the row still has
+ * the revision it was merged against; returns null when another write got
+ * there first (or the row was deleted) so the caller can start over.
+ */
+async function attemptUpsert(
+  config: DeltaTableConfig,
+  scope: SyncScope,
+  change: DeltaChange,
+): Promise<DeltaChangeResult | null> {
+  const local = { ...(change.record ?? {}), id: change.id };
+  const existing = await findRow(config, scope, change.id);
+
+  if (!existing) {
+    const parsed = config.schema.safeParse(local);
+    if (!parsed.success) {
+      return rejected(
+        change,
+        "SYNC_VALIDATION_FAILED",
+        parsed.error.errors[0]?.message ?? "Invalid record",
+      );
+    }
+
+    if (config.dataType === "inventory") {
+      const limitCheck = await checkPantryItemLimit(scope.userId);
+      const remaining =
+        typeof limitCheck.remaining === "number"
+          ? limitCheck.remaining
+          : Infinity;
+      if (remaining < 1) {
+        return rejected(
+          change,
+          ERROR_CODES.PANTRY_LIMIT_REACHED,
+          "Pantry item limit reached",
+        );
+      }
+    }
+
+    const [inserted] = await db
+      .insert(config.table)
+      .values({
+        userId: scope.userId,
+        ...(config.shared ? { householdId: scope.householdId } : {}),
+        [config.itemIdKey]: change.id,
+        ...config.toColumns(parsed.data),
+        updatedAt: new Date(),
+      })
+      .returning({ revision: config.columns.revision });
+
+    return {
+      dataType: change.dataType,
+      id: change.id,
+      status: "applied",
+      revision: Number(inserted.revision),
+    };
+  }
+
+  const remote = config.toRecord(existing);
+  const existingRevision = rowRevision(existing);
+  const fastForward = change.baseRevision === existingRevision;
+  const { merged, conflicts } = fastForward
+    ? { merged: { ...remote, ...local }, conflicts: [] as string[] }
+    : threeWayMerge(change.base ?? null, local, remote);
+
+  if (diffFields(remote, merged).length === 0) {
+    return {
+      dataType: change.dataType,
+      id: change.id,
+      status: conflicts.length > 0 ? "conflict" : "applied",
+      revision: existingRevision,
+      ...(conflicts.length > 0 && {
+        conflicts,
+        serverRecord: { ...remote, revision: existingRevision },
+      }),
+    };
+  }
+
+  const parsed = config.schema.safeParse(merged);
+  if (!parsed.success) {
+    return rejected(
+      change,
+      "SYNC_VALIDATION_FAILED",
+      parsed.error.errors[0]?.message ?? "Invalid record",
+    );
+  }
+
+  const [updated] = await db
+    .update(config.table)
+    .set({
+      ...config.toColumns(parsed.data),
+      updatedAt: new Date(),
+      revision: nextSyncRevision(),
+    })
+    .where(
+      and(
+        ownerFilter(config, scope),
+        eq(config.columns.itemId, change.id),
+        eq(config.columns.revision, existing.revision),
+      ),
+    )
+    .returning({ revision: config.columns.revision });
+
+  if (!updated) {
+    return null;
+  }
+
+  const revision = Number(updated.revision);
+
+  if (conflicts.length > 0) {
+    return {
+      dataType: change.dataType,
+      id: change.id,
+      status: "conflict",
+      revision,
+      conflicts,
+      serverRecord: { ...merged, revision },
+    };
+  }
+
+  return {
+    dataType: change.dataType,
+    id: change.id,
+    status: fastForward ? "applied" : "merged",
+    revision,
+  };
+}
+
+/**
+ * Applies a batch of client changes. Each change is handled independently so
+ * one invalid record doesn't block the rest of the batch.
+ */
+export async function applyDeltaChanges(
+  userId: string,
+  changes: DeltaChange[],
+): Promise<DeltaChangeResult[]> {
+  const scope = await resolveSyncScope(userId);
+  const canWriteShared = !scope.role || canWriteHouseholdData(scope.role);
+  const results: DeltaChangeResult[] = [];
+  const touchedSharedSections = new Set<DeltaDataType>();
+
+  for (const change of changes) {
+    const config = deltaTables[change.dataType];
+
+    if (config.shared && !canWriteShared) {
+      results.push(
+        rejected(
+          change,
+          "HOUSEHOLD_READ_ONLY",
+          "Viewers cannot modify shared household data",
+        ),
+      );
+      continue;
+    }
+
+    const result =
+      change.op === "delete"
+        ? await applyDelete(config, scope, change)
+        : await applyUpsert(config, scope, change);
+
+    results.push(result);
+    if (config.shared && result.status !== "rejected") {
+      touchedSharedSections.add(change.dataType);
+    }
+  }
+
+  if (scope.householdId) {
+    for (const section of touchedSharedSections) {
+      await updateScopeTimestamp(scope, section);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Returns every change with a revision above `since`, oldest first, across all
+ * delta-synced sections plus tombstones for hard-deleted rows.
+ */
+export async function pullDeltaChanges(
+  scope: SyncScope,
+  since: number,
+  limit: number,
+): Promise<{
+  changes: DeltaPulledChange[];
+  hasMore: boolean;
+  revision: number;
+}> {
+  const pulled: DeltaPulledChange[] = [];
+
+  for (const dataType of deltaDataTypes) {
+    const config = deltaTables[dataType];
+    const rows = await db
+      .select()
+      .from(config.table)
+      .where(
+        and(ownerFilter(config, scope), gt(config.columns.revision, since)),
+      )
+      .orderBy(asc(config.columns.revision))
+      .limit(limit + 1);
+
+    for (const row of rows as Record<string, unknown>[]) {
+      pulled.push({
+        dataType,
+        id: String(row[config.itemIdKey]),
+        revision: rowRevision(row),
+        deleted: false,
+        record: config.toRecord(row),
+      });
+    }
+  }
+
+  if (since > 0) {
+    const sharedTypes = deltaDataTypes.filter((t) => deltaTables[t].shared);
+    const personalTypes = deltaDataTypes.filter((t) => !deltaTables[t].shared);
+    const sharedOwner = scope.householdId
+      ? eq(syncTombstones.householdId, scope.householdId)
+      : eq(syncTombstones.userId, scope.userId);
+
+    const tombstones = await db
+      .select()
+      .from(syncTombstones)
+      .where(
+        and(
+          gt(syncTombstones.revision, since),
+          or(
+            and(inArray(syncTombstones.dataType, sharedTypes), sharedOwner),
+            and(
+              inArray(syncTombstones.dataType, personalTypes),
+              eq(syncTombstones.userId, scope.userId),
+            ),
+          ),
+        ),
+      )
+      .orderBy(asc(syncTombstones.revision))
+      .limit(limit + 1);
+
+    for (const tombstone of tombstones) {
+      pulled.push({
+        dataType: tombstone.dataType as DeltaDataType,
+        id: tombstone.itemId,
+        revision: Number(tombstone.revision),
+        deleted: true,
+        record: null,
+      });
+    }
+  }
+
+  pulled.sort((a, b) => a.revision - b.revision);
+  const hasMore = pulled.length > limit;
+  const page = hasMore ? pulled.slice(0, limit) : pulled;
+  const revision = page.length > 0 ? page[page.length - 1].revision : since;
+
+  return { changes: page, hasMore, revision };
+}
+
+/**
+ * Pushes the client's pending changes, then pulls everything newer than its
+ * cursor. If the user's household changed since the client's last sync, the
+ * cursor is discarded and a full snapshot is returned with `reset: true`.
+ */
+export async function runDeltaSync(
+  userId: string,
+  request: DeltaSyncRequest,
+): Promise<DeltaSyncResult> {
+  const results =
+    request.changes.length > 0
+      ? await applyDeltaChanges(userId, request.changes)
+      : [];
+
+  const scope = await resolveSyncScope(userId);
+  const currentScope = scope.householdId;
+  const scopeChanged =
+    request.scope !== undefined && (request.scope ?? null) !== currentScope;
+  const since = scopeChanged ? 0 : request.since;
+
+  const { changes, hasMore, revision } = await pullDeltaChanges(
+    scope,
+    since,
+    request.limit,
+  );
+
+  return {
+    results,
+    changes,
+    revision,
+    hasMore,
+    reset: since === 0,
+    scope: currentScope,
+  };
+}
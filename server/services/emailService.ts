@@ -0,0 +1,305 @@
+import crypto from "crypto";
+import { and, eq, inArray, lte } from "drizzle-orm";
+import { db } from "../db";
+import { emailSendLog, emailUnsubscribes, users } from "@shared/schema";
+import { logger } from "../lib/logger";
+import { decryptTokenOrNull, encryptToken } from "../lib/token-encryption";
+import {
+  MAX_EMAIL_ATTEMPTS,
+  TEMPLATE_CATEGORIES,
+  UNSUBSCRIBABLE_CATEGORIES,
+  createUnsubscribeToken,
+  renderEmail,
+  retryDelayMs,
+  verifyUnsubscribeToken,
+  type EmailCategory,
+  type EmailTemplateData,
+  type EmailTemplateName,
+} from "../lib/email-templates";
+import { createEmailTransportFromEnv, type EmailTransport } from "./emailTransport";
+
+export type EmailSendStatus = "pending" | "sent" | "failed" | "suppressed";
+
+export interface SendEmailOptions<T extends EmailTemplateName> {
+  to: string;
+  /** Recipient account; needed for unsubscribe links and suppression. */
+  userId?: string | null;
+  template: T;
+  data: EmailTemplateData[T];
+}
+
+export interface EmailSendResult {
+  id: string | null;
+  status: EmailSendStatus;
+}
+
+export interface EmailPreference {
+  category: EmailCategory;
+  subscribed: boolean;
+}
+
+const RETRY_BATCH_SIZE = 50;
+
+if (process.env.NODE_ENV === "production" && !process.env.EMAIL_UNSUBSCRIBE_SECRET) {
+  logger.warn("EMAIL_UNSUBSCRIBE_SECRET not set — unsubscribe links will stop working after a restart");
+}
+
+const UNSUBSCRIBE_SECRET = process.env.EMAIL_UNSUBSCRIBE_SECRET || crypto.randomBytes(32).toString("hex");
+
+let transport: EmailTransport | null = null;
+
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    transport = createEmailTransportFromEnv();
+  }
+  return transport;
+}
+
+/** Replaces the transport, e.g. with a local one in tests. */
+export function setEmailTransport(next: EmailTransport | null): void {
+  transport = next;
+}
+
+function getFromAddress(): string {
+  return process.env.EMAIL_FROM || "ChefSpAIce <noreply@chefspaice.com>";
+}
+
+/** Public web origin used in email links. */
+export function getAppBaseUrl(): string {
+  if (process.env.APP_BASE_URL) return process.env.APP_BASE_URL.replace(/\/+$/, "");
+  const domain = process.env.REPLIT_DOMAINS?.split(",")[0];
+  return domain ? `https://${domain}` : "https://chefspaice.com";
+}
+
+export function getUnsubscribeUrl(userId: string, category: EmailCategory): string {
+  const token = createUnsubscribeToken(userId, category, UNSUBSCRIBE_SECRET);
+  return `${getAppBaseUrl()}/api/email/unsubscribe?token=${encodeURIComponent(token)}`;
+}
+
+/** Template data can hold live secrets (reset links), so it is stored encrypted when a key is configured. */
+function sealData(data: unknown): string {
+  const json = JSON.stringify(data);
+  return process.env.TOKEN_ENCRYPTION_KEY ? encryptToken(json) : json;
+}
+
+function openData(sealed: string): unknown {
+  return JSON.parse(decryptTokenOrNull(sealed) ?? "null");
+}
+
+async function isUnsubscribed(userId: string, category: EmailCategory): Promise<boolean> {
+  const [row] = await db
+    .select({ id: emailUnsubscribes.id })
+    .from(emailUnsubscribes)
+    .where(and(eq(emailUnsubscribes.userId, userId), eq(emailUnsubscribes.category, category)))
+    .limit(1);
+  return !!row;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Makes one delivery attempt for a logged email and records the outcome.
+ * Template data is dropped once the email is sent or out of attempts.
+ */
+async function deliver<T extends EmailTemplateName>(
+  logId: string,
+  attemptsSoFar: number,
+  options: SendEmailOptions<T>,
+): Promise<EmailSendStatus> {
+  const category = TEMPLATE_CATEGORIES[options.template];
+  const unsubscribeUrl = options.userId && UNSUBSCRIBABLE_CATEGORIES.includes(category)
+    ? getUnsubscribeUrl(options.userId, category)
+    : undefined;
+  const rendered = renderEmail(options.template, options.data, { unsubscribeUrl });
+  const attempts = attemptsSoFar + 1;
+  const activeTransport = getEmailTransport();
+
+  try {
+    const messageId = await activeTransport.send({
+      from: getFromAddress(),
+      to: options.to,
+      subject: rendered.subject,
+      text: rendered.text,
+      html: rendered.html,
+      headers: unsubscribeUrl
+        ? { "List-Unsubscribe": `<${unsubscribeUrl}>`, "List-Unsubscribe-Post": "List-Unsubscribe=One-Click" }
+        : undefined,
+    });
+
+    await db
+      .update(emailSendLog)
+      .set({
+        status: "sent",
+        attempts,
+        transport: activeTransport.name,
+        messageId,
+        sentAt: new Date(),
+        nextAttemptAt: null,
+        lastError: null,
+        data: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(emailSendLog.id, logId));
+    logger.info("Email sent", { logId, template: options.template, transport: activeTransport.name });
+    return "sent";
+  } catch (error) {
+    const delay = retryDelayMs(attempts);
+    await db
+      .update(emailSendLog)
+      .set({
+        status: "failed",
+        attempts,
+        transport: activeTransport.name,
+        lastError: errorMessage(error).slice(0, 1000),
+        nextAttemptAt: delay === null ? null : new Date(Date.now() + delay),
+        ...(delay === null && { data: null }),
+        updatedAt: new Date(),
+      })
+      .where(eq(emailSendLog.id, logId));
+    logger.warn("Email delivery failed", {
+      logId,
+      template: options.template,
+      attempts,
+      willRetry: delay !== null,
+      error: errorMessage(error),
+    });
+    return "failed";
+  }
+}
+
+/**
+ * Renders a template, logs it and tries to deliver it once; failures are
+ * retried by the email retry job. Mail in a category the user unsubscribed
+ * from is logged as suppressed and not sent. Never throws, so callers can
+ * fire and forget.
+ */
+export async function sendTemplatedEmail<T extends EmailTemplateName>(
+  options: SendEmailOptions<T>,
+): Promise<EmailSendResult> {
+  try {
+    const category = TEMPLATE_CATEGORIES[options.template];
+    const suppressed = !!options.userId
+      && UNSUBSCRIBABLE_CATEGORIES.includes(category)
+      && await isUnsubscribed(options.userId, category);
+    const { subject } = renderEmail(options.template, options.data);
+
+    const [row] = await db
+      .insert(emailSendLog)
+      .values({
+        userId: options.userId ?? null,
+        toAddress: options.to,
+        template: options.template,
+        category,
+        subject,
+        status: suppressed ? "suppressed" : "pending",
+        data: suppressed ? null : sealData(options.data),
+      })
+      .returning({ id: emailSendLog.id });
+
+    if (suppressed) {
+      logger.info("Email suppressed by unsubscribe", { logId: row.id, template: options.template, category });
+      return { id: row.id, status: "suppressed" };
+    }
+
+    return { id: row.id, status: await deliver(row.id, 0, options) };
+  } catch (error) {
+    logger.error("Failed to send email", { template: options.template, error: errorMessage(error) });
+    return { id: null, status: "failed" };
+  }
+}
+
+/** Sends a template to a user's account email address. */
+export async function sendUserEmail<T extends EmailTemplateName>(
+  userId: string,
+  template: T,
+  data: EmailTemplateData[T],
+): Promise<EmailSendResult> {
+  const [user] = await db.select({ email: users.email }).from(users).where(eq(users.id, userId)).limit(1);
+  if (!user) {
+    return { id: null, status: "failed" };
+  }
+  return sendTemplatedEmail({ to: user.email, userId, template, data });
+}
+
+/** Retries failed emails whose next attempt is due. */
+export async function retryFailedEmails(now: Date = new Date()): Promise<{ retried: number; sent: number }> {
+  const due = await db
+    .select()
+    .from(emailSendLog)
+    .where(and(eq(emailSendLog.status, "failed"), lte(emailSendLog.nextAttemptAt, now)))
+    .orderBy(emailSendLog.nextAttemptAt)
+    .limit(RETRY_BATCH_SIZE);
+
+  let sent = 0;
+  for (const row of due) {
+    try {
+      if (!row.data || row.attempts >= MAX_EMAIL_ATTEMPTS) {
+        await db.update(emailSendLog).set({ nextAttemptAt: null, data: null, updatedAt: new Date() }).where(eq(emailSendLog.id, row.id));
+        continue;
+      }
+
+      const category = row.category as EmailCategory;
+      if (row.userId && UNSUBSCRIBABLE_CATEGORIES.includes(category) && await isUnsubscribed(row.userId, category)) {
+        await db.update(emailSendLog).set({ status: "suppressed", nextAttemptAt: null, data: null, updatedAt: new Date() }).where(eq(emailSendLog.id, row.id));
+        continue;
+      }
+
+      const status = await deliver(row.id, row.attempts, {
+        to: row.toAddress,
+        userId: row.userId,
+        template: row.template as EmailTemplateName,
+        data: openData(row.data) as EmailTemplateData[EmailTemplateName],
+      });
+      if (status === "sent") sent++;
+    } catch (error) {
+      logger.error("Failed to retry email", { logId: row.id, error: errorMessage(error) });
+    }
+  }
+
+  if (due.length > 0) {
+    logger.info("Email retry pass finished", { retried: due.length, sent });
+  }
+  return { retried: due.length, sent };
+}
+
+/** Applies an unsubscribe link. Returns the category, or null for a bad token. */
+export async function unsubscribeWithToken(token: string): Promise<EmailCategory | null> {
+  const parsed = verifyUnsubscribeToken(token, UNSUBSCRIBE_SECRET);
+  if (!parsed) return null;
+
+  await db
+    .insert(emailUnsubscribes)
+    .values({ userId: parsed.userId, category: parsed.category })
+    .onConflictDoNothing({ target: [emailUnsubscribes.userId, emailUnsubscribes.category] });
+  logger.info("Email unsubscribe", { userId: parsed.userId, category: parsed.category });
+  return parsed.category;
+}
+
+export async function getEmailPreferences(userId: string): Promise<EmailPreference[]> {
+  const rows = await db
+    .select({ category: emailUnsubscribes.category })
+    .from(emailUnsubscribes)
+    .where(eq(emailUnsubscribes.userId, userId));
+  const unsubscribed = new Set(rows.map((row) => row.category));
+  return UNSUBSCRIBABLE_CATEGORIES.map((category) => ({ category, subscribed: !unsubscribed.has(category) }));
+}
+
+export async function updateEmailPreferences(userId: string, preferences: EmailPreference[]): Promise<EmailPreference[]> {
+  const subscribe = preferences.filter((p) => p.subscribed).map((p) => p.category);
+  const unsubscribe = preferences.filter((p) => !p.subscribed).map((p) => p.category);
+
+  if (subscribe.length > 0) {
+    await db
+      .delete(emailUnsubscribes)
+      .where(and(eq(emailUnsubscribes.userId, userId), inArray(emailUnsubscribes.category, subscribe)));
+  }
+  if (unsubscribe.length > 0) {
+    await db
+      .insert(emailUnsubscribes)
+      .values(unsubscribe.map((category) => ({ userId, category })))
+      .onConflictDoNothing({ target: [emailUnsubscribes.userId, emailUnsubscribes.category] });
+  }
+  return getEmailPreferences(userId);
+}
@@ -0,0 +1,92 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import nodemailer, { type Transporter } from "nodemailer";
+import { logger } from "../lib/logger";
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers?: Record<string, string>;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  /** Resolves with the transport's message id; rejects when delivery failed. */
+  send(message: OutgoingEmail): Promise<string>;
+}
+
+export class SmtpEmailTransport implements EmailTransport {
+  readonly name = "smtp";
+  private transporter: Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: OutgoingEmail): Promise<string> {
+    const info = await this.transporter.sendMail(message);
+    return info.messageId;
+  }
+}
+
+/**
+ * Writes each message to `directory` as JSON, or logs it when no directory
+ * is given. For development and tests; nothing leaves the machine.
+ */
+export class LocalEmailTransport implements EmailTransport {
+  readonly name: string;
+
+  constructor(private directory?: string) {
+    this.name = directory ? "file" : "console";
+  }
+
+  async send(message: OutgoingEmail): Promise<string> {
+    const messageId = `<${randomUUID()}@chefspaice.local>`;
+    if (this.directory) {
+      await fs.mkdir(this.directory, { recursive: true });
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${messageId.slice(1, 9)}.json`;
+      await fs.writeFile(path.join(this.directory, fileName), JSON.stringify({ messageId, ...message }, null, 2));
+    } else {
+      logger.info("Email (console transport)", { to: message.to, subject: message.subject, text: message.text });
+    }
+    return messageId;
+  }
+}
+
+/**
+ * EMAIL_TRANSPORT picks the transport: "smtp" (SMTP_HOST, SMTP_PORT,
+ * SMTP_USER, SMTP_PASS), "file" (EMAIL_OUTPUT_DIR) or "console". Defaults to
+ * SMTP when SMTP_HOST is set and the console otherwise.
+ */
+export function createEmailTransportFromEnv(env: NodeJS.ProcessEnv = process.env): EmailTransport {
+  const kind = env.EMAIL_TRANSPORT?.toLowerCase() ?? (env.SMTP_HOST ? "smtp" : "console");
+
+  if (kind === "smtp") {
+    if (!env.SMTP_HOST) {
+      throw new Error("EMAIL_TRANSPORT is smtp but SMTP_HOST is not set");
+    }
+    const port = parseInt(env.SMTP_PORT || "587", 10);
+    return new SmtpEmailTransport({
+      host: env.SMTP_HOST,
+      port,
+      secure: env.SMTP_SECURE ? env.SMTP_SECURE === "true" : port === 465,
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS,
+    });
+  }
+
+  if (kind === "file") {
+    return new LocalEmailTransport(env.EMAIL_OUTPUT_DIR || path.join(process.cwd(), ".emails"));
+  }
+
+  return new LocalEmailTransport();
+}
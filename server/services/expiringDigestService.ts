@@ -0,0 +1,169 @@
+import { and, desc, eq, gte, isNotNull, isNull, lte } from "drizzle-orm";
+import { db } from "../db";
+import { notifications, userInventoryItems, userSavedRecipes, users } from "@shared/schema";
+import { resolveSyncScope, scopeFilter } from "../routers/sync/sync-helpers";
+import { queueNotification } from "./notificationService";
+import { logger } from "../lib/logger";
+import {
+  addDays,
+  alertKey,
+  buildDigestMessage,
+  excludeSentAlerts,
+  findExpiringItems,
+  isDigestDue,
+  digestDate,
+  localClock,
+  suggestRecipes,
+} from "../lib/expiring-digest";
+
+export const EXPIRING_DIGEST_TYPE = "expiring_food_digest";
+
+interface DigestCandidate {
+  id: string;
+  expirationAlertDays: number;
+  notificationTime: string | null;
+  timezone: string | null;
+}
+
+interface SentDigests {
+  sentToday: boolean;
+  alertKeys: Set<string>;
+}
+
+/**
+ * Alert keys from digests sent while the currently expiring items could
+ * have been listed, and whether one already went out on the local day.
+ */
+async function loadSentDigests(userId: string, localDate: string, alertDays: number): Promise<SentDigests> {
+  const since = new Date(Date.now() - (alertDays + 2) * 86_400_000);
+  const rows = await db
+    .select({ data: notifications.data })
+    .from(notifications)
+    .where(and(
+      eq(notifications.userId, userId),
+      eq(notifications.type, EXPIRING_DIGEST_TYPE),
+      gte(notifications.createdAt, since),
+    ))
+    .orderBy(desc(notifications.createdAt));
+
+  const sent: SentDigests = { sentToday: false, alertKeys: new Set() };
+  for (const row of rows) {
+    const data = (row.data ?? {}) as { localDate?: unknown; alertKeys?: unknown };
+    if (data.localDate === localDate) sent.sentToday = true;
+    if (Array.isArray(data.alertKeys)) {
+      for (const key of data.alertKeys) {
+        if (typeof key === "string") sent.alertKeys.add(key);
+      }
+    }
+  }
+  return sent;
+}
+
+/**
+ * Builds and pushes one user's digest for their local day. Returns false when
+ * there was nothing new to send.
+ */
+async function sendDigest(user: DigestCandidate, localDate: string): Promise<boolean> {
+  const alertDays = user.expirationAlertDays;
+  const sent = await loadSentDigests(user.id, localDate, alertDays);
+  if (sent.sentToday) return false;
+
+  const scope = await resolveSyncScope(user.id);
+  const inventory = await db
+    .select({
+      itemId: userInventoryItems.itemId,
+      name: userInventoryItems.name,
+      expirationDate: userInventoryItems.expirationDate,
+      quantity: userInventoryItems.quantity,
+      unit: userInventoryItems.unit,
+    })
+    .from(userInventoryItems)
+    .where(and(
+      scopeFilter(userInventoryItems, scope),
+      isNull(userInventoryItems.deletedAt),
+      isNotNull(userInventoryItems.expirationDate),
+      gte(userInventoryItems.expirationDate, localDate),
+      lte(userInventoryItems.expirationDate, `${addDays(localDate, alertDays)}T23:59:59`),
+    ));
+
+  const expiring = findExpiringItems(inventory, localDate, alertDays);
+  const fresh = excludeSentAlerts(expiring, sent.alertKeys);
+  if (fresh.length === 0) return false;
+
+  const recipes = await db
+    .select({
+      itemId: userSavedRecipes.itemId,
+      title: userSavedRecipes.title,
+      ingredients: userSavedRecipes.ingredients,
+    })
+    .from(userSavedRecipes)
+    .where(eq(userSavedRecipes.userId, user.id));
+  const suggestions = suggestRecipes(recipes, fresh);
+  const { title, body } = buildDigestMessage(fresh, suggestions);
+
+  await queueNotification({
+    userId: user.id,
+    type: EXPIRING_DIGEST_TYPE,
+    title,
+    body,
+    data: {
+      localDate,
+      alertKeys: fresh.map(alertKey),
+      items: fresh.map(({ itemId, name, expirationDate, daysUntilExpiry }) => ({ itemId, name, expirationDate, daysUntilExpiry })),
+      recipes: suggestions,
+    },
+    deepLink: "chefspaice://inventory",
+  });
+  return true;
+}
+
+/**
+ * Sends the daily expiring-food digest to every opted-in user whose local
+ * notification time has come. Safe to run often: each user gets at most one
+ * digest per local day, and an item is only listed again when it gets closer
+ * to expiring.
+ */
+export async function sendExpiringDigests(now: Date = new Date()): Promise<{ sent: number; skipped: number; errors: string[] }> {
+  const errors: string[] = [];
+  let sentCount = 0;
+  let skippedCount = 0;
+
+  const candidates = await db
+    .select({
+      id: users.id,
+      expirationAlertDays: users.expirationAlertDays,
+      notificationTime: users.notificationTime,
+      timezone: users.timezone,
+    })
+    .from(users)
+    .where(and(
+      eq(users.notificationsEnabled, true),
+      eq(users.notifyExpiringFood, true),
+      eq(users.isActivated, true),
+    ));
+
+  for (const user of candidates) {
+    const clock = localClock(now, user.timezone);
+    if (!isDigestDue(clock, user.notificationTime)) {
+      continue;
+    }
+
+    try {
+      if (await sendDigest(user, digestDate(clock, user.notificationTime))) {
+        sentCount++;
+      } else {
+        skippedCount++;
+      }
+    } catch (error) {
+      const msg = `Failed to send expiring digest for user ${user.id}: ${error}`;
+      errors.push(msg);
+      logger.error("Failed to send expiring digest", { userId: user.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  if (sentCount > 0) {
+    logger.info("Expiring food digests sent", { sent: sentCount, skipped: skippedCount });
+  }
+
+  return { sent: sentCount, skipped: skippedCount, errors };
+}
@@ -0,0 +1,283 @@
+import { and, desc, eq, gte, inArray, lte, sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  groceryBudgets,
+  groceryReceipts,
+  itemPriceHistory,
+  monthlyLogSummaries,
+  type GroceryBudget,
+} from "@shared/schema";
+import { logger } from "../lib/logger";
+import {
+  breakdownSpend,
+  budgetStatus,
+  crossedBudget,
+  monthBounds,
+  monthKey,
+  previousMonths,
+  type BudgetStatus,
+  type CategorySpend,
+  type SpendLine,
+} from "../lib/grocery-budget";
+import {
+  resolveSyncScope,
+  scopeFilter,
+  getScopeMemberIds,
+  type SyncScope,
+} from "../routers/sync/sync-helpers";
+import { queueNotification } from "./notificationService";
+
+/** monthly_log_summaries log type for grocery spend rolled up by category. */
+export const SPEND_LOG_TYPE = "spend";
+
+export interface BudgetSummary {
+  month: string;
+  budget: number | null;
+  /** Month the budget was set for; earlier than `month` when carried forward. */
+  budgetMonth: string | null;
+  spent: number;
+  remaining: number | null;
+  status: BudgetStatus;
+  receiptCount: number;
+  categories: CategorySpend[];
+}
+
+export interface MonthlySpend {
+  month: string;
+  spent: number;
+  budget: number | null;
+}
+
+export interface SetBudgetInput {
+  amount: number;
+  categoryBudgets?: Record<string, number> | null;
+}
+
+function currentMonth(): string {
+  return monthKey(new Date());
+}
+
+/**
+ * Months before this one are closed: the rollup job has summarized them and
+ * later scans rarely land there. The previous month stays open for receipts
+ * scanned a few days late.
+ */
+function firstOpenMonth(): string {
+  return previousMonths(currentMonth(), 2)[0];
+}
+
+async function getEffectiveBudget(scope: SyncScope, month: string): Promise<GroceryBudget | null> {
+  const [budget] = await db
+    .select()
+    .from(groceryBudgets)
+    .where(and(scopeFilter(groceryBudgets, scope), lte(groceryBudgets.month, month)))
+    .orderBy(desc(groceryBudgets.month), desc(groceryBudgets.updatedAt))
+    .limit(1);
+  return budget ?? null;
+}
+
+async function loadMonthSpend(scope: SyncScope, month: string, categoryBudgets: Record<string, number> | null) {
+  const { start, end } = monthBounds(month);
+  const receipts = await db
+    .select({ id: groceryReceipts.id, totalAmount: groceryReceipts.totalAmount })
+    .from(groceryReceipts)
+    .where(and(
+      scopeFilter(groceryReceipts, scope),
+      gte(groceryReceipts.purchaseDate, start),
+      lte(groceryReceipts.purchaseDate, end),
+    ));
+
+  const lines = receipts.length > 0
+    ? await db
+        .select({
+          receiptId: itemPriceHistory.receiptId,
+          category: itemPriceHistory.category,
+          totalPrice: itemPriceHistory.totalPrice,
+        })
+        .from(itemPriceHistory)
+        .where(inArray(itemPriceHistory.receiptId, receipts.map((r) => r.id)))
+    : [];
+
+  const linesByReceipt = new Map<string, SpendLine[]>();
+  for (const line of lines) {
+    if (!line.receiptId) continue;
+    const group = linesByReceipt.get(line.receiptId);
+    if (group) group.push(line);
+    else linesByReceipt.set(line.receiptId, [line]);
+  }
+
+  const spent = Math.round(receipts.reduce((sum, r) => sum + r.totalAmount, 0) * 100) / 100;
+  return {
+    spent,
+    receiptCount: receipts.length,
+    categories: breakdownSpend(receipts, linesByReceipt, categoryBudgets),
+  };
+}
+
+async function buildSummary(scope: SyncScope, month: string): Promise<BudgetSummary & { budgetRow: GroceryBudget | null }> {
+  const budgetRow = await getEffectiveBudget(scope, month);
+  const categoryBudgets = (budgetRow?.categoryBudgets as Record<string, number> | null) ?? null;
+  const spend = await loadMonthSpend(scope, month, categoryBudgets);
+  const budget = budgetRow?.amount ?? null;
+
+  return {
+    month,
+    budget,
+    budgetMonth: budgetRow?.month ?? null,
+    spent: spend.spent,
+    remaining: budget === null ? null : Math.round((budget - spend.spent) * 100) / 100,
+    status: budgetStatus(spend.spent, budget),
+    receiptCount: spend.receiptCount,
+    categories: spend.categories,
+    budgetRow,
+  };
+}
+
+/** Spend against budget for a month, with a per-category breakdown. */
+export async function getBudgetSummary(userId: string, month: string = currentMonth()): Promise<BudgetSummary> {
+  const scope = await resolveSyncScope(userId);
+  const { budgetRow: _budgetRow, ...summary } = await buildSummary(scope, month);
+  return summary;
+}
+
+/** Sets the budget for a month, and for later months that don't set their own. */
+export async function setMonthlyBudget(userId: string, month: string, input: SetBudgetInput): Promise<BudgetSummary> {
+  const scope = await resolveSyncScope(userId, "write");
+  const categoryBudgets = input.categoryBudgets
+    ? Object.fromEntries(
+        Object.entries(input.categoryBudgets).map(([category, amount]) => [category.trim().toLowerCase(), amount]),
+      )
+    : null;
+
+  const [existing] = await db
+    .select({ id: groceryBudgets.id })
+    .from(groceryBudgets)
+    .where(and(scopeFilter(groceryBudgets, scope), eq(groceryBudgets.month, month)))
+    .limit(1);
+
+  if (existing) {
+    await db
+      .update(groceryBudgets)
+      .set({ amount: input.amount, categoryBudgets, updatedAt: new Date() })
+      .where(eq(groceryBudgets.id, existing.id));
+  } else {
+    await db.insert(groceryBudgets).values({
+      userId,
+      householdId: scope.householdId,
+      month,
+      amount: input.amount,
+      categoryBudgets,
+    });
+  }
+
+  logger.info("Grocery budget set", { userId, householdId: scope.householdId, month, amount: input.amount });
+  return getBudgetSummary(userId, month);
+}
+
+/**
+ * Spend and budget for the `months` months ending with the current one,
+ * oldest first. Closed months are read from the rollup in
+ * monthly_log_summaries when it has them.
+ */
+export async function getSpendHistory(userId: string, months: number): Promise<MonthlySpend[]> {
+  const scope = await resolveSyncScope(userId);
+  const range = previousMonths(currentMonth(), months);
+  const openFrom = firstOpenMonth();
+  const closed = range.filter((month) => month < openFrom);
+
+  const rolledUp = new Map<string, number>();
+  if (closed.length > 0) {
+    const memberIds = await getScopeMemberIds(scope);
+    const rows = await db
+      .select({
+        month: monthlyLogSummaries.month,
+        spent: sql<number>`coalesce(sum(${monthlyLogSummaries.totalQuantity}), 0)::float`,
+      })
+      .from(monthlyLogSummaries)
+      .where(and(
+        inArray(monthlyLogSummaries.userId, memberIds),
+        eq(monthlyLogSummaries.logType, SPEND_LOG_TYPE),
+        inArray(monthlyLogSummaries.month, closed),
+      ))
+      .groupBy(monthlyLogSummaries.month);
+    for (const row of rows) rolledUp.set(row.month, Math.round(Number(row.spent) * 100) / 100);
+  }
+
+  return Promise.all(range.map(async (month) => {
+    const budgetRow = await getEffectiveBudget(scope, month);
+    const spent = rolledUp.get(month) ?? (await loadMonthSpend(scope, month, null)).spent;
+    return { month, spent, budget: budgetRow?.amount ?? null };
+  }));
+}
+
+/**
+ * Notifies everyone sharing the budget when a newly recorded receipt takes
+ * the month over it. Sent at most once per month.
+ */
+export async function checkBudgetAfterReceipt(userId: string, purchaseDate: string, receiptAmount: number): Promise<void> {
+  const scope = await resolveSyncScope(userId);
+  const month = monthKey(purchaseDate);
+  const summary = await buildSummary(scope, month);
+  const budgetRow = summary.budgetRow;
+
+  if (!budgetRow || budgetRow.lastAlertedMonth === month) return;
+  if (!crossedBudget(summary.spent - receiptAmount, summary.spent, summary.budget)) return;
+
+  await db
+    .update(groceryBudgets)
+    .set({ lastAlertedMonth: month, updatedAt: new Date() })
+    .where(eq(groceryBudgets.id, budgetRow.id));
+
+  const overBy = (summary.spent - budgetRow.amount).toFixed(2);
+  const memberIds = await getScopeMemberIds(scope);
+  await Promise.all(memberIds.map((memberId) => queueNotification({
+    userId: memberId,
+    type: "grocery_budget_exceeded",
+    title: "Grocery budget exceeded",
+    body: `You've spent $${summary.spent.toFixed(2)} on groceries this month, $${overBy} over your $${budgetRow.amount.toFixed(2)} budget.`,
+    data: { month, spent: summary.spent, budget: budgetRow.amount },
+    deepLink: "chefspaice://analytics",
+  })));
+
+  logger.info("Grocery budget exceeded", { userId, householdId: scope.householdId, month, spent: summary.spent });
+}
+
+/**
+ * Rolls receipt spend up into monthly_log_summaries by user, month and
+ * category for closed months. Recomputes rather than adds, so it can run
+ * repeatedly.
+ */
+export async function rollUpMonthlySpend(): Promise<number> {
+  const openFrom = `${firstOpenMonth()}-01`;
+
+  const result = await db.execute(sql`
+    INSERT INTO monthly_log_summaries (user_id, month, log_type, category, total_items, total_quantity)
+    SELECT user_id, month, ${SPEND_LOG_TYPE}, category, SUM(items)::int, SUM(amount)
+    FROM (
+      SELECT
+        user_id,
+        LEFT(purchase_date, 7) AS month,
+        COALESCE(NULLIF(LOWER(TRIM(category)), ''), 'other') AS category,
+        1 AS items,
+        total_price AS amount
+      FROM item_price_history
+      WHERE receipt_id IS NOT NULL AND purchase_date < ${openFrom}
+      UNION ALL
+      SELECT
+        r.user_id,
+        LEFT(r.purchase_date, 7),
+        'other',
+        0,
+        r.total_amount - COALESCE((SELECT SUM(p.total_price) FROM item_price_history p WHERE p.receipt_id = r.id), 0)
+      FROM grocery_receipts r
+      WHERE r.purchase_date < ${openFrom}
+    ) spend
+    GROUP BY user_id, month, category
+    ON CONFLICT (user_id, month, log_type, category)
+    DO UPDATE SET
+      total_items = EXCLUDED.total_items,
+      total_quantity = EXCLUDED.total_quantity
+  `);
+
+  return result.rowCount ?? 0;
+}
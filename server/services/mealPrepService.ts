@@ -0,0 +1,127 @@
+import { and, gte, inArray, lte } from "drizzle-orm";
+import { db } from "../db";
+import { userMealPlans, userSavedRecipes } from "@shared/schema";
+import { normalizeMeals } from "@shared/meal-plan";
+import { DEFAULT_LEFTOVERS_DAYS, LEFTOVERS_CATEGORY } from "@shared/leftovers";
+import { AppError } from "../middleware/errorHandler";
+import { getShelfLifeForLocation } from "../lib/shelf-life-data";
+import {
+  buildMealPrepPlan,
+  capacityFromAppliances,
+  type MealPrepMeal,
+  type MealPrepPlan,
+  type MealPrepRecipe,
+} from "../lib/meal-prep";
+import { getUserAppliances } from "./applianceService";
+import { resolveSyncScope, scopeFilter, getScopeMemberIds } from "../routers/sync/sync-helpers";
+
+const WEEK_DAYS = 7;
+const DEFAULT_FREEZER_DAYS = 90;
+
+export interface MealPrepRequest {
+  weekStart: string;
+  /** Day of the prep session; defaults to `weekStart`. */
+  prepDate?: string;
+  /** Recipes to batch-cook; defaults to every recipe planned that week. */
+  recipeIds?: string[];
+}
+
+export interface MealPrepWeekRecipe {
+  recipeId: string;
+  title: string;
+  plannedMeals: number;
+  selected: boolean;
+}
+
+export interface MealPrepResult extends MealPrepPlan {
+  weekStart: string;
+  weekEnd: string;
+  recipes: MealPrepWeekRecipe[];
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Plans a batch-cooking session for the recipes on the user's (or household's)
+ * meal plan in the week from `weekStart`. Meals before the prep day are left
+ * out. Cooking is scheduled on the appliances listed in the user's kitchen.
+ */
+export async function planMealPrep(userId: string, request: MealPrepRequest): Promise<MealPrepResult> {
+  const { weekStart } = request;
+  const weekEnd = addDays(weekStart, WEEK_DAYS - 1);
+  const prepDate = request.prepDate ?? weekStart;
+  if (prepDate > weekEnd) {
+    throw AppError.badRequest("prepDate must fall within the week", "INVALID_PREP_DATE");
+  }
+
+  const scope = await resolveSyncScope(userId);
+  const [plans, appliances, memberIds] = await Promise.all([
+    db
+      .select({ date: userMealPlans.date, meals: userMealPlans.meals })
+      .from(userMealPlans)
+      .where(and(
+        scopeFilter(userMealPlans, scope),
+        gte(userMealPlans.date, prepDate),
+        lte(userMealPlans.date, weekEnd),
+      )),
+    getUserAppliances(userId),
+    getScopeMemberIds(scope),
+  ]);
+
+  const meals: MealPrepMeal[] = plans.flatMap((plan) =>
+    Object.entries(normalizeMeals(plan.meals)).flatMap(([slotId, entry]) =>
+      entry.type === "recipe" ? [{ date: plan.date, slotId, recipeId: entry.recipeId }] : [],
+    ),
+  );
+  const plannedIds = [...new Set(meals.map((meal) => meal.recipeId))];
+
+  const rows = plannedIds.length > 0
+    ? await db
+        .select()
+        .from(userSavedRecipes)
+        .where(and(inArray(userSavedRecipes.userId, memberIds), inArray(userSavedRecipes.itemId, plannedIds)))
+    : [];
+  const recipes: MealPrepRecipe[] = rows.map((row) => ({
+    itemId: row.itemId,
+    title: row.title,
+    servings: row.servings,
+    prepTime: row.prepTime,
+    cookTime: row.cookTime,
+    ingredients: Array.isArray(row.ingredients) ? (row.ingredients as MealPrepRecipe["ingredients"]) : [],
+    instructions: Array.isArray(row.instructions)
+      ? (row.instructions as unknown[]).filter((step): step is string => typeof step === "string")
+      : [],
+  }));
+
+  const selectedIds = new Set(request.recipeIds ?? recipes.map((recipe) => recipe.itemId));
+  const selected = recipes.filter((recipe) => selectedIds.has(recipe.itemId));
+
+  const plan = buildMealPrepPlan(
+    selected,
+    meals,
+    capacityFromAppliances(appliances.map((a) => a.appliance.name)),
+    {
+      prepDate,
+      fridgeDays: getShelfLifeForLocation(LEFTOVERS_CATEGORY, "fridge")?.days ?? DEFAULT_LEFTOVERS_DAYS,
+      freezerDays: getShelfLifeForLocation(LEFTOVERS_CATEGORY, "freezer")?.days ?? DEFAULT_FREEZER_DAYS,
+    },
+  );
+
+  return {
+    ...plan,
+    weekStart,
+    weekEnd,
+    recipes: recipes
+      .map((recipe) => ({
+        recipeId: recipe.itemId,
+        title: recipe.title,
+        plannedMeals: meals.filter((meal) => meal.recipeId === recipe.itemId).length,
+        selected: selectedIds.has(recipe.itemId),
+      }))
+      .sort((a, b) => a.title.localeCompare(b.title)),
+  };
+}
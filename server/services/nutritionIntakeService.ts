@@ -0,0 +1,167 @@
+import { and, eq, gte, lt } from "drizzle-orm";
+import { db } from "../db";
+import { userConsumedLogs, userSyncKV } from "@shared/schema";
+import {
+  averageTotals,
+  compareToTargets,
+  localDateKey,
+  previousDays,
+  readNutrition,
+  resolveDailyTargets,
+  sumNutrition,
+  type DailyTargets,
+  type MacroTargetPercents,
+  type NutrientProgress,
+  type NutrientTotals,
+  type NutritionGoals,
+  type NutritionValues,
+} from "@shared/nutrition-intake";
+
+export interface IntakeEntry {
+  id: string;
+  itemName: string;
+  quantity: number | null;
+  unit: string | null;
+  date: string;
+  nutrition: NutritionValues | null;
+  recipeTitle: string | null;
+}
+
+export interface DailyIntake {
+  date: string;
+  totals: NutrientTotals;
+  targets: DailyTargets;
+  progress: NutrientProgress[];
+  entries: IntakeEntry[];
+  /** Entries logged that day without nutrition data; they count as zero. */
+  untrackedCount: number;
+}
+
+export interface IntakeTrendDay {
+  date: string;
+  totals: NutrientTotals;
+  entryCount: number;
+}
+
+export interface IntakeTrend {
+  startDate: string;
+  endDate: string;
+  days: IntakeTrendDay[];
+  /** Averaged over days with at least one entry. */
+  average: NutrientTotals;
+  targets: DailyTargets;
+}
+
+function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86_400_000).toISOString().slice(0, 10);
+}
+
+/** Today's local date for a client UTC offset (minutes, as from getTimezoneOffset). */
+export function todayFor(timezoneOffset: number): string {
+  return localDateKey(new Date().toISOString(), timezoneOffset)!;
+}
+
+/** Daily targets from the user's synced preferences (macroTargets and nutritionGoals). */
+export async function getNutritionTargets(userId: string): Promise<DailyTargets> {
+  const [row] = await db
+    .select({ data: userSyncKV.data })
+    .from(userSyncKV)
+    .where(and(eq(userSyncKV.userId, userId), eq(userSyncKV.section, "preferences")))
+    .limit(1);
+  const preferences = (row?.data ?? {}) as {
+    macroTargets?: Partial<MacroTargetPercents>;
+    nutritionGoals?: NutritionGoals;
+  };
+  return resolveDailyTargets(preferences.macroTargets, preferences.nutritionGoals);
+}
+
+/**
+ * Consumed-log entries whose local date falls between two dates, inclusive.
+ * Entry dates are ISO timestamps in UTC, so the query widens the range by a
+ * day on each side and the exact local day is decided afterwards.
+ */
+async function loadEntries(
+  userId: string,
+  startDate: string,
+  endDate: string,
+  timezoneOffset: number,
+): Promise<Map<string, IntakeEntry[]>> {
+  const rows = await db
+    .select()
+    .from(userConsumedLogs)
+    .where(and(
+      eq(userConsumedLogs.userId, userId),
+      gte(userConsumedLogs.date, shiftDate(startDate, -1)),
+      lt(userConsumedLogs.date, shiftDate(endDate, 2)),
+    ));
+
+  const byDay = new Map<string, IntakeEntry[]>();
+  for (const row of rows) {
+    if (!row.date) continue;
+    const day = localDateKey(row.date, timezoneOffset);
+    if (!day || day < startDate || day > endDate) continue;
+    const extra = (row.extraData ?? {}) as Record<string, unknown>;
+    const entry: IntakeEntry = {
+      id: row.entryId,
+      itemName: row.itemName,
+      quantity: row.quantity,
+      unit: row.unit,
+      date: row.date,
+      nutrition: readNutrition(extra.nutrition),
+      recipeTitle: typeof extra.recipeTitle === "string" ? extra.recipeTitle : null,
+    };
+    const list = byDay.get(day) ?? [];
+    list.push(entry);
+    byDay.set(day, list);
+  }
+  for (const list of byDay.values()) {
+    list.sort((a, b) => a.date.localeCompare(b.date));
+  }
+  return byDay;
+}
+
+/** Calorie, macro, fiber and sodium totals for one local day, compared to the user's targets. */
+export async function getDailyIntake(userId: string, date: string, timezoneOffset = 0): Promise<DailyIntake> {
+  const [entriesByDay, targets] = await Promise.all([
+    loadEntries(userId, date, date, timezoneOffset),
+    getNutritionTargets(userId),
+  ]);
+  const entries = entriesByDay.get(date) ?? [];
+  const totals = sumNutrition(entries);
+
+  return {
+    date,
+    totals,
+    targets,
+    progress: compareToTargets(totals, targets),
+    entries,
+    untrackedCount: entries.filter((entry) => !entry.nutrition).length,
+  };
+}
+
+/** Daily totals for the `days` days ending on `endDate`, oldest first. */
+export async function getIntakeTrend(
+  userId: string,
+  endDate: string,
+  days: number,
+  timezoneOffset = 0,
+): Promise<IntakeTrend> {
+  const dates = previousDays(endDate, days);
+  const [entriesByDay, targets] = await Promise.all([
+    loadEntries(userId, dates[0], endDate, timezoneOffset),
+    getNutritionTargets(userId),
+  ]);
+
+  const trendDays = dates.map((date) => {
+    const entries = entriesByDay.get(date) ?? [];
+    return { date, totals: sumNutrition(entries), entryCount: entries.length };
+  });
+
+  return {
+    startDate: dates[0],
+    endDate,
+    days: trendDays,
+    average: averageTotals(trendDays.filter((day) => day.entryCount > 0).map((day) => day.totals)),
+    targets,
+  };
+}
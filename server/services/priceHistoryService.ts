@@ -0,0 +1,234 @@
+import { desc } from "drizzle-orm";
+import { db } from "../db";
+import { groceryReceipts, itemPriceHistory, type ItemPriceHistory } from "@shared/schema";
+import { logger } from "../lib/logger";
+import {
+  normalizePriceName,
+  toUnitPrice,
+  findPricePoints,
+  estimateItemValue,
+  type ItemValueEstimate,
+} from "../lib/price-tracking";
+import { resolveSyncScope, scopeFilter, type SyncScope } from "../routers/sync/sync-helpers";
+
+const HISTORY_LIMIT = 2000;
+
+export interface ReceiptPriceInput {
+  items: { name: string; category?: string; quantity: number; quantityUnit: string; price?: number }[];
+  storeName?: string;
+  purchaseDate?: string;
+  totalAmount?: number;
+}
+
+export interface RecordedReceipt {
+  receiptId: string;
+  purchaseDate: string;
+  totalAmount: number;
+  pricesRecorded: number;
+}
+
+export interface PriceHistoryEntry {
+  id: string;
+  itemName: string;
+  storeName: string | null;
+  purchaseDate: string;
+  quantity: number;
+  unit: string;
+  totalPrice: number;
+  unitPrice: number;
+  baseUnit: string;
+}
+
+export interface PriceHistorySummary {
+  itemName: string;
+  baseUnit: string;
+  purchases: number;
+  latestUnitPrice: number;
+  lowestUnitPrice: number;
+  highestUnitPrice: number;
+  averageUnitPrice: number;
+  lastPurchased: string;
+  lastStoreName: string | null;
+}
+
+export interface ItemPriceHistoryResult {
+  itemName: string;
+  summary: PriceHistorySummary | null;
+  entries: PriceHistoryEntry[];
+}
+
+export interface ValueEstimateItem {
+  name: string;
+  quantity: number;
+  unit: string | null;
+  estimate: ItemValueEstimate | null;
+}
+
+export interface ValueEstimateResult {
+  items: ValueEstimateItem[];
+  total: number;
+  pricedCount: number;
+}
+
+function isIsoDate(value: string | undefined): value is string {
+  return !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+async function loadHistory(scope: SyncScope): Promise<ItemPriceHistory[]> {
+  return db
+    .select()
+    .from(itemPriceHistory)
+    .where(scopeFilter(itemPriceHistory, scope))
+    .orderBy(desc(itemPriceHistory.purchaseDate), desc(itemPriceHistory.createdAt))
+    .limit(HISTORY_LIMIT);
+}
+
+function toEntry(row: ItemPriceHistory): PriceHistoryEntry {
+  return {
+    id: row.id,
+    itemName: row.itemName,
+    storeName: row.storeName,
+    purchaseDate: row.purchaseDate,
+    quantity: row.quantity,
+    unit: row.unit,
+    totalPrice: row.totalPrice,
+    unitPrice: row.unitPrice,
+    baseUnit: row.baseUnit,
+  };
+}
+
+/** Summarizes rows for one item (newest first) in the latest purchase's base unit. */
+function summarize(rows: ItemPriceHistory[]): PriceHistorySummary | null {
+  const [latest] = rows;
+  if (!latest) return null;
+  const comparable = rows.filter((row) => row.baseUnit === latest.baseUnit);
+  const prices = comparable.map((row) => row.unitPrice);
+
+  return {
+    itemName: latest.itemName,
+    baseUnit: latest.baseUnit,
+    purchases: comparable.length,
+    latestUnitPrice: latest.unitPrice,
+    lowestUnitPrice: Math.min(...prices),
+    highestUnitPrice: Math.max(...prices),
+    averageUnitPrice: prices.reduce((sum, price) => sum + price, 0) / prices.length,
+    lastPurchased: latest.purchaseDate,
+    lastStoreName: latest.storeName,
+  };
+}
+
+/**
+ * Stores an analyzed receipt and a price point for each of its priced items.
+ * Dates the receipt doesn't show (or shows unreadably) fall back to today.
+ * Receipts with no priced items and no readable total are not stored.
+ */
+export async function recordReceipt(userId: string, receipt: ReceiptPriceInput): Promise<RecordedReceipt | null> {
+  const purchaseDate = isIsoDate(receipt.purchaseDate)
+    ? receipt.purchaseDate
+    : new Date().toISOString().slice(0, 10);
+  const storeName = receipt.storeName?.trim() || null;
+
+  const rows = receipt.items.flatMap((item) => {
+    const unitPrice = item.price !== undefined ? toUnitPrice(item.price, item.quantity, item.quantityUnit) : null;
+    const normalizedName = normalizePriceName(item.name);
+    if (!unitPrice || !normalizedName) return [];
+    return [{
+      itemName: item.name,
+      normalizedName,
+      category: item.category ?? null,
+      storeName,
+      purchaseDate,
+      quantity: item.quantity,
+      unit: item.quantityUnit,
+      totalPrice: item.price!,
+      ...unitPrice,
+    }];
+  });
+
+  const linesTotal = rows.reduce((sum, row) => sum + row.totalPrice, 0);
+  const totalAmount = receipt.totalAmount && receipt.totalAmount > 0 ? receipt.totalAmount : linesTotal;
+  if (totalAmount <= 0) return null;
+
+  const scope = await resolveSyncScope(userId);
+  const receiptId = await db.transaction(async (tx) => {
+    const [saved] = await tx
+      .insert(groceryReceipts)
+      .values({
+        userId,
+        householdId: scope.householdId,
+        storeName,
+        purchaseDate,
+        totalAmount: Math.round(totalAmount * 100) / 100,
+        itemCount: receipt.items.length,
+      })
+      .returning({ id: groceryReceipts.id });
+
+    if (rows.length > 0) {
+      await tx.insert(itemPriceHistory).values(
+        rows.map((row) => ({ ...row, userId, householdId: scope.householdId, receiptId: saved.id, source: "receipt" })),
+      );
+    }
+    return saved.id;
+  });
+
+  logger.info("Receipt recorded", { userId, receiptId, pricesRecorded: rows.length, storeName });
+  return { receiptId, purchaseDate, totalAmount, pricesRecorded: rows.length };
+}
+
+/** Latest, lowest, highest and average unit price for every item with a recorded price. */
+export async function listPriceSummaries(userId: string): Promise<PriceHistorySummary[]> {
+  const scope = await resolveSyncScope(userId);
+  const rows = await loadHistory(scope);
+
+  const byName = new Map<string, ItemPriceHistory[]>();
+  for (const row of rows) {
+    const group = byName.get(row.normalizedName);
+    if (group) group.push(row);
+    else byName.set(row.normalizedName, [row]);
+  }
+
+  return [...byName.values()]
+    .map(summarize)
+    .filter((summary): summary is PriceHistorySummary => summary !== null)
+    .sort((a, b) => a.itemName.localeCompare(b.itemName));
+}
+
+/** Every recorded price for an item, newest first, with a summary. */
+export async function getItemPriceHistory(userId: string, itemName: string): Promise<ItemPriceHistoryResult> {
+  const scope = await resolveSyncScope(userId);
+  const rows = findPricePoints(await loadHistory(scope), itemName);
+  const exactName = normalizePriceName(itemName);
+  const exact = rows.filter((row) => row.normalizedName === exactName);
+
+  return {
+    itemName,
+    summary: summarize(exact.length > 0 ? exact : rows),
+    entries: rows.map(toEntry),
+  };
+}
+
+/**
+ * Values each item at its most recent recorded price. Items without a
+ * comparable price get a null estimate and are left out of the total.
+ */
+export async function estimateItemValues(
+  userId: string,
+  items: { name: string; quantity: number; unit?: string | null }[],
+): Promise<ValueEstimateResult> {
+  const scope = await resolveSyncScope(userId);
+  const history = await loadHistory(scope);
+
+  const estimated = items.map((item) => ({
+    name: item.name,
+    quantity: item.quantity,
+    unit: item.unit ?? null,
+    estimate: estimateItemValue(history, item.name, item.quantity, item.unit),
+  }));
+  const priced = estimated.filter((item) => item.estimate !== null);
+
+  return {
+    items: estimated,
+    total: Math.round(priced.reduce((sum, item) => sum + item.estimate!.value, 0) * 100) / 100,
+    pricedCount: priced.length,
+  };
+}
@@ -0,0 +1,180 @@
+import { and, desc, eq } from "drizzle-orm";
+import { db } from "../db";
+import { recipeCookLogs, userSavedRecipes, type RecipeCookLog } from "@shared/schema";
+import { AppError } from "../middleware/errorHandler";
+import {
+  buildTasteProfile,
+  summarizeCookLog,
+  type RecipeCookStats,
+  type TasteProfile,
+} from "../lib/cook-log";
+
+export interface CookLogEntry {
+  id: string;
+  recipeId: string;
+  cookEventId: string | null;
+  cookedAt: string;
+  rating: number | null;
+  eaters: string[];
+  notes: string | null;
+  photoUri: string | null;
+}
+
+export interface CookLogInput {
+  cookedAt?: string;
+  rating?: number | null;
+  eaters?: string[];
+  notes?: string | null;
+  photoUri?: string | null;
+}
+
+export interface RecipeCookLogResult {
+  entries: CookLogEntry[];
+  stats: RecipeCookStats | null;
+}
+
+function toEntry(row: RecipeCookLog): CookLogEntry {
+  return {
+    id: row.id,
+    recipeId: row.recipeId,
+    cookEventId: row.cookEventId,
+    cookedAt: row.cookedAt.toISOString(),
+    rating: row.rating,
+    eaters: Array.isArray(row.eaters) ? (row.eaters as string[]) : [],
+    notes: row.notes,
+    photoUri: row.photoUri,
+  };
+}
+
+function cleanEaters(eaters: string[]): string[] {
+  const seen = new Set<string>();
+  return eaters
+    .map((name) => name.trim())
+    .filter((name) => {
+      const key = name.toLowerCase();
+      if (!name || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+async function assertRecipeExists(userId: string, recipeId: string): Promise<void> {
+  const [recipe] = await db
+    .select({ id: userSavedRecipes.id })
+    .from(userSavedRecipes)
+    .where(and(eq(userSavedRecipes.userId, userId), eq(userSavedRecipes.itemId, recipeId)))
+    .limit(1);
+  if (!recipe) {
+    throw AppError.notFound("Recipe not found", "RECIPE_NOT_FOUND");
+  }
+}
+
+function entryFilter(userId: string, recipeId: string, entryId: string) {
+  return and(
+    eq(recipeCookLogs.userId, userId),
+    eq(recipeCookLogs.recipeId, recipeId),
+    eq(recipeCookLogs.id, entryId),
+  );
+}
+
+/** A saved recipe's cook log, newest first, with its summary stats. */
+export async function listCookLog(userId: string, recipeId: string): Promise<RecipeCookLogResult> {
+  await assertRecipeExists(userId, recipeId);
+  const rows = await db
+    .select()
+    .from(recipeCookLogs)
+    .where(and(eq(recipeCookLogs.userId, userId), eq(recipeCookLogs.recipeId, recipeId)))
+    .orderBy(desc(recipeCookLogs.cookedAt));
+
+  return {
+    entries: rows.map(toEntry),
+    stats: summarizeCookLog(rows)[0] ?? null,
+  };
+}
+
+export async function addCookLogEntry(userId: string, recipeId: string, input: CookLogInput): Promise<CookLogEntry> {
+  await assertRecipeExists(userId, recipeId);
+  const [row] = await db
+    .insert(recipeCookLogs)
+    .values({
+      userId,
+      recipeId,
+      cookedAt: input.cookedAt ? new Date(input.cookedAt) : new Date(),
+      rating: input.rating ?? null,
+      eaters: cleanEaters(input.eaters ?? []),
+      notes: input.notes?.trim() || null,
+      photoUri: input.photoUri ?? null,
+    })
+    .returning();
+  return toEntry(row);
+}
+
+/** Rates or annotates an entry; fields left out of `input` are kept. */
+export async function updateCookLogEntry(
+  userId: string,
+  recipeId: string,
+  entryId: string,
+  input: CookLogInput,
+): Promise<CookLogEntry> {
+  const [row] = await db
+    .update(recipeCookLogs)
+    .set({
+      ...(input.cookedAt !== undefined && { cookedAt: new Date(input.cookedAt) }),
+      ...(input.rating !== undefined && { rating: input.rating }),
+      ...(input.eaters !== undefined && { eaters: cleanEaters(input.eaters) }),
+      ...(input.notes !== undefined && { notes: input.notes?.trim() || null }),
+      ...(input.photoUri !== undefined && { photoUri: input.photoUri }),
+      updatedAt: new Date(),
+    })
+    .where(entryFilter(userId, recipeId, entryId))
+    .returning();
+  if (!row) {
+    throw AppError.notFound("Cook log entry not found", "COOK_LOG_ENTRY_NOT_FOUND");
+  }
+  return toEntry(row);
+}
+
+export async function deleteCookLogEntry(userId: string, recipeId: string, entryId: string): Promise<void> {
+  const deleted = await db
+    .delete(recipeCookLogs)
+    .where(entryFilter(userId, recipeId, entryId))
+    .returning({ id: recipeCookLogs.id });
+  if (deleted.length === 0) {
+    throw AppError.notFound("Cook log entry not found", "COOK_LOG_ENTRY_NOT_FOUND");
+  }
+}
+
+export async function deleteRecipeCookLogs(userId: string, recipeId: string): Promise<void> {
+  await db
+    .delete(recipeCookLogs)
+    .where(and(eq(recipeCookLogs.userId, userId), eq(recipeCookLogs.recipeId, recipeId)));
+}
+
+/** Cook stats for every recipe the user has logged, for sorting the recipe list. */
+export async function getCookStats(userId: string): Promise<RecipeCookStats[]> {
+  const rows = await db
+    .select({ recipeId: recipeCookLogs.recipeId, cookedAt: recipeCookLogs.cookedAt, rating: recipeCookLogs.rating })
+    .from(recipeCookLogs)
+    .where(eq(recipeCookLogs.userId, userId));
+  return summarizeCookLog(rows);
+}
+
+/** What the household has rated well or badly, for recipe generation. */
+export async function getTasteProfile(userId: string): Promise<TasteProfile> {
+  const [stats, recipes] = await Promise.all([
+    getCookStats(userId),
+    db
+      .select({ recipeId: userSavedRecipes.itemId, title: userSavedRecipes.title, extraData: userSavedRecipes.extraData })
+      .from(userSavedRecipes)
+      .where(eq(userSavedRecipes.userId, userId)),
+  ]);
+
+  return buildTasteProfile(
+    stats,
+    recipes.map((recipe) => ({
+      recipeId: recipe.recipeId,
+      title: recipe.title,
+      cuisine: (recipe.extraData as Record<string, unknown> | null)?.cuisine as string | undefined,
+    })),
+  );
+}
@@ -0,0 +1,433 @@
+import { randomUUID } from "crypto";
+import { and, desc, eq, isNull, inArray } from "drizzle-orm";
+import { db } from "../db";
+import {
+  userInventoryItems,
+  userSavedRecipes,
+  userConsumedLogs,
+  recipeCookEvents,
+  recipeCookLogs,
+} from "@shared/schema";
+import {
+  consumeFifo,
+  getItemLots,
+  restoreLots,
+  type InventoryLot,
+  type LotConsumption,
+} from "@shared/inventory-lots";
+import {
+  DEFAULT_LEFTOVERS_DAYS,
+  LEFTOVERS_CATEGORY,
+  LEFTOVERS_UNIT,
+  leftoversName,
+} from "@shared/leftovers";
+import { AppError } from "../middleware/errorHandler";
+import { logger } from "../lib/logger";
+import { getShelfLifeForLocation } from "../lib/shelf-life-data";
+import {
+  planRecipeDeductions,
+  totalDeductionsByItem,
+  allocateNutrition,
+  type CookNutrition,
+  type IngredientDeduction,
+} from "../lib/recipe-deduction";
+import {
+  resolveSyncScope,
+  scopeFilter,
+  updateScopeTimestamp,
+  updateSectionTimestamp,
+  nextSyncRevision,
+  recordTombstones,
+  type SyncScope,
+} from "../routers/sync/sync-helpers";
+
+type InventoryRow = typeof userInventoryItems.$inferSelect;
+type RecipeRow = typeof userSavedRecipes.$inferSelect;
+
+type InventorySnapshot = Omit<InventoryRow, "id" | "addedAt" | "updatedAt" | "deletedAt" | "revision">;
+
+/** What one cook took from one inventory item, kept for undo. */
+export interface RecipeCookItemSnapshot {
+  itemId: string;
+  before: InventorySnapshot;
+  consumed: LotConsumption[];
+  depleted: boolean;
+}
+
+export interface RecipeCookPreview {
+  recipeId: string;
+  recipeTitle: string;
+  servings: number;
+  deductions: IngredientDeduction[];
+}
+
+/** Servings to keep as leftovers after cooking. */
+export interface LeftoversRequest {
+  servings: number;
+  storageLocation?: "fridge" | "freezer";
+}
+
+export interface RecipeCookLeftovers {
+  itemId: string;
+  name: string;
+  servings: number;
+  storageLocation: string;
+  expirationDate: string;
+}
+
+export interface RecipeCookResult extends RecipeCookPreview {
+  cookId: string;
+  /** The cook log entry recorded for this cook, to rate or annotate. */
+  cookLogId: string;
+  consumedEntryIds: string[];
+  leftovers: RecipeCookLeftovers | null;
+}
+
+export interface RecipeCookUndoResult {
+  cookId: string;
+  recipeId: string;
+  recipeTitle: string;
+  restoredItems: number;
+}
+
+interface RecipeIngredientRecord {
+  name: string;
+  quantity: number | string;
+  unit?: string | null;
+}
+
+async function loadRecipe(userId: string, recipeId: string): Promise<RecipeRow> {
+  const [recipe] = await db
+    .select()
+    .from(userSavedRecipes)
+    .where(and(eq(userSavedRecipes.userId, userId), eq(userSavedRecipes.itemId, recipeId)))
+    .limit(1);
+  if (!recipe) {
+    throw AppError.notFound("Recipe not found", "RECIPE_NOT_FOUND");
+  }
+  return recipe;
+}
+
+/** Finds a saved recipe by title for chat, preferring an exact match. */
+export async function findSavedRecipeByTitle(userId: string, title: string): Promise<RecipeRow | null> {
+  const recipes = await db.select().from(userSavedRecipes).where(eq(userSavedRecipes.userId, userId));
+  const titleLower = title.toLowerCase().trim();
+  return (
+    recipes.find((r) => r.title.toLowerCase().trim() === titleLower) ??
+    recipes.find((r) => r.title.toLowerCase().includes(titleLower) || titleLower.includes(r.title.toLowerCase())) ??
+    null
+  );
+}
+
+async function loadInventory(scope: SyncScope): Promise<InventoryRow[]> {
+  return db
+    .select()
+    .from(userInventoryItems)
+    .where(and(scopeFilter(userInventoryItems, scope), isNull(userInventoryItems.deletedAt)));
+}
+
+function buildPreview(recipe: RecipeRow, inventory: InventoryRow[], servings?: number): RecipeCookPreview {
+  const baseServings = recipe.servings && recipe.servings > 0 ? recipe.servings : 1;
+  const targetServings = servings && servings > 0 ? servings : baseServings;
+  const ingredients = Array.isArray(recipe.ingredients)
+    ? (recipe.ingredients as RecipeIngredientRecord[])
+    : [];
+
+  return {
+    recipeId: recipe.itemId,
+    recipeTitle: recipe.title,
+    servings: targetServings,
+    deductions: planRecipeDeductions(
+      ingredients,
+      inventory.map((row) => ({ itemId: row.itemId, name: row.name, quantity: row.quantity, unit: row.unit })),
+      targetServings / baseServings,
+    ),
+  };
+}
+
+function planLeftovers(recipe: RecipeRow, request: LeftoversRequest, cookedAt: Date): RecipeCookLeftovers {
+  const storageLocation = request.storageLocation ?? "fridge";
+  const days = getShelfLifeForLocation(LEFTOVERS_CATEGORY, storageLocation)?.days ?? DEFAULT_LEFTOVERS_DAYS;
+  return {
+    itemId: randomUUID(),
+    name: leftoversName(recipe.title),
+    servings: request.servings,
+    storageLocation,
+    expirationDate: new Date(cookedAt.getTime() + days * 86_400_000).toISOString(),
+  };
+}
+
+function snapshotRow(row: InventoryRow): InventorySnapshot {
+  const { id: _id, addedAt: _addedAt, updatedAt: _updatedAt, deletedAt: _deletedAt, revision: _revision, ...snapshot } = row;
+  return snapshot;
+}
+
+/**
+ * Works out what cooking `servings` of a saved recipe would take from the
+ * user's (or their household's) inventory, without changing anything.
+ */
+export async function previewRecipeCook(
+  userId: string,
+  recipeId: string,
+  servings?: number,
+): Promise<RecipeCookPreview> {
+  const scope = await resolveSyncScope(userId);
+  const [recipe, inventory] = await Promise.all([loadRecipe(userId, recipeId), loadInventory(scope)]);
+  return buildPreview(recipe, inventory, servings);
+}
+
+/**
+ * Deducts the recipe's scaled ingredients from inventory (FIFO across lots),
+ * logs each as consumed with its share of the recipe's nutrition, and records
+ * a cook event that `undoRecipeCook` can reverse, plus a cook log entry. With
+ * `leftovers`, the uneaten servings are added to inventory as a leftovers item.
+ */
+export async function cookRecipe(
+  userId: string,
+  recipeId: string,
+  servings?: number,
+  leftovers?: LeftoversRequest,
+): Promise<RecipeCookResult> {
+  const scope = await resolveSyncScope(userId, "write");
+  const [recipe, inventory] = await Promise.all([loadRecipe(userId, recipeId), loadInventory(scope)]);
+  const preview = buildPreview(recipe, inventory, servings);
+
+  if (leftovers && leftovers.servings > preview.servings) {
+    throw AppError.badRequest("Leftovers can't be more than the servings cooked", "TOO_MANY_LEFTOVERS");
+  }
+
+  const totals = totalDeductionsByItem(preview.deductions);
+  if (totals.size === 0 && !leftovers) {
+    throw AppError.badRequest("None of this recipe's ingredients could be taken from your inventory", "NOTHING_TO_DEDUCT");
+  }
+
+  const cookId = randomUUID();
+  const cookLogId = randomUUID();
+  const cookedAtDate = new Date();
+  const cookedAt = cookedAtDate.toISOString();
+  const leftoversItem = leftovers ? planLeftovers(recipe, leftovers, cookedAtDate) : null;
+  const rowsById = new Map(inventory.map((row) => [row.itemId, row]));
+  const perServing = recipe.nutrition as CookNutrition | null;
+  const nutrition = perServing
+    ? allocateNutrition(preview.deductions, {
+        ...perServing,
+        calories: perServing.calories * preview.servings,
+        protein: perServing.protein * preview.servings,
+        carbs: perServing.carbs * preview.servings,
+        fat: perServing.fat * preview.servings,
+        ...(perServing.fiber !== undefined && { fiber: perServing.fiber * preview.servings }),
+        ...(perServing.sugar !== undefined && { sugar: perServing.sugar * preview.servings }),
+      })
+    : preview.deductions.map(() => null);
+
+  const consumedEntries = preview.deductions.flatMap((deduction, index) => {
+    const row = deduction.itemId ? rowsById.get(deduction.itemId) : undefined;
+    if (!row || deduction.deductQuantity <= 0) return [];
+    return [{
+      userId,
+      entryId: randomUUID(),
+      itemName: row.name,
+      quantity: deduction.deductQuantity,
+      unit: row.unit,
+      date: cookedAt,
+      extraData: {
+        category: row.category,
+        ...(nutrition[index] && { nutrition: nutrition[index] }),
+        originalItemId: row.itemId,
+        recipeId: recipe.itemId,
+        recipeTitle: recipe.title,
+        cookId,
+      },
+    }];
+  });
+
+  const snapshots: RecipeCookItemSnapshot[] = [];
+
+  await db.transaction(async (tx) => {
+    for (const [itemId, quantity] of totals) {
+      const row = rowsById.get(itemId)!;
+      const rowFilter = and(scopeFilter(userInventoryItems, scope), eq(userInventoryItems.itemId, itemId));
+      const result = consumeFifo({ ...row, lots: row.lots as InventoryLot[] | null }, quantity);
+
+      snapshots.push({ itemId, before: snapshotRow(row), consumed: result.consumed, depleted: result.depleted });
+
+      if (result.depleted) {
+        await tx.delete(userInventoryItems).where(rowFilter);
+        await recordTombstones([{ userId, householdId: row.householdId, dataType: "inventory", itemId }], tx);
+        continue;
+      }
+
+      await tx.update(userInventoryItems).set({
+        quantity: result.item.quantity,
+        purchaseDate: result.item.purchaseDate,
+        expirationDate: result.item.expirationDate,
+        storageLocation: result.item.storageLocation,
+        lots: result.item.lots,
+        updatedAt: new Date(),
+        revision: nextSyncRevision(),
+      }).where(rowFilter);
+    }
+
+    if (consumedEntries.length > 0) {
+      await tx.insert(userConsumedLogs).values(consumedEntries);
+    }
+
+    if (leftoversItem) {
+      await tx.insert(userInventoryItems).values({
+        userId,
+        householdId: scope.householdId,
+        itemId: leftoversItem.itemId,
+        name: leftoversItem.name,
+        quantity: leftoversItem.servings,
+        unit: LEFTOVERS_UNIT,
+        storageLocation: leftoversItem.storageLocation,
+        purchaseDate: cookedAt,
+        expirationDate: leftoversItem.expirationDate,
+        category: LEFTOVERS_CATEGORY,
+        nutrition: perServing,
+        recipeId: recipe.itemId,
+      });
+    }
+
+    await tx.insert(recipeCookEvents).values({
+      id: cookId,
+      userId,
+      householdId: scope.householdId,
+      recipeId: recipe.itemId,
+      recipeTitle: recipe.title,
+      servings: preview.servings,
+      deductions: snapshots,
+      consumedEntryIds: consumedEntries.map((entry) => entry.entryId),
+      leftoversItemId: leftoversItem?.itemId ?? null,
+    });
+
+    await tx.insert(recipeCookLogs).values({
+      id: cookLogId,
+      userId,
+      recipeId: recipe.itemId,
+      cookEventId: cookId,
+      cookedAt: cookedAtDate,
+      eaters: [],
+    });
+  });
+
+  await updateScopeTimestamp(scope, "inventory");
+  await updateSectionTimestamp(userId, "consumedLog");
+
+  logger.info("Recipe cooked", {
+    userId,
+    recipeId: recipe.itemId,
+    cookId,
+    itemsDeducted: totals.size,
+    leftoverServings: leftoversItem?.servings ?? 0,
+  });
+
+  return {
+    ...preview,
+    cookId,
+    cookLogId,
+    consumedEntryIds: consumedEntries.map((entry) => entry.entryId),
+    leftovers: leftoversItem,
+  };
+}
+
+/**
+ * Puts back what a cook took from inventory and removes its consumed-log
+ * entries, cook log entry and leftovers. Without a cookId, undoes the user's most recent cook.
+ */
+export async function undoRecipeCook(userId: string, cookId?: string): Promise<RecipeCookUndoResult> {
+  const scope = await resolveSyncScope(userId, "write");
+
+  const [event] = await db
+    .select()
+    .from(recipeCookEvents)
+    .where(and(
+      eq(recipeCookEvents.userId, userId),
+      isNull(recipeCookEvents.undoneAt),
+      ...(cookId ? [eq(recipeCookEvents.id, cookId)] : []),
+    ))
+    .orderBy(desc(recipeCookEvents.createdAt))
+    .limit(1);
+
+  if (!event) {
+    throw AppError.notFound(
+      cookId ? "Cook not found or already undone" : "No cooked recipe to undo",
+      "COOK_NOT_FOUND",
+    );
+  }
+
+  const snapshots = event.deductions as RecipeCookItemSnapshot[];
+  const entryIds = event.consumedEntryIds as string[];
+
+  await db.transaction(async (tx) => {
+    for (const snapshot of snapshots) {
+      const rowFilter = and(scopeFilter(userInventoryItems, scope), eq(userInventoryItems.itemId, snapshot.itemId));
+      const [current] = await tx.select().from(userInventoryItems).where(rowFilter).limit(1);
+      const sourceLots = getItemLots({ ...snapshot.before, lots: snapshot.before.lots as InventoryLot[] | null });
+
+      if (current) {
+        const restored = restoreLots(
+          { ...current, lots: current.lots as InventoryLot[] | null },
+          snapshot.consumed,
+          sourceLots,
+        );
+        await tx.update(userInventoryItems).set({
+          quantity: restored.quantity,
+          purchaseDate: restored.purchaseDate,
+          expirationDate: restored.expirationDate,
+          storageLocation: restored.storageLocation,
+          lots: restored.lots,
+          deletedAt: null,
+          updatedAt: new Date(),
+          revision: nextSyncRevision(),
+        }).where(rowFilter);
+        continue;
+      }
+
+      const restored = restoreLots(
+        { ...snapshot.before, quantity: 0, lots: null },
+        snapshot.consumed,
+        sourceLots,
+      );
+      await tx.insert(userInventoryItems).values({
+        ...restored,
+        householdId: scope.householdId,
+        updatedAt: new Date(),
+      });
+    }
+
+    if (event.leftoversItemId) {
+      await tx.delete(userInventoryItems).where(
+        and(scopeFilter(userInventoryItems, scope), eq(userInventoryItems.itemId, event.leftoversItemId)),
+      );
+      await recordTombstones(
+        [{ userId, householdId: scope.householdId, dataType: "inventory", itemId: event.leftoversItemId }],
+        tx,
+      );
+    }
+
+    if (entryIds.length > 0) {
+      await tx.delete(userConsumedLogs).where(
+        and(eq(userConsumedLogs.userId, userId), inArray(userConsumedLogs.entryId, entryIds)),
+      );
+    }
+
+    await tx.delete(recipeCookLogs).where(
+      and(eq(recipeCookLogs.userId, userId), eq(recipeCookLogs.cookEventId, event.id)),
+    );
+
+    await tx.update(recipeCookEvents).set({ undoneAt: new Date() }).where(eq(recipeCookEvents.id, event.id));
+  });
+
+  await updateScopeTimestamp(scope, "inventory");
+  await updateSectionTimestamp(userId, "consumedLog");
+
+  logger.info("Recipe cook undone", { userId, cookId: event.id });
+
+  return {
+    cookId: event.id,
+    recipeId: event.recipeId,
+    recipeTitle: event.recipeTitle,
+    restoredItems: snapshots.length,
+  };
+}
@@ -18,6 +18,13 @@ import { logger } from "../lib/logger";
 import { AppError } from "../middleware/errorHandler";
 import { processImageFromBase64, processImage } from "./imageProcessingService";
 import { withCircuitBreaker } from "../lib/circuit-breaker";
+import type { TasteProfile } from "../lib/cook-log";
+import { getTasteProfile } from "./recipeCookLogService";
+import {
+  ingredientName,
+  normalizeIngredient,
+  type StructuredIngredient,
+} from "@shared/ingredient-parser";
 
 const openai = new OpenAI({
   baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
@@ -109,6 +116,9 @@ export interface GeneratedRecipe {
     inventoryMatch?: string;
     quantity: number | string;
     unit: string;
+    preparation?: string;
+    notes?: string;
+    isOptional?: boolean;
     fromInventory?: boolean;
     availabilityStatus?: AvailabilityStatus;
     percentAvailable?: number;
@@ -182,6 +192,8 @@ export interface ScannedRecipe {
   title: string;
   description: string;
   ingredients: string[];
+  /** The same lines split into quantity, unit, name and preparation. */
+  parsedIngredients: StructuredIngredient[];
   instructions: string[];
   prepTime: string;
   cookTime: string;
@@ -484,6 +496,16 @@ export function organizeInventory(
   return { expiringItems, otherItems };
 }
 
+/** The user's taste profile for the prompt; generation goes ahead without it on failure. */
+export async function loadTasteProfile(userId: string): Promise<TasteProfile | undefined> {
+  try {
+    return await getTasteProfile(userId);
+  } catch (error) {
+    logger.warn("Failed to load taste profile", { userId, error: error instanceof Error ? error.message : String(error) });
+    return undefined;
+  }
+}
+
 export function buildSmartPrompt(params: {
   expiringItems: ExpiringItem[];
   otherItems: InventoryItem[];
@@ -498,6 +520,7 @@ export function buildSmartPrompt(params: {
   macroTargets?: { protein: number; carbs: number; fat: number };
   previousRecipeTitles?: string[];
   ingredientCount?: { min: number; max: number };
+  tasteProfile?: TasteProfile;
 }): string {
   const {
     expiringItems,
@@ -513,6 +536,7 @@ export function buildSmartPrompt(params: {
     macroTargets = { protein: 50, carbs: 35, fat: 15 },
     previousRecipeTitles = [],
     ingredientCount = { min: 4, max: 6 },
+    tasteProfile,
   } = params;
   void _prioritizeExpiring;
 
@@ -569,6 +593,21 @@ export function buildSmartPrompt(params: {
     prompt += `Choose a different cooking style, cuisine influence, or main ingredient focus.\n\n`;
   }
 
+  if (tasteProfile && (tasteProfile.loved.length > 0 || tasteProfile.disliked.length > 0)) {
+    prompt += `=== HOUSEHOLD TASTES ===\n`;
+    prompt += `From the household's own ratings of recipes they have cooked:\n`;
+    if (tasteProfile.loved.length > 0) {
+      prompt += `- Loved: ${tasteProfile.loved.join(", ")}\n`;
+    }
+    if (tasteProfile.favoriteCuisines.length > 0) {
+      prompt += `- Favorite cuisines: ${tasteProfile.favoriteCuisines.join(", ")}\n`;
+    }
+    if (tasteProfile.disliked.length > 0) {
+      prompt += `- Didn't enjoy: ${tasteProfile.disliked.join(", ")}\n`;
+    }
+    prompt += `Lean towards the flavors and styles they loved and away from the ones they didn't, without repeating these recipes.\n\n`;
+  }
+
   if (mealType) {
     prompt += `MEAL TYPE: ${mealType.toUpperCase()}\n`;
     if (mealType === "breakfast") {
@@ -701,6 +740,7 @@ export function buildSmartPrompt(params: {
 }
 
 export function fuzzyMatch(recipeIngredient: string, inventoryItem: string): boolean {
+  recipeIngredient = ingredientName(recipeIngredient);
   const normalize = (s: string) => {
     let normalized = s
       .toLowerCase()
@@ -898,6 +938,7 @@ export function postProcessRecipe(
 ): PostProcessResult {
   const originalIngredientCount = recipe.ingredients?.length || 0;
   recipe.ingredients = (recipe.ingredients || [])
+    .map((raw) => normalizeIngredient(raw) ?? raw)
     .map((ing) => {
       const matchedInventoryItem = inventoryItems.find((invItem) =>
         fuzzyMatch(ing.inventoryMatch || ing.name, invItem.name),
@@ -1165,10 +1206,17 @@ export async function scanRecipeFromImage(base64Image: string): Promise<ScannedR
 
   logger.info("Recipe scan complete", { title: result.title });
 
+  const ingredients: string[] = Array.isArray(result.ingredients)
+    ? result.ingredients.filter((line: unknown): line is string => typeof line === "string")
+    : [];
+
   return {
     title: result.title || "Untitled Recipe",
     description: result.description || "",
-    ingredients: result.ingredients || [],
+    ingredients,
+    parsedIngredients: ingredients
+      .map((line) => normalizeIngredient(line))
+      .filter((ing): ing is StructuredIngredient => ing !== null),
     instructions: result.instructions || [],
     prepTime: result.prepTime || "",
     cookTime: result.cookTime || "",
@@ -1236,6 +1284,7 @@ export async function generateRecipe(
     }
 
     const effectiveMaxTime = quickRecipe ? 20 : maxTime;
+    const tasteProfile = await loadTasteProfile(userId);
 
     const prompt = buildSmartPrompt({
       expiringItems,
@@ -1251,6 +1300,7 @@ export async function generateRecipe(
       macroTargets,
       previousRecipeTitles,
       ingredientCount,
+      tasteProfile,
     });
 
     if (process.env.NODE_ENV !== "production") {
@@ -0,0 +1,224 @@
+import { randomUUID } from "crypto";
+import http, { type IncomingMessage } from "http";
+import https from "https";
+import { db } from "../db";
+import { userSavedRecipes } from "@shared/schema";
+import { logger } from "../lib/logger";
+import { AppError } from "../middleware/errorHandler";
+import { resolvePublicUrl, type PublicTarget } from "../lib/public-url";
+import { parseRecipeHtml, type ImportedIngredient, type RecipeImportMethod } from "../lib/recipe-import";
+import { updateSectionTimestamp } from "../routers/sync/sync-helpers";
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_PAGE_BYTES = 3 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+
+export interface RecipeImportInput {
+  url?: string;
+  html?: string;
+}
+
+/** Where an imported recipe came from; stored as `importedFrom` in extraData. */
+export interface RecipeImportSource {
+  url: string | null;
+  siteName: string | null;
+  author: string | null;
+  method: RecipeImportMethod;
+  importedAt: string;
+}
+
+/** The saved recipe in the shape the client stores. */
+export interface ImportedRecipeRecord {
+  id: string;
+  title: string;
+  description: string;
+  ingredients: ImportedIngredient[];
+  instructions: string[];
+  prepTime: number;
+  cookTime: number;
+  servings: number;
+  imageUri?: string;
+  cuisine?: string;
+  isFavorite: boolean;
+  isAIGenerated: false;
+  createdAt: string;
+  source: "imported";
+  importedFrom: RecipeImportSource;
+}
+
+/** Sends a GET to the checked address only, keeping the URL's host for TLS and the Host header. */
+function requestPage(target: PublicTarget): Promise<IncomingMessage> {
+  const client = target.url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.request(
+      target.url,
+      {
+        method: "GET",
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        headers: {
+          Accept: "text/html,application/xhtml+xml",
+          "User-Agent": "ChefSpAIce Recipe Importer",
+        },
+        lookup: (_hostname, options, callback) => {
+          if (options.all) {
+            callback(null, [{ address: target.address, family: target.family }]);
+          } else {
+            callback(null, target.address, target.family);
+          }
+        },
+      },
+      resolve,
+    );
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+async function readBody(response: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    size += chunk.length;
+    if (size > MAX_PAGE_BYTES) {
+      response.destroy();
+      throw AppError.badRequest("That page is too large to import", "IMPORT_FETCH_FAILED");
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+/**
+ * Downloads a recipe page. Redirects are followed by hand so each hop is
+ * checked against internal addresses, and every connection goes to the
+ * address that was checked rather than a fresh DNS answer.
+ */
+export async function fetchRecipePage(rawUrl: string): Promise<{ html: string; url: string }> {
+  let target = await resolvePublicUrl(rawUrl);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const url = target.url;
+    let response: IncomingMessage;
+    try {
+      response = await requestPage(target);
+    } catch (error) {
+      logger.warn("Recipe page fetch failed", { url: url.toString(), error: error instanceof Error ? error.message : String(error) });
+      throw AppError.badRequest("Could not load that page", "IMPORT_FETCH_FAILED");
+    }
+
+    const status = response.statusCode ?? 0;
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.resume();
+      target = await resolvePublicUrl(new URL(location, url).toString());
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw AppError.badRequest(`The page returned an error (${status})`, "IMPORT_FETCH_FAILED");
+    }
+
+    const contentType = response.headers["content-type"] ?? "";
+    if (contentType && !/html|xml/i.test(contentType)) {
+      response.resume();
+      throw AppError.badRequest("That link isn't a web page", "IMPORT_FETCH_FAILED");
+    }
+    const declaredLength = Number(response.headers["content-length"]);
+    if (declaredLength > MAX_PAGE_BYTES) {
+      response.destroy();
+      throw AppError.badRequest("That page is too large to import", "IMPORT_FETCH_FAILED");
+    }
+
+    let html: string;
+    try {
+      html = await readBody(response);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      logger.warn("Recipe page fetch failed", { url: url.toString(), error: error instanceof Error ? error.message : String(error) });
+      throw AppError.badRequest("Could not load that page", "IMPORT_FETCH_FAILED");
+    }
+    return { html, url: url.toString() };
+  }
+
+  throw AppError.badRequest("Too many redirects", "IMPORT_FETCH_FAILED");
+}
+
+/**
+ * Imports a recipe from page HTML, or from a URL fetched here, and saves it
+ * to the user's recipes with where it came from in extraData.
+ */
+export async function importRecipe(userId: string, input: RecipeImportInput): Promise<ImportedRecipeRecord> {
+  let html = input.html;
+  let sourceUrl = input.url ?? null;
+  if (!html) {
+    if (!sourceUrl) {
+      throw AppError.badRequest("Provide a URL or page HTML", "VALIDATION_ERROR");
+    }
+    const page = await fetchRecipePage(sourceUrl);
+    html = page.html;
+    sourceUrl = page.url;
+  }
+
+  const parsed = parseRecipeHtml(html, sourceUrl ?? undefined);
+  if (!parsed) {
+    throw AppError.badRequest("No recipe was found on that page", "RECIPE_NOT_FOUND");
+  }
+
+  const createdAt = new Date().toISOString();
+  const record: ImportedRecipeRecord = {
+    id: randomUUID(),
+    title: parsed.title,
+    description: parsed.description,
+    ingredients: parsed.ingredients,
+    instructions: parsed.instructions,
+    prepTime: parsed.prepTime ?? 0,
+    cookTime: parsed.cookTime ?? 0,
+    servings: parsed.servings ?? 4,
+    ...(parsed.imageUrl ? { imageUri: parsed.imageUrl } : {}),
+    ...(parsed.cuisine ? { cuisine: parsed.cuisine } : {}),
+    isFavorite: false,
+    isAIGenerated: false,
+    createdAt,
+    source: "imported",
+    importedFrom: {
+      url: sourceUrl,
+      siteName: parsed.siteName,
+      author: parsed.author,
+      method: parsed.method,
+      importedAt: createdAt,
+    },
+  };
+
+  await db.insert(userSavedRecipes).values({
+    userId,
+    itemId: record.id,
+    title: record.title,
+    description: record.description,
+    ingredients: record.ingredients,
+    instructions: record.instructions,
+    prepTime: record.prepTime,
+    cookTime: record.cookTime,
+    servings: record.servings,
+    imageUri: record.imageUri ?? null,
+    isFavorite: false,
+    extraData: {
+      isAIGenerated: false,
+      createdAt,
+      ...(record.cuisine ? { cuisine: record.cuisine } : {}),
+      source: record.source,
+      importedFrom: record.importedFrom,
+    },
+  });
+  await updateSectionTimestamp(userId, "recipes");
+
+  logger.info("Recipe imported", {
+    userId,
+    recipeId: record.id,
+    method: parsed.method,
+    siteName: parsed.siteName,
+    ingredientCount: record.ingredients.length,
+  });
+
+  return record;
+}
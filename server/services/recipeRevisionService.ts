@@ -0,0 +1,113 @@
+import { and, desc, eq } from "drizzle-orm";
+import { db } from "../db";
+import { recipeRevisions, userSavedRecipes, type RecipeRevision } from "@shared/schema";
+import { AppError } from "../middleware/errorHandler";
+import {
+  diffRecipeSnapshots,
+  sameContent,
+  snapshotFromRecipe,
+  type RecipeDiff,
+  type RecipeSnapshot,
+} from "../lib/recipe-revisions";
+
+export interface RecipeRevisionEntry extends RecipeSnapshot {
+  version: number;
+  restoredFrom: number | null;
+  createdAt: string | null;
+}
+
+export interface RecipeRevisionDiff {
+  from: number;
+  to: number;
+  diff: RecipeDiff;
+}
+
+function toSnapshot(row: RecipeRevision): RecipeSnapshot {
+  return snapshotFromRecipe(row);
+}
+
+function toEntry(row: RecipeRevision): RecipeRevisionEntry {
+  return {
+    ...toSnapshot(row),
+    version: row.version,
+    restoredFrom: row.restoredFrom,
+    createdAt: row.createdAt?.toISOString() ?? null,
+  };
+}
+
+async function loadRevisions(userId: string, recipeId: string): Promise<RecipeRevision[]> {
+  return db
+    .select()
+    .from(recipeRevisions)
+    .where(and(eq(recipeRevisions.userId, userId), eq(recipeRevisions.recipeId, recipeId)))
+    .orderBy(desc(recipeRevisions.version));
+}
+
+/**
+ * Records the recipe's content after an accepted sync write. `previous` is
+ * the content it replaced; for recipes saved before history existed it
+ * becomes version 1 so the first edit can still be undone. Writes that don't
+ * change the content (favoriting, images) add nothing.
+ */
+export async function recordRecipeRevision(
+  userId: string,
+  recipeId: string,
+  next: RecipeSnapshot,
+  previous?: RecipeSnapshot,
+): Promise<void> {
+  const existing = await loadRevisions(userId, recipeId);
+  const rows: (typeof recipeRevisions.$inferInsert)[] = [];
+  let version = existing[0]?.version ?? 0;
+
+  if (existing.length === 0 && previous && !sameContent(previous, next)) {
+    rows.push({ userId, recipeId, version: ++version, ...previous });
+  } else if (existing.length > 0 && sameContent(toSnapshot(existing[0]), next)) {
+    return;
+  }
+
+  const restoredFrom = existing.find((row) => sameContent(toSnapshot(row), next))?.version ?? null;
+  rows.push({ userId, recipeId, version: ++version, ...next, restoredFrom });
+
+  await db.insert(recipeRevisions).values(rows).onConflictDoNothing();
+}
+
+export async function deleteRecipeRevisions(userId: string, recipeId: string): Promise<void> {
+  await db
+    .delete(recipeRevisions)
+    .where(and(eq(recipeRevisions.userId, userId), eq(recipeRevisions.recipeId, recipeId)));
+}
+
+async function assertRecipeExists(userId: string, recipeId: string): Promise<void> {
+  const [recipe] = await db
+    .select({ id: userSavedRecipes.id })
+    .from(userSavedRecipes)
+    .where(and(eq(userSavedRecipes.userId, userId), eq(userSavedRecipes.itemId, recipeId)))
+    .limit(1);
+  if (!recipe) {
+    throw AppError.notFound("Recipe not found", "RECIPE_NOT_FOUND");
+  }
+}
+
+/** Every recorded version of a saved recipe, newest first. */
+export async function listRecipeRevisions(userId: string, recipeId: string): Promise<RecipeRevisionEntry[]> {
+  await assertRecipeExists(userId, recipeId);
+  const rows = await loadRevisions(userId, recipeId);
+  return rows.map(toEntry);
+}
+
+export async function diffRecipeRevisions(
+  userId: string,
+  recipeId: string,
+  from: number,
+  to: number,
+): Promise<RecipeRevisionDiff> {
+  await assertRecipeExists(userId, recipeId);
+  const rows = await loadRevisions(userId, recipeId);
+  const before = rows.find((row) => row.version === from);
+  const after = rows.find((row) => row.version === to);
+  if (!before || !after) {
+    throw AppError.notFound("Recipe version not found", "RECIPE_REVISION_NOT_FOUND");
+  }
+
+  return { from, to, diff: diffRecipeSnapshots(toSnapshot(before), toSnapshot(after)) };
+}
@@ -0,0 +1,28 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { users } from "@shared/schema";
+import { scaleRecipe, type RecipeScaleResult, type ScalableIngredient, type UnitSystem } from "../lib/recipe-scaling";
+
+export interface ScaleRecipeInput {
+  ingredients: ScalableIngredient[];
+  fromServings: number;
+  toServings: number;
+  /** Overrides the user's saved `preferredUnits` for this request. */
+  units?: UnitSystem;
+  instructions?: string[];
+}
+
+/** Scales a recipe's ingredients into the user's preferred units. */
+export async function scaleRecipeForUser(userId: string, input: ScaleRecipeInput): Promise<RecipeScaleResult> {
+  let units = input.units;
+  if (!units) {
+    const [user] = await db
+      .select({ preferredUnits: users.preferredUnits })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    units = user?.preferredUnits === "metric" ? "metric" : "imperial";
+  }
+
+  return scaleRecipe(input.ingredients, input.fromServings, input.toServings, units, input.instructions);
+}
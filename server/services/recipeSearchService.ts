@@ -0,0 +1,217 @@
+import { and, desc, eq, inArray, isNull, sql, type SQL } from "drizzle-orm";
+import { db } from "../db";
+import { userInventoryItems, userSavedRecipes, recipeSearchVector } from "@shared/schema";
+import { AppError } from "../middleware/errorHandler";
+import {
+  buildSearchFacets,
+  checkCanMakeNow,
+  readFacetFields,
+  type RecipeSearchFacets,
+} from "../lib/recipe-search";
+import type { CookInventoryItem } from "../lib/recipe-deduction";
+import {
+  resolveSyncScope,
+  scopeFilter,
+  encodeCursor,
+  decodeCursor,
+} from "../routers/sync/sync-helpers";
+
+export interface RecipeSearchParams {
+  q?: string;
+  cuisines?: string[];
+  dietaryTags?: string[];
+  maxTotalTime?: number;
+  /** Cookware the user has; recipes needing anything else are left out. */
+  cookware?: string[];
+  canMakeNow?: boolean;
+  limit: number;
+  cursor?: string;
+}
+
+export interface RecipeSearchHit {
+  id: string;
+  title: string;
+  description: string | null;
+  prepTime: number | null;
+  cookTime: number | null;
+  totalTime: number | null;
+  servings: number | null;
+  cuisine: string | null;
+  dietaryTags: string[];
+  requiredCookware: string[];
+  isFavorite: boolean;
+  canMakeNow: boolean;
+  missingIngredients: string[];
+  updatedAt: string | null;
+}
+
+export interface RecipeSearchResult {
+  items: RecipeSearchHit[];
+  nextCursor?: string;
+  /** Only on the first page; later pages reuse the first page's counts. */
+  facets?: RecipeSearchFacets;
+}
+
+/** Rows read per query while filling a page that "can make now" thins out. */
+const CAN_MAKE_BATCH_SIZE = 100;
+
+/**
+ * Sort key for paging. Rows synced before updatedAt was always set have it
+ * null; they sort as the oldest recipes instead of breaking the cursor.
+ */
+const sortedAt = sql<Date>`coalesce(${userSavedRecipes.updatedAt}, 'epoch'::timestamp)`.mapWith(userSavedRecipes.updatedAt);
+
+const searchColumns = {
+  id: userSavedRecipes.id,
+  itemId: userSavedRecipes.itemId,
+  title: userSavedRecipes.title,
+  description: userSavedRecipes.description,
+  ingredients: userSavedRecipes.ingredients,
+  prepTime: userSavedRecipes.prepTime,
+  cookTime: userSavedRecipes.cookTime,
+  servings: userSavedRecipes.servings,
+  isFavorite: userSavedRecipes.isFavorite,
+  extraData: userSavedRecipes.extraData,
+  updatedAt: userSavedRecipes.updatedAt,
+  sortedAt,
+};
+
+function textArray(values: string[]): SQL {
+  return sql`ARRAY[${sql.join(values.map((v) => sql`${v}`), sql`, `)}]::text[]`;
+}
+
+function textMatch(q: string | undefined): SQL | undefined {
+  const query = q?.trim();
+  if (!query) return undefined;
+  return sql`${recipeSearchVector(userSavedRecipes)} @@ websearch_to_tsquery('english', ${query})`;
+}
+
+function facetFilters(params: RecipeSearchParams): SQL[] {
+  const filters: SQL[] = [];
+
+  if (params.cuisines?.length) {
+    filters.push(inArray(sql`lower(${userSavedRecipes.extraData}->>'cuisine')`, params.cuisines.map((c) => c.toLowerCase())));
+  }
+  if (params.dietaryTags?.length) {
+    filters.push(sql`jsonb_exists_any(coalesce(${userSavedRecipes.extraData}->'dietaryTags', '[]'::jsonb), ${textArray(params.dietaryTags)})`);
+  }
+  if (params.maxTotalTime !== undefined) {
+    filters.push(sql`coalesce(${userSavedRecipes.prepTime}, 0) + coalesce(${userSavedRecipes.cookTime}, 0) <= ${params.maxTotalTime}`);
+  }
+  if (params.cookware) {
+    const owned = params.cookware.map((c) => c.toLowerCase());
+    filters.push(sql`not exists (
+      select 1 from jsonb_array_elements_text(
+        case when jsonb_typeof(${userSavedRecipes.extraData}->'requiredCookware') = 'array'
+          then ${userSavedRecipes.extraData}->'requiredCookware' else '[]'::jsonb end
+      ) as needed(name)
+      where lower(needed.name) <> all(${textArray(owned)})
+    )`);
+  }
+
+  return filters;
+}
+
+async function loadSearchInventory(userId: string): Promise<CookInventoryItem[]> {
+  const scope = await resolveSyncScope(userId);
+  return db
+    .select({
+      itemId: userInventoryItems.itemId,
+      name: userInventoryItems.name,
+      quantity: userInventoryItems.quantity,
+      unit: userInventoryItems.unit,
+    })
+    .from(userInventoryItems)
+    .where(and(scopeFilter(userInventoryItems, scope), isNull(userInventoryItems.deletedAt)));
+}
+
+/**
+ * Searches the user's saved recipes, newest edits first. Pages walk
+ * backwards with the same (updatedAt, id) cursor the recipe sync uses; "can make now" is checked against inventory after the
+ * query, so a page may take several batches to fill.
+ */
+export async function searchSavedRecipes(userId: string, params: RecipeSearchParams): Promise<RecipeSearchResult> {
+  let after: { updatedAt: Date; id: number } | null = null;
+  if (params.cursor) {
+    after = decodeCursor(params.cursor);
+    if (!after) {
+      throw AppError.badRequest("Invalid cursor", "INVALID_CURSOR");
+    }
+  }
+
+  const match = textMatch(params.q);
+  const baseConditions = [eq(userSavedRecipes.userId, userId), ...(match ? [match] : [])];
+  const conditions = [...baseConditions, ...facetFilters(params)];
+  const inventory = await loadSearchInventory(userId);
+
+  const batchSize = params.canMakeNow ? Math.max(params.limit + 1, CAN_MAKE_BATCH_SIZE) : params.limit + 1;
+  const hits: RecipeSearchHit[] = [];
+  const hitKeys: { updatedAt: Date; id: number }[] = [];
+
+  while (hits.length <= params.limit) {
+    const keyset: SQL | undefined = after
+      ? sql`(${sortedAt}, ${userSavedRecipes.id}) < (${after.updatedAt.toISOString()}::timestamp, ${after.id})`
+      : undefined;
+
+    const rows = await db
+      .select(searchColumns)
+      .from(userSavedRecipes)
+      .where(and(...conditions, ...(keyset ? [keyset] : [])))
+      .orderBy(desc(sortedAt), desc(userSavedRecipes.id))
+      .limit(batchSize);
+
+    for (const row of rows) {
+      const availability = checkCanMakeNow(row.ingredients, inventory);
+      if (params.canMakeNow && !availability.canMakeNow) continue;
+
+      const fields = readFacetFields(row);
+      hits.push({
+        id: row.itemId,
+        title: row.title,
+        description: row.description,
+        prepTime: row.prepTime,
+        cookTime: row.cookTime,
+        totalTime: fields.totalTime,
+        servings: row.servings,
+        cuisine: fields.cuisine,
+        dietaryTags: fields.dietaryTags,
+        requiredCookware: fields.requiredCookware,
+        isFavorite: row.isFavorite ?? false,
+        canMakeNow: availability.canMakeNow,
+        missingIngredients: availability.missingIngredients,
+        updatedAt: row.updatedAt?.toISOString() ?? null,
+      });
+      hitKeys.push({ updatedAt: row.sortedAt, id: row.id });
+      if (hits.length > params.limit) break;
+    }
+
+    if (rows.length < batchSize) break;
+    const last = rows[rows.length - 1];
+    after = { updatedAt: last.sortedAt, id: last.id };
+  }
+
+  const hasMore = hits.length > params.limit;
+  const items = hits.slice(0, params.limit);
+  const lastKey = hitKeys[items.length - 1];
+
+  let facets: RecipeSearchFacets | undefined;
+  if (!params.cursor) {
+    const matching = await db
+      .select({
+        recipeId: userSavedRecipes.itemId,
+        prepTime: userSavedRecipes.prepTime,
+        cookTime: userSavedRecipes.cookTime,
+        ingredients: userSavedRecipes.ingredients,
+        extraData: userSavedRecipes.extraData,
+      })
+      .from(userSavedRecipes)
+      .where(and(...baseConditions));
+    facets = buildSearchFacets(matching, inventory);
+  }
+
+  return {
+    items,
+    nextCursor: hasMore && lastKey ? encodeCursor(lastKey.updatedAt, lastKey.id) : undefined,
+    ...(facets && { facets }),
+  };
+}
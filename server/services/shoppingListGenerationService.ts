@@ -0,0 +1,193 @@
+import { randomUUID } from "crypto";
+import { and, eq, gte, lte, inArray, isNull, sql } from "drizzle-orm";
+import { db } from "../db";
+import {
+  users,
+  userMealPlans,
+  userSavedRecipes,
+  userInventoryItems,
+  userShoppingItems,
+} from "@shared/schema";
+import { cookedRecipeIds } from "@shared/meal-plan";
+import { AppError } from "../middleware/errorHandler";
+import { logger } from "../lib/logger";
+import {
+  buildShoppingListFromPlans,
+  type GeneratedShoppingItem,
+  type PlannedRecipe,
+} from "../lib/shopping-list-generation";
+import {
+  resolveSyncScope,
+  scopeFilter,
+  getScopeMemberIds,
+  updateScopeTimestamp,
+  recordTombstones,
+} from "../routers/sync/sync-helpers";
+
+/** Marks shopping items written by the generator, so regenerating can replace them. */
+export const MEAL_PLAN_SHOPPING_SOURCE = "meal_plan";
+
+const MAX_RANGE_DAYS = 31;
+
+export interface GenerateShoppingListOptions {
+  startDate: string;
+  endDate: string;
+  /** Remove unchecked items from an earlier generation first. Defaults to true. */
+  replaceExisting?: boolean;
+}
+
+export interface GeneratedShoppingListItem extends GeneratedShoppingItem {
+  id: string;
+  recipeId: string | null;
+}
+
+export interface GenerateShoppingListResult {
+  startDate: string;
+  endDate: string;
+  householdSize: number;
+  plannedDays: number;
+  plannedRecipes: number;
+  replacedItems: number;
+  items: GeneratedShoppingListItem[];
+}
+
+function daysBetween(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / 86_400_000);
+}
+
+/**
+ * Builds a shopping list from the user's (or household's) meal plan between
+ * two dates, inclusive. Planned recipes are scaled to the user's household
+ * size and whatever inventory already covers is left off. The resulting items
+ * are written to the shopping list, each linked to the recipes that need it.
+ */
+export async function generateShoppingListFromMealPlan(
+  userId: string,
+  options: GenerateShoppingListOptions,
+): Promise<GenerateShoppingListResult> {
+  const { startDate, endDate, replaceExisting = true } = options;
+  const span = daysBetween(startDate, endDate);
+  if (span < 0) {
+    throw AppError.badRequest("endDate must not be before startDate", "INVALID_DATE_RANGE");
+  }
+  if (span >= MAX_RANGE_DAYS) {
+    throw AppError.badRequest(`Date range cannot exceed ${MAX_RANGE_DAYS} days`, "INVALID_DATE_RANGE");
+  }
+
+  const scope = await resolveSyncScope(userId, "write");
+
+  const [[user], plans, inventory, memberIds] = await Promise.all([
+    db.select({ householdSize: users.householdSize }).from(users).where(eq(users.id, userId)).limit(1),
+    db
+      .select({ date: userMealPlans.date, meals: userMealPlans.meals })
+      .from(userMealPlans)
+      .where(and(
+        scopeFilter(userMealPlans, scope),
+        gte(userMealPlans.date, startDate),
+        lte(userMealPlans.date, endDate),
+      )),
+    db
+      .select()
+      .from(userInventoryItems)
+      .where(and(scopeFilter(userInventoryItems, scope), isNull(userInventoryItems.deletedAt))),
+    getScopeMemberIds(scope),
+  ]);
+
+  if (!user) {
+    throw AppError.notFound("User not found", "USER_NOT_FOUND");
+  }
+
+  const mealDays = plans.map((plan) => ({ date: plan.date, meals: plan.meals }));
+  const recipeIds = [...new Set(mealDays.flatMap((plan) => cookedRecipeIds(plan.meals)))];
+
+  const recipeRows = recipeIds.length > 0
+    ? await db
+        .select()
+        .from(userSavedRecipes)
+        .where(and(inArray(userSavedRecipes.userId, memberIds), inArray(userSavedRecipes.itemId, recipeIds)))
+    : [];
+  const recipes: PlannedRecipe[] = recipeRows.map((row) => ({
+    itemId: row.itemId,
+    title: row.title,
+    servings: row.servings,
+    ingredients: Array.isArray(row.ingredients) ? (row.ingredients as PlannedRecipe["ingredients"]) : [],
+  }));
+
+  const generated = buildShoppingListFromPlans(
+    mealDays,
+    recipes,
+    inventory.map((row) => ({
+      itemId: row.itemId,
+      name: row.name,
+      quantity: row.quantity,
+      unit: row.unit,
+      category: row.category,
+    })),
+    user.householdSize,
+  );
+
+  const items: GeneratedShoppingListItem[] = generated.map((item) => ({
+    ...item,
+    id: randomUUID(),
+    recipeId: item.recipeIds[0] ?? null,
+  }));
+
+  let replacedItems = 0;
+  await db.transaction(async (tx) => {
+    if (replaceExisting) {
+      const removed = await tx
+        .delete(userShoppingItems)
+        .where(and(
+          scopeFilter(userShoppingItems, scope),
+          eq(userShoppingItems.isChecked, false),
+          sql`${userShoppingItems.extraData}->>'source' = ${MEAL_PLAN_SHOPPING_SOURCE}`,
+        ))
+        .returning({ itemId: userShoppingItems.itemId, householdId: userShoppingItems.householdId });
+      replacedItems = removed.length;
+      await recordTombstones(
+        removed.map((row) => ({ userId, householdId: row.householdId, dataType: "shoppingList", itemId: row.itemId })),
+        tx,
+      );
+    }
+
+    if (items.length > 0) {
+      await tx.insert(userShoppingItems).values(items.map((item) => ({
+        userId,
+        householdId: scope.householdId,
+        itemId: item.id,
+        name: item.name,
+        quantity: item.quantity,
+        unit: item.unit || "item",
+        isChecked: false,
+        category: item.category,
+        recipeId: item.recipeId,
+        extraData: {
+          source: MEAL_PLAN_SHOPPING_SOURCE,
+          recipeIds: item.recipeIds,
+          mealPlanRange: { startDate, endDate },
+        },
+        updatedAt: new Date(),
+      })));
+    }
+  });
+
+  await updateScopeTimestamp(scope, "shoppingList");
+
+  logger.info("Shopping list generated from meal plan", {
+    userId,
+    startDate,
+    endDate,
+    items: items.length,
+    replacedItems,
+  });
+
+  return {
+    startDate,
+    endDate,
+    householdSize: user.householdSize,
+    plannedDays: mealDays.length,
+    plannedRecipes: recipes.length,
+    replacedItems,
+    items,
+  };
+}
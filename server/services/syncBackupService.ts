@@ -12,11 +12,15 @@ import {
   syncPreferencesSchema, syncAnalyticsSchema, syncOnboardingSchema,
   syncCustomLocationsSchema, syncUserProfileSchema,
 } from "@shared/schema";
+import type { InventoryLot } from "@shared/inventory-lots";
+import { normalizeMeals } from "@shared/meal-plan";
 import { checkPantryItemLimit, checkCookwareLimit } from "./subscriptionService";
 import { AppError } from "../middleware/errorHandler";
 import {
   extractExtraData, recipeKnownKeys, mealPlanKnownKeys,
   shoppingListKnownKeys, cookwareKnownKeys, syncFailures,
+  nextSyncRevision, recordReplacedTombstones,
+  resolveSyncScope, updateScopeTimestamp,
 } from "../routers/sync/sync-helpers";
 
 export const IMPORT_MAX_ARRAY_SIZE = 10_000;
@@ -172,6 +176,8 @@ export async function exportBackup(userId: string): Promise<BackupData> {
     imageUri: item.imageUri,
     fdcId: item.fdcId,
     servingSize: item.servingSize,
+    lots: item.lots,
+    recipeId: item.recipeId,
     updatedAt: item.updatedAt?.toISOString(),
   }));
 
@@ -195,7 +201,7 @@ export async function exportBackup(userId: string): Promise<BackupData> {
   const exportMealPlans = mealPlanRows.map(m => ({
     id: m.itemId,
     date: m.date,
-    meals: m.meals,
+    meals: normalizeMeals(m.meals),
     updatedAt: m.updatedAt?.toISOString(),
     ...(m.extraData as Record<string, unknown> || {}),
   }));
@@ -282,6 +288,11 @@ export async function importBackup(
   const importedConsumedLog = Array.isArray(importData.consumedLog) ? importData.consumedLog as Record<string, unknown>[] : [];
   const importedCustomLocations = Array.isArray(importData.customLocations) ? importData.customLocations as Record<string, unknown>[] : [];
 
+  // Restored pantry, meal plan and shopping rows join the caller's household,
+  // so writing them (or clearing them on replace) needs write access.
+  const touchesShared = mode === "replace" || importedInventory.length > 0 || importedMealPlans.length > 0 || importedShoppingList.length > 0;
+  const scope = await resolveSyncScope(userId, touchesShared ? "write" : "read");
+
   const arraySizeChecks: { name: string; length: number }[] = [
     { name: "inventory", length: importedInventory.length },
     { name: "recipes", length: importedRecipes.length },
@@ -402,20 +413,33 @@ export async function importBackup(
     }
 
     await db.transaction(async (tx) => {
-      await Promise.all([
-        tx.delete(userInventoryItems).where(eq(userInventoryItems.userId, userId)),
-        tx.delete(userSavedRecipes).where(eq(userSavedRecipes.userId, userId)),
-        tx.delete(userMealPlans).where(eq(userMealPlans.userId, userId)),
-        tx.delete(userShoppingItems).where(eq(userShoppingItems.userId, userId)),
-        tx.delete(userCookwareItems).where(eq(userCookwareItems.userId, userId)),
+      const [removedInventory, removedRecipes, removedMealPlans, removedShopping, removedCookware] = await Promise.all([
+        tx.delete(userInventoryItems).where(eq(userInventoryItems.userId, userId))
+          .returning({ itemId: userInventoryItems.itemId, householdId: userInventoryItems.householdId }),
+        tx.delete(userSavedRecipes).where(eq(userSavedRecipes.userId, userId))
+          .returning({ itemId: userSavedRecipes.itemId }),
+        tx.delete(userMealPlans).where(eq(userMealPlans.userId, userId))
+          .returning({ itemId: userMealPlans.itemId, householdId: userMealPlans.householdId }),
+        tx.delete(userShoppingItems).where(eq(userShoppingItems.userId, userId))
+          .returning({ itemId: userShoppingItems.itemId, householdId: userShoppingItems.householdId }),
+        tx.delete(userCookwareItems).where(eq(userCookwareItems.userId, userId))
+          .returning({ itemId: userCookwareItems.itemId }),
       ]);
 
+      const idsOf = (items: Record<string, unknown>[]) => items.map((item) => String(item.id));
+      await recordReplacedTombstones(removedInventory, idsOf(finalInventory), { userId, dataType: "inventory" }, tx);
+      await recordReplacedTombstones(removedRecipes, idsOf(importedRecipes), { userId, dataType: "recipes" }, tx);
+      await recordReplacedTombstones(removedMealPlans, idsOf(importedMealPlans), { userId, dataType: "mealPlans" }, tx);
+      await recordReplacedTombstones(removedShopping, idsOf(importedShoppingList), { userId, dataType: "shoppingList" }, tx);
+      await recordReplacedTombstones(removedCookware, idsOf(finalCookware), { userId, dataType: "cookware" }, tx);
+
       const insertPromises: Promise<unknown>[] = [];
 
       if (finalInventory.length > 0) {
         insertPromises.push(tx.insert(userInventoryItems).values(
           finalInventory.map(item => ({
             userId,
+            householdId: scope.householdId,
             itemId: String(item.id),
             name: String(item.name || ""),
             barcode: item.barcode as string | undefined,
@@ -431,6 +455,8 @@ export async function importBackup(
             imageUri: item.imageUri as string | undefined,
             fdcId: item.fdcId as number | undefined,
             servingSize: item.servingSize as string | undefined,
+            lots: (item.lots as InventoryLot[] | null | undefined) ?? null,
+            recipeId: (item.recipeId as string | null | undefined) ?? null,
             updatedAt: new Date(),
           }))
         ));
@@ -467,9 +493,10 @@ export async function importBackup(
             const extra = extractExtraData(m, mealPlanKnownKeys);
             return {
               userId,
+              householdId: scope.householdId,
               itemId: String(m.id),
               date: String(m.date || ""),
-              meals: m.meals as unknown,
+              meals: normalizeMeals(m.meals),
               extraData: extra,
               updatedAt: new Date(),
             };
@@ -483,6 +510,7 @@ export async function importBackup(
             const extra = extractExtraData(s, shoppingListKnownKeys);
             return {
               userId,
+              householdId: scope.householdId,
               itemId: String(s.id),
               name: String(s.name || ""),
               quantity: Number(s.quantity) || 1,
@@ -532,6 +560,7 @@ export async function importBackup(
       const itemUpdatedAt = parseImportedTimestamp(item.updatedAt);
       upsertPromises.push(db.insert(userInventoryItems).values({
         userId,
+        householdId: scope.householdId,
         itemId: String(item.id),
         name: String(item.name || ""),
         barcode: item.barcode as string | undefined,
@@ -547,10 +576,14 @@ export async function importBackup(
         imageUri: item.imageUri as string | undefined,
         fdcId: item.fdcId as number | undefined,
         servingSize: item.servingSize as string | undefined,
+        lots: (item.lots as InventoryLot[] | null | undefined) ?? null,
+        recipeId: (item.recipeId as string | null | undefined) ?? null,
         updatedAt: itemUpdatedAt,
       }).onConflictDoUpdate({
         target: [userInventoryItems.userId, userInventoryItems.itemId],
         set: {
+          revision: nextSyncRevision(),
+          householdId: scope.householdId,
           name: String(item.name || ""),
           barcode: item.barcode as string | undefined,
           quantity: Number(item.quantity) || 1,
@@ -565,6 +598,8 @@ export async function importBackup(
           imageUri: item.imageUri as string | undefined,
           fdcId: item.fdcId as number | undefined,
           servingSize: item.servingSize as string | undefined,
+          lots: (item.lots as InventoryLot[] | null | undefined) ?? null,
+          recipeId: (item.recipeId as string | null | undefined) ?? null,
           updatedAt: itemUpdatedAt,
         },
         where: sql`${userInventoryItems.updatedAt} IS NULL OR ${userInventoryItems.updatedAt} < excluded.updated_at`,
@@ -593,6 +628,7 @@ export async function importBackup(
       }).onConflictDoUpdate({
         target: [userSavedRecipes.userId, userSavedRecipes.itemId],
         set: {
+          revision: nextSyncRevision(),
           title: String(r.title || ""),
           description: r.description as string | undefined,
           ingredients: r.ingredients as unknown,
@@ -616,16 +652,19 @@ export async function importBackup(
       const mealPlanUpdatedAt = parseImportedTimestamp(m.updatedAt);
       upsertPromises.push(db.insert(userMealPlans).values({
         userId,
+        householdId: scope.householdId,
         itemId: String(m.id),
         date: String(m.date || ""),
-        meals: m.meals as unknown,
+        meals: normalizeMeals(m.meals),
         extraData: extra,
         updatedAt: mealPlanUpdatedAt,
       }).onConflictDoUpdate({
         target: [userMealPlans.userId, userMealPlans.itemId],
         set: {
+          revision: nextSyncRevision(),
+          householdId: scope.householdId,
           date: String(m.date || ""),
-          meals: m.meals as unknown,
+          meals: normalizeMeals(m.meals),
           extraData: extra,
           updatedAt: mealPlanUpdatedAt,
         },
@@ -638,6 +677,7 @@ export async function importBackup(
       const shoppingUpdatedAt = parseImportedTimestamp(s.updatedAt);
       upsertPromises.push(db.insert(userShoppingItems).values({
         userId,
+        householdId: scope.householdId,
         itemId: String(s.id),
         name: String(s.name || ""),
         quantity: Number(s.quantity) || 1,
@@ -650,6 +690,8 @@ export async function importBackup(
       }).onConflictDoUpdate({
         target: [userShoppingItems.userId, userShoppingItems.itemId],
         set: {
+          revision: nextSyncRevision(),
+          householdId: scope.householdId,
           name: String(s.name || ""),
           quantity: Number(s.quantity) || 1,
           unit: String(s.unit || "unit"),
@@ -677,6 +719,7 @@ export async function importBackup(
       }).onConflictDoUpdate({
         target: [userCookwareItems.userId, userCookwareItems.itemId],
         set: {
+          revision: nextSyncRevision(),
           name: c.name as string | undefined,
           category: c.category as string | undefined,
           alternatives: c.alternatives as string[] | undefined,
@@ -696,7 +739,9 @@ export async function importBackup(
   if (mode === "replace") {
     await db.delete(userWasteLogs).where(eq(userWasteLogs.userId, userId));
     await db.delete(userConsumedLogs).where(eq(userConsumedLogs.userId, userId));
-    await db.delete(userStorageLocations).where(eq(userStorageLocations.userId, userId));
+    const removedLocations = await db.delete(userStorageLocations).where(eq(userStorageLocations.userId, userId))
+      .returning({ itemId: userStorageLocations.locationId });
+    await recordReplacedTombstones(removedLocations, importedCustomLocations.filter((loc) => loc.id).map((loc) => String(loc.id)), { userId, dataType: "customLocations" });
   }
 
   for (const entry of importedWasteLog) {
@@ -759,6 +804,7 @@ export async function importBackup(
     }).onConflictDoUpdate({
       target: [userStorageLocations.userId, userStorageLocations.locationId],
       set: {
+        revision: nextSyncRevision(),
         name: String(rec.name || ""),
         type: typeof rec.type === "string" ? rec.type : null,
         extraData: extractExtraData(rec, locationKnownKeys),
@@ -816,6 +862,12 @@ export async function importBackup(
     await db.update(userSyncData).set(syncUpdatePayload).where(eq(userSyncData.userId, userId));
   }
 
+  if (scope.householdId && touchesShared) {
+    for (const section of ["inventory", "mealPlans", "shoppingList"]) {
+      await updateScopeTimestamp(scope, section);
+    }
+  }
+
   const [
     [{ value: finalInventoryCount }],
     [{ value: finalRecipesCount }],
@@ -0,0 +1,95 @@
+import { and, eq, gte, lte } from "drizzle-orm";
+import { db } from "../db";
+import { emailSendLog, userWasteLogs, users } from "@shared/schema";
+import { logger } from "../lib/logger";
+import { previousWeekRange, summarizeWasteWeek } from "../lib/waste-report";
+import { estimateItemValues } from "./priceHistoryService";
+import { getAppBaseUrl, sendTemplatedEmail } from "./emailService";
+
+const REPORT_TEMPLATE = "weekly_waste_report";
+/** Guards against a second report when the job runs early after a restart. */
+const MIN_REPORT_GAP_MS = 6 * 24 * 60 * 60 * 1000;
+
+async function sentRecently(userId: string, now: Date): Promise<boolean> {
+  const [row] = await db
+    .select({ id: emailSendLog.id })
+    .from(emailSendLog)
+    .where(and(
+      eq(emailSendLog.userId, userId),
+      eq(emailSendLog.template, REPORT_TEMPLATE),
+      gte(emailSendLog.createdAt, new Date(now.getTime() - MIN_REPORT_GAP_MS)),
+    ))
+    .limit(1);
+  return !!row;
+}
+
+/**
+ * Emails every user who logged waste last week a summary of it. Users with
+ * nothing logged get no email. Unsubscribes are handled by the email service.
+ */
+export async function sendWeeklyWasteReports(now: Date = new Date()): Promise<{ sent: number; skipped: number }> {
+  const { weekStart, weekEnd } = previousWeekRange(now);
+
+  const logs = await db
+    .select({
+      userId: userWasteLogs.userId,
+      itemName: userWasteLogs.itemName,
+      quantity: userWasteLogs.quantity,
+      unit: userWasteLogs.unit,
+      reason: userWasteLogs.reason,
+    })
+    .from(userWasteLogs)
+    .where(and(gte(userWasteLogs.date, weekStart), lte(userWasteLogs.date, weekEnd)));
+
+  const byUser = new Map<string, typeof logs>();
+  for (const log of logs) {
+    const list = byUser.get(log.userId) ?? [];
+    list.push(log);
+    byUser.set(log.userId, list);
+  }
+
+  let sent = 0;
+  let skipped = 0;
+  for (const [userId, entries] of byUser) {
+    try {
+      if (await sentRecently(userId, now)) {
+        skipped++;
+        continue;
+      }
+
+      const [user] = await db
+        .select({ email: users.email, displayName: users.displayName })
+        .from(users)
+        .where(eq(users.id, userId))
+        .limit(1);
+      if (!user) continue;
+
+      const summary = summarizeWasteWeek(entries);
+      const value = await estimateItemValues(
+        userId,
+        entries.map((e) => ({ name: e.itemName, quantity: e.quantity ?? 1, unit: e.unit })),
+      );
+
+      const result = await sendTemplatedEmail({
+        to: user.email,
+        userId,
+        template: REPORT_TEMPLATE,
+        data: {
+          displayName: user.displayName,
+          weekStart,
+          weekEnd,
+          ...summary,
+          wastedValue: value.pricedCount > 0 ? value.total : null,
+          appUrl: getAppBaseUrl(),
+        },
+      });
+      if (result.status === "sent") sent++;
+      else skipped++;
+    } catch (error) {
+      logger.error("Failed to build waste report", { userId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  logger.info("Weekly waste reports processed", { weekStart, weekEnd, users: byUser.size, sent, skipped });
+  return { sent, skipped };
+}
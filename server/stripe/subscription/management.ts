@@ -11,6 +11,7 @@ import { successResponse } from "../../lib/apiResponse";
 import { logger } from "../../lib/logger";
 import { invalidateSubscriptionCache } from "../../lib/subscription-cache";
 import { getAuthenticatedUser } from "./shared";
+import { getAppBaseUrl, sendTemplatedEmail } from "../../services/emailService";
 
 const router = Router();
 
@@ -99,6 +100,17 @@ router.post("/cancel", validateBody(cancelSubscriptionSchema), async (req: Reque
       offerAccepted,
     });
 
+    void sendTemplatedEmail({
+      to: user.email,
+      userId: user.id,
+      template: "subscription_canceled",
+      data: {
+        displayName: currentUser?.displayName,
+        accessEndsAt: existingSubscription.currentPeriodEnd?.toISOString() ?? null,
+        manageUrl: `${getAppBaseUrl()}/subscription`,
+      },
+    });
+
     res.json(successResponse({
       canceled: true,
       cancelAtPeriodEnd: true,
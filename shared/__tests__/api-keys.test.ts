@@ -0,0 +1,64 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  ACTION_SCOPES,
+  API_KEY_SCOPES,
+  EXTERNAL_ACTIONS,
+  apiKeyDisplayPrefix,
+  isApiKeyExpired,
+  isApiKeyScope,
+  keyAllowsAction,
+  parseApiKeyHeader,
+} from "../api-keys";
+
+const KEY = `csa_${"ab".repeat(32)}`;
+
+describe("parseApiKeyHeader", () => {
+  it("reads a csa_ key from a Bearer header", () => {
+    expect(parseApiKeyHeader(`Bearer ${KEY}`)).toBe(KEY);
+    expect(parseApiKeyHeader(`bearer  ${KEY} `)).toBe(KEY);
+  });
+
+  it("rejects missing headers, other schemes and session tokens", () => {
+    expect(parseApiKeyHeader(undefined)).toBeNull();
+    expect(parseApiKeyHeader("")).toBeNull();
+    expect(parseApiKeyHeader(`Basic ${KEY}`)).toBeNull();
+    expect(parseApiKeyHeader(KEY)).toBeNull();
+    expect(parseApiKeyHeader("Bearer 3f9a0c1d2e")).toBeNull();
+  });
+});
+
+describe("scopes", () => {
+  it("maps every action to a known scope", () => {
+    for (const action of EXTERNAL_ACTIONS) {
+      expect(API_KEY_SCOPES).toContain(ACTION_SCOPES[action]);
+    }
+  });
+
+  it("only allows actions covered by the key's scopes", () => {
+    const readOnly = ["inventory:read"];
+    expect(keyAllowsAction(readOnly, "check_inventory")).toBe(true);
+    expect(keyAllowsAction(readOnly, "what_expires")).toBe(true);
+    expect(keyAllowsAction(readOnly, "add_item")).toBe(false);
+    expect(keyAllowsAction(readOnly, "quick_recipe")).toBe(false);
+    expect(keyAllowsAction(["shopping"], "add_to_shopping_list")).toBe(true);
+    expect(keyAllowsAction([], "shopping_list")).toBe(false);
+  });
+
+  it("recognizes scope names", () => {
+    expect(isApiKeyScope("recipes")).toBe(true);
+    expect(isApiKeyScope("admin")).toBe(false);
+  });
+});
+
+describe("apiKeyDisplayPrefix / isApiKeyExpired", () => {
+  it("keeps the csa_ prefix and eight characters", () => {
+    expect(apiKeyDisplayPrefix(KEY)).toBe("csa_abababab");
+  });
+
+  it("treats null expiry as never expiring", () => {
+    const now = new Date("2026-03-01T12:00:00Z");
+    expect(isApiKeyExpired(null, now)).toBe(false);
+    expect(isApiKeyExpired("2026-03-01T11:59:59Z", now)).toBe(true);
+    expect(isApiKeyExpired(new Date("2026-03-02T00:00:00Z"), now)).toBe(false);
+  });
+});
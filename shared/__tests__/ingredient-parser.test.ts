@@ -0,0 +1,197 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  canonicalUnit,
+  formatIngredientLine,
+  ingredientName,
+  normalizeIngredient,
+  parseIngredientLine,
+  parseQuantity,
+  toStructuredIngredient,
+  type ParsedIngredient,
+} from "../ingredient-parser";
+import lines from "./fixtures/ingredient-lines.json";
+
+type Fixture = { line: string; expected: Omit<ParsedIngredient, "original"> };
+
+describe("parseIngredientLine fixtures", () => {
+  it.each((lines as Fixture[]).map((c) => [c.line, c.expected] as const))(
+    "%s",
+    (line, expected) => {
+      expect(parseIngredientLine(line)).toEqual({
+        original: line,
+        ...expected,
+      });
+    },
+  );
+});
+
+describe("parseIngredientLine", () => {
+  it("skips blank lines and section headings", () => {
+    expect(parseIngredientLine("   ")).toBeNull();
+    expect(parseIngredientLine("For the sauce:")).toBeNull();
+    expect(parseIngredientLine("Topping:")).toBeNull();
+  });
+
+  it("keeps the original text", () => {
+    expect(parseIngredientLine("  2 cups flour ")?.original).toBe(
+      "2 cups flour",
+    );
+  });
+});
+
+describe("parseQuantity", () => {
+  it("reads whole numbers, decimals and fractions", () => {
+    expect(parseQuantity("2")).toEqual({ quantity: 2, quantityMax: null });
+    expect(parseQuantity("1.25")).toEqual({
+      quantity: 1.25,
+      quantityMax: null,
+    });
+    expect(parseQuantity("3/4")).toEqual({ quantity: 0.75, quantityMax: null });
+    expect(parseQuantity("1 1/2")).toEqual({
+      quantity: 1.5,
+      quantityMax: null,
+    });
+    expect(parseQuantity("2⁄3")).toEqual({
+      quantity: 0.667,
+      quantityMax: null,
+    });
+  });
+
+  it("reads unicode fractions", () => {
+    expect(parseQuantity("½")).toEqual({ quantity: 0.5, quantityMax: null });
+    expect(parseQuantity("1½")).toEqual({ quantity: 1.5, quantityMax: null });
+    expect(parseQuantity("2 ¾")).toEqual({ quantity: 2.75, quantityMax: null });
+  });
+
+  it("reads ranges and ignores backwards ones", () => {
+    expect(parseQuantity("2-3")).toEqual({ quantity: 2, quantityMax: 3 });
+    expect(parseQuantity("2 to 3")).toEqual({ quantity: 2, quantityMax: 3 });
+    expect(parseQuantity("½–1")).toEqual({ quantity: 0.5, quantityMax: 1 });
+    expect(parseQuantity("3-2")).toEqual({ quantity: 3, quantityMax: null });
+  });
+
+  it("rejects text without a positive amount", () => {
+    expect(parseQuantity("")).toBeNull();
+    expect(parseQuantity("some")).toBeNull();
+    expect(parseQuantity("0")).toBeNull();
+    expect(parseQuantity("1/0")).toBeNull();
+  });
+});
+
+describe("canonicalUnit", () => {
+  it("maps spellings and abbreviations to one form", () => {
+    expect(canonicalUnit("Tablespoons")).toBe("tbsp");
+    expect(canonicalUnit("tsp.")).toBe("tsp");
+    expect(canonicalUnit("c.")).toBe("cup");
+    expect(canonicalUnit("fl. oz")).toBe("fl oz");
+    expect(canonicalUnit("Pounds")).toBe("lb");
+    expect(canonicalUnit("litres")).toBe("L");
+    expect(canonicalUnit("cans")).toBe("can");
+  });
+
+  it("tells T from t", () => {
+    expect(canonicalUnit("T")).toBe("tbsp");
+    expect(canonicalUnit("t")).toBe("tsp");
+  });
+
+  it("returns null for non-units", () => {
+    expect(canonicalUnit("onion")).toBeNull();
+    expect(canonicalUnit("")).toBeNull();
+    expect(canonicalUnit(undefined)).toBeNull();
+  });
+});
+
+describe("toStructuredIngredient", () => {
+  it("stores unmeasured lines at zero and drops empty fields", () => {
+    const parsed = parseIngredientLine("Salt, to taste")!;
+    expect(toStructuredIngredient(parsed)).toEqual({
+      name: "Salt",
+      quantity: 0,
+      unit: "",
+      notes: "to taste",
+    });
+  });
+});
+
+describe("normalizeIngredient", () => {
+  it("parses a bare string", () => {
+    expect(normalizeIngredient("2 cloves garlic, minced")).toEqual({
+      name: "garlic",
+      quantity: 2,
+      unit: "clove",
+      preparation: "minced",
+    });
+  });
+
+  it("parses a whole line packed into the name", () => {
+    expect(normalizeIngredient({ name: "1 cup diced onion" })).toEqual({
+      name: "onion",
+      quantity: 1,
+      unit: "cup",
+      preparation: "diced",
+    });
+  });
+
+  it("reads split fields and keeps extra ones", () => {
+    expect(
+      normalizeIngredient({
+        name: "Shredded mozzarella, divided",
+        quantity: "1 1/2",
+        unit: "Cups",
+        fromInventory: true,
+      }),
+    ).toEqual({
+      name: "Shredded mozzarella",
+      quantity: 1.5,
+      unit: "cup",
+      notes: "divided",
+      fromInventory: true,
+    });
+  });
+
+  it("keeps unknown units as given", () => {
+    expect(
+      normalizeIngredient({ name: "saffron", quantity: 1, unit: "thread" }),
+    ).toEqual({
+      name: "saffron",
+      quantity: 1,
+      unit: "thread",
+    });
+  });
+
+  it("returns null for empty input", () => {
+    expect(normalizeIngredient("")).toBeNull();
+    expect(normalizeIngredient({ name: " " })).toBeNull();
+  });
+});
+
+describe("ingredientName", () => {
+  it("reduces a line to the food", () => {
+    expect(ingredientName("2 large eggs, beaten")).toBe("large eggs");
+    expect(ingredientName("1 (14 oz) can coconut milk")).toBe("coconut milk");
+    expect(ingredientName("Chicken breast")).toBe("Chicken breast");
+  });
+});
+
+describe("formatIngredientLine", () => {
+  it("writes lines that parse back to the same ingredient", () => {
+    for (const line of [
+      "1 1/2 cups finely chopped yellow onion, divided",
+      "2 cloves garlic, minced",
+      "salt to taste",
+      "1/4 cup olive oil (optional)",
+    ]) {
+      const ingredient = toStructuredIngredient(parseIngredientLine(line)!);
+      const written = formatIngredientLine(ingredient);
+      expect(toStructuredIngredient(parseIngredientLine(written)!)).toEqual(
+        ingredient,
+      );
+    }
+  });
+
+  it("leaves out the amount for unmeasured ingredients", () => {
+    expect(
+      formatIngredientLine({ name: "pepper", quantity: 0, unit: "" }),
+    ).toBe("pepper");
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  findDurations,
+  findStepMarkers,
+  findTemperatures,
+  stepTiming,
+} from "../instruction-timing";
+
+describe("findDurations", () => {
+  it("reads ranges, units and compound durations", () => {
+    const pick = (text: string) =>
+      findDurations(text).map((d) => [d.text, d.minMinutes, d.maxMinutes]);
+
+    expect(pick("Simmer 20–25 minutes, stirring often.")).toEqual([
+      ["20–25 minutes", 20, 25],
+    ]);
+    expect(pick("Bake for 1 hr 15 min until golden.")).toEqual([
+      ["1 hr 15 min", 75, 75],
+    ]);
+    expect(pick("Rest for half an hour, then sear 90 seconds a side.")).toEqual(
+      [
+        ["half an hour", 30, 30],
+        ["90 seconds", 1.5, 1.5],
+      ],
+    );
+    expect(pick("Roast 1 1/2 hours.")).toEqual([["1 1/2 hours", 90, 90]]);
+  });
+
+  it("gives the position of each match", () => {
+    const text = "Bake 10 to 12 minutes.";
+    const [match] = findDurations(text);
+    expect(text.slice(match.start, match.end)).toBe("10 to 12 minutes");
+  });
+});
+
+describe("stepTiming", () => {
+  it("adds up durations and tells passive from active work", () => {
+    expect(stepTiming("Bake 25 minutes, then let rest 5 minutes.")).toEqual({
+      minutes: 30,
+      passive: true,
+    });
+    expect(stepTiming("Sauté the onions for 8-10 minutes.")).toEqual({
+      minutes: 10,
+      passive: false,
+    });
+    expect(stepTiming("Chop the parsley.")).toEqual({
+      minutes: null,
+      passive: false,
+    });
+  });
+});
+
+describe("findTemperatures", () => {
+  it("reads degrees with and without a scale", () => {
+    expect(
+      findTemperatures(
+        "Preheat to 350°F. Fry at 180 degrees Celsius, then bake at 200C or 400 degrees.",
+      ).map((t) => [t.text, t.value, t.unit]),
+    ).toEqual([
+      ["350°F", 350, "F"],
+      ["180 degrees Celsius", 180, "C"],
+      ["200C", 200, "C"],
+      ["400 degrees", 400, null],
+    ]);
+  });
+
+  it("doesn't read cups as Celsius", () => {
+    expect(findTemperatures("Add 12 c of stock.")).toEqual([]);
+  });
+});
+
+describe("findStepMarkers", () => {
+  it("lists durations and temperatures in text order", () => {
+    expect(
+      findStepMarkers("Bake at 220°C for 25-30 minutes.").map((m) => [
+        m.kind,
+        m.text,
+      ]),
+    ).toEqual([
+      ["temperature", "220°C"],
+      ["duration", "25-30 minutes"],
+    ]);
+  });
+});
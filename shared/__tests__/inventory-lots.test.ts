@@ -0,0 +1,186 @@
+import {
+  INITIAL_LOT_ID,
+  addLot,
+  consumeFifo,
+  getItemLots,
+  getNextLot,
+  restoreLots,
+  sortLotsFifo,
+  withLots,
+  type LotHolder,
+} from "../inventory-lots";
+
+function milk(overrides: Partial<LotHolder> = {}): LotHolder {
+  return {
+    quantity: 1,
+    purchaseDate: "2026-10-01",
+    expirationDate: "2026-10-10",
+    storageLocation: "fridge",
+    ...overrides,
+  };
+}
+
+describe("getItemLots", () => {
+  it("treats an item without lots as a single implicit lot", () => {
+    expect(getItemLots(milk())).toEqual([
+      {
+        id: INITIAL_LOT_ID,
+        quantity: 1,
+        purchaseDate: "2026-10-01",
+        expirationDate: "2026-10-10",
+        storageLocation: "fridge",
+      },
+    ]);
+  });
+});
+
+describe("sortLotsFifo", () => {
+  it("orders by expiry, then purchase date, with undated lots last", () => {
+    const sorted = sortLotsFifo([
+      {
+        id: "a",
+        quantity: 1,
+        expirationDate: null,
+        purchaseDate: "2026-09-01",
+      },
+      {
+        id: "b",
+        quantity: 1,
+        expirationDate: "2026-10-12",
+        purchaseDate: "2026-10-02",
+      },
+      {
+        id: "c",
+        quantity: 1,
+        expirationDate: "2026-10-12",
+        purchaseDate: "2026-10-01",
+      },
+      { id: "d", quantity: 1, expirationDate: "2026-10-05" },
+    ]);
+
+    expect(sorted.map((lot) => lot.id)).toEqual(["d", "c", "b", "a"]);
+  });
+});
+
+describe("addLot", () => {
+  it("keeps both purchases and summarises them on the item", () => {
+    const item = addLot(milk(), {
+      id: "second",
+      quantity: 2,
+      purchaseDate: "2026-10-05",
+      expirationDate: "2026-10-15",
+      storageLocation: "fridge",
+    });
+
+    expect(item.lots?.map((lot) => lot.id)).toEqual([INITIAL_LOT_ID, "second"]);
+    expect(item.quantity).toBe(3);
+    expect(item.purchaseDate).toBe("2026-10-01");
+    expect(item.expirationDate).toBe("2026-10-10");
+  });
+
+  it("moves the item-level expiry forward when the new lot expires sooner", () => {
+    const item = addLot(milk(), {
+      id: "older",
+      quantity: 1,
+      expirationDate: "2026-10-03",
+      storageLocation: "freezer",
+    });
+
+    expect(item.expirationDate).toBe("2026-10-03");
+    expect(item.storageLocation).toBe("freezer");
+    expect(getNextLot(item).id).toBe("older");
+  });
+});
+
+describe("consumeFifo", () => {
+  const twoCartons = () =>
+    addLot(milk(), {
+      id: "second",
+      quantity: 2,
+      purchaseDate: "2026-10-05",
+      expirationDate: "2026-10-15",
+      storageLocation: "fridge",
+    });
+
+  it("draws from the earliest-expiring lot first and spills into the next", () => {
+    const result = consumeFifo(twoCartons(), 1.5);
+
+    expect(result.depleted).toBe(false);
+    expect(result.consumed).toEqual([
+      { lotId: INITIAL_LOT_ID, quantity: 1, expirationDate: "2026-10-10" },
+      { lotId: "second", quantity: 0.5, expirationDate: "2026-10-15" },
+    ]);
+    expect(result.item.quantity).toBe(1.5);
+    expect(result.item.expirationDate).toBe("2026-10-15");
+  });
+
+  it("folds the item back to a plain item when one lot is left", () => {
+    const result = consumeFifo(twoCartons(), 1);
+
+    expect(result.item.lots).toBeNull();
+    expect(result.item.quantity).toBe(2);
+    expect(result.item.purchaseDate).toBe("2026-10-05");
+  });
+
+  it("reports depletion when asked for more than the item holds", () => {
+    const result = consumeFifo(twoCartons(), 10);
+
+    expect(result.depleted).toBe(true);
+    expect(result.consumed.reduce((sum, c) => sum + c.quantity, 0)).toBe(3);
+  });
+
+  it("works on items that never had lots", () => {
+    const result = consumeFifo(milk({ quantity: 4 }), 1);
+
+    expect(result.depleted).toBe(false);
+    expect(result.item.quantity).toBe(3);
+    expect(result.item.lots).toBeNull();
+  });
+});
+
+describe("withLots", () => {
+  it("drops empty lots", () => {
+    const item = withLots(milk(), [
+      { id: "a", quantity: 0, expirationDate: "2026-10-01" },
+      { id: "b", quantity: 2, expirationDate: "2026-10-09" },
+    ]);
+
+    expect(item.quantity).toBe(2);
+    expect(item.expirationDate).toBe("2026-10-09");
+    expect(item.lots).toBeNull();
+  });
+});
+
+describe("restoreLots", () => {
+  const twoLots = addLot(milk(), {
+    id: "second",
+    quantity: 2,
+    purchaseDate: "2026-10-05",
+    expirationDate: "2026-10-15",
+    storageLocation: "fridge",
+  });
+
+  it("undoes a partial FIFO draw", () => {
+    const { item, consumed } = consumeFifo(twoLots, 1.5);
+    const restored = restoreLots(item, consumed, getItemLots(twoLots));
+
+    expect(restored.quantity).toBe(3);
+    expect(restored.lots?.map((lot) => [lot.expirationDate, lot.quantity])).toEqual([
+      ["2026-10-10", 1],
+      ["2026-10-15", 2],
+    ]);
+  });
+
+  it("rebuilds a fully consumed item from its original lots", () => {
+    const { consumed } = consumeFifo(twoLots, 3);
+    const restored = restoreLots(
+      { ...twoLots, quantity: 0, lots: null },
+      consumed,
+      getItemLots(twoLots),
+    );
+
+    expect(restored.quantity).toBe(3);
+    expect(restored.expirationDate).toBe("2026-10-10");
+    expect(restored.lots).toHaveLength(2);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  plannedLeftoverServings,
+  suggestLeftoverMeals,
+  type LeftoverItem,
+} from "../leftovers";
+import type { MealSlot } from "../meal-plan";
+
+const slots: MealSlot[] = [
+  { id: "breakfast", name: "Breakfast", icon: "sunrise", order: 0 },
+  { id: "lunch", name: "Lunch", icon: "sun", order: 1 },
+  { id: "dinner", name: "Dinner", icon: "moon", order: 2 },
+];
+
+const leftover = (
+  id: string,
+  quantity: number,
+  expirationDate: string,
+): LeftoverItem => ({
+  id,
+  name: `Leftover ${id}`,
+  quantity,
+  category: "leftovers",
+  expirationDate,
+  recipeId: `recipe-${id}`,
+});
+
+describe("plannedLeftoverServings", () => {
+  it("counts entries for the item from the given day on", () => {
+    const plans = [
+      {
+        date: "2026-10-17",
+        meals: { lunch: { type: "leftovers" as const, inventoryItemId: "a" } },
+      },
+      {
+        date: "2026-10-18",
+        meals: {
+          lunch: { type: "leftovers" as const, inventoryItemId: "a" },
+          dinner: { type: "leftovers" as const, inventoryItemId: "b" },
+        },
+      },
+    ];
+    expect(plannedLeftoverServings("a", plans, "2026-10-18")).toBe(1);
+  });
+});
+
+describe("suggestLeftoverMeals", () => {
+  it("offers the first free main meal before the leftovers expire", () => {
+    const suggestions = suggestLeftoverMeals(
+      [leftover("chili", 3, "2026-10-21T12:00:00.000Z")],
+      [
+        {
+          date: "2026-10-18",
+          meals: {
+            lunch: { type: "text", text: "Sandwich" },
+            dinner: { type: "recipe", recipeId: "r1" },
+          },
+        },
+      ],
+      slots,
+      "2026-10-18",
+    );
+    expect(
+      suggestions.map((s) => [s.item.id, s.date, s.slotId, s.servingsLeft]),
+    ).toEqual([["chili", "2026-10-19", "lunch", 3]]);
+  });
+
+  it("skips items that are fully planned and never reuses a slot", () => {
+    const suggestions = suggestLeftoverMeals(
+      [
+        leftover("soup", 2, "2026-10-20"),
+        leftover("curry", 1, "2026-10-19"),
+        leftover("pasta", 1, "2026-10-22"),
+      ],
+      [
+        {
+          date: "2026-10-18",
+          meals: { dinner: { type: "leftovers", inventoryItemId: "pasta" } },
+        },
+      ],
+      slots,
+      "2026-10-18",
+    );
+    expect(suggestions.map((s) => [s.item.id, s.date, s.slotId])).toEqual([
+      ["curry", "2026-10-18", "lunch"],
+      ["soup", "2026-10-19", "lunch"],
+    ]);
+  });
+
+  it("ignores expired leftovers and other inventory", () => {
+    expect(
+      suggestLeftoverMeals(
+        [
+          leftover("old", 2, "2026-10-17"),
+          { ...leftover("milk", 1, "2026-10-20"), category: "dairy" },
+        ],
+        [],
+        slots,
+        "2026-10-18",
+      ),
+    ).toEqual([]);
+  });
+});
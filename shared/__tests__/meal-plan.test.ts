@@ -0,0 +1,141 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  cookedRecipeIds,
+  mealEntryLabel,
+  mealSlotTemplateSchema,
+  mealSlotTemplatesSchema,
+  normalizeMeals,
+  planMealsSchema,
+} from "../meal-plan";
+
+describe("normalizeMeals", () => {
+  it("keeps typed entries and drops empty slots", () => {
+    expect(
+      normalizeMeals({
+        breakfast: { type: "eat_out", note: "Cafe" },
+        lunch: null,
+        dinner: "",
+      }),
+    ).toEqual({ breakfast: { type: "eat_out", note: "Cafe" } });
+  });
+
+  it("reads bare strings as recipe ids unless they look like meal names", () => {
+    expect(
+      normalizeMeals({ lunch: "recipe-123", dinner: "Grilled salmon bowl" }),
+    ).toEqual({
+      lunch: { type: "recipe", recipeId: "recipe-123" },
+      dinner: { type: "text", text: "Grilled salmon bowl" },
+    });
+  });
+
+  it("uses known recipe ids when they are available", () => {
+    const known = new Set(["Leftover Chili"]);
+    expect(
+      normalizeMeals({ lunch: "Leftover Chili", dinner: "pizza" }, known),
+    ).toEqual({
+      lunch: { type: "recipe", recipeId: "Leftover Chili" },
+      dinner: { type: "text", text: "pizza" },
+    });
+  });
+
+  it("migrates the legacy array of meals", () => {
+    expect(
+      normalizeMeals([
+        { type: "dinner", recipeId: "r1", customMeal: "Stir Fry" },
+        { type: "lunch", customMeal: "Soup and salad" },
+        { recipeId: "r2" },
+      ]),
+    ).toEqual({
+      dinner: { type: "recipe", recipeId: "r1" },
+      lunch: { type: "text", text: "Soup and salad" },
+    });
+  });
+});
+
+describe("planMealsSchema", () => {
+  it("migrates legacy shapes and drops unreadable entries", () => {
+    expect(planMealsSchema.parse({ dinner: "r1" })).toEqual({
+      dinner: { type: "recipe", recipeId: "r1" },
+    });
+    expect(planMealsSchema.parse({ dinner: { type: "takeaway" } })).toEqual({});
+    expect(planMealsSchema.parse("not meals")).toEqual({});
+  });
+});
+
+describe("cookedRecipeIds", () => {
+  it("only returns recipes that need cooking", () => {
+    expect(
+      cookedRecipeIds({
+        breakfast: { type: "recipe", recipeId: "r1" },
+        lunch: { type: "leftovers", recipeId: "r1", fromDate: "2026-10-17" },
+        dinner: { type: "eat_out" },
+        snack: "r2",
+      }),
+    ).toEqual(["r1", "r2"]);
+  });
+});
+
+describe("mealEntryLabel", () => {
+  const titles: Record<string, string> = { r1: "Chili" };
+  const title = (id: string) => titles[id];
+
+  it("describes every entry type", () => {
+    expect(mealEntryLabel({ type: "recipe", recipeId: "r1" }, title)).toBe(
+      "Chili",
+    );
+    expect(mealEntryLabel({ type: "recipe", recipeId: "gone" }, title)).toBe(
+      "Unknown recipe",
+    );
+    expect(mealEntryLabel({ type: "text", text: "Toast" }, title)).toBe(
+      "Toast",
+    );
+    expect(mealEntryLabel({ type: "leftovers", recipeId: "r1" }, title)).toBe(
+      "Leftover Chili",
+    );
+    expect(mealEntryLabel({ type: "leftovers" }, title)).toBe("Leftovers");
+    expect(mealEntryLabel({ type: "eat_out", note: "Sushi" }, title)).toBe(
+      "Eating out: Sushi",
+    );
+  });
+});
+
+describe("meal slot templates", () => {
+  const slot = (id: string, order: number) => ({
+    id,
+    name: id,
+    icon: "sun" as const,
+    order,
+  });
+
+  it("requires unique slot ids and valid calorie targets", () => {
+    expect(
+      mealSlotTemplateSchema.safeParse({
+        id: "t1",
+        name: "Shift days",
+        slots: [slot("early", 0), { ...slot("late", 1), targetCalories: 600 }],
+      }).success,
+    ).toBe(true);
+    expect(
+      mealSlotTemplateSchema.safeParse({
+        id: "t1",
+        name: "Dupes",
+        slots: [slot("meal", 0), slot("meal", 1)],
+      }).success,
+    ).toBe(false);
+    expect(
+      mealSlotTemplateSchema.safeParse({
+        id: "t1",
+        name: "Negative",
+        slots: [{ ...slot("meal", 0), targetCalories: -5 }],
+      }).success,
+    ).toBe(false);
+  });
+
+  it("requires unique template ids", () => {
+    const template = { id: "t1", name: "One", slots: [slot("meal", 0)] };
+    expect(
+      mealSlotTemplatesSchema.safeParse({ templates: [template, template] })
+        .success,
+    ).toBe(false);
+  });
+});
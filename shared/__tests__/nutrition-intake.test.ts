@@ -0,0 +1,211 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  averageTotals,
+  compareToTargets,
+  emptyTotals,
+  forecastDays,
+  localDateKey,
+  previousDays,
+  readNutrition,
+  resolveDailyTargets,
+  sumNutrition,
+} from "../nutrition-intake";
+
+describe("sumNutrition", () => {
+  it("adds present values, skips missing ones and applies multipliers", () => {
+    expect(
+      sumNutrition([
+        {
+          nutrition: {
+            calories: 250,
+            protein: 10,
+            carbs: 30,
+            fat: 8,
+            sodium: 400,
+          },
+        },
+        {
+          nutrition: {
+            calories: 100,
+            protein: 2.25,
+            carbs: 20,
+            fat: 1,
+            fiber: 3,
+          },
+          multiplier: 2,
+        },
+        { nutrition: null },
+      ]),
+    ).toEqual({
+      calories: 450,
+      protein: 14.5,
+      carbs: 70,
+      fat: 10,
+      fiber: 6,
+      sugar: 0,
+      sodium: 400,
+    });
+  });
+});
+
+describe("readNutrition", () => {
+  it("keeps positive numeric fields and rejects empty objects", () => {
+    expect(
+      readNutrition({
+        calories: "120",
+        protein: 4,
+        fat: -1,
+        servingSize: "1 cup",
+      }),
+    ).toEqual({
+      calories: 120,
+      protein: 4,
+    });
+    expect(readNutrition({ servingSize: "1 cup" })).toBeNull();
+    expect(readNutrition("nope")).toBeNull();
+  });
+});
+
+describe("resolveDailyTargets", () => {
+  it("turns macro percentages into grams of the calorie goal", () => {
+    expect(
+      resolveDailyTargets(
+        { protein: 30, carbs: 40, fat: 30 },
+        { calories: 1800, fiber: 30 },
+      ),
+    ).toEqual({
+      calories: 1800,
+      protein: 135,
+      carbs: 180,
+      fat: 60,
+      fiber: 30,
+      sugar: null,
+      sodium: 2300,
+    });
+  });
+
+  it("falls back to defaults for missing or inconsistent settings", () => {
+    const targets = resolveDailyTargets(
+      { protein: 80, carbs: 80, fat: 80 },
+      null,
+    );
+    expect(targets.calories).toBe(2000);
+    expect(targets.protein).toBe(250);
+    expect(targets.fat).toBe(33.3);
+  });
+});
+
+describe("compareToTargets", () => {
+  const targets = resolveDailyTargets(
+    { protein: 30, carbs: 40, fat: 30 },
+    { calories: 2000 },
+  );
+
+  it("grades goals by the 90%-110% band and limits by staying under", () => {
+    const totals = {
+      ...emptyTotals(),
+      calories: 1950,
+      protein: 100,
+      carbs: 260,
+      sodium: 2400,
+      sugar: 40,
+    };
+    const byNutrient = Object.fromEntries(
+      compareToTargets(totals, targets).map((p) => [p.nutrient, p]),
+    );
+
+    expect(byNutrient.calories).toMatchObject({
+      percent: 98,
+      status: "on_track",
+      isLimit: false,
+    });
+    expect(byNutrient.protein).toMatchObject({
+      target: 150,
+      percent: 67,
+      status: "under",
+    });
+    expect(byNutrient.carbs).toMatchObject({ percent: 130, status: "over" });
+    expect(byNutrient.sodium).toMatchObject({
+      percent: 104,
+      status: "over",
+      isLimit: true,
+    });
+    expect(byNutrient.sugar).toMatchObject({
+      target: null,
+      percent: null,
+      status: "none",
+    });
+  });
+
+  it("treats a limit as on track up to 100%", () => {
+    const [sodium] = compareToTargets(
+      { ...emptyTotals(), sodium: 500 },
+      targets,
+    ).filter((p) => p.nutrient === "sodium");
+    expect(sodium.status).toBe("on_track");
+  });
+});
+
+describe("averageTotals", () => {
+  it("averages per nutrient and handles no days", () => {
+    expect(
+      averageTotals([
+        { ...emptyTotals(), calories: 1800, protein: 90 },
+        { ...emptyTotals(), calories: 2100, protein: 101 },
+      ]),
+    ).toMatchObject({ calories: 1950, protein: 95.5 });
+    expect(averageTotals([])).toEqual(emptyTotals());
+  });
+});
+
+describe("forecastDays", () => {
+  it("sums one serving per planned meal and counts meals without nutrition", () => {
+    const forecast = forecastDays(
+      ["2026-10-19", "2026-10-20"],
+      [
+        { date: "2026-10-19", nutrition: { calories: 450, protein: 30 } },
+        { date: "2026-10-19", nutrition: null },
+        { date: "2026-10-21", nutrition: { calories: 900 } },
+      ],
+    );
+
+    expect(forecast).toEqual([
+      {
+        date: "2026-10-19",
+        totals: { ...emptyTotals(), calories: 450, protein: 30 },
+        mealCount: 2,
+        unknownCount: 1,
+      },
+      {
+        date: "2026-10-20",
+        totals: emptyTotals(),
+        mealCount: 0,
+        unknownCount: 0,
+      },
+    ]);
+  });
+});
+
+describe("localDateKey", () => {
+  it("shifts UTC timestamps into the client's day", () => {
+    expect(localDateKey("2026-10-19T03:30:00.000Z", 300)).toBe("2026-10-18");
+    expect(localDateKey("2026-10-18T23:30:00.000Z", -120)).toBe("2026-10-19");
+    expect(localDateKey("2026-10-18T12:00:00.000Z")).toBe("2026-10-18");
+  });
+
+  it("passes plain dates through and rejects junk", () => {
+    expect(localDateKey("2026-10-18", 600)).toBe("2026-10-18");
+    expect(localDateKey("yesterday")).toBeNull();
+  });
+});
+
+describe("previousDays", () => {
+  it("lists days oldest first across a month boundary", () => {
+    expect(previousDays("2026-11-02", 4)).toEqual([
+      "2026-10-30",
+      "2026-10-31",
+      "2026-11-01",
+      "2026-11-02",
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "@jest/globals";
+import { diffFields, threeWayMerge, valuesEqual } from "../sync-merge";
+
+const base = {
+  id: "item-1",
+  name: "Milk",
+  quantity: 2,
+  unit: "l",
+  storageLocation: "fridge",
+  nutrition: { calories: 42, protein: 3.4 },
+  updatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("valuesEqual", () => {
+  it("compares nested objects and arrays structurally", () => {
+    expect(valuesEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(valuesEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+    expect(valuesEqual([1, 2], [1, 2, 3])).toBe(false);
+  });
+
+  it("treats null and undefined as the same missing value", () => {
+    expect(valuesEqual(null, undefined)).toBe(true);
+    expect(valuesEqual({ a: null }, {})).toBe(true);
+    expect(valuesEqual(0, null)).toBe(false);
+  });
+});
+
+describe("diffFields", () => {
+  it("lists changed fields and ignores bookkeeping fields", () => {
+    const next = {
+      ...base,
+      quantity: 1,
+      updatedAt: "2026-02-01T00:00:00.000Z",
+    };
+    expect(diffFields(base, next)).toEqual(["quantity"]);
+  });
+
+  it("treats every populated field as changed when there is no base", () => {
+    expect(
+      diffFields(null, { id: "x", name: "Eggs", quantity: 12 }).sort(),
+    ).toEqual(["name", "quantity"]);
+  });
+});
+
+describe("threeWayMerge", () => {
+  it("combines edits to different fields without conflicts", () => {
+    const local = { ...base, quantity: 1 };
+    const remote = { ...base, storageLocation: "freezer" };
+
+    const result = threeWayMerge(base, local, remote);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged).toMatchObject({
+      quantity: 1,
+      storageLocation: "freezer",
+      name: "Milk",
+    });
+  });
+
+  it("accepts identical edits made on both sides", () => {
+    const local = { ...base, quantity: 1 };
+    const remote = { ...base, quantity: 1 };
+
+    expect(threeWayMerge(base, local, remote)).toEqual({
+      merged: remote,
+      conflicts: [],
+    });
+  });
+
+  it("reports a conflict and keeps the remote value when both sides change a field", () => {
+    const local = { ...base, quantity: 1, unit: "ml" };
+    const remote = { ...base, quantity: 3 };
+
+    const result = threeWayMerge(base, local, remote);
+
+    expect(result.conflicts).toEqual(["quantity"]);
+    expect(result.merged.quantity).toBe(3);
+    expect(result.merged.unit).toBe("ml");
+  });
+
+  it("merges nested values as a whole field", () => {
+    const local = { ...base, nutrition: { calories: 50, protein: 3.4 } };
+    const remote = { ...base, name: "Whole milk" };
+
+    const result = threeWayMerge(base, local, remote);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged.nutrition).toEqual({ calories: 50, protein: 3.4 });
+    expect(result.merged.name).toBe("Whole milk");
+  });
+
+  it("applies a local removal of an optional field", () => {
+    const withNotes = { ...base, notes: "organic" };
+    const local = { ...withNotes, notes: null };
+
+    const result = threeWayMerge(withNotes, local, withNotes);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged.notes).toBeNull();
+  });
+});
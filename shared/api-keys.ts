@@ -0,0 +1,80 @@
+/**
+ * Personal API keys.
+ *
+ * Keys authenticate calls to /api/external (Siri Shortcuts and other
+ * automations) with an `Authorization: Bearer csa_...` header. Each key is
+ * limited to the scopes chosen when it was created; every external action
+ * needs exactly one scope.
+ */
+
+export const API_KEY_PREFIX = "csa_";
+
+export const API_KEY_SCOPES = [
+  "inventory:read",
+  "inventory:write",
+  "recipes",
+  "shopping",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "inventory:read": "Read inventory",
+  "inventory:write": "Add to inventory",
+  recipes: "Recipe ideas",
+  shopping: "Shopping list",
+};
+
+export const EXTERNAL_ACTIONS = [
+  "add_item",
+  "check_inventory",
+  "what_expires",
+  "quick_recipe",
+  "add_to_shopping_list",
+  "shopping_list",
+] as const;
+
+export type ExternalAction = (typeof EXTERNAL_ACTIONS)[number];
+
+export const ACTION_SCOPES: Record<ExternalAction, ApiKeyScope> = {
+  add_item: "inventory:write",
+  check_inventory: "inventory:read",
+  what_expires: "inventory:read",
+  quick_recipe: "recipes",
+  add_to_shopping_list: "shopping",
+  shopping_list: "shopping",
+};
+
+export const MAX_API_KEYS_PER_USER = 10;
+export const DEFAULT_API_KEY_RATE_LIMIT = 30;
+export const MAX_API_KEY_RATE_LIMIT = 120;
+/** Expiry choices offered in settings; null means the key never expires. */
+export const API_KEY_EXPIRY_DAYS = [30, 90, 365, null] as const;
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+export function keyAllowsAction(scopes: readonly string[], action: ExternalAction): boolean {
+  return scopes.includes(ACTION_SCOPES[action]);
+}
+
+/**
+ * Extracts an API key from an Authorization header. Only the Bearer scheme
+ * with a `csa_` key is accepted so session tokens sent here by mistake are
+ * rejected rather than looked up.
+ */
+export function parseApiKeyHeader(header: string | undefined): string | null {
+  const match = header?.trim().match(/^Bearer\s+(\S+)$/i);
+  if (!match || !match[1].startsWith(API_KEY_PREFIX)) return null;
+  return match[1];
+}
+
+/** Characters kept in the clear so users can tell their keys apart. */
+export function apiKeyDisplayPrefix(key: string): string {
+  return key.slice(0, API_KEY_PREFIX.length + 8);
+}
+
+export function isApiKeyExpired(expiresAt: Date | string | null | undefined, now = new Date()): boolean {
+  return expiresAt != null && new Date(expiresAt).getTime() <= now.getTime();
+}
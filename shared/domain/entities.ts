@@ -5,10 +5,17 @@ export type User = typeof users.$inferSelect;
 export type AuthProvider = typeof authProviders.$inferSelect;
 export type Session = typeof userSessions.$inferSelect;
 
-export type AuthProviderType = "email" | "google" | "apple";
+export type AuthProviderType = "email" | "google" | "apple" | "passkey";
+
+export type HouseholdRole = "owner" | "member" | "viewer";
 
 export interface Permission {
   tier: SubscriptionTier;
   limits: TierLimits;
   isAdmin: boolean;
 }
+
+export interface HouseholdMembership {
+  householdId: string;
+  role: HouseholdRole;
+}
@@ -0,0 +1,463 @@
+/**
+ * Ingredient line parser.
+ *
+ * Turns free-text ingredient lines from any recipe source (web imports, photo
+ * scans, AI output, Instacart requests) into one structured shape:
+ *
+ *   "1 1/2 cups finely chopped yellow onion, divided"
+ *     -> { quantity: 1.5, unit: "cup", name: "yellow onion",
+ *          preparation: "finely chopped", notes: "divided" }
+ *
+ * Units come out in a canonical short form ("cup", "tbsp", "g", "fl oz") that
+ * the server's unit conversion understands. Lines without an amount ("salt to
+ * taste") have a null quantity.
+ */
+
+export interface ParsedIngredient {
+  original: string;
+  quantity: number | null;
+  /** Upper end of a range ("2-3 cloves"); null otherwise. */
+  quantityMax: number | null;
+  unit: string | null;
+  name: string;
+  preparation: string | null;
+  notes: string | null;
+  isOptional: boolean;
+}
+
+/** The fields a stored recipe ingredient carries. Unmeasured ingredients have quantity 0. */
+export interface StructuredIngredient {
+  name: string;
+  quantity: number;
+  unit: string;
+  preparation?: string;
+  notes?: string;
+  isOptional?: boolean;
+}
+
+export interface IngredientInput {
+  name: string;
+  quantity?: number | string | null;
+  unit?: string | null;
+}
+
+const UNIT_ALIASES: Record<string, string[]> = {
+  tsp: ["tsp", "tsps", "teaspoon", "teaspoons"],
+  tbsp: ["tbsp", "tbsps", "tbs", "tbl", "tblsp", "tablespoon", "tablespoons"],
+  cup: ["cup", "cups", "c"],
+  "fl oz": ["fl oz", "fl. oz", "fluid ounce", "fluid ounces"],
+  ml: ["ml", "mls", "milliliter", "milliliters", "millilitre", "millilitres"],
+  L: ["l", "liter", "liters", "litre", "litres"],
+  pint: ["pint", "pints", "pt"],
+  quart: ["quart", "quarts", "qt"],
+  gallon: ["gallon", "gallons", "gal"],
+  g: ["g", "gram", "grams", "gr"],
+  kg: ["kg", "kgs", "kilogram", "kilograms", "kilo", "kilos"],
+  mg: ["mg", "milligram", "milligrams"],
+  oz: ["oz", "ounce", "ounces"],
+  lb: ["lb", "lbs", "pound", "pounds"],
+  piece: ["piece", "pieces", "pc", "pcs"],
+  clove: ["clove", "cloves"],
+  slice: ["slice", "slices"],
+  can: ["can", "cans", "tin", "tins"],
+  jar: ["jar", "jars"],
+  bottle: ["bottle", "bottles"],
+  package: ["package", "packages", "pkg", "pkgs", "packet", "packets"],
+  bag: ["bag", "bags"],
+  box: ["box", "boxes"],
+  bunch: ["bunch", "bunches"],
+  head: ["head", "heads"],
+  stalk: ["stalk", "stalks"],
+  sprig: ["sprig", "sprigs"],
+  stick: ["stick", "sticks"],
+  pinch: ["pinch", "pinches"],
+  dash: ["dash", "dashes"],
+  handful: ["handful", "handfuls"],
+  dozen: ["dozen"],
+};
+
+const UNIT_LOOKUP = new Map<string, string>(
+  Object.entries(UNIT_ALIASES).flatMap(([canonical, aliases]) =>
+    aliases.map((alias) => [alias, canonical] as [string, string]),
+  ),
+);
+
+/** Single-letter abbreviations where case decides the unit. */
+const CASE_SENSITIVE_UNITS: Record<string, string> = { T: "tbsp", t: "tsp" };
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  "¼": "1/4",
+  "½": "1/2",
+  "¾": "3/4",
+  "⅓": "1/3",
+  "⅔": "2/3",
+  "⅕": "1/5",
+  "⅙": "1/6",
+  "⅛": "1/8",
+  "⅜": "3/8",
+  "⅝": "5/8",
+  "⅞": "7/8",
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+};
+
+/** Words before a unit that describe the measure rather than the food. */
+const MEASURE_MODIFIERS =
+  /^(heaping|heaped|level|scant|rounded|generous|good|small|medium|large|extra[- ]large)$/i;
+
+const NUMBER = String.raw`\d+\s+\d+\/\d+|\d+\/\d+|\d*\.\d+|\d+`;
+const QUANTITY_PATTERN = new RegExp(
+  String.raw`^(${NUMBER})(?:\s*(?:-|–|—|to|or)\s*(${NUMBER}))?(?=\s|[a-zA-Z]|$)\s*`,
+);
+
+const PREP_ADVERB = String.raw`(?:very|finely|coarsely|roughly|thinly|thickly|freshly|lightly|well|firmly|loosely|just|barely)`;
+const PREP_PARTICIPLE = String.raw`(?:chopped|diced|minced|sliced|grated|shredded|crushed|ground|peeled|melted|softened|beaten|whisked|cubed|halved|quartered|julienned|trimmed|toasted|sifted|packed|cooked|mashed|pitted|seeded|cored|rinsed|drained|thawed|zested|juiced|deveined|stemmed|torn|cut|crumbled|cooled|warmed|chilled|separated|scrubbed|squeezed|snipped|smashed)`;
+
+const LEADING_PREP = new RegExp(
+  String.raw`^((?:${PREP_ADVERB}\s+)*${PREP_PARTICIPLE}(?:(?:\s+and|,)\s+(?:${PREP_ADVERB}\s+)*${PREP_PARTICIPLE})*)\s+`,
+  "i",
+);
+const PREP_PHRASE = new RegExp(
+  String.raw`^(?:${PREP_ADVERB}\s+)*${PREP_PARTICIPLE}\b|^at room temperature$|^room temperature$`,
+  "i",
+);
+
+/** Participles that name a product when used alone ("ground beef", "shredded cheese"). */
+const NAME_PARTICIPLES = /^(ground|crushed|shredded|grated|cooked|packed)$/i;
+
+/** Adjectives that are often comma-separated inside the name ("boneless, skinless chicken"). */
+const LISTED_ADJECTIVE =
+  /\b(boneless|skinless|seedless|unsalted|salted|unsweetened|sweetened)$/i;
+
+const TRAILING_NOTES =
+  /\s+(to taste|for (?:garnish|garnishing|serving|dusting|frying|greasing|drizzling|topping)|as needed|or to taste|plus more .*|or more .*|at room temperature)$/i;
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/⁄/g, "/")
+    .replace(
+      /(\d)?\s*([¼½¾⅓⅔⅕⅙⅛⅜⅝⅞])/g,
+      (_match, whole: string | undefined, fraction: string) =>
+        `${whole ? `${whole} ` : ""}${UNICODE_FRACTIONS[fraction]}`,
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function parseNumber(text: string): number | null {
+  const trimmed = text.trim();
+  const mixed = trimmed.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    const denominator = Number(mixed[3]);
+    return denominator > 0
+      ? Number(mixed[1]) + Number(mixed[2]) / denominator
+      : null;
+  }
+  const fraction = trimmed.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    return denominator > 0 ? Number(fraction[1]) / denominator : null;
+  }
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : null;
+}
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Reads an amount: "2", "1.5", "1/2", "1 1/2", "1½", "2-3", "2 to 3".
+ * Returns null for anything without a positive amount.
+ */
+export function parseQuantity(
+  text: string,
+): { quantity: number; quantityMax: number | null } | null {
+  const match = normalizeText(text).match(QUANTITY_PATTERN);
+  if (!match) return null;
+  const quantity = parseNumber(match[1]);
+  if (quantity === null || quantity <= 0) return null;
+  const max = match[2] ? parseNumber(match[2]) : null;
+  return {
+    quantity: roundQuantity(quantity),
+    quantityMax: max !== null && max > quantity ? roundQuantity(max) : null,
+  };
+}
+
+/** Canonical unit for an alias ("Tablespoons" -> "tbsp"), or null if it isn't one. */
+export function canonicalUnit(unit: string | null | undefined): string | null {
+  if (!unit) return null;
+  const trimmed = unit.trim();
+  if (CASE_SENSITIVE_UNITS[trimmed]) return CASE_SENSITIVE_UNITS[trimmed];
+  const key = trimmed
+    .toLowerCase()
+    .replace(/\.$/, "")
+    .replace(/\.\s*/g, ". ")
+    .trim();
+  return (
+    UNIT_LOOKUP.get(key) ?? UNIT_LOOKUP.get(key.replace(/\./g, "")) ?? null
+  );
+}
+
+function takeUnit(
+  text: string,
+): { unit: string; modifier: string | null; rest: string } | null {
+  const words = text.split(" ");
+  let start = 0;
+  let modifier: string | null = null;
+  if (words.length > 1 && MEASURE_MODIFIERS.test(words[0])) {
+    modifier = words[0].toLowerCase();
+    start = 1;
+  }
+  for (const count of [2, 1]) {
+    if (words.length < start + count) continue;
+    const unit = canonicalUnit(words.slice(start, start + count).join(" "));
+    if (unit) {
+      return { unit, modifier, rest: words.slice(start + count).join(" ") };
+    }
+  }
+  return null;
+}
+
+function joinParts(parts: string[]): string | null {
+  const cleaned = parts.map((p) => p.trim()).filter(Boolean);
+  return cleaned.length > 0 ? cleaned.join(", ") : null;
+}
+
+/**
+ * Parses one ingredient line. Returns null for blank lines and section
+ * headings ("For the sauce:").
+ */
+export function parseIngredientLine(line: string): ParsedIngredient | null {
+  const original = line.trim();
+  let text = normalizeText(original).replace(/^[-–•*▢☐□◦·\s]+/, "");
+  if (!text || /:$/.test(text)) return null;
+
+  const notes: string[] = [];
+  const preparation: string[] = [];
+  let isOptional = false;
+
+  text = text.replace(/^optional:?\s+/i, () => {
+    isOptional = true;
+    return "";
+  });
+
+  text = text
+    .replace(/\s*\(([^)]*)\)/g, (_match, inner: string) => {
+      if (/^optional$/i.test(inner.trim())) isOptional = true;
+      else notes.push(inner.trim());
+      return "";
+    })
+    .trim();
+
+  let quantity: number | null = null;
+  let quantityMax: number | null = null;
+  let unit: string | null = null;
+
+  const quantityMatch = text.match(QUANTITY_PATTERN);
+  if (quantityMatch) {
+    const parsed = parseQuantity(quantityMatch[0]);
+    quantity = parsed?.quantity ?? null;
+    quantityMax = parsed?.quantityMax ?? null;
+    text = text.slice(quantityMatch[0].length);
+  } else {
+    const word = text.match(/^([a-z]+)\s+/i);
+    const value = word ? NUMBER_WORDS[word[1].toLowerCase()] : undefined;
+    if (word && value !== undefined) {
+      const rest = text.slice(word[0].length);
+      // "a pinch of salt" and "an onion" count; "a few sprigs" and "an egg wash" don't
+      if (
+        takeUnit(rest) ||
+        !["a", "an"].includes(word[1].toLowerCase()) ||
+        /^[a-z]+$/i.test(rest)
+      ) {
+        quantity = value;
+        text = rest;
+      }
+    }
+  }
+
+  if (quantity !== null) {
+    const unitMatch = takeUnit(text);
+    if (unitMatch) {
+      unit = unitMatch.unit;
+      if (unitMatch.modifier) notes.unshift(unitMatch.modifier);
+      text = unitMatch.rest;
+    }
+    text = text.replace(/^of\s+/i, "");
+  }
+
+  const [head, ...tail] = text.split(",");
+  let name = head.trim();
+  while (tail.length > 0 && LISTED_ADJECTIVE.test(name)) {
+    name = `${name}, ${tail.shift()!.trim()}`;
+  }
+
+  for (const part of tail) {
+    const trimmed = part.trim();
+    if (!trimmed) continue;
+    if (/^optional$/i.test(trimmed)) isOptional = true;
+    else if (PREP_PHRASE.test(trimmed)) preparation.push(trimmed);
+    else notes.push(trimmed);
+  }
+
+  const trailing = name.match(TRAILING_NOTES);
+  if (trailing && trailing.index && trailing.index > 0) {
+    notes.unshift(trailing[1]);
+    name = name.slice(0, trailing.index);
+  }
+
+  const leading = name.match(LEADING_PREP);
+  if (
+    leading &&
+    !NAME_PARTICIPLES.test(leading[1]) &&
+    name.length > leading[0].length
+  ) {
+    preparation.unshift(leading[1]);
+    name = name.slice(leading[0].length);
+  }
+
+  name = name.replace(/^[\s,;.-]+|[\s,;.-]+$/g, "");
+  if (!name) return null;
+
+  return {
+    original,
+    quantity,
+    quantityMax,
+    unit,
+    name,
+    preparation: joinParts(preparation),
+    notes: joinParts(notes),
+    isOptional,
+  };
+}
+
+/** A parsed line in the shape recipes store. */
+export function toStructuredIngredient(
+  parsed: ParsedIngredient,
+): StructuredIngredient {
+  return {
+    name: parsed.name,
+    quantity: parsed.quantity ?? 0,
+    unit: parsed.unit ?? "",
+    ...(parsed.preparation ? { preparation: parsed.preparation } : {}),
+    ...(parsed.notes ? { notes: parsed.notes } : {}),
+    ...(parsed.isOptional ? { isOptional: true } : {}),
+  };
+}
+
+/**
+ * Normalizes an ingredient that arrives already split into fields (AI output,
+ * Instacart requests). A free-text line in `name` with no separate amount is
+ * parsed whole; otherwise string quantities are read, units canonicalized and
+ * any preparation split off the name. Other fields on the input are kept.
+ */
+export function normalizeIngredient<T extends IngredientInput>(
+  input: T | string,
+): (Omit<T, keyof StructuredIngredient> & StructuredIngredient) | null {
+  if (typeof input === "string") {
+    const parsed = parseIngredientLine(input);
+    return parsed
+      ? (toStructuredIngredient(parsed) as Omit<T, keyof StructuredIngredient> &
+          StructuredIngredient)
+      : null;
+  }
+
+  const hasQuantity =
+    input.quantity !== undefined &&
+    input.quantity !== null &&
+    input.quantity !== "" &&
+    input.quantity !== 0;
+  if (!hasQuantity && !input.unit) {
+    const parsed = parseIngredientLine(input.name);
+    if (!parsed) return null;
+    return { ...input, ...toStructuredIngredient(parsed) };
+  }
+
+  const quantity =
+    typeof input.quantity === "number"
+      ? Number.isFinite(input.quantity) && input.quantity > 0
+        ? input.quantity
+        : 0
+      : (parseQuantity(String(input.quantity ?? ""))?.quantity ?? 0);
+  const unit = canonicalUnit(input.unit) ?? input.unit?.trim() ?? "";
+
+  const parsedName = parseIngredientLine(input.name);
+  const { name, preparation, notes, isOptional } =
+    parsedName && parsedName.quantity === null
+      ? parsedName
+      : {
+          name: input.name.trim(),
+          preparation: null,
+          notes: null,
+          isOptional: false,
+        };
+
+  return {
+    ...input,
+    name,
+    quantity,
+    unit,
+    ...(preparation ? { preparation } : {}),
+    ...(notes ? { notes } : {}),
+    ...(isOptional ? { isOptional: true } : {}),
+  };
+}
+
+/** The food an ingredient line or name refers to, for matching against inventory. */
+export function ingredientName(text: string): string {
+  return parseIngredientLine(text)?.name ?? text.trim();
+}
+
+const LINE_FRACTIONS: [number, string][] = [
+  [1 / 8, "1/8"],
+  [1 / 4, "1/4"],
+  [1 / 3, "1/3"],
+  [1 / 2, "1/2"],
+  [2 / 3, "2/3"],
+  [3 / 4, "3/4"],
+];
+
+function formatLineQuantity(quantity: number): string {
+  const whole = Math.floor(quantity);
+  const rest = quantity - whole;
+  const fraction = LINE_FRACTIONS.find(
+    ([value]) => Math.abs(value - rest) < 0.01,
+  );
+  if (rest < 0.01) return String(whole);
+  if (!fraction) return String(Math.round(quantity * 100) / 100);
+  return whole > 0 ? `${whole} ${fraction[1]}` : fraction[1];
+}
+
+/**
+ * Writes a stored ingredient back out as one line ("1 1/2 cup onion, finely
+ * chopped (divided)") that `parseIngredientLine` reads back the same way.
+ */
+export function formatIngredientLine(ingredient: StructuredIngredient): string {
+  const amount =
+    ingredient.quantity > 0
+      ? [formatLineQuantity(ingredient.quantity), ingredient.unit]
+          .filter(Boolean)
+          .join(" ")
+      : "";
+  let line = [amount, ingredient.name].filter(Boolean).join(" ");
+  if (ingredient.preparation) line += `, ${ingredient.preparation}`;
+  if (ingredient.notes) line += ` (${ingredient.notes})`;
+  if (ingredient.isOptional) line += " (optional)";
+  return line;
+}
@@ -0,0 +1,172 @@
+/**
+ * Instruction timing.
+ *
+ * Reads how long a recipe step takes from its text ("simmer 20–25 minutes",
+ * "bake for 1 hr 15 min") and whether the cook has to stay with it, plus
+ * any oven or oil temperatures. Used to schedule several recipes against one
+ * serve time and to offer timers inline in the instructions.
+ */
+
+export interface DurationMatch {
+  /** Character range of the match in the step text. */
+  start: number;
+  end: number;
+  text: string;
+  minMinutes: number;
+  maxMinutes: number;
+}
+
+export interface TemperatureMatch {
+  start: number;
+  end: number;
+  text: string;
+  value: number;
+  /** Null when the text gives no scale ("preheat to 350 degrees"). */
+  unit: "F" | "C" | null;
+}
+
+export type StepMarker =
+  | ({ kind: "duration" } & DurationMatch)
+  | ({ kind: "temperature" } & TemperatureMatch);
+
+export interface StepTiming {
+  /** Upper bound of the durations in the step; null when the text has none. */
+  minutes: number | null;
+  /** The cook can walk away (baking, simmering, resting, chilling). */
+  passive: boolean;
+}
+
+const NUMBER = String.raw`(?:\d+(?:\.\d+)?(?:\s+\d+/\d+)?|\d+/\d+|an?|one|two|three|four|five|ten|half an?)`;
+const RANGE = String.raw`${NUMBER}(?:\s*(?:-|–|—|to|or)\s*${NUMBER})?`;
+const UNIT = String.raw`(?:hours?|hrs?|minutes?|mins?|seconds?|secs?)\b`;
+const DURATION_PATTERN = new RegExp(
+  String.raw`\b(${RANGE})\s*(${UNIT})(?:\s*(?:and\s+)?(${RANGE})\s*(minutes?|mins?)\b)?`,
+  "gi",
+);
+
+const TEMPERATURE_PATTERN =
+  /\b(\d{2,3})(?:\s*(?:°|º|degrees?\b)\s*(F|C|fahrenheit|celsius)?\b|(F|C)\b)/gi;
+
+const WORD_NUMBERS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  ten: 10,
+  "half a": 0.5,
+  "half an": 0.5,
+};
+
+const PASSIVE_PATTERN =
+  /\b(?:bake|baking|roast|simmer|boil|steam|poach|braise|rest|marinate|chill|refrigerate|freeze|rise|proof|slow[- ]cook|pressure[- ]cook|soak|cool|steep|let (?:it |them )?(?:sit|stand|rest)|set aside|in the oven)\w*/i;
+
+function parseNumber(text: string): number | null {
+  const trimmed = text.trim().toLowerCase();
+  if (trimmed in WORD_NUMBERS) return WORD_NUMBERS[trimmed];
+  const mixed = trimmed.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  const fraction = trimmed.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[1]) / Number(fraction[2]);
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : null;
+}
+
+function parseRange(text: string): [number, number] | null {
+  const parts = text.split(/\s*(?:-|–|—|\bto\b|\bor\b)\s*/i).filter(Boolean);
+  const values = parts.map(parseNumber);
+  if (values.length === 0 || values.some((v) => v === null)) return null;
+  const [low, high = low] = values as number[];
+  return [low, Math.max(low, high)];
+}
+
+function unitMinutes(unit: string): number {
+  const u = unit.toLowerCase();
+  if (u.startsWith("h")) return 60;
+  if (u.startsWith("s")) return 1 / 60;
+  return 1;
+}
+
+/** Every duration in a step, in the order they appear. */
+export function findDurations(text: string): DurationMatch[] {
+  const matches: DurationMatch[] = [];
+  for (const match of text.matchAll(DURATION_PATTERN)) {
+    const range = parseRange(match[1]);
+    if (!range) continue;
+    const factor = unitMinutes(match[2]);
+    let [minMinutes, maxMinutes] = range.map((v) => v * factor);
+
+    if (match[3] && match[4]) {
+      const extra = parseRange(match[3]);
+      if (extra) {
+        minMinutes += extra[0];
+        maxMinutes += extra[1];
+      }
+    }
+
+    if (maxMinutes <= 0) continue;
+    matches.push({
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+      text: match[0].trim(),
+      minMinutes,
+      maxMinutes,
+    });
+  }
+  return matches;
+}
+
+/** Oven, oil and internal temperatures in a step, in the order they appear. */
+export function findTemperatures(text: string): TemperatureMatch[] {
+  const matches: TemperatureMatch[] = [];
+  for (const match of text.matchAll(TEMPERATURE_PATTERN)) {
+    const scale = (match[2] ?? match[3])?.charAt(0).toUpperCase();
+    // A bare letter must be uppercase so "10 c" (cups) isn't read as Celsius.
+    if (match[3] && match[3] !== match[3].toUpperCase()) continue;
+    matches.push({
+      start: match.index ?? 0,
+      end: (match.index ?? 0) + match[0].length,
+      text: match[0].trim(),
+      value: Number(match[1]),
+      unit: scale === "F" || scale === "C" ? scale : null,
+    });
+  }
+  return matches;
+}
+
+/** Durations and temperatures together, in text order and never overlapping. */
+export function findStepMarkers(text: string): StepMarker[] {
+  const markers: StepMarker[] = [
+    ...findDurations(text).map((d) => ({ kind: "duration" as const, ...d })),
+    ...findTemperatures(text).map((t) => ({
+      kind: "temperature" as const,
+      ...t,
+    })),
+  ].sort((a, b) => a.start - b.start);
+
+  const result: StepMarker[] = [];
+  for (const marker of markers) {
+    const previous = result[result.length - 1];
+    if (!previous || marker.start >= previous.end) result.push(marker);
+  }
+  return result;
+}
+
+export function isPassiveStep(text: string): boolean {
+  return PASSIVE_PATTERN.test(text);
+}
+
+/**
+ * How long a step takes, adding up every duration it mentions and taking the
+ * upper end of ranges so the food is done when the timer ends.
+ */
+export function stepTiming(text: string): StepTiming {
+  const durations = findDurations(text);
+  const minutes =
+    durations.length > 0
+      ? Math.ceil(durations.reduce((sum, d) => sum + d.maxMinutes, 0))
+      : null;
+  return { minutes, passive: minutes !== null && isPassiveStep(text) };
+}
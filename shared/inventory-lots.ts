@@ -0,0 +1,228 @@
+/**
+ * Pantry item lots.
+ *
+ * An inventory item can hold several purchases of the same food ("lots"), each
+ * with its own quantity, purchase date, expiry and storage location. The item's
+ * own quantity, purchaseDate, expirationDate and storageLocation are kept as a
+ * summary of its lots, so code that only reads item-level fields (expiry
+ * notifications, recipe matching, exports) keeps working unchanged.
+ *
+ * Items without lots behave as a single lot built from their own fields, and an
+ * item drawn down to one lot drops back to that plain shape.
+ */
+
+export interface InventoryLot {
+  id: string;
+  quantity: number;
+  purchaseDate?: string | null;
+  expirationDate?: string | null;
+  storageLocation?: string | null;
+}
+
+export interface LotHolder {
+  quantity: number;
+  purchaseDate?: string | null;
+  expirationDate?: string | null;
+  storageLocation?: string | null;
+  lots?: InventoryLot[] | null;
+}
+
+export interface LotConsumption {
+  lotId: string;
+  quantity: number;
+  expirationDate: string | null;
+}
+
+export interface FifoConsumeResult<T extends LotHolder> {
+  /** The item with its lots drawn down. Meaningless when `depleted`. */
+  item: T;
+  consumed: LotConsumption[];
+  /** True when nothing is left and the item should be removed. */
+  depleted: boolean;
+}
+
+/** Id of the implicit lot of an item that has no explicit lots. */
+export const INITIAL_LOT_ID = "initial";
+
+const QUANTITY_EPSILON = 1e-6;
+
+function roundQuantity(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+export function generateLotId(): string {
+  return `lot-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function getItemLots(item: LotHolder): InventoryLot[] {
+  if (item.lots && item.lots.length > 0) {
+    return item.lots;
+  }
+  return [
+    {
+      id: INITIAL_LOT_ID,
+      quantity: item.quantity,
+      purchaseDate: item.purchaseDate ?? null,
+      expirationDate: item.expirationDate ?? null,
+      storageLocation: item.storageLocation ?? null,
+    },
+  ];
+}
+
+function compareDates(a?: string | null, b?: string | null): number {
+  if (a && b) return a < b ? -1 : a > b ? 1 : 0;
+  if (a) return -1;
+  if (b) return 1;
+  return 0;
+}
+
+/**
+ * FIFO order: earliest expiry first, lots without an expiry last, then oldest
+ * purchase first.
+ */
+export function compareLotsFifo(a: InventoryLot, b: InventoryLot): number {
+  return (
+    compareDates(a.expirationDate, b.expirationDate) ||
+    compareDates(a.purchaseDate, b.purchaseDate) ||
+    a.id.localeCompare(b.id)
+  );
+}
+
+export function sortLotsFifo(lots: InventoryLot[]): InventoryLot[] {
+  return [...lots].sort(compareLotsFifo);
+}
+
+export function summarizeLots(lots: InventoryLot[]): {
+  quantity: number;
+  purchaseDate: string | null;
+  expirationDate: string | null;
+  storageLocation: string | null;
+} {
+  const sorted = sortLotsFifo(lots);
+  const purchaseDates = lots
+    .map((lot) => lot.purchaseDate)
+    .filter((date): date is string => !!date)
+    .sort();
+
+  return {
+    quantity: roundQuantity(lots.reduce((sum, lot) => sum + lot.quantity, 0)),
+    purchaseDate: purchaseDates[0] ?? null,
+    expirationDate: sorted[0]?.expirationDate ?? null,
+    storageLocation: sorted[0]?.storageLocation ?? null,
+  };
+}
+
+/**
+ * Returns `item` with the given lots and its summary fields recomputed. Empty
+ * lots are dropped; a single remaining lot is folded back into the item.
+ */
+export function withLots<T extends LotHolder>(
+  item: T,
+  lots: InventoryLot[],
+): T {
+  const kept = sortLotsFifo(
+    lots.filter((lot) => lot.quantity > QUANTITY_EPSILON),
+  );
+  if (kept.length === 0) {
+    return { ...item, quantity: 0, lots: null };
+  }
+
+  const summary = summarizeLots(kept);
+  return {
+    ...item,
+    quantity: summary.quantity,
+    purchaseDate: summary.purchaseDate ?? item.purchaseDate,
+    expirationDate: summary.expirationDate ?? item.expirationDate,
+    storageLocation: summary.storageLocation ?? item.storageLocation,
+    lots: kept.length > 1 ? kept : null,
+  };
+}
+
+export function addLot<T extends LotHolder>(
+  item: T,
+  lot: Omit<InventoryLot, "id"> & { id?: string },
+): T {
+  return withLots(item, [
+    ...getItemLots(item),
+    { ...lot, id: lot.id ?? generateLotId() },
+  ]);
+}
+
+/** The lot that FIFO consumption would draw from next. */
+export function getNextLot(item: LotHolder): InventoryLot {
+  return sortLotsFifo(getItemLots(item))[0];
+}
+
+/**
+ * Draws `quantity` from the item's lots, earliest-expiring first. Asking for
+ * more than the item holds consumes everything.
+ */
+export function consumeFifo<T extends LotHolder>(
+  item: T,
+  quantity: number,
+): FifoConsumeResult<T> {
+  let left = quantity;
+  const consumed: LotConsumption[] = [];
+  const remaining: InventoryLot[] = [];
+
+  for (const lot of sortLotsFifo(getItemLots(item))) {
+    if (left <= QUANTITY_EPSILON) {
+      remaining.push(lot);
+      continue;
+    }
+
+    const taken = Math.min(lot.quantity, left);
+    left = roundQuantity(left - taken);
+    consumed.push({
+      lotId: lot.id,
+      quantity: roundQuantity(taken),
+      expirationDate: lot.expirationDate ?? null,
+    });
+    remaining.push({ ...lot, quantity: roundQuantity(lot.quantity - taken) });
+  }
+
+  const next = withLots(item, remaining);
+  return { item: next, consumed, depleted: next.quantity <= QUANTITY_EPSILON };
+}
+
+function isSameLot(a: InventoryLot, b: InventoryLot): boolean {
+  return (
+    (a.expirationDate ?? null) === (b.expirationDate ?? null) &&
+    (a.purchaseDate ?? null) === (b.purchaseDate ?? null) &&
+    (a.storageLocation ?? null) === (b.storageLocation ?? null)
+  );
+}
+
+/**
+ * Puts quantities taken by `consumeFifo` back into the item. `sourceLots` are
+ * the item's lots before consumption. Lots are matched on dates and location as
+ * well as id, since an item folded back to one lot reuses the implicit lot id;
+ * a consumed lot with no match is re-added.
+ */
+export function restoreLots<T extends LotHolder>(
+  item: T,
+  consumed: LotConsumption[],
+  sourceLots: InventoryLot[],
+): T {
+  const lots = item.quantity > QUANTITY_EPSILON ? getItemLots(item).map((lot) => ({ ...lot })) : [];
+
+  for (const entry of consumed) {
+    const source = sourceLots.find((lot) => lot.id === entry.lotId);
+    const target = source
+      ? lots.find((lot) => lot.id === entry.lotId && isSameLot(lot, source)) ??
+        lots.find((lot) => isSameLot(lot, source))
+      : lots.find((lot) => lot.id === entry.lotId);
+
+    if (target) {
+      target.quantity = roundQuantity(target.quantity + entry.quantity);
+    } else {
+      lots.push({
+        ...(source ?? { expirationDate: entry.expirationDate }),
+        id: lots.some((lot) => lot.id === entry.lotId) ? generateLotId() : entry.lotId,
+        quantity: entry.quantity,
+      });
+    }
+  }
+
+  return withLots(item, lots);
+}
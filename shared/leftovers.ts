@@ -0,0 +1,140 @@
+/**
+ * Leftovers.
+ *
+ * Cooking a recipe for fewer people than it serves can put the rest into
+ * inventory as a leftovers item: category "leftovers", one unit per serving,
+ * nutrition per serving and the `recipeId` it was cooked from. Meal plans
+ * reference these items from "leftovers" entries, and the meal plan suggests
+ * open slots for servings that are not planned yet.
+ */
+import type { MealSlot, PlanMeals } from "./meal-plan";
+
+export const LEFTOVERS_CATEGORY = "leftovers";
+export const LEFTOVERS_UNIT = "serving";
+
+/** Shelf life used when the shelf-life table has nothing for the location. */
+export const DEFAULT_LEFTOVERS_DAYS = 4;
+
+export interface LeftoverItem {
+  id: string;
+  name: string;
+  quantity: number;
+  category: string;
+  expirationDate?: string | null;
+  purchaseDate?: string | null;
+  recipeId?: string | null;
+  deletedAt?: string | null;
+}
+
+export interface LeftoverPlanDay {
+  date: string;
+  meals: PlanMeals;
+}
+
+export interface LeftoverSuggestion {
+  item: LeftoverItem;
+  /** Servings not yet planned from today on. */
+  servingsLeft: number;
+  date: string;
+  slotId: string;
+}
+
+export function leftoversName(recipeTitle: string): string {
+  return `Leftover ${recipeTitle}`;
+}
+
+export function isLeftoverItem(item: {
+  category: string;
+  deletedAt?: string | null;
+}): boolean {
+  return item.category === LEFTOVERS_CATEGORY && !item.deletedAt;
+}
+
+function dateKey(value: string): string {
+  return value.slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Leftover servings of an item already planned on or after `fromDate`. */
+export function plannedLeftoverServings(
+  itemId: string,
+  plans: LeftoverPlanDay[],
+  fromDate: string,
+): number {
+  return plans
+    .filter((plan) => plan.date >= fromDate)
+    .flatMap((plan) => Object.values(plan.meals))
+    .filter(
+      (entry) => entry.type === "leftovers" && entry.inventoryItemId === itemId,
+    ).length;
+}
+
+/**
+ * One suggested slot per leftovers item that still has unplanned servings:
+ * the first empty slot between today and the item's expiry, looking at most
+ * `horizonDays` ahead. Breakfast and snack slots (sunrise and coffee icons)
+ * are only offered when no main meal is free in that time. Soonest-expiring
+ * items pick first and two items are never offered the same slot.
+ */
+export function suggestLeftoverMeals(
+  items: LeftoverItem[],
+  plans: LeftoverPlanDay[],
+  slots: MealSlot[],
+  today: string,
+  horizonDays = 3,
+): LeftoverSuggestion[] {
+  const mealsByDate = new Map(plans.map((plan) => [plan.date, plan.meals]));
+  const isMinor = (slot: MealSlot) =>
+    slot.icon === "sunrise" || slot.icon === "coffee";
+  const sorted = [...slots].sort((a, b) => a.order - b.order);
+  const passes = [
+    sorted.filter((slot) => !isMinor(slot)),
+    sorted.filter(isMinor),
+  ];
+  const taken = new Set<string>();
+  const suggestions: LeftoverSuggestion[] = [];
+
+  const findOpenSlot = (
+    lastDay: string,
+  ): { date: string; slotId: string } | null => {
+    for (const passSlots of passes) {
+      for (let offset = 0; offset < horizonDays; offset++) {
+        const date = addDays(today, offset);
+        if (date > lastDay) break;
+        const meals = mealsByDate.get(date) ?? {};
+        const slot = passSlots.find(
+          (s) => !meals[s.id] && !taken.has(`${date}:${s.id}`),
+        );
+        if (slot) return { date, slotId: slot.id };
+      }
+    }
+    return null;
+  };
+
+  const leftovers = items
+    .filter((item) => isLeftoverItem(item) && item.expirationDate)
+    .sort((a, b) =>
+      (a.expirationDate ?? "").localeCompare(b.expirationDate ?? ""),
+    );
+
+  for (const item of leftovers) {
+    const servingsLeft =
+      Math.floor(item.quantity) -
+      plannedLeftoverServings(item.id, plans, today);
+    if (servingsLeft <= 0) continue;
+
+    const lastDay = dateKey(item.expirationDate!);
+    const suggestion = findOpenSlot(lastDay);
+    if (suggestion) {
+      taken.add(`${suggestion.date}:${suggestion.slotId}`);
+      suggestions.push({ item, servingsLeft, ...suggestion });
+    }
+  }
+
+  return suggestions;
+}
@@ -0,0 +1,218 @@
+/**
+ * Meal-plan entries and per-user slot templates, shared by the client and the
+ * sync routers.
+ *
+ * A plan's `meals` maps a slot id to one entry. Older plans stored a bare
+ * string per slot: usually a recipe id, but AI-generated plans put a meal name
+ * there. `normalizeMeals` turns any stored shape into entries, so plans are
+ * migrated whenever they are read or written.
+ */
+import { z } from "zod";
+
+export const MEAL_SLOT_ICONS = [
+  "sunrise",
+  "sun",
+  "moon",
+  "coffee",
+  "sunset",
+] as const;
+
+export type MealSlotIcon = (typeof MEAL_SLOT_ICONS)[number];
+
+export const MAX_TEMPLATE_SLOTS = 10;
+export const MAX_SLOT_TEMPLATES = 20;
+
+export const mealSlotSchema = z.object({
+  id: z
+    .string()
+    .min(1)
+    .max(40)
+    .regex(/^[a-z0-9_-]+$/, "Slot ids use lowercase letters, digits, _ and -"),
+  name: z.string().trim().min(1).max(40),
+  icon: z.enum(MEAL_SLOT_ICONS),
+  order: z.number().int().min(0),
+  /** Calories this slot should contribute to the day, if the user set one. */
+  targetCalories: z.number().min(0).max(5000).nullable().optional(),
+});
+
+export type MealSlot = z.infer<typeof mealSlotSchema>;
+
+export const mealSlotTemplateSchema = z
+  .object({
+    id: z.string().min(1).max(64),
+    name: z.string().trim().min(1).max(60),
+    description: z.string().max(200).optional(),
+    slots: z.array(mealSlotSchema).min(1).max(MAX_TEMPLATE_SLOTS),
+  })
+  .refine(
+    (template) =>
+      new Set(template.slots.map((slot) => slot.id)).size ===
+      template.slots.length,
+    { message: "Slot ids must be unique within a template", path: ["slots"] },
+  );
+
+export type MealSlotTemplate = z.infer<typeof mealSlotTemplateSchema>;
+
+/** The synced set of a user's custom templates. */
+export const mealSlotTemplatesSchema = z.object({
+  templates: z
+    .array(mealSlotTemplateSchema)
+    .max(MAX_SLOT_TEMPLATES)
+    .refine(
+      (templates) =>
+        new Set(templates.map((template) => template.id)).size ===
+        templates.length,
+      "Template ids must be unique",
+    ),
+  updatedAt: z.string().optional(),
+});
+
+export type MealSlotTemplates = z.infer<typeof mealSlotTemplatesSchema>;
+
+export const mealEntrySchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("recipe"),
+    recipeId: z.string().min(1),
+    servings: z.number().positive().optional(),
+  }),
+  z.object({
+    type: z.literal("text"),
+    text: z.string().trim().min(1).max(200),
+  }),
+  z.object({
+    type: z.literal("leftovers"),
+    /** The recipe the leftovers come from, when known. */
+    recipeId: z.string().min(1).optional(),
+    /** The leftovers inventory item being eaten; see shared/leftovers. */
+    inventoryItemId: z.string().min(1).optional(),
+    /** The day the original meal was planned or cooked ("YYYY-MM-DD"). */
+    fromDate: z.string().optional(),
+    note: z.string().max(200).optional(),
+  }),
+  z.object({
+    type: z.literal("eat_out"),
+    note: z.string().max(200).optional(),
+  }),
+]);
+
+export type MealEntry = z.infer<typeof mealEntrySchema>;
+export type MealEntryType = MealEntry["type"];
+export type PlanMeals = Record<string, MealEntry>;
+
+function legacyString(
+  value: string,
+  knownRecipeIds?: ReadonlySet<string>,
+): MealEntry | null {
+  const text = value.trim();
+  if (!text) return null;
+  const isRecipeId = knownRecipeIds
+    ? knownRecipeIds.has(text)
+    : !/\s/.test(text);
+  return isRecipeId
+    ? { type: "recipe", recipeId: text }
+    : { type: "text", text: text.slice(0, 200) };
+}
+
+/**
+ * One stored meal as an entry, or null if it is empty or unreadable.
+ * Bare strings are recipe ids when they are in `knownRecipeIds`, or, without
+ * that set, when they contain no whitespace; anything else is free text.
+ */
+export function normalizeMealEntry(
+  value: unknown,
+  knownRecipeIds?: ReadonlySet<string>,
+): MealEntry | null {
+  if (typeof value === "string") return legacyString(value, knownRecipeIds);
+  if (!value || typeof value !== "object") return null;
+
+  const parsed = mealEntrySchema.safeParse(value);
+  if (parsed.success) return parsed.data;
+
+  // Early sync payloads used { recipeId?, customMeal? }.
+  const record = value as { recipeId?: unknown; customMeal?: unknown };
+  if (typeof record.recipeId === "string" && record.recipeId.trim()) {
+    return { type: "recipe", recipeId: record.recipeId.trim() };
+  }
+  if (typeof record.customMeal === "string") {
+    return legacyString(record.customMeal, new Set());
+  }
+  return null;
+}
+
+/**
+ * A plan's meals as slot id → entry. Accepts the current shape, the legacy
+ * slot → string map and the legacy [{ type: slotId, recipeId, customMeal }]
+ * array; empty slots are dropped.
+ */
+export function normalizeMeals(
+  value: unknown,
+  knownRecipeIds?: ReadonlySet<string>,
+): PlanMeals {
+  const meals: PlanMeals = {};
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const slot =
+        item && typeof item === "object"
+          ? ((item as { slot?: unknown; type?: unknown }).slot ??
+            (item as { type?: unknown }).type)
+          : null;
+      const entry = normalizeMealEntry(item, knownRecipeIds);
+      if (typeof slot === "string" && entry) meals[slot] = entry;
+    }
+    return meals;
+  }
+  if (!value || typeof value !== "object") return meals;
+
+  for (const [slot, stored] of Object.entries(value)) {
+    const entry = normalizeMealEntry(stored, knownRecipeIds);
+    if (entry) meals[slot] = entry;
+  }
+  return meals;
+}
+
+/** Validates plan meals after migrating legacy shapes; use for sync payloads. */
+export const planMealsSchema = z.preprocess(
+  (value) => normalizeMeals(value),
+  z.record(mealEntrySchema),
+);
+
+/** The recipe an entry refers to, including the recipe leftovers came from. */
+export function entryRecipeId(entry: MealEntry | undefined): string | null {
+  if (!entry) return null;
+  if (entry.type === "recipe") return entry.recipeId;
+  if (entry.type === "leftovers") return entry.recipeId ?? null;
+  return null;
+}
+
+/** Recipes that have to be cooked for a plan (leftovers and eating out need no shopping). */
+export function cookedRecipeIds(meals: unknown): string[] {
+  return Object.values(normalizeMeals(meals))
+    .filter(
+      (entry): entry is Extract<MealEntry, { type: "recipe" }> =>
+        entry.type === "recipe",
+    )
+    .map((entry) => entry.recipeId);
+}
+
+/** What to show for an entry, given a lookup for recipe titles. */
+export function mealEntryLabel(
+  entry: MealEntry,
+  recipeTitle: (recipeId: string) => string | undefined,
+): string {
+  switch (entry.type) {
+    case "recipe":
+      return recipeTitle(entry.recipeId) ?? "Unknown recipe";
+    case "text":
+      return entry.text;
+    case "leftovers": {
+      const title = entry.recipeId ? recipeTitle(entry.recipeId) : undefined;
+      return title ? `Leftover ${title}` : (entry.note ?? "Leftovers");
+    }
+    case "eat_out":
+      return entry.note ? `Eating out: ${entry.note}` : "Eating out";
+  }
+}
+
+export function sortSlots<T extends { order: number }>(slots: T[]): T[] {
+  return [...slots].sort((a, b) => a.order - b.order);
+}
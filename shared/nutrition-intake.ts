@@ -0,0 +1,289 @@
+/**
+ * Daily nutrition intake math shared by the server (totals from consumed logs)
+ * and the client (forecasts from planned meals).
+ *
+ * Macro targets are stored as percentages of calories; they are turned into
+ * gram targets here using 4 kcal/g for protein and carbs and 9 kcal/g for fat.
+ */
+
+export const INTAKE_NUTRIENTS = [
+  "calories",
+  "protein",
+  "carbs",
+  "fat",
+  "fiber",
+  "sugar",
+  "sodium",
+] as const;
+
+export type IntakeNutrient = (typeof INTAKE_NUTRIENTS)[number];
+
+/** Calories in kcal, sodium in mg, everything else in g. */
+export type NutrientTotals = Record<IntakeNutrient, number>;
+
+/** Nutrition as stored on consumed-log entries and recipes; optional fields may be missing. */
+export interface NutritionValues {
+  calories?: number | null;
+  protein?: number | null;
+  carbs?: number | null;
+  fat?: number | null;
+  fiber?: number | null;
+  sugar?: number | null;
+  sodium?: number | null;
+}
+
+export interface MacroTargetPercents {
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+/** User-set daily goals, stored in preferences alongside macroTargets. */
+export interface NutritionGoals {
+  calories?: number;
+  fiber?: number;
+  /** Upper limit in mg. */
+  sodium?: number;
+}
+
+export const DEFAULT_NUTRITION_GOALS: Required<NutritionGoals> = {
+  calories: 2000,
+  fiber: 28,
+  sodium: 2300,
+};
+
+export const DEFAULT_MACRO_TARGET_PERCENTS: MacroTargetPercents = {
+  protein: 50,
+  carbs: 35,
+  fat: 15,
+};
+
+const CALORIES_PER_GRAM = { protein: 4, carbs: 4, fat: 9 } as const;
+
+/** Nutrients where staying below the target is the goal. */
+const LIMIT_NUTRIENTS: ReadonlySet<IntakeNutrient> = new Set(["sodium"]);
+
+/** Share of a goal that counts as on track (90%-110%). */
+const ON_TRACK_MIN = 0.9;
+const ON_TRACK_MAX = 1.1;
+
+export type DailyTargets = Record<IntakeNutrient, number | null>;
+
+/**
+ * - under: below 90% of a goal
+ * - on_track: 90%-110% of a goal, or at/below a limit
+ * - over: above 110% of a goal, or above a limit
+ * - none: no target for this nutrient
+ */
+export type TargetStatus = "under" | "on_track" | "over" | "none";
+
+export interface NutrientProgress {
+  nutrient: IntakeNutrient;
+  consumed: number;
+  target: number | null;
+  /** consumed / target as a whole percentage; null without a target. */
+  percent: number | null;
+  status: TargetStatus;
+  isLimit: boolean;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function positive(value: unknown): number | null {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) && number > 0
+    ? number
+    : null;
+}
+
+export function emptyTotals(): NutrientTotals {
+  return {
+    calories: 0,
+    protein: 0,
+    carbs: 0,
+    fat: 0,
+    fiber: 0,
+    sugar: 0,
+    sodium: 0,
+  };
+}
+
+/** Adds up nutrition values, scaling each by its multiplier (defaults to 1). */
+export function sumNutrition(
+  items: {
+    nutrition: NutritionValues | null | undefined;
+    multiplier?: number;
+  }[],
+): NutrientTotals {
+  const totals = emptyTotals();
+  for (const { nutrition, multiplier = 1 } of items) {
+    if (!nutrition) continue;
+    for (const nutrient of INTAKE_NUTRIENTS) {
+      const value = positive(nutrition[nutrient]);
+      if (value !== null) totals[nutrient] += value * multiplier;
+    }
+  }
+  for (const nutrient of INTAKE_NUTRIENTS) {
+    totals[nutrient] = round1(totals[nutrient]);
+  }
+  return totals;
+}
+
+/** Reads nutrition from an untyped value (jsonb extraData), or null if it has no calories or macros. */
+export function readNutrition(value: unknown): NutritionValues | null {
+  if (!value || typeof value !== "object") return null;
+  const record = value as Record<string, unknown>;
+  const nutrition: NutritionValues = {};
+  let found = false;
+  for (const nutrient of INTAKE_NUTRIENTS) {
+    const amount = positive(record[nutrient]);
+    if (amount !== null) {
+      nutrition[nutrient] = amount;
+      found = true;
+    }
+  }
+  return found ? nutrition : null;
+}
+
+/**
+ * Gram targets for the day. The calorie goal falls back to the default and
+ * the macro split to the default percentages when they are missing or don't
+ * add up to roughly 100%.
+ */
+export function resolveDailyTargets(
+  macroTargets: Partial<MacroTargetPercents> | null | undefined,
+  goals: NutritionGoals | null | undefined,
+): DailyTargets {
+  const calories =
+    positive(goals?.calories) ?? DEFAULT_NUTRITION_GOALS.calories;
+  const percents =
+    macroTargets &&
+    (["protein", "carbs", "fat"] as const).every(
+      (macro) => positive(macroTargets[macro]) !== null,
+    ) &&
+    Math.abs(
+      (macroTargets.protein ?? 0) +
+        (macroTargets.carbs ?? 0) +
+        (macroTargets.fat ?? 0) -
+        100,
+    ) <= 1
+      ? (macroTargets as MacroTargetPercents)
+      : DEFAULT_MACRO_TARGET_PERCENTS;
+
+  return {
+    calories,
+    protein: round1(
+      (calories * percents.protein) / 100 / CALORIES_PER_GRAM.protein,
+    ),
+    carbs: round1((calories * percents.carbs) / 100 / CALORIES_PER_GRAM.carbs),
+    fat: round1((calories * percents.fat) / 100 / CALORIES_PER_GRAM.fat),
+    fiber: positive(goals?.fiber) ?? DEFAULT_NUTRITION_GOALS.fiber,
+    sugar: null,
+    sodium: positive(goals?.sodium) ?? DEFAULT_NUTRITION_GOALS.sodium,
+  };
+}
+
+export function compareToTargets(
+  totals: NutrientTotals,
+  targets: DailyTargets,
+): NutrientProgress[] {
+  return INTAKE_NUTRIENTS.map((nutrient) => {
+    const consumed = totals[nutrient];
+    const target = targets[nutrient];
+    const isLimit = LIMIT_NUTRIENTS.has(nutrient);
+    if (target === null || target <= 0) {
+      return {
+        nutrient,
+        consumed,
+        target: null,
+        percent: null,
+        status: "none" as const,
+        isLimit,
+      };
+    }
+
+    const ratio = consumed / target;
+    const status: TargetStatus = isLimit
+      ? ratio > 1
+        ? "over"
+        : "on_track"
+      : ratio < ON_TRACK_MIN
+        ? "under"
+        : ratio > ON_TRACK_MAX
+          ? "over"
+          : "on_track";
+    return {
+      nutrient,
+      consumed,
+      target,
+      percent: Math.round(ratio * 100),
+      status,
+      isLimit,
+    };
+  });
+}
+
+/** Per-day average of a set of daily totals. */
+export function averageTotals(days: NutrientTotals[]): NutrientTotals {
+  const average = emptyTotals();
+  if (days.length === 0) return average;
+  for (const nutrient of INTAKE_NUTRIENTS) {
+    average[nutrient] = round1(
+      days.reduce((sum, day) => sum + day[nutrient], 0) / days.length,
+    );
+  }
+  return average;
+}
+
+export interface PlannedMealNutrition {
+  date: string;
+  /** Per-serving nutrition of the planned recipe; null when unknown. */
+  nutrition: NutritionValues | null;
+}
+
+export interface DayForecast {
+  date: string;
+  totals: NutrientTotals;
+  mealCount: number;
+  /** Planned meals without nutrition data; they count as zero. */
+  unknownCount: number;
+}
+
+/** Projected intake per day from planned meals, one serving each. */
+export function forecastDays(
+  dates: string[],
+  meals: PlannedMealNutrition[],
+): DayForecast[] {
+  return dates.map((date) => {
+    const planned = meals.filter((meal) => meal.date === date);
+    return {
+      date,
+      totals: sumNutrition(planned),
+      mealCount: planned.length,
+      unknownCount: planned.filter((meal) => !readNutrition(meal.nutrition))
+        .length,
+    };
+  });
+}
+
+/**
+ * The local calendar day ("YYYY-MM-DD") of a timestamp, given the client's
+ * UTC offset in minutes as returned by Date#getTimezoneOffset (positive west
+ * of UTC). Plain "YYYY-MM-DD" dates are returned unchanged.
+ */
+export function localDateKey(date: string, timezoneOffset = 0): string | null {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(date)) return date;
+  const time = Date.parse(date);
+  if (Number.isNaN(time)) return null;
+  return new Date(time - timezoneOffset * 60_000).toISOString().slice(0, 10);
+}
+
+/** "YYYY-MM-DD" keys from `endDate` back `count` days, oldest first. */
+export function previousDays(endDate: string, count: number): string[] {
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  return Array.from({ length: count }, (_, index) =>
+    new Date(end - (count - 1 - index) * 86_400_000).toISOString().slice(0, 10),
+  );
+}
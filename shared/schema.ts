@@ -22,7 +22,7 @@
  * - Subscription management (Stripe integration)
  */
 
-import { sql } from "drizzle-orm";
+import { sql, type SQL } from "drizzle-orm";
 import {
   pgTable,
   text,
@@ -37,7 +37,10 @@ import {
   doublePrecision,
   serial,
   customType,
+  pgSequence,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
+import { planMealsSchema } from "./meal-plan";
 
 const bytea = customType<{ data: Buffer; dpiData: string }>({
   dataType() {
@@ -82,6 +85,8 @@ import { z } from "zod";
  * - notifyRecipeSuggestions: Send recipe ideas
  * - notifyMealReminders: Remind about planned meals
  * - notificationTime: Preferred time for notifications (24h format)
+ * - timezone: IANA time zone of the user's device (e.g., "America/New_York"),
+ *   used to send server-side notifications at their local notificationTime
  * - isAdmin: Whether user has admin access
  *
  * Auth provider fields:
@@ -134,6 +139,7 @@ export const users = pgTable("users", {
     .default(false),
   notifyMealReminders: boolean("notify_meal_reminders").notNull().default(true),
   notificationTime: text("notification_time").default("09:00"),
+  timezone: text("timezone"),
   isAdmin: boolean("is_admin").notNull().default(false),
   primaryProvider: varchar("primary_provider"),
   primaryProviderId: varchar("primary_provider_id"),
@@ -150,6 +156,7 @@ export const users = pgTable("users", {
   preRegisteredAt: timestamp("pre_registered_at"),
   privacyConsentedAt: timestamp("privacy_consented_at"),
   isActivated: boolean("is_activated").notNull().default(true),
+  // Legacy single API key; moved into api_keys at startup and cleared.
   apiKeyHash: varchar("api_key_hash"),
   referralCode: varchar("referral_code", { length: 8 }).unique(),
   referredBy: varchar("referred_by"),
@@ -221,6 +228,13 @@ export const authProviders = pgTable(
  * - token: Unique session token (sent in Authorization header)
  * - expiresAt: When the session becomes invalid
  *
+ * - stepUpAt: When the session last re-confirmed the user with a passkey;
+ *   destructive routes require this to be recent
+ * - twoFactorVerifiedAt: When the login behind this session passed a second
+ *   factor (TOTP, recovery code, trusted device or passkey)
+ * - trustedDeviceId: The remembered device this session signed in from, if any;
+ *   revoking the session forgets the device
+ *
  * Sessions are validated on each protected API request.
  * Expired sessions are periodically cleaned up.
  */
@@ -237,6 +251,9 @@ export const userSessions = pgTable(
     userAgent: text("user_agent"),
     ipAddress: varchar("ip_address", { length: 45 }),
     expiresAt: timestamp("expires_at").notNull(),
+    stepUpAt: timestamp("step_up_at"),
+    twoFactorVerifiedAt: timestamp("two_factor_verified_at"),
+    trustedDeviceId: varchar("trusted_device_id").references(() => trustedDevices.id, { onDelete: "set null" }),
     createdAt: timestamp("created_at").defaultNow(),
   },
   (table) => [
@@ -264,6 +281,245 @@ export const passwordResetTokens = pgTable(
   ],
 );
 
+/**
+ * USER TWO FACTOR TABLE
+ *
+ * Optional TOTP second factor, one row per user.
+ *
+ * - secret: Base32 TOTP secret, encrypted with TOKEN_ENCRYPTION_KEY
+ * - enabledAt: Null while enrollment is pending confirmation with a first code
+ * - lastUsedStep: Last accepted 30-second time step, so a code cannot be replayed
+ */
+export const userTwoFactor = pgTable("user_two_factor", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .unique()
+    .references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(),
+  enabledAt: timestamp("enabled_at"),
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+/**
+ * TWO FACTOR RECOVERY CODES TABLE
+ *
+ * Single-use backup codes issued when 2FA is enabled. Only SHA-256 hashes
+ * are stored; usedAt is set when a code is spent.
+ */
+export const twoFactorRecoveryCodes = pgTable(
+  "two_factor_recovery_codes",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    codeHash: text("code_hash").notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_two_factor_recovery_codes_user").on(table.userId),
+  ],
+);
+
+/**
+ * TWO FACTOR LOGIN CHALLENGES TABLE
+ *
+ * Pending second login steps. A correct password (or social sign-in) on an
+ * account with 2FA yields a short-lived token instead of a session; the
+ * token is exchanged for a session together with a valid code.
+ * provider records how the first step signed in, for the login event.
+ */
+export const twoFactorLoginChallenges = pgTable(
+  "two_factor_login_challenges",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    tokenHash: text("token_hash").notNull().unique(),
+    provider: text("provider").notNull().default("email"),
+    attempts: integer("attempts").notNull().default(0),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_two_factor_login_challenges_expires").on(table.expiresAt),
+  ],
+);
+
+/**
+ * TRUSTED DEVICES TABLE
+ *
+ * Devices the user chose to remember after passing 2FA. The device keeps
+ * a random token (only its hash is stored here) and skips the second step
+ * until expiresAt. Sessions signed in from a device reference it.
+ */
+export const trustedDevices = pgTable(
+  "trusted_devices",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    tokenHash: text("token_hash").notNull().unique(),
+    userAgent: text("user_agent"),
+    expiresAt: timestamp("expires_at").notNull(),
+    lastUsedAt: timestamp("last_used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_trusted_devices_user").on(table.userId),
+  ],
+);
+
+/**
+ * PASSKEY CREDENTIALS TABLE
+ *
+ * WebAuthn credentials (passkeys) registered by a user, usable for primary
+ * login and for step-up confirmation of destructive actions.
+ *
+ * Fields:
+ * - credentialId: Authenticator-assigned credential ID (base64url)
+ * - publicKey: Credential public key as SPKI DER (base64url)
+ * - algorithm: COSE algorithm of the key (-7 ES256, -257 RS256)
+ * - signCount: Last signature counter seen, used to detect cloned authenticators
+ * - transports: Transport hints reported at registration ("internal", "hybrid", ...)
+ * - backedUp: Whether the passkey is synced (e.g. iCloud Keychain, Google Password Manager)
+ * - name: User-facing label
+ */
+export const passkeyCredentials = pgTable(
+  "passkey_credentials",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    credentialId: text("credential_id").notNull().unique(),
+    publicKey: text("public_key").notNull(),
+    algorithm: integer("algorithm").notNull(),
+    signCount: integer("sign_count").notNull().default(0),
+    transports: text("transports").array(),
+    backedUp: boolean("backed_up").notNull().default(false),
+    name: varchar("name", { length: 100 }).notNull(),
+    lastUsedAt: timestamp("last_used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_passkey_credentials_user").on(table.userId),
+  ],
+);
+
+/**
+ * WEBAUTHN CHALLENGES TABLE
+ *
+ * Single-use challenges handed out with passkey registration, login and
+ * step-up options. A challenge is deleted when a response is verified
+ * against it; expired ones are removed by the session cleanup job.
+ *
+ * - purpose: "register", "login" or "step_up"
+ * - userId: Null for login, where the user is not known until the assertion
+ */
+export const webauthnChallenges = pgTable(
+  "webauthn_challenges",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    challenge: text("challenge").notNull().unique(),
+    purpose: varchar("purpose", { length: 20 }).notNull(),
+    userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_webauthn_challenges_expires").on(table.expiresAt),
+  ],
+);
+
+/**
+ * API KEYS TABLE
+ *
+ * Personal API keys used by Siri Shortcuts and other automations to call
+ * /api/external. A user can hold several named keys; each one is limited
+ * to the scopes it was created with. Only the SHA-256 hash of the key is
+ * stored, plus its first characters so the user can tell keys apart.
+ *
+ * - scopes: Subset of "inventory:read", "inventory:write", "recipes", "shopping"
+ * - rateLimitPerMinute: Requests allowed per rolling minute for this key
+ * - expiresAt: Null for keys that never expire
+ * - lastUsedAt: Updated on every authenticated request
+ */
+export const apiKeys = pgTable(
+  "api_keys",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name", { length: 100 }).notNull(),
+    keyHash: text("key_hash").notNull().unique(),
+    keyPrefix: varchar("key_prefix", { length: 16 }).notNull(),
+    scopes: text("scopes").array().notNull(),
+    rateLimitPerMinute: integer("rate_limit_per_minute").notNull().default(30),
+    expiresAt: timestamp("expires_at"),
+    lastUsedAt: timestamp("last_used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_api_keys_user").on(table.userId),
+  ],
+);
+
+/**
+ * API KEY REQUEST LOGS TABLE
+ *
+ * One row per request made with an API key, shown to the user in settings.
+ * The per-key rate limit is enforced in memory by apiKeyLimiter, not from
+ * these rows. Rows older than 30 days are removed by the session cleanup job.
+ *
+ * - action: External API action that was requested (null if the body was invalid)
+ * - statusCode: HTTP status returned to the caller
+ * - ipAddress: Anonymized client IP
+ */
+export const apiKeyRequestLogs = pgTable(
+  "api_key_request_logs",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    apiKeyId: varchar("api_key_id")
+      .notNull()
+      .references(() => apiKeys.id, { onDelete: "cascade" }),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    action: varchar("action", { length: 50 }),
+    statusCode: integer("status_code").notNull(),
+    ipAddress: varchar("ip_address", { length: 64 }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("idx_api_key_request_logs_key_created").on(table.apiKeyId, table.createdAt),
+    index("idx_api_key_request_logs_created").on(table.createdAt),
+  ],
+);
+
 /**
  * USER SYNC DATA TABLE
  *
@@ -301,10 +557,123 @@ export const userSyncData = pgTable("user_sync_data", {
   index("idx_user_sync_data_last_synced").on(table.lastSyncedAt),
 ]);
 
+// =============================================================================
+// HOUSEHOLD TABLES
+// =============================================================================
+
+/**
+ * HOUSEHOLDS TABLE
+ *
+ * A household lets several users share one pantry, shopping list and meal plan.
+ * Inventory, shopping and meal-plan rows carry an optional householdId; when a
+ * user belongs to a household the sync routers scope reads and writes to it
+ * instead of to the individual userId.
+ *
+ * Fields:
+ * - name: Display name chosen by the owner (e.g., "The Smith Kitchen")
+ * - ownerId: The member with the "owner" role
+ */
+export const households = pgTable(
+  "households",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    name: text("name").notNull(),
+    ownerId: varchar("owner_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_households_owner").on(table.ownerId),
+  ],
+);
+
+/**
+ * HOUSEHOLD MEMBERS TABLE
+ *
+ * Links users to a household. A user can belong to at most one household.
+ *
+ * Fields:
+ * - role: "owner" (manage members + write), "member" (write), "viewer" (read-only)
+ */
+export const householdMembers = pgTable(
+  "household_members",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    householdId: varchar("household_id")
+      .notNull()
+      .references(() => households.id, { onDelete: "cascade" }),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" })
+      .unique(),
+    role: varchar("role", { length: 20 }).notNull().default("member"),
+    joinedAt: timestamp("joined_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_household_members_household").on(table.householdId),
+  ],
+);
+
+/**
+ * HOUSEHOLD INVITES TABLE
+ *
+ * Pending invitations to join a household. The raw invite code is shown to the
+ * inviter once; only its SHA-256 hash is stored.
+ *
+ * Fields:
+ * - email: Optional address the invite is restricted to
+ * - role: Role granted on acceptance ("member" or "viewer")
+ * - acceptedBy/acceptedAt: Set once the invite is redeemed (single use)
+ */
+export const householdInvites = pgTable(
+  "household_invites",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    householdId: varchar("household_id")
+      .notNull()
+      .references(() => households.id, { onDelete: "cascade" }),
+    invitedBy: varchar("invited_by")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    email: varchar("email"),
+    codeHash: text("code_hash").notNull().unique(),
+    role: varchar("role", { length: 20 }).notNull().default("member"),
+    expiresAt: timestamp("expires_at").notNull(),
+    acceptedBy: varchar("accepted_by").references(() => users.id, { onDelete: "set null" }),
+    acceptedAt: timestamp("accepted_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_household_invites_household").on(table.householdId),
+    index("idx_household_invites_expires").on(table.expiresAt),
+  ],
+);
+
+export type Household = typeof households.$inferSelect;
+export type HouseholdMember = typeof householdMembers.$inferSelect;
+export type HouseholdInvite = typeof householdInvites.$inferSelect;
+
 // =============================================================================
 // NORMALIZED SYNC DATA TABLES
 // =============================================================================
 
+/**
+ * SYNC REVISION SEQUENCE
+ *
+ * Global, monotonically increasing revision shared by every delta-synced table.
+ * Each insert or update of a synced row takes the next value, so a client only
+ * needs to remember the highest revision it has seen to pull everything newer.
+ */
+export const syncRevisionSeq = pgSequence("sync_revision_seq");
+
+const nextSyncRevisionDefault = sql`nextval('sync_revision_seq')`;
+
 export const userInventoryItems = pgTable(
   "user_inventory_items",
   {
@@ -312,6 +681,7 @@ export const userInventoryItems = pgTable(
     userId: varchar("user_id")
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
+    householdId: varchar("household_id").references(() => households.id, { onDelete: "set null" }),
     itemId: text("item_id").notNull(),
     name: text("name").notNull(),
     barcode: text("barcode"),
@@ -327,9 +697,17 @@ export const userInventoryItems = pgTable(
     imageUri: text("image_uri"),
     fdcId: integer("fdc_id"),
     servingSize: text("serving_size"),
+    // Separate purchases of this item (InventoryLot[] from shared/inventory-lots).
+    // Null for single-purchase items; quantity, dates and storageLocation above
+    // always hold the summary of the lots.
+    lots: jsonb("lots"),
+    // Leftovers only: the saved recipe they were cooked from. Quantity counts
+    // servings and nutrition is per serving.
+    recipeId: text("recipe_id"),
     addedAt: timestamp("added_at").defaultNow(),
     updatedAt: timestamp("updated_at").defaultNow(),
     deletedAt: timestamp("deleted_at"),
+    revision: bigint("revision", { mode: "number" }).notNull().default(nextSyncRevisionDefault),
   },
   (table) => [
     uniqueIndex("idx_user_inventory_user_item").on(table.userId, table.itemId),
@@ -338,10 +716,13 @@ export const userInventoryItems = pgTable(
     index("idx_user_inventory_user_expiration").on(table.userId, table.expirationDate),
     index("idx_user_inventory_user_deleted").on(table.userId, table.deletedAt),
     index("idx_user_inventory_cursor").on(table.userId, table.updatedAt, table.id),
+    index("idx_user_inventory_household").on(table.householdId),
+    index("idx_user_inventory_revision").on(table.userId, table.revision),
   ],
 );
 
 export const insertUserInventoryItemSchema = createInsertSchema(userInventoryItems).omit({
+  revision: true,
   addedAt: true,
   updatedAt: true,
   deletedAt: true,
@@ -349,6 +730,20 @@ export const insertUserInventoryItemSchema = createInsertSchema(userInventoryIte
 export type InsertUserInventoryItem = z.infer<typeof insertUserInventoryItemSchema>;
 export type UserInventoryItem = typeof userInventoryItems.$inferSelect;
 
+/**
+ * Full-text document for a saved recipe: title, description, then the string
+ * values of the ingredients and instructions, weighted in that order. Recipe
+ * search must use this exact expression so idx_user_recipes_search applies.
+ */
+export function recipeSearchVector(table: {
+  title: AnyPgColumn;
+  description: AnyPgColumn;
+  ingredients: AnyPgColumn;
+  instructions: AnyPgColumn;
+}): SQL {
+  return sql`(setweight(to_tsvector('english', coalesce(${table.title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${table.description}, '')), 'B') || setweight(jsonb_to_tsvector('english', coalesce(${table.ingredients}, '[]'::jsonb), '["string"]'), 'C') || setweight(jsonb_to_tsvector('english', coalesce(${table.instructions}, '[]'::jsonb), '["string"]'), 'D'))`;
+}
+
 export const userSavedRecipes = pgTable(
   "user_saved_recipes",
   {
@@ -373,16 +768,20 @@ export const userSavedRecipes = pgTable(
     extraData: jsonb("extra_data"),
     savedAt: timestamp("saved_at").defaultNow(),
     updatedAt: timestamp("updated_at").defaultNow(),
+    revision: bigint("revision", { mode: "number" }).notNull().default(nextSyncRevisionDefault),
   },
   (table) => [
     uniqueIndex("idx_user_recipes_user_item").on(table.userId, table.itemId),
     index("idx_user_recipes_user").on(table.userId),
     index("idx_user_recipes_user_favorite").on(table.userId, table.isFavorite),
     index("idx_user_recipes_cursor").on(table.userId, table.updatedAt, table.id),
+    index("idx_user_recipes_revision").on(table.userId, table.revision),
+    index("idx_user_recipes_search").using("gin", recipeSearchVector(table)),
   ],
 );
 
 export const insertUserSavedRecipeSchema = createInsertSchema(userSavedRecipes).omit({
+  revision: true,
   savedAt: true,
   updatedAt: true,
 });
@@ -396,21 +795,26 @@ export const userMealPlans = pgTable(
     userId: varchar("user_id")
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
+    householdId: varchar("household_id").references(() => households.id, { onDelete: "set null" }),
     itemId: text("item_id").notNull(),
     date: text("date").notNull(),
     meals: jsonb("meals"),
     extraData: jsonb("extra_data"),
     createdAt: timestamp("created_at").defaultNow(),
     updatedAt: timestamp("updated_at").defaultNow(),
+    revision: bigint("revision", { mode: "number" }).notNull().default(nextSyncRevisionDefault),
   },
   (table) => [
     uniqueIndex("idx_user_meal_plans_user_item").on(table.userId, table.itemId),
     index("idx_user_meal_plans_user").on(table.userId),
     index("idx_user_meal_plans_user_date").on(table.userId, table.date),
+    index("idx_user_meal_plans_household").on(table.householdId),
+    index("idx_user_meal_plans_revision").on(table.userId, table.revision),
   ],
 );
 
 export const insertUserMealPlanSchema = createInsertSchema(userMealPlans).omit({
+  revision: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -424,6 +828,7 @@ export const userShoppingItems = pgTable(
     userId: varchar("user_id")
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
+    householdId: varchar("household_id").references(() => households.id, { onDelete: "set null" }),
     itemId: text("item_id").notNull(),
     name: text("name").notNull(),
     quantity: doublePrecision("quantity").notNull().default(1),
@@ -434,16 +839,20 @@ export const userShoppingItems = pgTable(
     extraData: jsonb("extra_data"),
     addedAt: timestamp("added_at").defaultNow(),
     updatedAt: timestamp("updated_at").defaultNow(),
+    revision: bigint("revision", { mode: "number" }).notNull().default(nextSyncRevisionDefault),
   },
   (table) => [
     uniqueIndex("idx_user_shopping_user_item").on(table.userId, table.itemId),
     index("idx_user_shopping_user").on(table.userId),
     index("idx_user_shopping_user_checked").on(table.userId, table.isChecked),
     index("idx_user_shopping_cursor").on(table.userId, table.updatedAt, table.id),
+    index("idx_user_shopping_household").on(table.householdId),
+    index("idx_user_shopping_revision").on(table.userId, table.revision),
   ],
 );
 
 export const insertUserShoppingItemSchema = createInsertSchema(userShoppingItems).omit({
+  revision: true,
   addedAt: true,
   updatedAt: true,
 });
@@ -464,14 +873,17 @@ export const userCookwareItems = pgTable(
     extraData: jsonb("extra_data"),
     addedAt: timestamp("added_at").defaultNow(),
     updatedAt: timestamp("updated_at").defaultNow(),
+    revision: bigint("revision", { mode: "number" }).notNull().default(nextSyncRevisionDefault),
   },
   (table) => [
     uniqueIndex("idx_user_cookware_user_item").on(table.userId, table.itemId),
     index("idx_user_cookware_user").on(table.userId),
+    index("idx_user_cookware_revision").on(table.userId, table.revision),
   ],
 );
 
 export const insertUserCookwareItemSchema = createInsertSchema(userCookwareItems).omit({
+  revision: true,
   addedAt: true,
   updatedAt: true,
 });
@@ -535,6 +947,225 @@ export const insertUserConsumedLogSchema = createInsertSchema(userConsumedLogs).
 export type InsertUserConsumedLog = z.infer<typeof insertUserConsumedLogSchema>;
 export type UserConsumedLog = typeof userConsumedLogs.$inferSelect;
 
+/**
+ * RECIPE COOK EVENTS TABLE
+ *
+ * One row per "cooked it" action. Records what was taken from inventory so the
+ * deduction can be undone.
+ *
+ * Fields:
+ * - recipeId: The saved recipe's itemId
+ * - servings: Servings the ingredient quantities were scaled to
+ * - deductions: Per inventory item, the row as it was before cooking and the
+ *   lots drawn from it (RecipeCookItemSnapshot[])
+ * - consumedEntryIds: entryIds of the user_consumed_logs rows written
+ * - leftoversItemId: itemId of the leftovers inventory item the cook created
+ * - undoneAt: Set once the cook has been undone
+ */
+export const recipeCookEvents = pgTable(
+  "recipe_cook_events",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    householdId: varchar("household_id").references(() => households.id, { onDelete: "set null" }),
+    recipeId: text("recipe_id").notNull(),
+    recipeTitle: text("recipe_title").notNull(),
+    servings: doublePrecision("servings").notNull(),
+    deductions: jsonb("deductions").notNull(),
+    consumedEntryIds: jsonb("consumed_entry_ids").notNull(),
+    leftoversItemId: text("leftovers_item_id"),
+    undoneAt: timestamp("undone_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_recipe_cook_events_user_created").on(table.userId, table.createdAt),
+  ],
+);
+
+export type RecipeCookEvent = typeof recipeCookEvents.$inferSelect;
+
+/**
+ * RECIPE REVISIONS TABLE
+ *
+ * Snapshot of a saved recipe's content each time it changes through recipe
+ * sync, so edits can be compared and earlier versions restored. Only
+ * accepted writes are recorded; stale sync updates never create a revision.
+ *
+ * Fields:
+ * - recipeId: The saved recipe's itemId
+ * - version: 1 for the recipe as first saved, increasing with each change
+ * - notes: The user's own notes on the recipe
+ * - restoredFrom: Version this one was restored from, when the content
+ *   matches an earlier revision
+ */
+export const recipeRevisions = pgTable(
+  "recipe_revisions",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    recipeId: text("recipe_id").notNull(),
+    version: integer("version").notNull(),
+    title: text("title").notNull(),
+    description: text("description"),
+    ingredients: jsonb("ingredients").notNull(),
+    instructions: jsonb("instructions").notNull(),
+    notes: text("notes"),
+    prepTime: integer("prep_time"),
+    cookTime: integer("cook_time"),
+    servings: integer("servings"),
+    restoredFrom: integer("restored_from"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("idx_recipe_revisions_user_recipe_version").on(table.userId, table.recipeId, table.version),
+  ],
+);
+
+export type RecipeRevision = typeof recipeRevisions.$inferSelect;
+
+/**
+ * RECIPE COOK LOGS TABLE
+ *
+ * The user's diary of when they actually made a saved recipe and how it went.
+ * "Cooked it" adds an entry linked to its cook event (and undoing the cook
+ * removes it); entries can also be logged by hand. Ratings feed recipe
+ * generation so it learns what the household likes.
+ *
+ * Fields:
+ * - recipeId: The saved recipe's itemId
+ * - cookEventId: The recipe_cook_events row that created this entry, if any
+ * - rating: 1-5 stars, null until rated
+ * - eaters: Names of who ate it
+ * - photoUri: Photo of the dish, stored on the device like recipe images
+ */
+export const recipeCookLogs = pgTable(
+  "recipe_cook_logs",
+  {
+    id: varchar("id")
+      .primaryKey()
+      .default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    recipeId: text("recipe_id").notNull(),
+    cookEventId: varchar("cook_event_id").references(() => recipeCookEvents.id, { onDelete: "set null" }),
+    cookedAt: timestamp("cooked_at").notNull().defaultNow(),
+    rating: integer("rating"),
+    eaters: jsonb("eaters").notNull(),
+    notes: text("notes"),
+    photoUri: text("photo_uri"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_recipe_cook_logs_user_recipe").on(table.userId, table.recipeId, table.cookedAt),
+  ],
+);
+
+export type RecipeCookLog = typeof recipeCookLogs.$inferSelect;
+
+/**
+ * GROCERY RECEIPTS TABLE
+ * One row per scanned receipt, shared across a household. totalAmount is the
+ * receipt's printed total when readable, otherwise the sum of its priced lines.
+ */
+export const groceryReceipts = pgTable(
+  "grocery_receipts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    householdId: varchar("household_id").references(() => households.id, { onDelete: "set null" }),
+    storeName: text("store_name"),
+    purchaseDate: text("purchase_date").notNull(),
+    totalAmount: doublePrecision("total_amount").notNull(),
+    itemCount: integer("item_count").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_grocery_receipts_user_date").on(table.userId, table.purchaseDate),
+    index("idx_grocery_receipts_household_date").on(table.householdId, table.purchaseDate),
+  ],
+);
+
+export type GroceryReceipt = typeof groceryReceipts.$inferSelect;
+
+/**
+ * ITEM PRICE HISTORY TABLE
+ * One row per priced line on a scanned receipt. Shared across a household.
+ * unitPrice is the price per baseUnit ("g", "ml" or "piece" for known units,
+ * otherwise the receipt's own unit), so purchases in different sizes compare.
+ */
+export const itemPriceHistory = pgTable(
+  "item_price_history",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    householdId: varchar("household_id").references(() => households.id, { onDelete: "set null" }),
+    receiptId: varchar("receipt_id").references(() => groceryReceipts.id, { onDelete: "cascade" }),
+    itemName: text("item_name").notNull(),
+    normalizedName: text("normalized_name").notNull(),
+    category: text("category"),
+    storeName: text("store_name"),
+    purchaseDate: text("purchase_date").notNull(),
+    quantity: doublePrecision("quantity").notNull(),
+    unit: text("unit").notNull(),
+    totalPrice: doublePrecision("total_price").notNull(),
+    unitPrice: doublePrecision("unit_price").notNull(),
+    baseUnit: text("base_unit").notNull(),
+    source: text("source").notNull().default("receipt"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_item_price_history_user_name").on(table.userId, table.normalizedName),
+    index("idx_item_price_history_household_name").on(table.householdId, table.normalizedName),
+    index("idx_item_price_history_user_date").on(table.userId, table.purchaseDate),
+  ],
+);
+
+export type ItemPriceHistory = typeof itemPriceHistory.$inferSelect;
+
+/**
+ * GROCERY BUDGETS TABLE
+ * Monthly grocery budget for a household (or a user without one). A month
+ * without its own row uses the latest earlier month's. categoryBudgets maps
+ * receipt categories to optional per-category limits. lastAlertedMonth records
+ * the last month an over-budget notification went out, so it is sent once.
+ */
+export const groceryBudgets = pgTable(
+  "grocery_budgets",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    householdId: varchar("household_id").references(() => households.id, { onDelete: "cascade" }),
+    month: text("month").notNull(),
+    amount: doublePrecision("amount").notNull(),
+    categoryBudgets: jsonb("category_budgets"),
+    lastAlertedMonth: text("last_alerted_month"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_grocery_budgets_user_month").on(table.userId, table.month),
+    index("idx_grocery_budgets_household_month").on(table.householdId, table.month),
+  ],
+);
+
+export type GroceryBudget = typeof groceryBudgets.$inferSelect;
+
 export const monthlyLogSummaries = pgTable(
   "monthly_log_summaries",
   {
@@ -579,14 +1210,17 @@ export const userStorageLocations = pgTable(
     extraData: jsonb("extra_data"),
     createdAt: timestamp("created_at").defaultNow(),
     updatedAt: timestamp("updated_at").defaultNow(),
+    revision: bigint("revision", { mode: "number" }).notNull().default(nextSyncRevisionDefault),
   },
   (table) => [
     uniqueIndex("idx_user_storage_locations_user_loc").on(table.userId, table.locationId),
     index("idx_user_storage_locations_user").on(table.userId),
+    index("idx_user_storage_locations_revision").on(table.userId, table.revision),
   ],
 );
 
 export const insertUserStorageLocationSchema = createInsertSchema(userStorageLocations).omit({
+  revision: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -616,6 +1250,39 @@ export const insertUserSyncKVSchema = createInsertSchema(userSyncKV).omit({
 export type InsertUserSyncKV = z.infer<typeof insertUserSyncKVSchema>;
 export type UserSyncKV = typeof userSyncKV.$inferSelect;
 
+/**
+ * SYNC TOMBSTONES TABLE
+ *
+ * Records hard deletes of delta-synced rows so other devices learn about them
+ * on their next pull. Each tombstone takes a revision from sync_revision_seq
+ * like any other change.
+ *
+ * Fields:
+ * - dataType: Sync section the row belonged to (e.g., "inventory", "recipes")
+ * - itemId: Client-side id of the deleted row
+ * - householdId: Set when the row was shared, so every member receives it
+ */
+export const syncTombstones = pgTable(
+  "sync_tombstones",
+  {
+    id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    householdId: varchar("household_id").references(() => households.id, { onDelete: "cascade" }),
+    dataType: varchar("data_type", { length: 30 }).notNull(),
+    itemId: text("item_id").notNull(),
+    revision: bigint("revision", { mode: "number" }).notNull().default(nextSyncRevisionDefault),
+    deletedAt: timestamp("deleted_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_sync_tombstones_user_revision").on(table.userId, table.revision),
+    index("idx_sync_tombstones_household_revision").on(table.householdId, table.revision),
+  ],
+);
+
+export type SyncTombstone = typeof syncTombstones.$inferSelect;
+
 // =============================================================================
 // SYNC DATA JSONB SCHEMAS
 // =============================================================================
@@ -629,19 +1296,24 @@ export const syncNutritionSchema = z.object({
   sugar: z.number().optional(),
 }).optional().nullable();
 
+export const syncInventoryLotSchema = z.object({
+  id: z.string(),
+  quantity: z.number().nonnegative(),
+  purchaseDate: z.string().optional().nullable(),
+  expirationDate: z.string().optional().nullable(),
+  storageLocation: z.string().optional().nullable(),
+});
+
 export const syncIngredientSchema = z.object({
   name: z.string(),
   quantity: z.union([z.number(), z.string()]),
   unit: z.string(),
+  preparation: z.string().optional(),
+  notes: z.string().optional(),
+  isOptional: z.boolean().optional(),
   fromInventory: z.boolean().optional(),
 });
 
-export const syncMealSchema = z.object({
-  type: z.string(),
-  recipeId: z.string().optional(),
-  customMeal: z.string().optional(),
-});
-
 export const syncInventoryItemSchema = z.object({
   id: z.union([z.string(), z.number()]),
   name: z.string(),
@@ -658,6 +1330,8 @@ export const syncInventoryItemSchema = z.object({
   imageUri: z.string().optional().nullable(),
   fdcId: z.number().optional().nullable(),
   servingSize: z.string().optional().nullable(),
+  lots: z.array(syncInventoryLotSchema).optional().nullable(),
+  recipeId: z.string().optional().nullable(),
   updatedAt: z.string().optional(),
   deletedAt: z.string().optional().nullable(),
 });
@@ -688,7 +1362,7 @@ export const syncRecipeSchema = z.object({
 export const syncMealPlanSchema = z.object({
   id: z.union([z.string(), z.number()]),
   date: z.string(),
-  meals: z.array(syncMealSchema).optional().nullable(),
+  meals: planMealsSchema.optional().nullable(),
   updatedAt: z.string().optional(),
 }).passthrough();
 
@@ -933,6 +1607,14 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 /** Type for a session retrieved from the database */
 export type UserSession = typeof userSessions.$inferSelect;
+/** Type for a registered passkey retrieved from the database */
+export type PasskeyCredential = typeof passkeyCredentials.$inferSelect;
+/** Type for a user's TOTP enrollment retrieved from the database */
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+/** Type for a personal API key retrieved from the database */
+export type ApiKey = typeof apiKeys.$inferSelect;
+/** Type for an API key request log entry retrieved from the database */
+export type ApiKeyRequestLog = typeof apiKeyRequestLogs.$inferSelect;
 /** Type for sync data retrieved from the database */
 export type UserSyncData = typeof userSyncData.$inferSelect;
 /** Type for a cooking term retrieved from the database */
@@ -1593,6 +2275,61 @@ export const insertRetentionOfferSchema = createInsertSchema(retentionOffers).om
 export type InsertRetentionOffer = z.infer<typeof insertRetentionOfferSchema>;
 export type RetentionOffer = typeof retentionOffers.$inferSelect;
 
+// =============================================================================
+// EMAIL SEND LOG TABLE
+// =============================================================================
+
+/**
+ * One row per templated email. Failed sends are retried by the email retry
+ * job until `attempts` reaches the limit in server/lib/email-templates.
+ *
+ * - category: unsubscribe category ("account" mail can't be unsubscribed from)
+ * - status: "pending" | "sent" | "failed" | "suppressed" (recipient unsubscribed)
+ * - data: template data for re-rendering on retry, encrypted with
+ *   TOKEN_ENCRYPTION_KEY when it is set (reset links carry a live token)
+ */
+export const emailSendLog = pgTable("email_send_log", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  toAddress: text("to_address").notNull(),
+  template: varchar("template", { length: 50 }).notNull(),
+  category: varchar("category", { length: 50 }).notNull(),
+  subject: text("subject").notNull(),
+  data: text("data"),
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  transport: varchar("transport", { length: 20 }),
+  messageId: text("message_id"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_email_send_log_user").on(table.userId),
+  index("idx_email_send_log_retry").on(table.status, table.nextAttemptAt),
+  index("idx_email_send_log_created").on(table.createdAt),
+]);
+
+export type EmailSendLog = typeof emailSendLog.$inferSelect;
+
+// =============================================================================
+// EMAIL UNSUBSCRIBES TABLE
+// =============================================================================
+
+export const emailUnsubscribes = pgTable("email_unsubscribes", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  category: varchar("category", { length: 50 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("idx_email_unsubscribes_user_category").on(table.userId, table.category),
+]);
+
+export type EmailUnsubscribe = typeof emailUnsubscribes.$inferSelect;
+
 // =============================================================================
 // NUTRITION UTILITY FUNCTIONS
 // =============================================================================
@@ -0,0 +1,82 @@
+/**
+ * Field-level three-way merge for delta-synced records.
+ *
+ * A record is the flat client-side shape of a synced row (FoodItem, Recipe,
+ * MealPlan, ...). The merge compares the local edit and the current server copy
+ * against the common base the client last pulled, so edits to different fields
+ * combine cleanly and only edits to the same field are reported as conflicts.
+ */
+
+export type SyncRecord = Record<string, unknown>;
+
+export interface MergeResult {
+  merged: SyncRecord;
+  conflicts: string[];
+}
+
+/** Bookkeeping fields that never take part in a merge. */
+const MERGE_IGNORED_FIELDS = new Set(["id", "updatedAt", "revision"]);
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a == null || b == null) return a == null && b == null;
+  if (typeof a !== typeof b || typeof a !== "object") return false;
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) {
+      return false;
+    }
+    return a.every((value, i) => valuesEqual(value, b[i]));
+  }
+
+  const aObj = a as Record<string, unknown>;
+  const bObj = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aObj), ...Object.keys(bObj)]);
+  for (const key of keys) {
+    if (!valuesEqual(aObj[key], bObj[key])) return false;
+  }
+  return true;
+}
+
+/** Returns the fields whose value differs between two versions of a record. */
+export function diffFields(
+  base: SyncRecord | null,
+  next: SyncRecord,
+): string[] {
+  const from = base ?? {};
+  const keys = new Set([...Object.keys(from), ...Object.keys(next)]);
+  const changed: string[] = [];
+  for (const key of keys) {
+    if (MERGE_IGNORED_FIELDS.has(key)) continue;
+    if (!valuesEqual(from[key], next[key])) {
+      changed.push(key);
+    }
+  }
+  return changed;
+}
+
+/**
+ * Applies the fields changed locally since `base` on top of `remote`. A field
+ * changed on both sides to different values is a conflict: the remote value is
+ * kept and the field name is returned so the caller can ask the user.
+ */
+export function threeWayMerge(
+  base: SyncRecord | null,
+  local: SyncRecord,
+  remote: SyncRecord,
+): MergeResult {
+  const from = base ?? {};
+  const merged: SyncRecord = { ...remote };
+  const conflicts: string[] = [];
+
+  for (const field of diffFields(base, local)) {
+    const remoteChanged = !valuesEqual(remote[field], from[field]);
+    if (!remoteChanged) {
+      merged[field] = local[field];
+    } else if (!valuesEqual(remote[field], local[field])) {
+      conflicts.push(field);
+    }
+  }
+
+  return { merged, conflicts };
+}